@@ -1,11 +1,14 @@
+import { useEffect } from "react";
 import { Toaster } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/NotFound";
 import { Route, Switch, Router } from "wouter";
 import { useHashLocation } from "wouter/use-hash-location";
 import ErrorBoundary from "./components/ErrorBoundary";
+import StartupMigrations from "./components/StartupMigrations";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import { BranchProvider } from "./contexts/BranchContext";
+import { AuthProvider } from "./contexts/AuthContext";
 import Landing from "./pages/Landing";
 import Home from "./pages/Home";
 import PlaceholderApp from "./pages/PlaceholderApp";
@@ -19,9 +22,11 @@ import LetterGenerator from "./pages/LetterGenerator";
 import RLMSSupplementer from "./pages/RLMSSupplementer";
 import BranchPortfolioDashboard from "./pages/BranchPortfolioDashboard";
 import VisitLogBook from "./pages/VisitLogBook";
+import AuditLog from "./pages/AuditLog";
 import FloatingCalculator from "./components/FloatingCalculator";
 import NotificationManager from "./components/NotificationManager";
 import FloatingNotificationBell from "./components/FloatingNotificationBell";
+import { startSync } from "./lib/syncEngine";
 
 function AppRouter() {
   return (
@@ -38,6 +43,7 @@ function AppRouter() {
       <Route path={"/branch-portfolio"} component={BranchPortfolioDashboard} />
       <Route path={"/rlms-supplementer"} component={RLMSSupplementer} />
       <Route path={"/visit-log-book"} component={VisitLogBook} />
+      <Route path={"/audit-log"} component={AuditLog} />
       <Route path={"/404"} component={NotFound} />
       {/* Final fallback route */}
       <Route component={NotFound} />
@@ -45,6 +51,12 @@ function AppRouter() {
   );
 }
 
+// LAN sync with the branch server; starts once the databases are migrated
+function SyncRunner() {
+  useEffect(() => startSync(), []);
+  return null;
+}
+
 // NOTE: About Theme
 // - First choose a default theme according to your design style (dark or light bg), than change color palette in index.css
 //   to keep consistent foreground/background color across components
@@ -57,20 +69,26 @@ function App() {
         defaultTheme="light"
         // switchable
       >
-        <BranchProvider>
-          <TooltipProvider>
-            <Toaster />
-            <NotificationManager />
-            {/* Hash-based routing ensures the app works when opened as a standalone
-                file:// URL without any web server (e.g., index.html on desktop).
-                Routes become /#/path instead of /path. */}
-            <Router hook={useHashLocation}>
-              <AppRouter />
-            </Router>
-            <FloatingCalculator />
-            <FloatingNotificationBell />
-          </TooltipProvider>
-        </BranchProvider>
+        {/* Databases are upgraded before any provider or page opens them */}
+        <StartupMigrations>
+          <SyncRunner />
+          <BranchProvider>
+            <AuthProvider>
+              <TooltipProvider>
+                <Toaster />
+                <NotificationManager />
+                {/* Hash-based routing ensures the app works when opened as a standalone
+                    file:// URL without any web server (e.g., index.html on desktop).
+                    Routes become /#/path instead of /path. */}
+                <Router hook={useHashLocation}>
+                  <AppRouter />
+                </Router>
+                <FloatingCalculator />
+                <FloatingNotificationBell />
+              </TooltipProvider>
+            </AuthProvider>
+          </BranchProvider>
+        </StartupMigrations>
       </ThemeProvider>
     </ErrorBoundary>
   );
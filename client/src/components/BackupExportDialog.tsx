@@ -0,0 +1,104 @@
+/**
+ * Export Backup — Branch Manager only.
+ * Asks for a passphrase and downloads an encrypted backup of all app data.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Lock } from "lucide-react";
+import { createEncryptedBackup, downloadBackup, MIN_BACKUP_PASSPHRASE_LENGTH } from "@/lib/dataBackup";
+
+interface BackupExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function BackupExportDialog({ open, onOpenChange }: BackupExportDialogProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [exporting, setExporting] = useState(false);
+
+  const close = () => {
+    setPassphrase("");
+    setConfirmPassphrase("");
+    onOpenChange(false);
+  };
+
+  const error =
+    passphrase.length > 0 && passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH
+      ? `At least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`
+      : confirmPassphrase && confirmPassphrase !== passphrase
+        ? "Passphrases do not match"
+        : null;
+  const canExport = passphrase.length >= MIN_BACKUP_PASSPHRASE_LENGTH && confirmPassphrase === passphrase;
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const file = await createEncryptedBackup(passphrase);
+      downloadBackup(file, `SBI_Branch_Backup_${new Date().toISOString().split("T")[0]}.json`);
+      toast.success("Encrypted backup downloaded");
+      close();
+    } catch (err: any) {
+      console.error("Export failed:", err);
+      toast.error(err.message || "Failed to export data");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => (o ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold" style={{ color: "#4e1a74" }}>Export Encrypted Backup</DialogTitle>
+          <DialogDescription>
+            The backup contains customer data and is encrypted with this passphrase. Without it the file cannot be
+            restored — keep the passphrase separately from the pen drive.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="backup-passphrase">Passphrase</Label>
+            <Input
+              id="backup-passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoComplete="new-password"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="backup-passphrase-confirm">Confirm Passphrase</Label>
+            <Input
+              id="backup-passphrase-confirm"
+              type="password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              autoComplete="new-password"
+              onKeyDown={(e) => e.key === "Enter" && canExport && !exporting && handleExport()}
+            />
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 mt-2">
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button
+            onClick={handleExport}
+            disabled={!canExport || exporting}
+            className="gap-2 bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white"
+          >
+            <Lock className="w-4 h-4" />
+            {exporting ? "Encrypting..." : "Export Backup"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * Restore Backup — Branch Manager only.
+ * Reads a backup file, shows its manifest, and restores the chosen apps either
+ * merged into or replacing the data on this PC.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Lock, LockOpen, Upload } from "lucide-react";
+import {
+  readBackupFile,
+  unlockBackup,
+  restoreBackup,
+  AUDIT_TRAIL_APP,
+  OpenedBackup,
+  RestoreMode,
+} from "@/lib/dataBackup";
+
+interface BackupRestoreDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function BackupRestoreDialog({ open, onOpenChange }: BackupRestoreDialogProps) {
+  const [backup, setBackup] = useState<OpenedBackup | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [selectedApps, setSelectedApps] = useState<string[]>([]);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [restoring, setRestoring] = useState(false);
+
+  const reset = () => {
+    setBackup(null);
+    setFileName("");
+    setFileError(null);
+    setPassphrase("");
+    setSelectedApps([]);
+    setMode("merge");
+  };
+
+  const close = () => {
+    reset();
+    onOpenChange(false);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      const opened = readBackupFile(await file.text());
+      setBackup(opened);
+      setSelectedApps(Object.keys(opened.manifest.apps).filter((app) => app !== AUDIT_TRAIL_APP));
+    } catch (err: any) {
+      setFileError(err.message || "Invalid backup file");
+    }
+  };
+
+  const toggleApp = (app: string) => {
+    setSelectedApps((prev) => (prev.includes(app) ? prev.filter((a) => a !== app) : [...prev, app]));
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    if (
+      mode === "replace" &&
+      !confirm(`Replace the data of ${selectedApps.length} app(s) on this PC with the backup? Records not in the backup will be deleted.`)
+    ) {
+      return;
+    }
+
+    setRestoring(true);
+    try {
+      const data = await unlockBackup(backup, passphrase);
+      const result = await restoreBackup(data, { apps: selectedApps, mode });
+      if (result.success) {
+        alert(result.message + " The page will now reload.");
+        window.location.reload();
+      } else {
+        toast.error("Import failed: " + result.message);
+      }
+    } catch (err: any) {
+      console.error("Restore failed:", err);
+      toast.error(err.message || "Failed to restore backup");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const apps = backup ? Object.entries(backup.manifest.apps).sort(([a], [b]) => a.localeCompare(b)) : [];
+  const canRestore = !!backup && selectedApps.length > 0 && (!backup.encrypted || passphrase.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => (o ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold" style={{ color: "#4e1a74" }}>Restore Backup</DialogTitle>
+          <DialogDescription>Choose a backup file, then pick which apps to restore.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 px-3 py-2 border border-dashed border-gray-300 rounded-lg text-sm text-gray-600 cursor-pointer hover:bg-gray-50">
+            <Upload className="w-4 h-4" />
+            <span className="truncate">{fileName || "Select backup file (.json)"}</span>
+            <input type="file" accept=".json" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+          </label>
+          {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+
+          {backup && (
+            <>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-600">
+                  Created {new Date(backup.manifest.createdAt).toLocaleString("en-IN")}
+                </span>
+                {backup.encrypted ? (
+                  <span className="flex items-center gap-1 text-green-700"><Lock className="w-4 h-4" /> Encrypted</span>
+                ) : (
+                  <span className="flex items-center gap-1 text-amber-700"><LockOpen className="w-4 h-4" /> Not encrypted (older backup)</span>
+                )}
+              </div>
+
+              <div className="border border-gray-200 rounded-lg divide-y">
+                {apps.map(([app, count]) => {
+                  const excluded = app === AUDIT_TRAIL_APP;
+                  return (
+                    <label key={app} className={`flex items-center justify-between px-3 py-2 text-sm ${excluded ? "text-gray-400" : "text-gray-700"}`}>
+                      <span className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={!excluded && selectedApps.includes(app)}
+                          disabled={excluded}
+                          onChange={() => toggleApp(app)}
+                        />
+                        {app}
+                        {excluded && <span className="text-xs">(never restored)</span>}
+                      </span>
+                      <span className="text-xs text-gray-500">{count.toLocaleString("en-IN")} record(s)</span>
+                    </label>
+                  );
+                })}
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm">Restore Mode</Label>
+                <label className="flex items-start gap-2 text-sm text-gray-700">
+                  <input type="radio" name="restore-mode" checked={mode === "merge"} onChange={() => setMode("merge")} className="mt-1" />
+                  <span><strong>Merge</strong> — add the backup's records; records with the same key are overwritten, everything else on this PC is kept.</span>
+                </label>
+                <label className="flex items-start gap-2 text-sm text-gray-700">
+                  <input type="radio" name="restore-mode" checked={mode === "replace"} onChange={() => setMode("replace")} className="mt-1" />
+                  <span><strong>Replace</strong> — delete this PC's data for the selected apps, then restore the backup.</span>
+                </label>
+              </div>
+
+              {backup.encrypted && (
+                <div className="space-y-1">
+                  <Label htmlFor="restore-passphrase">Passphrase</Label>
+                  <Input
+                    id="restore-passphrase"
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    autoComplete="off"
+                  />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 mt-2">
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button
+            onClick={handleRestore}
+            disabled={!canRestore || restoring}
+            className="bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white"
+          >
+            {restoring ? "Restoring..." : "Restore"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,405 @@
+/**
+ * Legal Proceedings — SARFAESI / DRT / RRC workflow of one NPA account
+ * (see lib/legalProceedings.ts). Records each step, shows the 60-day clock of
+ * the 13(2) notice and prints the 13(2) demand and 13(4) possession notices
+ * with a reference number from the Dak register.
+ * Opened from the Asset Quality NPA list.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { AlarmClock, CheckCircle2, Circle, Gavel, Printer, Trash2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBranch } from "@/contexts/BranchContext";
+import { generateReferenceNumber } from "@/lib/refNumberEngine";
+import { toISODate } from "@/lib/portfolioTransform";
+import {
+  DEMAND_NOTICE_DAYS,
+  LEGAL_STAGES,
+  PUBLICATION_DAYS,
+  LegalCase,
+  LegalStage,
+  LegalStep,
+  addDaysISO,
+  caseDeadlines,
+  deleteLegalStep,
+  earliestPossessionDate,
+  getLegalCase,
+  recordLegalStep,
+  stageLabel,
+  stageOf,
+  validateStep,
+} from "@/lib/legalProceedings";
+
+export interface LegalAccount {
+  accountNo: string;
+  customerName: string;
+  fatherName?: string;
+  address: string[];
+  outstanding: number;
+  npaDate?: string;     // display form
+  loanSegment?: string;
+}
+
+interface LegalProceedingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: LegalAccount | null;
+  onChanged?: () => void; // a step was recorded or deleted
+}
+
+interface BranchDetails {
+  branchName?: string;
+  address1?: string;
+  address2?: string;
+  state?: string;
+  pinCode?: string;
+}
+
+function fmtDate(iso: string | undefined): string {
+  if (!iso) return "";
+  const [y, m, d] = iso.split("-");
+  return `${d}/${m}/${y}`;
+}
+
+function daysFrom(fromISO: string, toISO: string): number {
+  const from = new Date(`${fromISO}T00:00:00`).getTime();
+  const to = new Date(`${toISO}T00:00:00`).getTime();
+  return Math.round((to - from) / 86_400_000);
+}
+
+function inr(n: number): string {
+  return n.toLocaleString("en-IN", { maximumFractionDigits: 2 });
+}
+
+// ============================================================
+// Notices
+// ============================================================
+function noticeBody(stage: LegalStage, account: LegalAccount, step: LegalStep, legalCase: LegalCase | null): string {
+  const assets = step.details ? `<p class="assets"><strong>Description of the secured asset(s):</strong><br/>${step.details.replace(/\n/g, "<br/>")}</p>` : "";
+  if (stage === "demand-notice") {
+    const amount = inr(step.amount ?? account.outstanding);
+    return `
+      <p class="title">DEMAND NOTICE UNDER SECTION 13(2) OF THE SECURITISATION AND RECONSTRUCTION OF FINANCIAL ASSETS AND ENFORCEMENT OF SECURITY INTEREST ACT, 2002</p>
+      <p class="subject-line">YOUR ${account.loanSegment || "LOAN"} ACCOUNT NO. ${account.accountNo}</p>
+      <ol>
+        <li>You have availed the captioned credit facility from the Bank and created security interest in favour of the Bank over the secured asset(s) described below.</li>
+        <li>As you have defaulted in repayment, the account has been classified as a Non-Performing Asset${account.npaDate ? ` on <strong>${account.npaDate}</strong>` : ""} in accordance with the directions of the Reserve Bank of India.</li>
+        <li>An amount of <strong>&#8377; ${amount}</strong> is outstanding as on the date of this notice, together with further interest, costs and charges until the date of payment.</li>
+        <li>You are hereby called upon to discharge in full your liabilities to the Bank within ${DEMAND_NOTICE_DAYS} days from the date of this notice, failing which the Bank will be entitled to exercise all or any of the rights under Section 13(4) of the Act.</li>
+        <li>Your attention is invited to Section 13(8) of the Act in respect of the time available to redeem the secured asset(s). Under Section 13(13) you shall not transfer, by way of sale, lease or otherwise, any of the secured assets without the prior written consent of the Bank.</li>
+      </ol>
+      ${assets}`;
+  }
+  const demand = stageOf(legalCase, "demand-notice");
+  const amount = inr(demand?.amount ?? account.outstanding);
+  return `
+    <p class="title">POSSESSION NOTICE (FOR IMMOVABLE PROPERTY)<br/>[Appendix IV, Rule 8(1) of the Security Interest (Enforcement) Rules, 2002]</p>
+    <p>Whereas the undersigned, being the Authorised Officer of State Bank of India under the Securitisation and Reconstruction of Financial Assets and Enforcement of Security Interest Act, 2002, and in exercise of powers conferred under Section 13(12) read with Rule 3 of the Security Interest (Enforcement) Rules, 2002, issued a demand notice${demand ? ` dated <strong>${fmtDate(demand.date)}</strong>${demand.refNo ? ` (No. ${demand.refNo})` : ""}` : ""} calling upon the borrower <strong>${account.customerName}</strong> to repay the amount mentioned in the notice being <strong>&#8377; ${amount}</strong> within ${DEMAND_NOTICE_DAYS} days from the date of the said notice.</p>
+    <p>The borrower having failed to repay the amount, notice is hereby given to the borrower and the public in general that the undersigned has taken possession of the property described herein below in exercise of powers conferred under Section 13(4) of the said Act read with Rule 8 of the said Rules on <strong>${fmtDate(step.date)}</strong>.</p>
+    <p>The borrower in particular and the public in general are hereby cautioned not to deal with the property, and any dealings with the property will be subject to the charge of State Bank of India for an amount of &#8377; ${amount} and interest thereon.</p>
+    <p>The borrower's attention is invited to the provisions of sub-section (8) of Section 13 of the Act, in respect of the time available to redeem the secured assets.</p>
+    ${assets}`;
+}
+
+function printNotice(stage: LegalStage, account: LegalAccount, step: LegalStep, legalCase: LegalCase | null, branch: BranchDetails) {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) { toast.error("Please allow popups to print notices."); return; }
+  const addressLines = account.address.filter(Boolean).map((l) => `<p>${l}</p>`).join("");
+  printWindow.document.write(`
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8" />
+      <title>${stageLabel(stage)} — ${account.accountNo}</title>
+      <style>
+        @page { size: A4; margin: 1.8cm 2cm; }
+        body { font-family: 'Times New Roman', Georgia, serif; font-size: 12pt; line-height: 1.55; color: #000; margin: 0; }
+        .address-block { margin: 16px 0 12px 0; }
+        .address-block p { margin: 2px 0; }
+        .ref-line { display: flex; justify-content: space-between; margin: 14px 0; font-size: 11pt; }
+        .title { text-align: center; font-weight: bold; margin: 14px 0; }
+        .subject-line { font-weight: bold; text-decoration: underline; margin: 6px 0 12px 0; }
+        p { text-align: justify; }
+        ol { padding-left: 22px; }
+        ol li { margin-bottom: 10px; text-align: justify; }
+        .assets { margin-top: 14px; }
+        .signature { margin-top: 36px; }
+        .signature p { margin: 3px 0; }
+        .sig-gap { height: 44px; }
+      </style>
+    </head>
+    <body>
+      <div class="address-block">
+        <p>To,</p>
+        <p><strong>Shri/Smt/Kum ${account.customerName}</strong></p>
+        ${account.fatherName ? `<p>S/o, W/o, D/o <strong>${account.fatherName}</strong></p>` : ""}
+        ${addressLines}
+      </div>
+      <div class="ref-line">
+        <span>Letter No: <strong>${step.refNo || ""}</strong></span>
+        <span>Dated: <strong>${fmtDate(step.date)}</strong></span>
+      </div>
+      ${noticeBody(stage, account, step, legalCase)}
+      <div class="signature">
+        <p class="sig-gap"></p>
+        <p><strong>Authorised Officer</strong></p>
+        <p>State Bank of India</p>
+        <p>${branch.branchName || "Branch"}</p>
+        ${branch.address1 ? `<p>${branch.address1}</p>` : ""}
+        ${branch.address2 ? `<p>${branch.address2}</p>` : ""}
+        <p>${branch.state || ""}, PIN - ${branch.pinCode || ""}</p>
+      </div>
+    </body>
+    </html>`);
+  printWindow.document.close();
+  setTimeout(() => printWindow.print(), 600);
+}
+
+// ============================================================
+// Dialog
+// ============================================================
+const emptyForm = (stage: LegalStage, outstanding: number) => ({
+  stage,
+  date: toISODate(new Date()),
+  amount: stage === "demand-notice" && outstanding ? String(Math.round(outstanding)) : "",
+  refNo: "",
+  details: "",
+  generate: true,
+});
+
+function nextStage(legalCase: LegalCase | null): LegalStage {
+  return LEGAL_STAGES.find((s) => !stageOf(legalCase, s.value))?.value ?? "drt-filing";
+}
+
+export default function LegalProceedingsDialog({ open, onOpenChange, account, onChanged }: LegalProceedingsDialogProps) {
+  const { currentUser, can } = useAuth();
+  const { branchCode, branchName, address1, address2, state, pinCode } = useBranch();
+  const branch: BranchDetails = { branchName, address1, address2, state, pinCode };
+  const [legalCase, setLegalCase] = useState<LegalCase | null>(null);
+  const [form, setForm] = useState(emptyForm("demand-notice", 0));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !account) return;
+    getLegalCase(account.accountNo)
+      .then((c) => {
+        setLegalCase(c);
+        setForm(emptyForm(nextStage(c), account.outstanding));
+      })
+      .catch((err) => {
+        console.error("Failed to load legal case:", err);
+        toast.error("Failed to load the legal proceedings");
+      });
+  }, [open, account]);
+
+  const stageInfo = LEGAL_STAGES.find((s) => s.value === form.stage)!;
+  const validation = validateStep(legalCase, form.stage, form.date);
+  const deadlines = useMemo(() => caseDeadlines(legalCase), [legalCase]);
+  const today = toISODate(new Date());
+
+  const setStage = (stage: LegalStage) => {
+    const earliest = earliestPossessionDate(legalCase);
+    const date = (stage === "possession-notice" || stage === "symbolic-possession") && earliest && earliest > form.date ? earliest : form.date;
+    setForm({ ...emptyForm(stage, account?.outstanding ?? 0), date });
+  };
+
+  const handleSave = async () => {
+    if (!account || validation) return;
+    setSaving(true);
+    try {
+      let refNo = form.refNo.trim();
+      const printing = stageInfo.document && form.generate;
+      if (printing) {
+        const [y, m, d] = form.date.split("-");
+        const fyStart = parseInt(m, 10) >= 4 ? parseInt(y, 10) : parseInt(y, 10) - 1;
+        const result = await generateReferenceNumber({
+          branchCode: branchCode || "_____",
+          financialYear: `${String(fyStart).slice(-2)}-${String(fyStart + 1).slice(-2)}`,
+          monthNo: m,
+          dateDisplay: `${d}-${m}-${y}`,
+          letterType: "Notices",
+          letterDestination: "Customer",
+          recipientDetails: account.customerName || account.accountNo,
+          subject: `SARFAESI ${stageInfo.label} dt. ${d}/${m}/${y} - A/c ${account.accountNo}`,
+          remarks: "Auto-generated",
+        });
+        refNo = result.refNo;
+      }
+      const step: Omit<LegalStep, "recordedAt"> = {
+        stage: form.stage,
+        date: form.date,
+        refNo: refNo || undefined,
+        amount: form.stage === "demand-notice" && Number(form.amount) > 0 ? Number(form.amount) : undefined,
+        details: form.details.trim() || undefined,
+        recordedBy: currentUser?.username ?? null,
+      };
+      const updated = await recordLegalStep(account.accountNo, account.customerName, step);
+      setLegalCase(updated);
+      setForm(emptyForm(nextStage(updated), account.outstanding));
+      toast.success(`${stageInfo.label} recorded${refNo ? ` (${refNo})` : ""}`);
+      if (printing) printNotice(form.stage, account, { ...step, recordedAt: Date.now() }, updated, branch);
+      onChanged?.();
+    } catch (err: any) {
+      console.error("Failed to record legal step:", err);
+      toast.error(err.message || "Failed to record the step");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (stage: LegalStage) => {
+    if (!account || !confirm(`Delete the recorded ${stageLabel(stage)}?`)) return;
+    try {
+      setLegalCase(await deleteLegalStep(account.accountNo, stage));
+      onChanged?.();
+    } catch (err: any) {
+      toast.error(err.message || "Failed to delete the step");
+    }
+  };
+
+  if (!account) return null;
+
+  const demand = stageOf(legalCase, "demand-notice");
+  const possession = stageOf(legalCase, "possession-notice");
+  const clockDay = demand && !possession ? daysFrom(demand.date, today) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold flex items-center gap-2" style={{ color: "#4e1a74" }}>
+            <Gavel className="w-5 h-5" /> Legal Proceedings — {account.accountNo}
+          </DialogTitle>
+          <DialogDescription>
+            {account.customerName}. SARFAESI notices, possession and DRT / RRC filing.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* 60-day clock */}
+        {clockDay !== null && (
+          <div className={`rounded-lg border p-3 text-sm flex items-center gap-2 ${
+            clockDay > DEMAND_NOTICE_DAYS ? "bg-red-50 border-red-200 text-red-800" : "bg-amber-50 border-amber-200 text-amber-800"
+          }`}>
+            <AlarmClock className="w-4 h-4 shrink-0" />
+            {clockDay > DEMAND_NOTICE_DAYS
+              ? `60-day period of the 13(2) notice ended ${clockDay - DEMAND_NOTICE_DAYS} day(s) ago — issue the 13(4) possession notice.`
+              : `Day ${Math.max(0, clockDay)} of ${DEMAND_NOTICE_DAYS} since the 13(2) notice. 13(4) possession notice can be issued from ${fmtDate(earliestPossessionDate(legalCase)!)}.`}
+          </div>
+        )}
+
+        {/* Stages */}
+        <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+          {LEGAL_STAGES.map((s) => {
+            const step = stageOf(legalCase, s.value);
+            return (
+              <div key={s.value} className="flex items-center justify-between gap-2 px-4 py-2 text-sm">
+                <div className="flex items-center gap-2">
+                  {step ? <CheckCircle2 className="w-4 h-4 text-green-600" /> : <Circle className="w-4 h-4 text-gray-300" />}
+                  <span className={step ? "font-medium text-gray-800" : "text-gray-400"}>{s.label}</span>
+                </div>
+                {step && (
+                  <div className="flex items-center gap-2 text-xs text-gray-600">
+                    <span>{fmtDate(step.date)}</span>
+                    {step.refNo && <span className="font-mono">{step.refNo}</span>}
+                    {step.amount ? <span>₹{inr(step.amount)}</span> : null}
+                    {s.document && (
+                      <button onClick={() => printNotice(s.value, account, step, legalCase, branch)} className="text-gray-400 hover:text-purple-700 p-1" title="Print again">
+                        <Printer className="w-4 h-4" />
+                      </button>
+                    )}
+                    {can("recovery.manage") && (
+                      <button onClick={() => handleDelete(s.value)} className="text-gray-400 hover:text-red-600 p-1" title="Delete step">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Deadlines */}
+        {deadlines.length > 0 && (
+          <div className="text-xs space-y-1">
+            <p className="font-semibold" style={{ color: "#4e1a74" }}>Deadlines (also in Reminders)</p>
+            {deadlines.map((d) => (
+              <p key={d.key} className={d.due < today ? "text-red-700" : "text-gray-700"}>
+                {fmtDate(d.due)} — {d.label}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {/* Record a step */}
+        {can("records.create") && (
+          <div className="bg-white rounded-xl border border-gray-200 p-4 shadow-sm space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="legal-stage">Step</Label>
+                <select
+                  id="legal-stage"
+                  value={form.stage}
+                  onChange={(e) => setStage(e.target.value as LegalStage)}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+                >
+                  {LEGAL_STAGES.map((s) => (
+                    <option key={s.value} value={s.value}>{s.label}{stageOf(legalCase, s.value) ? " (re-record)" : ""}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="legal-date">Date</Label>
+                <Input id="legal-date" type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} />
+              </div>
+              {form.stage === "demand-notice" && (
+                <div className="space-y-1">
+                  <Label htmlFor="legal-amount">Amount Demanded (₹)</Label>
+                  <Input id="legal-amount" type="number" min="0" value={form.amount} onChange={(e) => setForm({ ...form, amount: e.target.value })} />
+                </div>
+              )}
+              {(!stageInfo.document || !form.generate) && (
+                <div className="space-y-1">
+                  <Label htmlFor="legal-ref">
+                    {form.stage === "drt-filing" ? "DRT OA No." : form.stage === "rrc-filing" ? "RRC No." : "Reference No."}
+                  </Label>
+                  <Input id="legal-ref" value={form.refNo} onChange={(e) => setForm({ ...form, refNo: e.target.value })} />
+                </div>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="legal-details">{stageInfo.document ? "Secured asset(s) — printed on the notice" : "Details"}</Label>
+              <Textarea id="legal-details" rows={2} value={form.details} onChange={(e) => setForm({ ...form, details: e.target.value })} />
+            </div>
+            {stageInfo.document && (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={form.generate} onChange={(e) => setForm({ ...form, generate: e.target.checked })} />
+                Generate reference number and print the notice
+              </label>
+            )}
+            {validation && form.date && <p className="text-xs text-red-600">{validation}</p>}
+            {form.stage === "possession-notice" && !validation && (
+              <p className="text-xs text-gray-500">Possession notice must be published in two newspapers by {fmtDate(addDaysISO(form.date, PUBLICATION_DAYS))}.</p>
+            )}
+            <div className="flex justify-end">
+              <Button
+                onClick={handleSave}
+                disabled={!!validation || saving}
+                className="gap-2 bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white"
+              >
+                <Gavel className="w-4 h-4" />
+                {saving ? "Saving..." : stageInfo.document && form.generate ? "Record & Print" : "Record Step"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
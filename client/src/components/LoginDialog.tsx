@@ -0,0 +1,169 @@
+/**
+ * Shared sign-in dialog used by every app.
+ * On a fresh install (no user accounts yet) it offers to create the first
+ * Branch Manager account instead of asking for a password.
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { createUser, hasAnyUser } from "@/lib/auth";
+
+interface LoginDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function LoginDialog({ open, onOpenChange }: LoginDialogProps) {
+  const { login } = useAuth();
+  const [setupMode, setSetupMode] = useState(false);
+  const [username, setUsername] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setError("");
+    setPassword("");
+    setConfirmPassword("");
+    hasAnyUser()
+      .then((exists) => setSetupMode(!exists))
+      .catch((err) => console.error("Failed to check user accounts:", err));
+  }, [open]);
+
+  const handleLogin = async () => {
+    if (!username || !password) {
+      setError("Enter username and password");
+      return;
+    }
+    setBusy(true);
+    try {
+      const ok = await login(username, password);
+      if (ok) {
+        toast.success(`Logged in as ${username}`);
+        setUsername("");
+        onOpenChange(false);
+      } else {
+        setError("Invalid credentials");
+      }
+    } catch (err: any) {
+      setError(err.message || "Failed to log in");
+    } finally {
+      setBusy(false);
+      setPassword("");
+    }
+  };
+
+  const handleSetup = async () => {
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+    setBusy(true);
+    try {
+      await createUser({ username, displayName, role: "Branch Manager", password });
+      await login(username, password);
+      toast.success("Branch Manager account created");
+      setUsername("");
+      setDisplayName("");
+      onOpenChange(false);
+    } catch (err: any) {
+      setError(err.message || "Failed to create account");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submit = setupMode ? handleSetup : handleLogin;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold" style={{ color: "#4e1a74" }}>
+            {setupMode ? "Create Branch Manager Account" : "Login"}
+          </DialogTitle>
+          {setupMode && (
+            <DialogDescription>
+              No user accounts exist yet. Create the first account — it will be able to add other users from the home page.
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="login-username" className="text-sm font-medium text-gray-700">Username</Label>
+            <Input
+              id="login-username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Enter username"
+              className="border-gray-300 focus:ring-2 focus:ring-purple-500"
+              autoFocus
+            />
+          </div>
+          {setupMode && (
+            <div className="space-y-2">
+              <Label htmlFor="login-display-name" className="text-sm font-medium text-gray-700">Full Name</Label>
+              <Input
+                id="login-display-name"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                placeholder="Name shown on records"
+                className="border-gray-300 focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="login-password" className="text-sm font-medium text-gray-700">Password</Label>
+            <Input
+              id="login-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && !setupMode && submit()}
+              placeholder={setupMode ? "At least 8 characters, letters and numbers" : "Enter password"}
+              className="border-gray-300 focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+          {setupMode && (
+            <div className="space-y-2">
+              <Label htmlFor="login-confirm-password" className="text-sm font-medium text-gray-700">Confirm Password</Label>
+              <Input
+                id="login-confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && submit()}
+                className="border-gray-300 focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <div className="flex gap-3">
+          <Button
+            onClick={submit}
+            disabled={busy}
+            className="flex-1 bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white"
+          >
+            {setupMode ? "Create & Login" : "Login"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="flex-1 bg-gray-200 text-gray-700 hover:bg-gray-300"
+          >
+            Cancel
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
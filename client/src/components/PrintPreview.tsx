@@ -2,7 +2,7 @@ import { useRef, useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { X, Printer } from "lucide-react";
 import { useBranch } from "@/contexts/BranchContext";
-import { loadData, saveData } from "@/lib/db";
+import { generateMultipleReferenceNumbers } from "@/lib/refNumberEngine";
 import type { NoticeTemplate, TemplateElement } from "./TemplateDesigner";
 
 interface LoanAccount {
@@ -26,7 +26,7 @@ interface PrintPreviewProps {
   onClose: () => void;
 }
 
-interface DakRecord {
+export interface DakRecord {
   id: number;
   refNo: string;
   serialNo: string;
@@ -38,10 +38,9 @@ interface DakRecord {
   recipientDetails: string;
   subject: string;
   remarks: string;
+  series?: string; // series code of the ref-number format; absent for the default series
 }
 
-const DAK_STORAGE_KEY = "dak-records";  // Unified key used by refNumberEngine
-
 function getTodayInfo() {
   const now = new Date();
   const d = String(now.getDate()).padStart(2, "0");
@@ -59,23 +58,6 @@ function getTodayInfo() {
   };
 }
 
-function generateSerial(records: DakRecord[], fy: string): string {
-  const sameFy = records.filter(r => r.financialYear === fy);
-  if (!sameFy.length) return "0001";
-  const max = Math.max(...sameFy.map(r => parseInt(r.serialNo || "0", 10)));
-  return String(max + 1).padStart(4, "0");
-}
-
-function buildRef(fy: string, month: string, serial: string, branchCode: string): string {
-  return `SBI/${branchCode}/${fy}/${month}/${serial}`;
-}
-
-async function loadUnifiedDakRecords(): Promise<DakRecord[]> {
-  // Uses unified key from refNumberEngine for consistency across all apps
-  const records = (await loadData(DAK_STORAGE_KEY)) || [];
-  return Array.isArray(records) ? records : [];
-}
-
 export default function PrintPreview({ account, accounts, template, onClose }: PrintPreviewProps) {
   const { branchCode } = useBranch();
   const printRef = useRef<HTMLDivElement>(null);
@@ -102,37 +84,31 @@ export default function PrintPreview({ account, accounts, template, onClose }: P
       setIsPreparingRefs(true);
 
       try {
-        const existingRecords = await loadUnifiedDakRecords();
         const { dateDisplay, monthNo, fyLabel } = getTodayInfo();
 
-        const currentSerial = parseInt(generateSerial(existingRecords, fyLabel), 10);
-        const refsByAccount: Record<string, string> = {};
-
-        const newRecords: DakRecord[] = targetAccounts.map((acc, idx) => {
-          const serial = String(currentSerial + idx).padStart(4, "0");
-          const refNo = buildRef(fyLabel, monthNo, serial, branchCode);
-          refsByAccount[acc.account_no] = refNo;
-
-          const recipientDetails = [acc.customer_name, acc.address1, acc.address2, acc.address3]
-            .filter(Boolean)
-            .join(", ");
-
-          return {
-            id: Date.now() + idx,
-            refNo,
-            serialNo: serial,
+        // Serials come from the central engine so notices and letters issued
+        // from other tabs never share a number
+        const results = await generateMultipleReferenceNumbers(
+          targetAccounts.map((acc) => ({
+            branchCode,
             financialYear: fyLabel,
             monthNo,
             dateDisplay,
             letterType: "Notices",
             letterDestination: "Customer",
-            recipientDetails,
+            recipientDetails: [acc.customer_name, acc.address1, acc.address2, acc.address3]
+              .filter(Boolean)
+              .join(", "),
             subject: `Loan Recovery Notice - A/C ${acc.account_no}`,
             remarks: `Outstanding: ${acc.outstanding || "N/A"}`,
-          };
+          }))
+        );
+
+        const refsByAccount: Record<string, string> = {};
+        targetAccounts.forEach((acc, idx) => {
+          refsByAccount[acc.account_no] = results[idx].refNo;
         });
 
-        await saveData(DAK_STORAGE_KEY, [...existingRecords, ...newRecords]);
         setAccountRefMap(refsByAccount);
         hasPreparedDakRecords.current = true;
       } catch (error) {
@@ -0,0 +1,261 @@
+/**
+ * Recovery Diary — timeline of recovery actions for one stressed/NPA account
+ * with a form to record a new one (see lib/recoveryDiary.ts).
+ * Opened from NPA Tracking and the Asset Quality NPA list.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { CalendarClock, Plus, Trash2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { toISODate } from "@/lib/portfolioTransform";
+import {
+  RECOVERY_ACTION_TYPES,
+  RecoveryAction,
+  RecoveryActionType,
+  actionTypeLabel,
+  addRecoveryAction,
+  deleteRecoveryAction,
+  getRecoveryActions,
+} from "@/lib/recoveryDiary";
+
+interface RecoveryDiaryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accountNo: string;
+  customerName?: string;
+  onChanged?: () => void; // an action was added or deleted
+}
+
+const TYPE_STYLES: Record<RecoveryActionType, string> = {
+  call: "bg-blue-100 text-blue-700",
+  "field-visit": "bg-indigo-100 text-indigo-700",
+  notice: "bg-amber-100 text-amber-700",
+  "promise-to-pay": "bg-purple-100 text-purple-700",
+  "part-recovery": "bg-green-100 text-green-700",
+  legal: "bg-red-100 text-red-700",
+  other: "bg-gray-100 text-gray-700",
+};
+
+function fmtDate(iso: string | undefined): string {
+  if (!iso) return "";
+  return new Date(`${iso}T00:00:00`).toLocaleDateString("en-IN");
+}
+
+const emptyForm = () => ({
+  type: "call" as RecoveryActionType,
+  date: toISODate(new Date()),
+  notes: "",
+  amount: "",
+  promiseDate: "",
+  nextAction: "",
+  nextActionDate: "",
+});
+
+export default function RecoveryDiaryDialog({ open, onOpenChange, accountNo, customerName, onChanged }: RecoveryDiaryDialogProps) {
+  const { currentUser, can } = useAuth();
+  const [actions, setActions] = useState<RecoveryAction[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [form, setForm] = useState(emptyForm());
+  const [saving, setSaving] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setActions(await getRecoveryActions(accountNo));
+    } catch (err: any) {
+      console.error("Failed to load recovery diary:", err);
+      toast.error(err.message || "Failed to load the recovery diary");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open && accountNo) {
+      setForm(emptyForm());
+      load();
+    }
+  }, [open, accountNo]);
+
+  const hasAmount = form.type === "part-recovery" || form.type === "promise-to-pay";
+  const canSave = !!form.date && (form.notes.trim().length > 0 || (hasAmount && Number(form.amount) > 0)) && can("records.create");
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await addRecoveryAction(accountNo, {
+        type: form.type,
+        date: form.date,
+        notes: form.notes.trim(),
+        amount: hasAmount && Number(form.amount) > 0 ? Number(form.amount) : undefined,
+        promiseDate: form.type === "promise-to-pay" && form.promiseDate ? form.promiseDate : undefined,
+        nextAction: form.nextAction.trim() || undefined,
+        nextActionDate: form.nextActionDate || undefined,
+        createdBy: currentUser?.username ?? null,
+      });
+      toast.success("Recovery action recorded");
+      setForm(emptyForm());
+      await load();
+      onChanged?.();
+    } catch (err: any) {
+      console.error("Failed to save recovery action:", err);
+      toast.error(err.message || "Failed to save the recovery action");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (action: RecoveryAction) => {
+    if (!confirm(`Delete the ${actionTypeLabel(action.type).toLowerCase()} of ${fmtDate(action.date)}?`)) return;
+    try {
+      await deleteRecoveryAction(action.id);
+      await load();
+      onChanged?.();
+    } catch (err: any) {
+      toast.error(err.message || "Failed to delete the recovery action");
+    }
+  };
+
+  const totalRecovered = actions.filter((a) => a.type === "part-recovery").reduce((s, a) => s + (a.amount || 0), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold" style={{ color: "#4e1a74" }}>Recovery Diary — {accountNo}</DialogTitle>
+          <DialogDescription>
+            {customerName ? `${customerName}. ` : ""}
+            Calls, visits, promises, recoveries and legal steps; the latest entries feed the NPA review report.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* New action */}
+        <div className="bg-white rounded-xl border border-gray-200 p-4 shadow-sm space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="recovery-type">Action</Label>
+              <select
+                id="recovery-type"
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as RecoveryActionType })}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+              >
+                {RECOVERY_ACTION_TYPES.map((t) => (
+                  <option key={t.value} value={t.value}>{t.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="recovery-date">Date</Label>
+              <Input id="recovery-date" type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} />
+            </div>
+            {hasAmount && (
+              <div className="space-y-1">
+                <Label htmlFor="recovery-amount">{form.type === "promise-to-pay" ? "Amount Promised (₹)" : "Amount Recovered (₹)"}</Label>
+                <Input id="recovery-amount" type="number" min="0" value={form.amount} onChange={(e) => setForm({ ...form, amount: e.target.value })} />
+              </div>
+            )}
+            {form.type === "promise-to-pay" && (
+              <div className="space-y-1">
+                <Label htmlFor="recovery-promise-date">Promised By</Label>
+                <Input id="recovery-promise-date" type="date" value={form.promiseDate} onChange={(e) => setForm({ ...form, promiseDate: e.target.value })} />
+              </div>
+            )}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="recovery-notes">Notes</Label>
+            <Textarea
+              id="recovery-notes"
+              rows={2}
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              placeholder="Whom you met or spoke to and what was said"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="recovery-next">Next Action</Label>
+              <Input
+                id="recovery-next"
+                value={form.nextAction}
+                onChange={(e) => setForm({ ...form, nextAction: e.target.value })}
+                placeholder="e.g. Issue SARFAESI 13(2) notice"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="recovery-next-date">By</Label>
+              <Input id="recovery-next-date" type="date" value={form.nextActionDate} onChange={(e) => setForm({ ...form, nextActionDate: e.target.value })} />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              onClick={handleSave}
+              disabled={!canSave || saving}
+              className="gap-2 bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white"
+            >
+              <Plus className="w-4 h-4" />
+              {saving ? "Saving..." : "Record Action"}
+            </Button>
+          </div>
+        </div>
+
+        {/* Timeline */}
+        <div className="flex items-center justify-between mt-2">
+          <h3 className="text-sm font-semibold" style={{ color: "#4e1a74" }}>History ({actions.length})</h3>
+          {totalRecovered > 0 && (
+            <span className="text-xs text-green-700 font-semibold">Part recovery so far: ₹{totalRecovered.toLocaleString("en-IN")}</span>
+          )}
+        </div>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : actions.length === 0 ? (
+          <p className="text-sm text-gray-500">No recovery action recorded yet.</p>
+        ) : (
+          <ol className="relative border-l-2 border-purple-200 ml-2 space-y-3">
+            {actions.map((action) => (
+              <li key={action.id} className="ml-4">
+                <span className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-purple-500 border-2 border-white" />
+                <div className="flex items-start justify-between gap-2">
+                  <div className="text-sm">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-xs text-gray-500">{fmtDate(action.date)}</span>
+                      <span className={`px-1.5 py-0.5 rounded text-[11px] font-semibold ${TYPE_STYLES[action.type]}`}>
+                        {actionTypeLabel(action.type)}
+                      </span>
+                      {action.amount ? (
+                        <span className="text-xs font-semibold text-gray-700">
+                          ₹{action.amount.toLocaleString("en-IN")}
+                          {action.type === "promise-to-pay" && action.promiseDate ? ` by ${fmtDate(action.promiseDate)}` : ""}
+                        </span>
+                      ) : null}
+                      {action.createdBy && <span className="text-[11px] text-gray-400">— {action.createdBy}</span>}
+                    </div>
+                    {action.notes && <p className="text-gray-700 mt-0.5 whitespace-pre-wrap">{action.notes}</p>}
+                    {action.nextAction && (
+                      <p className="text-xs text-purple-700 mt-0.5 flex items-center gap-1">
+                        <CalendarClock className="w-3 h-3" />
+                        Next: {action.nextAction}
+                        {action.nextActionDate ? ` by ${fmtDate(action.nextActionDate)}` : ""}
+                      </p>
+                    )}
+                  </div>
+                  {can("recovery.manage") && (
+                    <button onClick={() => handleDelete(action)} className="text-gray-400 hover:text-red-600 p-1" title="Delete entry">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
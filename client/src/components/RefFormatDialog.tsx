@@ -0,0 +1,201 @@
+/**
+ * Reference Number Formats — Branch Manager only.
+ * Edit the pattern used for outward reference numbers and add separate
+ * series (with their own counters) for particular letter types.
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  loadRefFormats,
+  saveRefFormats,
+  renderRefPattern,
+  validateRefPattern,
+  DEFAULT_FORMAT_ID,
+  REF_LETTER_TYPES,
+  RefNumberFormat,
+} from "@/lib/refNumberFormats";
+
+interface RefFormatDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  branchCode: string;
+  fyLabel: string;
+  onSaved?: () => void;
+}
+
+export default function RefFormatDialog({ open, onOpenChange, branchCode, fyLabel, onSaved }: RefFormatDialogProps) {
+  const [formats, setFormats] = useState<RefNumberFormat[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    loadRefFormats()
+      .then(setFormats)
+      .catch((err) => console.error("Failed to load reference formats:", err));
+  }, [open]);
+
+  const updateFormat = (id: string, changes: Partial<RefNumberFormat>) => {
+    setFormats((prev) => prev.map((f) => (f.id === id ? { ...f, ...changes } : f)));
+  };
+
+  const toggleLetterType = (f: RefNumberFormat, type: string) => {
+    updateFormat(f.id, {
+      letterTypes: f.letterTypes.includes(type) ? f.letterTypes.filter((t) => t !== type) : [...f.letterTypes, type],
+    });
+  };
+
+  const addFormat = () => {
+    setFormats((prev) => [
+      ...prev,
+      { id: crypto.randomUUID(), name: "", code: "", pattern: "SBI/{branch}/{code}/{fy}/{serial:4}", letterTypes: [] },
+    ]);
+  };
+
+  const removeFormat = (id: string) => {
+    if (!confirm("Remove this format? Letters of its types will use the default format from now on.")) return;
+    setFormats((prev) => prev.filter((f) => f.id !== id));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveRefFormats(formats);
+      toast.success("Reference number formats saved");
+      onSaved?.();
+      onOpenChange(false);
+    } catch (err: any) {
+      toast.error(err.message || "Failed to save formats");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const preview = (f: RefNumberFormat) => {
+    if (validateRefPattern(f.pattern)) return null;
+    return renderRefPattern(f.pattern, {
+      branch: branchCode || "_____",
+      fy: fyLabel,
+      monthAbbr: "MAR",
+      monthNo: "03",
+      letterType: f.letterTypes[0] || "Letter",
+      letterDestination: "Customer",
+      code: f.code,
+      serial: 12,
+    });
+  };
+
+  // Letter types already taken by another series
+  const takenBy = (type: string, self: RefNumberFormat) =>
+    formats.find((f) => f.id !== self.id && f.letterTypes.includes(type));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold" style={{ color: "#4e1a74" }}>Reference Number Formats</DialogTitle>
+          <DialogDescription>
+            Tokens: {"{branch}"} {"{fy}"} {"{MON}"} {"{MM}"} {"{type}"} {"{dest}"} {"{code}"} {"{serial}"} {"{serial:4}"}.
+            Each extra series keeps its own serial counter per financial year.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {formats.map((f) => {
+            const isDefault = f.id === DEFAULT_FORMAT_ID;
+            const error = validateRefPattern(f.pattern);
+            const sample = preview(f);
+            return (
+              <div key={f.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs text-gray-600">Name</Label>
+                    <Input
+                      value={f.name}
+                      onChange={(e) => updateFormat(f.id, { name: e.target.value })}
+                      placeholder="Legal notices"
+                      disabled={isDefault}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-gray-600">Series Code</Label>
+                    <Input
+                      value={f.code}
+                      onChange={(e) => updateFormat(f.id, { code: e.target.value.toUpperCase() })}
+                      placeholder={isDefault ? "(none)" : "LGL"}
+                      disabled={isDefault}
+                    />
+                  </div>
+                  <div className="space-y-1 md:col-span-2">
+                    <Label className="text-xs text-gray-600">Pattern</Label>
+                    <Input
+                      value={f.pattern}
+                      onChange={(e) => updateFormat(f.id, { pattern: e.target.value })}
+                      className="font-mono"
+                    />
+                  </div>
+                </div>
+
+                {!isDefault && (
+                  <div className="flex flex-wrap gap-3 mt-3">
+                    {REF_LETTER_TYPES.map((type) => {
+                      const owner = takenBy(type, f);
+                      return (
+                        <label key={type} className={`flex items-center gap-1 text-sm ${owner ? "text-gray-400" : "text-gray-700"}`}>
+                          <input
+                            type="checkbox"
+                            checked={f.letterTypes.includes(type)}
+                            disabled={!!owner}
+                            onChange={() => toggleLetterType(f, type)}
+                          />
+                          {type}
+                        </label>
+                      );
+                    })}
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between mt-3">
+                  <p className="text-xs">
+                    {error ? (
+                      <span className="text-red-600">{error}</span>
+                    ) : (
+                      <span className="text-gray-500">
+                        Preview: <span className="font-mono text-gray-800">{sample}</span>
+                        {isDefault && " — used for every letter type not assigned to a series"}
+                      </span>
+                    )}
+                  </p>
+                  {!isDefault && (
+                    <Button size="sm" variant="outline" onClick={() => removeFormat(f.id)} title="Remove format">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-between mt-2">
+          <Button variant="outline" onClick={addFormat} className="gap-2">
+            <Plus className="w-4 h-4" />
+            Add Series
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white"
+          >
+            Save Formats
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
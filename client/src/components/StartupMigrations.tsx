@@ -0,0 +1,98 @@
+/**
+ * Startup gate: runs the schema migrations (lib/migrations.ts) before any
+ * page opens a database, and shows a progress screen while upgrades run.
+ * An install that is already up to date renders the app straight away.
+ */
+
+import { useEffect, useState, ReactNode } from "react";
+import { sbiLogoUrl } from "@/lib/assets";
+import { runMigrations, MigrationProgress } from "@/lib/migrations";
+import { AlertTriangle, RotateCcw } from "lucide-react";
+
+export default function StartupMigrations({ children }: { children: ReactNode }) {
+  const [ready, setReady] = useState(false);
+  const [progress, setProgress] = useState<MigrationProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    runMigrations((p) => {
+      if (!cancelled) setProgress(p);
+    })
+      .then(() => {
+        if (!cancelled) setReady(true);
+      })
+      .catch((err) => {
+        console.error("Database upgrade failed:", err);
+        if (!cancelled) setError(err?.message || String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (ready) return <>{children}</>;
+  // Nothing to upgrade (or not known yet): avoid flashing the screen
+  if (!progress && !error) return null;
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <header
+        className="flex items-center px-6"
+        style={{ background: "linear-gradient(to right, #d4007f, #4e1a74)", height: "101px" }}
+      >
+        <img src={sbiLogoUrl} alt="State Bank of India" className="h-16 w-auto" style={{ filter: "brightness(0) invert(1)" }} />
+      </header>
+
+      <div className="flex-1 flex items-center justify-center p-6">
+        <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm w-full max-w-md">
+          {error ? (
+            <>
+              <div className="flex items-center gap-2 mb-3">
+                <AlertTriangle className="w-5 h-5 text-red-600" />
+                <h2 className="text-lg font-semibold" style={{ color: "#4e1a74" }}>Database upgrade failed</h2>
+              </div>
+              <p className="text-sm text-gray-600 mb-2">
+                Your data has not been changed. If this app was recently downgraded, open the newer version instead.
+              </p>
+              <p className="text-xs font-mono text-red-700 bg-red-50 rounded p-2 mb-4 break-words">{error}</p>
+              <button
+                onClick={() => window.location.reload()}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Retry
+              </button>
+            </>
+          ) : (
+            <>
+              <h2 className="text-lg font-semibold mb-1" style={{ color: "#4e1a74" }}>Updating local data</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                The app was updated. Your saved data is being upgraded — please keep this tab open.
+              </p>
+              <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+                <div
+                  className="bg-gradient-to-r from-pink-600 to-purple-700 h-2 rounded-full transition-all"
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+              <div className="flex justify-between text-xs text-gray-500">
+                <span className="truncate">{progress?.current}</span>
+                <span>
+                  {progress?.done} / {progress?.total}
+                </span>
+              </div>
+              {progress?.blocked && (
+                <p className="text-xs text-amber-700 bg-amber-50 rounded p-2 mt-3">
+                  Another tab of this app is still using the old data. Close other tabs to continue.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
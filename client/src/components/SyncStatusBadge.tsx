@@ -0,0 +1,67 @@
+/**
+ * LAN sync status for the home page header (see lib/syncEngine.ts).
+ * Hidden when the app is not served by the sync server; click to sync now,
+ * or (Branch Manager) to enter the branch sync key when the server asks for it.
+ */
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, Cloud, CloudOff, KeyRound, RefreshCw } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { getSyncStatus, setSyncKey, subscribeSyncStatus, syncNow, SyncStatus } from "@/lib/syncEngine";
+
+function formatTime(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleTimeString("en-IN", { hour: "2-digit", minute: "2-digit" }) : "never";
+}
+
+export default function SyncStatusBadge() {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus());
+  const { can } = useAuth();
+  const canSetKey = can("branch.configure");
+
+  useEffect(() => subscribeSyncStatus(setStatus), []);
+
+  if (status.state === "unavailable") return null;
+
+  const queued = status.pending > 0 ? ` · ${status.pending} queued` : "";
+  const view = {
+    syncing: { icon: <RefreshCw className="w-4 h-4 animate-spin" />, label: "Syncing…", title: "Exchanging changes with the branch server" },
+    synced: { icon: <Cloud className="w-4 h-4" />, label: `Synced${queued}`, title: `Last synced at ${formatTime(status.lastSyncAt)}` },
+    offline: {
+      icon: <CloudOff className="w-4 h-4" />,
+      label: `Offline${queued}`,
+      title: `Branch server unreachable — changes are kept on this PC and sent when it is back. Last synced at ${formatTime(status.lastSyncAt)}`,
+    },
+    "needs-key": {
+      icon: <KeyRound className="w-4 h-4" />,
+      label: `Sync key needed${queued}`,
+      title: canSetKey
+        ? "The branch server needs its sync key before this PC can sync. Click to enter it"
+        : "The branch server needs its sync key before this PC can sync. Ask the Branch Manager to enter it",
+    },
+    error: { icon: <AlertTriangle className="w-4 h-4" />, label: `Sync error${queued}`, title: status.error || "Sync failed" },
+  }[status.state];
+
+  const handleClick = () => {
+    if (status.state !== "needs-key") {
+      syncNow();
+      return;
+    }
+    if (!canSetKey) return;
+    const key = prompt("Branch sync key (as set on the branch server):");
+    if (key && key.trim()) setSyncKey(key);
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={status.state === "syncing"}
+      className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-white border border-white/30 transition-colors ${
+        status.state === "error" ? "bg-red-600/80 hover:bg-red-600" : status.state === "offline" || status.state === "needs-key" ? "bg-amber-600/80 hover:bg-amber-600" : "bg-white/20 hover:bg-white/30"
+      }`}
+      title={status.state === "needs-key" ? view.title : `${view.title}. Click to sync now.`}
+    >
+      {view.icon}
+      <span>{view.label}</span>
+    </button>
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * User Management — Branch Manager only.
+ * Add staff accounts, change roles, reset passwords and deactivate users.
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { UserPlus, KeyRound } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { getUsers, createUser, updateUser, setUserPassword, ROLES, Role, UserAccount } from "@/lib/auth";
+
+interface UserManagementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function UserManagementDialog({ open, onOpenChange }: UserManagementDialogProps) {
+  const { currentUser, refreshSession } = useAuth();
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [newUsername, setNewUsername] = useState("");
+  const [newDisplayName, setNewDisplayName] = useState("");
+  const [newRole, setNewRole] = useState<Role>("Clerk");
+  const [newPassword, setNewPassword] = useState("");
+
+  const loadUsers = async () => {
+    try {
+      setUsers(await getUsers());
+    } catch (error) {
+      console.error("Failed to load users:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadUsers();
+  }, [open]);
+
+  const handleAddUser = async () => {
+    try {
+      await createUser({ username: newUsername, displayName: newDisplayName, role: newRole, password: newPassword });
+      toast.success(`User ${newUsername} created`);
+      setNewUsername("");
+      setNewDisplayName("");
+      setNewPassword("");
+      setNewRole("Clerk");
+      await loadUsers();
+    } catch (err: any) {
+      toast.error(err.message || "Failed to create user");
+    }
+  };
+
+  const handleUpdate = async (id: string, changes: Partial<Pick<UserAccount, "role" | "active">>) => {
+    try {
+      await updateUser(id, changes);
+      await loadUsers();
+      if (id === currentUser?.id) await refreshSession();
+    } catch (err: any) {
+      toast.error(err.message || "Failed to update user");
+    }
+  };
+
+  const handleResetPassword = async (user: UserAccount) => {
+    const password = prompt(`New password for ${user.username}:`);
+    if (!password) return;
+    try {
+      await setUserPassword(user.id, password);
+      toast.success(`Password reset for ${user.username}`);
+    } catch (err: any) {
+      toast.error(err.message || "Failed to reset password");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold" style={{ color: "#4e1a74" }}>User Management</DialogTitle>
+        </DialogHeader>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-2 px-2 text-gray-500 font-medium">Username</th>
+                <th className="text-left py-2 px-2 text-gray-500 font-medium">Name</th>
+                <th className="text-left py-2 px-2 text-gray-500 font-medium">Role</th>
+                <th className="text-center py-2 px-2 text-gray-500 font-medium">Active</th>
+                <th className="text-right py-2 px-2 text-gray-500 font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((u) => (
+                <tr key={u.id} className="border-b border-gray-100">
+                  <td className="py-2 px-2 font-medium text-gray-700">{u.username}</td>
+                  <td className="py-2 px-2 text-gray-600">{u.displayName}</td>
+                  <td className="py-2 px-2">
+                    <select
+                      value={u.role}
+                      onChange={(e) => handleUpdate(u.id, { role: e.target.value as Role })}
+                      className="px-2 py-1 border border-gray-200 rounded-lg text-sm bg-white"
+                    >
+                      {ROLES.map((r) => <option key={r} value={r}>{r}</option>)}
+                    </select>
+                  </td>
+                  <td className="py-2 px-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={u.active}
+                      onChange={(e) => handleUpdate(u.id, { active: e.target.checked })}
+                    />
+                  </td>
+                  <td className="py-2 px-2 text-right">
+                    <Button size="sm" variant="outline" onClick={() => handleResetPassword(u)} title="Reset password">
+                      <KeyRound className="w-4 h-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="border-t border-gray-200 pt-4 mt-2">
+          <h4 className="text-sm font-semibold text-gray-700 mb-3">Add User</h4>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="new-username" className="text-xs text-gray-600">Username</Label>
+              <Input id="new-username" value={newUsername} onChange={(e) => setNewUsername(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="new-display-name" className="text-xs text-gray-600">Full Name</Label>
+              <Input id="new-display-name" value={newDisplayName} onChange={(e) => setNewDisplayName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="new-role" className="text-xs text-gray-600">Role</Label>
+              <select
+                id="new-role"
+                value={newRole}
+                onChange={(e) => setNewRole(e.target.value as Role)}
+                className="w-full h-9 px-2 border border-gray-200 rounded-md text-sm bg-white"
+              >
+                {ROLES.map((r) => <option key={r} value={r}>{r}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="new-password" className="text-xs text-gray-600">Password</Label>
+              <Input id="new-password" type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex justify-end mt-3">
+            <Button onClick={handleAddUser} className="bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white">
+              <UserPlus className="w-4 h-4 mr-2" />
+              Add User
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
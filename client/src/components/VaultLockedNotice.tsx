@@ -0,0 +1,40 @@
+/**
+ * Shown by apps whose customer data is encrypted (lib/vault.ts) when nobody
+ * is signed in — the data can only be opened after logging in again.
+ */
+
+import { Link } from "wouter";
+import { sbiLogoUrl } from "@/lib/assets";
+import { Home, Lock } from "lucide-react";
+
+export default function VaultLockedNotice({ appName }: { appName: string }) {
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <header
+        className="flex items-center px-6"
+        style={{ background: "linear-gradient(to right, #d4007f, #4e1a74)", height: "101px" }}
+      >
+        <img src={sbiLogoUrl} alt="State Bank of India" className="h-16 w-auto" style={{ filter: "brightness(0) invert(1)" }} />
+      </header>
+
+      <div className="flex-1 flex items-center justify-center p-6">
+        <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm w-full max-w-md">
+          <div className="flex items-center gap-2 mb-3">
+            <Lock className="w-5 h-5" style={{ color: "#4e1a74" }} />
+            <h2 className="text-lg font-semibold" style={{ color: "#4e1a74" }}>{appName} is locked</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Customer data in this app is encrypted on this PC. Log in from the home page to open it — you are logged
+            out automatically after a period of inactivity.
+          </p>
+          <Link href="/">
+            <button className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white">
+              <Home className="w-4 h-4" />
+              Go to Home to Log In
+            </button>
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import { toast } from "sonner";
+import {
+  getUsers,
+  verifyCredentials,
+  toSessionUser,
+  roleHasPermission,
+  Permission,
+  SessionUser,
+} from "@/lib/auth";
+import { setAuditActor } from "@/lib/auditLog";
+import { sealLegacyRecords } from "@/lib/portfolioDb";
+import {
+  hasVault,
+  isVaultUnlocked,
+  lockVault,
+  sealLegacyValues,
+  unlockVault,
+  VAULT_AUTO_LOCK_MINUTES,
+} from "@/lib/vault";
+
+// Session lives in sessionStorage so closing the browser logs the user out
+const SESSION_KEY = "sbi-session";
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "touchstart", "scroll"] as const;
+
+interface AuthContextType {
+  currentUser: SessionUser | null;
+  login: (username: string, password: string) => Promise<boolean>;
+  logout: () => void;
+  can: (permission: Permission) => boolean;
+  refreshSession: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
+
+  // Re-resolve the stored session against the user store so role changes and
+  // deactivations take effect without waiting for the user to log out.
+  const loadSession = async () => {
+    try {
+      const userId = sessionStorage.getItem(SESSION_KEY);
+      // The vault key lives only in memory, so a reload needs a fresh login
+      if (!userId || (!isVaultUnlocked() && (await hasVault()))) {
+        sessionStorage.removeItem(SESSION_KEY);
+        setCurrentUser(null);
+        return;
+      }
+      const user = (await getUsers()).find((u) => u.id === userId && u.active);
+      if (user) {
+        setCurrentUser(toSessionUser(user));
+      } else {
+        sessionStorage.removeItem(SESSION_KEY);
+        setCurrentUser(null);
+      }
+    } catch (error) {
+      console.error("Failed to load session:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadSession();
+  }, []);
+
+  // Attribute every audited write to whoever is signed in
+  useEffect(() => {
+    setAuditActor(currentUser);
+  }, [currentUser]);
+
+  const login = async (username: string, password: string) => {
+    const user = await verifyCredentials(username, password);
+    if (!user) return false;
+    if (!(await unlockVault(user.id, password))) {
+      console.warn(`User ${user.username} has no vault key; a Branch Manager must reset their password`);
+    } else {
+      // Encrypt anything saved in clear before the vault existed
+      sealLegacyValues()
+        .then(() => sealLegacyRecords())
+        .catch((error) => console.error("Failed to encrypt existing data:", error));
+    }
+    sessionStorage.setItem(SESSION_KEY, user.id);
+    setCurrentUser(toSessionUser(user));
+    return true;
+  };
+
+  const logout = () => {
+    lockVault();
+    sessionStorage.removeItem(SESSION_KEY);
+    setCurrentUser(null);
+  };
+
+  // Auto-lock: log out after VAULT_AUTO_LOCK_MINUTES without input
+  useEffect(() => {
+    if (!currentUser) return;
+    let lastActivity = Date.now();
+    const onActivity = () => {
+      lastActivity = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach((e) => window.addEventListener(e, onActivity, { passive: true }));
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivity >= VAULT_AUTO_LOCK_MINUTES * 60 * 1000) {
+        logout();
+        toast.info(`Logged out after ${VAULT_AUTO_LOCK_MINUTES} minutes of inactivity`);
+      }
+    }, 30 * 1000);
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((e) => window.removeEventListener(e, onActivity));
+    };
+  }, [currentUser]);
+
+  const can = (permission: Permission) => roleHasPermission(currentUser?.role ?? null, permission);
+
+  return (
+    <AuthContext.Provider value={{ currentUser, login, logout, can, refreshSession: loadSession }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
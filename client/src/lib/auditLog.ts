@@ -0,0 +1,429 @@
+/**
+ * Audit Trail
+ * Append-only log of every record mutation across the apps (who, when, which
+ * app, which key/record, and what changed).
+ *
+ * Entries live in their own IndexedDB database so that clearing or restoring
+ * app data never rewrites history. Each entry carries the SHA-256 hash of the
+ * previous entry; removing or editing any entry breaks the chain, which
+ * verifyAuditChain() reports.
+ */
+
+import { openMigratedDB } from "./migrations";
+
+// Schema and version are declared in migrations.ts
+const AUDIT_DB_NAME = "SBI_Audit_DB";
+const AUDIT_STORE = "audit-log";
+const GENESIS_HASH = "0".repeat(64);
+// Last appended seq/hash, kept outside the audit DB so trimming the tail of
+// the log is detected too
+const HEAD_KEY = "sbi-audit-head";
+
+// Above this many records a bulk write is logged as a count only (CBS uploads)
+export const AUDIT_DETAIL_LIMIT = 50;
+// Cap on field-level changes kept per entry
+const MAX_CHANGES = 200;
+const REDACTED_FIELDS = ["passwordHash", "salt"];
+
+// ============================================================
+// Types
+// ============================================================
+export type AuditAction = "create" | "update" | "delete" | "bulk-write" | "clear" | "restore" | "sync";
+
+export interface AuditActor {
+  id: string;
+  username: string;
+}
+
+export interface AuditChange {
+  path: string; // e.g. "[id=lead-17].status" or "CurrentBalance"
+  before?: any;
+  after?: any;
+}
+
+export interface AuditEntry {
+  seq: number;
+  timestamp: string; // ISO
+  actor: AuditActor | null; // null = not signed in
+  app: string;
+  source: string; // database/store the record lives in
+  recordKey: string;
+  action: AuditAction;
+  changes: AuditChange[];
+  summary?: string;
+  truncated?: boolean;
+  prevHash: string;
+  hash: string;
+}
+
+export type AuditEvent = Pick<AuditEntry, "app" | "source" | "recordKey" | "action"> &
+  Partial<Pick<AuditEntry, "changes" | "summary" | "truncated">>;
+
+export interface AuditChainStatus {
+  ok: boolean;
+  checked: number;
+  brokenAtSeq?: number;
+  reason?: string;
+}
+
+// ============================================================
+// Actor and app attribution
+// ============================================================
+let currentActor: AuditActor | null = null;
+
+/** Called by AuthProvider whenever the signed-in user changes */
+export function setAuditActor(actor: AuditActor | null) {
+  currentActor = actor ? { id: actor.id, username: actor.username } : null;
+}
+
+const KEY_APPS: { match: (key: string) => boolean; app: string }[] = [
+  { match: (k) => ["sbi-tasks", "sbi-completion-history", "sbi-default-tasks-loaded"].includes(k), app: "Reminders" },
+  { match: (k) => k === "sbi-leads", app: "Lead Management" },
+  { match: (k) => ["sbi-web-resources", "sbi-web-favourites"].includes(k), app: "Web Resource Hub" },
+  { match: (k) => ["dak-records", "dak-inward", "ref-number-formats"].includes(k), app: "Dak Register" },
+  { match: (k) => k === "letterhead", app: "Letter Generator" },
+  { match: (k) => k.startsWith("lfn-"), app: "Loan File Manager" },
+  {
+    match: (k) => ["sma-remarks", "sma-securities", "npa-edits", "auca-edits", "auca-rbo-settings"].includes(k) || k.startsWith("report-snapshot"),
+    app: "SMA/NPA/AUCA Reporting",
+  },
+  { match: (k) => ["sbi-users", "sbi-vault"].includes(k), app: "User Management" },
+  { match: (k) => ["sbi-branch-config", "sbi-app-settings", "sbi-notification-settings"].includes(k), app: "Branch Settings" },
+];
+
+export const AUDIT_APPS = [
+  "Reminders",
+  "Lead Management",
+  "Web Resource Hub",
+  "Dak Register",
+  "Letter Generator",
+  "Loan File Manager",
+  "SMA/NPA/AUCA Reporting",
+  "Branch Portfolio",
+  "User Management",
+  "Branch Settings",
+  "Backup & Restore",
+  "LAN Sync",
+  "Other",
+];
+
+export function appForKey(key: string): string {
+  return KEY_APPS.find((a) => a.match(key))?.app ?? "Other";
+}
+
+// ============================================================
+// Diff
+// ============================================================
+function redact(value: any): any {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value && typeof value === "object") {
+    const out: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) {
+      out[k] = REDACTED_FIELDS.includes(k) ? "[redacted]" : redact(v);
+    }
+    return out;
+  }
+  return value;
+}
+
+function same(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isPlainObject(v: any): boolean {
+  return v !== null && typeof v === "object" && !Array.isArray(v);
+}
+
+function identityOf(item: any): string | null {
+  if (!isPlainObject(item)) return null;
+  const id = item.id ?? item.key ?? item.AcNo ?? item.accountNo;
+  return id === undefined || id === null ? null : String(id);
+}
+
+function diffInto(changes: AuditChange[], path: string, before: any, after: any, depth: number) {
+  if (same(before, after)) return;
+
+  // Lists of records (tasks, leads, dak entries) — match items by id so one
+  // edited lead shows as one change rather than the whole list
+  if (Array.isArray(before) && Array.isArray(after) && depth < 2) {
+    const beforeIds = before.map(identityOf);
+    const afterIds = after.map(identityOf);
+    if (beforeIds.every((id) => id !== null) && afterIds.every((id) => id !== null)) {
+      const beforeMap = new Map(before.map((item, i) => [beforeIds[i] as string, item]));
+      const afterMap = new Map(after.map((item, i) => [afterIds[i] as string, item]));
+      for (const [id, item] of Array.from(beforeMap)) {
+        const itemPath = `${path}[id=${id}]`;
+        if (!afterMap.has(id)) changes.push({ path: itemPath, before: item });
+        else diffInto(changes, itemPath, item, afterMap.get(id), depth + 1);
+      }
+      for (const [id, item] of Array.from(afterMap)) {
+        if (!beforeMap.has(id)) changes.push({ path: `${path}[id=${id}]`, after: item });
+      }
+      return;
+    }
+  }
+
+  if (isPlainObject(before) && isPlainObject(after) && depth < 3) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    for (const k of keys) {
+      diffInto(changes, path ? `${path}.${k}` : k, before[k], after[k], depth + 1);
+    }
+    return;
+  }
+
+  const change: AuditChange = { path: path || "(value)" };
+  if (before !== undefined && before !== null) change.before = before;
+  if (after !== undefined && after !== null) change.after = after;
+  changes.push(change);
+}
+
+/** Field-level differences between two stored values (secrets redacted) */
+export function diffValues(before: any, after: any): { changes: AuditChange[]; truncated: boolean } {
+  const raw: AuditChange[] = [];
+  diffInto(raw, "", before, after, 0);
+  // Redact after diffing so a password reset still shows up as a change
+  const changes = raw.map((c) => {
+    const field = c.path.split(".").pop() as string;
+    const out: AuditChange = { path: c.path };
+    if ("before" in c) out.before = REDACTED_FIELDS.includes(field) ? "[redacted]" : redact(c.before);
+    if ("after" in c) out.after = REDACTED_FIELDS.includes(field) ? "[redacted]" : redact(c.after);
+    return out;
+  });
+  return changes.length > MAX_CHANGES
+    ? { changes: changes.slice(0, MAX_CHANGES), truncated: true }
+    : { changes, truncated: false };
+}
+
+// ============================================================
+// Storage
+// ============================================================
+let dbInstance: IDBDatabase | null = null;
+
+function openAuditDB(): Promise<IDBDatabase> {
+  if (dbInstance) return Promise.resolve(dbInstance);
+
+  return openMigratedDB(AUDIT_DB_NAME, () => {
+    dbInstance = null;
+  }).then((db) => {
+    dbInstance = db;
+    return db;
+  });
+}
+
+export function isAuditDatabase(dbName: string | undefined): boolean {
+  return dbName === AUDIT_DB_NAME;
+}
+
+async function getLastEntry(): Promise<AuditEntry | null> {
+  const db = await openAuditDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(AUDIT_STORE, "readonly");
+    const request = tx.objectStore(AUDIT_STORE).openCursor(null, "prev");
+    request.onsuccess = () => resolve(request.result ? request.result.value : null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function addEntry(entry: AuditEntry): Promise<void> {
+  const db = await openAuditDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(AUDIT_STORE, "readwrite");
+    // add(), not put() — an existing seq is never overwritten
+    tx.objectStore(AUDIT_STORE).add(entry);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** Hash over every field except `hash` itself, in a fixed order */
+function hashEntry(entry: Omit<AuditEntry, "hash">): Promise<string> {
+  return sha256Hex(JSON.stringify([
+    entry.seq,
+    entry.timestamp,
+    entry.actor,
+    entry.app,
+    entry.source,
+    entry.recordKey,
+    entry.action,
+    entry.changes,
+    entry.summary ?? null,
+    entry.truncated ?? false,
+    entry.prevHash,
+  ]));
+}
+
+// Appends must not interleave or two entries would claim the same predecessor.
+// Web Locks serialise across tabs; the promise chain covers browsers without it.
+let appendQueue: Promise<void> = Promise.resolve();
+
+function withAppendLock(fn: () => Promise<void>): Promise<void> {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return navigator.locks.request("sbi-audit-append", fn);
+  }
+  const next = appendQueue.then(fn, fn);
+  appendQueue = next.catch(() => {});
+  return next;
+}
+
+/**
+ * Append an event to the audit log. Never throws — a failure to audit must
+ * not lose the user's save; it is logged to the console instead.
+ */
+export async function recordAudit(event: AuditEvent): Promise<void> {
+  try {
+    await withAppendLock(async () => {
+      const last = await getLastEntry();
+      const entry: Omit<AuditEntry, "hash"> = {
+        seq: (last?.seq ?? 0) + 1,
+        timestamp: new Date().toISOString(),
+        actor: currentActor,
+        app: event.app,
+        source: event.source,
+        recordKey: event.recordKey,
+        action: event.action,
+        changes: event.changes ?? [],
+        ...(event.summary ? { summary: event.summary } : {}),
+        ...(event.truncated ? { truncated: true } : {}),
+        prevHash: last?.hash ?? GENESIS_HASH,
+      };
+      const hash = await hashEntry(entry);
+      await addEntry({ ...entry, hash });
+      try {
+        localStorage.setItem(HEAD_KEY, JSON.stringify({ seq: entry.seq, hash }));
+      } catch (e) {
+        console.warn("localStorage save failed:", e);
+      }
+    });
+  } catch (error) {
+    console.error("Failed to write audit entry:", error);
+  }
+}
+
+/**
+ * Audit a single key/value write. Skips no-op saves (most apps re-save their
+ * whole list on every render).
+ */
+export async function recordValueChange(
+  source: string,
+  app: string,
+  recordKey: string,
+  before: any,
+  after: any
+): Promise<void> {
+  const hadBefore = before !== undefined && before !== null;
+  const hasAfter = after !== undefined && after !== null;
+  if (!hadBefore && !hasAfter) return;
+  const { changes, truncated } = diffValues(before, after);
+  if (changes.length === 0) return;
+  await recordAudit({
+    app,
+    source,
+    recordKey,
+    action: !hadBefore ? "create" : !hasAfter ? "delete" : "update",
+    changes,
+    truncated,
+  });
+}
+
+/**
+ * Audit a multi-record write. Small batches keep per-record diffs; large
+ * batches (CBS file uploads) are logged as a count only.
+ */
+export async function recordBulkWrite(
+  source: string,
+  app: string,
+  keyPath: string,
+  befores: Map<string, any> | null,
+  records: any[]
+): Promise<void> {
+  if (records.length === 0) return;
+  if (!befores || records.length > AUDIT_DETAIL_LIMIT) {
+    await recordAudit({ app, source, recordKey: "*", action: "bulk-write", summary: `${records.length} record(s) written` });
+    return;
+  }
+  const changes: AuditChange[] = [];
+  let truncated = false;
+  for (const record of records) {
+    const key = String(record[keyPath]);
+    const diff = diffValues(befores.get(key) ?? null, record);
+    for (const c of diff.changes) changes.push({ ...c, path: `[${keyPath}=${key}]${c.path === "(value)" ? "" : "." + c.path}` });
+    truncated = truncated || diff.truncated;
+  }
+  if (changes.length === 0) return;
+  await recordAudit({
+    app,
+    source,
+    recordKey: records.length === 1 ? String(records[0][keyPath]) : "*",
+    action: records.length === 1 ? (befores.get(String(records[0][keyPath])) ? "update" : "create") : "bulk-write",
+    changes: changes.slice(0, MAX_CHANGES),
+    truncated: truncated || changes.length > MAX_CHANGES,
+    summary: records.length > 1 ? `${records.length} records written` : undefined,
+  });
+}
+
+// ============================================================
+// Reading and verification
+// ============================================================
+export async function getAuditEntries(filter: { app?: string; from?: string; to?: string } = {}): Promise<AuditEntry[]> {
+  const db = await openAuditDB();
+  const entries: AuditEntry[] = await new Promise((resolve, reject) => {
+    const tx = db.transaction(AUDIT_STORE, "readonly");
+    const store = tx.objectStore(AUDIT_STORE);
+    const request = filter.app ? store.index("app").getAll(filter.app) : store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // from/to are YYYY-MM-DD (inclusive); timestamps are ISO so a prefix compare works
+  return entries
+    .filter((e) => (!filter.from || e.timestamp.slice(0, 10) >= filter.from) && (!filter.to || e.timestamp.slice(0, 10) <= filter.to))
+    .sort((a, b) => b.seq - a.seq);
+}
+
+/**
+ * Walk the whole log from the first entry and check that sequence numbers are
+ * contiguous, each entry points at its predecessor's hash, and each hash
+ * matches the entry's contents.
+ */
+export async function verifyAuditChain(): Promise<AuditChainStatus> {
+  const db = await openAuditDB();
+  const entries: AuditEntry[] = await new Promise((resolve, reject) => {
+    const tx = db.transaction(AUDIT_STORE, "readonly");
+    const request = tx.objectStore(AUDIT_STORE).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  let prevHash = GENESIS_HASH;
+  let expectedSeq = 1;
+  for (const entry of entries) {
+    if (entry.seq !== expectedSeq) {
+      return { ok: false, checked: expectedSeq - 1, brokenAtSeq: expectedSeq, reason: `Entry #${expectedSeq} is missing` };
+    }
+    if (entry.prevHash !== prevHash) {
+      return { ok: false, checked: expectedSeq - 1, brokenAtSeq: entry.seq, reason: `Entry #${entry.seq} does not follow the previous entry` };
+    }
+    const { hash, ...rest } = entry;
+    if ((await hashEntry(rest)) !== hash) {
+      return { ok: false, checked: expectedSeq - 1, brokenAtSeq: entry.seq, reason: `Entry #${entry.seq} has been altered` };
+    }
+    prevHash = hash;
+    expectedSeq++;
+  }
+
+  try {
+    const head = JSON.parse(localStorage.getItem(HEAD_KEY) || "null");
+    if (head && (head.seq > entries.length || (head.seq === entries.length && head.hash !== prevHash))) {
+      return { ok: false, checked: entries.length, brokenAtSeq: entries.length + 1, reason: `Entries after #${entries.length} are missing` };
+    }
+  } catch {
+    // No readable head marker — the chain check above still stands
+  }
+  return { ok: true, checked: entries.length };
+}
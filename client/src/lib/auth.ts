@@ -0,0 +1,194 @@
+/**
+ * Local user accounts and role-based permissions
+ * Users are stored in IndexedDB (via db.ts) with salted PBKDF2 password hashes.
+ * No password is shipped in the bundle — the first account is created on first login.
+ */
+
+import { loadData, saveData } from "./db";
+import { PBKDF2_ITERATIONS, derivePassphraseBits, fromBase64, newSalt, toBase64 } from "./passphraseCrypto";
+import { grantVaultAccess } from "./vault";
+
+const USERS_KEY = "sbi-users";
+
+export type Role = "Branch Manager" | "Officer" | "Clerk" | "Read-only";
+
+export const ROLES: Role[] = ["Branch Manager", "Officer", "Clerk", "Read-only"];
+
+export type Permission =
+  | "users.manage"       // create/edit/deactivate user accounts
+  | "branch.configure"   // branch config, app visibility, notifications, full backup/restore
+  | "records.create"     // add tasks, leads, resources, dak entries
+  | "reminders.manage"   // edit/delete any task, view completed and future tasks
+  | "leads.manage"       // view all leads, edit/delete leads
+  | "resources.manage"   // edit/delete shared web resources, import/export
+  | "dak.manage"         // edit/delete dak register entries
+  | "recovery.manage"    // delete NPA recovery diary and legal workflow entries
+  | "audit.view";        // view the audit trail
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  "Branch Manager": [
+    "users.manage",
+    "branch.configure",
+    "records.create",
+    "reminders.manage",
+    "leads.manage",
+    "resources.manage",
+    "dak.manage",
+    "recovery.manage",
+    "audit.view",
+  ],
+  Officer: ["records.create", "reminders.manage", "leads.manage", "resources.manage", "dak.manage", "recovery.manage", "audit.view"],
+  Clerk: ["records.create"],
+  "Read-only": [],
+};
+
+/**
+ * Permissions for visitors who have not signed in. Adding a task or lead at the
+ * counter has always been open to everyone; editing and deleting is not.
+ */
+const GUEST_PERMISSIONS: Permission[] = ["records.create"];
+
+export interface UserAccount {
+  id: string;
+  username: string;
+  displayName: string;
+  role: Role;
+  salt: string; // base64
+  passwordHash: string; // base64 PBKDF2-SHA256
+  iterations: number;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** User as exposed to the UI — never carries the hash or salt */
+export type SessionUser = Pick<UserAccount, "id" | "username" | "displayName" | "role">;
+
+export function roleHasPermission(role: Role | null, permission: Permission): boolean {
+  if (!role) return GUEST_PERMISSIONS.includes(permission);
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+export function toSessionUser(user: UserAccount): SessionUser {
+  return { id: user.id, username: user.username, displayName: user.displayName, role: user.role };
+}
+
+// ============================================================
+// Hashing
+// ============================================================
+// Accounts keep the iteration count they were hashed with, so raising it only affects new passwords
+async function hashPassword(password: string, salt: Uint8Array, iterations: number): Promise<string> {
+  return toBase64(await derivePassphraseBits(password, salt, iterations));
+}
+
+/** Constant-time comparison so a wrong password doesn't leak how many characters matched */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// ============================================================
+// User store
+// ============================================================
+export async function getUsers(): Promise<UserAccount[]> {
+  const users = await loadData(USERS_KEY);
+  return Array.isArray(users) ? users : [];
+}
+
+async function saveUsers(users: UserAccount[]): Promise<void> {
+  await saveData(USERS_KEY, users);
+}
+
+export async function hasAnyUser(): Promise<boolean> {
+  return (await getUsers()).length > 0;
+}
+
+export function validatePassword(password: string): string | null {
+  if (password.length < 8) return "Password must be at least 8 characters";
+  if (!/[A-Za-z]/.test(password) || !/\d/.test(password)) return "Password must contain letters and numbers";
+  return null;
+}
+
+export async function createUser(input: {
+  username: string;
+  displayName: string;
+  role: Role;
+  password: string;
+}): Promise<UserAccount> {
+  const username = input.username.trim();
+  if (!username) throw new Error("Username is required");
+  const pwError = validatePassword(input.password);
+  if (pwError) throw new Error(pwError);
+
+  const users = await getUsers();
+  if (users.some((u) => u.username.toLowerCase() === username.toLowerCase())) {
+    throw new Error(`Username "${username}" already exists`);
+  }
+
+  const salt = newSalt();
+  const now = new Date().toISOString();
+  const user: UserAccount = {
+    id: crypto.randomUUID(),
+    username,
+    displayName: input.displayName.trim() || username,
+    role: input.role,
+    salt: toBase64(salt),
+    passwordHash: await hashPassword(input.password, salt, PBKDF2_ITERATIONS),
+    iterations: PBKDF2_ITERATIONS,
+    active: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+  // Wrap the vault key for the new password before the account can log in
+  await grantVaultAccess(user.id, input.password);
+  await saveUsers([...users, user]);
+  return user;
+}
+
+export async function updateUser(
+  id: string,
+  changes: Partial<Pick<UserAccount, "displayName" | "role" | "active">>
+): Promise<void> {
+  const users = await getUsers();
+  const target = users.find((u) => u.id === id);
+  if (!target) throw new Error("User not found");
+
+  const next = { ...target, ...changes, updatedAt: new Date().toISOString() };
+  const remainingManagers = users.filter(
+    (u) => u.id !== id && u.active && u.role === "Branch Manager"
+  ).length;
+  if ((next.role !== "Branch Manager" || !next.active) && target.role === "Branch Manager" && remainingManagers === 0) {
+    throw new Error("At least one active Branch Manager account is required");
+  }
+  await saveUsers(users.map((u) => (u.id === id ? next : u)));
+}
+
+export async function setUserPassword(id: string, password: string): Promise<void> {
+  const pwError = validatePassword(password);
+  if (pwError) throw new Error(pwError);
+  const users = await getUsers();
+  const target = users.find((u) => u.id === id);
+  if (!target) throw new Error("User not found");
+
+  const salt = newSalt();
+  const updated: UserAccount = {
+    ...target,
+    salt: toBase64(salt),
+    passwordHash: await hashPassword(password, salt, PBKDF2_ITERATIONS),
+    iterations: PBKDF2_ITERATIONS,
+    updatedAt: new Date().toISOString(),
+  };
+  await grantVaultAccess(id, password);
+  await saveUsers(users.map((u) => (u.id === id ? updated : u)));
+}
+
+/** Returns the matching active user, or null for unknown user / wrong password */
+export async function verifyCredentials(username: string, password: string): Promise<UserAccount | null> {
+  const users = await getUsers();
+  const user = users.find((u) => u.username.toLowerCase() === username.trim().toLowerCase());
+  if (!user || !user.active) return null;
+  const hash = await hashPassword(password, fromBase64(user.salt), user.iterations || PBKDF2_ITERATIONS);
+  return safeEqual(hash, user.passwordHash) ? user : null;
+}
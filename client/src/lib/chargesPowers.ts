@@ -0,0 +1,210 @@
+/**
+ * Financial Powers (Delegation of Powers) for Branch Expenses
+ *
+ * Matrix of how much each authority level may sanction under a BGL head —
+ * per bill and in total for the financial year — so a charge entry can be
+ * checked against the powers of the officer who approved it. Inspection
+ * reports cite "expenditure beyond powers"; these checks catch it at entry:
+ *
+ * - the approver's level must cover the bill and the head's total for the year
+ * - bills from the same payee under the same head for the same month, each
+ *   within powers but together above them, are flagged as possible splitting
+ *   of bills; recurring payments posted from a vendor schedule are not
+ * - entries above the branch's own powers need a sanction note to the
+ *   controlling authority
+ *
+ * The matrix is stored by the Charges Return app in ChargesReturnDB
+ * ("financialPowers", keyed by BGL code); the row with code "*" applies to
+ * every head that has no row of its own.
+ */
+
+import { financialYearOf } from "./chargesVariance";
+
+/** Lowest first; the first level is the branch's own power */
+export const AUTHORITY_LEVELS = [
+  "Branch Manager",
+  "Regional Manager",
+  "Deputy General Manager",
+  "Chief General Manager",
+];
+
+export const BRANCH_AUTHORITY = AUTHORITY_LEVELS[0];
+
+export const DEFAULT_POWERS_CODE = "*";
+
+/** Days within which bills from one payee are looked at together */
+export const SPLIT_BILL_WINDOW_DAYS = 30;
+
+export interface PowerLimit {
+  perBill: number | null;  // null = no ceiling
+  perYear: number | null;
+}
+
+export interface FinancialPowers {
+  bglCode: string;         // BGL code, or "*" for all other heads
+  limits: Record<string, PowerLimit>;  // by authority level; a missing level has no power
+  remarks: string;         // circular / letter delegating the powers
+  updatedAt: string;
+}
+
+/** The fields of a charge entry the checks need */
+export interface PowersEntry {
+  id: string;
+  bglCode: string;
+  payDate: string;         // YYYY-MM-DD
+  billNo: string;
+  billDate?: string;       // YYYY-MM-DD
+  payee: string;
+  amount: number;
+  approverLevel?: string;
+  scheduleMonth?: string;  // YYYY-MM, when posted from a vendor's recurring schedule
+}
+
+export interface SanctionCheck {
+  allowed: boolean;
+  reason: string;          // why the approver lacked power, when not allowed
+  aboveBranchPower: boolean;
+  yearTotal: number;       // head's total for the FY including this entry
+}
+
+// ============================================================
+// Matrix
+// ============================================================
+export function powersFor(matrix: FinancialPowers[], bglCode: string): FinancialPowers | null {
+  return matrix.find((p) => p.bglCode === bglCode) ?? matrix.find((p) => p.bglCode === DEFAULT_POWERS_CODE) ?? null;
+}
+
+export function validatePowers(powers: FinancialPowers): void {
+  if (!powers.bglCode) throw new Error("Select the BGL head");
+  let previous: PowerLimit | null = null;
+  for (const level of AUTHORITY_LEVELS) {
+    const limit = powers.limits[level];
+    if (!limit) continue;
+    for (const value of [limit.perBill, limit.perYear]) {
+      if (value !== null && (!Number.isFinite(value) || value < 0)) {
+        throw new Error(`${level}: limits must be blank (no ceiling) or a positive amount`);
+      }
+    }
+    // A higher authority cannot have less power than the one below it
+    if (previous && (exceeds(previous.perBill, limit.perBill) || exceeds(previous.perYear, limit.perYear))) {
+      throw new Error(`${level} cannot have lower limits than the level below it`);
+    }
+    previous = limit;
+  }
+}
+
+/** Whether limit a is more than limit b (null is no ceiling) */
+function exceeds(a: number | null, b: number | null): boolean {
+  if (b === null) return false;
+  return a === null || a > b;
+}
+
+function withinLimit(amount: number, limit: number | null): boolean {
+  return limit === null || amount <= limit;
+}
+
+export function formatLimit(limit: number | null): string {
+  return limit === null ? "No ceiling" : `Rs. ${limit.toLocaleString("en-IN")}`;
+}
+
+// ============================================================
+// Checks
+// ============================================================
+/** Total charged under a head in the FY of `payDate`, leaving out one entry */
+export function headYearTotal(entries: PowersEntry[], bglCode: string, payDate: string, excludeId?: string): number {
+  const fy = financialYearOf(payDate);
+  return entries
+    .filter((e) => e.id !== excludeId && e.bglCode === bglCode && e.payDate && financialYearOf(e.payDate) === fy)
+    .reduce((sum, e) => sum + Number(e.amount || 0), 0);
+}
+
+/**
+ * Whether the approver's level had the power for this entry. Heads with no
+ * powers configured (and no default row) are not checked.
+ */
+export function checkSanction(entry: PowersEntry, matrix: FinancialPowers[], entries: PowersEntry[]): SanctionCheck {
+  const yearTotal = headYearTotal(entries, entry.bglCode, entry.payDate, entry.id) + entry.amount;
+  const powers = powersFor(matrix, entry.bglCode);
+  if (!powers) return { allowed: true, reason: "", aboveBranchPower: false, yearTotal };
+
+  const branch = powers.limits[BRANCH_AUTHORITY];
+  const aboveBranchPower = !branch || !withinLimit(entry.amount, branch.perBill) || !withinLimit(yearTotal, branch.perYear);
+
+  const level = entry.approverLevel || "";
+  const limit = powers.limits[level];
+  let reason = "";
+  if (!level) reason = "Select the approving authority's level";
+  else if (!limit) reason = `${level} has no powers under this head`;
+  else if (!withinLimit(entry.amount, limit.perBill)) {
+    reason = `Bill of Rs. ${entry.amount.toLocaleString("en-IN")} is beyond the per-bill power of ${level} (${formatLimit(limit.perBill)})`;
+  } else if (!withinLimit(yearTotal, limit.perYear)) {
+    reason = `Head total for FY ${financialYearOf(entry.payDate)} would be Rs. ${yearTotal.toLocaleString("en-IN")}, beyond the yearly power of ${level} (${formatLimit(limit.perYear)})`;
+  }
+  return { allowed: !reason, reason, aboveBranchPower, yearTotal };
+}
+
+function daysApart(a: string, b: string): number {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86400000;
+}
+
+function samePayee(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** Month (YYYY-MM) a bill is for: its bill date, else its payment date */
+function billMonth(entry: PowersEntry): string {
+  return (entry.billDate || entry.payDate).substring(0, 7);
+}
+
+/**
+ * Other bills of the same payee under the same head, for the same month and
+ * within the window, that together with this one go beyond the per-bill power
+ * the bills were each kept within. Monthly bills (rent paid on 1 Apr and
+ * 1 May) are for different months and scheduled vendor payments are never
+ * looked at. Empty when there is nothing suspicious.
+ */
+export function findSplitBills(entry: PowersEntry, matrix: FinancialPowers[], entries: PowersEntry[]): PowersEntry[] {
+  if (entry.scheduleMonth) return [];
+  const powers = powersFor(matrix, entry.bglCode);
+  const perBill = powers?.limits[entry.approverLevel || BRANCH_AUTHORITY]?.perBill ?? null;
+  if (perBill === null || entry.amount > perBill) return [];
+
+  const related = entries.filter((e) =>
+    e.id !== entry.id &&
+    !e.scheduleMonth &&
+    e.bglCode === entry.bglCode &&
+    samePayee(e.payee, entry.payee) &&
+    e.amount <= perBill &&
+    billMonth(e) === billMonth(entry) &&
+    daysApart(e.payDate, entry.payDate) <= SPLIT_BILL_WINDOW_DAYS
+  );
+  const combined = related.reduce((sum, e) => sum + e.amount, entry.amount);
+  return combined > perBill ? related : [];
+}
+
+export interface SplitBillGroup {
+  payee: string;
+  bglCode: string;
+  entries: PowersEntry[];
+  total: number;
+  perBill: number;
+}
+
+/** Every group of recorded bills that looks split to stay within powers */
+export function splitBillGroups(entries: PowersEntry[], matrix: FinancialPowers[]): SplitBillGroup[] {
+  const groups: SplitBillGroup[] = [];
+  const seen = new Set<string>();
+  const sorted = entries.slice().sort((a, b) => a.payDate.localeCompare(b.payDate));
+  for (const entry of sorted) {
+    if (seen.has(entry.id)) continue;
+    const related = findSplitBills(entry, matrix, sorted).filter((e) => !seen.has(e.id));
+    if (related.length === 0) continue;
+    const members = [entry, ...related].sort((a, b) => a.payDate.localeCompare(b.payDate));
+    const total = members.reduce((sum, e) => sum + e.amount, 0);
+    const perBill = powersFor(matrix, entry.bglCode)?.limits[entry.approverLevel || BRANCH_AUTHORITY]?.perBill ?? 0;
+    if (total <= perBill) continue;
+    members.forEach((e) => seen.add(e.id));
+    groups.push({ payee: entry.payee, bglCode: entry.bglCode, entries: members, total, perBill });
+  }
+  return groups;
+}
@@ -0,0 +1,280 @@
+/**
+ * GST and TDS on Branch Expenses
+ *
+ * Tax details of a charge entry — the vendor's GSTIN, taxable value and the
+ * CGST / SGST / IGST split, and the TDS deducted under the section set on the
+ * BGL head — and the monthly reports built from them: GST paid per vendor
+ * (input tax to be matched with GSTR-2B) and TDS deducted per deductee, plus
+ * a Form 26Q-style deductee annexure for the quarterly TDS return.
+ *
+ * The entry amount stays the gross bill (taxable value + GST) charged to the
+ * head; TDS is recovered from the payee and does not change the charge.
+ */
+
+import { GST_STATE_CODES } from "./indianStates";
+import { financialYearOf } from "./chargesVariance";
+
+export interface TaxDetails {
+  vendorGstin: string;     // "" for an unregistered vendor
+  vendorPan: string;       // deductee PAN; taken from the GSTIN when not entered
+  taxableValue: number;
+  gstRate: number;         // %
+  cgst: number;
+  sgst: number;
+  igst: number;
+  tdsSection: string;      // "" when no TDS is deducted
+  tdsRate: number;         // %
+  tdsAmount: number;
+}
+
+/** The fields of a charge entry the reports need */
+export interface TaxEntry {
+  id: string;
+  bglCode: string;
+  payDate: string;         // YYYY-MM-DD
+  billNo: string;
+  billDate: string;
+  payee: string;
+  amount: number;
+  tax?: TaxDetails;
+}
+
+export const GST_RATES = [0, 5, 12, 18, 28];
+
+/** TDS sections that arise on branch expenses, with the usual rate */
+export const TDS_SECTIONS = [
+  { section: "194C", rpuCode: "94C", nature: "Payment to contractors", rate: 2 },
+  { section: "194H", rpuCode: "94H", nature: "Commission or brokerage", rate: 2 },
+  { section: "194I(a)", rpuCode: "4IA", nature: "Rent — plant, machinery or equipment", rate: 2 },
+  { section: "194I(b)", rpuCode: "4IB", nature: "Rent — land, building or furniture", rate: 10 },
+  { section: "194J", rpuCode: "94J", nature: "Fees for professional or technical services", rate: 10 },
+];
+
+/** TDS rate where the deductee has not furnished a PAN (section 206AA) */
+export const NO_PAN_TDS_RATE = 20;
+
+// ============================================================
+// GSTIN / PAN
+// ============================================================
+const GSTIN_CHARS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const PAN_PATTERN = /^[A-Z]{5}\d{4}[A-Z]$/;
+
+/** Why a GSTIN is invalid, or "" if it is valid (format, state code and check digit) */
+export function gstinError(gstin: string): string {
+  if (!/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(gstin)) return `${gstin} is not a valid GSTIN format`;
+  if (!Object.values(GST_STATE_CODES).includes(gstin.slice(0, 2))) return `${gstin} has an unknown state code`;
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARS.indexOf(gstin[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  if (GSTIN_CHARS[(36 - (sum % 36)) % 36] !== gstin[14]) return `${gstin} fails the GSTIN check digit`;
+  return "";
+}
+
+export function panFromGstin(gstin: string): string {
+  return gstin.length === 15 ? gstin.slice(2, 12) : "";
+}
+
+export function isValidPan(pan: string): boolean {
+  return PAN_PATTERN.test(pan);
+}
+
+/**
+ * Whether a supply is inter-state (IGST) rather than intra-state (CGST +
+ * SGST): the vendor's state, from the GSTIN, differs from the branch's.
+ * Treated as intra-state when either state is not known.
+ */
+export function isInterState(vendorGstin: string, branchState: string | undefined): boolean {
+  const branchCode = branchState ? GST_STATE_CODES[branchState] : undefined;
+  return !!branchCode && vendorGstin.length === 15 && vendorGstin.slice(0, 2) !== branchCode;
+}
+
+// ============================================================
+// Computation
+// ============================================================
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function computeGst(taxableValue: number, gstRate: number, interState: boolean): Pick<TaxDetails, "cgst" | "sgst" | "igst"> {
+  const gst = round2((taxableValue * gstRate) / 100);
+  if (interState) return { cgst: 0, sgst: 0, igst: gst };
+  const half = round2(gst / 2);
+  return { cgst: half, sgst: round2(gst - half), igst: 0 };
+}
+
+/** TDS is rounded to the nearest rupee (section 288B) */
+export function computeTds(taxableValue: number, tdsRate: number): number {
+  return Math.round((taxableValue * tdsRate) / 100);
+}
+
+export interface TaxInput {
+  vendorGstin: string;
+  vendorPan: string;
+  taxableValue: number;
+  gstRate: number;
+  interState: boolean;
+  tdsSection: string;
+  tdsRate: number;
+  tdsAmount: number | null;  // null = compute from the rate
+}
+
+/** Validate the tax fields of a bill of `amount` and work out the taxes */
+export function buildTaxDetails(input: TaxInput, amount: number): TaxDetails {
+  const vendorGstin = input.vendorGstin.trim().toUpperCase();
+  const vendorPan = (input.vendorPan.trim().toUpperCase() || panFromGstin(vendorGstin));
+
+  if (vendorGstin) {
+    const error = gstinError(vendorGstin);
+    if (error) throw new Error(error);
+  }
+  if (vendorPan && !isValidPan(vendorPan)) throw new Error(`${vendorPan} is not a valid PAN`);
+  if (input.gstRate > 0 && !vendorGstin) throw new Error("GST can only be charged by a registered vendor — enter the GSTIN");
+  if (!Number.isFinite(input.taxableValue) || input.taxableValue <= 0) throw new Error("Enter the taxable value of the bill");
+
+  const gst = computeGst(input.taxableValue, input.gstRate, input.interState);
+  const invoiceTotal = input.taxableValue + gst.cgst + gst.sgst + gst.igst;
+  if (Math.abs(invoiceTotal - amount) > 1) {
+    throw new Error(`Taxable value + GST (Rs. ${invoiceTotal.toFixed(2)}) does not match the bill amount (Rs. ${amount.toFixed(2)})`);
+  }
+
+  let tdsRate = 0;
+  let tdsAmount = 0;
+  if (input.tdsSection) {
+    if (!TDS_SECTIONS.some((s) => s.section === input.tdsSection)) throw new Error(`Unknown TDS section ${input.tdsSection}`);
+    tdsRate = vendorPan ? input.tdsRate : Math.max(input.tdsRate, NO_PAN_TDS_RATE);
+    tdsAmount = input.tdsAmount ?? computeTds(input.taxableValue, tdsRate);
+    if (!Number.isFinite(tdsAmount) || tdsAmount < 0 || tdsAmount > input.taxableValue) throw new Error("Enter a valid TDS amount");
+  }
+
+  return {
+    vendorGstin,
+    vendorPan,
+    taxableValue: round2(input.taxableValue),
+    gstRate: input.gstRate,
+    ...gst,
+    tdsSection: input.tdsSection,
+    tdsRate,
+    tdsAmount,
+  };
+}
+
+// ============================================================
+// Reports
+// ============================================================
+export interface GstVendorRow {
+  vendorGstin: string;
+  payee: string;
+  bills: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  invoiceValue: number;
+}
+
+/** GST paid per vendor on bills paid in the month (YYYY-MM) */
+export function gstByVendor(entries: TaxEntry[], month: string): GstVendorRow[] {
+  const rows = new Map<string, GstVendorRow>();
+  for (const e of entries) {
+    if (!e.tax?.vendorGstin || !e.payDate.startsWith(month)) continue;
+    const row = rows.get(e.tax.vendorGstin) ?? {
+      vendorGstin: e.tax.vendorGstin, payee: e.payee, bills: 0, taxableValue: 0, cgst: 0, sgst: 0, igst: 0, invoiceValue: 0,
+    };
+    row.bills++;
+    row.taxableValue = round2(row.taxableValue + e.tax.taxableValue);
+    row.cgst = round2(row.cgst + e.tax.cgst);
+    row.sgst = round2(row.sgst + e.tax.sgst);
+    row.igst = round2(row.igst + e.tax.igst);
+    row.invoiceValue = round2(row.invoiceValue + e.amount);
+    rows.set(e.tax.vendorGstin, row);
+  }
+  return Array.from(rows.values()).sort((a, b) => a.payee.localeCompare(b.payee));
+}
+
+export interface TdsDeducteeRow {
+  vendorPan: string;
+  payee: string;
+  tdsSection: string;
+  payments: number;
+  amountCredited: number;
+  tdsAmount: number;
+}
+
+/** TDS deducted per deductee and section on bills paid in the month */
+export function tdsByDeductee(entries: TaxEntry[], month: string): TdsDeducteeRow[] {
+  const rows = new Map<string, TdsDeducteeRow>();
+  for (const e of entries) {
+    if (!e.tax?.tdsSection || !e.payDate.startsWith(month)) continue;
+    const key = `${e.tax.vendorPan || e.payee.trim().toUpperCase()}|${e.tax.tdsSection}`;
+    const row = rows.get(key) ?? {
+      vendorPan: e.tax.vendorPan, payee: e.payee, tdsSection: e.tax.tdsSection, payments: 0, amountCredited: 0, tdsAmount: 0,
+    };
+    row.payments++;
+    row.amountCredited = round2(row.amountCredited + e.tax.taxableValue);
+    row.tdsAmount += e.tax.tdsAmount;
+    rows.set(key, row);
+  }
+  return Array.from(rows.values()).sort((a, b) => a.tdsSection.localeCompare(b.tdsSection) || a.payee.localeCompare(b.payee));
+}
+
+export const QUARTERS = [
+  { quarter: "Q1", label: "Q1 (Apr–Jun)", months: ["04", "05", "06"] },
+  { quarter: "Q2", label: "Q2 (Jul–Sep)", months: ["07", "08", "09"] },
+  { quarter: "Q3", label: "Q3 (Oct–Dec)", months: ["10", "11", "12"] },
+  { quarter: "Q4", label: "Q4 (Jan–Mar)", months: ["01", "02", "03"] },
+];
+
+/** Deductee code of the 26Q annexure: 01 company, 02 anyone else */
+function deducteeCode(pan: string): string {
+  return pan[3] === "C" ? "01" : "02";
+}
+
+/** Form 26Q deductee annexure rows for one quarter of a financial year */
+export function form26QAnnexure(entries: TaxEntry[], fy: string, quarter: string): Record<string, string | number>[] {
+  const months = QUARTERS.find((q) => q.quarter === quarter)?.months ?? [];
+  const ddmmyyyy = (iso: string) => iso.split("-").reverse().join("/");
+  return entries
+    .filter((e) => e.tax?.tdsSection && e.payDate && financialYearOf(e.payDate) === fy && months.includes(e.payDate.substring(5, 7)))
+    .sort((a, b) => a.payDate.localeCompare(b.payDate))
+    .map((e, i) => {
+      const tax = e.tax!;
+      return {
+        "Sr. No.": i + 1,
+        "Section Code": TDS_SECTIONS.find((s) => s.section === tax.tdsSection)?.rpuCode ?? tax.tdsSection,
+        "Deductee Code": tax.vendorPan ? deducteeCode(tax.vendorPan) : "02",
+        "PAN of Deductee": tax.vendorPan || "PANNOTAVBL",
+        "Name of Deductee": e.payee,
+        "Date of Payment / Credit": ddmmyyyy(e.payDate),
+        "Amount Paid / Credited": tax.taxableValue,
+        "TDS Rate (%)": tax.tdsRate,
+        "TDS Deducted": tax.tdsAmount,
+        "Total Tax Deposited": tax.tdsAmount,
+        "Date of Deduction": ddmmyyyy(e.payDate),
+        "Reason for Higher Deduction": tax.vendorPan ? "" : "C",
+        "Bill No.": e.billNo,
+      };
+    });
+}
+
+/**
+ * Entries of the month the tax reports cannot be relied on for: TDS without
+ * the deductee's PAN, and bills under a head that attracts TDS with none
+ * recorded.
+ */
+export function taxExceptions(
+  entries: TaxEntry[],
+  heads: { bglCode: string; tdsSection?: string }[],
+  month: string
+): { entry: TaxEntry; issue: string }[] {
+  const issues: { entry: TaxEntry; issue: string }[] = [];
+  for (const e of entries) {
+    if (!e.payDate.startsWith(month)) continue;
+    const headSection = heads.find((h) => h.bglCode === e.bglCode)?.tdsSection;
+    if (e.tax?.tdsSection && !e.tax.vendorPan) {
+      issues.push({ entry: e, issue: `No PAN — TDS at ${NO_PAN_TDS_RATE}% under section 206AA` });
+    } else if (headSection && !e.tax?.tdsSection) {
+      issues.push({ entry: e, issue: `Head attracts TDS under ${headSection} but none was recorded` });
+    }
+  }
+  return issues;
+}
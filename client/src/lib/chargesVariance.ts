@@ -0,0 +1,212 @@
+/**
+ * Charges Variance Analysis
+ *
+ * Annual budgets per BGL head and the variance of actual charges against
+ * them — for the month and year-to-date, against the budget and against the
+ * same period last year — as the controller asks for when questioning an
+ * overspent head. Actuals are the Charges Entry rows; budgets are phased
+ * evenly over the twelve months of the financial year (April–March).
+ *
+ * Budgets are stored by the Charges Return app in ChargesReturnDB ("budgets",
+ * keyed by financial year and BGL code); everything here is pure so the
+ * statement, alerts and trend chart all work off the same figures.
+ */
+
+export interface BGLBudget {
+  financialYear: string;   // "2025-26"
+  bglCode: string;
+  annualBudget: number;    // sanctioned for the year
+  remarks: string;         // sanction reference
+  updatedAt: string;
+}
+
+/** The fields of a charge entry the analysis needs */
+export interface VarianceEntry {
+  bglCode: string;
+  payDate: string;         // YYYY-MM-DD
+  amount: number;
+}
+
+export interface VarianceHead {
+  bglCode: string;
+  head: string;
+  subHead: string;
+  reportCategory: string;
+}
+
+export type VarianceStatus = "Exceeded" | "Ahead of budget" | "Unbudgeted" | "Within budget";
+
+export interface VarianceRow extends VarianceHead {
+  annualBudget: number;
+  monthBudget: number;
+  monthActual: number;
+  monthLastYear: number;
+  ytdBudget: number;       // budget phased up to the selected month
+  ytdActual: number;
+  ytdLastYear: number;
+  utilisation: number | null;  // % of the annual budget used; null without a budget
+  status: VarianceStatus;
+}
+
+export interface TrendPoint {
+  month: string;           // YYYY-MM
+  label: string;           // "Apr"
+  actual: number;
+  lastYear: number;
+  budget: number;
+}
+
+// ============================================================
+// Financial year
+// ============================================================
+/** Financial year ("2025-26") of a YYYY-MM-DD or YYYY-MM date */
+export function financialYearOf(iso: string): string {
+  const [y, m] = iso.split("-").map(Number);
+  const start = m >= 4 ? y : y - 1;
+  return `${start}-${String(start + 1).slice(-2)}`;
+}
+
+export function previousFinancialYear(fy: string): string {
+  const start = parseInt(fy, 10) - 1;
+  return `${start}-${String(start + 1).slice(-2)}`;
+}
+
+/** The twelve months (YYYY-MM) of a financial year, April first */
+export function financialYearMonths(fy: string): string[] {
+  const start = parseInt(fy, 10);
+  return Array.from({ length: 12 }, (_, i) => {
+    const m = ((i + 3) % 12) + 1;
+    return `${i < 9 ? start : start + 1}-${String(m).padStart(2, "0")}`;
+  });
+}
+
+export function sameMonthLastYear(month: string): string {
+  const [y, m] = month.split("-");
+  return `${Number(y) - 1}-${m}`;
+}
+
+export function monthLabel(month: string, style: "short" | "long" = "long"): string {
+  return new Date(month + "-01").toLocaleDateString("en-IN", style === "short" ? { month: "short" } : { month: "long", year: "numeric" });
+}
+
+// ============================================================
+// Budgets
+// ============================================================
+export function validateBudget(budget: BGLBudget): void {
+  if (!/^\d{4}-\d{2}$/.test(budget.financialYear)) throw new Error("Select the financial year");
+  if (!budget.bglCode) throw new Error("Select the BGL head");
+  if (!Number.isFinite(budget.annualBudget) || budget.annualBudget < 0) {
+    throw new Error("Annual budget must be zero or a positive amount");
+  }
+}
+
+// ============================================================
+// Actuals
+// ============================================================
+/** Amount paid per BGL code per month: `${bglCode}|${YYYY-MM}` → total */
+function monthlyActuals(entries: VarianceEntry[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const e of entries) {
+    if (!e.payDate) continue;
+    const key = `${e.bglCode}|${e.payDate.substring(0, 7)}`;
+    totals.set(key, (totals.get(key) || 0) + Number(e.amount || 0));
+  }
+  return totals;
+}
+
+function sumMonths(totals: Map<string, number>, bglCode: string, months: string[]): number {
+  return months.reduce((sum, m) => sum + (totals.get(`${bglCode}|${m}`) || 0), 0);
+}
+
+function statusOf(annualBudget: number, ytdBudget: number, ytdActual: number): VarianceStatus {
+  if (annualBudget <= 0) return ytdActual > 0 ? "Unbudgeted" : "Within budget";
+  if (ytdActual > annualBudget) return "Exceeded";
+  if (ytdActual > ytdBudget) return "Ahead of budget";
+  return "Within budget";
+}
+
+// ============================================================
+// Statement
+// ============================================================
+/**
+ * Variance of every head budgeted or charged in the financial year of
+ * `month`, for that month and for April up to it. Heads only charged last
+ * year are kept so a head that stopped being used still shows its comparison.
+ */
+export function buildVarianceStatement(
+  entries: VarianceEntry[],
+  budgets: BGLBudget[],
+  heads: VarianceHead[],
+  month: string
+): VarianceRow[] {
+  const fy = financialYearOf(month);
+  const fyMonths = financialYearMonths(fy);
+  const ytdMonths = fyMonths.slice(0, fyMonths.indexOf(month) + 1);
+  const lastYearMonths = ytdMonths.map(sameMonthLastYear);
+  const relevant = new Set([...fyMonths, ...financialYearMonths(previousFinancialYear(fy))]);
+
+  const totals = monthlyActuals(entries);
+  const budgetByCode = new Map(budgets.filter((b) => b.financialYear === fy).map((b) => [b.bglCode, b.annualBudget]));
+  const codes = new Set<string>(Array.from(budgetByCode.keys()));
+  for (const e of entries) {
+    if (e.payDate && relevant.has(e.payDate.substring(0, 7))) codes.add(e.bglCode);
+  }
+
+  return Array.from(codes)
+    .map((bglCode) => {
+      const head = heads.find((h) => h.bglCode === bglCode) ?? { bglCode, head: "Unknown", subHead: "", reportCategory: "Uncategorized" };
+      const annualBudget = budgetByCode.get(bglCode) || 0;
+      const ytdBudget = (annualBudget * ytdMonths.length) / 12;
+      const ytdActual = sumMonths(totals, bglCode, ytdMonths);
+      return {
+        ...head,
+        annualBudget,
+        monthBudget: annualBudget / 12,
+        monthActual: totals.get(`${bglCode}|${month}`) || 0,
+        monthLastYear: totals.get(`${bglCode}|${sameMonthLastYear(month)}`) || 0,
+        ytdBudget,
+        ytdActual,
+        ytdLastYear: sumMonths(totals, bglCode, lastYearMonths),
+        utilisation: annualBudget > 0 ? (ytdActual / annualBudget) * 100 : null,
+        status: statusOf(annualBudget, ytdBudget, ytdActual),
+      };
+    })
+    .sort((a, b) => a.reportCategory.localeCompare(b.reportCategory) || a.bglCode.localeCompare(b.bglCode));
+}
+
+/** Heads the controller will question, worst first */
+export function varianceAlerts(rows: VarianceRow[]): VarianceRow[] {
+  const rank: Record<VarianceStatus, number> = { Exceeded: 0, Unbudgeted: 1, "Ahead of budget": 2, "Within budget": 3 };
+  return rows
+    .filter((r) => r.status !== "Within budget")
+    .sort((a, b) => rank[a.status] - rank[b.status] || (b.ytdActual - b.ytdBudget) - (a.ytdActual - a.ytdBudget));
+}
+
+/** Variance as a % of the base; null when there is nothing to compare with */
+export function variancePercent(actual: number, base: number): number | null {
+  return base > 0 ? ((actual - base) / base) * 100 : null;
+}
+
+// ============================================================
+// Trend
+// ============================================================
+/** Month-wise actual, last year and phased budget for one head or all ("") */
+export function varianceTrend(entries: VarianceEntry[], budgets: BGLBudget[], fy: string, bglCode: string): TrendPoint[] {
+  const totals = new Map<string, number>();
+  for (const e of entries) {
+    if (!e.payDate || (bglCode && e.bglCode !== bglCode)) continue;
+    const m = e.payDate.substring(0, 7);
+    totals.set(m, (totals.get(m) || 0) + Number(e.amount || 0));
+  }
+  const annual = budgets
+    .filter((b) => b.financialYear === fy && (!bglCode || b.bglCode === bglCode))
+    .reduce((sum, b) => sum + b.annualBudget, 0);
+
+  return financialYearMonths(fy).map((month) => ({
+    month,
+    label: monthLabel(month, "short"),
+    actual: totals.get(month) || 0,
+    lastYear: totals.get(sameMonthLastYear(month)) || 0,
+    budget: annual / 12,
+  }));
+}
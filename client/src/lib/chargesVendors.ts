@@ -0,0 +1,192 @@
+/**
+ * Vendor Master and Recurring Payments for Branch Expenses
+ *
+ * Rent, electricity, housekeeping, security and AMC bills recur every month.
+ * The vendor master holds the payee once — bank details, GSTIN, the BGL head
+ * the payment goes to and the contract period with its escalation — and, for
+ * a recurring contract, the monthly amount and the day it falls due:
+ *
+ * - each month a draft charge entry is pre-created per recurring vendor; the
+ *   draft is reviewed against the bill and posted from Charges Entry
+ * - a month of the contract with no posted payment is flagged in the Charges
+ *   Return
+ * - a one-time Reminders task is raised ahead of the contract's renewal
+ *
+ * Vendors and drafts are stored by the Charges Return app in ChargesReturnDB
+ * ("vendors" and "draftCharges"); drafts stay out of every report until they
+ * are posted as charge entries.
+ */
+
+import { gstinError } from "./chargesTax";
+import { addDaysISO, fmtDate } from "./legalProceedings";
+import { IssuedReminder, syncIssuedReminders } from "./reminderTasks";
+
+export interface Vendor {
+  id: string;
+  name: string;            // payee as it appears on charge entries
+  gstin: string;
+  pan: string;
+  bankName: string;
+  accountNo: string;
+  ifsc: string;
+  defaultBglCode: string;
+  purpose: string;         // e.g. "Office rent"
+  contractStart: string;   // YYYY-MM-DD
+  contractEnd: string;     // YYYY-MM-DD; empty when open-ended
+  escalationPercent: number;  // compounded on every contract anniversary
+  recurring: boolean;
+  monthlyAmount: number;   // amount in the first contract year
+  paymentDay: number;      // day of the month the payment falls due (1–28)
+  active: boolean;
+  remindersIssued: string[];
+  updatedAt: string;
+}
+
+export interface DraftCharge {
+  id: string;              // draft_<vendorId>_<YYYY-MM>
+  vendorId: string;
+  scheduleMonth: string;   // YYYY-MM
+  bglCode: string;
+  payDate: string;
+  payee: string;
+  purpose: string;
+  amount: number;
+  status: "pending" | "skipped";
+  createdAt: string;
+}
+
+/** The fields of a charge entry matched against a vendor's schedule */
+export interface ScheduledEntry {
+  bglCode: string;
+  payDate: string;
+  payee: string;
+  vendorId?: string;
+  scheduleMonth?: string;
+}
+
+/** Days before a contract ends that the renewal reminder falls due */
+export const RENEWAL_NOTICE_DAYS = 60;
+
+const REMINDER_PREFIX = "vendor:";
+
+function monthsBetween(fromMonth: string, toMonth: string): number {
+  const [fy, fm] = fromMonth.split("-").map(Number);
+  const [ty, tm] = toMonth.split("-").map(Number);
+  return (ty - fy) * 12 + (tm - fm);
+}
+
+// ============================================================
+// Vendors
+// ============================================================
+export function validateVendor(vendor: Vendor, bglCodes: string[]): void {
+  if (!vendor.name.trim()) throw new Error("Enter the vendor's name");
+  if (vendor.gstin) {
+    const error = gstinError(vendor.gstin);
+    if (error) throw new Error(error);
+  }
+  if (vendor.pan && !/^[A-Z]{5}\d{4}[A-Z]$/.test(vendor.pan)) throw new Error(`${vendor.pan} is not a valid PAN`);
+  if (vendor.ifsc && !/^[A-Z]{4}0[A-Z0-9]{6}$/.test(vendor.ifsc)) throw new Error(`${vendor.ifsc} is not a valid IFSC`);
+  if (vendor.defaultBglCode && !bglCodes.includes(vendor.defaultBglCode)) {
+    throw new Error(`BGL ${vendor.defaultBglCode} is not in the BGL master`);
+  }
+  if (vendor.contractEnd && vendor.contractStart && vendor.contractEnd < vendor.contractStart) {
+    throw new Error("Contract end cannot be before its start");
+  }
+  if (!Number.isFinite(vendor.escalationPercent) || vendor.escalationPercent < 0) {
+    throw new Error("Escalation must be zero or a positive percentage");
+  }
+  if (vendor.recurring) {
+    if (!vendor.defaultBglCode) throw new Error("Select the BGL head recurring payments go to");
+    if (!vendor.contractStart) throw new Error("Enter the contract start date");
+    if (!Number.isFinite(vendor.monthlyAmount) || vendor.monthlyAmount <= 0) throw new Error("Enter the monthly amount");
+    if (!Number.isInteger(vendor.paymentDay) || vendor.paymentDay < 1 || vendor.paymentDay > 28) {
+      throw new Error("Payment day must be between 1 and 28");
+    }
+  }
+}
+
+/** Whether the contract runs in a month (YYYY-MM) */
+export function contractCovers(vendor: Vendor, month: string): boolean {
+  if (!vendor.contractStart || month < vendor.contractStart.substring(0, 7)) return false;
+  return !vendor.contractEnd || month <= vendor.contractEnd.substring(0, 7);
+}
+
+/** Monthly amount payable in a month, after escalation on each contract anniversary */
+export function scheduledAmount(vendor: Vendor, month: string): number {
+  const years = Math.max(0, Math.floor(monthsBetween(vendor.contractStart.substring(0, 7), month) / 12));
+  const amount = vendor.monthlyAmount * Math.pow(1 + vendor.escalationPercent / 100, years);
+  return Math.round(amount * 100) / 100;
+}
+
+// ============================================================
+// Drafts and missing payments
+// ============================================================
+/** Whether a posted entry is this vendor's payment for the month */
+function paidFor(vendor: Vendor, month: string, entries: ScheduledEntry[]): boolean {
+  return entries.some((e) =>
+    e.vendorId
+      ? e.vendorId === vendor.id && e.scheduleMonth === month
+      // Entries keyed in before the vendor was set up
+      : e.payDate.startsWith(month) && e.bglCode === vendor.defaultBglCode && e.payee.trim().toLowerCase() === vendor.name.trim().toLowerCase()
+  );
+}
+
+/** Drafts to create for the month: recurring vendors with neither a payment nor a draft */
+export function dueDrafts(vendors: Vendor[], entries: ScheduledEntry[], drafts: DraftCharge[], month: string): DraftCharge[] {
+  return vendors
+    .filter((v) => v.active && v.recurring && contractCovers(v, month))
+    .filter((v) => !drafts.some((d) => d.vendorId === v.id && d.scheduleMonth === month) && !paidFor(v, month, entries))
+    .map((v) => ({
+      id: `draft_${v.id}_${month}`,
+      vendorId: v.id,
+      scheduleMonth: month,
+      bglCode: v.defaultBglCode,
+      payDate: `${month}-${String(v.paymentDay).padStart(2, "0")}`,
+      payee: v.name,
+      purpose: `${v.purpose || "Payment"} for ${new Date(month + "-01").toLocaleDateString("en-IN", { month: "long", year: "numeric" })}`,
+      amount: scheduledAmount(v, month),
+      status: "pending",
+      createdAt: new Date().toISOString(),
+    }));
+}
+
+export interface MissingPayment {
+  vendor: Vendor;
+  month: string;
+  amount: number;
+  skipped: boolean;        // the month's draft was deliberately skipped
+}
+
+/** Recurring payments of the month with no posted charge entry */
+export function missingPayments(vendors: Vendor[], entries: ScheduledEntry[], drafts: DraftCharge[], month: string): MissingPayment[] {
+  return vendors
+    .filter((v) => v.active && v.recurring && contractCovers(v, month) && !paidFor(v, month, entries))
+    .map((v) => ({
+      vendor: v,
+      month,
+      amount: scheduledAmount(v, month),
+      skipped: drafts.some((d) => d.vendorId === v.id && d.scheduleMonth === month && d.status === "skipped"),
+    }));
+}
+
+// ============================================================
+// Renewal reminders
+// ============================================================
+function renewalReminder(vendor: Vendor): IssuedReminder | null {
+  if (!vendor.active || !vendor.contractEnd) return null;
+  return {
+    id: `${REMINDER_PREFIX}${vendor.id}:renewal:${vendor.contractEnd}`,
+    dueDate: addDaysISO(vendor.contractEnd, -RENEWAL_NOTICE_DAYS),
+    name: `Contract renewal — ${vendor.name}${vendor.purpose ? ` (${vendor.purpose})` : ""}: contract ends on ${fmtDate(vendor.contractEnd)}`,
+  };
+}
+
+/**
+ * Bring the vendor's renewal reminder in the Reminders app in line with its
+ * contract end; the task for an end date that has changed (or a vendor
+ * deactivated or deleted) is withdrawn. Returns the ids now issued.
+ */
+export async function syncRenewalReminders(vendor: Vendor, deleted = false): Promise<string[]> {
+  const reminder = deleted ? null : renewalReminder(vendor);
+  return syncIssuedReminders(vendor.remindersIssued, reminder ? [reminder] : [], "Charges Return");
+}
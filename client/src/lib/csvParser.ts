@@ -0,0 +1,108 @@
+/**
+ * Shared CSV Parser
+ * RFC-4180 parsing on top of papaparse: quoted fields, embedded commas and
+ * newlines, escaped quotes, BOM, and comma/pipe/tab/semicolon delimiters.
+ *
+ * parseCSV()     — synchronous, for small files (mappings, loan file lists)
+ * parseCSVFile() — streams a File in chunks inside a Web Worker and reports
+ *                  progress, for large CBS extracts (200k-row shadow files)
+ */
+
+import Papa from "papaparse";
+
+export type CSVRow = Record<string, string>;
+
+export interface CSVParseProgress {
+  rows: number;
+  percent: number; // 0-100, by bytes read
+}
+
+export const CSV_PARSE_CONFIG = {
+  header: true,
+  skipEmptyLines: "greedy" as const,
+  delimitersToGuess: [",", "|", "\t", ";"],
+  // trim() also strips a BOM left on the first header
+  transformHeader: (h: string) => h.trim(),
+  transform: (v: string) => v.trim(),
+};
+
+/**
+ * Give every row every header column ("" when the line was short) and drop
+ * papaparse's __parsed_extra, matching what the old split(",") parser returned.
+ */
+export function normaliseRows(rows: any[], fields: string[] | undefined): CSVRow[] {
+  const headers = (fields || []).filter((h) => h !== "");
+  return rows.map((r) => {
+    const row: CSVRow = {};
+    for (const h of headers) row[h] = r[h] ?? "";
+    return row;
+  });
+}
+
+export function parseCSV(text: string): CSVRow[] {
+  if (!text || typeof text !== "string") return [];
+  const result = Papa.parse<any>(text, CSV_PARSE_CONFIG);
+  return normaliseRows(result.data, result.meta.fields);
+}
+
+/** Header row only — enough to detect the file type without parsing the file */
+export async function readCSVHeaders(file: Blob): Promise<string[]> {
+  const head = await file.slice(0, 64 * 1024).text();
+  const result = Papa.parse<any>(head, { ...CSV_PARSE_CONFIG, preview: 1 });
+  return (result.meta.fields || []).filter((h) => h !== "");
+}
+
+// Messages posted by csvParser.worker.ts
+export type CSVWorkerMessage =
+  | { type: "chunk"; rows: CSVRow[]; progress: CSVParseProgress }
+  | { type: "done"; rows: number }
+  | { type: "error"; message: string };
+
+function parseOnMainThread(file: File, onProgress?: (p: CSVParseProgress) => void): Promise<CSVRow[]> {
+  return new Promise((resolve, reject) => {
+    const rows: CSVRow[] = [];
+    Papa.parse<any>(file, {
+      ...CSV_PARSE_CONFIG,
+      chunk: (results) => {
+        const chunkRows = normaliseRows(results.data, results.meta.fields);
+        for (const r of chunkRows) rows.push(r);
+        onProgress?.({ rows: rows.length, percent: file.size ? Math.min(100, (results.meta.cursor / file.size) * 100) : 100 });
+      },
+      complete: () => resolve(rows),
+      error: (err) => reject(err),
+    });
+  });
+}
+
+/**
+ * Parse a CSV file off the main thread. Rows come back chunk by chunk so the
+ * UI stays responsive and can show progress. Falls back to chunked parsing on
+ * the main thread where Web Workers are unavailable.
+ */
+export function parseCSVFile(file: File, onProgress?: (p: CSVParseProgress) => void): Promise<CSVRow[]> {
+  if (typeof Worker === "undefined") return parseOnMainThread(file, onProgress);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./csvParser.worker.ts", import.meta.url), { type: "module" });
+    const rows: CSVRow[] = [];
+
+    worker.onmessage = (e: MessageEvent<CSVWorkerMessage>) => {
+      const msg = e.data;
+      if (msg.type === "chunk") {
+        for (const r of msg.rows) rows.push(r);
+        onProgress?.(msg.progress);
+      } else if (msg.type === "done") {
+        worker.terminate();
+        resolve(rows);
+      } else {
+        worker.terminate();
+        reject(new Error(msg.message));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || "CSV worker failed"));
+    };
+    worker.postMessage({ file });
+  });
+}
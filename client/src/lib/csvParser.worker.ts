@@ -0,0 +1,35 @@
+/**
+ * CSV parsing worker — see parseCSVFile() in csvParser.ts.
+ * Streams the file with papaparse and posts each parsed chunk back with
+ * progress, so the main thread never holds the whole file as one string.
+ */
+
+import Papa from "papaparse";
+import { CSV_PARSE_CONFIG, normaliseRows, CSVWorkerMessage } from "./csvParser";
+
+const ctx = self as unknown as Worker;
+
+function post(msg: CSVWorkerMessage) {
+  ctx.postMessage(msg);
+}
+
+ctx.onmessage = (e: MessageEvent<{ file: File }>) => {
+  const { file } = e.data;
+  let total = 0;
+
+  Papa.parse<any>(file, {
+    ...CSV_PARSE_CONFIG,
+    chunkSize: 1024 * 1024,
+    chunk: (results) => {
+      const rows = normaliseRows(results.data, results.meta.fields);
+      total += rows.length;
+      post({
+        type: "chunk",
+        rows,
+        progress: { rows: total, percent: file.size ? Math.min(100, (results.meta.cursor / file.size) * 100) : 100 },
+      });
+    },
+    complete: () => post({ type: "done", rows: total }),
+    error: (err) => post({ type: "error", message: err.message }),
+  });
+};
@@ -1,11 +1,58 @@
 /**
  * Data Backup and Restore Utility
- * Exports and imports all IndexedDB data as JSON files
+ * Exports and imports all IndexedDB data as passphrase-encrypted backup files
+ * (AES-GCM, key from PBKDF2 — see passphraseCrypto.ts). Backups leave the
+ * branch on pen drives, so nothing but the manifest is readable without the
+ * passphrase. The manifest (databases, stores and record counts per app) is
+ * bound to the ciphertext as associated data, so it cannot be altered either.
+ *
+ * Restore can pick which apps to bring back and whether to merge with or
+ * replace what is on this PC. Unencrypted backups from older versions can
+ * still be restored.
+ *
+ * The audit trail is exported for inspection but never overwritten or cleared.
+ * Backups record each database's schema version (see migrations.ts); a backup
+ * taken by a newer version of the app is refused rather than half-restored.
+ * The LAN sync bookkeeping (syncQueue.ts) belongs to one PC and is never
+ * backed up; after a restore this PC compares all its data with the sync
+ * server again.
  */
 
-interface BackupData {
+import { appForKey, isAuditDatabase, recordAudit } from "./auditLog";
+import { findNewerSchemas, openMigratedDB, schemaVersion } from "./migrations";
+import { isSyncDatabase, requestFullResync } from "./syncQueue";
+import {
+  PBKDF2_ITERATIONS,
+  decryptBytes,
+  deriveAesKey,
+  encryptBytes,
+  fromBase64,
+  newSalt,
+  toBase64,
+} from "./passphraseCrypto";
+
+const BACKUP_FORMAT = "sbi-branch-backup";
+const APP_DATA_DB = "SBI_Branch_App_DB";
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
+
+// Shown in the manifest; never restored
+export const AUDIT_TRAIL_APP = "Audit Trail";
+
+// Databases that belong to a single app. Records in SBI_Branch_App_DB are
+// attributed per key (appForKey), the same way the audit trail does it.
+const DATABASE_APPS: Record<string, string> = {
+  BranchPortfolioDB: "Branch Portfolio",
+  LoanFileManagerDB: "Loan File Manager",
+  ChargesReturnDB: "Charges Return",
+  "sbi-templates": "Notice Generator",
+  SBI_Audit_DB: AUDIT_TRAIL_APP,
+};
+
+/** Decrypted contents of a backup (and the whole file for unencrypted v1 backups) */
+export interface BackupData {
   version: string;
   timestamp: string;
+  schemaVersions?: { [dbName: string]: number }; // missing in backups before v1.1
   databases: {
     [dbName: string]: {
       [storeName: string]: any[];
@@ -13,6 +60,41 @@ interface BackupData {
   };
 }
 
+export interface BackupManifest {
+  createdAt: string;
+  schemaVersions: { [dbName: string]: number };
+  databases: { [dbName: string]: { [storeName: string]: number } }; // record counts
+  apps: { [app: string]: number }; // record counts per app
+}
+
+interface EncryptedBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: string;
+  manifest: BackupManifest;
+  encryption: {
+    algorithm: "AES-GCM";
+    kdf: "PBKDF2-SHA256";
+    iterations: number;
+    salt: string; // base64
+    iv: string;   // base64
+  };
+  data: string; // base64 AES-GCM ciphertext of the BackupData JSON
+}
+
+/** A backup file that has been read but not yet decrypted */
+export interface OpenedBackup {
+  encrypted: boolean;
+  manifest: BackupManifest;
+  file: EncryptedBackupFile | BackupData;
+}
+
+export type RestoreMode = "merge" | "replace";
+
+export interface RestoreOptions {
+  apps: string[];
+  mode: RestoreMode;
+}
+
 /**
  * Get all data from a specific IndexedDB database
  */
@@ -56,27 +138,91 @@ async function exportDatabase(dbName: string): Promise<{ [storeName: string]: an
 }
 
 /**
- * Export all IndexedDB data to JSON
+ * Read every IndexedDB database into one object
  */
-export async function exportAllData(): Promise<string> {
+async function collectBackupData(): Promise<BackupData> {
   const databases = await indexedDB.databases();
   const backupData: BackupData = {
-    version: '1.0',
+    version: '2.0',
     timestamp: new Date().toISOString(),
+    schemaVersions: {},
     databases: {}
   };
   
   for (const dbInfo of databases) {
-    if (dbInfo.name) {
+    if (dbInfo.name && !isSyncDatabase(dbInfo.name)) {
       try {
         backupData.databases[dbInfo.name] = await exportDatabase(dbInfo.name);
+        backupData.schemaVersions![dbInfo.name] = dbInfo.version || 0;
       } catch (error) {
         console.error(`Failed to export database ${dbInfo.name}:`, error);
       }
     }
   }
   
-  return JSON.stringify(backupData, null, 2);
+  return backupData;
+}
+
+/** App a backed-up record belongs to */
+function backupAppFor(dbName: string, storeName: string, record: any): string {
+  if (dbName === APP_DATA_DB) {
+    return storeName === "counters" ? "Dak Register" : appForKey(String(record?.key ?? ""));
+  }
+  return DATABASE_APPS[dbName] || dbName;
+}
+
+function buildManifest(data: BackupData): BackupManifest {
+  const manifest: BackupManifest = {
+    createdAt: data.timestamp,
+    schemaVersions: data.schemaVersions || {},
+    databases: {},
+    apps: {},
+  };
+  for (const [dbName, stores] of Object.entries(data.databases)) {
+    manifest.databases[dbName] = {};
+    for (const [storeName, records] of Object.entries(stores)) {
+      manifest.databases[dbName][storeName] = records.length;
+      for (const record of records) {
+        const app = backupAppFor(dbName, storeName, record);
+        manifest.apps[app] = (manifest.apps[app] || 0) + 1;
+      }
+    }
+  }
+  return manifest;
+}
+
+/**
+ * Export all IndexedDB data as an encrypted backup file (JSON text)
+ */
+export async function createEncryptedBackup(passphrase: string): Promise<string> {
+  if (passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`);
+  }
+  const data = await collectBackupData();
+  const manifest = buildManifest(data);
+
+  const salt = newSalt();
+  const key = await deriveAesKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const { iv, ciphertext } = await encryptBytes(
+    key,
+    new TextEncoder().encode(JSON.stringify(data)),
+    new TextEncoder().encode(JSON.stringify(manifest))
+  );
+
+  const file: EncryptedBackupFile = {
+    format: BACKUP_FORMAT,
+    version: data.version,
+    manifest,
+    encryption: {
+      algorithm: "AES-GCM",
+      kdf: "PBKDF2-SHA256",
+      iterations: PBKDF2_ITERATIONS,
+      salt: toBase64(salt),
+      iv: toBase64(iv),
+    },
+    data: toBase64(ciphertext),
+  };
+  return JSON.stringify(file, null, 2);
 }
 
 /**
@@ -95,81 +241,198 @@ export function downloadBackup(jsonData: string, filename?: string) {
 }
 
 /**
- * Import data into a specific IndexedDB database
+ * Parse a backup file and return its manifest. Throws if the file is not a
+ * backup or was made by a newer version of the app.
+ */
+export function readBackupFile(text: string): OpenedBackup {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid backup file format');
+  }
+
+  let opened: OpenedBackup;
+  if (parsed?.format === BACKUP_FORMAT && parsed.manifest && parsed.encryption && typeof parsed.data === 'string') {
+    opened = { encrypted: true, manifest: parsed.manifest, file: parsed };
+  } else if (parsed?.version && parsed.databases) {
+    opened = { encrypted: false, manifest: buildManifest(parsed), file: parsed };
+  } else {
+    throw new Error('Invalid backup file format');
+  }
+
+  const newer = findNewerSchemas(opened.manifest.schemaVersions);
+  if (newer.length > 0) {
+    throw new Error(`This backup was made by a newer version of the app and cannot be restored here. Update the app first. Newer databases: ${newer.join(', ')}`);
+  }
+  return opened;
+}
+
+/**
+ * Decrypt an opened backup. Throws DecryptionError on a wrong passphrase or
+ * if the file (including its manifest) was modified.
  */
-async function importDatabase(dbName: string, storeData: { [storeName: string]: any[] }): Promise<void> {
+export async function unlockBackup(opened: OpenedBackup, passphrase: string): Promise<BackupData> {
+  if (!opened.encrypted) return opened.file as BackupData;
+
+  const file = opened.file as EncryptedBackupFile;
+  const key = await deriveAesKey(passphrase, fromBase64(file.encryption.salt), file.encryption.iterations);
+  const plaintext = await decryptBytes(
+    key,
+    fromBase64(file.encryption.iv),
+    fromBase64(file.data),
+    new TextEncoder().encode(JSON.stringify(file.manifest))
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+/**
+ * Open a database for restore. Registered databases go through the migration
+ * registry so their stores exist even if the database was just cleared.
+ */
+function openForImport(dbName: string): Promise<IDBDatabase> {
+  if (schemaVersion(dbName) > 0) return openMigratedDB(dbName);
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(dbName);
-    
     request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+  });
+}
+
+/**
+ * Restore the selected apps' records into one database. "replace" first
+ * removes this PC's records of those apps; "merge" keeps them and lets the
+ * backup overwrite records with the same key. Returns the records written.
+ */
+async function restoreDatabase(
+  dbName: string,
+  storeData: { [storeName: string]: any[] },
+  apps: Set<string>,
+  mode: RestoreMode
+): Promise<number> {
+  const db = await openForImport(dbName);
+  const mirrorsLocalStorage = dbName === APP_DATA_DB;
+
+  return new Promise((resolve, reject) => {
+    const storeNames = Object.keys(storeData).filter(name => 
+      db.objectStoreNames.contains(name) &&
+      (DATABASE_APPS[dbName] ? apps.has(DATABASE_APPS[dbName]) : true)
+    );
     
-    request.onsuccess = () => {
-      const db = request.result;
-      const storeNames = Object.keys(storeData).filter(name => 
-        db.objectStoreNames.contains(name)
-      );
-      
-      if (storeNames.length === 0) {
-        db.close();
-        resolve();
-        return;
+    if (storeNames.length === 0) {
+      db.close();
+      resolve(0);
+      return;
+    }
+    
+    const transaction = db.transaction(storeNames, 'readwrite');
+    let written = 0;
+    const mirrored: any[] = [];
+    const removedKeys: string[] = [];
+    
+    transaction.oncomplete = () => {
+      db.close();
+      // db.ts falls back to its localStorage mirror for missing keys, so keep it in step
+      if (mirrorsLocalStorage) {
+        try {
+          removedKeys.forEach(key => localStorage.removeItem(key));
+          mirrored.forEach(r => r?.key && localStorage.setItem(r.key, JSON.stringify(r.value)));
+        } catch (e) {
+          console.warn("localStorage mirror update failed:", e);
+        }
       }
+      resolve(written);
+    };
+    
+    transaction.onerror = () => reject(transaction.error);
+    
+    storeNames.forEach(storeName => {
+      const store = transaction.objectStore(storeName);
+      const records = storeData[storeName].filter(r => apps.has(backupAppFor(dbName, storeName, r)));
       
-      const transaction = db.transaction(storeNames, 'readwrite');
-      
-      transaction.oncomplete = () => {
-        db.close();
-        resolve();
+      const putAll = () => {
+        records.forEach(record => {
+          store.put(record);
+          written++;
+          if (mirrorsLocalStorage && storeName === "app_data") mirrored.push(record);
+        });
       };
       
-      transaction.onerror = () => reject(transaction.error);
-      
-      storeNames.forEach(storeName => {
-        const store = transaction.objectStore(storeName);
-        
-        // Clear existing data
+      if (mode === 'merge') {
+        putAll();
+      } else if (DATABASE_APPS[dbName]) {
+        // Whole store belongs to one selected app
         store.clear();
-        
-        // Add imported data
-        const records = storeData[storeName];
-        records.forEach(record => {
-          store.add(record);
-        });
-      });
-    };
+        putAll();
+      } else {
+        // Shared store: remove only the selected apps' records, then write
+        const cursorRequest = store.openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor) {
+            if (apps.has(backupAppFor(dbName, storeName, cursor.value))) {
+              if (storeName === "app_data") removedKeys.push(String(cursor.value?.key));
+              cursor.delete();
+            }
+            cursor.continue();
+          } else {
+            putAll();
+          }
+        };
+      }
+    });
   });
 }
 
 /**
- * Import all data from JSON backup
+ * Restore the selected apps from a decrypted backup
  */
-export async function importAllData(jsonData: string): Promise<{ success: boolean; message: string }> {
+export async function restoreBackup(
+  backupData: BackupData,
+  options: RestoreOptions
+): Promise<{ success: boolean; message: string }> {
   try {
-    const backupData: BackupData = JSON.parse(jsonData);
-    
-    if (!backupData.version || !backupData.databases) {
+    const newer = findNewerSchemas(backupData.schemaVersions);
+    if (newer.length > 0) {
       return {
         success: false,
-        message: 'Invalid backup file format'
+        message: `This backup was made by a newer version of the app and cannot be restored here. Update the app first. Newer databases: ${newer.join(', ')}`
       };
     }
+
+    const apps = new Set(options.apps.filter(app => app !== AUDIT_TRAIL_APP));
+    if (apps.size === 0) {
+      return { success: false, message: 'Select at least one app to restore' };
+    }
     
-    let importedCount = 0;
+    let restoredRecords = 0;
     let failedCount = 0;
     
     for (const [dbName, storeData] of Object.entries(backupData.databases)) {
+      if (isAuditDatabase(dbName) || isSyncDatabase(dbName)) continue;
       try {
-        await importDatabase(dbName, storeData);
-        importedCount++;
+        restoredRecords += await restoreDatabase(dbName, storeData, apps, options.mode);
       } catch (error) {
         console.error(`Failed to import database ${dbName}:`, error);
         failedCount++;
       }
     }
     
+    // Restored records bypass the data modules, so nothing was queued for sync
+    requestFullResync();
+
+    const appList = Array.from(apps).sort().join(', ');
+    await recordAudit({
+      app: "Backup & Restore",
+      source: "backup",
+      recordKey: backupData.timestamp || "*",
+      action: "restore",
+      summary: `Backup from ${backupData.timestamp || "unknown date"} restored (${options.mode}): ${appList}; ${restoredRecords} record(s), ${failedCount} database(s) failed`,
+    });
+
     return {
-      success: true,
-      message: `Successfully imported ${importedCount} database(s). ${failedCount > 0 ? `Failed: ${failedCount}` : ''}`
+      success: failedCount === 0,
+      message: `Restored ${restoredRecords} record(s) for ${appList}. ${failedCount > 0 ? `Failed: ${failedCount} database(s)` : ''}`
     };
   } catch (error) {
     return {
@@ -188,7 +451,7 @@ export async function clearAllData(): Promise<{ success: boolean; message: strin
     let deletedCount = 0;
     
     for (const dbInfo of databases) {
-      if (dbInfo.name) {
+      if (dbInfo.name && !isAuditDatabase(dbInfo.name)) {
         const dbName = dbInfo.name;
         await new Promise<void>((resolve, reject) => {
           const request = indexedDB.deleteDatabase(dbName);
@@ -1,11 +1,20 @@
 /**
  * IndexedDB utility for robust data persistence
  * Data persists even when browser history/cookies are cleared
+ * Every write and delete is recorded in the audit trail (see auditLog.ts)
+ * Values under keys holding customer PII are encrypted by the vault (see vault.ts)
+ * Committed writes are queued for the LAN sync server (see syncEngine.ts)
  */
 
+import { appForKey, recordAudit, recordValueChange } from "./auditLog";
+import { openMigratedDB } from "./migrations";
+import { queueSyncChanges } from "./syncQueue";
+
+// Schema and version are declared in migrations.ts
 const DB_NAME = "SBI_Branch_App_DB";
-const DB_VERSION = 1;
 const STORE_NAME = "app_data";
+// v2: named counters (Dak serials) updated in the same transaction as the data they number
+const COUNTER_STORE = "counters";
 
 interface DBData {
   key: string;
@@ -13,55 +22,180 @@ interface DBData {
   timestamp: number;
 }
 
+/**
+ * Encryption at rest for designated keys. vault.ts installs the codec (it
+ * imports this module for its own record, so db.ts cannot import it back).
+ */
+export interface ValueCodec {
+  isProtected: (key: string) => boolean;
+  seal: (value: any) => Promise<any>;      // throws VaultLockedError while locked
+  open: (value: any) => Promise<any>;      // throws VaultLockedError while locked
+  needsSealing: (value: any) => boolean;   // cleartext value that can be sealed now
+}
+
+let valueCodec: ValueCodec | null = null;
+
+export function setValueCodec(codec: ValueCodec | null) {
+  valueCodec = codec;
+}
+
+function isProtectedKey(key: string): boolean {
+  return !!valueCodec && valueCodec.isProtected(key);
+}
+
 class IndexedDBManager {
   private db: IDBDatabase | null = null;
 
   async init(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        this.db = request.result;
-        resolve();
-      };
-
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          db.createObjectStore(STORE_NAME, { keyPath: "key" });
-        }
-      };
+    this.db = await openMigratedDB(DB_NAME, () => {
+      this.db = null;
     });
   }
 
   async set(key: string, value: any): Promise<void> {
     if (!this.db) await this.init();
+    // Sealed before the transaction starts — it would commit while waiting on WebCrypto
+    const isProtected = isProtectedKey(key);
+    const stored = isProtected ? await valueCodec!.seal(value) : value;
 
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([STORE_NAME], "readwrite");
       const store = transaction.objectStore(STORE_NAME);
       const data: DBData = {
         key,
-        value,
+        value: stored,
         timestamp: Date.now()
       };
 
-      const request = store.put(data);
-      request.onsuccess = () => {
+      // Read the previous value in the same transaction for the audit diff
+      let before: any = null;
+      const previous = store.get(key);
+      previous.onsuccess = () => {
+        before = previous.result ? previous.result.value : null;
+        store.put(data);
+      };
+      transaction.oncomplete = () => {
         // Also save to localStorage as fallback
         try {
-          localStorage.setItem(key, JSON.stringify(value));
+          localStorage.setItem(key, JSON.stringify(stored));
         } catch (e) {
           console.warn("localStorage save failed:", e);
         }
+        queueSyncChanges(DB_NAME, STORE_NAME, [key], false);
+        if (isProtected) {
+          // Never copy protected values into the audit trail
+          recordAudit({ app: appForKey(key), source: STORE_NAME, recordKey: key, action: before === null ? "create" : "update", summary: "Encrypted value changed" });
+        } else {
+          recordValueChange(STORE_NAME, appForKey(key), key, before, value);
+        }
         resolve();
       };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Read-modify-write of one key and a set of named counters inside a single
+   * readwrite transaction. IndexedDB runs overlapping readwrite transactions
+   * one at a time, even across tabs, so two callers can never read the same
+   * counter value. `update` must be synchronous — the transaction commits as
+   * soon as no requests are pending.
+   */
+  async updateWithCounters<R>(
+    key: string,
+    counterNames: string[],
+    update: (value: any, counters: Record<string, number>) => { value: any; counters: Record<string, number>; result: R }
+  ): Promise<R> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORE_NAME, COUNTER_STORE], "readwrite");
+      const store = transaction.objectStore(STORE_NAME);
+      const counterStore = transaction.objectStore(COUNTER_STORE);
+
+      let before: any = null;
+      let after: any = null;
+      let result: R;
+      const counters: Record<string, number> = {};
+      let pending = counterNames.length + 1;
+
+      const apply = () => {
+        if (--pending > 0) return;
+        try {
+          const next = update(before, { ...counters });
+          after = next.value;
+          result = next.result;
+          store.put({ key, value: after, timestamp: Date.now() } as DBData);
+          for (const [name, value] of Object.entries(next.counters)) {
+            counterStore.put({ name, value, updatedAt: Date.now() });
+          }
+        } catch (error) {
+          transaction.abort();
+          reject(error);
+        }
+      };
+
+      const current = store.get(key);
+      current.onsuccess = () => {
+        if (current.result) {
+          before = current.result.value;
+        } else {
+          // Same localStorage fallback as get() so legacy data is not overwritten
+          try {
+            const localData = localStorage.getItem(key);
+            before = localData ? JSON.parse(localData) : null;
+          } catch (e) {
+            before = null;
+          }
+        }
+        apply();
+      };
+      for (const name of counterNames) {
+        const counter = counterStore.get(name);
+        counter.onsuccess = () => {
+          counters[name] = counter.result ? counter.result.value : 0;
+          apply();
+        };
+      }
+
+      transaction.oncomplete = () => {
+        try {
+          localStorage.setItem(key, JSON.stringify(after));
+        } catch (e) {
+          console.warn("localStorage save failed:", e);
+        }
+        queueSyncChanges(DB_NAME, STORE_NAME, [key], false);
+        queueSyncChanges(DB_NAME, COUNTER_STORE, counterNames, false);
+        recordValueChange(STORE_NAME, appForKey(key), key, before, after);
+        resolve(result);
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getCounter(name: string): Promise<number> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([COUNTER_STORE], "readonly");
+      const request = transaction.objectStore(COUNTER_STORE).get(name);
+      request.onsuccess = () => resolve(request.result ? request.result.value : 0);
       request.onerror = () => reject(request.error);
     });
   }
 
   async get(key: string): Promise<any> {
+    const stored = await this.getStored(key);
+    if (stored === null || !isProtectedKey(key)) return stored;
+    // Lazily encrypt values saved before the vault existed
+    if (valueCodec!.needsSealing(stored)) {
+      this.set(key, stored).catch((e) => console.warn("Failed to encrypt protected value:", e));
+    }
+    return valueCodec!.open(stored);
+  }
+
+  /** Value as stored (sealed for protected keys) */
+  private async getStored(key: string): Promise<any> {
     if (!this.db) await this.init();
 
     return new Promise((resolve, reject) => {
@@ -79,7 +213,7 @@ class IndexedDBManager {
             if (localData) {
               const parsed = JSON.parse(localData);
               // Sync back to IndexedDB
-              this.set(key, parsed);
+              this.set(key, parsed).catch((e) => console.warn("IndexedDB sync-back failed:", e));
               resolve(parsed);
             } else {
               resolve(null);
@@ -107,18 +241,25 @@ class IndexedDBManager {
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([STORE_NAME], "readwrite");
       const store = transaction.objectStore(STORE_NAME);
-      const request = store.delete(key);
 
-      request.onsuccess = () => {
+      let before: any = null;
+      const previous = store.get(key);
+      previous.onsuccess = () => {
+        before = previous.result ? previous.result.value : null;
+        store.delete(key);
+      };
+      transaction.oncomplete = () => {
         // Also remove from localStorage
         try {
           localStorage.removeItem(key);
         } catch (e) {
           console.warn("localStorage remove failed:", e);
         }
+        queueSyncChanges(DB_NAME, STORE_NAME, [key], true);
+        recordValueChange(STORE_NAME, appForKey(key), key, before, null);
         resolve();
       };
-      request.onerror = () => reject(request.error);
+      transaction.onerror = () => reject(transaction.error);
     });
   }
 
@@ -158,12 +299,82 @@ class IndexedDBManager {
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([STORE_NAME], "readwrite");
       const store = transaction.objectStore(STORE_NAME);
+      // Requests run in order, so the keys are read before the clear
+      const keysRequest = store.getAllKeys();
       const request = store.clear();
 
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => {
+        queueSyncChanges(DB_NAME, STORE_NAME, keysRequest.result, true);
+        recordAudit({ app: "Other", source: STORE_NAME, recordKey: "*", action: "clear", summary: "All app data cleared" });
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // ============================================================
+  // LAN sync (see syncEngine.ts)
+  // ============================================================
+  /** Keys of app_data or counters */
+  async getRawKeys(storeName: string): Promise<string[]> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const request = this.db!.transaction([storeName], "readonly").objectStore(storeName).getAllKeys();
+      request.onsuccess = () => resolve((request.result as IDBValidKey[]).map(String));
       request.onerror = () => reject(request.error);
     });
   }
+
+  /** Records exactly as stored (protected values stay sealed) */
+  async getRawRecords(storeName: string, keys: string[]): Promise<Map<string, any>> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], "readonly");
+      const store = transaction.objectStore(storeName);
+      const records = new Map<string, any>();
+      for (const key of keys) {
+        const request = store.get(key);
+        request.onsuccess = () => {
+          if (request.result) records.set(key, request.result);
+        };
+      }
+      transaction.oncomplete = () => resolve(records);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Write records received from the sync server (null deletes). Not queued
+   * for sync again and not audited per key — the engine audits the batch.
+   */
+  async applyRawRecords(storeName: string, records: { key: string; record: any }[]): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], "readwrite");
+      const store = transaction.objectStore(storeName);
+      for (const { key, record } of records) {
+        if (record) store.put(record);
+        else store.delete(key);
+      }
+      transaction.oncomplete = () => {
+        if (storeName === STORE_NAME) {
+          try {
+            for (const { key, record } of records) {
+              if (record) localStorage.setItem(key, JSON.stringify(record.value));
+              else localStorage.removeItem(key);
+            }
+          } catch (e) {
+            console.warn("localStorage mirror update failed:", e);
+          }
+        }
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
 }
 
 // Singleton instance
@@ -182,6 +393,18 @@ export async function removeData(key: string): Promise<void> {
   return db.remove(key);
 }
 
+export async function loadCounter(name: string): Promise<number> {
+  return db.getCounter(name);
+}
+
+export async function updateDataWithCounters<R>(
+  key: string,
+  counterNames: string[],
+  update: (value: any, counters: Record<string, number>) => { value: any; counters: Record<string, number>; result: R }
+): Promise<R> {
+  return db.updateWithCounters(key, counterNames, update);
+}
+
 export async function exportAllData(): Promise<string> {
   const data = await db.exportAll();
   return JSON.stringify(data, null, 2);
@@ -196,5 +419,4 @@ export async function importAllData(jsonString: string): Promise<void> {
   }
 }
 
-// Initialize on module load
-db.init().catch(console.error);
+// Opened on first use; StartupMigrations has upgraded the schema by then
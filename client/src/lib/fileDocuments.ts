@@ -0,0 +1,355 @@
+/**
+ * Loan File Document Checklists
+ *
+ * The documents each loan file must hold (sanction letter, agreement, KYC,
+ * ITR, insurance, property papers, CERSAI …) as a checklist per file
+ * category, and the status of every item in every file in the Loan File
+ * Register: obtained, pending, deficient or waived, with the execution date
+ * and — for documents that lapse (insurance, driving licence, passport) — the
+ * expiry date. Files with mandatory documents missing or expired are
+ * deficient and can be sent to the Letter Generator as deficiency memos.
+ *
+ * Checklists and document statuses are stored in app_data as arrays of
+ * records with an `id`, so LAN sync merges edits made on different PCs item
+ * by item.
+ */
+
+import { db, loadData, updateDataWithCounters } from "./db";
+import { addDaysISO } from "./legalProceedings";
+import type { CategoryCode } from "./loanFileCategories";
+import type { LetterMergeBatch } from "./letterHandoff";
+import { toISODate } from "./portfolioTransform";
+
+export const STORE_DOC_CHECKLISTS = "lfn-doc-checklists";
+export const STORE_FILE_DOCUMENTS = "lfn-file-documents";
+
+export type DocStatus = "Pending" | "Obtained" | "Deficient" | "Waived";
+
+export const DOC_STATUSES: DocStatus[] = ["Pending", "Obtained", "Deficient", "Waived"];
+
+export interface ChecklistItem {
+  id: string;           // e.g. "insurance"
+  label: string;
+  mandatory: boolean;
+  expires: boolean;     // carries an expiry date that must be tracked
+}
+
+export interface CategoryChecklist {
+  id: CategoryCode;     // one checklist per file category
+  items: ChecklistItem[];
+  updatedAt: number;
+}
+
+export interface FileDocument {
+  id: string;           // `${serialNo}:${itemId}`
+  serialNo: string;
+  itemId: string;
+  status: DocStatus;
+  executionDate: string; // YYYY-MM-DD
+  expiryDate: string;    // YYYY-MM-DD
+  remarks: string;
+  updatedBy: string;
+  updatedAt: number;
+}
+
+/** Days before expiry at which a document is flagged as expiring */
+export const EXPIRY_WARNING_DAYS = 30;
+
+// ============================================================
+// Default checklists
+// ============================================================
+const item = (id: string, label: string, mandatory = true, expires = false): ChecklistItem =>
+  ({ id, label, mandatory, expires });
+
+const COMMON_ITEMS: ChecklistItem[] = [
+  item("application", "Loan application form"),
+  item("sanction-letter", "Sanction letter (acknowledged by borrower)"),
+  item("loan-agreement", "Loan agreement / arrangement letter"),
+  item("kyc", "KYC documents (PAN, Aadhaar, address proof)"),
+  item("photographs", "Photographs of borrower(s)"),
+];
+
+export const DEFAULT_CHECKLISTS: Record<CategoryCode, ChecklistItem[]> = {
+  PERLOAN: [
+    ...COMMON_ITEMS,
+    item("salary-slips", "Salary slips (last 3 months)"),
+    item("itr", "ITR / Form 16 (last 2 years)"),
+    item("check-off", "Check-off / undertaking letter from employer"),
+    item("bank-statement", "Salary account statement (6 months)"),
+    item("insurance", "Loan cover insurance policy", false, true),
+    item("driving-licence", "Driving licence", false, true),
+    item("passport", "Passport", false, true),
+  ],
+  PENLOAN: [
+    ...COMMON_ITEMS,
+    item("ppo", "Pension Payment Order (PPO) copy"),
+    item("pension-undertaking", "Undertaking / irrevocable mandate from pensioner"),
+    item("guarantor", "Guarantee agreement (where applicable)", false),
+    item("life-certificate", "Life certificate (current year)", true, true),
+  ],
+  GOLDLON: [
+    item("application", "Loan application form"),
+    item("kyc", "KYC documents (PAN, Aadhaar, address proof)"),
+    item("appraisal", "Gold appraiser's valuation certificate"),
+    item("pledge-form", "Gold loan pledge / agreement form"),
+    item("packet-slip", "Gold packet slip (sealed and signed)"),
+    item("insurance", "Gold ornaments insurance", false, true),
+  ],
+  PMSURYA: [
+    ...COMMON_ITEMS,
+    item("vendor-quotation", "Vendor quotation / proforma invoice"),
+    item("discom-approval", "DISCOM feasibility approval"),
+    item("electricity-bill", "Latest electricity bill"),
+    item("installation-cert", "Installation / commissioning certificate"),
+    item("hypothecation", "Hypothecation agreement"),
+    item("insurance", "Solar panel insurance policy", true, true),
+  ],
+};
+
+/** Fallback for categories defined in Setup (home, auto, MSME …) */
+export const GENERIC_CHECKLIST: ChecklistItem[] = [
+  ...COMMON_ITEMS,
+  item("itr", "ITR / income proof (last 2 years)"),
+  item("property-papers", "Title deeds / property papers", false),
+  item("valuation", "Valuation report", false),
+  item("legal-opinion", "Legal scrutiny report", false),
+  item("mortgage", "Mortgage / hypothecation deed", false),
+  item("cersai", "CERSAI registration", false),
+  item("insurance", "Insurance of security", false, true),
+  item("guarantor", "Guarantee agreement", false),
+];
+
+// ============================================================
+// Storage
+// ============================================================
+export async function loadChecklists(): Promise<CategoryChecklist[]> {
+  return (await loadData(STORE_DOC_CHECKLISTS)) || [];
+}
+
+export async function loadFileDocuments(): Promise<FileDocument[]> {
+  return (await loadData(STORE_FILE_DOCUMENTS)) || [];
+}
+
+/** The checklist in force for a category: the branch's own, else the default */
+export function checklistFor(checklists: CategoryChecklist[], category: CategoryCode): ChecklistItem[] {
+  const custom = checklists.find((c) => c.id === category);
+  if (custom && custom.items.length > 0) return custom.items;
+  return DEFAULT_CHECKLISTS[category] ?? GENERIC_CHECKLIST;
+}
+
+/** Problems with a checklist, empty when it can be saved */
+export function validateChecklist(items: ChecklistItem[]): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  if (items.length === 0) errors.push("The checklist needs at least one document");
+  for (const i of items) {
+    if (!i.label.trim()) errors.push("Every document needs a name");
+    if (ids.has(i.id)) errors.push(`${i.label}: listed twice`);
+    ids.add(i.id);
+  }
+  return errors;
+}
+
+/** Item id for a document name typed in Setup ("Vehicle RC copy" → "vehicle-rc-copy") */
+export function checklistItemId(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+/** Replace a category's checklist in the stored list, read and written in one transaction */
+async function putChecklist(entry: CategoryChecklist): Promise<CategoryChecklist[]> {
+  return updateDataWithCounters(STORE_DOC_CHECKLISTS, [], (value) => {
+    const checklists: CategoryChecklist[] = Array.isArray(value) ? value : [];
+    const next = [...checklists.filter((c) => c.id !== entry.id), entry];
+    return { value: next, counters: {}, result: next };
+  });
+}
+
+export async function saveChecklist(category: CategoryCode, items: ChecklistItem[]): Promise<CategoryChecklist[]> {
+  const errors = validateChecklist(items);
+  if (errors.length > 0) throw new Error(errors[0]);
+  return putChecklist({ id: category, items, updatedAt: Date.now() });
+}
+
+/**
+ * Back to the default checklist for a category. Kept as an empty entry rather
+ * than removed, so the reset wins over the old checklist when PCs sync.
+ */
+export async function resetChecklist(category: CategoryCode): Promise<CategoryChecklist[]> {
+  return putChecklist({ id: category, items: [], updatedAt: Date.now() });
+}
+
+export function documentId(serialNo: string, itemId: string): string {
+  return `${serialNo}:${itemId}`;
+}
+
+/** Save the status of one or more documents of a file */
+export async function saveFileDocuments(
+  changes: Omit<FileDocument, "id" | "updatedBy" | "updatedAt">[],
+  updatedBy: string
+): Promise<FileDocument[]> {
+  for (const c of changes) {
+    if (c.expiryDate && c.executionDate && c.expiryDate < c.executionDate) {
+      throw new Error("Expiry date cannot be before the execution date");
+    }
+  }
+  const now = Date.now();
+  return updateDataWithCounters(STORE_FILE_DOCUMENTS, [], (value) => {
+    const documents: FileDocument[] = Array.isArray(value) ? value : [];
+    const byId = new Map(documents.map((d) => [d.id, d]));
+    for (const c of changes) {
+      const id = documentId(c.serialNo, c.itemId);
+      byId.set(id, { ...c, id, remarks: c.remarks.trim(), updatedBy, updatedAt: now });
+    }
+    const next = Array.from(byId.values());
+    return { value: next, counters: {}, result: next };
+  });
+}
+
+// ============================================================
+// Deficiencies
+// ============================================================
+export interface FileDeficiency {
+  serialNo: string;
+  missing: ChecklistItem[];    // mandatory and pending / deficient
+  expired: ChecklistItem[];    // obtained but past expiry
+  expiring: ChecklistItem[];   // expiring within EXPIRY_WARNING_DAYS
+  obtained: number;
+  total: number;
+}
+
+/** Where a file stands against its checklist */
+export function assessFile(
+  serialNo: string,
+  items: ChecklistItem[],
+  documents: Map<string, FileDocument>,
+  asOf: string = toISODate(new Date())
+): FileDeficiency {
+  const warnBy = addDaysISO(asOf, EXPIRY_WARNING_DAYS);
+  const result: FileDeficiency = { serialNo, missing: [], expired: [], expiring: [], obtained: 0, total: items.length };
+  for (const i of items) {
+    const doc = documents.get(documentId(serialNo, i.id));
+    const status = doc?.status ?? "Pending";
+    if (status === "Waived") {
+      result.obtained++;
+      continue;
+    }
+    if (status === "Obtained") {
+      if (i.expires && doc?.expiryDate && doc.expiryDate < asOf) {
+        result.expired.push(i);
+        continue;
+      }
+      result.obtained++;
+      if (i.expires && doc?.expiryDate && doc.expiryDate <= warnBy) result.expiring.push(i);
+      continue;
+    }
+    if (i.mandatory || status === "Deficient") result.missing.push(i);
+  }
+  return result;
+}
+
+export function isDeficient(d: FileDeficiency): boolean {
+  return d.missing.length > 0 || d.expired.length > 0;
+}
+
+// ============================================================
+// Deficiency memos
+// ============================================================
+const MEMO_TEMPLATE = [
+  "<p>Ref: {{ref_no}}</p>",
+  "<p>Date: {{date}}</p>",
+  "<p>To,<br>{{Customer Name}}</p>",
+  "<p><strong>Sub: Documents pending in your loan account No. {{Account No}}</strong></p>",
+  "<p>Dear Sir / Madam,</p>",
+  "<p>On review of your {{Loan Type}} file (File No. {{File No}}), the following documents are found pending or expired:</p>",
+  "<p>{{Pending Documents}}</p>",
+  "<p>You are requested to submit the above documents at the branch within 15 days from the date of this letter.</p>",
+  "<p>Yours faithfully,</p>",
+  "<p>Branch Manager</p>",
+].join("");
+
+/** Mail-merge batch of deficiency memos, one per deficient file */
+export function deficiencyMemoBatch(
+  files: { file: { serialNo: string; accountNo: string; customerName: string }; loanType: string; deficiency: FileDeficiency }[]
+): Omit<LetterMergeBatch, "createdAt"> {
+  const headers = ["Customer Name", "Account No", "File No", "Loan Type", "Pending Documents"];
+  const rows = files.map(({ file, loanType, deficiency }) => ({
+    "Customer Name": file.customerName,
+    "Account No": file.accountNo,
+    "File No": file.serialNo,
+    "Loan Type": loanType,
+    "Pending Documents": [
+      ...deficiency.missing.map((i) => i.label),
+      ...deficiency.expired.map((i) => `${i.label} (expired — renewed copy required)`),
+    ].map((label, n) => `${n + 1}. ${label}`).join("; "),
+  }));
+  return {
+    source: "Loan File Register — document deficiencies",
+    headers,
+    rows,
+    templateHTML: MEMO_TEMPLATE,
+    letterType: "Memo",
+    letterDestination: "Customer",
+    recipientDetails: "{{Customer Name}}, A/c {{Account No}}",
+    subject: "Deficiency in loan documents",
+    remarks: "Generated from Loan File Register",
+  };
+}
+
+// ============================================================
+// RLMS expiry dates
+// ============================================================
+export interface RlmsImportResult {
+  applications: number;
+  updated: number;
+  unreadable: number;
+}
+
+/**
+ * Copy passport and driving-licence validity from RLMS Supplementer
+ * applications onto the matching files (by CIF, else by Xpress Credit account
+ * number). RLMS applications are vault-protected, so any that cannot be read
+ * while the vault is locked are counted as unreadable.
+ */
+export async function importRlmsExpiries(
+  files: { serialNo: string; accountNo: string; cifNo: string; category: CategoryCode }[],
+  checklists: CategoryChecklist[],
+  updatedBy: string
+): Promise<{ documents: FileDocument[]; result: RlmsImportResult }> {
+  const keys = (await db.getAllKeys()).filter((k) => k.startsWith("rlmsApp_"));
+  const result: RlmsImportResult = { applications: keys.length, updated: 0, unreadable: 0 };
+  const byCif = new Map(files.filter((f) => f.cifNo).map((f) => [f.cifNo.trim(), f]));
+  const byAccount = new Map(files.map((f) => [f.accountNo.trim(), f]));
+  const documents = await loadFileDocuments();
+  const existing = new Map(documents.map((d) => [d.id, d]));
+  const changes: Omit<FileDocument, "id" | "updatedBy" | "updatedAt">[] = [];
+
+  for (const key of keys) {
+    let app: Record<string, any> | null = null;
+    try {
+      app = await loadData(key);
+    } catch {
+      result.unreadable++;
+      continue;
+    }
+    if (!app) continue;
+    const file = byCif.get(String(app.cifNo || "").trim()) ?? byAccount.get(String(app.xpressCrAcNo || "").trim());
+    if (!file) continue;
+    const items = checklistFor(checklists, file.category);
+    for (const [itemId, expiry] of [["passport", app.passportValidUpto], ["driving-licence", app.dlValidUpto]] as const) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(expiry || "") || !items.some((i) => i.id === itemId)) continue;
+      const doc = existing.get(documentId(file.serialNo, itemId));
+      if (doc?.expiryDate === expiry) continue;
+      changes.push({
+        serialNo: file.serialNo,
+        itemId,
+        status: doc?.status === "Waived" ? "Waived" : "Obtained",
+        executionDate: doc?.executionDate ?? "",
+        expiryDate: expiry,
+        remarks: doc?.remarks || "Validity from RLMS application",
+      });
+    }
+  }
+  if (changes.length === 0) return { documents, result };
+  result.updated = changes.length;
+  return { documents: await saveFileDocuments(changes, updatedBy), result };
+}
@@ -0,0 +1,158 @@
+/**
+ * Loan File Movement Register
+ *
+ * Physical custody of loan files kept by the Loan File Manager: where each
+ * file lives (almirah / rack) and every check-out and check-in — who took the
+ * file, when, for what purpose and when it is due back. Files not returned by
+ * the expected date are flagged overdue so missing files can be traced before
+ * an audit finds them.
+ *
+ * Both lists are stored in app_data as arrays of records with an `id`, so LAN
+ * sync merges check-outs made on different PCs item by item. Every change is
+ * a read-modify-write of the stored list in one transaction, so a check-out
+ * from another tab (or one that arrived by sync) is never overwritten.
+ */
+
+import { loadData, updateDataWithCounters } from "./db";
+import { toISODate } from "./portfolioTransform";
+
+export const STORE_FILE_MOVEMENTS = "lfn-file-movements";
+export const STORE_FILE_LOCATIONS = "lfn-file-locations";
+
+export const FILE_PURPOSES = [
+  "Audit / Inspection",
+  "Review / Renewal",
+  "Recovery / Legal",
+  "Documentation",
+  "Account Closure",
+  "Sanctioning Authority",
+  "Other",
+];
+
+export interface FileMovement {
+  id: string;
+  serialNo: string;
+  accountNo: string;
+  customerName: string;
+  takenBy: string;
+  purpose: string;
+  issuedBy: string;
+  outAt: string;             // ISO timestamp
+  expectedReturn: string;    // YYYY-MM-DD
+  returnedAt?: string;       // ISO timestamp; absent while the file is out
+  receivedBy?: string;
+  remarks: string;
+  updatedAt: number;
+}
+
+export interface FileLocation {
+  id: string;                // file serial number
+  almirah: string;
+  rack: string;
+  updatedAt: number;
+}
+
+export interface CheckOutDetails {
+  takenBy: string;
+  purpose: string;
+  expectedReturn: string;
+  remarks?: string;
+}
+
+// ============================================================
+// Storage
+// ============================================================
+export async function loadFileMovements(): Promise<FileMovement[]> {
+  return (await loadData(STORE_FILE_MOVEMENTS)) || [];
+}
+
+export async function loadFileLocations(): Promise<FileLocation[]> {
+  return (await loadData(STORE_FILE_LOCATIONS)) || [];
+}
+
+// ============================================================
+// Custody
+// ============================================================
+/** The open (not yet returned) movement of a file, if it is out */
+export function openMovement(movements: FileMovement[], serialNo: string): FileMovement | undefined {
+  return movements.find((m) => m.serialNo === serialNo && !m.returnedAt);
+}
+
+/** Apply a change to the latest stored movements; returns the new list */
+async function updateMovements(mutate: (movements: FileMovement[]) => FileMovement[]): Promise<FileMovement[]> {
+  return updateDataWithCounters(STORE_FILE_MOVEMENTS, [], (value) => {
+    const next = mutate(Array.isArray(value) ? value : []);
+    return { value: next, counters: {}, result: next };
+  });
+}
+
+export async function checkOutFile(
+  file: { serialNo: string; accountNo: string; customerName: string },
+  details: CheckOutDetails,
+  issuedBy: string
+): Promise<FileMovement[]> {
+  if (!details.takenBy.trim()) throw new Error("Enter who is taking the file");
+  if (!details.purpose) throw new Error("Select the purpose");
+  if (!details.expectedReturn) throw new Error("Enter the expected return date");
+
+  const now = new Date();
+  const movement: FileMovement = {
+    id: `${file.serialNo}-${now.getTime()}`,
+    serialNo: file.serialNo,
+    accountNo: file.accountNo,
+    customerName: file.customerName,
+    takenBy: details.takenBy.trim(),
+    purpose: details.purpose,
+    issuedBy,
+    outAt: now.toISOString(),
+    expectedReturn: details.expectedReturn,
+    remarks: (details.remarks || "").trim(),
+    updatedAt: now.getTime(),
+  };
+  return updateMovements((movements) => {
+    const current = openMovement(movements, file.serialNo);
+    if (current) throw new Error(`${file.serialNo} is already out with ${current.takenBy}`);
+    return [movement, ...movements];
+  });
+}
+
+export async function checkInFile(serialNo: string, receivedBy: string): Promise<FileMovement[]> {
+  return updateMovements((movements) => {
+    const current = openMovement(movements, serialNo);
+    if (!current) throw new Error(`${serialNo} is not checked out`);
+    const now = new Date();
+    return movements.map((m) =>
+      m.id === current.id ? { ...m, returnedAt: now.toISOString(), receivedBy, updatedAt: now.getTime() } : m
+    );
+  });
+}
+
+export async function setFileLocation(serialNo: string, almirah: string, rack: string): Promise<FileLocation[]> {
+  const entry: FileLocation = { id: serialNo, almirah: almirah.trim(), rack: rack.trim(), updatedAt: Date.now() };
+  return updateDataWithCounters(STORE_FILE_LOCATIONS, [], (value) => {
+    const locations: FileLocation[] = Array.isArray(value) ? value : [];
+    const next = [...locations.filter((l) => l.id !== serialNo), entry];
+    return { value: next, counters: {}, result: next };
+  });
+}
+
+// ============================================================
+// Overdue
+// ============================================================
+/** Days past the expected return date (0 when not overdue or returned) */
+export function daysOverdue(movement: FileMovement, asOf: string = toISODate(new Date())): number {
+  if (movement.returnedAt || !movement.expectedReturn || movement.expectedReturn >= asOf) return 0;
+  const ms = new Date(asOf).getTime() - new Date(movement.expectedReturn).getTime();
+  return Math.round(ms / 86400000);
+}
+
+export function overdueMovements(movements: FileMovement[], asOf: string = toISODate(new Date())): FileMovement[] {
+  return movements
+    .filter((m) => daysOverdue(m, asOf) > 0)
+    .sort((a, b) => a.expectedReturn.localeCompare(b.expectedReturn));
+}
+
+export function formatLocation(location: FileLocation | undefined): string {
+  if (!location || (!location.almirah && !location.rack)) return "";
+  return [location.almirah && `Almirah ${location.almirah}`, location.rack && `Rack ${location.rack}`].filter(Boolean).join(" / ");
+}
@@ -0,0 +1,296 @@
+/**
+ * Inward Dak Register
+ *
+ * Letters received by the branch — from LHO, ZO, RBO, courts, government
+ * departments and customers — with the date and mode of receipt, the officer
+ * the letter is marked to, the date a reply is due and how it was disposed of
+ * (replied under an outward reference from the Dak register, filed,
+ * forwarded …). Pending letters are aged so nothing received sits unanswered.
+ *
+ * Inward numbers run per financial year (IN/25-26/0001) and are allocated in
+ * the same IndexedDB transaction that saves the entry, exactly as
+ * refNumberEngine does for outward letters, so two tabs can never issue the
+ * same number. Across PCs the serial is reserved from the LAN sync server
+ * while it is reachable; numbers issued on two PCs while both were offline
+ * can still collide and are flagged by duplicateInwardNos(). Stored in
+ * app_data as an array of records with an `id`, so LAN sync merges entries
+ * item by item.
+ */
+
+import type { DakRecord } from "../components/PrintPreview";
+import { loadCounter, loadData, updateDataWithCounters } from "./db";
+import { toISODate } from "./portfolioTransform";
+import { notifyDakRecordsChanged } from "./refNumberEngine";
+import { reserveSerials } from "./syncApi";
+
+const INWARD_KEY = "dak-inward";
+
+export const INWARD_MODES = [
+  "By Hand",
+  "Ordinary Post",
+  "Speed Post",
+  "Registered Post",
+  "Courier",
+  "Email",
+  "Internal Dak",
+];
+
+// Same destinations as outward letters, plus the senders only seen inward
+export const SENDER_TYPES = [
+  "LHO",
+  "ZO",
+  "RBO",
+  "Other Branch",
+  "Court / Tribunal",
+  "Government Department",
+  "Customer",
+  "Vendor",
+  "Law Enforcement Agencies",
+  "Others",
+];
+
+export const DISPOSAL_ACTIONS = [
+  "Replied",
+  "Complied / Action taken",
+  "Forwarded",
+  "Filed — no action required",
+];
+
+export interface InwardDisposal {
+  date: string;          // YYYY-MM-DD
+  action: string;
+  replyRefNo: string;    // outward DakRecord refNo when replied
+  remarks: string;
+  disposedBy: string;
+}
+
+export interface InwardDakRecord {
+  id: number;
+  inwardNo: string;      // IN/25-26/0001
+  serialNo: string;
+  financialYear: string; // "YY-YY"
+  receivedDate: string;  // YYYY-MM-DD
+  letterDate: string;    // date on the letter, YYYY-MM-DD
+  senderType: string;
+  sender: string;
+  senderRefNo: string;
+  mode: string;
+  subject: string;
+  markedTo: string;
+  dueDate: string;       // reply / compliance due, YYYY-MM-DD; empty when none
+  receivedBy: string;
+  acknowledgedBy?: string;  // marked-to officer confirming receipt
+  acknowledgedAt?: string;  // ISO timestamp
+  disposal?: InwardDisposal;
+  updatedAt: number;
+}
+
+export type InwardEntry = Pick<
+  InwardDakRecord,
+  "receivedDate" | "letterDate" | "senderType" | "sender" | "senderRefNo" | "mode" | "subject" | "markedTo" | "dueDate"
+>;
+
+// ============================================================
+// Dates
+// ============================================================
+/** Financial year label ("25-26") of a YYYY-MM-DD date */
+export function financialYearOf(iso: string): string {
+  const [y, m] = iso.split("-").map(Number);
+  const start = m >= 4 ? y : y - 1;
+  return `${String(start).slice(-2)}-${String(start + 1).slice(-2)}`;
+}
+
+/**
+ * YYYY-MM-DD of an outward DakRecord. Records carry "dd-mm-yyyy" from the
+ * engine or "dd/mm/yyyy" from the Dak Number Generator form.
+ */
+export function outwardDateISO(record: DakRecord): string {
+  const m = record.dateDisplay.match(/^(\d{2})[-/](\d{2})[-/](\d{4})$/);
+  return m ? `${m[3]}-${m[2]}-${m[1]}` : "";
+}
+
+function daysBetween(fromISO: string, toISO: string): number {
+  return Math.round((new Date(toISO).getTime() - new Date(fromISO).getTime()) / 86400000);
+}
+
+// ============================================================
+// Storage
+// ============================================================
+export async function loadInwardRecords(): Promise<InwardDakRecord[]> {
+  const records = (await loadData(INWARD_KEY)) || [];
+  return Array.isArray(records) ? records : [];
+}
+
+function validateEntry(entry: InwardEntry): void {
+  if (!entry.receivedDate) throw new Error("Enter the date of receipt");
+  if (entry.receivedDate > toISODate(new Date())) throw new Error("Date of receipt cannot be in the future");
+  if (!entry.senderType || !entry.sender.trim()) throw new Error("Enter who sent the letter");
+  if (!entry.mode) throw new Error("Select the mode of receipt");
+  if (!entry.subject.trim()) throw new Error("Enter the subject");
+  if (!entry.markedTo.trim()) throw new Error("Enter the officer the letter is marked to");
+  if (entry.dueDate && entry.dueDate < entry.receivedDate) throw new Error("Due date cannot be before the date of receipt");
+}
+
+function maxSerialInRecords(records: InwardDakRecord[], fy: string): number {
+  return Math.max(0, ...records.filter((r) => r.financialYear === fy).map((r) => parseInt(r.serialNo, 10) || 0));
+}
+
+/** Enter a received letter, allocating the next inward number of its FY */
+export async function receiveInward(entry: InwardEntry, receivedBy: string): Promise<InwardDakRecord> {
+  validateEntry(entry);
+  const fy = financialYearOf(entry.receivedDate);
+  const counter = `dak-inward-${fy}`;
+  const floor = Math.max(await loadCounter(counter), maxSerialInRecords(await loadInwardRecords(), fy));
+  const reserved = await reserveSerials([{ name: counter, count: 1, floor }]);
+
+  const record = await updateDataWithCounters(INWARD_KEY, [counter], (value, counters) => {
+    const records: InwardDakRecord[] = Array.isArray(value) ? [...value] : [];
+    // Entries restored from a backup can be ahead of the counter
+    const serial = reserved ? reserved[counter] : Math.max(counters[counter] || 0, maxSerialInRecords(records, fy)) + 1;
+    const serialNo = String(serial).padStart(4, "0");
+    const created: InwardDakRecord = {
+      ...entry,
+      sender: entry.sender.trim(),
+      senderRefNo: entry.senderRefNo.trim(),
+      subject: entry.subject.trim(),
+      markedTo: entry.markedTo.trim(),
+      id: Math.max(Date.now(), ...records.map((r) => r.id + 1)),
+      inwardNo: `IN/${fy}/${serialNo}`,
+      serialNo,
+      financialYear: fy,
+      receivedBy,
+      updatedAt: Date.now(),
+    };
+    return { value: [...records, created], counters: { [counter]: Math.max(counters[counter] || 0, serial) }, result: created };
+  });
+  notifyDakRecordsChanged();
+  return record;
+}
+
+/**
+ * Inward numbers held by more than one entry — issued on two PCs while both
+ * were offline from the branch server, and merged by the sync.
+ */
+export function duplicateInwardNos(records: InwardDakRecord[]): Set<string> {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const r of records) {
+    if (seen.has(r.inwardNo)) duplicates.add(r.inwardNo);
+    seen.add(r.inwardNo);
+  }
+  return duplicates;
+}
+
+/** Edit one entry against the latest stored list */
+async function updateInward(id: number, mutate: (record: InwardDakRecord) => InwardDakRecord): Promise<InwardDakRecord[]> {
+  const updated = await updateDataWithCounters(INWARD_KEY, [], (value) => {
+    const records: InwardDakRecord[] = Array.isArray(value) ? value : [];
+    if (!records.some((r) => r.id === id)) throw new Error("Inward entry not found — it may have been deleted on another PC");
+    const next = records.map((r) => (r.id === id ? { ...mutate(r), updatedAt: Date.now() } : r));
+    return { value: next, counters: {}, result: next };
+  });
+  notifyDakRecordsChanged();
+  return updated;
+}
+
+export async function editInward(id: number, entry: InwardEntry): Promise<InwardDakRecord[]> {
+  validateEntry(entry);
+  return updateInward(id, (r) => {
+    if (financialYearOf(entry.receivedDate) !== r.financialYear) {
+      throw new Error("Date of receipt cannot move the entry to another financial year");
+    }
+    return { ...r, ...entry, sender: entry.sender.trim(), senderRefNo: entry.senderRefNo.trim(), subject: entry.subject.trim(), markedTo: entry.markedTo.trim() };
+  });
+}
+
+/** The marked-to officer confirms they have the letter */
+export async function acknowledgeInward(id: number, officer: string): Promise<InwardDakRecord[]> {
+  return updateInward(id, (r) => {
+    if (r.acknowledgedAt) throw new Error(`${r.inwardNo} was already acknowledged by ${r.acknowledgedBy}`);
+    return { ...r, acknowledgedBy: officer, acknowledgedAt: new Date().toISOString() };
+  });
+}
+
+/**
+ * Close an entry. A reply must quote the outward reference it went under,
+ * which has to exist in the Dak register.
+ */
+export async function disposeInward(
+  id: number,
+  disposal: Omit<InwardDisposal, "disposedBy">,
+  disposedBy: string,
+  outward: DakRecord[]
+): Promise<InwardDakRecord[]> {
+  const replyRefNo = disposal.replyRefNo.trim();
+  if (!disposal.date) throw new Error("Enter the date of disposal");
+  if (!disposal.action) throw new Error("Select how the letter was disposed of");
+  if (disposal.action === "Replied" && !replyRefNo) throw new Error("Enter the outward reference of the reply");
+  if (replyRefNo && !outward.some((o) => o.refNo === replyRefNo)) {
+    throw new Error(`${replyRefNo} is not in the outward Dak register`);
+  }
+  return updateInward(id, (r) => {
+    if (disposal.date < r.receivedDate) throw new Error("Disposal date cannot be before the date of receipt");
+    return { ...r, disposal: { ...disposal, replyRefNo, remarks: disposal.remarks.trim(), disposedBy } };
+  });
+}
+
+/** Reopen a disposed entry (wrong disposal recorded) */
+export async function reopenInward(id: number): Promise<InwardDakRecord[]> {
+  return updateInward(id, ({ disposal, ...r }) => r);
+}
+
+export async function deleteInward(id: number): Promise<InwardDakRecord[]> {
+  const updated = await updateDataWithCounters(INWARD_KEY, [], (value) => {
+    const next = (Array.isArray(value) ? value : []).filter((r: InwardDakRecord) => r.id !== id);
+    return { value: next, counters: {}, result: next };
+  });
+  notifyDakRecordsChanged();
+  return updated;
+}
+
+// ============================================================
+// Pendency
+// ============================================================
+export const AGEING_BUCKETS = [
+  { label: "0–7 days", max: 7 },
+  { label: "8–15 days", max: 15 },
+  { label: "16–30 days", max: 30 },
+  { label: "Over 30 days", max: Infinity },
+];
+
+/** Days a pending letter has been with the branch (0 once disposed) */
+export function pendingDays(record: InwardDakRecord, asOf: string = toISODate(new Date())): number {
+  if (record.disposal) return 0;
+  return Math.max(0, daysBetween(record.receivedDate, asOf));
+}
+
+export function isOverdue(record: InwardDakRecord, asOf: string = toISODate(new Date())): boolean {
+  return !record.disposal && !!record.dueDate && record.dueDate < asOf;
+}
+
+export interface AgeingRow {
+  markedTo: string;
+  buckets: number[];   // count per AGEING_BUCKETS
+  overdue: number;
+  total: number;
+}
+
+/** Pending letters per officer and age */
+export function pendencyAgeing(records: InwardDakRecord[], asOf: string = toISODate(new Date())): AgeingRow[] {
+  const rows = new Map<string, AgeingRow>();
+  for (const r of records) {
+    if (r.disposal) continue;
+    const row = rows.get(r.markedTo) ?? { markedTo: r.markedTo, buckets: AGEING_BUCKETS.map(() => 0), overdue: 0, total: 0 };
+    const days = pendingDays(r, asOf);
+    row.buckets[AGEING_BUCKETS.findIndex((b) => days <= b.max)]++;
+    if (isOverdue(r, asOf)) row.overdue++;
+    row.total++;
+    rows.set(r.markedTo, row);
+  }
+  return Array.from(rows.values()).sort((a, b) => b.total - a.total);
+}
+
+/** Outward letters sent in reply to an inward entry */
+export function repliesTo(record: InwardDakRecord, outward: DakRecord[]): DakRecord | undefined {
+  return record.disposal?.replyRefNo ? outward.find((o) => o.refNo === record.disposal!.replyRefNo) : undefined;
+}
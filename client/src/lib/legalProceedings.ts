@@ -0,0 +1,253 @@
+/**
+ * SARFAESI / Legal Proceedings
+ *
+ * Staged legal workflow per NPA account, stored in BranchPortfolioDB
+ * (legal-cases, one record per account):
+ *   13(2) demand notice → 60-day notice period → 13(4) possession notice →
+ *   symbolic / physical possession, and DRT or RRC filing
+ *
+ * - A 13(4) notice cannot be recorded before the 60 days after the 13(2)
+ *   notice have run out
+ * - Deadlines (end of the 60 days, newspaper publication of the possession
+ *   notice) are pushed into the Reminders app as one-time tasks and withdrawn
+ *   once the step they ask for is recorded
+ * - Every step is also written to the account's recovery diary
+ * - The case status fills the "suit / SARFAESI status" column of the
+ *   NPA and AUCA reviews (SMA/NPA/AUCA Reporting)
+ */
+
+import { STORES, getAllRecords, getRecord, putRecord } from "./portfolioDb";
+import { addRecoveryAction, normaliseAccountNo } from "./recoveryDiary";
+import { syncIssuedReminders } from "./reminderTasks";
+
+export type LegalStage =
+  | "demand-notice"
+  | "possession-notice"
+  | "symbolic-possession"
+  | "physical-possession"
+  | "drt-filing"
+  | "rrc-filing";
+
+export const LEGAL_STAGES: { value: LegalStage; label: string; document: boolean }[] = [
+  { value: "demand-notice", label: "13(2) Demand Notice", document: true },
+  { value: "possession-notice", label: "13(4) Possession Notice", document: true },
+  { value: "symbolic-possession", label: "Symbolic Possession", document: false },
+  { value: "physical-possession", label: "Physical Possession", document: false },
+  { value: "drt-filing", label: "DRT Application Filed", document: false },
+  { value: "rrc-filing", label: "RRC Filed", document: false },
+];
+
+export interface LegalStep {
+  stage: LegalStage;
+  date: string;             // YYYY-MM-DD
+  refNo?: string;           // outward reference of the notice, or DRT OA / RRC number
+  amount?: number;          // amount demanded in the 13(2) notice
+  details?: string;
+  recordedBy: string | null;
+  recordedAt: number;
+}
+
+export interface LegalCase {
+  accountNo: string;        // normalised (see normaliseAccountNo)
+  customerName: string;
+  steps: LegalStep[];       // at most one per stage
+  remindersIssued: string[]; // ids of the tasks this case has put into the Reminders app
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LegalDeadline {
+  key: string;
+  label: string;
+  due: string;              // YYYY-MM-DD
+  clearedBy: LegalStage;    // recording this stage meets the deadline
+}
+
+// Sec 13(2): the borrower has 60 days from the notice to discharge the liability
+export const DEMAND_NOTICE_DAYS = 60;
+// Rule 8(2): the possession notice is published in two newspapers within 7 days
+export const PUBLICATION_DAYS = 7;
+// Early warning before the 60 days run out
+const PREPARE_POSSESSION_DAYS = 10;
+
+const REMINDER_PREFIX = "legal:";
+
+export function stageLabel(stage: LegalStage): string {
+  return LEGAL_STAGES.find((s) => s.value === stage)?.label ?? stage;
+}
+
+export function stageOf(legalCase: LegalCase | null | undefined, stage: LegalStage): LegalStep | undefined {
+  return legalCase?.steps.find((s) => s.stage === stage);
+}
+
+export function addDaysISO(iso: string, days: number): string {
+  const [y, m, d] = iso.split("-").map(Number);
+  const date = new Date(y, m - 1, d + days);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+export function fmtDate(iso: string): string {
+  const [y, m, d] = iso.split("-");
+  return `${d}/${m}/${y}`;
+}
+
+// ============================================================
+// Rules
+// ============================================================
+/** Earliest date a 13(4) possession notice may carry, or null before a 13(2) notice */
+export function earliestPossessionDate(legalCase: LegalCase | null | undefined): string | null {
+  const demand = stageOf(legalCase, "demand-notice");
+  return demand ? addDaysISO(demand.date, DEMAND_NOTICE_DAYS + 1) : null;
+}
+
+/** Why a step cannot be recorded as given, or null when it can */
+export function validateStep(legalCase: LegalCase | null | undefined, stage: LegalStage, date: string): string | null {
+  if (!date) return "Enter the date of the step";
+  const demand = stageOf(legalCase, "demand-notice");
+  if (stage === "possession-notice" || stage === "symbolic-possession" || stage === "physical-possession") {
+    if (!demand) return `Record the 13(2) demand notice before the ${stageLabel(stage).toLowerCase()}`;
+    const earliest = earliestPossessionDate(legalCase)!;
+    if (date < earliest) {
+      return `The ${DEMAND_NOTICE_DAYS}-day period of the 13(2) notice dated ${fmtDate(demand.date)} runs until ${fmtDate(addDaysISO(earliest, -1))}`;
+    }
+  }
+  if (stage === "physical-possession" && !stageOf(legalCase, "symbolic-possession") && !stageOf(legalCase, "possession-notice")) {
+    return "Record the 13(4) possession notice or symbolic possession first";
+  }
+  return null;
+}
+
+/** Open deadlines of a case, earliest first */
+export function caseDeadlines(legalCase: LegalCase | null | undefined): LegalDeadline[] {
+  const deadlines: LegalDeadline[] = [];
+  const demand = stageOf(legalCase, "demand-notice");
+  const possession = stageOf(legalCase, "possession-notice");
+
+  if (demand && !possession) {
+    const expiry = addDaysISO(demand.date, DEMAND_NOTICE_DAYS);
+    deadlines.push({
+      key: "prepare-13-4",
+      label: `60-day period of the 13(2) notice ends on ${fmtDate(expiry)} — prepare the 13(4) possession notice`,
+      due: addDaysISO(expiry, -PREPARE_POSSESSION_DAYS),
+      clearedBy: "possession-notice",
+    });
+    deadlines.push({
+      key: "issue-13-4",
+      label: "Issue the 13(4) possession notice — 60-day period of the 13(2) notice is over",
+      due: addDaysISO(expiry, 1),
+      clearedBy: "possession-notice",
+    });
+  }
+  if (possession && !stageOf(legalCase, "physical-possession")) {
+    deadlines.push({
+      key: "publish-13-4",
+      label: "Publish the possession notice in two newspapers (Rule 8(2))",
+      due: addDaysISO(possession.date, PUBLICATION_DAYS),
+      clearedBy: "symbolic-possession",
+    });
+  }
+  // Publication is only tracked until symbolic possession is recorded
+  return deadlines
+    .filter((d) => !stageOf(legalCase, d.clearedBy))
+    .sort((a, b) => a.due.localeCompare(b.due));
+}
+
+/**
+ * Status for the "suit filed / RRC / SARFAESI" column of the NPA and AUCA
+ * reviews, e.g. "SARFAESI: 13(2) dt 04/01/2026, 13(4) dt 10/03/2026; DRT OA 123/2026 dt 02/05/2026"
+ */
+export function legalStatusText(legalCase: LegalCase | null | undefined): string | null {
+  if (!legalCase || legalCase.steps.length === 0) return null;
+  const step = (stage: LegalStage, short: string) => {
+    const s = stageOf(legalCase, stage);
+    return s ? `${short}${s.refNo && (stage === "drt-filing" || stage === "rrc-filing") ? ` ${s.refNo}` : ""} dt ${fmtDate(s.date)}` : null;
+  };
+  const sarfaesi = [
+    step("demand-notice", "13(2)"),
+    step("possession-notice", "13(4)"),
+    step("symbolic-possession", "symbolic possession"),
+    step("physical-possession", "physical possession"),
+  ].filter(Boolean);
+  const parts = [
+    sarfaesi.length > 0 ? `SARFAESI: ${sarfaesi.join(", ")}` : null,
+    step("drt-filing", "DRT"),
+    step("rrc-filing", "RRC"),
+  ].filter(Boolean);
+  return parts.join("; ");
+}
+
+// ============================================================
+// Storage
+// ============================================================
+export async function getLegalCase(accountNo: string): Promise<LegalCase | null> {
+  return (await getRecord(STORES.LEGAL_CASES, normaliseAccountNo(accountNo))) ?? null;
+}
+
+/** All cases keyed by normalised account number */
+export async function getLegalCasesByAccount(): Promise<Map<string, LegalCase>> {
+  const cases: LegalCase[] = await getAllRecords(STORES.LEGAL_CASES);
+  return new Map(cases.map((c) => [c.accountNo, c]));
+}
+
+/**
+ * Record (or re-record) a step: saves the case, notes it in the recovery
+ * diary and brings the case's reminders in line with its open deadlines.
+ */
+export async function recordLegalStep(
+  accountNo: string,
+  customerName: string,
+  step: Omit<LegalStep, "recordedAt">
+): Promise<LegalCase> {
+  const existing = await getLegalCase(accountNo);
+  const error = validateStep(existing, step.stage, step.date);
+  if (error) throw new Error(error);
+
+  const now = Date.now();
+  const legalCase: LegalCase = {
+    accountNo: normaliseAccountNo(accountNo),
+    customerName: customerName || existing?.customerName || "",
+    steps: [...(existing?.steps ?? []).filter((s) => s.stage !== step.stage), { ...step, recordedAt: now }],
+    remindersIssued: existing?.remindersIssued ?? [],
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  legalCase.remindersIssued = await syncReminders(legalCase);
+  await putRecord(STORES.LEGAL_CASES, legalCase);
+
+  const amount = step.stage === "demand-notice" && step.amount ? `, ₹${step.amount.toLocaleString("en-IN")} demanded` : "";
+  await addRecoveryAction(accountNo, {
+    type: "legal",
+    date: step.date,
+    notes: `${stageLabel(step.stage)}${step.refNo ? ` (${step.refNo})` : ""}${amount}${step.details ? ` — ${step.details}` : ""}`,
+    createdBy: step.recordedBy,
+  });
+  return legalCase;
+}
+
+/** Remove a recorded step (e.g. entered against the wrong account) */
+export async function deleteLegalStep(accountNo: string, stage: LegalStage): Promise<LegalCase | null> {
+  const existing = await getLegalCase(accountNo);
+  if (!existing) return null;
+  const legalCase: LegalCase = { ...existing, steps: existing.steps.filter((s) => s.stage !== stage), updatedAt: Date.now() };
+  legalCase.remindersIssued = await syncReminders(legalCase);
+  await putRecord(STORES.LEGAL_CASES, legalCase);
+  return legalCase;
+}
+
+// ============================================================
+// Reminders
+// ============================================================
+function reminderId(legalCase: LegalCase, deadline: LegalDeadline): string {
+  return `${REMINDER_PREFIX}${legalCase.accountNo}:${deadline.key}:${deadline.due}`;
+}
+
+/** Issue the case's open deadlines as Reminders tasks; returns the ids now issued */
+async function syncReminders(legalCase: LegalCase): Promise<string[]> {
+  const label = `A/c ${legalCase.accountNo}${legalCase.customerName ? ` (${legalCase.customerName})` : ""}`;
+  const wanted = caseDeadlines(legalCase).map((deadline) => ({
+    id: reminderId(legalCase, deadline),
+    name: `SARFAESI — ${label}: ${deadline.label}`,
+    dueDate: deadline.due,
+  }));
+  return syncIssuedReminders(legalCase.remindersIssued, wanted, "Legal Proceedings");
+}
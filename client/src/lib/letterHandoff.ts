@@ -0,0 +1,41 @@
+/**
+ * Letter Generator Handoff
+ *
+ * Lets another module send a ready mail-merge batch (data rows, a starter
+ * template and the Dak details) to the Letter Generator instead of the user
+ * exporting a CSV and re-uploading it. The batch is parked in app_data and
+ * taken — read and removed — when the Letter Generator next opens, which
+ * lands on the template editor so the wording can still be reviewed before
+ * letters and Dak numbers are generated.
+ */
+
+import { loadData, removeData, saveData } from "./db";
+
+const HANDOFF_KEY = "letter-generator-handoff";
+
+export interface LetterMergeBatch {
+  source: string;                       // module that prepared it, shown to the user
+  headers: string[];
+  rows: Record<string, string>[];
+  templateHTML: string;                 // uses {{Header}}, {{ref_no}} and {{date}} placeholders
+  letterType: string;                   // one of the Dak letter types ("Letter", "Memo" …)
+  letterDestination: string;
+  recipientDetails: string;
+  subject: string;
+  remarks: string;
+  createdAt: string;
+}
+
+export async function queueLetterMerge(batch: Omit<LetterMergeBatch, "createdAt">): Promise<void> {
+  if (batch.rows.length === 0) throw new Error("Nothing to send to the Letter Generator");
+  await saveData(HANDOFF_KEY, { ...batch, createdAt: new Date().toISOString() });
+}
+
+/** The waiting batch, if any; removed so it is loaded only once */
+export async function takeLetterMerge(): Promise<LetterMergeBatch | null> {
+  const batch: LetterMergeBatch | null = await loadData(HANDOFF_KEY);
+  if (!batch) return null;
+  await removeData(HANDOFF_KEY);
+  return batch;
+}
+
@@ -0,0 +1,129 @@
+/**
+ * Loan File Categories
+ *
+ * The file-number series kept by the Loan File Manager (PER, PEN, GOLD, SOLAR
+ * and any the branch adds — home, auto, education, MSME …). Each category has
+ * its own serial prefix and padding, a colour for the register, and the CBS
+ * product codes whose accounts belong to it (in addition to the ACCTDESC
+ * product mappings uploaded in Setup).
+ *
+ * Stored in LoanFileManagerDB under one key so it travels with the register
+ * through backups and LAN sync.
+ */
+
+import { loanFilePersistence } from "./loanFilePersistence";
+
+export type CategoryCode = string;
+
+export interface LoanFileCategory {
+  code: CategoryCode;      // e.g. "HOMELON"
+  label: string;           // e.g. "Home Loans"
+  prefix: string;          // serial prefix, e.g. "HL"
+  padCount: number;        // digits after the prefix
+  color: CategoryColor;
+  productCodes: string[];  // CBS ProductCode values mapped to this category
+  builtIn?: boolean;       // has a bespoke front page; cannot be removed
+}
+
+// ============================================================
+// Colours
+// ============================================================
+// Full class names so Tailwind keeps them in the build
+export const CATEGORY_COLORS = {
+  blue:   { bgClass: "bg-blue-50",   textClass: "text-blue-800",   borderClass: "border-blue-400",   badgeClass: "bg-blue-100 text-blue-800",     hex: "#1d4ed8" },
+  green:  { bgClass: "bg-green-50",  textClass: "text-green-800",  borderClass: "border-green-400",  badgeClass: "bg-green-100 text-green-800",   hex: "#15803d" },
+  amber:  { bgClass: "bg-amber-50",  textClass: "text-amber-800",  borderClass: "border-amber-400",  badgeClass: "bg-amber-100 text-amber-800",   hex: "#b45309" },
+  teal:   { bgClass: "bg-teal-50",   textClass: "text-teal-800",   borderClass: "border-teal-400",   badgeClass: "bg-teal-100 text-teal-800",     hex: "#0f766e" },
+  purple: { bgClass: "bg-purple-50", textClass: "text-purple-800", borderClass: "border-purple-400", badgeClass: "bg-purple-100 text-purple-800", hex: "#7e22ce" },
+  rose:   { bgClass: "bg-rose-50",   textClass: "text-rose-800",   borderClass: "border-rose-400",   badgeClass: "bg-rose-100 text-rose-800",     hex: "#be123c" },
+  indigo: { bgClass: "bg-indigo-50", textClass: "text-indigo-800", borderClass: "border-indigo-400", badgeClass: "bg-indigo-100 text-indigo-800", hex: "#4338ca" },
+  orange: { bgClass: "bg-orange-50", textClass: "text-orange-800", borderClass: "border-orange-400", badgeClass: "bg-orange-100 text-orange-800", hex: "#c2410c" },
+  cyan:   { bgClass: "bg-cyan-50",   textClass: "text-cyan-800",   borderClass: "border-cyan-400",   badgeClass: "bg-cyan-100 text-cyan-800",     hex: "#0e7490" },
+  slate:  { bgClass: "bg-slate-50",  textClass: "text-slate-800",  borderClass: "border-slate-400",  badgeClass: "bg-slate-100 text-slate-800",   hex: "#334155" },
+};
+
+export type CategoryColor = keyof typeof CATEGORY_COLORS;
+
+export const COLOR_OPTIONS = Object.keys(CATEGORY_COLORS) as CategoryColor[];
+
+export function categoryStyle(category: LoanFileCategory | undefined) {
+  return CATEGORY_COLORS[category?.color ?? "slate"] ?? CATEGORY_COLORS.slate;
+}
+
+// ============================================================
+// Defaults
+// ============================================================
+export const DEFAULT_CATEGORIES: LoanFileCategory[] = [
+  { code: "PERLOAN", label: "Xpress Credit / Personal Loans", prefix: "PER", padCount: 4, color: "blue", productCodes: [], builtIn: true },
+  { code: "PENLOAN", label: "Pension Loans", prefix: "PEN", padCount: 4, color: "green", productCodes: [], builtIn: true },
+  { code: "GOLDLON", label: "Gold Loans", prefix: "GOLD", padCount: 3, color: "amber", productCodes: [], builtIn: true },
+  { code: "PMSURYA", label: "SBI Surya Ghar Loans", prefix: "SOLAR", padCount: 3, color: "teal", productCodes: [], builtIn: true },
+];
+
+const CATEGORIES_KEY = "lfn-categories";
+
+// ============================================================
+// Validation
+// ============================================================
+/** Problems with a category list, empty when it can be saved */
+export function validateCategories(categories: LoanFileCategory[]): string[] {
+  const errors: string[] = [];
+  const codes = new Set<string>();
+  const prefixes = new Set<string>();
+  const productOwner = new Map<string, string>();
+
+  for (const c of categories) {
+    const name = c.code || c.label || "(new category)";
+    if (!/^[A-Z0-9]{3,10}$/.test(c.code)) errors.push(`${name}: code must be 3–10 capital letters or digits`);
+    if (!c.label.trim()) errors.push(`${name}: label is required`);
+    if (!/^[A-Z]{1,6}$/.test(c.prefix)) errors.push(`${name}: prefix must be 1–6 capital letters`);
+    if (!Number.isInteger(c.padCount) || c.padCount < 1 || c.padCount > 6) errors.push(`${name}: padding must be between 1 and 6 digits`);
+    if (codes.has(c.code)) errors.push(`${name}: code is used by another category`);
+    if (prefixes.has(c.prefix)) errors.push(`${name}: prefix ${c.prefix} is used by another category`);
+    codes.add(c.code);
+    prefixes.add(c.prefix);
+    for (const p of c.productCodes) {
+      const owner = productOwner.get(p);
+      if (owner && owner !== c.code) errors.push(`Product code ${p} is mapped to both ${owner} and ${c.code}`);
+      productOwner.set(p, c.code);
+    }
+  }
+  return errors;
+}
+
+// ============================================================
+// Storage
+// ============================================================
+export async function loadCategories(): Promise<LoanFileCategory[]> {
+  const stored: LoanFileCategory[] | null = await loanFilePersistence.loadItem(CATEGORIES_KEY);
+  if (!stored || stored.length === 0) return DEFAULT_CATEGORIES;
+  // Built-in flags follow the code, not the stored copy
+  const builtIn = new Set(DEFAULT_CATEGORIES.map((c) => c.code));
+  return stored.map((c) => ({ ...c, productCodes: c.productCodes ?? [], builtIn: builtIn.has(c.code) }));
+}
+
+export async function saveCategories(categories: LoanFileCategory[]): Promise<void> {
+  const errors = validateCategories(categories);
+  if (errors.length > 0) throw new Error(errors[0]);
+  await loanFilePersistence.saveItem(CATEGORIES_KEY, categories.map(({ builtIn, ...c }) => c), "categories");
+}
+
+// ============================================================
+// Matching
+// ============================================================
+/**
+ * Category of a loan / CC-OD row: the ACCTDESC product mapping first, then
+ * the category's CBS product codes.
+ */
+export function categoryForRow(
+  row: Record<string, any>,
+  descToCategory: Map<string, CategoryCode>,
+  categories: LoanFileCategory[]
+): CategoryCode | undefined {
+  const desc = String(row["ACCTDESC"] || "").trim();
+  const byDesc = descToCategory.get(desc);
+  if (byDesc && categories.some((c) => c.code === byDesc)) return byDesc;
+  const productCode = String(row["ProductCode"] || "").trim();
+  if (!productCode) return undefined;
+  return categories.find((c) => c.productCodes.includes(productCode))?.code;
+}
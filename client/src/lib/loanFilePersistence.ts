@@ -7,10 +7,18 @@
  * 
  * Data persists independently of browser cache clearing
  * (as long as IndexedDB is not explicitly purged)
+ * Writes, deletes and clears are recorded in the audit trail and queued
+ * for the LAN sync server (see syncEngine.ts).
  */
 
+import { recordAudit, recordValueChange } from "./auditLog";
+import { openMigratedDB } from "./migrations";
+import { queueSyncChanges } from "./syncQueue";
+
+const AUDIT_APP = "Loan File Manager";
+
+// Schema and version are declared in migrations.ts
 const LOAN_FILE_DB = "LoanFileManagerDB";
-const LOAN_FILE_DB_VERSION = 1;
 const LOAN_FILE_STORE = "loan-file-data";
 
 interface DataRecord {
@@ -31,29 +39,19 @@ class LoanFilePersistence {
     if (this.db) return;
     if (this.initPromise) return this.initPromise;
 
-    this.initPromise = new Promise((resolve, reject) => {
-      const request = indexedDB.open(LOAN_FILE_DB, LOAN_FILE_DB_VERSION);
-
-      request.onerror = () => {
-        console.error("Failed to open Loan File DB:", request.error);
-        reject(request.error);
-      };
-
-      request.onsuccess = () => {
-        this.db = request.result;
+    this.initPromise = openMigratedDB(LOAN_FILE_DB, () => {
+      this.db = null;
+      this.initPromise = null;
+    })
+      .then((db) => {
+        this.db = db;
         console.log("Loan File DB initialized successfully");
-        resolve();
-      };
-
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        if (!db.objectStoreNames.contains(LOAN_FILE_STORE)) {
-          db.createObjectStore(LOAN_FILE_STORE, { keyPath: "key" });
-          console.log("Created Loan File data store");
-        }
-      };
-    });
+      })
+      .catch((error) => {
+        console.error("Failed to open Loan File DB:", error);
+        this.initPromise = null;
+        throw error;
+      });
 
     await this.initPromise;
   }
@@ -81,20 +79,30 @@ class LoanFilePersistence {
           dataType,
         };
 
-        const request = store.put(record);
+        // Read the previous value in the same transaction for the audit diff
+        let before: any = null;
+        const previous = store.get(key);
+        previous.onsuccess = () => {
+          before = previous.result ? previous.result.value : null;
+          const request = store.put(record);
 
-        request.onsuccess = () => {
-          console.log(`Saved to IndexedDB: ${key}`);
-          // Also save to localStorage as fallback
-          this.saveToLocalStorage(key, value);
-          resolve();
+          request.onsuccess = () => {
+            console.log(`Saved to IndexedDB: ${key}`);
+            // Also save to localStorage as fallback
+            this.saveToLocalStorage(key, value);
+          };
+
+          request.onerror = () => {
+            console.error(`Failed to save ${key} to IndexedDB:`, request.error);
+            // Fallback to localStorage
+            this.saveToLocalStorage(key, value);
+          };
         };
 
-        request.onerror = () => {
-          console.error(`Failed to save ${key} to IndexedDB:`, request.error);
-          // Fallback to localStorage
-          this.saveToLocalStorage(key, value);
-          reject(request.error);
+        transaction.oncomplete = () => {
+          queueSyncChanges(LOAN_FILE_DB, LOAN_FILE_STORE, [key], false);
+          recordValueChange(LOAN_FILE_STORE, AUDIT_APP, key, before, value);
+          resolve();
         };
 
         transaction.onerror = () => {
@@ -168,11 +176,18 @@ class LoanFilePersistence {
         return new Promise((resolve, reject) => {
           const transaction = this.db!.transaction([LOAN_FILE_STORE], "readwrite");
           const store = transaction.objectStore(LOAN_FILE_STORE);
+          let before: any = null;
+          const previous = store.get(key);
+          previous.onsuccess = () => {
+            before = previous.result ? previous.result.value : null;
+          };
           const request = store.delete(key);
 
           request.onsuccess = () => {
             console.log(`Deleted from IndexedDB: ${key}`);
             localStorage.removeItem(key);
+            queueSyncChanges(LOAN_FILE_DB, LOAN_FILE_STORE, [key], true);
+            recordValueChange(LOAN_FILE_STORE, AUDIT_APP, key, before, null);
             resolve();
           };
 
@@ -200,17 +215,21 @@ class LoanFilePersistence {
         return new Promise((resolve, reject) => {
           const transaction = this.db!.transaction([LOAN_FILE_STORE], "readwrite");
           const store = transaction.objectStore(LOAN_FILE_STORE);
+          const keysRequest = store.getAllKeys();
           const request = store.clear();
 
           request.onsuccess = () => {
             console.log("Cleared IndexedDB");
+            queueSyncChanges(LOAN_FILE_DB, LOAN_FILE_STORE, keysRequest.result, true);
             // Also clear localStorage entries related to loan files
             const keysToRemove = [
               "lfn-product-list",
               "lfn-accounts",
               "lfn-sync-log",
+              "lfn-categories",
             ];
             keysToRemove.forEach(k => localStorage.removeItem(k));
+            recordAudit({ app: AUDIT_APP, source: LOAN_FILE_STORE, recordKey: "*", action: "clear" });
             resolve();
           };
 
@@ -321,6 +340,54 @@ class LoanFilePersistence {
     }
   }
 
+  // ─── LAN sync (see syncEngine.ts) ──────────────────────────────────
+
+  /**
+   * Records exactly as stored, for pushing to the sync server
+   */
+  async getRawRecords(keys: string[]): Promise<Map<string, DataRecord>> {
+    await this.initDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([LOAN_FILE_STORE], "readonly");
+      const store = transaction.objectStore(LOAN_FILE_STORE);
+      const records = new Map<string, DataRecord>();
+      for (const key of keys) {
+        const request = store.get(key);
+        request.onsuccess = () => {
+          if (request.result) records.set(key, request.result);
+        };
+      }
+      transaction.oncomplete = () => resolve(records);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Write records received from the sync server (null deletes).
+   * Not queued for sync again; the engine audits the batch.
+   */
+  async applyRawRecords(records: { key: string; record: DataRecord | null }[]): Promise<void> {
+    await this.initDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([LOAN_FILE_STORE], "readwrite");
+      const store = transaction.objectStore(LOAN_FILE_STORE);
+      for (const { key, record } of records) {
+        if (record) store.put(record);
+        else store.delete(key);
+      }
+      transaction.oncomplete = () => {
+        for (const { key, record } of records) {
+          if (record) this.saveToLocalStorage(key, record.value);
+          else localStorage.removeItem(key);
+        }
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   // ─── Private helper methods ────────────────────────────────────────
 
   private saveToLocalStorage(key: string, value: any): void {
@@ -347,6 +414,7 @@ class LoanFilePersistence {
       "lfn-product-list",
       "lfn-accounts",
       "lfn-sync-log",
+      "lfn-categories",
     ];
     keysToExport.forEach(key => {
       try {
@@ -0,0 +1,420 @@
+/**
+ * Schema Migration Registry
+ *
+ * Single place that declares every IndexedDB database the app opens, its
+ * current version and the upgrade steps that lead to it, plus versioned
+ * clean-up of the localStorage keys some apps still use directly.
+ *
+ * - runMigrations() is called once at startup (see StartupMigrations.tsx) and
+ *   brings every database to its registered version before any page opens it
+ * - Modules open their database through openMigratedDB() (or pass
+ *   applyUpgrade() to idb's openDB) instead of carrying their own
+ *   onupgradeneeded logic
+ * - Backups record these versions; a backup from a newer schema is refused
+ *
+ * To change a schema, append a step with the next version number to the
+ * database below. Steps must never be edited once released: a browser that
+ * already ran them will not run them again.
+ */
+
+export interface MigrationStep {
+  version: number;
+  description: string;
+  upgrade: (db: IDBDatabase, tx: IDBTransaction) => void;
+}
+
+export interface DatabaseSchema {
+  name: string;
+  label: string; // shown on the progress screen
+  steps: MigrationStep[];
+}
+
+export interface MigrationProgress {
+  done: number;     // steps completed so far
+  total: number;    // steps pending at startup
+  current: string;  // what is being upgraded now
+  blocked?: boolean; // an older tab still has the database open
+}
+
+function createStore(db: IDBDatabase, name: string, options: IDBObjectStoreParameters): IDBObjectStore | null {
+  return db.objectStoreNames.contains(name) ? null : db.createObjectStore(name, options);
+}
+
+// Seed rows for the Charges Return BGL master (ChargesReturnDB v1)
+const DEFAULT_BGL_MASTER = [
+  { bglCode: "21111", head: "Rent", subHead: "Rent for office building", acmCategory: "RENT (OFFICE PREMISES)", reportCategory: "Rent Office" },
+  { bglCode: "21112", head: "Rent", subHead: "Rent for staff quarters", acmCategory: "RENT (OTHER PREMISES)", reportCategory: "Rent Other Premises" },
+  { bglCode: "21121", head: "Telephone", subHead: "Telephone charges", acmCategory: "TELEPHONE", reportCategory: "Telephone" },
+  { bglCode: "21131", head: "Stationery", subHead: "Stationery & printing", acmCategory: "STATIONERY & PRINTING", reportCategory: "Stationery" },
+  { bglCode: "21141", head: "Postage", subHead: "Postage & courier", acmCategory: "POSTAGE, TELEGRAM, TELEX, STAMPS", reportCategory: "Postage" },
+  { bglCode: "21151", head: "Electricity", subHead: "Electricity charges", acmCategory: "ELECTRICITY & GAS CHARGES", reportCategory: "Electricity & Gas" },
+  { bglCode: "21161", head: "Water", subHead: "Water charges", acmCategory: "WATER CHARGES", reportCategory: "Sundries" },
+  { bglCode: "21171", head: "Repairs", subHead: "Repairs & maintenance", acmCategory: "REPAIRS TO BANK PROPERTY", reportCategory: "Repair to Bank Property" },
+  { bglCode: "21181", head: "Insurance", subHead: "Insurance premium", acmCategory: "INSURANCE", reportCategory: "Insurance" },
+  { bglCode: "21191", head: "Miscellaneous", subHead: "Other expenses", acmCategory: "SUNDRIES", reportCategory: "Sundries" },
+];
+
+// ============================================================
+// Registry
+// ============================================================
+export const DATABASE_SCHEMAS: DatabaseSchema[] = [
+  {
+    name: "SBI_Branch_App_DB",
+    label: "Application data",
+    steps: [
+      {
+        version: 1,
+        description: "Key-value store for app data",
+        upgrade: (db) => { createStore(db, "app_data", { keyPath: "key" }); },
+      },
+      {
+        version: 2,
+        description: "Counters for Dak serial numbers",
+        upgrade: (db) => { createStore(db, "counters", { keyPath: "name" }); },
+      },
+    ],
+  },
+  {
+    name: "BranchPortfolioDB",
+    label: "Branch Portfolio",
+    steps: [
+      {
+        version: 2,
+        description: "Product mappings, CBS data and settings",
+        upgrade: (db) => {
+          createStore(db, "product-category-mapping", { keyPath: "ProductCode" });
+          createStore(db, "loan-product-mapping", { keyPath: "ProductCode" });
+
+          const dep = createStore(db, "deposit-data", { keyPath: "AcNo" });
+          dep?.createIndex("CIF", "CIF", { unique: false });
+          dep?.createIndex("Category", "Category", { unique: false });
+          dep?.createIndex("Dormancy_Flag", "Dormancy_Flag", { unique: false });
+
+          const loan = createStore(db, "loan-data", { keyPath: "LoanKey" });
+          loan?.createIndex("CIF", "CIF", { unique: false });
+          loan?.createIndex("SMA_CLASS", "SMA_CLASS", { unique: false });
+          loan?.createIndex("Exposure_Type", "Exposure_Type", { unique: false });
+
+          const ccod = createStore(db, "ccod-data", { keyPath: "LoanKey" });
+          ccod?.createIndex("CIF", "CIF", { unique: false });
+          ccod?.createIndex("SMA_CLASS", "SMA_CLASS", { unique: false });
+
+          const npa = createStore(db, "npa-data", { keyPath: "ACCOUNT_NO" });
+          npa?.createIndex("NEW_IRAC", "NEW_IRAC", { unique: false });
+          npa?.createIndex("SYS", "SYS", { unique: false });
+
+          createStore(db, "loan-shadow", { keyPath: "AcNo" })?.createIndex("CIFNo", "CIFNo", { unique: false });
+          createStore(db, "deposit-shadow", { keyPath: "AcNo" })?.createIndex("CIFNo", "CIFNo", { unique: false });
+
+          const cust = createStore(db, "customer-dim", { keyPath: "CIF" });
+          cust?.createIndex("HNI_Category", "HNI_Category", { unique: false });
+          cust?.createIndex("CustomerSegment", "CustomerSegment", { unique: false });
+
+          createStore(db, "upload-log", { keyPath: "id", autoIncrement: true });
+          createStore(db, "portfolio-settings", { keyPath: "key" });
+        },
+      },
+      {
+        version: 3,
+        description: "Month-end portfolio snapshots",
+        upgrade: (db) => { createStore(db, "portfolio-snapshots", { keyPath: "snapshotDate" }); },
+      },
+      {
+        version: 4,
+        description: "NPA recovery action diary",
+        upgrade: (db) => {
+          createStore(db, "recovery-actions", { keyPath: "id" })?.createIndex("accountNo", "accountNo", { unique: false });
+        },
+      },
+      {
+        version: 5,
+        description: "SARFAESI / legal proceedings per NPA account",
+        upgrade: (db) => { createStore(db, "legal-cases", { keyPath: "accountNo" }); },
+      },
+      {
+        version: 6,
+        description: "NPA report history and NPA movement register",
+        upgrade: (db) => {
+          createStore(db, "npa-report-history", { keyPath: "reportDate" });
+          createStore(db, "npa-movements", { keyPath: "id" })?.createIndex("toDate", "toDate", { unique: false });
+        },
+      },
+    ],
+  },
+  {
+    name: "LoanFileManagerDB",
+    label: "Loan File Manager",
+    steps: [
+      {
+        version: 1,
+        description: "Loan file data store",
+        upgrade: (db) => { createStore(db, "loan-file-data", { keyPath: "key" }); },
+      },
+    ],
+  },
+  {
+    name: "ChargesReturnDB",
+    label: "Charges Return",
+    steps: [
+      {
+        version: 1,
+        description: "ACM reports, charge entries and BGL master",
+        upgrade: (db) => {
+          createStore(db, "acmReports", { keyPath: "reportId" });
+          createStore(db, "acmRows", { keyPath: ["reportId", "head"] })?.createIndex("byReportId", "reportId");
+          createStore(db, "chargeEntries", { keyPath: "id" });
+          const bgl = createStore(db, "bglMaster", { keyPath: "bglCode" });
+          // Pre-populate with default BGL codes
+          if (bgl) DEFAULT_BGL_MASTER.forEach((item) => bgl.add(item));
+          createStore(db, "categoryMappings", { keyPath: "bglCode" });
+        },
+      },
+      {
+        version: 2,
+        description: "Annual budgets per BGL head",
+        upgrade: (db) => { createStore(db, "budgets", { keyPath: ["financialYear", "bglCode"] }); },
+      },
+      {
+        version: 3,
+        description: "Financial powers per BGL head",
+        upgrade: (db) => { createStore(db, "financialPowers", { keyPath: "bglCode" }); },
+      },
+      {
+        version: 4,
+        description: "Vendor master and recurring payment drafts",
+        upgrade: (db) => {
+          createStore(db, "vendors", { keyPath: "id" });
+          createStore(db, "draftCharges", { keyPath: "id" });
+        },
+      },
+    ],
+  },
+  {
+    name: "sbi-templates",
+    label: "Notice templates",
+    steps: [
+      {
+        version: 1,
+        description: "Notice template store",
+        upgrade: (db) => { createStore(db, "notice-templates", { keyPath: "id" }); },
+      },
+    ],
+  },
+  {
+    name: "SBI_Audit_DB",
+    label: "Audit trail",
+    steps: [
+      {
+        version: 1,
+        description: "Hash-chained audit log",
+        upgrade: (db) => {
+          const store = createStore(db, "audit-log", { keyPath: "seq" });
+          store?.createIndex("app", "app", { unique: false });
+          store?.createIndex("timestamp", "timestamp", { unique: false });
+        },
+      },
+    ],
+  },
+  {
+    name: "SBI_Sync_DB",
+    label: "LAN sync",
+    steps: [
+      {
+        version: 1,
+        description: "Sync outbox, record versions and cursors",
+        upgrade: (db) => {
+          createStore(db, "outbox", { keyPath: "id" })?.createIndex("scope", "scope", { unique: false });
+          createStore(db, "versions", { keyPath: "id" });
+          createStore(db, "state", { keyPath: "key" });
+        },
+      },
+    ],
+  },
+];
+
+// ============================================================
+// localStorage
+// ============================================================
+// Keys written directly by pages (not through db.ts). Their schema version
+// lives under LOCAL_SCHEMA_KEY.
+const LOCAL_SCHEMA_KEY = "sbi-local-schema-version";
+
+interface LocalMigrationStep {
+  version: number;
+  description: string;
+  upgrade: () => void;
+}
+
+/**
+ * Pages parse these keys in their first render, so a truncated or hand-edited
+ * value stops the page from opening at all. Move such values aside (kept under
+ * "<key>.corrupt" for recovery) so the page starts with its defaults.
+ */
+function quarantineInvalidJSON(key: string, expect: "array" | "object") {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return;
+  try {
+    const parsed = JSON.parse(raw);
+    const ok = expect === "array" ? Array.isArray(parsed) : parsed !== null && typeof parsed === "object";
+    if (ok) return;
+  } catch {
+    // fall through
+  }
+  localStorage.setItem(`${key}.corrupt`, raw);
+  localStorage.removeItem(key);
+}
+
+const LOCAL_STORAGE_STEPS: LocalMigrationStep[] = [
+  {
+    version: 1,
+    description: "Check Visit Log Book and RLMS draft data",
+    upgrade: () => {
+      quarantineInvalidJSON("bank_visit_reports", "array");
+      quarantineInvalidJSON("bank_walkin_leads", "array");
+      quarantineInvalidJSON("rlmsDraft", "object");
+      quarantineInvalidJSON("rlmsReadOnly", "object");
+    },
+  },
+];
+
+function localSchemaVersion(): number {
+  return parseInt(localStorage.getItem(LOCAL_SCHEMA_KEY) || "0", 10) || 0;
+}
+
+// ============================================================
+// Opening databases
+// ============================================================
+function getSchema(dbName: string): DatabaseSchema {
+  const schema = DATABASE_SCHEMAS.find((s) => s.name === dbName);
+  if (!schema) throw new Error(`Database ${dbName} is not registered in migrations.ts`);
+  return schema;
+}
+
+/** Current (highest) registered version of a database, or 0 if not registered */
+export function schemaVersion(dbName: string): number {
+  const schema = DATABASE_SCHEMAS.find((s) => s.name === dbName);
+  return schema ? Math.max(...schema.steps.map((s) => s.version)) : 0;
+}
+
+/**
+ * Run the steps newer than oldVersion. Call from onupgradeneeded (or idb's
+ * upgrade callback, via unwrap()) with the versionchange transaction.
+ */
+export function applyUpgrade(
+  dbName: string,
+  db: IDBDatabase,
+  tx: IDBTransaction,
+  oldVersion: number,
+  onStep?: (step: MigrationStep) => void
+): void {
+  for (const step of getSchema(dbName).steps) {
+    if (step.version <= oldVersion) continue;
+    onStep?.(step);
+    step.upgrade(db, tx);
+  }
+}
+
+/**
+ * Open a registered database at its current version. The connection closes
+ * itself when another tab needs to upgrade or delete the database; onClose
+ * lets the caller drop its cached handle so the next call reopens.
+ */
+export function openMigratedDB(
+  dbName: string,
+  onClose?: () => void,
+  hooks?: { onStep?: (step: MigrationStep) => void; onBlocked?: () => void }
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, schemaVersion(dbName));
+
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => hooks?.onBlocked?.();
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => {
+        db.close();
+        onClose?.();
+      };
+      resolve(db);
+    };
+
+    request.onupgradeneeded = (event) => {
+      applyUpgrade(dbName, request.result, request.transaction!, event.oldVersion, hooks?.onStep);
+    };
+  });
+}
+
+// ============================================================
+// Startup
+// ============================================================
+async function installedVersions(): Promise<Record<string, number>> {
+  // indexedDB.databases() is missing in older browsers; treat every database as pending then
+  if (typeof indexedDB.databases !== "function") return {};
+  const versions: Record<string, number> = {};
+  for (const info of await indexedDB.databases()) {
+    if (info.name) versions[info.name] = info.version || 0;
+  }
+  return versions;
+}
+
+/**
+ * Bring every registered database and the localStorage keys to their current
+ * schema. onProgress is only called when there is something to upgrade, so
+ * an up-to-date install starts without showing the progress screen.
+ */
+export async function runMigrations(onProgress?: (p: MigrationProgress) => void): Promise<void> {
+  const installed = await installedVersions();
+  const pendingSteps = (schema: DatabaseSchema) =>
+    schema.steps.filter((s) => s.version > (installed[schema.name] || 0)).length;
+
+  const localPending = LOCAL_STORAGE_STEPS.filter((s) => s.version > localSchemaVersion());
+  const total = DATABASE_SCHEMAS.reduce((n, s) => n + pendingSteps(s), 0) + localPending.length;
+  let done = 0;
+
+  for (const schema of DATABASE_SCHEMAS) {
+    const pending = pendingSteps(schema) > 0;
+    if (pending) onProgress?.({ done, total, current: schema.label });
+
+    const db = await openMigratedDB(schema.name, undefined, {
+      onStep: (step) => {
+        onProgress?.({ done, total, current: `${schema.label}: ${step.description}` });
+        done++;
+      },
+      onBlocked: () => onProgress?.({ done, total, current: schema.label, blocked: true }),
+    });
+    db.close();
+  }
+
+  for (const step of localPending) {
+    onProgress?.({ done, total, current: step.description });
+    step.upgrade();
+    localStorage.setItem(LOCAL_SCHEMA_KEY, String(step.version));
+    done++;
+  }
+
+  if (total > 0) onProgress?.({ done, total, current: "Done" });
+}
+
+// ============================================================
+// Backups
+// ============================================================
+/** Registered schema versions, recorded in every backup */
+export function currentSchemaVersions(): Record<string, number> {
+  const versions: Record<string, number> = {};
+  for (const schema of DATABASE_SCHEMAS) versions[schema.name] = schemaVersion(schema.name);
+  return versions;
+}
+
+/**
+ * Databases in a backup whose schema is newer than this build knows. Such a
+ * backup was taken by a newer version of the app and cannot be restored here.
+ */
+export function findNewerSchemas(backupVersions: Record<string, number> | undefined): string[] {
+  if (!backupVersions) return [];
+  return Object.entries(backupVersions)
+    .filter(([name, version]) => {
+      const current = schemaVersion(name);
+      return current > 0 && version > current;
+    })
+    .map(([name, version]) => `${name} (v${version}, this app supports v${schemaVersion(name)})`);
+}
@@ -0,0 +1,332 @@
+/**
+ * NPA Movement Register
+ *
+ * Every NPA report upload (processNPAReport) is kept in BranchPortfolioDB
+ * (npa-report-history, one record per report date) and compared with the
+ * report before it. Each change becomes a movement (npa-movements):
+ *   - addition          account newly in the NPA list
+ *   - increase          outstanding of an existing NPA went up
+ *   - recovery          outstanding went down, or the account was closed
+ *   - upgrade           account left the NPA list and is still running;
+ *                       eligible only if all arrears are cleared in the
+ *                       loan / CC-OD balance file
+ *   - write-off         account left the NPA list as written off (AUCA)
+ *   - reclassification  IRAC changed within NPA (no effect on the amount)
+ * The branch can confirm a movement or correct its type (e.g. a compromise
+ * settlement detected as a recovery), which the quarterly NPA movement
+ * statement then uses:
+ *   opening + additions − upgrades − recoveries − write-offs = closing
+ *
+ * As in processNPAReport, IRAC 04 and above is NPA.
+ */
+
+import { STORES, deleteRecord, getAllRecords, getRecordsByIndex, putRecord, putRecords } from "./portfolioDb";
+import { normaliseAccountNo } from "./recoveryDiary";
+
+export type MovementType = "addition" | "increase" | "upgrade" | "recovery" | "write-off" | "reclassification";
+
+export const MOVEMENT_TYPES: { value: MovementType; label: string }[] = [
+  { value: "addition", label: "Fresh NPA" },
+  { value: "increase", label: "Increase in Balance" },
+  { value: "upgrade", label: "Upgradation" },
+  { value: "recovery", label: "Recovery" },
+  { value: "write-off", label: "Write-off" },
+  { value: "reclassification", label: "IRAC Change" },
+];
+
+// Movements that take an account out of the NPA list; the branch may swap one for another
+export const EXIT_TYPES: MovementType[] = ["upgrade", "recovery", "write-off"];
+
+export interface NPAHistoryAccount {
+  accountNo: string;        // normalised (see normaliseAccountNo)
+  customerName: string;
+  irac: string;
+  outstanding: number;
+}
+
+export interface NPAReportHistory {
+  reportDate: string;       // YYYY-MM-DD, file date of the NPA report
+  accounts: NPAHistoryAccount[]; // NPA accounts only
+  npaCount: number;
+  npaOutstanding: number;
+  recordedAt: number;
+}
+
+export interface NPAMovement {
+  id: string;               // `${toDate}:${accountNo}:${detected}`
+  accountNo: string;
+  customerName: string;
+  fromDate: string;         // report compared against
+  toDate: string;           // report the movement showed up in
+  fromIrac: string | null;  // null when not NPA in the earlier report
+  toIrac: string | null;    // null when not NPA in the later report
+  openingAmount: number;
+  closingAmount: number;
+  amount: number;           // change in gross NPA; 0 for reclassifications
+  detected: MovementType;   // as classified from the two reports
+  type: MovementType;       // as confirmed by the branch
+  upgradeEligible?: boolean;
+  eligibilityNote?: string;
+  verified: boolean;
+  notes: string;
+  updatedAt: number;
+}
+
+export interface StatementLine {
+  count: number;
+  amount: number;
+}
+
+export interface NPAMovementStatement {
+  openingDate: string | null; // report the opening balance is taken from
+  closingDate: string | null;
+  opening: StatementLine;
+  additions: StatementLine;   // fresh NPAs
+  increases: StatementLine;   // increase in balance of existing NPAs
+  upgrades: StatementLine;
+  recoveries: StatementLine;
+  writeOffs: StatementLine;
+  closing: StatementLine;
+  difference: number;         // opening + additions − reductions − closing; 0 when the register is complete
+  pendingUpgrades: number;    // upgrades not verified or without cleared arrears
+}
+
+export function movementLabel(type: MovementType): string {
+  return MOVEMENT_TYPES.find((t) => t.value === type)?.label ?? type;
+}
+
+export function isNPAIrac(irac: string | null | undefined): boolean {
+  return parseInt(String(irac ?? "").trim(), 10) >= 4;
+}
+
+// ============================================================
+// Detection
+// ============================================================
+/** Whether a still-running account may be upgraded: all arrears cleared */
+export function upgradeEligibility(record: any | undefined): { eligible: boolean; note: string } {
+  if (!record) return { eligible: false, note: "Account not found in the loan / CC-OD balance files" };
+  const irregular = Number(record.IRREGAMT || 0);
+  if (irregular > 0) return { eligible: false, note: `Arrears of ₹${irregular.toLocaleString("en-IN")} still outstanding` };
+  const emis = Math.max(Number(record.EMISOvrdue || 0), Number(record.Shadow_EMI_Overdue || 0));
+  if (emis > 0) return { eligible: false, note: `${emis} EMI${emis > 1 ? "s" : ""} still overdue` };
+  if (record.Exposure_Type === "CC/OD") {
+    const drawn = Math.abs(Math.min(0, Number(record.CurrentBalance || 0)));
+    const dp = Number(record.DP ?? record.LIMIT ?? 0);
+    if (dp > 0 && drawn > dp) return { eligible: false, note: "Balance exceeds drawing power" };
+  }
+  return { eligible: true, note: "All arrears cleared" };
+}
+
+/**
+ * Movements between two NPA reports. `ledger` is the loan and CC/OD balance
+ * data keyed by normalised account number, used to tell upgrades, closures
+ * and write-offs apart.
+ */
+export function detectMovements(
+  from: NPAReportHistory,
+  to: NPAReportHistory,
+  ledger: Map<string, any>
+): NPAMovement[] {
+  const before = new Map(from.accounts.map((a) => [a.accountNo, a]));
+  const after = new Map(to.accounts.map((a) => [a.accountNo, a]));
+  const now = Date.now();
+  const movements: NPAMovement[] = [];
+
+  const push = (
+    acc: NPAHistoryAccount,
+    prev: NPAHistoryAccount | undefined,
+    curr: NPAHistoryAccount | undefined,
+    detected: MovementType,
+    amount: number,
+    extra: Partial<NPAMovement> = {}
+  ) => {
+    movements.push({
+      id: `${to.reportDate}:${acc.accountNo}:${detected}`,
+      accountNo: acc.accountNo,
+      customerName: acc.customerName,
+      fromDate: from.reportDate,
+      toDate: to.reportDate,
+      fromIrac: prev?.irac ?? null,
+      toIrac: curr?.irac ?? null,
+      openingAmount: prev?.outstanding ?? 0,
+      closingAmount: curr?.outstanding ?? 0,
+      amount,
+      detected,
+      type: detected,
+      verified: false,
+      notes: "",
+      updatedAt: now,
+      ...extra,
+    });
+  };
+
+  for (const curr of Array.from(after.values())) {
+    const prev = before.get(curr.accountNo);
+    if (!prev) {
+      push(curr, undefined, curr, "addition", curr.outstanding);
+      continue;
+    }
+    if (curr.outstanding > prev.outstanding) push(curr, prev, curr, "increase", curr.outstanding - prev.outstanding);
+    else if (curr.outstanding < prev.outstanding) push(curr, prev, curr, "recovery", prev.outstanding - curr.outstanding);
+    if (curr.irac !== prev.irac) {
+      const improved = parseInt(curr.irac, 10) < parseInt(prev.irac, 10);
+      push(curr, prev, curr, "reclassification", 0, improved
+        ? { eligibilityNote: `IRAC improved from ${prev.irac} to ${curr.irac} without upgradation — check` }
+        : {});
+    }
+  }
+
+  for (const prev of Array.from(before.values())) {
+    if (after.has(prev.accountNo)) continue;
+    const record = ledger.get(prev.accountNo);
+    if (record && String(record.WRITE_OFF_FLAG || "").trim().toUpperCase() === "F") {
+      push(prev, prev, undefined, "write-off", prev.outstanding);
+    } else if (record && (record.Exposure_Type === "CC/OD" || Math.abs(Number(record.OUTSTAND || 0)) > 0)) {
+      // Still running (a CC/OD limit stays open even when fully repaid)
+      const { eligible, note } = upgradeEligibility(record);
+      push(prev, prev, undefined, "upgrade", prev.outstanding, { upgradeEligible: eligible, eligibilityNote: note });
+    } else {
+      push(prev, prev, undefined, "recovery", prev.outstanding, { eligibilityNote: "Account closed" });
+    }
+  }
+  return movements;
+}
+
+// ============================================================
+// Storage
+// ============================================================
+export function buildHistory(reportDate: string, npaRecords: any[]): NPAReportHistory {
+  const accounts: NPAHistoryAccount[] = npaRecords
+    .filter((r) => isNPAIrac(r.NEW_IRAC))
+    .map((r) => ({
+      accountNo: normaliseAccountNo(r.ACCOUNT_NO),
+      customerName: r.CUSTOMER_NAME || "",
+      irac: String(parseInt(r.NEW_IRAC, 10)).padStart(2, "0"),
+      outstanding: Math.abs(Number(r.OUTSTANDING || 0)),
+    }));
+  return {
+    reportDate,
+    accounts,
+    npaCount: accounts.length,
+    npaOutstanding: accounts.reduce((s, a) => s + a.outstanding, 0),
+    recordedAt: Date.now(),
+  };
+}
+
+export async function getNPAHistory(): Promise<NPAReportHistory[]> {
+  const history: NPAReportHistory[] = await getAllRecords(STORES.NPA_HISTORY);
+  return history.sort((a, b) => a.reportDate.localeCompare(b.reportDate));
+}
+
+export async function getNPAMovements(): Promise<NPAMovement[]> {
+  const movements: NPAMovement[] = await getAllRecords(STORES.NPA_MOVEMENTS);
+  return movements.sort((a, b) => b.toDate.localeCompare(a.toDate) || a.accountNo.localeCompare(b.accountNo));
+}
+
+async function loadLedger(): Promise<Map<string, any>> {
+  const [loans, ccod] = await Promise.all([getAllRecords(STORES.LOAN_DATA), getAllRecords(STORES.CCOD_DATA)]);
+  return new Map([...loans, ...ccod].map((r) => [normaliseAccountNo(r.LoanKey), r]));
+}
+
+/** Replace the movements of one report, keeping what the branch confirmed or corrected */
+async function rebuildMovements(from: NPAReportHistory | undefined, to: NPAReportHistory, ledger: Map<string, any>): Promise<void> {
+  const existing: NPAMovement[] = await getRecordsByIndex(STORES.NPA_MOVEMENTS, "toDate", to.reportDate);
+  const previous = new Map(existing.map((m) => [m.id, m]));
+  const detected = from ? detectMovements(from, to, ledger) : [];
+  const merged = detected.map((m) => {
+    const old = previous.get(m.id);
+    return old ? { ...m, type: old.type, verified: old.verified, notes: old.notes, updatedAt: old.updatedAt } : m;
+  });
+  const keep = new Set(merged.map((m) => m.id));
+  for (const old of existing) {
+    if (!keep.has(old.id)) await deleteRecord(STORES.NPA_MOVEMENTS, old.id);
+  }
+  if (merged.length > 0) await putRecords(STORES.NPA_MOVEMENTS, merged);
+}
+
+/**
+ * Keep an uploaded NPA report and register its movements against the report
+ * before it. A report uploaded out of date order also re-registers the next
+ * report's movements against it. The first report is the baseline.
+ */
+export async function recordNPAReport(reportDate: string, npaRecords: any[]): Promise<void> {
+  const entry = buildHistory(reportDate, npaRecords);
+  await putRecord(STORES.NPA_HISTORY, entry);
+
+  const history = await getNPAHistory();
+  const index = history.findIndex((h) => h.reportDate === reportDate);
+  const ledger = await loadLedger();
+  await rebuildMovements(history[index - 1], entry, ledger);
+  if (history[index + 1]) await rebuildMovements(entry, history[index + 1], ledger);
+}
+
+/**
+ * Types a movement may be corrected to: an account leaving the NPA list is an
+ * upgradation, recovery or write-off; a part reduction of a continuing NPA a
+ * recovery or (part) write-off. Other movements keep their type.
+ */
+export function allowedTypes(movement: NPAMovement): MovementType[] {
+  if (!EXIT_TYPES.includes(movement.detected)) return [movement.detected];
+  return movement.toIrac === null ? EXIT_TYPES : ["recovery", "write-off"];
+}
+
+/** Confirm a movement or correct its type and notes */
+export async function updateMovement(movement: NPAMovement, changes: Partial<Pick<NPAMovement, "type" | "verified" | "notes">>): Promise<NPAMovement> {
+  if (changes.type && !allowedTypes(movement).includes(changes.type)) {
+    throw new Error(`A ${movementLabel(movement.detected).toLowerCase()} cannot be recorded as ${movementLabel(changes.type).toLowerCase()}`);
+  }
+  const updated = { ...movement, ...changes, updatedAt: Date.now() };
+  await putRecord(STORES.NPA_MOVEMENTS, updated);
+  return updated;
+}
+
+// ============================================================
+// Statement
+// ============================================================
+/**
+ * NPA movement statement for a period (e.g. a quarter). The opening balance is
+ * the last report before the period, or the first report in it when there is
+ * none; the closing balance the last report in the period.
+ */
+export function movementStatement(
+  history: NPAReportHistory[],
+  movements: NPAMovement[],
+  from: string,
+  to: string
+): NPAMovementStatement {
+  const sorted = [...history].sort((a, b) => a.reportDate.localeCompare(b.reportDate));
+  const opening = [...sorted].reverse().find((h) => h.reportDate < from) ?? sorted.find((h) => h.reportDate >= from && h.reportDate <= to);
+  const closing = [...sorted].reverse().find((h) => h.reportDate <= to && (!opening || h.reportDate >= opening.reportDate));
+
+  const inPeriod = opening && closing
+    ? movements.filter((m) => m.toDate > opening.reportDate && m.toDate <= closing.reportDate)
+    : [];
+  const line = (type: MovementType): StatementLine => {
+    const of = inPeriod.filter((m) => m.type === type);
+    return { count: new Set(of.map((m) => m.accountNo)).size, amount: of.reduce((s, m) => s + m.amount, 0) };
+  };
+
+  const openingLine = { count: opening?.npaCount ?? 0, amount: opening?.npaOutstanding ?? 0 };
+  const closingLine = { count: closing?.npaCount ?? 0, amount: closing?.npaOutstanding ?? 0 };
+  const additions = line("addition");
+  const increases = line("increase");
+  const upgrades = line("upgrade");
+  const recoveries = line("recovery");
+  const writeOffs = line("write-off");
+
+  return {
+    openingDate: opening?.reportDate ?? null,
+    closingDate: closing?.reportDate ?? null,
+    opening: openingLine,
+    additions,
+    increases,
+    upgrades,
+    recoveries,
+    writeOffs,
+    closing: closingLine,
+    difference: Math.round(
+      openingLine.amount + additions.amount + increases.amount - upgrades.amount - recoveries.amount - writeOffs.amount - closingLine.amount
+    ),
+    pendingUpgrades: inPeriod.filter((m) => m.type === "upgrade" && (!m.verified || m.upgradeEligible === false)).length,
+  };
+}
@@ -0,0 +1,325 @@
+/**
+ * NPA Slippage Projection
+ *
+ * Days past due of stressed loan and CC/OD accounts as NPA Tracking measures
+ * them (oldest unpaid EMI for term loans, out-of-order date for CC/OD, hard
+ * NPA lock for IRAC ≥ 03), the 7 / 15 / 30-day slippage windows, and the P&L
+ * impact of accounts projected to slip to NPA within them:
+ *
+ *   - Interest reversal: interest charged but not realised is reversed on the
+ *     NPA date. Estimated as interest on the outstanding for the 90 days the
+ *     account has been overdue, limited to the part falling in the financial
+ *     year of the NPA date (earlier years' interest is covered by provision).
+ *   - Provision hit: substandard provision (lib/provisioning.ts) less the
+ *     standard asset provision already held on the account. Accounts on an
+ *     unsecured product, or with realisable security up to 10% of outstanding,
+ *     attract the 25% unsecured rate.
+ */
+
+import { classifyAsOf, toISODate } from "./portfolioTransform";
+import { ProvisionInputs, defaultSector, outstandingOf, requiredProvision } from "./provisioning";
+import { normaliseAccountNo } from "./recoveryDiary";
+
+export type RiskCategory = "NPA" | "7_DAYS" | "15_DAYS" | "30_DAYS" | "SAFE";
+
+export const SLIP_WINDOWS: { category: RiskCategory; days: number; label: string }[] = [
+  { category: "7_DAYS", days: 7, label: "Within 7 days" },
+  { category: "15_DAYS", days: 15, label: "8–15 days" },
+  { category: "30_DAYS", days: 30, label: "16–30 days" },
+];
+
+// NPA Tracking treats 90 days past due as NPA
+const NPA_DPD = 90;
+
+// ============================================================
+// Days past due
+// ============================================================
+/**
+ * Parse a date string in DD/MM/YYYY or YYYY-MM-DD format.
+ * Returns null for invalid or sentinel dates.
+ */
+export function parseDate(dateStr: string | null | undefined): Date | null {
+  if (!dateStr || dateStr === "00/00/0000" || dateStr === "99/99/9999") return null;
+  // DD/MM/YYYY
+  const ddmm = dateStr.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (ddmm) {
+    const d = new Date(parseInt(ddmm[3]), parseInt(ddmm[2]) - 1, parseInt(ddmm[1]));
+    return isNaN(d.getTime()) ? null : d;
+  }
+  // YYYY-MM-DD (ISO)
+  const iso = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    const d = new Date(parseInt(iso[1]), parseInt(iso[2]) - 1, parseInt(iso[3]));
+    return isNaN(d.getTime()) ? null : d;
+  }
+  return null;
+}
+
+export function daysBetween(from: Date, to: Date): number {
+  return Math.max(0, Math.floor((to.getTime() - from.getTime()) / 86_400_000));
+}
+
+/**
+ * Move a DPD measured on the file date to the as-on date, assuming the account
+ * is not regularised in between (EMI counts in the file are as of its date).
+ */
+export function shiftDPD(dpd: number, fileDay: Date, asOnDay: Date, irac: string): number {
+  if (dpd <= 0) return 0;
+  const shifted = Math.max(0, dpd + Math.round((asOnDay.getTime() - fileDay.getTime()) / 86_400_000));
+  return parseInt(irac || "0", 10) >= 3 ? Math.max(shifted, 90) : shifted;
+}
+
+export function facilityDPD(
+  facType: "LOAN" | "CCOD",
+  emiOverdue: number,
+  irregDate: string | null,
+  sancDate: string | null,
+  irac: string,
+  smaClass: string,
+  balance: number,
+  limit: number,
+  today: Date
+): { dpd: number; reason: string } {
+  let dpd = 0;
+  let reason = "Standard";
+
+  const parsedIrregDate = parseDate(irregDate);
+  const parsedSancDate = parseDate(sancDate);
+
+  // ── Term Loan DPD ────────────────────────────────────────────────────────
+  if (facType === "LOAN" && emiOverdue > 0) {
+    if (parsedSancDate) {
+      // EMI due day = anniversary of sanction date each month
+      const dueDay = parsedSancDate.getDate();
+
+      // Find the most recent EMI due date on or before today
+      let lastDueYear = today.getFullYear();
+      let lastDueMonth = today.getMonth(); // 0-indexed
+
+      // If today is before the due day this month, last due date was last month
+      if (today.getDate() < dueDay) {
+        lastDueMonth -= 1;
+      }
+
+      // Oldest unpaid EMI = go back (emiOverdue - 1) more months
+      // Note: JS Date handles negative months correctly (year wraps automatically)
+      const oldestDueMonth = lastDueMonth - (emiOverdue - 1);
+
+      // Handle short months (e.g. sanctioned on 31st, Feb has 28 days)
+      const tempDate = new Date(lastDueYear, oldestDueMonth + 1, 0); // last day of target month
+      const actualDueDay = Math.min(dueDay, tempDate.getDate());
+
+      // new Date with negative months auto-adjusts year correctly in JS
+      const oldestDueDate = new Date(lastDueYear, oldestDueMonth, actualDueDay);
+
+      dpd = daysBetween(oldestDueDate, today);
+      reason = `${emiOverdue} EMI${emiOverdue > 1 ? "s" : ""} Overdue (Since ${oldestDueDate.toLocaleDateString("en-GB")})`;
+    } else if (parsedIrregDate) {
+      // Fallback: use irregularity date if sanction date unavailable
+      dpd = daysBetween(parsedIrregDate, today);
+      reason = `${emiOverdue} EMI${emiOverdue > 1 ? "s" : ""} Overdue (Irreg. since ${parsedIrregDate.toLocaleDateString("en-GB")})`;
+    } else {
+      // Last resort: approximate 30 days per overdue EMI
+      dpd = emiOverdue * 30;
+      reason = `${emiOverdue} EMI${emiOverdue > 1 ? "s" : ""} Overdue (Approx.)`;
+    }
+  }
+
+  // ── CC/OD DPD ────────────────────────────────────────────────────────────
+  else if (facType === "CCOD") {
+    if (parsedIrregDate) {
+      dpd = daysBetween(parsedIrregDate, today);
+      reason = `Out of Order (Since ${parsedIrregDate.toLocaleDateString("en-GB")})`;
+    } else if (balance > limit && limit > 0) {
+      // No date available — use SMA class as anchor
+      dpd = 15; // conservative starting point
+      reason = "Balance exceeds DP/Limit";
+      if (smaClass === "SMA-1") { dpd = 45; reason = "Balance exceeds DP/Limit (SMA-1)"; }
+      if (smaClass === "SMA-2") { dpd = 75; reason = "Balance exceeds DP/Limit (SMA-2)"; }
+    }
+  }
+
+  // ── SMA class fallback (no explicit dates, no EMI count) ─────────────────
+  if (dpd === 0 && smaClass.includes("SMA")) {
+    if (smaClass === "SMA-2") { dpd = 75; reason = `Classified as ${smaClass}`; }
+    else if (smaClass === "SMA-1") { dpd = 45; reason = `Classified as ${smaClass}`; }
+    else if (smaClass === "SMA-0") { dpd = 15; reason = `Classified as ${smaClass}`; }
+  }
+
+  // ── Hard NPA lock (RBI IRAC ≥ 03 = Substandard / Doubtful / Loss) ────────
+  const iracNum = parseInt(irac || "0", 10);
+  if (iracNum >= 3 || smaClass === "NPA") {
+    dpd = Math.max(dpd, 90);
+    if (reason === "Standard") reason = `IRAC ${irac} — Hard NPA Lock`;
+  }
+
+  return { dpd, reason };
+}
+
+/**
+ * Days past due of a loan or CC/OD record as on asOfISO: the DPD on the file
+ * date moved to the as-on date, or the IRRGDT-based DPD when that is higher.
+ */
+export function trackedDPD(
+  record: any,
+  facType: "LOAN" | "CCOD",
+  fileDay: Date,
+  asOnDay: Date,
+  asOfISO: string
+): { dpd: number; reason: string } {
+  const irac = record.NEWIRAC ?? "";
+  const fileDPD = facType === "LOAN"
+    ? facilityDPD(
+        "LOAN",
+        Math.max(record.EMISOvrdue ?? 0, record.Shadow_EMI_Overdue ?? 0),
+        record.IRRGDT ?? null,
+        record.SANCTDT ?? null,
+        irac,
+        record.Computed_SMA_Class ?? record.SMA_CLASS ?? "STD",
+        record.OUTSTAND ?? 0,
+        record.LIMIT ?? 0,
+        fileDay
+      )
+    : facilityDPD(
+        "CCOD",
+        0, // CC/OD has no EMI concept
+        record.IRRGDT ?? null,
+        null, // no sanction date for CC/OD
+        irac,
+        record.Computed_SMA_Class ?? record.SMA_CLASS ?? "STD",
+        record.CurrentBalance ?? 0,
+        record.DP ?? record.LIMIT ?? 0, // use Drawing Power for out-of-order check
+        fileDay
+      );
+  const dpd = shiftDPD(fileDPD.dpd, fileDay, asOnDay, irac);
+  const asOfDPD = classifyAsOf(record, asOfISO).dpd;
+  // Use the IRRGDT-based DPD if available and more accurate
+  return { dpd: asOfDPD > 0 ? Math.max(dpd, asOfDPD) : dpd, reason: fileDPD.reason };
+}
+
+export function daysToNPAOf(dpd: number): number {
+  return Math.max(0, NPA_DPD - dpd);
+}
+
+export function riskCategoryOf(daysToNPA: number): RiskCategory {
+  if (daysToNPA === 0) return "NPA";
+  if (daysToNPA <= 7) return "7_DAYS";
+  if (daysToNPA <= 15) return "15_DAYS";
+  if (daysToNPA <= 30) return "30_DAYS";
+  return "SAFE";
+}
+
+// ============================================================
+// P&L impact
+// ============================================================
+export interface SlippageImpact {
+  accountNo: string;
+  customerName: string;
+  facType: "LOAN" | "CCOD";
+  category: RiskCategory;     // 7_DAYS / 15_DAYS / 30_DAYS
+  dpd: number;
+  daysToNPA: number;
+  slipDate: string;           // YYYY-MM-DD, first day as NPA if not regularised
+  outstanding: number;
+  interestRate: number;       // % p.a.
+  interestReversal: number;
+  provisionHit: number;
+}
+
+export interface SlippageWindowSummary {
+  category: RiskCategory;
+  label: string;
+  accounts: number;
+  outstanding: number;
+  interestReversal: number;
+  provisionHit: number;
+  pnlAtRisk: number;
+}
+
+/** 1 April of the financial year a date falls in */
+function financialYearStart(date: Date): Date {
+  return new Date(date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1, 3, 1);
+}
+
+/** Unrealised interest reversed when the account slips on slipDay */
+export function estimateInterestReversal(outstanding: number, ratePct: number, slipDay: Date): number {
+  if (outstanding <= 0 || ratePct <= 0) return 0;
+  const days = Math.min(NPA_DPD, daysBetween(financialYearStart(slipDay), slipDay));
+  return Math.round(outstanding * (ratePct / 100) * (days / 365));
+}
+
+/** Substandard provision on slipping, less the standard provision already held */
+export function estimateProvisionHit(record: any, outstanding: number, inputs: ProvisionInputs): number {
+  const input = inputs.accounts[normaliseAccountNo(record.LoanKey || record.ACCOUNT_NO)] ?? {};
+  const unsecuredProduct = String(record.Loan_Secured || "").trim().toUpperCase() === "NO";
+  // Without a valuation, secured products are taken as fully covered
+  const realisable = input.realisableValue ?? input.securityValue ?? (unsecuredProduct ? 0 : outstanding);
+  const substandard = requiredProvision("Substandard", outstanding, realisable).required;
+  const standard = requiredProvision("Standard", outstanding, realisable, input.sector ?? defaultSector(record)).required;
+  return Math.max(0, substandard - standard);
+}
+
+/**
+ * Accounts projected to slip to NPA within 30 days of asOfISO, assuming they
+ * are not regularised, with their interest reversal and provision hit.
+ * NPA-exempt accounts (staff loans, OD against deposits) never slip.
+ */
+export function projectSlippage(
+  loans: any[],
+  ccod: any[],
+  fileAsOfISO: string,
+  asOfISO: string,
+  inputs: ProvisionInputs
+): SlippageImpact[] {
+  const asOnDay = parseDate(asOfISO) ?? new Date();
+  const fileDay = parseDate(fileAsOfISO) ?? asOnDay;
+  const impacts: SlippageImpact[] = [];
+
+  const project = (record: any, facType: "LOAN" | "CCOD") => {
+    if (record.Computed_NPA_Exempt === true) return;
+    const { dpd } = trackedDPD(record, facType, fileDay, asOnDay, asOfISO);
+    if (dpd <= 0) return;
+    const daysToNPA = daysToNPAOf(dpd);
+    const category = riskCategoryOf(daysToNPA);
+    if (category === "NPA" || category === "SAFE") return;
+    const outstanding = outstandingOf(record);
+    if (outstanding <= 0) return;
+
+    const slipDay = new Date(asOnDay.getFullYear(), asOnDay.getMonth(), asOnDay.getDate() + daysToNPA);
+    const interestRate = Number(record.INTRATE || 0);
+    impacts.push({
+      accountNo: record.LoanKey || record.ACCOUNT_NO || "",
+      customerName: record.CUSTNAME || "",
+      facType,
+      category,
+      dpd,
+      daysToNPA,
+      slipDate: toISODate(slipDay),
+      outstanding,
+      interestRate,
+      interestReversal: estimateInterestReversal(outstanding, interestRate, slipDay),
+      provisionHit: estimateProvisionHit(record, outstanding, inputs),
+    });
+  };
+
+  loans.forEach((r) => project(r, "LOAN"));
+  ccod.forEach((r) => project(r, "CCOD"));
+  return impacts.sort((a, b) => a.daysToNPA - b.daysToNPA || b.outstanding - a.outstanding);
+}
+
+export function summariseSlippage(impacts: SlippageImpact[]): SlippageWindowSummary[] {
+  return SLIP_WINDOWS.map(({ category, label }) => {
+    const inWindow = impacts.filter((i) => i.category === category);
+    const interestReversal = inWindow.reduce((s, i) => s + i.interestReversal, 0);
+    const provisionHit = inWindow.reduce((s, i) => s + i.provisionHit, 0);
+    return {
+      category,
+      label,
+      accounts: inWindow.length,
+      outstanding: inWindow.reduce((s, i) => s + i.outstanding, 0),
+      interestReversal,
+      provisionHit,
+      pnlAtRisk: interestReversal + provisionHit,
+    };
+  });
+}
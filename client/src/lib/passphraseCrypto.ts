@@ -0,0 +1,110 @@
+/**
+ * Passphrase-based encryption (WebCrypto)
+ * AES-GCM 256 with a key derived from the passphrase by PBKDF2-SHA256.
+ * Used for encrypted backup files and the vault key, and — through
+ * derivePassphraseBits — for the password hashes of user accounts (auth.ts).
+ * A wrong passphrase or any change to the ciphertext (or its associated data)
+ * makes decryption fail.
+ */
+
+export const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export class DecryptionError extends Error {
+  constructor(message = "Wrong passphrase or damaged file") {
+    super(message);
+    this.name = "DecryptionError";
+  }
+}
+
+// ============================================================
+// Encoding
+// ============================================================
+export function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const arr = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  // Chunked: String.fromCharCode(...arr) overflows the stack on large backups
+  let binary = "";
+  for (let i = 0; i < arr.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(arr.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(b64: string): Uint8Array {
+  const binary = atob(b64);
+  const arr = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) arr[i] = binary.charCodeAt(i);
+  return arr;
+}
+
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+export function newSalt(): Uint8Array {
+  return randomBytes(SALT_BYTES);
+}
+
+// ============================================================
+// Keys
+// ============================================================
+function pbkdf2Params(salt: Uint8Array, iterations: number): Pbkdf2Params {
+  return { name: "PBKDF2", hash: "SHA-256", salt: salt as BufferSource, iterations };
+}
+
+function importPassphrase(passphrase: string, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [usage]);
+}
+
+export async function deriveAesKey(passphrase: string, salt: Uint8Array, iterations: number = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    pbkdf2Params(salt, iterations),
+    await importPassphrase(passphrase, "deriveKey"),
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/** 256 bits derived from the passphrase, for storing as a password hash */
+export async function derivePassphraseBits(passphrase: string, salt: Uint8Array, iterations: number = PBKDF2_ITERATIONS): Promise<Uint8Array> {
+  const bits = await crypto.subtle.deriveBits(pbkdf2Params(salt, iterations), await importPassphrase(passphrase, "deriveBits"), 256);
+  return new Uint8Array(bits);
+}
+
+// ============================================================
+// Encrypt / decrypt
+// ============================================================
+export async function encryptBytes(
+  key: CryptoKey,
+  plaintext: Uint8Array,
+  additionalData?: Uint8Array
+): Promise<{ iv: Uint8Array; ciphertext: Uint8Array }> {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: iv as BufferSource, ...(additionalData ? { additionalData: additionalData as BufferSource } : {}) },
+    key,
+    plaintext as BufferSource
+  );
+  return { iv, ciphertext: new Uint8Array(ciphertext) };
+}
+
+export async function decryptBytes(
+  key: CryptoKey,
+  iv: Uint8Array,
+  ciphertext: Uint8Array,
+  additionalData?: Uint8Array
+): Promise<Uint8Array> {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: iv as BufferSource, ...(additionalData ? { additionalData: additionalData as BufferSource } : {}) },
+      key,
+      ciphertext as BufferSource
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    // AES-GCM does not distinguish a wrong key from tampering
+    throw new DecryptionError();
+  }
+}
@@ -1,10 +1,19 @@
 /**
  * Portfolio Database - IndexedDB utility for Branch Portfolio Dashboard
  * Handles storage and retrieval of all portfolio data
+ * Records of PII stores (customer dimension) are encrypted by the vault (see vault.ts)
+ * Writes to stores with an inline key are queued for the LAN sync server (see syncEngine.ts)
  */
 
+import { AUDIT_DETAIL_LIMIT, recordAudit, recordBulkWrite } from "./auditLog";
+import { openMigratedDB } from "./migrations";
+import { queueSyncChanges } from "./syncQueue";
+import { PROTECTED_STORES, isSealed, isVaultUnlocked, openRecord, sealRecords } from "./vault";
+
+const AUDIT_APP = "Branch Portfolio";
+
+// Stores, indexes and version are declared in migrations.ts
 const PORTFOLIO_DB_NAME = "BranchPortfolioDB";
-const PORTFOLIO_DB_VERSION = 2;
 
 // Store names
 export const STORES = {
@@ -19,6 +28,11 @@ export const STORES = {
   CUSTOMER_DIM: "customer-dim",
   UPLOAD_LOG: "upload-log",
   SETTINGS: "portfolio-settings",
+  SNAPSHOTS: "portfolio-snapshots",
+  RECOVERY_ACTIONS: "recovery-actions",
+  LEGAL_CASES: "legal-cases",
+  NPA_HISTORY: "npa-report-history",
+  NPA_MOVEMENTS: "npa-movements",
 } as const;
 
 let dbInstance: IDBDatabase | null = null;
@@ -26,111 +40,52 @@ let dbInstance: IDBDatabase | null = null;
 function openDB(): Promise<IDBDatabase> {
   if (dbInstance) return Promise.resolve(dbInstance);
 
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(PORTFOLIO_DB_NAME, PORTFOLIO_DB_VERSION);
-
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => {
-      dbInstance = request.result;
-      resolve(dbInstance);
-    };
-
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-
-      // Product Category Mapping (Deposits)
-      if (!db.objectStoreNames.contains(STORES.PRODUCT_MAPPING)) {
-        db.createObjectStore(STORES.PRODUCT_MAPPING, { keyPath: "ProductCode" });
-      }
-
-      // Loan Product Mapping
-      if (!db.objectStoreNames.contains(STORES.LOAN_PRODUCT_MAPPING)) {
-        db.createObjectStore(STORES.LOAN_PRODUCT_MAPPING, { keyPath: "ProductCode" });
-      }
-
-      // Deposit Data (processed from shadow)
-      if (!db.objectStoreNames.contains(STORES.DEPOSIT_DATA)) {
-        const depStore = db.createObjectStore(STORES.DEPOSIT_DATA, { keyPath: "AcNo" });
-        depStore.createIndex("CIF", "CIF", { unique: false });
-        depStore.createIndex("Category", "Category", { unique: false });
-        depStore.createIndex("Dormancy_Flag", "Dormancy_Flag", { unique: false });
-      }
-
-      // Loan Data (processed from balance + shadow merge)
-      if (!db.objectStoreNames.contains(STORES.LOAN_DATA)) {
-        const loanStore = db.createObjectStore(STORES.LOAN_DATA, { keyPath: "LoanKey" });
-        loanStore.createIndex("CIF", "CIF", { unique: false });
-        loanStore.createIndex("SMA_CLASS", "SMA_CLASS", { unique: false });
-        loanStore.createIndex("Exposure_Type", "Exposure_Type", { unique: false });
-      }
-
-      // CC/OD Data
-      if (!db.objectStoreNames.contains(STORES.CCOD_DATA)) {
-        const ccodStore = db.createObjectStore(STORES.CCOD_DATA, { keyPath: "LoanKey" });
-        ccodStore.createIndex("CIF", "CIF", { unique: false });
-        ccodStore.createIndex("SMA_CLASS", "SMA_CLASS", { unique: false });
-      }
-
-      // NPA Data
-      if (!db.objectStoreNames.contains(STORES.NPA_DATA)) {
-        const npaStore = db.createObjectStore(STORES.NPA_DATA, { keyPath: "ACCOUNT_NO" });
-        npaStore.createIndex("NEW_IRAC", "NEW_IRAC", { unique: false });
-        npaStore.createIndex("SYS", "SYS", { unique: false });
-      }
-
-      // Loan Shadow (raw month-end data)
-      if (!db.objectStoreNames.contains(STORES.LOAN_SHADOW)) {
-        const lsStore = db.createObjectStore(STORES.LOAN_SHADOW, { keyPath: "AcNo" });
-        lsStore.createIndex("CIFNo", "CIFNo", { unique: false });
-      }
-
-      // Deposit Shadow (raw month-end data)
-      if (!db.objectStoreNames.contains(STORES.DEPOSIT_SHADOW)) {
-        const dsStore = db.createObjectStore(STORES.DEPOSIT_SHADOW, { keyPath: "AcNo" });
-        dsStore.createIndex("CIFNo", "CIFNo", { unique: false });
-      }
-
-      // Customer Dimension
-      if (!db.objectStoreNames.contains(STORES.CUSTOMER_DIM)) {
-        const custStore = db.createObjectStore(STORES.CUSTOMER_DIM, { keyPath: "CIF" });
-        custStore.createIndex("HNI_Category", "HNI_Category", { unique: false });
-        custStore.createIndex("CustomerSegment", "CustomerSegment", { unique: false });
-      }
-
-      // Upload Log
-      if (!db.objectStoreNames.contains(STORES.UPLOAD_LOG)) {
-        db.createObjectStore(STORES.UPLOAD_LOG, { keyPath: "id", autoIncrement: true });
-      }
-
-      // Settings
-      if (!db.objectStoreNames.contains(STORES.SETTINGS)) {
-        db.createObjectStore(STORES.SETTINGS, { keyPath: "key" });
-      }
-    };
+  return openMigratedDB(PORTFOLIO_DB_NAME, () => {
+    dbInstance = null;
+  }).then((db) => {
+    dbInstance = db;
+    return db;
   });
 }
 
 // Generic CRUD operations
 export async function putRecord(storeName: string, record: any): Promise<void> {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(storeName, "readwrite");
-    const store = tx.objectStore(storeName);
-    store.put(record);
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
-  });
+  return putRecords(storeName, [record]);
 }
 
+/**
+ * Writes records and audits them. Stores without an inline key (upload log) and
+ * large batches (CBS file loads) are audited as a record count; smaller writes
+ * read the existing records in the same transaction to log a field diff.
+ */
 export async function putRecords(storeName: string, records: any[]): Promise<void> {
   const db = await openDB();
+  // PII stores: sealed up front (throws while the vault is locked) and audited as a count only
+  const isProtected = storeName in PROTECTED_STORES;
+  const stored = isProtected ? await sealRecords(storeName, records) : records;
+
   return new Promise((resolve, reject) => {
     const tx = db.transaction(storeName, "readwrite");
     const store = tx.objectStore(storeName);
-    for (const record of records) {
-      store.put(record);
+    const keyPath = typeof store.keyPath === "string" && !store.autoIncrement ? store.keyPath : null;
+    const befores = keyPath && !isProtected && records.length <= AUDIT_DETAIL_LIMIT ? new Map<string, any>() : null;
+
+    for (const record of stored) {
+      if (befores && keyPath) {
+        const previous = store.get(record[keyPath]);
+        previous.onsuccess = () => {
+          if (previous.result) befores.set(String(record[keyPath]), previous.result);
+          store.put(record);
+        };
+      } else {
+        store.put(record);
+      }
     }
-    tx.oncomplete = () => resolve();
+    tx.oncomplete = () => {
+      if (keyPath) queueSyncChanges(PORTFOLIO_DB_NAME, storeName, stored.map((r) => r[keyPath]), false);
+      recordBulkWrite(storeName, AUDIT_APP, keyPath ?? "id", befores, records);
+      resolve();
+    };
     tx.onerror = () => reject(tx.error);
   });
 }
@@ -141,18 +96,22 @@ export async function getRecord(storeName: string, key: string | number): Promis
     const tx = db.transaction(storeName, "readonly");
     const store = tx.objectStore(storeName);
     const request = store.get(key);
-    request.onsuccess = () => resolve(request.result ?? null);
+    request.onsuccess = () => resolve(request.result ? openRecord(storeName, request.result) : null);
     request.onerror = () => reject(request.error);
   });
 }
 
+function openRecords(storeName: string, records: any[]): Promise<any[]> | any[] {
+  return storeName in PROTECTED_STORES ? Promise.all(records.map((r) => openRecord(storeName, r))) : records;
+}
+
 export async function getAllRecords(storeName: string): Promise<any[]> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(storeName, "readonly");
     const store = tx.objectStore(storeName);
     const request = store.getAll();
-    request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => resolve(openRecords(storeName, request.result));
     request.onerror = () => reject(request.error);
   });
 }
@@ -164,7 +123,7 @@ export async function getRecordsByIndex(storeName: string, indexName: string, va
     const store = tx.objectStore(storeName);
     const index = store.index(indexName);
     const request = index.getAll(value);
-    request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => resolve(openRecords(storeName, request.result));
     request.onerror = () => reject(request.error);
   });
 }
@@ -180,13 +139,47 @@ export async function getRecordCount(storeName: string): Promise<number> {
   });
 }
 
+export async function deleteRecord(storeName: string, key: string | number): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, "readwrite");
+    const store = tx.objectStore(storeName);
+    let before: any = null;
+    const previous = store.get(key);
+    previous.onsuccess = () => {
+      before = previous.result ?? null;
+      store.delete(key);
+    };
+    tx.oncomplete = () => {
+      queueSyncChanges(PORTFOLIO_DB_NAME, storeName, [key], true);
+      if (before) {
+        recordAudit({
+          app: AUDIT_APP,
+          source: storeName,
+          recordKey: String(key),
+          action: "delete",
+          // PII stores: never copy the (sealed) record into the audit trail
+          changes: storeName in PROTECTED_STORES ? undefined : [{ path: "(value)", before }],
+        });
+      }
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
 export async function clearStore(storeName: string): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(storeName, "readwrite");
     const store = tx.objectStore(storeName);
+    const keysRequest = store.getAllKeys();
     store.clear();
-    tx.oncomplete = () => resolve();
+    tx.oncomplete = () => {
+      queueSyncChanges(PORTFOLIO_DB_NAME, storeName, keysRequest.result, true);
+      recordAudit({ app: AUDIT_APP, source: storeName, recordKey: "*", action: "clear" });
+      resolve();
+    };
     tx.onerror = () => reject(tx.error);
   });
 }
@@ -198,11 +191,84 @@ export async function deleteDatabase(): Promise<void> {
   }
   return new Promise((resolve, reject) => {
     const request = indexedDB.deleteDatabase(PORTFOLIO_DB_NAME);
-    request.onsuccess = () => resolve();
+    request.onsuccess = () => {
+      recordAudit({ app: AUDIT_APP, source: PORTFOLIO_DB_NAME, recordKey: "*", action: "clear", summary: "Portfolio database deleted" });
+      resolve();
+    };
     request.onerror = () => reject(request.error);
   });
 }
 
+/**
+ * Encrypt PII store records written before the vault existed. Called after
+ * the vault is unlocked; a no-op once everything is sealed.
+ */
+export async function sealLegacyRecords(): Promise<void> {
+  if (!isVaultUnlocked()) return;
+  const db = await openDB();
+  for (const storeName of Object.keys(PROTECTED_STORES)) {
+    const raw: any[] = await new Promise((resolve, reject) => {
+      const request = db.transaction(storeName, "readonly").objectStore(storeName).getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    const clear = raw.filter((r) => !isSealed(r));
+    if (clear.length > 0) await putRecords(storeName, clear);
+  }
+}
+
+// ============================================================
+// LAN sync (see syncEngine.ts)
+// ============================================================
+// Sync keys are strings; numeric account numbers are stored as numbers in some stores
+function keyCandidates(key: string): IDBValidKey[] {
+  return /^\d+$/.test(key) ? [key, Number(key)] : [key];
+}
+
+export async function getRawKeys(storeName: string): Promise<string[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, "readonly").objectStore(storeName).getAllKeys();
+    request.onsuccess = () => resolve((request.result as IDBValidKey[]).map(String));
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Records exactly as stored (PII records stay sealed) */
+export async function getRawRecords(storeName: string, keys: string[]): Promise<Map<string, any>> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, "readonly");
+    const store = tx.objectStore(storeName);
+    const records = new Map<string, any>();
+    for (const key of keys) {
+      for (const candidate of keyCandidates(key)) {
+        const request = store.get(candidate);
+        request.onsuccess = () => {
+          if (request.result && !records.has(key)) records.set(key, request.result);
+        };
+      }
+    }
+    tx.oncomplete = () => resolve(records);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/** Write records received from the sync server (null deletes); not queued or audited per record */
+export async function applyRawRecords(storeName: string, records: { key: string; record: any }[]): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, "readwrite");
+    const store = tx.objectStore(storeName);
+    for (const { key, record } of records) {
+      if (record) store.put(record);
+      else keyCandidates(key).forEach((candidate) => store.delete(candidate));
+    }
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
 // Settings helpers
 export async function getSetting(key: string): Promise<any> {
   const record = await getRecord(STORES.SETTINGS, key);
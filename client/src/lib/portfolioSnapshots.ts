@@ -0,0 +1,235 @@
+/**
+ * Portfolio Snapshots
+ * Keeps a dated summary of each processed file so that period-over-period
+ * comparisons (vs last month / vs March) survive the next upload.
+ *
+ * Each processor writes only its own section (deposits, loans, ccod, npa) into
+ * the snapshot for its file date. A comparison view for a date picks up every
+ * section from the latest snapshot on or before that date.
+ */
+
+import { STORES, getRecord, putRecord, getAllRecords } from "./portfolioDb";
+
+// ============================================================
+// Types
+// ============================================================
+export type SMABucketTotals = Record<string, { count: number; amount: number }>;
+
+export interface DepositSnapshotSection {
+  totalBalance: number;
+  accountCount: number;
+  casaBalance: number;
+  termBalance: number;
+}
+
+export interface LoanSnapshotSection {
+  outstanding: number;
+  accountCount: number;
+  npaAmount: number;
+  npaCount: number;
+  sma: SMABucketTotals;
+}
+
+export interface CCODSnapshotSection {
+  debitBalance: number;
+  creditBalance: number;
+  accountCount: number;
+  npaAmount: number;
+  npaCount: number;
+  sma: SMABucketTotals;
+}
+
+export interface NPASnapshotSection {
+  accountCount: number;
+  outstanding: number;
+}
+
+export interface PortfolioSnapshot {
+  snapshotDate: string; // ISO date (YYYY-MM-DD) — file date from the CBS filename
+  deposits?: DepositSnapshotSection;
+  loans?: LoanSnapshotSection;
+  ccod?: CCODSnapshotSection;
+  npa?: NPASnapshotSection;
+  updatedAt: number;
+}
+
+type SnapshotSectionKey = "deposits" | "loans" | "ccod" | "npa";
+
+export interface SnapshotView {
+  snapshotDate: string;
+  // Which snapshot date each section was taken from (may be earlier than snapshotDate)
+  sectionDates: Partial<Record<SnapshotSectionKey, string>>;
+  totalDeposits: number;
+  casaBalance: number;
+  casaRatio: number;
+  totalAdvances: number;
+  npaAmount: number;
+  npaAccounts: number;
+  grossNPARatio: number;
+  smaAmount: number;
+  smaAccounts: number;
+  sma: SMABucketTotals;
+}
+
+// ============================================================
+// Section summaries (same rules as Branch Overview)
+// ============================================================
+export const SMA_BUCKETS = ["SMA-0", "SMA-1", "SMA-2"] as const;
+
+const CASA_CATEGORIES = ["Regular Savings", "Wealth Account", "Current", "Salary", "Savings Plus", "NRI Savings", "NRI Current", "Government Accounts"];
+const TERM_CATEGORIES = ["Term Deposit", "Recurring Deposit", "Term Deposit (NRO)", "Term Deposit (NRE)", "Term Deposit (RFC/FCNB)", "Recurring Deposit (NRE)", "Recurring Deposit (NRO)", "MOD", "PPF", "Sukanya Samriddhi", "Mahila Samman"];
+
+function normaliseSMA(cls: string): string {
+  // CBS files sometimes carry SMA0/SMA1/SMA2 without the hyphen
+  const m = /^SMA-?([012])$/.exec(cls || "");
+  return m ? `SMA-${m[1]}` : cls || "";
+}
+
+function addToBucket(sma: SMABucketTotals, cls: string, amount: number) {
+  if (!sma[cls]) sma[cls] = { count: 0, amount: 0 };
+  sma[cls].count += 1;
+  sma[cls].amount += amount;
+}
+
+export function summarizeDeposits(deposits: any[]): DepositSnapshotSection {
+  const active = deposits.filter((d) => d.Dormancy_Flag !== "Closed");
+  const sumOf = (rows: any[]) => rows.reduce((s, d) => s + (d.CurrentBalance || 0), 0);
+  return {
+    totalBalance: sumOf(active),
+    accountCount: active.length,
+    casaBalance: sumOf(active.filter((d) => CASA_CATEGORIES.includes(d.Category))),
+    termBalance: sumOf(active.filter((d) => TERM_CATEGORIES.includes(d.Category))),
+  };
+}
+
+export function summarizeLoans(loans: any[]): LoanSnapshotSection {
+  const sma: SMABucketTotals = {};
+  let outstanding = 0;
+  let npaAmount = 0;
+  let npaCount = 0;
+  for (const l of loans) {
+    const amount = Math.abs(l.OUTSTAND || 0);
+    outstanding += amount;
+    const isNPA = !l.Computed_NPA_Exempt &&
+      (l.Computed_SMA_Class === "NPA" || l.SMA_CLASS === "NPA" || (l.NEWIRAC && !["00", "01", ""].includes(l.NEWIRAC)));
+    if (isNPA) {
+      npaAmount += amount;
+      npaCount += 1;
+    }
+    const cls = normaliseSMA(l.Computed_SMA_Class || l.SMA_CLASS);
+    if ((SMA_BUCKETS as readonly string[]).includes(cls)) addToBucket(sma, cls, amount);
+  }
+  return { outstanding, accountCount: loans.length, npaAmount, npaCount, sma };
+}
+
+export function summarizeCCOD(ccod: any[]): CCODSnapshotSection {
+  const sma: SMABucketTotals = {};
+  let debitBalance = 0;
+  let creditBalance = 0;
+  let npaAmount = 0;
+  let npaCount = 0;
+  for (const c of ccod) {
+    const bal = c.CurrentBalance || 0;
+    if (bal < 0) debitBalance += Math.abs(bal);
+    else creditBalance += bal;
+    if (c.Computed_NPA_Exempt) continue;
+    const isNPA = c.Computed_SMA_Class === "NPA" || c.SMA_CLASS === "NPA" ||
+      (c.NEWIRAC && !["00", "01", "0", ""].includes(c.NEWIRAC));
+    if (isNPA) {
+      npaAmount += Math.abs(bal);
+      npaCount += 1;
+    }
+    const cls = normaliseSMA(c.Computed_SMA_Class || c.SMA_CLASS);
+    if ((SMA_BUCKETS as readonly string[]).includes(cls)) addToBucket(sma, cls, Math.abs(bal));
+  }
+  return { debitBalance, creditBalance, accountCount: ccod.length, npaAmount, npaCount, sma };
+}
+
+export function summarizeNPAReport(npa: any[]): NPASnapshotSection {
+  return {
+    accountCount: npa.length,
+    outstanding: npa.reduce((s, n) => s + Math.abs(n.OUTSTANDING || 0), 0),
+  };
+}
+
+// ============================================================
+// Persistence
+// ============================================================
+export async function recordSnapshotSection<K extends SnapshotSectionKey>(
+  snapshotDate: string,
+  section: K,
+  data: NonNullable<PortfolioSnapshot[K]>
+): Promise<void> {
+  const existing: PortfolioSnapshot | null = await getRecord(STORES.SNAPSHOTS, snapshotDate);
+  const snapshot: PortfolioSnapshot = existing ?? { snapshotDate, updatedAt: 0 };
+  snapshot[section] = data;
+  snapshot.updatedAt = Date.now();
+  await putRecord(STORES.SNAPSHOTS, snapshot);
+}
+
+export async function getSnapshots(): Promise<PortfolioSnapshot[]> {
+  const all: PortfolioSnapshot[] = await getAllRecords(STORES.SNAPSHOTS);
+  return all.sort((a, b) => a.snapshotDate.localeCompare(b.snapshotDate));
+}
+
+// ============================================================
+// Comparison
+// ============================================================
+function mergeBuckets(...buckets: (SMABucketTotals | undefined)[]): SMABucketTotals {
+  const merged: SMABucketTotals = {};
+  for (const b of buckets) {
+    if (!b) continue;
+    for (const [cls, v] of Object.entries(b)) {
+      if (!merged[cls]) merged[cls] = { count: 0, amount: 0 };
+      merged[cls].count += v.count;
+      merged[cls].amount += v.amount;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Build the portfolio position as at `snapshotDate`, taking each section from
+ * the most recent snapshot on or before that date (month-end shadow files and
+ * daily balance files rarely share the same date).
+ */
+export function buildSnapshotView(snapshots: PortfolioSnapshot[], snapshotDate: string): SnapshotView {
+  const sorted = [...snapshots]
+    .filter((s) => s.snapshotDate <= snapshotDate)
+    .sort((a, b) => b.snapshotDate.localeCompare(a.snapshotDate));
+
+  const sectionDates: SnapshotView["sectionDates"] = {};
+  const pick = <K extends SnapshotSectionKey>(key: K): PortfolioSnapshot[K] | undefined => {
+    const found = sorted.find((s) => s[key]);
+    if (found) sectionDates[key] = found.snapshotDate;
+    return found?.[key];
+  };
+
+  const deposits = pick("deposits");
+  const loans = pick("loans");
+  const ccod = pick("ccod");
+  const npa = pick("npa");
+
+  const creditBalance = ccod?.creditBalance || 0;
+  const totalDeposits = (deposits?.totalBalance || 0) + creditBalance;
+  const casaBalance = (deposits?.casaBalance || 0) + creditBalance;
+  const totalAdvances = (loans?.outstanding || 0) + (ccod?.debitBalance || 0);
+  const npaAmount = (loans?.npaAmount || 0) + (ccod?.npaAmount || 0);
+  const sma = mergeBuckets(loans?.sma, ccod?.sma);
+  const smaValues = Object.values(sma);
+
+  return {
+    snapshotDate,
+    sectionDates,
+    totalDeposits,
+    casaBalance,
+    casaRatio: totalDeposits > 0 ? (casaBalance / totalDeposits) * 100 : 0,
+    totalAdvances,
+    npaAmount,
+    npaAccounts: npa?.accountCount ?? (loans?.npaCount || 0) + (ccod?.npaCount || 0),
+    grossNPARatio: totalAdvances > 0 ? (npaAmount / totalAdvances) * 100 : 0,
+    smaAmount: smaValues.reduce((s, v) => s + v.amount, 0),
+    smaAccounts: smaValues.reduce((s, v) => s + v.count, 0),
+    sma,
+  };
+}
@@ -9,32 +9,30 @@ import {
   putRecords,
   clearStore,
   getAllRecords,
+  getSetting,
   setSetting,
 } from "./portfolioDb";
+import {
+  recordSnapshotSection,
+  summarizeDeposits,
+  summarizeLoans,
+  summarizeCCOD,
+  summarizeNPAReport,
+} from "./portfolioSnapshots";
+import { parseCSV, CSVRow } from "./csvParser";
+import { recordNPAReport } from "./npaMovement";
+
+export { parseCSV };
 
 // ============================================================
-// CSV Parser
+// CSV Input
 // ============================================================
-export function parseCSV(text: string): Record<string, string>[] {
-  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== "");
-  if (lines.length < 2) return [];
-
-  // Remove BOM if present
-  let headerLine = lines[0];
-  if (headerLine.charCodeAt(0) === 0xfeff) headerLine = headerLine.slice(1);
-
-  const headers = headerLine.split(",").map((h) => h.trim());
-  const rows: Record<string, string>[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(",");
-    const row: Record<string, string> = {};
-    for (let j = 0; j < headers.length; j++) {
-      row[headers[j]] = (values[j] ?? "").trim();
-    }
-    rows.push(row);
-  }
-  return rows;
+// Processors take either raw CSV text or rows already parsed off the main
+// thread by parseCSVFile() (DataUpload does the latter for large extracts).
+export type CSVInput = string | CSVRow[];
+
+function toRows(csv: CSVInput): CSVRow[] {
+  return typeof csv === "string" ? parseCSV(csv) : csv;
 }
 
 // ============================================================
@@ -71,18 +69,37 @@ function monthsDiff(dateStr1: string | null, dateStr2: string | null): number |
   return (d1.getFullYear() - d2.getFullYear()) * 12 + (d1.getMonth() - d2.getMonth());
 }
 
-function daysDiff(dateStr: string | null): number | null {
+function daysDiff(dateStr: string | null, asOfDate: string): number | null {
   if (!dateStr) return null;
   const d = new Date(dateStr);
-  if (isNaN(d.getTime())) return null;
-  const now = new Date();
-  return Math.floor((d.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+  const asOf = new Date(asOfDate);
+  if (isNaN(d.getTime()) || isNaN(asOf.getTime())) return null;
+  return Math.floor((d.getTime() - asOf.getTime()) / (1000 * 60 * 60 * 24));
 }
 
 function todayISO(): string {
   return new Date().toISOString().slice(0, 10);
 }
 
+/** Calendar date (YYYY-MM-DD) of a local Date — toISOString() would shift it to UTC */
+export function toISODate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+// ============================================================
+// As-of Date
+// ============================================================
+// DPD, SMA/NPA class and maturity buckets are measured as of the file date
+// (extractFileDateFromName), not the day the file happens to be processed, so
+// re-processing a 31 March extract on 5 April gives the same quarter-end
+// classification. Reports can re-run the classification for another date.
+const AS_OF_SETTING = "dpd-as-of-date";
+
+/** Date the stored loan/CC-OD classification was computed as of (null before any upload) */
+export async function getPortfolioAsOfDate(): Promise<string | null> {
+  return (await getSetting(AS_OF_SETTING)) || null;
+}
+
 /**
  * Compute RBI IRAC-compliant SMA/NPA classification based on Days Past Due (DPD)
  * 
@@ -100,7 +117,7 @@ function todayISO(): string {
  * @param iracCode NEW_IRAC code from CBS (if available, used as override)
  * @returns { smaClass, npaSubCategory, isNPA }
  */
-function computeRBIClassification(dpd: number, iracCode?: string): {
+export function computeRBIClassification(dpd: number, iracCode?: string): {
   smaClass: string;
   npaSubCategory: string;
   isNPA: boolean;
@@ -134,18 +151,39 @@ function computeRBIClassification(dpd: number, iracCode?: string): {
 /**
  * Calculate Days Past Due (DPD) from overdue date
  * @param overdueDate Date when account became overdue (YYYY-MM-DD format)
+ * @param asOfDate Reporting date the DPD is measured on (YYYY-MM-DD format)
  * @returns Number of days past due, or 0 if no overdue date
  */
-function calculateDPD(overdueDate: string | null): number {
+export function calculateDPD(overdueDate: string | null, asOfDate: string): number {
   if (!overdueDate) return 0;
   const od = new Date(overdueDate);
-  if (isNaN(od.getTime())) return 0;
-  const today = new Date();
-  const diffMs = today.getTime() - od.getTime();
+  const asOf = new Date(asOfDate);
+  if (isNaN(od.getTime()) || isNaN(asOf.getTime())) return 0;
+  const diffMs = asOf.getTime() - od.getTime();
   const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
   return Math.max(0, diffDays);
 }
 
+/**
+ * Re-classify a stored loan or CC/OD record as of another date, e.g. to project
+ * the SMA position on quarter-end. Assumes the irregularity is not regularised
+ * in between. NPA-exempt accounts (staff loans, OD against deposits) never
+ * classify as NPA, as in processLoanBalance / processCCODBalance.
+ */
+export function classifyAsOf(record: any, asOfDate: string): {
+  dpd: number;
+  smaClass: string;
+  npaSubCategory: string;
+  isNPA: boolean;
+} {
+  const dpd = calculateDPD(record.IRRGDT || null, asOfDate);
+  const c = computeRBIClassification(dpd, record.NEWIRAC || record.Shadow_New_IRAC);
+  if (record.Computed_NPA_Exempt === true && c.isNPA) {
+    return { dpd, smaClass: "STD", npaSubCategory: "", isNPA: false };
+  }
+  return { dpd, ...c };
+}
+
 // ============================================================
 // Indian Currency Formatter
 // ============================================================
@@ -171,8 +209,8 @@ export function formatINRFull(amount: number | null | undefined): string {
 // ============================================================
 // 1. Process Product Category Mapping
 // ============================================================
-export async function processProductMapping(csvText: string): Promise<number> {
-  const rows = parseCSV(csvText);
+export async function processProductMapping(csv: CSVInput): Promise<number> {
+  const rows = toRows(csv);
   const records = rows
     .filter((r) => r.ProductCode && r.ProductCode.trim() !== "")
     .map((r) => ({
@@ -197,8 +235,8 @@ export async function processProductMapping(csvText: string): Promise<number> {
 // ============================================================
 // 1b. Process Loan Product Category Mapping
 // ============================================================
-export async function processLoanProductMapping(csvText: string): Promise<number> {
-  const rows = parseCSV(csvText);
+export async function processLoanProductMapping(csv: CSVInput): Promise<number> {
+  const rows = toRows(csv);
   const records = rows
     .filter((r) => r.ProductCode && r.ProductCode.trim() !== "")
     .map((r) => ({
@@ -221,8 +259,9 @@ export async function processLoanProductMapping(csvText: string): Promise<number
 // ============================================================
 // 2. Process Deposit Shadow File
 // ============================================================
-export async function processDepositShadow(csvText: string): Promise<number> {
-  const rows = parseCSV(csvText);
+export async function processDepositShadow(csv: CSVInput, fileDate?: string): Promise<number> {
+  const rows = toRows(csv);
+  const asOf = fileDate || todayISO();
   
   // Get CC/OD accounts to identify duplicates (accounts in both files)
   const ccodRecords = await getAllRecords(STORES.CCOD_DATA);
@@ -303,7 +342,7 @@ export async function processDepositShadow(csvText: string): Promise<number> {
     let maturityBucket: string | null = null;
     const termCategories = ["Term Deposit", "Recurring Deposit", "Term Deposit (NRO)", "Term Deposit (NRE)", "Term Deposit (RFC/FCNB)", "Recurring Deposit (NRE)", "Recurring Deposit (NRO)", "MOD"];
     if (termCategories.includes(category) && maturityDt) {
-      const days = daysDiff(maturityDt);
+      const days = daysDiff(maturityDt, asOf);
       if (days != null) {
         if (days <= 0) maturityBucket = "Matured";
         else if (days <= 30) maturityBucket = "0–30 Days";
@@ -406,14 +445,15 @@ export async function processDepositShadow(csvText: string): Promise<number> {
   await putRecords(STORES.DEPOSIT_DATA, depositOnlyRecords);
 
   await setSetting("deposit-shadow-date", todayISO());
+  await recordSnapshotSection(fileDate || todayISO(), "deposits", summarizeDeposits(depositOnlyRecords));
   return depositOnlyRecords.length;
 }
 
 // ============================================================
 // 3. Process Loan Shadow File
 // ============================================================
-export async function processLoanShadow(csvText: string): Promise<number> {
-  const rows = parseCSV(csvText);
+export async function processLoanShadow(csv: CSVInput): Promise<number> {
+  const rows = toRows(csv);
 
   const records = rows.map((r) => {
     const acNo = trimLeadingZeros(r.AcNo || "");
@@ -476,8 +516,8 @@ export async function processLoanShadow(csvText: string): Promise<number> {
 // ============================================================
 // 4. Process Loan Balance File (Daily)
 // ============================================================
-export async function processLoanBalance(csvText: string): Promise<number> {
-  const rows = parseCSV(csvText);
+export async function processLoanBalance(csv: CSVInput, fileDate?: string): Promise<number> {
+  const rows = toRows(csv);
 
   // Get loan shadow data for merging
   const shadowRecords = await getAllRecords(STORES.LOAN_SHADOW);
@@ -493,7 +533,7 @@ export async function processLoanBalance(csvText: string): Promise<number> {
     productLookup[p.ProductCode] = p;
   }
 
-  const today = todayISO();
+  const asOf = fileDate || todayISO();
 
   const records = rows.map((r) => {
     const loanKey = (r.ACCTNO || "").trim();
@@ -532,9 +572,9 @@ export async function processLoanBalance(csvText: string): Promise<number> {
     const cifFinal = (shadowCIF && shadowCIF !== "0") ? shadowCIF : cif;
 
     // Computed metrics
-    const monthsToMaturity = monthsDiff(shadowMaturityDt, today);
+    const monthsToMaturity = monthsDiff(shadowMaturityDt, asOf);
     const totalLoanTermMonths = monthsDiff(shadowMaturityDt, sanctDt);
-    const loanAgeMonths = monthsDiff(today, sanctDt);
+    const loanAgeMonths = monthsDiff(asOf, sanctDt);
 
     // EMI split
     const monthlyInterest = outstand && intRate ? outstand * (intRate / 1200) : null;
@@ -543,7 +583,7 @@ export async function processLoanBalance(csvText: string): Promise<number> {
     // ── RBI IRAC Classification (Computed from DPD or IRAC code) ──────────────
     // For Term Loans: Use IRRGDT (Irregular Date) as overdue date
     // For CC/OD: This will be handled separately in CCOD processing
-    const dpd = calculateDPD(irrgDt);
+    const dpd = calculateDPD(irrgDt, asOf);
     const rbiClassification = computeRBIClassification(dpd, newIrac || shadowNewIRAC);
     const computedSMAClass = rbiClassification.smaClass;
     const computedNPASubCategory = rbiClassification.npaSubCategory;
@@ -662,6 +702,7 @@ export async function processLoanBalance(csvText: string): Promise<number> {
         ? false
         : computedIsNPA,
       Computed_DPD: dpd,
+      Computed_DPD_As_Of: asOf,
       Computed_NPA_Exempt: (loanCategory === "Staff Loan" || loanSegment === "Staff" || shadowSegmentCd === "306"),
       Computed_NPA_Exempt_Reason: (loanCategory === "Staff Loan" || loanSegment === "Staff" || shadowSegmentCd === "306")
         ? "Staff Loan — Exempt from NPA classification"
@@ -725,14 +766,17 @@ export async function processLoanBalance(csvText: string): Promise<number> {
   await clearStore(STORES.LOAN_DATA);
   await putRecords(STORES.LOAN_DATA, records);
   await setSetting("loan-balance-date", todayISO());
+  await setSetting(AS_OF_SETTING, asOf);
+  await recordSnapshotSection(fileDate || todayISO(), "loans", summarizeLoans(records));
   return records.length;
 }
 
 // ============================================================
 // 5. Process CC/OD Balance File (Daily)
 // ============================================================
-export async function processCCODBalance(csvText: string): Promise<number> {
-  const rows = parseCSV(csvText);
+export async function processCCODBalance(csv: CSVInput, fileDate?: string): Promise<number> {
+  const rows = toRows(csv);
+  const asOf = fileDate || todayISO();
 
   // Load loan product mapping for CC/OD category lookup
   const loanProductMapping = await getAllRecords(STORES.LOAN_PRODUCT_MAPPING);
@@ -786,7 +830,7 @@ export async function processCCODBalance(csvText: string): Promise<number> {
       // ── RBI IRAC Classification for CC/OD (Computed from Out of Order Date) ─────
       // For CC/OD: IRRGDT represents the "Out of Order" date (when account became irregular)
       const irrgDt = parseDate(r.IRRGDT);
-      const dpd = calculateDPD(irrgDt);
+      const dpd = calculateDPD(irrgDt, asOf);
       const rbiClassification = computeRBIClassification(dpd, newIrac);
       const computedSMAClass = rbiClassification.smaClass;
       const computedNPASubCategory = rbiClassification.npaSubCategory;
@@ -986,6 +1030,7 @@ export async function processCCODBalance(csvText: string): Promise<number> {
           staffFlag === "Staff"
         ) ? false : computedIsNPA,
         Computed_DPD: dpd,
+        Computed_DPD_As_Of: asOf,
         Computed_NPA_Exempt: (
           loanSubCategory === "OD Against Deposits" ||
           loanSubCategory === "OD Against Fixed Deposit" ||
@@ -1022,14 +1067,16 @@ export async function processCCODBalance(csvText: string): Promise<number> {
   await clearStore(STORES.CCOD_DATA);
   await putRecords(STORES.CCOD_DATA, records);
   await setSetting("ccod-balance-date", todayISO());
+  await setSetting(AS_OF_SETTING, asOf);
+  await recordSnapshotSection(fileDate || todayISO(), "ccod", summarizeCCOD(records));
   return records.length;
 }
 
 // ============================================================
 // 6. Process NPA Report (Daily)
 // ============================================================
-export async function processNPAReport(csvText: string): Promise<number> {
-  const rows = parseCSV(csvText);
+export async function processNPAReport(csv: CSVInput, fileDate?: string): Promise<number> {
+  const rows = toRows(csv);
 
   const records = rows
     .filter((r) => (r.ACCOUNT_NO || "").trim() !== "")
@@ -1066,6 +1113,8 @@ export async function processNPAReport(csvText: string): Promise<number> {
   await clearStore(STORES.NPA_DATA);
   await putRecords(STORES.NPA_DATA, records);
   await setSetting("npa-report-date", todayISO());
+  await recordSnapshotSection(fileDate || todayISO(), "npa", summarizeNPAReport(records));
+  await recordNPAReport(fileDate || todayISO(), records);
   return records.length;
 }
 
@@ -0,0 +1,317 @@
+/**
+ * RBI Provisioning Engine
+ *
+ * Required provision per loan / CC-OD account under the IRAC prudential norms:
+ *   - Standard:     sector rate on outstanding (agriculture & SME 0.25%, CRE 1%,
+ *                   CRE-RH 0.75%, teaser-rate housing 2%, all others 0.40%)
+ *   - Substandard:  15% of outstanding; 25% for unsecured exposures (realisable
+ *                   security not above 10% of outstanding)
+ *   - Doubtful:     100% of the unsecured portion plus 25% (D1), 40% (D2) or
+ *                   100% (D3) of the portion covered by realisable security
+ *   - Loss:         100%
+ *
+ * The asset class is the worse of the CBS IRAC code and the age of the NPA on
+ * the as-on date (doubtful after 12 months as NPA; D1 up to one year in
+ * doubtful, D2 one to three years, D3 beyond). Written-off (AUCA) accounts are
+ * left out.
+ *
+ * Security value, realisable value, booked provision and sector overrides are
+ * entered by the branch and kept in app_data ("provision-inputs"). Without a
+ * realisable value, the security value is used, then the "security held"
+ * entered in the NPA review (SMA/NPA/AUCA Reporting).
+ */
+
+import { loadData, saveData } from "./db";
+import { classifyAsOf } from "./portfolioTransform";
+import { addDaysISO } from "./legalProceedings";
+import { normaliseAccountNo } from "./recoveryDiary";
+
+export type AssetClass = "Standard" | "Substandard" | "D1" | "D2" | "D3" | "Loss";
+
+export const ASSET_CLASSES: AssetClass[] = ["Standard", "Substandard", "D1", "D2", "D3", "Loss"];
+
+export type StandardSector = "agri-sme" | "cre" | "cre-rh" | "housing-teaser" | "others";
+
+export const STANDARD_SECTORS: { value: StandardSector; label: string; rate: number }[] = [
+  { value: "agri-sme", label: "Agriculture & SME", rate: 0.25 },
+  { value: "cre", label: "Commercial Real Estate", rate: 1.0 },
+  { value: "cre-rh", label: "CRE — Residential Housing", rate: 0.75 },
+  { value: "housing-teaser", label: "Housing Loans at Teaser Rates", rate: 2.0 },
+  { value: "others", label: "All Other Standard Advances", rate: 0.4 },
+];
+
+export interface AccountProvisionInput {
+  securityValue?: number;   // value of the security held
+  realisableValue?: number; // realisable value, as per the latest valuation
+  bookedProvision?: number; // provision held in the books
+  sector?: StandardSector;  // overrides the sector derived from the loan category
+}
+
+export interface ProvisionInputs {
+  accounts: Record<string, AccountProvisionInput>;           // keyed by normalised account number
+  standardBooked: Partial<Record<StandardSector, number>>; // standard asset provision held, per sector
+}
+
+export interface AccountProvision {
+  accountNo: string;
+  customerName: string;
+  category: string;
+  outstanding: number;
+  assetClass: AssetClass;
+  npaDate: string | null;   // YYYY-MM-DD
+  sector: StandardSector | null; // standard accounts only
+  securityValue: number;
+  realisableValue: number;
+  securedPortion: number;
+  unsecuredPortion: number;
+  required: number;
+  booked: number | null;    // NPA accounts only; standard provision is booked per sector
+}
+
+export interface ProvisionClassSummary {
+  assetClass: AssetClass;
+  accounts: number;
+  outstanding: number;
+  securedPortion: number;
+  unsecuredPortion: number;
+  required: number;
+  booked: number;
+  shortfall: number;        // negative for excess provision
+}
+
+export interface ProvisionSectorSummary {
+  sector: StandardSector;
+  label: string;
+  rate: number;
+  accounts: number;
+  outstanding: number;
+  required: number;
+  booked: number;
+  shortfall: number;
+}
+
+const INPUTS_KEY = "provision-inputs";
+const REPORT_EDITS_KEY = "npa-edits";
+
+// Substandard exposures whose realisable security is at most this share of outstanding are unsecured
+const UNSECURED_THRESHOLD = 0.1;
+
+const CLASS_RANK: Record<AssetClass, number> = { Standard: 0, Substandard: 1, D1: 2, D2: 3, D3: 4, Loss: 5 };
+
+export function emptyProvisionInputs(): ProvisionInputs {
+  return { accounts: {}, standardBooked: {} };
+}
+
+export function sectorLabel(sector: StandardSector): string {
+  return STANDARD_SECTORS.find((s) => s.value === sector)?.label ?? sector;
+}
+
+export function sectorRate(sector: StandardSector): number {
+  return STANDARD_SECTORS.find((s) => s.value === sector)?.rate ?? 0.4;
+}
+
+/** Whole months from one YYYY-MM-DD date to another */
+function monthsBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const [ty, tm, td] = to.split("-").map(Number);
+  return (ty - fy) * 12 + (tm - fm) - (td < fd ? 1 : 0);
+}
+
+// ============================================================
+// Classification
+// ============================================================
+/** Class implied by the CBS IRAC code (03/04 substandard, 05 D1, 06 D2, 07 D3, 08 loss) */
+export function assetClassFromIrac(irac: string | number | null | undefined): AssetClass {
+  const code = parseInt(String(irac ?? "").trim(), 10);
+  if (code === 3 || code === 4) return "Substandard";
+  if (code === 5) return "D1";
+  if (code === 6) return "D2";
+  if (code === 7) return "D3";
+  if (code === 8) return "Loss";
+  return "Standard";
+}
+
+/** Class implied by how long the account has been NPA on the as-on date */
+export function assetClassFromAge(npaDate: string, asOf: string): AssetClass {
+  const months = monthsBetween(npaDate, asOf);
+  if (months < 12) return "Substandard";
+  if (months < 24) return "D1";
+  if (months < 48) return "D2";
+  return "D3";
+}
+
+export function worseClass(a: AssetClass, b: AssetClass): AssetClass {
+  return CLASS_RANK[a] >= CLASS_RANK[b] ? a : b;
+}
+
+/** Standard asset sector from the product mapping's loan category */
+export function defaultSector(record: any): StandardSector {
+  const category = String(record?.Loan_Category || "").toUpperCase();
+  if (category.includes("AGRI") || category.includes("MSME") || category.includes("SME")) return "agri-sme";
+  return "others";
+}
+
+// ============================================================
+// Provision
+// ============================================================
+/**
+ * Required provision for an account of the given class. Secured and unsecured
+ * portions split the outstanding at the realisable value of the security.
+ */
+export function requiredProvision(
+  assetClass: AssetClass,
+  outstanding: number,
+  realisableValue: number,
+  sector: StandardSector = "others"
+): { securedPortion: number; unsecuredPortion: number; required: number } {
+  const securedPortion = Math.min(Math.max(realisableValue, 0), outstanding);
+  const unsecuredPortion = outstanding - securedPortion;
+  let required: number;
+  switch (assetClass) {
+    case "Standard":
+      required = outstanding * sectorRate(sector) / 100;
+      break;
+    case "Substandard":
+      required = outstanding * (securedPortion <= outstanding * UNSECURED_THRESHOLD ? 0.25 : 0.15);
+      break;
+    case "D1":
+      required = unsecuredPortion + securedPortion * 0.25;
+      break;
+    case "D2":
+      required = unsecuredPortion + securedPortion * 0.4;
+      break;
+    default:
+      required = outstanding;
+  }
+  return { securedPortion, unsecuredPortion, required: Math.round(required) };
+}
+
+/** Outstanding of a loan or CC/OD record; CC/OD only counts debit balances */
+export function outstandingOf(record: any): number {
+  if (record?.Exposure_Type === "CC/OD") {
+    const bal = Number(record.CurrentBalance || 0);
+    return bal < 0 ? Math.abs(bal) : 0;
+  }
+  return Math.abs(Number(record?.OUTSTAND || record?.OUTSTANDING || 0));
+}
+
+/** NPA dates from the NPA file, keyed by normalised account number */
+export function npaDatesByAccount(npaData: any[]): Map<string, string> {
+  const dates = new Map<string, string>();
+  for (const n of npaData) {
+    if (n.NPA_DATE) dates.set(normaliseAccountNo(n.ACCOUNT_NO), n.NPA_DATE);
+  }
+  return dates;
+}
+
+export interface ProvisionContext {
+  asOf: string;                                        // YYYY-MM-DD
+  inputs: ProvisionInputs;
+  npaDates: Map<string, string>;                       // see npaDatesByAccount
+  reportEdits?: Record<string, { securityHeld?: string }>; // NPA review edits, keyed by account number as in CBS
+}
+
+/**
+ * Provision of one loan or CC/OD record as on ctx.asOf, or null for accounts
+ * outside the computation (written off, or nothing outstanding).
+ */
+export function provisionForAccount(record: any, ctx: ProvisionContext): AccountProvision | null {
+  if (String(record.WRITE_OFF_FLAG || "").trim().toUpperCase() === "F") return null;
+  const outstanding = outstandingOf(record);
+  if (outstanding <= 0) return null;
+
+  const rawAccountNo = String(record.LoanKey || record.ACCOUNT_NO || "");
+  const accountNo = normaliseAccountNo(rawAccountNo);
+  const input = ctx.inputs.accounts[accountNo] ?? {};
+
+  const iracClass = assetClassFromIrac(record.NEWIRAC || record.Shadow_New_IRAC);
+  const isNPA = iracClass !== "Standard" || classifyAsOf(record, ctx.asOf).isNPA;
+
+  // NPA date: the NPA file, else the 91st day of the irregularity
+  let npaDate: string | null = null;
+  let assetClass: AssetClass = "Standard";
+  if (isNPA) {
+    npaDate = ctx.npaDates.get(accountNo) ?? (record.IRRGDT ? addDaysISO(record.IRRGDT, 91) : null);
+    const ageClass = npaDate && npaDate <= ctx.asOf ? assetClassFromAge(npaDate, ctx.asOf) : "Substandard";
+    assetClass = worseClass(iracClass === "Standard" ? "Substandard" : iracClass, ageClass);
+  }
+
+  const reportSecurity = Number(ctx.reportEdits?.[rawAccountNo]?.securityHeld) || 0;
+  const securityValue = input.securityValue ?? reportSecurity;
+  const realisableValue = input.realisableValue ?? securityValue;
+  const sector = assetClass === "Standard" ? input.sector ?? defaultSector(record) : null;
+  const { securedPortion, unsecuredPortion, required } = requiredProvision(assetClass, outstanding, realisableValue, sector ?? undefined);
+
+  return {
+    accountNo: rawAccountNo,
+    customerName: record.CUSTNAME || record.CUSTOMER_NAME || "",
+    category: record.Loan_Category || "",
+    outstanding,
+    assetClass,
+    npaDate,
+    sector,
+    securityValue,
+    realisableValue,
+    securedPortion,
+    unsecuredPortion,
+    required,
+    booked: assetClass === "Standard" ? null : input.bookedProvision ?? 0,
+  };
+}
+
+// ============================================================
+// Branch summary
+// ============================================================
+export function summariseByClass(rows: AccountProvision[], inputs: ProvisionInputs): ProvisionClassSummary[] {
+  const standardBooked = Object.values(inputs.standardBooked).reduce((s: number, v) => s + (v || 0), 0);
+  return ASSET_CLASSES.map((assetClass) => {
+    const inClass = rows.filter((r) => r.assetClass === assetClass);
+    const required = inClass.reduce((s, r) => s + r.required, 0);
+    const booked = assetClass === "Standard" ? standardBooked : inClass.reduce((s, r) => s + (r.booked || 0), 0);
+    return {
+      assetClass,
+      accounts: inClass.length,
+      outstanding: inClass.reduce((s, r) => s + r.outstanding, 0),
+      securedPortion: inClass.reduce((s, r) => s + r.securedPortion, 0),
+      unsecuredPortion: inClass.reduce((s, r) => s + r.unsecuredPortion, 0),
+      required,
+      booked,
+      shortfall: required - booked,
+    };
+  });
+}
+
+export function summariseStandardBySector(rows: AccountProvision[], inputs: ProvisionInputs): ProvisionSectorSummary[] {
+  return STANDARD_SECTORS.map(({ value, label, rate }) => {
+    const inSector = rows.filter((r) => r.sector === value);
+    const required = inSector.reduce((s, r) => s + r.required, 0);
+    const booked = inputs.standardBooked[value] || 0;
+    return {
+      sector: value,
+      label,
+      rate,
+      accounts: inSector.length,
+      outstanding: inSector.reduce((s, r) => s + r.outstanding, 0),
+      required,
+      booked,
+      shortfall: required - booked,
+    };
+  });
+}
+
+// ============================================================
+// Storage
+// ============================================================
+export async function loadProvisionInputs(): Promise<ProvisionInputs> {
+  const saved = await loadData(INPUTS_KEY);
+  return { ...emptyProvisionInputs(), ...(saved || {}) };
+}
+
+export async function saveProvisionInputs(inputs: ProvisionInputs): Promise<void> {
+  await saveData(INPUTS_KEY, inputs);
+}
+
+/** Security held as entered in the NPA review, the last fallback for the realisable value */
+export async function loadReportEdits(): Promise<Record<string, { securityHeld?: string }>> {
+  return (await loadData(REPORT_EDITS_KEY)) || {};
+}
@@ -0,0 +1,147 @@
+/**
+ * NPA Recovery Diary
+ *
+ * Per-account record of what the branch did to recover a stressed or NPA
+ * account — calls, field visits, notices, promises to pay, part recoveries
+ * and legal steps. Entries live in BranchPortfolioDB (recovery-actions, one
+ * record per action) and are shown as a timeline in NPA Tracking and Asset
+ * Quality. The Annexure-C NPA review (SMA/NPA/AUCA Reporting) takes its
+ * "observation" and "strategy / action plan" columns from the diary.
+ */
+
+import { STORES, deleteRecord, getAllRecords, getRecordsByIndex, putRecord } from "./portfolioDb";
+
+export type RecoveryActionType =
+  | "call"
+  | "field-visit"
+  | "notice"
+  | "promise-to-pay"
+  | "part-recovery"
+  | "legal"
+  | "other";
+
+export const RECOVERY_ACTION_TYPES: { value: RecoveryActionType; label: string }[] = [
+  { value: "call", label: "Phone Call" },
+  { value: "field-visit", label: "Field Visit" },
+  { value: "notice", label: "Notice Issued" },
+  { value: "promise-to-pay", label: "Promise to Pay" },
+  { value: "part-recovery", label: "Part Recovery" },
+  { value: "legal", label: "Legal Step" },
+  { value: "other", label: "Other" },
+];
+
+export interface RecoveryAction {
+  id: string;
+  accountNo: string;        // normalised (see normaliseAccountNo)
+  type: RecoveryActionType;
+  date: string;             // YYYY-MM-DD, when the action was taken
+  notes: string;
+  amount?: number;          // amount recovered, or promised for a promise to pay
+  promiseDate?: string;     // YYYY-MM-DD, promise to pay
+  nextAction?: string;      // planned next step
+  nextActionDate?: string;  // YYYY-MM-DD
+  createdBy: string | null; // username
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type RecoveryActionInput = Omit<RecoveryAction, "id" | "accountNo" | "createdAt" | "updatedAt">;
+
+// How many of the latest actions make up the review "observation"
+const OBSERVATION_ACTIONS = 3;
+
+/** CBS files differ in leading zeros; the diary keys accounts without them */
+export function normaliseAccountNo(accountNo: string | number | null | undefined): string {
+  return String(accountNo ?? "").trim().replace(/^0+(?=\d)/, "");
+}
+
+export function actionTypeLabel(type: RecoveryActionType): string {
+  return RECOVERY_ACTION_TYPES.find((t) => t.value === type)?.label ?? type;
+}
+
+/** Newest first; actions on the same day in the order they were recorded */
+function byDateDesc(a: RecoveryAction, b: RecoveryAction): number {
+  return b.date.localeCompare(a.date) || b.createdAt - a.createdAt;
+}
+
+// ============================================================
+// Storage
+// ============================================================
+export async function getRecoveryActions(accountNo: string): Promise<RecoveryAction[]> {
+  const actions: RecoveryAction[] = await getRecordsByIndex(STORES.RECOVERY_ACTIONS, "accountNo", normaliseAccountNo(accountNo));
+  return actions.sort(byDateDesc);
+}
+
+/** All actions grouped by normalised account number, newest first */
+export async function getRecoveryActionsByAccount(): Promise<Map<string, RecoveryAction[]>> {
+  const actions: RecoveryAction[] = await getAllRecords(STORES.RECOVERY_ACTIONS);
+  const byAccount = new Map<string, RecoveryAction[]>();
+  for (const action of actions.sort(byDateDesc)) {
+    const list = byAccount.get(action.accountNo);
+    if (list) list.push(action);
+    else byAccount.set(action.accountNo, [action]);
+  }
+  return byAccount;
+}
+
+export async function addRecoveryAction(accountNo: string, input: RecoveryActionInput): Promise<RecoveryAction> {
+  const now = Date.now();
+  const action: RecoveryAction = {
+    ...input,
+    id: `rec-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    accountNo: normaliseAccountNo(accountNo),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await putRecord(STORES.RECOVERY_ACTIONS, action);
+  return action;
+}
+
+export async function deleteRecoveryAction(id: string): Promise<void> {
+  await deleteRecord(STORES.RECOVERY_ACTIONS, id);
+}
+
+// ============================================================
+// Review columns
+// ============================================================
+function fmtDate(iso: string | undefined): string {
+  if (!iso) return "";
+  const [y, m, d] = iso.split("-");
+  return `${d}/${m}/${y}`;
+}
+
+function fmtAmount(n: number): string {
+  return `₹${n.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+}
+
+/** One line of the review observation, e.g. "12/03/2026 Part Recovery: cash at branch, ₹25,000" */
+export function describeAction(action: RecoveryAction): string {
+  const head = `${fmtDate(action.date)} ${actionTypeLabel(action.type)}`;
+  const detail = [action.notes.trim()];
+  if (action.amount) {
+    detail.push(action.type === "promise-to-pay" ? `${fmtAmount(action.amount)} promised` : fmtAmount(action.amount));
+  }
+  if (action.type === "promise-to-pay" && action.promiseDate) detail.push(`by ${fmtDate(action.promiseDate)}`);
+  const text = detail.filter(Boolean).join(", ");
+  return text ? `${head}: ${text}` : head;
+}
+
+/**
+ * Annexure-C "observation" and "strategy / action plan" text from an account's
+ * diary (actions newest first). Null fields mean there is nothing to say and
+ * the report keeps its default wording.
+ */
+export function summariseForReview(actions: RecoveryAction[]): { observation: string | null; strategyPlan: string | null } {
+  if (actions.length === 0) return { observation: null, strategyPlan: null };
+
+  const lines = actions.slice(0, OBSERVATION_ACTIONS).map(describeAction);
+  const recovered = actions.filter((a) => a.type === "part-recovery").reduce((s, a) => s + (a.amount || 0), 0);
+  if (recovered > 0) lines.push(`Total part recovery ${fmtAmount(recovered)}.`);
+
+  const planned = actions.find((a) => a.nextAction && a.nextAction.trim());
+  const strategyPlan = planned
+    ? `${planned.nextAction!.trim()}${planned.nextActionDate ? ` by ${fmtDate(planned.nextActionDate)}` : ""}`
+    : null;
+
+  return { observation: lines.join("; "), strategyPlan };
+}
@@ -4,21 +4,34 @@
  * Single source of truth for all reference number generation across the application.
  * All apps must use this engine instead of local generation logic.
  * 
- * Format: SBI/{branchCode}/{fy_YY-YY}/{monthAbbr}/{serial_3digits}
- * Example: SBI/13042/25-26/MAR/001
+ * Format: admin-configurable per letter type (see refNumberFormats.ts)
+ * Default: SBI/{branchCode}/{fy_YY-YY}/{monthAbbr}/{serial}
+ * Example: SBI/13042/25-26/MAR/001, or SBI/13042/LGL/25-26/0012 for a legal series
  * 
- * - Generates formatted reference numbers with month abbreviation
- * - Maintains serial counters per financial year (3-digit serials)
- * - Automatically saves records to IndexedDB
+ * - Generates formatted reference numbers from the format for the letter type
+ * - Maintains serial counters per series and financial year (default at least
+ *   3 digits; 1000+ continue as 1000, 1001, ...)
+ * - Allocates serials and saves records in one IndexedDB transaction, so two
+ *   tabs issuing letters at the same time can never get the same number
+ * - On a PC that syncs with the branch server, takes the serials from the
+ *   server while it is reachable, so two PCs never issue the same number
+ *   either; numbers issued on two PCs while both were offline are found by
+ *   duplicateRefNos() and flagged in the register
+ * - Broadcasts every change so open Dak register views refresh live
  * - Ensures format consistency across all applications
  */
 
-import { DakRecord } from "../components/PrintPreview";
-import { saveData, loadData } from "./db";
+import type { DakRecord } from "../components/PrintPreview";
+import { loadData, loadCounter, updateDataWithCounters } from "./db";
+import { loadRefFormats, refSerialWidth, renderRefPattern, resolveRefFormat, RefNumberFormat } from "./refNumberFormats";
+import { reserveSerials } from "./syncApi";
 
 // Storage key for all reference number records (unified across apps)
 const DAK_RECORDS_KEY = "dak-records";
 
+// BroadcastChannel used to tell other tabs/apps that dak-records changed
+const DAK_CHANNEL = "sbi-dak-records";
+
 // Month abbreviations for reference number format
 const MONTH_ABBRS = ["JAN","FEB","MAR","APR","MAY","JUN","JUL","AUG","SEP","OCT","NOV","DEC"];
 
@@ -52,55 +65,161 @@ function getMonthAbbr(monthNo: string): string {
 }
 
 /**
- * Get the next sequential number for a given financial year
- * Searches all existing records for the same FY and returns next in sequence
- * Returns 3-digit serial with leading zeroes (001, 002, ..., 999)
+ * Counter key per series and financial year. The default series keeps the
+ * original "dak-serial-25-26" key; other series add their code
+ * ("dak-serial-LGL-25-26").
  */
-async function getNextSerial(fy: string): Promise<string> {
-  const records = (await loadData(DAK_RECORDS_KEY)) || [];
-  
-  if (!Array.isArray(records) || records.length === 0) {
-    return "001";
-  }
+function counterName(series: string, fy: string): string {
+  return series ? `dak-serial-${series}-${fy}` : `dak-serial-${fy}`;
+}
 
-  // Find all records for this financial year
-  const sameFY = records.filter((r: DakRecord) => r.financialYear === fy);
-  
-  if (!sameFY.length) {
-    return "001";
+/**
+ * Highest serial already issued in a series for a FY. Records restored from a
+ * backup or entered before the counter existed can be ahead of the counter,
+ * so the next serial is always max(counter, highest record) + 1.
+ */
+function maxSerialInRecords(records: DakRecord[], series: string, fy: string): number {
+  let max = 0;
+  for (const r of records) {
+    if (r.financialYear !== fy || (r.series || "") !== series) continue;
+    const n = parseInt(r.serialNo, 10);
+    if (!isNaN(n) && n > max) max = n;
   }
+  return max;
+}
 
-  // Get the maximum serial and increment
-  const maxSerial = Math.max(
-    ...sameFY.map((r: DakRecord) => parseInt(r.serialNo, 10))
-  );
+/**
+ * Get the next sequential number in a series for a given financial year (read-only)
+ */
+async function getNextSerial(series: string, fy: string): Promise<number> {
+  const records = (await loadData(DAK_RECORDS_KEY)) || [];
+  const counter = await loadCounter(counterName(series, fy));
+  const issued = Array.isArray(records) ? maxSerialInRecords(records, series, fy) : 0;
+  return Math.max(counter, issued) + 1;
+}
+
+/**
+ * Build the formatted reference number string from the letter type's format
+ */
+function buildRefNumber(format: RefNumberFormat, options: Omit<GenerateRefOptions, "dateDisplay" | "recipientDetails" | "subject">, serial: number): string {
+  return renderRefPattern(format.pattern, {
+    branch: options.branchCode,
+    fy: options.financialYear,
+    monthAbbr: getMonthAbbr(options.monthNo),
+    monthNo: options.monthNo,
+    letterType: options.letterType,
+    letterDestination: options.letterDestination,
+    code: format.code,
+    serial,
+  });
+}
 
-  return String(maxSerial + 1).padStart(3, "0");
+// ============================================================
+// Change notifications
+// ============================================================
+let notifyChannel: BroadcastChannel | null = null;
+
+/** Tell every open tab (and other components in this tab) that dak-records changed */
+export function notifyDakRecordsChanged(): void {
+  if (typeof BroadcastChannel === "undefined") return;
+  if (!notifyChannel) notifyChannel = new BroadcastChannel(DAK_CHANNEL);
+  notifyChannel.postMessage({ type: "dak-records-changed", at: Date.now() });
+}
+
+/** Subscribe to dak-records changes. Returns an unsubscribe function. */
+export function subscribeDakRecords(onChange: () => void): () => void {
+  if (typeof BroadcastChannel === "undefined") return () => {};
+  const channel = new BroadcastChannel(DAK_CHANNEL);
+  channel.onmessage = () => onChange();
+  return () => channel.close();
 }
 
+// ============================================================
+// Allocation
+// ============================================================
 /**
- * Build the formatted reference number string
- * Format: SBI/{branchCode}/{fy_YY-YY}/{monthAbbr}/{serial_3digits}
- * Example: SBI/13042/25-26/MAR/001
+ * Allocate serials for every request and append the DakRecords, all inside
+ * one readwrite transaction on dak-records + the per-FY counters.
+ * Results are returned in the same order as optionsList.
  */
-function buildRefNumber(
-  branchCode: string,
-  fy: string,
-  monthAbbr: string,
-  serial: string
-): string {
-  return `SBI/${branchCode}/${fy}/${monthAbbr}/${serial}`;
+async function allocateReferenceNumbers(optionsList: GenerateRefOptions[]): Promise<GenerateRefResult[]> {
+  // Formats are resolved before the transaction (IndexedDB transactions cannot wait on other reads)
+  const formats = await loadRefFormats();
+  const requests = optionsList.map((options) => {
+    const format = resolveRefFormat(formats, options.letterType);
+    return { options, format, counter: counterName(format.code, options.financialYear) };
+  });
+  const counterNames = Array.from(new Set(requests.map((r) => r.counter)));
+  const reserved = await reserveSerials(
+    await Promise.all(
+      counterNames.map(async (name) => {
+        const { format, options } = requests.find((r) => r.counter === name)!;
+        return {
+          name,
+          count: requests.filter((r) => r.counter === name).length,
+          floor: (await getNextSerial(format.code, options.financialYear)) - 1,
+        };
+      })
+    )
+  );
+
+  const results = await updateDataWithCounters(
+    DAK_RECORDS_KEY,
+    counterNames,
+    (value, counters) => {
+      const records: DakRecord[] = Array.isArray(value) ? [...value] : [];
+      const nextSerial: Record<string, number> = {};
+      for (const { format, options, counter } of requests) {
+        if (counter in nextSerial) continue;
+        nextSerial[counter] = reserved && counter in reserved
+          ? reserved[counter] - 1
+          : Math.max(counters[counter] || 0, maxSerialInRecords(records, format.code, options.financialYear));
+      }
+      let nextId = Math.max(Date.now(), ...records.map((r) => (typeof r.id === "number" ? r.id + 1 : 0)));
+
+      const allocated: GenerateRefResult[] = requests.map(({ options, format, counter }) => {
+        nextSerial[counter] += 1;
+        const serial = nextSerial[counter];
+        const serialNo = String(serial).padStart(refSerialWidth(format.pattern), "0");
+        const refNo = buildRefNumber(format, options, serial);
+
+        const dakRecord: DakRecord = {
+          id: nextId++,
+          refNo,
+          serialNo,
+          financialYear: options.financialYear,
+          monthNo: options.monthNo,
+          dateDisplay: options.dateDisplay,
+          letterType: options.letterType,
+          letterDestination: options.letterDestination,
+          recipientDetails: options.recipientDetails,
+          subject: options.subject,
+          remarks: options.remarks || "Auto-generated",
+          ...(format.code ? { series: format.code } : {}),
+        };
+        records.push(dakRecord);
+        return { refNo, serialNo, dakRecord };
+      });
+
+      // Serials reserved by another tab may already be ahead; a counter never goes back
+      const nextCounters: Record<string, number> = {};
+      for (const name of counterNames) nextCounters[name] = Math.max(counters[name] || 0, nextSerial[name]);
+      return { value: records, counters: nextCounters, result: allocated };
+    }
+  );
+
+  notifyDakRecordsChanged();
+  return results;
 }
 
 /**
  * Generate a single reference number
  * 
  * This is the main engine function that:
- * 1. Calculates the next serial for the given FY
+ * 1. Allocates the next serial for the given FY (atomically, across tabs)
  * 2. Builds the formatted reference number
- * 3. Creates a DakRecord object
- * 4. Saves it to the database
- * 5. Returns both the reference number and the record
+ * 3. Creates a DakRecord object and saves it in the same transaction
+ * 4. Returns both the reference number and the record
  * 
  * Usage:
  * ```
@@ -120,45 +239,8 @@ export async function generateReferenceNumber(
   options: GenerateRefOptions
 ): Promise<GenerateRefResult> {
   try {
-    // Get the next serial number
-    const serialNo = await getNextSerial(options.financialYear);
-    
-    // Convert numeric month to abbreviation
-    const monthAbbr = getMonthAbbr(options.monthNo);
-
-    // Build the formatted reference number
-    const refNo = buildRefNumber(
-      options.branchCode,
-      options.financialYear,
-      monthAbbr,
-      serialNo
-    );
-
-    // Create the DakRecord
-    const dakRecord: DakRecord = {
-      id: Date.now(),
-      refNo,
-      serialNo,
-      financialYear: options.financialYear,
-      monthNo: options.monthNo,
-      dateDisplay: options.dateDisplay,
-      letterType: options.letterType,
-      letterDestination: options.letterDestination,
-      recipientDetails: options.recipientDetails,
-      subject: options.subject,
-      remarks: options.remarks || "Auto-generated",
-    };
-
-    // Load existing records and save the new one
-    const existingRecords = (await loadData(DAK_RECORDS_KEY)) || [];
-    const updatedRecords = [...existingRecords, dakRecord];
-    await saveData(DAK_RECORDS_KEY, updatedRecords);
-
-    return {
-      refNo,
-      serialNo,
-      dakRecord,
-    };
+    const [result] = await allocateReferenceNumbers([options]);
+    return result;
   } catch (error) {
     console.error("Error generating reference number:", error);
     throw new Error(`Failed to generate reference number: ${error}`);
@@ -168,8 +250,8 @@ export async function generateReferenceNumber(
 /**
  * Generate multiple reference numbers in a single transaction
  * 
- * More efficient than calling generateReferenceNumber multiple times
- * as it loads/saves the database only once.
+ * Serials are consecutive within each FY and results come back in the same
+ * order as optionsList.
  * 
  * Usage:
  * ```
@@ -186,82 +268,28 @@ export async function generateMultipleReferenceNumbers(
     if (!optionsList || optionsList.length === 0) {
       return [];
     }
-
-    // Load existing records once
-    const existingRecords = (await loadData(DAK_RECORDS_KEY)) || [];
-    let allRecords = [...existingRecords];
-
-    const results: GenerateRefResult[] = [];
-
-    // Group by financial year to maintain proper serial order
-    const recordsByFY = new Map<string, { records: GenerateRefOptions[]; maxSerial: number }>();
-
-    for (const options of optionsList) {
-      const fy = options.financialYear;
-
-      if (!recordsByFY.has(fy)) {
-        // Find max serial for this FY from existing records
-        const existing = existingRecords.filter(
-          (r: DakRecord) => r.financialYear === fy
-        );
-        const maxSerial = existing.length
-          ? Math.max(...existing.map((r: DakRecord) => parseInt(r.serialNo, 10)))
-          : 0;
-
-        recordsByFY.set(fy, { records: [], maxSerial });
-      }
-
-      recordsByFY.get(fy)!.records.push(options);
-    }
-
-    // Generate reference numbers maintaining proper serial sequence
-    for (const [fy, { records, maxSerial }] of recordsByFY) {
-      let currentSerial = maxSerial;
-
-      for (const options of records) {
-        currentSerial++;
-        const serialNo = String(currentSerial).padStart(3, "0");
-        const monthAbbr = getMonthAbbr(options.monthNo);
-        const refNo = buildRefNumber(
-          options.branchCode,
-          fy,
-          monthAbbr,
-          serialNo
-        );
-
-        const dakRecord: DakRecord = {
-          id: Date.now() + results.length,
-          refNo,
-          serialNo,
-          financialYear: fy,
-          monthNo: options.monthNo,
-          dateDisplay: options.dateDisplay,
-          letterType: options.letterType,
-          letterDestination: options.letterDestination,
-          recipientDetails: options.recipientDetails,
-          subject: options.subject,
-          remarks: options.remarks || "Auto-generated",
-        };
-
-        allRecords.push(dakRecord);
-        results.push({
-          refNo,
-          serialNo,
-          dakRecord,
-        });
-      }
-    }
-
-    // Save all records at once
-    await saveData(DAK_RECORDS_KEY, allRecords);
-
-    return results;
+    return await allocateReferenceNumbers(optionsList);
   } catch (error) {
     console.error("Error generating multiple reference numbers:", error);
     throw new Error(`Failed to generate reference numbers: ${error}`);
   }
 }
 
+/**
+ * Edit or delete existing Dak records (read-modify-write in one transaction,
+ * so an entry issued from another tab in the meantime is not overwritten).
+ */
+export async function updateDakRecords(
+  mutate: (records: DakRecord[]) => DakRecord[]
+): Promise<DakRecord[]> {
+  const updated = await updateDataWithCounters(DAK_RECORDS_KEY, [], (value) => {
+    const next = mutate(Array.isArray(value) ? value : []);
+    return { value: next, counters: {}, result: next };
+  });
+  notifyDakRecordsChanged();
+  return updated;
+}
+
 /**
  * Get all existing DAK records
  * Useful for viewing history or validating previous numbers
@@ -276,6 +304,20 @@ export async function getAllDakRecords(): Promise<DakRecord[]> {
   }
 }
 
+/**
+ * Reference numbers held by more than one record — issued on two PCs while
+ * both were offline from the branch server, and merged by the sync.
+ */
+export function duplicateRefNos(records: DakRecord[]): Set<string> {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const r of records) {
+    if (seen.has(r.refNo)) duplicates.add(r.refNo);
+    seen.add(r.refNo);
+  }
+  return duplicates;
+}
+
 /**
  * Get records for a specific financial year
  */
@@ -301,17 +343,17 @@ export async function getDakRecordsByFY(fy: string): Promise<DakRecord[]> {
 export async function getNextReferencePreview(
   branchCode: string,
   financialYear: string,
-  monthNo: string
+  monthNo: string,
+  letterType: string = "",
+  letterDestination: string = ""
 ): Promise<string> {
   try {
-    // Get the next serial for this FY
-    const serialNo = await getNextSerial(financialYear);
-    
-    // Convert month to abbreviation
-    const monthAbbr = getMonthAbbr(monthNo);
-    
+    // The letter type picks the format and therefore the series
+    const format = resolveRefFormat(await loadRefFormats(), letterType);
+    const serial = await getNextSerial(format.code, financialYear);
+
     // Build and return the reference number (without saving)
-    return buildRefNumber(branchCode, financialYear, monthAbbr, serialNo);
+    return buildRefNumber(format, { branchCode, financialYear, monthNo, letterType, letterDestination }, serial);
   } catch (error) {
     console.error("Error previewing reference number:", error);
     throw error;
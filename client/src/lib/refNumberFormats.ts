@@ -0,0 +1,148 @@
+/**
+ * Reference Number Formats
+ *
+ * Admin-editable patterns used by refNumberEngine.ts to build outward
+ * reference numbers. Each format applies to one or more letter types and
+ * has its own series code, so legal notices, NOCs and memos can run
+ * independent serial counters.
+ *
+ * Pattern tokens:
+ *   {branch}     branch code                 13042
+ *   {fy}         financial year              25-26
+ *   {MON}        month abbreviation          MAR
+ *   {MM}         month number                03
+ *   {type}       letter type                 NOC
+ *   {dest}       letter destination          Customer
+ *   {code}       series code of the format   LGL
+ *   {serial}     serial, at least 3 digits   012
+ *   {serial:N}   serial padded to N digits   {serial:4} → 0012
+ *
+ * Example: "SBI/{branch}/{code}/{fy}/{serial:4}" → SBI/13042/LGL/25-26/0012
+ */
+
+import { loadData, saveData } from "./db";
+
+const FORMATS_KEY = "ref-number-formats";
+
+export const DEFAULT_FORMAT_ID = "default";
+export const DEFAULT_REF_PATTERN = "SBI/{branch}/{fy}/{MON}/{serial}";
+
+// Letter types offered by Dak Number Generator and Letter Generator
+export const REF_LETTER_TYPES = ["Letter", "Memo", "Note", "NOC", "Notices", "Others"];
+
+export interface RefNumberFormat {
+  id: string;
+  name: string;
+  code: string; // series code; "" for the default series
+  pattern: string;
+  letterTypes: string[]; // ignored for the default format, which covers everything else
+}
+
+export interface RefPatternValues {
+  branch: string;
+  fy: string;
+  monthAbbr: string;
+  monthNo: string;
+  letterType: string;
+  letterDestination: string;
+  code: string;
+  serial: number;
+}
+
+const DEFAULT_FORMAT: RefNumberFormat = {
+  id: DEFAULT_FORMAT_ID,
+  name: "Default",
+  code: "",
+  pattern: DEFAULT_REF_PATTERN,
+  letterTypes: [],
+};
+
+const TOKEN_RE = /\{(\w+)(?::(\d+))?\}/g;
+const KNOWN_TOKENS = ["branch", "fy", "MON", "MM", "type", "dest", "code", "serial"];
+
+// ============================================================
+// Pattern language
+// ============================================================
+export function renderRefPattern(pattern: string, v: RefPatternValues): string {
+  return pattern.replace(TOKEN_RE, (match, token: string, width?: string) => {
+    switch (token) {
+      case "branch": return v.branch;
+      case "fy": return v.fy;
+      case "MON": return v.monthAbbr;
+      case "MM": return v.monthNo;
+      case "type": return v.letterType;
+      case "dest": return v.letterDestination;
+      case "code": return v.code;
+      case "serial": return String(v.serial).padStart(width ? parseInt(width, 10) : 3, "0");
+      default: return match;
+    }
+  });
+}
+
+/** Padding width of the {serial} token (3 when not given) */
+export function refSerialWidth(pattern: string): number {
+  const m = /\{serial(?::(\d+))?\}/.exec(pattern);
+  return m && m[1] ? parseInt(m[1], 10) : 3;
+}
+
+/** Returns an error message, or null if the pattern is usable */
+export function validateRefPattern(pattern: string): string | null {
+  if (!pattern.trim()) return "Pattern is required";
+  const tokens = Array.from(pattern.matchAll(TOKEN_RE));
+  const unknown = tokens.find((t) => !KNOWN_TOKENS.includes(t[1]));
+  if (unknown) return `Unknown token ${unknown[0]}`;
+  const serials = tokens.filter((t) => t[1] === "serial");
+  if (serials.length !== 1) return "Pattern must contain exactly one {serial} token";
+  const width = serials[0][2] ? parseInt(serials[0][2], 10) : 3;
+  if (width < 1 || width > 8) return "Serial width must be between 1 and 8";
+  // Serials restart every FY, so a pattern without {fy} would repeat numbers
+  if (!tokens.some((t) => t[1] === "fy")) return "Pattern must contain {fy}";
+  return null;
+}
+
+// ============================================================
+// Storage
+// ============================================================
+export async function loadRefFormats(): Promise<RefNumberFormat[]> {
+  const stored = await loadData(FORMATS_KEY);
+  const formats: RefNumberFormat[] = Array.isArray(stored) ? stored : [];
+  return formats.some((f) => f.id === DEFAULT_FORMAT_ID) ? formats : [DEFAULT_FORMAT, ...formats];
+}
+
+export async function saveRefFormats(formats: RefNumberFormat[]): Promise<void> {
+  const codes = new Set<string>();
+  const claimedTypes = new Map<string, string>();
+
+  for (const f of formats) {
+    const label = f.name || f.code || "Unnamed format";
+    const patternError = validateRefPattern(f.pattern);
+    if (patternError) throw new Error(`${label}: ${patternError}`);
+
+    if (f.id !== DEFAULT_FORMAT_ID) {
+      if (!/^[A-Z0-9]{1,10}$/.test(f.code)) throw new Error(`${label}: series code must be 1-10 letters/digits in capitals`);
+      if (f.letterTypes.length === 0) throw new Error(`${label}: select at least one letter type`);
+      // Without the code two series could print the same number
+      if (!f.pattern.includes("{code}")) throw new Error(`${label}: pattern must contain {code}`);
+    }
+    if (codes.has(f.code)) throw new Error(`Series code "${f.code}" is used twice`);
+    codes.add(f.code);
+
+    for (const t of f.letterTypes) {
+      if (claimedTypes.has(t)) throw new Error(`Letter type "${t}" is assigned to both ${claimedTypes.get(t)} and ${label}`);
+      claimedTypes.set(t, label);
+    }
+  }
+  if (!formats.some((f) => f.id === DEFAULT_FORMAT_ID)) throw new Error("The default format cannot be removed");
+
+  await saveData(FORMATS_KEY, formats);
+}
+
+/** Format for a letter type — the one that lists it, otherwise the default */
+export function resolveRefFormat(formats: RefNumberFormat[], letterType: string): RefNumberFormat {
+  const type = (letterType || "").toLowerCase();
+  return (
+    formats.find((f) => f.id !== DEFAULT_FORMAT_ID && f.letterTypes.some((t) => t.toLowerCase() === type)) ||
+    formats.find((f) => f.id === DEFAULT_FORMAT_ID) ||
+    DEFAULT_FORMAT
+  );
+}
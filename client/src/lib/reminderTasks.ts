@@ -0,0 +1,64 @@
+/**
+ * Reminders Tasks
+ *
+ * The task list of the Reminders app (app_data "sbi-tasks"), and the one way
+ * other apps raise one-time tasks in it: Legal Proceedings for SARFAESI
+ * deadlines, the Charges Return vendor master for contract renewals.
+ */
+
+import { updateDataWithCounters } from "./db";
+
+export const TASKS_KEY = "sbi-tasks";
+
+export interface Task {
+  id: string;
+  name: string;
+  frequency: "One-time" | "Daily" | "Weekly" | "Monthly" | "Quarterly" | "Annual";
+  dueDate: string;
+  completed: boolean;
+  createdAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+}
+
+export interface IssuedReminder {
+  id: string;
+  name: string;
+  dueDate: string;
+}
+
+/**
+ * Bring the tasks an app has issued in line with the reminders it now wants:
+ * add a one-time task for each wanted reminder not issued before and withdraw
+ * issued tasks that are no longer wanted. A task the user completed (and so
+ * removed) is not issued again. Read and written in one transaction, so edits
+ * made in the Reminders app meanwhile are kept. Returns the ids now issued.
+ */
+export async function syncIssuedReminders(
+  issuedIds: string[],
+  wanted: IssuedReminder[],
+  createdBy: string
+): Promise<string[]> {
+  const issued = new Set(issuedIds);
+  const wantedIds = new Set(wanted.map((r) => r.id));
+  if (wanted.length === 0 && issued.size === 0) return [];
+
+  await updateDataWithCounters(TASKS_KEY, [], (value) => {
+    const tasks: Task[] = Array.isArray(value) ? value : [];
+    const kept = tasks.filter((t) => !(issued.has(t.id) && !wantedIds.has(t.id)));
+    for (const reminder of wanted) {
+      if (issued.has(reminder.id) || kept.some((t) => t.id === reminder.id)) continue;
+      kept.push({
+        id: reminder.id,
+        name: reminder.name,
+        frequency: "One-time",
+        dueDate: reminder.dueDate,
+        completed: false,
+        createdAt: new Date().toISOString(),
+        createdBy,
+      });
+    }
+    return { value: kept, counters: {}, result: null };
+  });
+  return Array.from(wantedIds);
+}
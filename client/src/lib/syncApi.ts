@@ -0,0 +1,89 @@
+/**
+ * LAN Sync API Client
+ *
+ * Requests to the sync API of the app's own server (server/sync.ts), used by
+ * the sync engine and by the registers that take their serials from the
+ * server (refNumberEngine.ts, inwardDak.ts). Every request carries this PC's
+ * branch sync key; the key and the PC's client id live in SBI_Sync_DB.
+ *
+ * Like syncQueue.ts this module does not import the data modules, so they
+ * can depend on it without a cycle.
+ */
+
+import { SYNC_KEY_HEADER, SerialRequest, SerialReservationResponse } from "@shared/sync";
+import { getSyncState, hasJoinedSync, setSyncState } from "./syncQueue";
+
+export const SYNC_API = "/api/sync";
+const REQUEST_TIMEOUT_MS = 30000;
+// Issuing a serial waits no longer than this for the server before using this PC's counter
+const RESERVE_TIMEOUT_MS = 5000;
+const CLIENT_ID_KEY = "clientId";
+const SYNC_KEY_STATE = "syncKey";
+
+export class SyncKeyError extends Error {
+  constructor(message = "Enter the branch sync key on this PC") {
+    super(message);
+    this.name = "SyncKeyError";
+  }
+}
+
+export async function fetchJSON<T>(url: string, init?: RequestInit, timeoutMs = REQUEST_TIMEOUT_MS): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const headers = new Headers(init?.headers);
+    const syncKey = await getSyncState<string>(SYNC_KEY_STATE);
+    if (syncKey) headers.set(SYNC_KEY_HEADER, syncKey);
+    const response = await fetch(url, { ...init, headers, signal: controller.signal });
+    const body = await response.json().catch(() => null);
+    if (response.status === 401) throw new SyncKeyError(body?.error);
+    if (!response.ok) throw new Error(body?.error || `Sync server returned ${response.status}`);
+    return body as T;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function scopeUrl(scope: string, path: string): string {
+  return `${SYNC_API}/${encodeURIComponent(scope)}/${path}`;
+}
+
+export async function saveSyncKey(key: string): Promise<void> {
+  await setSyncState(SYNC_KEY_STATE, key.trim());
+}
+
+export async function getClientId(): Promise<string> {
+  const existing = await getSyncState<string>(CLIENT_ID_KEY);
+  if (existing) return existing;
+  // crypto.randomUUID needs a secure context, which a plain-http LAN address is not
+  const id = `pc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  await setSyncState(CLIENT_ID_KEY, id);
+  return id;
+}
+
+/**
+ * Reserve serials from the branch server. Returns the first serial of each
+ * counter, or null when this PC does not sync or the server cannot be
+ * reached — the caller then numbers from its own counter, and a collision
+ * with another PC shows up in the register once both have synced.
+ */
+export async function reserveSerials(requests: SerialRequest[]): Promise<Record<string, number> | null> {
+  if (requests.length === 0 || !/^https?:$/.test(window.location.protocol) || !hasJoinedSync() || !navigator.onLine) {
+    return null;
+  }
+  try {
+    const response = await fetchJSON<SerialReservationResponse>(
+      `${SYNC_API}/serials`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ clientId: await getClientId(), requests }),
+      },
+      RESERVE_TIMEOUT_MS
+    );
+    return response.first;
+  } catch (error) {
+    console.warn("Could not reserve serials from the sync server; using this PC's counter:", error);
+    return null;
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * LAN Sync Engine
+ *
+ * Keeps this PC's data in step with the other branch PCs through the sync API
+ * of the app's own server (server/sync.ts). Covers the stores of db.ts (app
+ * data and Dak counters), portfolioDb.ts and loanFilePersistence.ts — see
+ * SYNC_SCOPES in shared/sync.ts.
+ *
+ * - Those modules queue every committed write (syncQueue.ts); edits made while
+ *   the server is unreachable simply wait in the queue
+ * - Every SYNC_INTERVAL_MS, and when the network comes back, each scope pushes
+ *   its queue and then pulls what other PCs changed since its cursor
+ * - Records travel exactly as stored. User accounts, the vault and the values
+ *   sealed with it stay on their PC (each PC has its own vault key); see
+ *   isSyncedKey in shared/sync.ts
+ * - Conflicts are settled on the server by the scope's policy; the server's
+ *   copy is written back here whenever it differs from what was pushed
+ * - A PC starts syncing the first time it reaches the server with the branch
+ *   sync key (pushing all its data once), and again from scratch after a
+ *   backup restore. The key is entered once per PC and kept in SBI_Sync_DB
+ *
+ * Dak serials are reserved from the server while it is reachable (see
+ * reserveSerials in syncApi.ts). Known limits: a list item deleted on one PC
+ * can come back if another PC edited the same list before syncing; serials
+ * issued on two PCs while both were offline can collide, and are flagged in
+ * the registers once synced; the audit trail stays per PC. Only runs when the app is served over http(s), not file://.
+ */
+
+import {
+  SYNC_BATCH_SIZE,
+  SYNC_SCOPES,
+  SyncChange,
+  SyncChangesResponse,
+  SyncPushResponse,
+  SyncRecord,
+  SyncStatusResponse,
+  isSyncedKey,
+  syncScope,
+} from "@shared/sync";
+import { recordAudit } from "./auditLog";
+import { db } from "./db";
+import { loanFilePersistence } from "./loanFilePersistence";
+import { applyRawRecords, getRawKeys, getRawRecords } from "./portfolioDb";
+import { notifyDakRecordsChanged } from "./refNumberEngine";
+import {
+  CURSOR_PREFIX,
+  clearFullResyncRequest,
+  clearOutbox,
+  countOutbox,
+  discardUnsyncedEntries,
+  getSyncState,
+  getVersions,
+  hasJoinedSync,
+  isFullResyncRequested,
+  markSyncJoined,
+  pendingKeys,
+  queueAllKeys,
+  resetSyncVersions,
+  setSyncState,
+  setVersions,
+  takeOutbox,
+} from "./syncQueue";
+import { SYNC_API, SyncKeyError, fetchJSON, getClientId, saveSyncKey, scopeUrl } from "./syncApi";
+
+const SYNC_INTERVAL_MS = 15000;
+const AUDIT_APP = "LAN Sync";
+const APP_DATA_SCOPE = syncScope("SBI_Branch_App_DB", "app_data");
+
+// Dispatched on window after records from other PCs are written here
+export const SYNC_APPLIED_EVENT = "sbi-sync-applied";
+
+/**
+ * - unavailable: not served by the sync server (file://, or never reached)
+ * - offline: synced before but the server is unreachable; edits are queued
+ * - needs-key: the server refused this PC's sync key (or it has none yet)
+ */
+export type SyncState = "unavailable" | "offline" | "needs-key" | "syncing" | "synced" | "error";
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;          // queued local edits
+  lastSyncAt: string | null; // ISO
+  error?: string;
+}
+
+interface StoreAdapter {
+  keys: () => Promise<string[]>;
+  read: (keys: string[]) => Promise<Map<string, any>>;
+  apply: (records: { key: string; record: any }[]) => Promise<void>;
+}
+
+let status: SyncStatus = { state: "unavailable", pending: 0, lastSyncAt: null };
+const listeners = new Set<(status: SyncStatus) => void>();
+let running: Promise<void> | null = null;
+
+// ============================================================
+// Status
+// ============================================================
+function setStatus(next: Partial<SyncStatus>) {
+  status = { ...status, ...next };
+  listeners.forEach((cb) => cb(status));
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+/** Subscribe to sync status changes. Returns an unsubscribe function. */
+export function subscribeSyncStatus(onChange: (status: SyncStatus) => void): () => void {
+  listeners.add(onChange);
+  return () => listeners.delete(onChange);
+}
+
+// ============================================================
+// Stores
+// ============================================================
+function adapterFor(scope: string): StoreAdapter {
+  const [dbName, storeName] = scope.split("/");
+  if (dbName === "SBI_Branch_App_DB") {
+    return {
+      keys: () => db.getRawKeys(storeName),
+      read: (keys) => db.getRawRecords(storeName, keys),
+      apply: (records) => db.applyRawRecords(storeName, records),
+    };
+  }
+  if (dbName === "LoanFileManagerDB") {
+    return {
+      keys: () => loanFilePersistence.getAllKeys(),
+      read: (keys) => loanFilePersistence.getRawRecords(keys),
+      apply: (records) => loanFilePersistence.applyRawRecords(records),
+    };
+  }
+  return {
+    keys: () => getRawKeys(storeName),
+    read: (keys) => getRawRecords(storeName, keys),
+    apply: (records) => applyRawRecords(storeName, records),
+  };
+}
+
+/** Edit time carried by the record itself, for full-resync entries */
+function recordTime(record: any): number {
+  if (typeof record?.timestamp === "number") return record.timestamp;
+  if (typeof record?.updatedAt === "number") return record.updatedAt;
+  return 0;
+}
+
+async function applyIncoming(scope: string, adapter: StoreAdapter, records: SyncRecord[]): Promise<void> {
+  await adapter.apply(records.map((r) => ({ key: r.key, record: r.deleted ? null : r.value })));
+  await setVersions(scope, records.map((r) => ({ key: r.key, version: r.version })));
+
+  recordAudit({
+    app: AUDIT_APP,
+    source: scope,
+    recordKey: records.length === 1 ? records[0].key : "*",
+    action: "sync",
+    summary: `${records.length} record(s) received from the sync server`,
+  });
+  if (scope === APP_DATA_SCOPE && records.some((r) => r.key === "dak-records")) notifyDakRecordsChanged();
+  window.dispatchEvent(new CustomEvent(SYNC_APPLIED_EVENT, { detail: { scope, keys: records.map((r) => r.key) } }));
+}
+
+// ============================================================
+// Push / pull
+// ============================================================
+async function pushScope(scope: string, clientId: string): Promise<void> {
+  const adapter = adapterFor(scope);
+  for (;;) {
+    const entries = await takeOutbox(scope, SYNC_BATCH_SIZE);
+    if (entries.length === 0) return;
+
+    const keys = entries.map((e) => e.key);
+    const [records, versions] = await Promise.all([adapter.read(keys), getVersions(scope, keys)]);
+    const changes: SyncChange[] = entries.map((entry) => {
+      const record = entry.deleted ? null : records.get(entry.key) ?? null;
+      return {
+        key: entry.key,
+        value: record,
+        deleted: record === null,
+        baseVersion: versions.get(entry.key) ?? 0,
+        updatedAt: entry.queuedAt || recordTime(record),
+      };
+    });
+
+    const response = await fetchJSON<SyncPushResponse>(scopeUrl(scope, "push"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ clientId, changes }),
+    });
+
+    // Conflicts the server settled its own way: take its copy
+    const incoming = response.results
+      .filter((r) => r.resolution === "server-kept" || r.resolution === "merged")
+      .map((r) => r.record);
+    if (incoming.length > 0) await applyIncoming(scope, adapter, incoming);
+    await setVersions(scope, response.results.map((r) => ({ key: r.key, version: r.record.version })));
+    await clearOutbox(entries);
+  }
+}
+
+async function pullScope(scope: string): Promise<void> {
+  const adapter = adapterFor(scope);
+  const cursorKey = CURSOR_PREFIX + scope;
+  let cursor = (await getSyncState<number>(cursorKey)) ?? 0;
+
+  for (;;) {
+    const page = await fetchJSON<SyncChangesResponse>(scopeUrl(scope, `changes?since=${cursor}&limit=${SYNC_BATCH_SIZE}`));
+    if (page.records.length > 0) {
+      const keys = page.records.map((r) => r.key);
+      const [versions, pending] = await Promise.all([getVersions(scope, keys), pendingKeys(scope)]);
+      // Our own pushes come back here; keys with unpushed edits are settled by the next push
+      const fresh = page.records.filter((r) => r.version > (versions.get(r.key) ?? 0) && !pending.has(r.key));
+      if (fresh.length > 0) await applyIncoming(scope, adapter, fresh);
+    }
+    cursor = page.cursor;
+    await setSyncState(cursorKey, cursor);
+    if (!page.hasMore) return;
+  }
+}
+
+/** Queue every local record so it is compared with the server copy */
+async function queueEverything(): Promise<void> {
+  await resetSyncVersions();
+  for (const scope of Object.keys(SYNC_SCOPES)) {
+    const keys = await adapterFor(scope).keys();
+    await queueAllKeys(scope, keys.filter((key) => isSyncedKey(scope, key)));
+  }
+}
+
+/** Save the branch sync key on this PC and sync with it */
+export async function setSyncKey(key: string): Promise<void> {
+  await saveSyncKey(key);
+  await syncNow();
+}
+
+async function runSync(): Promise<void> {
+  let server: SyncStatusResponse | null = null;
+  try {
+    server = await fetchJSON<SyncStatusResponse>(`${SYNC_API}/status`);
+  } catch (error) {
+    if (error instanceof SyncKeyError) {
+      setStatus({ state: "needs-key", pending: hasJoinedSync() ? await countOutbox() : 0, error: error.message });
+      return;
+    }
+  }
+  // A dev server or plain static host answers with index.html instead of the sync API
+  if (!server || !server.scopes) {
+    const joined = hasJoinedSync();
+    setStatus({ state: joined ? "offline" : "unavailable", pending: joined ? await countOutbox() : 0 });
+    return;
+  }
+
+  if (!hasJoinedSync()) markSyncJoined();
+  setStatus({ state: "syncing" });
+  try {
+    if (isFullResyncRequested()) {
+      await queueEverything();
+      clearFullResyncRequest();
+    }
+    await discardUnsyncedEntries();
+    const clientId = await getClientId();
+    for (const scope of Object.keys(SYNC_SCOPES)) {
+      await pushScope(scope, clientId);
+      await pullScope(scope);
+    }
+    setStatus({ state: "synced", pending: await countOutbox(), lastSyncAt: new Date().toISOString(), error: undefined });
+  } catch (error: any) {
+    if (error instanceof SyncKeyError) {
+      setStatus({ state: "needs-key", pending: await countOutbox().catch(() => status.pending), error: error.message });
+      return;
+    }
+    console.error("Sync failed:", error);
+    setStatus({ state: "error", pending: await countOutbox().catch(() => status.pending), error: error?.message || "Sync failed" });
+  }
+}
+
+/** Push and pull now. Calls made while a sync is running share it. */
+export function syncNow(): Promise<void> {
+  if (!running) {
+    running = runSync().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+/**
+ * Start periodic sync. Called once at startup, after migrations; returns a
+ * function that stops it.
+ */
+export function startSync(): () => void {
+  if (!/^https?:$/.test(window.location.protocol)) return () => {};
+
+  const tick = () => {
+    syncNow().catch((e) => console.warn("Sync run failed:", e));
+  };
+  tick();
+  const timer = setInterval(tick, SYNC_INTERVAL_MS);
+  window.addEventListener("online", tick);
+  return () => {
+    clearInterval(timer);
+    window.removeEventListener("online", tick);
+  };
+}
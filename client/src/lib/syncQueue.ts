@@ -0,0 +1,275 @@
+/**
+ * LAN Sync Bookkeeping
+ *
+ * Per-PC state of the sync engine (see syncEngine.ts), in its own database so
+ * backups and restores never carry one PC's queue to another:
+ * - outbox: keys edited on this PC and not yet pushed (one entry per key)
+ * - versions: the server version each record was last synced at
+ * - state: pull cursors per scope and this PC's client id
+ *
+ * db.ts, portfolioDb.ts and loanFilePersistence.ts call queueSyncChanges()
+ * after each committed write. This module does not import them (the engine
+ * does), so they can depend on it without a cycle.
+ */
+
+import { isSyncScope, isSyncedKey, syncScope } from "@shared/sync";
+import { openMigratedDB } from "./migrations";
+
+// Schema and version are declared in migrations.ts
+const SYNC_DB_NAME = "SBI_Sync_DB";
+const OUTBOX_STORE = "outbox";
+const VERSIONS_STORE = "versions";
+const STATE_STORE = "state";
+// State keys of the per-scope pull cursors
+export const CURSOR_PREFIX = "cursor:";
+
+// Set once this PC has reached a sync server; nothing is queued before that
+const SYNC_JOINED_KEY = "sbi-sync-joined";
+// Set by restores (which bypass the data modules) to push everything again
+const FULL_RESYNC_KEY = "sbi-sync-full-resync";
+
+export interface OutboxEntry {
+  id: string; // scope + "\n" + key
+  scope: string;
+  key: string;
+  deleted: boolean;
+  queuedAt: number; // time of the edit (ms), 0 for a full resync; sent as the change's updatedAt
+}
+
+interface VersionEntry {
+  id: string; // scope + "\n" + key
+  version: number;
+}
+
+let dbInstance: IDBDatabase | null = null;
+let lastQueuedAt = 0;
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbInstance) return Promise.resolve(dbInstance);
+  return openMigratedDB(SYNC_DB_NAME, () => {
+    dbInstance = null;
+  }).then((db) => {
+    dbInstance = db;
+    return db;
+  });
+}
+
+function entryId(scope: string, key: string): string {
+  return `${scope}\n${key}`;
+}
+
+export function isSyncDatabase(dbName: string | undefined): boolean {
+  return dbName === SYNC_DB_NAME;
+}
+
+// ============================================================
+// Joining
+// ============================================================
+export function hasJoinedSync(): boolean {
+  return localStorage.getItem(SYNC_JOINED_KEY) === "1";
+}
+
+/** First contact with a sync server: start queueing and push everything once */
+export function markSyncJoined(): void {
+  localStorage.setItem(SYNC_JOINED_KEY, "1");
+  requestFullResync();
+}
+
+/** Push every local record on the next sync (after a restore, or on joining) */
+export function requestFullResync(): void {
+  localStorage.setItem(FULL_RESYNC_KEY, "1");
+}
+
+export function isFullResyncRequested(): boolean {
+  return localStorage.getItem(FULL_RESYNC_KEY) === "1";
+}
+
+export function clearFullResyncRequest(): void {
+  localStorage.removeItem(FULL_RESYNC_KEY);
+}
+
+// ============================================================
+// Outbox
+// ============================================================
+/**
+ * Queue committed writes for the next push. Never throws — a failure here
+ * must not fail the write itself; the next full resync picks it up.
+ */
+export function queueSyncChanges(dbName: string, storeName: string, keys: IDBValidKey[], deleted: boolean): void {
+  const scope = syncScope(dbName, storeName);
+  if (!isSyncScope(scope) || !hasJoinedSync()) return;
+  keys = keys.filter((key) => isSyncedKey(scope, String(key)));
+  if (keys.length === 0) return;
+  // Strictly increasing, so clearOutbox can tell a re-edit during a push from the pushed edit
+  const queuedAt = (lastQueuedAt = Math.max(Date.now(), lastQueuedAt + 1));
+
+  openDB()
+    .then(
+      (db) =>
+        new Promise<void>((resolve, reject) => {
+          const tx = db.transaction(OUTBOX_STORE, "readwrite");
+          const store = tx.objectStore(OUTBOX_STORE);
+          for (const raw of keys) {
+            const key = String(raw);
+            store.put({ id: entryId(scope, key), scope, key, deleted, queuedAt } as OutboxEntry);
+          }
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+        })
+    )
+    .catch((e) => console.warn(`Failed to queue ${keys.length} change(s) of ${scope} for sync:`, e));
+}
+
+/**
+ * Queue every existing key of a scope for a full resync. Entries carry no edit
+ * time (queuedAt 0), so on a conflict the server copy wins unless the record
+ * has a newer timestamp of its own; pending edits are left as they are.
+ */
+export async function queueAllKeys(scope: string, keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(OUTBOX_STORE, "readwrite");
+    const store = tx.objectStore(OUTBOX_STORE);
+    for (const key of keys) {
+      const id = entryId(scope, key);
+      const current = store.get(id);
+      current.onsuccess = () => {
+        if (!current.result) store.put({ id, scope, key, deleted: false, queuedAt: 0 } as OutboxEntry);
+      };
+    }
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function takeOutbox(scope: string, limit?: number): Promise<OutboxEntry[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(OUTBOX_STORE, "readonly").objectStore(OUTBOX_STORE).index("scope").getAll(scope, limit);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Drop pushed entries, unless the key was edited again while the push was in flight */
+export async function clearOutbox(entries: OutboxEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(OUTBOX_STORE, "readwrite");
+    const store = tx.objectStore(OUTBOX_STORE);
+    for (const entry of entries) {
+      const current = store.get(entry.id);
+      current.onsuccess = () => {
+        if (current.result && current.result.queuedAt === entry.queuedAt) store.delete(entry.id);
+      };
+    }
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/** Drop queued entries that are no longer synced (scopes or keys made local-only) */
+export async function discardUnsyncedEntries(): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(OUTBOX_STORE, "readwrite");
+    const request = tx.objectStore(OUTBOX_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const entry = cursor.value as OutboxEntry;
+      if (!isSyncedKey(entry.scope, entry.key)) cursor.delete();
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/** Keys of a scope with unpushed local edits */
+export async function pendingKeys(scope: string): Promise<Set<string>> {
+  const entries = await takeOutbox(scope);
+  return new Set(entries.map((e) => e.key));
+}
+
+export async function countOutbox(): Promise<number> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(OUTBOX_STORE, "readonly").objectStore(OUTBOX_STORE).count();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ============================================================
+// Versions and state
+// ============================================================
+export async function getVersions(scope: string, keys: string[]): Promise<Map<string, number>> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(VERSIONS_STORE, "readonly");
+    const store = tx.objectStore(VERSIONS_STORE);
+    const versions = new Map<string, number>();
+    for (const key of keys) {
+      const request = store.get(entryId(scope, key));
+      request.onsuccess = () => {
+        if (request.result) versions.set(key, (request.result as VersionEntry).version);
+      };
+    }
+    tx.oncomplete = () => resolve(versions);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function setVersions(scope: string, versions: { key: string; version: number }[]): Promise<void> {
+  if (versions.length === 0) return;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(VERSIONS_STORE, "readwrite");
+    const store = tx.objectStore(VERSIONS_STORE);
+    for (const { key, version } of versions) {
+      store.put({ id: entryId(scope, key), version } as VersionEntry);
+    }
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/** Forget synced versions and pull cursors, so everything is compared with the server again */
+export async function resetSyncVersions(): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([VERSIONS_STORE, STATE_STORE], "readwrite");
+    tx.objectStore(VERSIONS_STORE).clear();
+    const state = tx.objectStore(STATE_STORE);
+    const keys = state.getAllKeys();
+    keys.onsuccess = () => {
+      for (const key of keys.result) {
+        if (String(key).startsWith(CURSOR_PREFIX)) state.delete(key);
+      }
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function getSyncState<T>(key: string): Promise<T | undefined> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STATE_STORE, "readonly").objectStore(STATE_STORE).get(key);
+    request.onsuccess = () => resolve(request.result ? request.result.value : undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function setSyncState(key: string, value: any): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STATE_STORE, "readwrite");
+    tx.objectStore(STATE_STORE).put({ key, value });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
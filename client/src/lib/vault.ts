@@ -0,0 +1,250 @@
+/**
+ * Vault — encryption at rest for customer PII
+ *
+ * RLMS drafts (PAN, Aadhaar, passport numbers), Visit Log Book reports and
+ * the Branch Portfolio customer dimension are stored AES-GCM encrypted. The
+ * data key is random and kept only in memory while someone is signed in; on
+ * disk it exists only wrapped (encrypted) once per user account with a key
+ * derived from that user's password. Logging in unlocks the vault, logging
+ * out or the inactivity timer (AuthContext) locks it again.
+ *
+ * - db.ts seals/opens PROTECTED_KEYS through the codec installed below
+ * - portfolioDb.ts seals PROTECTED_STORES record by record, leaving the key
+ *   path and index fields in clear so lookups and dashboard counts still work
+ * - Before the first account exists there is no vault and nothing to derive a
+ *   key from, so data stays in clear until the first login creates the vault;
+ *   existing cleartext is sealed then (sealLegacyValues / sealLegacyRecords)
+ * - A user created before the vault gets a key when a Branch Manager resets
+ *   their password
+ */
+
+import { loadData, saveData, setValueCodec } from "./db";
+import {
+  PBKDF2_ITERATIONS,
+  decryptBytes,
+  deriveAesKey,
+  encryptBytes,
+  fromBase64,
+  newSalt,
+  toBase64,
+} from "./passphraseCrypto";
+
+// Vault record in db.ts (wrapped data keys only — never encrypted itself)
+const VAULT_KEY = "sbi-vault";
+
+// Signed-in users are logged out (and the vault locked) after this much inactivity
+export const VAULT_AUTO_LOCK_MINUTES = 15;
+
+// db.ts keys holding PII (never synced — see LOCAL_ONLY_KEYS in shared/sync.ts)
+const PROTECTED_KEYS = ["rlmsDraft", "bank_visit_reports"];
+const PROTECTED_KEY_PREFIXES = ["rlmsApp_"];
+
+// Portfolio stores holding PII → fields kept in clear (key path and indexes)
+export const PROTECTED_STORES: Record<string, string[]> = {
+  "customer-dim": ["CIF", "HNI_Category", "CustomerSegment"],
+};
+
+interface WrappedKey {
+  salt: string;       // base64
+  iterations: number;
+  iv: string;         // base64
+  key: string;        // base64 AES-GCM ciphertext of the raw data key
+}
+
+interface VaultRecord {
+  version: 1;
+  createdAt: string;
+  keys: Record<string, WrappedKey>; // by user id
+}
+
+export interface SealedValue {
+  __vault: 1;
+  iv: string;   // base64
+  data: string; // base64 AES-GCM ciphertext of the JSON value
+}
+
+export class VaultLockedError extends Error {
+  constructor(message = "Protected customer data is locked. Log in to open it.") {
+    super(message);
+    this.name = "VaultLockedError";
+  }
+}
+
+let dataKey: CryptoKey | null = null;
+const listeners = new Set<(unlocked: boolean) => void>();
+
+function notify() {
+  listeners.forEach((cb) => cb(dataKey !== null));
+}
+
+// ============================================================
+// Keys
+// ============================================================
+async function loadVault(): Promise<VaultRecord | null> {
+  const vault = await loadData(VAULT_KEY);
+  return vault && vault.version === 1 && vault.keys ? vault : null;
+}
+
+async function wrapDataKey(key: CryptoKey, password: string): Promise<WrappedKey> {
+  const salt = newSalt();
+  const kek = await deriveAesKey(password, salt, PBKDF2_ITERATIONS);
+  const raw = new Uint8Array(await crypto.subtle.exportKey("raw", key));
+  const { iv, ciphertext } = await encryptBytes(kek, raw);
+  return { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, iv: toBase64(iv), key: toBase64(ciphertext) };
+}
+
+async function unwrapDataKey(wrapped: WrappedKey, password: string): Promise<CryptoKey> {
+  const kek = await deriveAesKey(password, fromBase64(wrapped.salt), wrapped.iterations);
+  const raw = await decryptBytes(kek, fromBase64(wrapped.iv), fromBase64(wrapped.key));
+  // Extractable so it can be wrapped for other users; it never leaves memory unwrapped
+  return crypto.subtle.importKey("raw", raw as BufferSource, { name: "AES-GCM" }, true, ["encrypt", "decrypt"]);
+}
+
+export function isVaultUnlocked(): boolean {
+  return dataKey !== null;
+}
+
+export async function hasVault(): Promise<boolean> {
+  return (await loadVault()) !== null;
+}
+
+/** Subscribe to lock/unlock. Returns an unsubscribe function. */
+export function subscribeVault(onChange: (unlocked: boolean) => void): () => void {
+  listeners.add(onChange);
+  return () => listeners.delete(onChange);
+}
+
+/**
+ * Unlock with the signed-in user's password (already verified). Creates the
+ * vault on the first login. Returns false if this account has no key yet.
+ */
+export async function unlockVault(userId: string, password: string): Promise<boolean> {
+  let vault = await loadVault();
+  if (!vault) {
+    const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+    vault = { version: 1, createdAt: new Date().toISOString(), keys: { [userId]: await wrapDataKey(key, password) } };
+    await saveData(VAULT_KEY, vault);
+    dataKey = key;
+  } else {
+    const wrapped = vault.keys[userId];
+    if (!wrapped) return false;
+    dataKey = await unwrapDataKey(wrapped, password);
+  }
+  notify();
+  return true;
+}
+
+/**
+ * Give an account access to the vault (new user, or password changed). The
+ * vault must be unlocked. No-op before the vault exists.
+ */
+export async function grantVaultAccess(userId: string, password: string): Promise<void> {
+  const vault = await loadVault();
+  if (!vault) return;
+  if (!dataKey) throw new VaultLockedError("Protected data is locked, so this password cannot be given access to it. Log in again and retry.");
+  await saveData(VAULT_KEY, { ...vault, keys: { ...vault.keys, [userId]: await wrapDataKey(dataKey, password) } });
+}
+
+export function lockVault(): void {
+  if (!dataKey) return;
+  dataKey = null;
+  notify();
+}
+
+// ============================================================
+// Values
+// ============================================================
+export function isSealed(value: any): value is SealedValue {
+  return !!value && typeof value === "object" && value.__vault === 1 && typeof value.data === "string";
+}
+
+export function isProtectedKey(key: string): boolean {
+  return PROTECTED_KEYS.includes(key) || PROTECTED_KEY_PREFIXES.some((p) => key.startsWith(p));
+}
+
+async function seal(value: any): Promise<SealedValue> {
+  const { iv, ciphertext } = await encryptBytes(dataKey!, new TextEncoder().encode(JSON.stringify(value)));
+  return { __vault: 1, iv: toBase64(iv), data: toBase64(ciphertext) };
+}
+
+async function open(sealed: SealedValue): Promise<any> {
+  const plaintext = await decryptBytes(dataKey!, fromBase64(sealed.iv), fromBase64(sealed.data));
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+/** Encrypt a value. Cleartext is kept only while no vault exists yet. */
+export async function sealValue(value: any): Promise<any> {
+  if (value === null || value === undefined || isSealed(value)) return value;
+  if (dataKey) return seal(value);
+  if (await hasVault()) throw new VaultLockedError();
+  return value;
+}
+
+export async function openValue(value: any): Promise<any> {
+  if (!isSealed(value)) return value;
+  if (!dataKey) throw new VaultLockedError();
+  return open(value);
+}
+
+setValueCodec({
+  isProtected: isProtectedKey,
+  seal: sealValue,
+  open: openValue,
+  needsSealing: (value) => dataKey !== null && value !== null && !isSealed(value),
+});
+
+// ============================================================
+// Store records
+// ============================================================
+/**
+ * Encrypt records of a protected store, leaving their clear fields readable.
+ * Throws while locked; records stay in clear while no vault exists yet.
+ */
+export async function sealRecords(storeName: string, records: any[]): Promise<any[]> {
+  const clearFields = PROTECTED_STORES[storeName];
+  if (!clearFields || records.length === 0) return records;
+  if (!dataKey) {
+    // Checked once per batch — CBS uploads write 100k+ customer records
+    if (await hasVault()) throw new VaultLockedError();
+    return records;
+  }
+  return Promise.all(
+    records.map(async (record) => {
+      if (isSealed(record)) return record;
+      const out: any = await seal(record);
+      for (const f of clearFields) if (record[f] !== undefined) out[f] = record[f];
+      return out;
+    })
+  );
+}
+
+/** Decrypt a record; while locked only the clear fields are returned */
+export async function openRecord(storeName: string, record: any): Promise<any> {
+  if (!isSealed(record)) return record;
+  if (dataKey) return open(record);
+  const clear: Record<string, any> = record;
+  const out: any = { __locked: true };
+  for (const f of PROTECTED_STORES[storeName] || []) if (clear[f] !== undefined) out[f] = clear[f];
+  return out;
+}
+
+/**
+ * Encrypt protected db.ts values written before the vault existed, including
+ * RLMS applications only ever saved to localStorage. Called after unlock.
+ */
+export async function sealLegacyValues(): Promise<void> {
+  if (!dataKey) return;
+  const keys = new Set(PROTECTED_KEYS);
+  for (let i = 0; i < localStorage.length; i++) {
+    const k = localStorage.key(i);
+    if (k && isProtectedKey(k)) keys.add(k);
+  }
+  // loadData seals cleartext values as it reads them (see db.ts get)
+  for (const key of Array.from(keys)) {
+    try {
+      await loadData(key);
+    } catch (e) {
+      console.warn(`Failed to encrypt ${key}:`, e);
+    }
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * Audit Log Viewer
+ *
+ * Read-only view of the tamper-evident audit trail (see lib/auditLog.ts).
+ * Filter by app and date range, expand an entry to see the field-level
+ * before/after values, and verify the hash chain to confirm no history has
+ * been removed or edited. Visible to Branch Manager and Officer roles.
+ */
+
+import { sbiLogoUrl } from '@/lib/assets';
+import { Fragment, useState, useEffect } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { ArrowLeft, LogIn, ShieldCheck, ShieldAlert, ChevronDown, ChevronRight, RefreshCw } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import LoginDialog from "@/components/LoginDialog";
+import {
+  getAuditEntries,
+  verifyAuditChain,
+  AUDIT_APPS,
+  AuditEntry,
+  AuditChainStatus,
+} from "@/lib/auditLog";
+
+const ACTION_STYLES: Record<string, string> = {
+  create: "bg-green-100 text-green-700",
+  update: "bg-blue-100 text-blue-700",
+  delete: "bg-red-100 text-red-700",
+  "bulk-write": "bg-gray-100 text-gray-700",
+  clear: "bg-red-100 text-red-700",
+  restore: "bg-amber-100 text-amber-700",
+  sync: "bg-purple-100 text-purple-700",
+};
+
+function formatValue(value: any): string {
+  if (value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 300 ? text.slice(0, 300) + "…" : text;
+}
+
+export default function AuditLog() {
+  const { currentUser, can } = useAuth();
+  const [showLoginModal, setShowLoginModal] = useState(false);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [appFilter, setAppFilter] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [chainStatus, setChainStatus] = useState<AuditChainStatus | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  const canView = can("audit.view");
+
+  const loadEntries = async () => {
+    try {
+      setEntries(await getAuditEntries({ app: appFilter || undefined, from: fromDate || undefined, to: toDate || undefined }));
+    } catch (error) {
+      console.error("Failed to load audit log:", error);
+      toast.error("Failed to load audit log");
+    }
+  };
+
+  useEffect(() => {
+    if (canView) loadEntries();
+  }, [canView, appFilter, fromDate, toDate]);
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      const status = await verifyAuditChain();
+      setChainStatus(status);
+      if (status.ok) toast.success(`Audit chain intact (${status.checked} entries)`);
+      else toast.error(status.reason || "Audit chain broken");
+    } catch (error) {
+      console.error("Failed to verify audit chain:", error);
+      toast.error("Failed to verify audit chain");
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div
+      className="min-h-screen flex flex-col"
+      style={{
+        backgroundColor: "#f7f4fb",
+        fontFamily: "'Poppins', 'Effra', sans-serif"
+      }}
+    >
+      {/* Header Banner */}
+      <header
+        className="w-full py-2 px-6"
+        style={{
+          background: "linear-gradient(to right, #d4007f, #4e1a74)",
+          height: '101px',
+          paddingTop: '0px'
+        }}
+      >
+        <div className="max-w-7xl mx-auto flex items-center gap-4">
+          <div className="flex-shrink-0">
+            <img
+              src={sbiLogoUrl}
+              alt="State Bank of India"
+              className="h-28 w-auto"
+              style={{ filter: "brightness(0) invert(1)" }}
+            />
+          </div>
+          <div className="flex flex-col justify-center">
+            <h1 className="text-white font-semibold leading-tight" style={{ fontSize: "1.3rem" }}>
+              Audit Log
+            </h1>
+          </div>
+          <div className="ml-auto flex items-center gap-3">
+            <Link href="/">
+              <Button
+                variant="outline"
+                className="bg-white/20 hover:bg-white/30 text-white border-white/40 gap-2"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back to Home
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 max-w-7xl w-full mx-auto px-6 py-6">
+        {!canView ? (
+          <div className="bg-white rounded-xl border border-gray-200 p-8 shadow-sm text-center">
+            <p className="text-gray-600 mb-4">
+              {currentUser
+                ? `Your role (${currentUser.role}) cannot view the audit log.`
+                : "Login as a Branch Manager or Officer to view the audit log."}
+            </p>
+            {!currentUser && (
+              <Button
+                onClick={() => setShowLoginModal(true)}
+                className="bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white gap-2"
+              >
+                <LogIn className="w-4 h-4" />
+                Login
+              </Button>
+            )}
+          </div>
+        ) : (
+          <>
+            {/* Filters and chain check */}
+            <div className="bg-white rounded-xl border border-gray-200 p-5 shadow-sm mb-4">
+              <div className="flex flex-wrap items-end gap-3">
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">App</label>
+                  <select
+                    value={appFilter}
+                    onChange={(e) => setAppFilter(e.target.value)}
+                    className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+                  >
+                    <option value="">All apps</option>
+                    {AUDIT_APPS.map((app) => <option key={app} value={app}>{app}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">From</label>
+                  <input
+                    type="date"
+                    value={fromDate}
+                    onChange={(e) => setFromDate(e.target.value)}
+                    className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">To</label>
+                  <input
+                    type="date"
+                    value={toDate}
+                    onChange={(e) => setToDate(e.target.value)}
+                    className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+                  />
+                </div>
+                <Button variant="outline" onClick={loadEntries} className="gap-2">
+                  <RefreshCw className="w-4 h-4" />
+                  Refresh
+                </Button>
+                <div className="ml-auto flex items-center gap-3">
+                  {chainStatus && (
+                    <span className={`flex items-center gap-1 text-sm ${chainStatus.ok ? "text-green-700" : "text-red-700"}`}>
+                      {chainStatus.ok ? <ShieldCheck className="w-4 h-4" /> : <ShieldAlert className="w-4 h-4" />}
+                      {chainStatus.ok ? `Chain intact — ${chainStatus.checked} entries` : chainStatus.reason}
+                    </span>
+                  )}
+                  <Button
+                    onClick={handleVerify}
+                    disabled={verifying}
+                    className="bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white gap-2"
+                  >
+                    <ShieldCheck className="w-4 h-4" />
+                    {verifying ? "Verifying..." : "Verify Chain"}
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            {/* Entries */}
+            <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 bg-gray-50">
+                    <th className="w-8" />
+                    <th className="text-left py-2 px-3 text-gray-500 font-medium">#</th>
+                    <th className="text-left py-2 px-3 text-gray-500 font-medium">When</th>
+                    <th className="text-left py-2 px-3 text-gray-500 font-medium">User</th>
+                    <th className="text-left py-2 px-3 text-gray-500 font-medium">App</th>
+                    <th className="text-left py-2 px-3 text-gray-500 font-medium">Action</th>
+                    <th className="text-left py-2 px-3 text-gray-500 font-medium">Record</th>
+                    <th className="text-left py-2 px-3 text-gray-500 font-medium">Changes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.length === 0 && (
+                    <tr>
+                      <td colSpan={8} className="py-8 text-center text-gray-400">No audit entries for this filter</td>
+                    </tr>
+                  )}
+                  {entries.map((entry) => (
+                    <Fragment key={entry.seq}>
+                      <tr
+                        className="border-b border-gray-100 hover:bg-purple-50/40 cursor-pointer"
+                        onClick={() => setExpanded(expanded === entry.seq ? null : entry.seq)}
+                      >
+                        <td className="py-2 px-2 text-gray-400">
+                          {entry.changes.length > 0 && (expanded === entry.seq ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+                        </td>
+                        <td className="py-2 px-3 text-gray-500">{entry.seq}</td>
+                        <td className="py-2 px-3 text-gray-700 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString("en-IN")}</td>
+                        <td className="py-2 px-3 text-gray-700">{entry.actor?.username ?? <span className="text-gray-400 italic">guest</span>}</td>
+                        <td className="py-2 px-3 text-gray-700">{entry.app}</td>
+                        <td className="py-2 px-3">
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${ACTION_STYLES[entry.action] ?? ""}`}>{entry.action}</span>
+                        </td>
+                        <td className="py-2 px-3 text-gray-600 font-mono text-xs">{entry.source} / {entry.recordKey}</td>
+                        <td className="py-2 px-3 text-gray-600">
+                          {entry.summary ?? `${entry.changes.length} field(s)`}
+                          {entry.truncated && <span className="text-amber-600"> (truncated)</span>}
+                        </td>
+                      </tr>
+                      {expanded === entry.seq && entry.changes.length > 0 && (
+                        <tr className="border-b border-gray-100 bg-gray-50">
+                          <td />
+                          <td colSpan={7} className="py-2 px-3">
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-gray-500">
+                                  <th className="text-left py-1 pr-3 font-medium">Field</th>
+                                  <th className="text-left py-1 pr-3 font-medium">Before</th>
+                                  <th className="text-left py-1 font-medium">After</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {entry.changes.map((c, i) => (
+                                  <tr key={i} className="align-top">
+                                    <td className="py-1 pr-3 font-mono text-gray-700">{c.path}</td>
+                                    <td className="py-1 pr-3 font-mono text-red-700 break-all">{formatValue(c.before)}</td>
+                                    <td className="py-1 font-mono text-green-700 break-all">{formatValue(c.after)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </main>
+
+      <LoginDialog open={showLoginModal} onOpenChange={setShowLoginModal} />
+    </div>
+  );
+}
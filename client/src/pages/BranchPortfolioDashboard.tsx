@@ -32,6 +32,8 @@ import {
   BookOpen,
   Activity,
   FileText,
+  Calculator,
+  ArrowRightLeft,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
@@ -47,6 +49,8 @@ import LoanFileManager from "./portfolio/LoanFileManager";
 import NPATracking from "./portfolio/NPATracking";
 import LoanClosureModule from "./portfolio/LoanClosureModule";
 import SMANPAAUCAReporting from "./portfolio/SMANPAAUCAReporting";
+import Provisioning from "./portfolio/Provisioning";
+import NPAMovement from "./portfolio/NPAMovement";
 
 type NavigationItem = {
   id: string;
@@ -65,6 +69,8 @@ const navigationItems: NavigationItem[] = [
   { id: "npa-tracking", label: "NPA Tracking", icon: Activity, component: NPATracking },
   { id: "loan-closure", label: "Loan Closure Module", icon: FileText, component: LoanClosureModule },
   { id: "sma-npa-auca", label: "SMA/NPA/AUCA Reporting", icon: FileText, component: SMANPAAUCAReporting },
+  { id: "provisioning", label: "Provisioning", icon: Calculator, component: Provisioning },
+  { id: "npa-movement", label: "NPA Movement", icon: ArrowRightLeft, component: NPAMovement },
   { id: "data-upload", label: "Data Upload", icon: Upload, component: DataUpload },
 ];
 
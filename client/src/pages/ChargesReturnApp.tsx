@@ -1,14 +1,70 @@
 import { sbiLogoUrl } from '@/lib/assets';
 import React, { useState, useEffect } from "react";
 import { useLocation } from "wouter";
-import { Home, Upload, FileText, FileSpreadsheet, Download, Trash2, Edit2, Plus, Save, X } from "lucide-react";
+import { Home, Upload, FileText, FileSpreadsheet, Download, Trash2, Edit2, Plus, Save, X, TrendingUp, AlertTriangle, Receipt, Users } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
 import { useBranch } from "@/contexts/BranchContext";
-import { openDB, IDBPDatabase } from "idb";
+import { openDB, unwrap, IDBPDatabase } from "idb";
+import { applyUpgrade, schemaVersion } from "@/lib/migrations";
+import {
+  BGLBudget,
+  VarianceStatus,
+  buildVarianceStatement,
+  financialYearMonths,
+  financialYearOf,
+  monthLabel,
+  previousFinancialYear,
+  validateBudget,
+  varianceAlerts,
+  variancePercent,
+  varianceTrend,
+} from "@/lib/chargesVariance";
+import {
+  AUTHORITY_LEVELS,
+  BRANCH_AUTHORITY,
+  DEFAULT_POWERS_CODE,
+  FinancialPowers,
+  PowerLimit,
+  SPLIT_BILL_WINDOW_DAYS,
+  SanctionCheck,
+  checkSanction,
+  findSplitBills,
+  formatLimit,
+  powersFor,
+  splitBillGroups,
+  validatePowers,
+} from "@/lib/chargesPowers";
+import {
+  GST_RATES,
+  TDS_SECTIONS,
+  TaxDetails,
+  buildTaxDetails,
+  computeGst,
+  form26QAnnexure,
+  gstByVendor,
+  isInterState,
+  QUARTERS,
+  taxExceptions,
+  tdsByDeductee,
+} from "@/lib/chargesTax";
+import {
+  DraftCharge,
+  RENEWAL_NOTICE_DAYS,
+  Vendor,
+  contractCovers,
+  dueDrafts,
+  missingPayments,
+  scheduledAmount,
+  syncRenewalReminders,
+  validateVendor,
+} from "@/lib/chargesVendors";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import * as XLSX from "xlsx";
 
 // ========== Types ==========
 interface ACMRow {
@@ -39,7 +95,11 @@ interface ChargeEntry {
   purpose: string;
   amount: number;
   approver: string;
+  approverLevel?: string;  // authority level whose financial powers were used
   reportCategory: string;
+  tax?: TaxDetails;        // GST / TDS on the bill, when recorded
+  vendorId?: string;       // recurring payment this entry settles
+  scheduleMonth?: string;  // YYYY-MM of that payment
   createdAt: string;
 }
 
@@ -49,6 +109,8 @@ interface BGLMaster {
   subHead: string;
   acmCategory: string;  // Exact match to ACM HEAD field
   reportCategory: string;
+  tdsSection?: string;  // TDS section payments under this head attract
+  tdsRate?: number;
 }
 
 // ========== Pre-configured BGL Master Data ==========
@@ -138,45 +200,21 @@ const formatIndianCurrency = (amount: number | null): string => {
 };
 
 // ========== IndexedDB Setup ==========
+// Stores, default BGL codes and version are declared in lib/migrations.ts
 const DB_NAME = "ChargesReturnDB";
-const DB_VERSION = 1;
 
 let dbPromise: Promise<IDBPDatabase> | null = null;
 
 function getDB() {
   if (!dbPromise) {
-    dbPromise = openDB(DB_NAME, DB_VERSION, {
-      upgrade(db) {
-        if (!db.objectStoreNames.contains("acmReports")) {
-          db.createObjectStore("acmReports", { keyPath: "reportId" });
-        }
-        if (!db.objectStoreNames.contains("acmRows")) {
-          const rowStore = db.createObjectStore("acmRows", { keyPath: ["reportId", "head"] });
-          rowStore.createIndex("byReportId", "reportId");
-        }
-        if (!db.objectStoreNames.contains("chargeEntries")) {
-          db.createObjectStore("chargeEntries", { keyPath: "id" });
-        }
-        if (!db.objectStoreNames.contains("bglMaster")) {
-          const bglStore = db.createObjectStore("bglMaster", { keyPath: "bglCode" });
-          // Pre-populate with default BGL codes
-          const defaultBGL: BGLMaster[] = [
-            { bglCode: "21111", head: "Rent", subHead: "Rent for office building", acmCategory: "RENT (OFFICE PREMISES)", reportCategory: "Rent Office" },
-            { bglCode: "21112", head: "Rent", subHead: "Rent for staff quarters", acmCategory: "RENT (OTHER PREMISES)", reportCategory: "Rent Other Premises" },
-            { bglCode: "21121", head: "Telephone", subHead: "Telephone charges", acmCategory: "TELEPHONE", reportCategory: "Telephone" },
-            { bglCode: "21131", head: "Stationery", subHead: "Stationery & printing", acmCategory: "STATIONERY & PRINTING", reportCategory: "Stationery" },
-            { bglCode: "21141", head: "Postage", subHead: "Postage & courier", acmCategory: "POSTAGE, TELEGRAM, TELEX, STAMPS", reportCategory: "Postage" },
-            { bglCode: "21151", head: "Electricity", subHead: "Electricity charges", acmCategory: "ELECTRICITY & GAS CHARGES", reportCategory: "Electricity & Gas" },
-            { bglCode: "21161", head: "Water", subHead: "Water charges", acmCategory: "WATER CHARGES", reportCategory: "Sundries" },
-            { bglCode: "21171", head: "Repairs", subHead: "Repairs & maintenance", acmCategory: "REPAIRS TO BANK PROPERTY", reportCategory: "Repair to Bank Property" },
-            { bglCode: "21181", head: "Insurance", subHead: "Insurance premium", acmCategory: "INSURANCE", reportCategory: "Insurance" },
-            { bglCode: "21191", head: "Miscellaneous", subHead: "Other expenses", acmCategory: "SUNDRIES", reportCategory: "Sundries" },
-          ];
-          defaultBGL.forEach(item => bglStore.add(item));
-        }
-        if (!db.objectStoreNames.contains("categoryMappings")) {
-          db.createObjectStore("categoryMappings", { keyPath: "bglCode" });
-        }
+    dbPromise = openDB(DB_NAME, schemaVersion(DB_NAME), {
+      upgrade(db, oldVersion, _newVersion, tx) {
+        applyUpgrade(DB_NAME, unwrap(db), unwrap(tx), oldVersion);
+      },
+      // Let another tab upgrade or delete the database
+      blocking(_currentVersion, _blockedVersion, event) {
+        (event.target as IDBDatabase).close();
+        dbPromise = null;
       },
     });
   }
@@ -340,7 +378,7 @@ function parseAcmText(text: string, includeTotalsFlag: boolean): { reportDate: {
 export default function ChargesReturnApp() {
   const [, navigate] = useLocation();
   const { branchName } = useBranch();
-  const [activeTab, setActiveTab] = useState<"extractor" | "entry" | "report">("extractor");
+  const [activeTab, setActiveTab] = useState<"extractor" | "entry" | "report" | "variance" | "tax" | "vendors">("extractor");
   
   // Shared ACM Extractor state (persists across tab switches)
   const [acmCurrentRows, setAcmCurrentRows] = useState<ACMRow[]>([]);
@@ -436,6 +474,39 @@ export default function ChargesReturnApp() {
             <FileSpreadsheet className="inline-block w-4 h-4 mr-2" />
             Charges Return Report
           </button>
+          <button
+            onClick={() => setActiveTab("variance")}
+            className={`flex-1 px-4 py-2 rounded-md font-medium transition-colors ${
+              activeTab === "variance"
+                ? "bg-purple-600 text-white"
+                : "text-gray-600 hover:bg-gray-100"
+            }`}
+          >
+            <TrendingUp className="inline-block w-4 h-4 mr-2" />
+            Budget & Variance
+          </button>
+          <button
+            onClick={() => setActiveTab("tax")}
+            className={`flex-1 px-4 py-2 rounded-md font-medium transition-colors ${
+              activeTab === "tax"
+                ? "bg-purple-600 text-white"
+                : "text-gray-600 hover:bg-gray-100"
+            }`}
+          >
+            <Receipt className="inline-block w-4 h-4 mr-2" />
+            GST & TDS
+          </button>
+          <button
+            onClick={() => setActiveTab("vendors")}
+            className={`flex-1 px-4 py-2 rounded-md font-medium transition-colors ${
+              activeTab === "vendors"
+                ? "bg-purple-600 text-white"
+                : "text-gray-600 hover:bg-gray-100"
+            }`}
+          >
+            <Users className="inline-block w-4 h-4 mr-2" />
+            Vendors
+          </button>
         </div>
       </div>
 
@@ -453,6 +524,9 @@ export default function ChargesReturnApp() {
         )}
         {activeTab === "entry" && <ChargesEntryTab />}
         {activeTab === "report" && <ChargesReturnReportTab />}
+        {activeTab === "variance" && <BudgetVarianceTab />}
+        {activeTab === "tax" && <TaxReportsTab />}
+        {activeTab === "vendors" && <VendorsTab />}
       </div>
 
       {/* Footer */}
@@ -783,6 +857,69 @@ function ACMExtractorTab({ currentRows, setCurrentRows, reportLabel, setReportLa
   );
 }
 
+// ========== Sanction Note ==========
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Note to the controlling authority for an entry beyond the branch's financial powers
+function printSanctionNote(entry: ChargeEntry, check: SanctionCheck, powers: FinancialPowers | null, branchName: string, branchCode: string) {
+  const branch = powers?.limits[BRANCH_AUTHORITY];
+  const fmtDate = (iso: string) => iso ? iso.split("-").reverse().join("/") : "";
+  const row = (label: string, value: string) => `<tr><th>${label}</th><td>${escapeHTML(value)}</td></tr>`;
+  const html = `
+    <html>
+    <head>
+      <title>Sanction Note - ${escapeHTML(entry.billNo)}</title>
+      <style>
+        body { font-family: 'Times New Roman', serif; padding: 30px; line-height: 1.5; font-size: 14px; }
+        h2, h3 { text-align: center; margin: 4px 0; }
+        table { width: 100%; border-collapse: collapse; margin: 16px 0; }
+        th, td { border: 1px solid #000; padding: 6px 8px; text-align: left; vertical-align: top; }
+        th { width: 38%; background: #f3f3f3; }
+        .sign { display: flex; justify-content: space-between; margin-top: 70px; }
+        .sign div { border-top: 1px solid #000; width: 220px; text-align: center; padding-top: 4px; }
+      </style>
+    </head>
+    <body>
+      <h2>State Bank of India, ${escapeHTML(branchName)} (${escapeHTML(branchCode)})</h2>
+      <h3>SANCTION NOTE — EXPENDITURE BEYOND BRANCH POWERS</h3>
+      <p>Date: ${new Date().toLocaleDateString("en-GB")}</p>
+      <p>The following expenditure exceeds the financial powers delegated to the Branch and is placed for sanction / confirmation of the ${escapeHTML(entry.approverLevel || "controlling authority")}.</p>
+      <table>
+        ${row("BGL Code / Head", `${entry.bglCode} — ${entry.head} / ${entry.subHead}`)}
+        ${row("Payee", entry.payee)}
+        ${row("Bill No. / Date", `${entry.billNo} dated ${fmtDate(entry.billDate)}`)}
+        ${row("Purpose", entry.purpose)}
+        ${row("Amount (Rs.)", formatIndianCurrency(entry.amount))}
+        ${row("Date of Payment", fmtDate(entry.payDate))}
+        ${row("Branch Power — per bill", branch ? formatLimit(branch.perBill) : "Not delegated")}
+        ${row("Branch Power — per year", branch ? formatLimit(branch.perYear) : "Not delegated")}
+        ${row("Head Total for the Year incl. this bill (Rs.)", formatIndianCurrency(check.yearTotal))}
+        ${row("Sanctioning Authority", `${entry.approverLevel || ""} ${entry.approver ? `(${entry.approver})` : ""}`)}
+        ${powers?.remarks ? row("Powers Delegated Under", powers.remarks) : ""}
+      </table>
+      <div class="sign">
+        <div>Branch Manager</div>
+        <div>${escapeHTML(entry.approverLevel || "Sanctioning Authority")}</div>
+      </div>
+    </body>
+    </html>`;
+  const w = window.open("", "_blank", "width=900,height=700");
+  if (!w) {
+    toast.error("Allow pop-ups to print the sanction note");
+    return;
+  }
+  w.document.write(html);
+  w.document.close();
+  w.onload = () => w.print();
+}
+
+// noPower leaves the level out of the limits; blank limits mean no ceiling
+function emptyPowersDraft(): Record<string, { noPower: boolean; perBill: string; perYear: string }> {
+  return Object.fromEntries(AUTHORITY_LEVELS.map(level => [level, { noPower: false, perBill: "", perYear: "" }]));
+}
+
 // Complete Charges Entry Tab Implementation
 // This is the replacement for lines 601-889 in ChargesReturnApp.tsx
 
@@ -793,6 +930,15 @@ function ChargesEntryTab() {
   const [sortState, setSortState] = useState<{ key: string | null; asc: boolean }>({ key: null, asc: true });
   const [payeeSuggestions, setPayeeSuggestions] = useState<string[]>([]);
   const [bglConfigOpen, setBglConfigOpen] = useState(false);
+  const [powersMatrix, setPowersMatrix] = useState<FinancialPowers[]>([]);
+  const [powersConfigOpen, setPowersConfigOpen] = useState(false);
+  const [powersHead, setPowersHead] = useState<string>(DEFAULT_POWERS_CODE);
+  const [powersDraft, setPowersDraft] = useState(emptyPowersDraft);
+  const [powersRemarks, setPowersRemarks] = useState("");
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [drafts, setDrafts] = useState<DraftCharge[]>([]);
+  const [postingDraft, setPostingDraft] = useState<DraftCharge | null>(null);
+  const { branchName, branchCode, state: branchState } = useBranch();
   const [savedACMReports, setSavedACMReports] = useState<ACMReport[]>([]);
   const [selectedACMMonth, setSelectedACMMonth] = useState<string>("");
   const [selectedMonthFilter, setSelectedMonthFilter] = useState<string>("");
@@ -818,6 +964,15 @@ function ChargesEntryTab() {
     purpose: "",
     amount: "",
     approver: "",
+    approverLevel: BRANCH_AUTHORITY,
+    vendorGstin: "",
+    vendorPan: "",
+    taxableValue: "",
+    gstRate: "0",
+    interState: false,
+    tdsSection: "",
+    tdsRate: "",
+    tdsAmount: "",
   });
 
   useEffect(() => {
@@ -829,9 +984,26 @@ function ChargesEntryTab() {
     const allEntries = await db.getAll("chargeEntries");
     const allBGL = await db.getAll("bglMaster");
     const allReports = await db.getAll("acmReports");
+    const allPowers = await db.getAll("financialPowers");
+    const allVendors: Vendor[] = await db.getAll("vendors");
+    let allDrafts: DraftCharge[] = await db.getAll("draftCharges");
+
+    // Pre-create this month's drafts for recurring vendors
+    const newDrafts = dueDrafts(allVendors, allEntries, allDrafts, today.substring(0, 7));
+    if (newDrafts.length > 0) {
+      const tx = db.transaction("draftCharges", "readwrite");
+      await Promise.all(newDrafts.map(d => tx.store.put(d)));
+      await tx.done;
+      allDrafts = [...allDrafts, ...newDrafts];
+      toast.info(`${newDrafts.length} recurring payment draft${newDrafts.length === 1 ? "" : "s"} created for this month`);
+    }
+
     setEntries(allEntries);
     setBglMaster(allBGL);
     setSavedACMReports(allReports);
+    setPowersMatrix(allPowers);
+    setVendors(allVendors);
+    setDrafts(allDrafts);
     
     // Update payee suggestions
     const payeeSet = new Set(allEntries.map((e: any) => e.payee).filter((p: string) => p && p.trim()));
@@ -846,7 +1018,73 @@ function ChargesEntryTab() {
       bglCode,
       head: bgl?.head || "",
       subHead: bgl?.subHead || "",
+      // TDS applicable to the head; can be changed for the bill
+      tdsSection: bgl ? bgl.tdsSection || "" : formData.tdsSection,
+      tdsRate: bgl ? (bgl.tdsSection ? String(bgl.tdsRate ?? "") : "") : formData.tdsRate,
+      tdsAmount: "",
+    });
+  }
+
+  function handlePayeeChange(payee: string) {
+    // Bring forward the GSTIN from the vendor master, else the one last used for this payee
+    const vendor = vendors.find(v => v.gstin && v.name.trim().toLowerCase() === payee.trim().toLowerCase());
+    const previous = formData.vendorGstin || vendor ? undefined : entries
+      .filter(e => e.tax?.vendorGstin && e.payee.trim().toLowerCase() === payee.trim().toLowerCase())
+      .sort((a, b) => b.payDate.localeCompare(a.payDate))[0];
+    const gstin = formData.vendorGstin ? "" : vendor?.gstin || previous?.tax?.vendorGstin || "";
+    setFormData({
+      ...formData,
+      payee,
+      ...(gstin ? {
+        vendorGstin: gstin,
+        vendorPan: vendor ? vendor.pan : previous!.tax!.vendorPan,
+        interState: isInterState(gstin, branchState)
+      } : {})
+    });
+  }
+
+  function handleReviewDraft(draft: DraftCharge) {
+    const bgl = bglMaster.find(b => b.bglCode === draft.bglCode);
+    const vendor = vendors.find(v => v.id === draft.vendorId);
+    setFormData({
+      bglCode: draft.bglCode,
+      head: bgl?.head || "",
+      subHead: bgl?.subHead || "",
+      payDate: draft.payDate > today ? today : draft.payDate,
+      billNo: "",
+      billDate: draft.payDate > today ? today : draft.payDate,
+      payee: draft.payee,
+      purpose: draft.purpose,
+      amount: String(draft.amount),
+      approver: "",
+      approverLevel: BRANCH_AUTHORITY,
+      vendorGstin: vendor?.gstin || "",
+      vendorPan: vendor?.pan || "",
+      taxableValue: "",
+      gstRate: "0",
+      interState: vendor?.gstin ? isInterState(vendor.gstin, branchState) : false,
+      tdsSection: bgl?.tdsSection || "",
+      tdsRate: bgl?.tdsSection ? String(bgl.tdsRate ?? "") : "",
+      tdsAmount: "",
     });
+    setEditingId(null);
+    setPostingDraft(draft);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  async function handleSkipDraft(draft: DraftCharge) {
+    if (!confirm(`Skip the ${draft.purpose} payment to ${draft.payee}? It will be shown as not paid in the Charges Return.`)) return;
+
+    try {
+      const db = await getDB();
+      await db.put("draftCharges", { ...draft, status: "skipped" });
+      if (postingDraft?.id === draft.id) handleReset();
+      toast.success("Draft skipped");
+      await loadData();
+    } catch (error) {
+      toast.error("Failed to skip draft");
+      console.error(error);
+    }
   }
 
   async function handleSave() {
@@ -873,6 +1111,28 @@ function ChargesEntryTab() {
       const bglRecord = bglMaster.find(b => b.bglCode === formData.bglCode);
       const reportCategory = bglRecord?.reportCategory || "Uncategorized";
       
+      // GST / TDS, when any tax detail is entered
+      let tax: TaxDetails | undefined;
+      if (formData.vendorGstin.trim() || formData.taxableValue.trim() || formData.tdsSection) {
+        const gstRate = parseFloat(formData.gstRate) || 0;
+        try {
+          tax = buildTaxDetails({
+            vendorGstin: formData.vendorGstin,
+            vendorPan: formData.vendorPan,
+            // Taxable value defaults to the bill amount less GST
+            taxableValue: formData.taxableValue.trim() ? parseFloat(formData.taxableValue) : Math.round((amt * 10000) / (100 + gstRate)) / 100,
+            gstRate,
+            interState: formData.interState,
+            tdsSection: formData.tdsSection,
+            tdsRate: parseFloat(formData.tdsRate) || 0,
+            tdsAmount: formData.tdsAmount.trim() ? parseFloat(formData.tdsAmount) : null
+          }, amt);
+        } catch (error: any) {
+          toast.error(error.message);
+          return;
+        }
+      }
+
       const entry: any = {
         id: editingId || `charge_${Date.now()}`,
         bglCode: formData.bglCode,
@@ -883,12 +1143,36 @@ function ChargesEntryTab() {
         purpose: formData.purpose.trim(),
         amount: amt,
         approver: formData.approver.trim(),
+        approverLevel: formData.approverLevel,
         reportCategory,
+        tax,
+        // Keep the link to the recurring payment the entry settles
+        vendorId: editingId ? entries.find(e => e.id === editingId)?.vendorId : postingDraft?.vendorId,
+        scheduleMonth: editingId ? entries.find(e => e.id === editingId)?.scheduleMonth : postingDraft?.scheduleMonth,
         createdAt: editingId ? entries.find(e => e.id === editingId)?.createdAt || new Date().toISOString() : new Date().toISOString(),
       };
 
+      // Delegation of powers: the approver must have had the power for this bill
+      const check = checkSanction(entry, powersMatrix, entries);
+      if (!check.allowed) {
+        toast.error(`Expenditure beyond powers: ${check.reason}`);
+        return;
+      }
+      const splitWith = findSplitBills(entry, powersMatrix, entries);
+      if (splitWith.length > 0) {
+        const total = splitWith.reduce((sum, e) => sum + e.amount, amt);
+        const bills = splitWith.map(e => `${e.billNo} (${formatDateDDMMYYYY(e.payDate)}, Rs. ${formatIndianCurrency(e.amount)})`).join(", ");
+        if (!confirm(`Possible split bills: ${entry.payee} has other bills for the same month under BGL ${entry.bglCode} within ${SPLIT_BILL_WINDOW_DAYS} days — ${bills}. Together Rs. ${formatIndianCurrency(total)} exceeds the per-bill power. Save anyway?`)) {
+          return;
+        }
+      }
+
       await db.put("chargeEntries", entry);
-      toast.success(editingId ? "Entry updated" : "Charge added");
+      if (postingDraft) await db.delete("draftCharges", postingDraft.id);
+      toast.success(editingId ? "Entry updated" : postingDraft ? "Recurring payment posted" : "Charge added");
+      if (check.aboveBranchPower) {
+        toast.info("This expenditure is beyond branch powers — print the sanction note from the entries list");
+      }
       handleReset();
       await loadData();
     } catch (error) {
@@ -909,8 +1193,18 @@ function ChargesEntryTab() {
       purpose: "",
       amount: "",
       approver: "",
+      approverLevel: BRANCH_AUTHORITY,
+      vendorGstin: "",
+      vendorPan: "",
+      taxableValue: "",
+      gstRate: "0",
+      interState: false,
+      tdsSection: "",
+      tdsRate: "",
+      tdsAmount: "",
     });
     setEditingId(null);
+    setPostingDraft(null);
   }
 
   function handleEdit(entry: any) {
@@ -925,8 +1219,18 @@ function ChargesEntryTab() {
       purpose: entry.purpose,
       amount: entry.amount.toString(),
       approver: entry.approver,
+      approverLevel: entry.approverLevel || BRANCH_AUTHORITY,
+      vendorGstin: entry.tax?.vendorGstin || "",
+      vendorPan: entry.tax?.vendorPan || "",
+      taxableValue: entry.tax ? String(entry.tax.taxableValue) : "",
+      gstRate: entry.tax ? String(entry.tax.gstRate) : "0",
+      interState: !!entry.tax?.igst,
+      tdsSection: entry.tax?.tdsSection || "",
+      tdsRate: entry.tax?.tdsSection ? String(entry.tax.tdsRate) : "",
+      tdsAmount: entry.tax?.tdsSection ? String(entry.tax.tdsAmount) : "",
     });
     setEditingId(entry.id);
+    setPostingDraft(null);
     window.scrollTo({ top: 0, behavior: "smooth" });
   }
 
@@ -944,6 +1248,68 @@ function ChargesEntryTab() {
     }
   }
 
+  function selectPowersHead(bglCode: string) {
+    const existing = powersMatrix.find(p => p.bglCode === bglCode);
+    const draft = emptyPowersDraft();
+    if (existing) {
+      for (const level of AUTHORITY_LEVELS) {
+        const limit = existing.limits[level];
+        draft[level] = {
+          noPower: !limit,
+          perBill: limit?.perBill == null ? "" : String(limit.perBill),
+          perYear: limit?.perYear == null ? "" : String(limit.perYear)
+        };
+      }
+    }
+    setPowersHead(bglCode);
+    setPowersDraft(draft);
+    setPowersRemarks(existing?.remarks || "");
+  }
+
+  async function handleSavePowers() {
+    const parse = (v: string) => (v.trim() === "" ? null : parseFloat(v.replace(/,/g, "")));
+    const limits: Record<string, PowerLimit> = {};
+    for (const level of AUTHORITY_LEVELS) {
+      if (powersDraft[level].noPower) continue;
+      limits[level] = { perBill: parse(powersDraft[level].perBill), perYear: parse(powersDraft[level].perYear) };
+    }
+    const powers: FinancialPowers = {
+      bglCode: powersHead,
+      limits,
+      remarks: powersRemarks.trim(),
+      updatedAt: new Date().toISOString()
+    };
+
+    try {
+      validatePowers(powers);
+      const db = await getDB();
+      await db.put("financialPowers", powers);
+      toast.success(powersHead === DEFAULT_POWERS_CODE ? "Default financial powers saved" : `Financial powers for BGL ${powersHead} saved`);
+      await loadData();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save financial powers");
+      console.error(error);
+    }
+  }
+
+  async function handleRemovePowers(bglCode: string) {
+    if (!confirm(bglCode === DEFAULT_POWERS_CODE ? "Remove the default financial powers?" : `Remove the financial powers for BGL ${bglCode}? The default powers will apply.`)) return;
+
+    try {
+      const db = await getDB();
+      await db.delete("financialPowers", bglCode);
+      toast.success("Financial powers removed");
+      if (bglCode === powersHead) {
+        setPowersDraft(emptyPowersDraft());
+        setPowersRemarks("");
+      }
+      await loadData();
+    } catch (error) {
+      toast.error("Failed to remove financial powers");
+      console.error(error);
+    }
+  }
+
   async function handleLoadPreconfiguredBGL() {
     try {
       const db = await getDB();
@@ -1076,6 +1442,9 @@ function ChargesEntryTab() {
           const subHead = parts[2].trim();
           const acmCategory = parts[3].trim();
           const reportCategory = parts[4].trim();
+          // Optional TDS section and rate columns
+          const tdsSection = TDS_SECTIONS.find(s => s.section === parts[5]?.trim());
+          const tdsRate = parseFloat(parts[6] || "");
           
           if (bglCode && head && subHead && acmCategory && reportCategory) {
             await tx.store.add({
@@ -1084,6 +1453,7 @@ function ChargesEntryTab() {
               subHead,
               acmCategory,
               reportCategory,
+              ...(tdsSection ? { tdsSection: tdsSection.section, tdsRate: Number.isFinite(tdsRate) ? tdsRate : tdsSection.rate } : {}),
             });
           }
         }
@@ -1155,7 +1525,7 @@ function ChargesEntryTab() {
     };
 
     const csv = [
-      ["S.N.", "BGL Number", "Payment Head", "Sub-Head", "Date of Payment", "Bill No.", "Bill Date", "Payee Name", "Purpose", "Amount Paid", "Approver"]
+      ["S.N.", "BGL Number", "Payment Head", "Sub-Head", "Date of Payment", "Bill No.", "Bill Date", "Payee Name", "Purpose", "Amount Paid", "Approver", "Approver Level"]
         .map(escapeCSV).join(",")
     ];
 
@@ -1172,7 +1542,8 @@ function ChargesEntryTab() {
         r.payee,
         r.purpose,
         formatIndianCurrency(r.amount),
-        r.approver
+        r.approver,
+        r.approverLevel || ""
       ].map(escapeCSV).join(","));
     });
 
@@ -1238,6 +1609,7 @@ function ChargesEntryTab() {
           const purpose = fields[8]?.replace(/^\"|\"$/g, "").trim();
           let amount = fields[9]?.replace(/^\"|\"$/g, "").trim() || "0";
           const approver = fields[10]?.replace(/^\"|\"$/g, "").trim();
+          const approverLevel = fields[11]?.replace(/^\"|\"$/g, "").trim();
 
           amount = amount.replace(/[^0-9.]/g, "");
           const parsedAmount = parseFloat(amount);
@@ -1262,6 +1634,7 @@ function ChargesEntryTab() {
             purpose: purpose || "",
             amount: isNaN(parsedAmount) ? 0 : parsedAmount,
             approver: approver || "",
+            approverLevel: AUTHORITY_LEVELS.includes(approverLevel) ? approverLevel : undefined,
             reportCategory: bglEntry.reportCategory,
             createdAt: new Date().toISOString()
           };
@@ -1356,6 +1729,9 @@ function ChargesEntryTab() {
 
   const grandTotal = entries.reduce((sum: number, e: any) => sum + Number(e.amount || 0), 0);
 
+  // Bills that look split to stay within the per-bill power
+  const splitGroups = splitBillGroups(entries, powersMatrix);
+
   // Validation: Compare category totals between ACM and Charges Entry
   const [validationResults, setValidationResults] = useState<Array<{category: string; acmTotal: number; chargesTotal: number; difference: number}>>([]);
 
@@ -1486,7 +1862,7 @@ function ChargesEntryTab() {
                   className="w-full mt-2"
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Format: BGL Code, Payment Head, Sub-Head, ACM Category, Charges Return Report Category (CSV or tab-separated)
+                  Format: BGL Code, Payment Head, Sub-Head, ACM Category, Charges Return Report Category, [TDS Section, TDS Rate] (CSV or tab-separated)
                 </p>
                 <p className="text-xs text-blue-600 mt-1">
                   <strong>ACM Category</strong> must exactly match the HEAD field from ACM reports (e.g., "ELECTRICITY & GAS CHARGES", "LAW CHARGES").
@@ -1556,6 +1932,35 @@ function ChargesEntryTab() {
                     className="mt-1"
                   />
                 </div>
+                <div>
+                  <Label htmlFor="manual-tds-section" className="text-sm">TDS Section</Label>
+                  <select
+                    id="manual-tds-section"
+                    value={manualBGLForm.tdsSection || ""}
+                    onChange={(e) => {
+                      const section = TDS_SECTIONS.find(s => s.section === e.target.value);
+                      setManualBGLForm({...manualBGLForm, tdsSection: section?.section, tdsRate: section?.rate});
+                    }}
+                    className="w-full border rounded px-2 py-2 mt-1 text-sm"
+                  >
+                    <option value="">No TDS</option>
+                    {TDS_SECTIONS.map(s => (
+                      <option key={s.section} value={s.section}>{s.section} — {s.nature}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="manual-tds-rate" className="text-sm">TDS Rate (%)</Label>
+                  <Input
+                    id="manual-tds-rate"
+                    type="number"
+                    step="0.01"
+                    value={manualBGLForm.tdsRate ?? ""}
+                    onChange={(e) => setManualBGLForm({...manualBGLForm, tdsRate: e.target.value === "" ? undefined : parseFloat(e.target.value)})}
+                    disabled={!manualBGLForm.tdsSection}
+                    className="mt-1"
+                  />
+                </div>
               </div>
               <div className="flex gap-2">
                 <Button
@@ -1580,6 +1985,7 @@ function ChargesEntryTab() {
                           <th className="p-2 text-left">Sub-Head</th>
                           <th className="p-2 text-left">ACM Category</th>
                           <th className="p-2 text-left">Report Category</th>
+                          <th className="p-2 text-left">TDS</th>
                           <th className="p-2 text-center">Actions</th>
                         </tr>
                       </thead>
@@ -1591,6 +1997,7 @@ function ChargesEntryTab() {
                             <td className="p-2">{bgl.subHead}</td>
                             <td className="p-2">{bgl.acmCategory}</td>
                             <td className="p-2">{bgl.reportCategory}</td>
+                            <td className="p-2">{bgl.tdsSection ? `${bgl.tdsSection} @ ${bgl.tdsRate ?? 0}%` : "—"}</td>
                             <td className="p-2 text-center">
                               <Button
                                 size="sm"
@@ -1620,6 +2027,135 @@ function ChargesEntryTab() {
           )}
         </div>
 
+        {/* Financial Powers (Delegation) */}
+        <div className="mb-4">
+          <details
+            open={powersConfigOpen}
+            onToggle={(e: any) => {
+              setPowersConfigOpen(e.target.open);
+              if (e.target.open) selectPowersHead(powersHead);
+            }}
+            className="border rounded-lg p-4"
+          >
+            <summary className="cursor-pointer font-semibold text-purple-700 mb-3">
+              Financial Powers (Delegation) — {powersMatrix.length === 0 ? "not configured, entries are not checked" : `${powersMatrix.length} head${powersMatrix.length === 1 ? "" : "s"} configured`}
+            </summary>
+            <div className="mt-4 space-y-3">
+              <div className="flex gap-3 items-end">
+                <div className="flex-1">
+                  <Label className="text-sm">BGL Head</Label>
+                  <select
+                    value={powersHead}
+                    onChange={(e) => selectPowersHead(e.target.value)}
+                    className="w-full border rounded px-3 py-2 mt-1 text-sm"
+                  >
+                    <option value={DEFAULT_POWERS_CODE}>Default — all heads without their own powers</option>
+                    {bglMaster.map(bgl => (
+                      <option key={bgl.bglCode} value={bgl.bglCode}>
+                        {bgl.bglCode} — {bgl.head} / {bgl.subHead}{powersMatrix.some(p => p.bglCode === bgl.bglCode) ? " ✓" : ""}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex-1">
+                  <Label className="text-sm">Delegated Under (Circular / Letter)</Label>
+                  <Input
+                    value={powersRemarks}
+                    onChange={(e) => setPowersRemarks(e.target.value)}
+                    placeholder="e.g. Scheme of Delegation of Financial Powers 2024"
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+
+              <table className="w-full text-sm border rounded">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="p-2 text-left">Authority Level</th>
+                    <th className="p-2 text-center">No Power</th>
+                    <th className="p-2 text-left">Limit per Bill (Rs.)</th>
+                    <th className="p-2 text-left">Limit per Year for the Head (Rs.)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {AUTHORITY_LEVELS.map(level => (
+                    <tr key={level} className="border-t">
+                      <td className="p-2">
+                        {level}
+                        {level === BRANCH_AUTHORITY && <span className="ml-2 text-xs text-purple-600">(branch power)</span>}
+                      </td>
+                      <td className="p-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={powersDraft[level].noPower}
+                          onChange={(e) => setPowersDraft({ ...powersDraft, [level]: { ...powersDraft[level], noPower: e.target.checked } })}
+                          aria-label={`${level} has no power under this head`}
+                        />
+                      </td>
+                      {(["perBill", "perYear"] as const).map(field => (
+                        <td key={field} className="p-2">
+                          <Input
+                            type="number"
+                            min="0"
+                            value={powersDraft[level].noPower ? "" : powersDraft[level][field]}
+                            onChange={(e) => setPowersDraft({ ...powersDraft, [level]: { ...powersDraft[level], [field]: e.target.value } })}
+                            placeholder={powersDraft[level].noPower ? "No power" : "No ceiling"}
+                            disabled={powersDraft[level].noPower}
+                            className="h-8"
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500">
+                Leave a limit blank for no ceiling; tick No Power where the level cannot sanction under this head. Entries above the {BRANCH_AUTHORITY}'s limits need a sanction note.
+              </p>
+
+              <div className="flex gap-3">
+                <Button onClick={handleSavePowers} className="bg-green-600 hover:bg-green-700">
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Powers
+                </Button>
+                {powersMatrix.some(p => p.bglCode === powersHead) && (
+                  <Button onClick={() => handleRemovePowers(powersHead)} variant="outline" className="text-red-600 hover:text-red-700">
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Remove
+                  </Button>
+                )}
+              </div>
+
+              {powersMatrix.length > 0 && (
+                <div className="max-h-60 overflow-y-auto border rounded">
+                  <table className="w-full text-xs">
+                    <thead className="bg-gray-100 sticky top-0">
+                      <tr>
+                        <th className="p-2 text-left">BGL Head</th>
+                        {AUTHORITY_LEVELS.map(level => (
+                          <th key={level} className="p-2 text-left">{level} (bill / year)</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {powersMatrix.map(p => (
+                        <tr key={p.bglCode} className="border-b hover:bg-gray-50 cursor-pointer" onClick={() => selectPowersHead(p.bglCode)}>
+                          <td className="p-2">{p.bglCode === DEFAULT_POWERS_CODE ? "Default" : p.bglCode}</td>
+                          {AUTHORITY_LEVELS.map(level => (
+                            <td key={level} className="p-2">
+                              {p.limits[level] ? `${formatLimit(p.limits[level].perBill)} / ${formatLimit(p.limits[level].perYear)}` : "No power"}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </details>
+        </div>
+
         {/* ACM Import Section */}
         <Card className="p-4 bg-blue-50/80 backdrop-blur-sm mb-4">
           <h3 className="font-semibold text-purple-700 mb-3">Import from ACM Report</h3>
@@ -1735,7 +2271,7 @@ function ChargesEntryTab() {
                 id="payee"
                 list="payee-list"
                 value={formData.payee}
-                onChange={(e) => setFormData({ ...formData, payee: e.target.value })}
+                onChange={(e) => handlePayeeChange(e.target.value)}
                 placeholder="Who was paid?"
                 className="text-sm"
               />
@@ -1781,19 +2317,242 @@ function ChargesEntryTab() {
               />
             </div>
 
+            <div>
+              <Label htmlFor="approver-level">Approver Level</Label>
+              <select
+                id="approver-level"
+                value={formData.approverLevel}
+                onChange={(e) => setFormData({ ...formData, approverLevel: e.target.value })}
+                className="w-full border rounded px-2 py-2 text-sm"
+              >
+                {AUTHORITY_LEVELS.map(level => (
+                  <option key={level} value={level}>{level}</option>
+                ))}
+              </select>
+            </div>
+
             <div className="flex items-end">
               <Button onClick={handleSave} className="w-full bg-purple-600 hover:bg-purple-700">
                 {editingId ? "Update" : "Add"}
               </Button>
             </div>
           </div>
+
+          {/* GST / TDS (optional) */}
+          <div className="border rounded-lg p-3 bg-gray-50/60">
+            <p className="text-sm font-semibold text-purple-700 mb-2">GST / TDS (optional)</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3">
+              <div>
+                <Label htmlFor="vendor-gstin">Vendor GSTIN</Label>
+                <Input
+                  id="vendor-gstin"
+                  value={formData.vendorGstin}
+                  onChange={(e) => {
+                    const vendorGstin = e.target.value.toUpperCase().trim();
+                    setFormData({ ...formData, vendorGstin, interState: isInterState(vendorGstin, branchState) });
+                  }}
+                  placeholder="Blank if unregistered"
+                  maxLength={15}
+                  className="text-sm"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="vendor-pan">Vendor PAN</Label>
+                <Input
+                  id="vendor-pan"
+                  value={formData.vendorPan}
+                  onChange={(e) => setFormData({ ...formData, vendorPan: e.target.value.toUpperCase().trim() })}
+                  placeholder="From GSTIN if blank"
+                  maxLength={10}
+                  className="text-sm"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="taxable-value">Taxable Value (Rs)</Label>
+                <Input
+                  id="taxable-value"
+                  type="number"
+                  step="0.01"
+                  value={formData.taxableValue}
+                  onChange={(e) => setFormData({ ...formData, taxableValue: e.target.value })}
+                  placeholder="Amount less GST"
+                  className="text-sm"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="gst-rate">GST Rate</Label>
+                <select
+                  id="gst-rate"
+                  value={formData.gstRate}
+                  onChange={(e) => setFormData({ ...formData, gstRate: e.target.value })}
+                  className="w-full border rounded px-2 py-2 text-sm"
+                >
+                  {GST_RATES.map(rate => (
+                    <option key={rate} value={rate}>{rate === 0 ? "Nil / Exempt" : `${rate}%`}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <Label htmlFor="supply-type">Supply</Label>
+                <select
+                  id="supply-type"
+                  value={formData.interState ? "inter" : "intra"}
+                  onChange={(e) => setFormData({ ...formData, interState: e.target.value === "inter" })}
+                  className="w-full border rounded px-2 py-2 text-sm"
+                >
+                  <option value="intra">Intra-state (CGST + SGST)</option>
+                  <option value="inter">Inter-state (IGST)</option>
+                </select>
+              </div>
+
+              <div className="flex items-end text-xs text-gray-600">
+                {(() => {
+                  const amt = parseFloat(formData.amount) || 0;
+                  const rate = parseFloat(formData.gstRate) || 0;
+                  const taxable = formData.taxableValue.trim() ? parseFloat(formData.taxableValue) || 0 : (amt * 100) / (100 + rate);
+                  const gst = computeGst(taxable, rate, formData.interState);
+                  return formData.interState
+                    ? `IGST Rs. ${formatIndianCurrency(gst.igst)}`
+                    : `CGST Rs. ${formatIndianCurrency(gst.cgst)} + SGST Rs. ${formatIndianCurrency(gst.sgst)}`;
+                })()}
+              </div>
+
+              <div>
+                <Label htmlFor="tds-section">TDS Section</Label>
+                <select
+                  id="tds-section"
+                  value={formData.tdsSection}
+                  onChange={(e) => {
+                    const section = TDS_SECTIONS.find(s => s.section === e.target.value);
+                    setFormData({ ...formData, tdsSection: e.target.value, tdsRate: section ? String(section.rate) : "", tdsAmount: "" });
+                  }}
+                  className="w-full border rounded px-2 py-2 text-sm"
+                >
+                  <option value="">No TDS</option>
+                  {TDS_SECTIONS.map(s => (
+                    <option key={s.section} value={s.section}>{s.section} — {s.nature}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <Label htmlFor="tds-rate">TDS Rate (%)</Label>
+                <Input
+                  id="tds-rate"
+                  type="number"
+                  step="0.01"
+                  value={formData.tdsRate}
+                  onChange={(e) => setFormData({ ...formData, tdsRate: e.target.value, tdsAmount: "" })}
+                  disabled={!formData.tdsSection}
+                  className="text-sm"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="tds-amount">TDS Deducted (Rs)</Label>
+                <Input
+                  id="tds-amount"
+                  type="number"
+                  value={formData.tdsAmount}
+                  onChange={(e) => setFormData({ ...formData, tdsAmount: e.target.value })}
+                  disabled={!formData.tdsSection}
+                  placeholder="Computed at the rate"
+                  className="text-sm"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Amount is the gross bill (taxable value + GST). Leave TDS blank to compute it on the taxable value; enter 0 if the payment is below the threshold.
+            </p>
+          </div>
         </div>
 
         <div className="mt-3 text-sm text-gray-600">
-          Enter details and click Add.
+          {postingDraft
+            ? `Posting the recurring payment to ${postingDraft.payee} for ${monthLabel(postingDraft.scheduleMonth)} — add the bill details and click Add.`
+            : "Enter details and click Add."}
         </div>
       </Card>
 
+      {/* Recurring Payment Drafts */}
+      {drafts.some(d => d.status === "pending") && (
+        <Card className="p-6 bg-blue-50/80 backdrop-blur-sm">
+          <h3 className="text-lg font-bold text-purple-900 mb-2">
+            Recurring Payment Drafts ({drafts.filter(d => d.status === "pending").length})
+          </h3>
+          <p className="text-xs text-gray-600 mb-3">
+            Pre-created from the vendor master. Review each against the bill, add the bill details and approver, and post it.
+          </p>
+          <div className="overflow-x-auto border rounded-lg bg-white">
+            <table className="w-full text-sm">
+              <thead className="bg-blue-100">
+                <tr>
+                  <th className="px-3 py-2 text-left">Month</th>
+                  <th className="px-3 py-2 text-left">Payee</th>
+                  <th className="px-3 py-2 text-left">BGL</th>
+                  <th className="px-3 py-2 text-left">Purpose</th>
+                  <th className="px-3 py-2 text-left">Due</th>
+                  <th className="px-3 py-2 text-right">Amount (Rs.)</th>
+                  <th className="px-3 py-2 text-center">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {drafts
+                  .filter(d => d.status === "pending")
+                  .sort((a, b) => a.payDate.localeCompare(b.payDate))
+                  .map(draft => (
+                    <tr key={draft.id} className={`border-t ${postingDraft?.id === draft.id ? "bg-purple-50" : ""}`}>
+                      <td className="px-3 py-2">{monthLabel(draft.scheduleMonth)}</td>
+                      <td className="px-3 py-2">{draft.payee}</td>
+                      <td className="px-3 py-2">{draft.bglCode}</td>
+                      <td className="px-3 py-2">{draft.purpose}</td>
+                      <td className={`px-3 py-2 ${draft.payDate < today ? "text-red-600 font-semibold" : ""}`}>{formatDateDDMMYYYY(draft.payDate)}</td>
+                      <td className="px-3 py-2 text-right">{formatIndianCurrency(draft.amount)}</td>
+                      <td className="px-3 py-2 text-center">
+                        <div className="flex gap-1 justify-center">
+                          <Button size="sm" variant="outline" onClick={() => handleReviewDraft(draft)}>
+                            Review & Post
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => handleSkipDraft(draft)} className="text-red-600">
+                            Skip
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      {/* Possible Split Bills */}
+      {splitGroups.length > 0 && (
+        <Card className="p-6 bg-orange-50/80 backdrop-blur-sm">
+          <h3 className="text-lg font-bold text-orange-800 mb-2 flex items-center">
+            <AlertTriangle className="w-5 h-5 mr-2" />
+            Possible Split Bills ({splitGroups.length})
+          </h3>
+          <p className="text-xs text-gray-600 mb-3">
+            Bills from the same payee under the same head for the same month, paid within {SPLIT_BILL_WINDOW_DAYS} days, each within the per-bill power but together above it. Recurring vendor payments are not included.
+          </p>
+          <div className="space-y-2 text-sm">
+            {splitGroups.map(group => (
+              <div key={`${group.bglCode}|${group.entries[0].id}`} className="border rounded p-2 bg-white">
+                <strong>{group.payee}</strong> — BGL {group.bglCode}: {group.entries.length} bills totalling Rs. {formatIndianCurrency(group.total)} against a per-bill power of Rs. {formatIndianCurrency(group.perBill)}
+                <div className="text-xs text-gray-600 mt-1">
+                  {group.entries.map(e => `${e.billNo} (${formatDateDDMMYYYY(e.payDate)}, Rs. ${formatIndianCurrency(e.amount)})`).join(" · ")}
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* Entries Table */}
       <Card className="p-6 bg-white/80 backdrop-blur-sm">
         <div className="flex justify-between items-center mb-4">
@@ -1871,8 +2630,14 @@ function ChargesEntryTab() {
                       <tbody>
                         {categoryEntries.map((entry: any, idx: number) => {
                           const currentInfo = bglMaster.find(b => b.bglCode === entry.bglCode) || { head: "", subHead: "" };
+                          // Entries from before powers were configured carry no level and are not checked
+                          const sanction = entry.approverLevel ? checkSanction(entry, powersMatrix, entries) : null;
                           return (
-                            <tr key={entry.id} className="border-t hover:bg-purple-50">
+                            <tr
+                              key={entry.id}
+                              className={`border-t hover:bg-purple-50 ${sanction && !sanction.allowed ? "bg-red-50" : ""}`}
+                              title={sanction && !sanction.allowed ? `Beyond powers: ${sanction.reason}` : undefined}
+                            >
                               <td className="px-2 py-2">{idx + 1}</td>
                               <td className="px-2 py-2">{entry.bglCode}</td>
                               <td className="px-2 py-2">{currentInfo.head}</td>
@@ -1882,10 +2647,35 @@ function ChargesEntryTab() {
                               <td className="px-2 py-2">{formatDateDDMMYYYY(entry.billDate)}</td>
                               <td className="px-2 py-2">{entry.payee}</td>
                               <td className="px-2 py-2">{entry.purpose}</td>
-                              <td className="px-2 py-2 text-right">{formatIndianCurrency(Number(entry.amount || 0))}</td>
-                              <td className="px-2 py-2">{entry.approver}</td>
+                              <td className="px-2 py-2 text-right">
+                                {formatIndianCurrency(Number(entry.amount || 0))}
+                                {entry.tax && (
+                                  <span className="block text-[10px] text-gray-500">
+                                    {entry.tax.vendorGstin && `GST ${formatIndianCurrency(entry.tax.cgst + entry.tax.sgst + entry.tax.igst)}`}
+                                    {entry.tax.vendorGstin && entry.tax.tdsSection && " · "}
+                                    {entry.tax.tdsSection && `TDS ${formatIndianCurrency(entry.tax.tdsAmount)}`}
+                                  </span>
+                                )}
+                              </td>
+                              <td className="px-2 py-2">
+                                {entry.approver}
+                                {entry.approverLevel && entry.approverLevel !== BRANCH_AUTHORITY && (
+                                  <span className="block text-[10px] text-purple-700">{entry.approverLevel}</span>
+                                )}
+                              </td>
                               <td className="px-2 py-2 text-center">
                                 <div className="flex gap-1 justify-center">
+                                  {sanction?.aboveBranchPower && (
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      onClick={() => printSanctionNote({ ...entry, head: currentInfo.head, subHead: currentInfo.subHead }, sanction, powersFor(powersMatrix, entry.bglCode), branchName, branchCode)}
+                                      className="text-orange-600"
+                                      title="Beyond branch powers — print sanction note"
+                                    >
+                                      📄
+                                    </Button>
+                                  )}
                                   <Button size="sm" variant="ghost" onClick={() => handleEdit(entry)} title="Edit">
                                     ✎
                                   </Button>
@@ -1986,6 +2776,8 @@ function ChargesReturnReportTab() {
   });
   // Print mode state - controls font size for printing
   const [printMode, setPrintMode] = useState<'compact' | 'standard' | 'large'>('standard');
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [drafts, setDrafts] = useState<DraftCharge[]>([]);
   const { branchName, branchCode } = useBranch();
 
   useEffect(() => {
@@ -1998,6 +2790,8 @@ function ChargesReturnReportTab() {
     const allBGL = await db.getAll("bglMaster");
     setEntries(allEntries);
     setBglMaster(allBGL);
+    setVendors(await db.getAll("vendors"));
+    setDrafts(await db.getAll("draftCharges"));
   }
 
   // Filter entries by selected month
@@ -2028,6 +2822,9 @@ function ChargesReturnReportTab() {
 
   const grandTotal = filteredEntries.reduce((sum, e) => sum + e.amount, 0);
 
+  // Recurring payments of the month not in this return
+  const missing = selectedMonth === "all" ? [] : missingPayments(vendors, entries, drafts, selectedMonth);
+
   function handlePrint() {
     window.print();
   }
@@ -2350,6 +3147,23 @@ function ChargesReturnReportTab() {
           )}
         </div>
 
+        {missing.length > 0 && (
+          <Card className="p-4 mb-6 bg-orange-50/80 border-orange-200 print:hidden">
+            <h3 className="font-semibold text-orange-800 mb-2 flex items-center">
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              {missing.length} recurring payment{missing.length === 1 ? "" : "s"} missing from this return
+            </h3>
+            <ul className="text-sm space-y-1">
+              {missing.map(m => (
+                <li key={m.vendor.id}>
+                  <strong>{m.vendor.name}</strong> — {m.vendor.purpose || "Recurring payment"}, BGL {m.vendor.defaultBglCode}, Rs. {formatIndianCurrency(m.amount)}
+                  {m.skipped ? " (draft skipped)" : " (not posted — see drafts in Charges Entry)"}
+                </li>
+              ))}
+            </ul>
+          </Card>
+        )}
+
         {/* Report Content */}
         {filteredEntries.length === 0 ? (
           <p className="text-center text-gray-500 py-8">No entries to display. Add charges in the "Charges Entry" tab.</p>
@@ -2375,3 +3189,1033 @@ function ChargesReturnReportTab() {
     </div>
   );
 }
+
+// ========== Budget & Variance Tab ==========
+const varianceChartConfig = {
+  actual: { label: "Actual", color: "#7c3aed" },
+  lastYear: { label: "Last Year", color: "#94a3b8" },
+  budget: { label: "Budget (phased)", color: "#dc2626" },
+} satisfies ChartConfig;
+
+const STATUS_STYLES: Record<VarianceStatus, string> = {
+  "Exceeded": "bg-red-100 text-red-800",
+  "Unbudgeted": "bg-orange-100 text-orange-800",
+  "Ahead of budget": "bg-yellow-100 text-yellow-800",
+  "Within budget": "bg-green-100 text-green-800",
+};
+
+// Variances can be negative; formatIndianCurrency expects a positive amount
+function formatVariance(amount: number): string {
+  return (amount < 0 ? "-" : "") + formatIndianCurrency(Math.abs(amount));
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${value > 0 ? "+" : ""}${value.toFixed(1)}%`;
+}
+
+function BudgetVarianceTab() {
+  const [entries, setEntries] = useState<ChargeEntry[]>([]);
+  const [bglMaster, setBglMaster] = useState<BGLMaster[]>([]);
+  const [budgets, setBudgets] = useState<BGLBudget[]>([]);
+  const [selectedMonth, setSelectedMonth] = useState<string>(() => new Date().toISOString().substring(0, 7));
+  const [trendBgl, setTrendBgl] = useState<string>("");
+  const [budgetDrafts, setBudgetDrafts] = useState<Record<string, { annualBudget: string; remarks: string }>>({});
+  const [budgetSetupOpen, setBudgetSetupOpen] = useState(false);
+  const { branchName, branchCode } = useBranch();
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  async function loadData() {
+    const db = await getDB();
+    setEntries(await db.getAll("chargeEntries"));
+    setBglMaster(await db.getAll("bglMaster"));
+    setBudgets(await db.getAll("budgets"));
+  }
+
+  const fy = financialYearOf(selectedMonth);
+  const fyBudgets = budgets.filter(b => b.financialYear === fy);
+
+  // Months with charges, plus every month of the current financial year so far
+  const monthsSet = new Set(entries.map(e => e.payDate.substring(0, 7)));
+  const currentMonth = new Date().toISOString().substring(0, 7);
+  financialYearMonths(financialYearOf(currentMonth)).filter(m => m <= currentMonth).forEach(m => monthsSet.add(m));
+  const availableMonths = Array.from(monthsSet).filter(Boolean).sort().reverse();
+
+  const rows = buildVarianceStatement(entries, budgets, bglMaster, selectedMonth);
+  const alerts = varianceAlerts(rows);
+  const trend = varianceTrend(entries, budgets, fy, trendBgl);
+
+  const totals = rows.reduce((acc, r) => ({
+    annualBudget: acc.annualBudget + r.annualBudget,
+    monthBudget: acc.monthBudget + r.monthBudget,
+    monthActual: acc.monthActual + r.monthActual,
+    monthLastYear: acc.monthLastYear + r.monthLastYear,
+    ytdBudget: acc.ytdBudget + r.ytdBudget,
+    ytdActual: acc.ytdActual + r.ytdActual,
+    ytdLastYear: acc.ytdLastYear + r.ytdLastYear,
+  }), { annualBudget: 0, monthBudget: 0, monthActual: 0, monthLastYear: 0, ytdBudget: 0, ytdActual: 0, ytdLastYear: 0 });
+
+  function openBudgetSetup() {
+    const drafts: Record<string, { annualBudget: string; remarks: string }> = {};
+    for (const bgl of bglMaster) {
+      const existing = fyBudgets.find(b => b.bglCode === bgl.bglCode);
+      drafts[bgl.bglCode] = {
+        annualBudget: existing ? String(existing.annualBudget) : "",
+        remarks: existing?.remarks || ""
+      };
+    }
+    setBudgetDrafts(drafts);
+    setBudgetSetupOpen(true);
+  }
+
+  async function handleSaveBudgets() {
+    try {
+      const now = new Date().toISOString();
+      const toSave: BGLBudget[] = [];
+      const toDelete: string[] = [];
+      for (const [bglCode, draft] of Object.entries(budgetDrafts)) {
+        const existing = fyBudgets.find(b => b.bglCode === bglCode);
+        if (!draft.annualBudget.trim()) {
+          if (existing) toDelete.push(bglCode);
+          continue;
+        }
+        const budget: BGLBudget = {
+          financialYear: fy,
+          bglCode,
+          annualBudget: parseFloat(draft.annualBudget.replace(/,/g, "")),
+          remarks: draft.remarks.trim(),
+          updatedAt: now
+        };
+        try {
+          validateBudget(budget);
+        } catch (error: any) {
+          throw new Error(`BGL ${bglCode}: ${error.message}`);
+        }
+        if (!existing || existing.annualBudget !== budget.annualBudget || existing.remarks !== budget.remarks) {
+          toSave.push(budget);
+        }
+      }
+
+      const db = await getDB();
+      const tx = db.transaction("budgets", "readwrite");
+      await Promise.all([
+        ...toSave.map(b => tx.store.put(b)),
+        ...toDelete.map(code => tx.store.delete([fy, code]))
+      ]);
+      await tx.done;
+
+      toast.success(`Budgets for FY ${fy} saved (${toSave.length} updated, ${toDelete.length} removed)`);
+      setBudgetSetupOpen(false);
+      await loadData();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save budgets");
+      console.error(error);
+    }
+  }
+
+  async function handleCopyPreviousYear() {
+    const previous = budgets.filter(b => b.financialYear === previousFinancialYear(fy));
+    if (previous.length === 0) {
+      toast.error(`No budgets saved for FY ${previousFinancialYear(fy)}`);
+      return;
+    }
+    const drafts = { ...budgetDrafts };
+    for (const b of previous) {
+      if (drafts[b.bglCode] && !drafts[b.bglCode].annualBudget) {
+        drafts[b.bglCode] = { annualBudget: String(b.annualBudget), remarks: "" };
+      }
+    }
+    setBudgetDrafts(drafts);
+    toast.success(`Copied FY ${previousFinancialYear(fy)} budgets into empty heads — review and save`);
+  }
+
+  function handleExport() {
+    if (rows.length === 0) {
+      toast.error("Nothing to export");
+      return;
+    }
+    const statement = rows.map(r => ({
+      "Report Category": r.reportCategory,
+      "BGL Code": r.bglCode,
+      "Payment Head": r.head,
+      "Sub-Head": r.subHead,
+      "Annual Budget": r.annualBudget,
+      "Month Budget": Number(r.monthBudget.toFixed(2)),
+      "Month Actual": r.monthActual,
+      "Month Variance vs Budget": Number((r.monthActual - r.monthBudget).toFixed(2)),
+      "Same Month Last Year": r.monthLastYear,
+      "Month Variance vs LY": Number((r.monthActual - r.monthLastYear).toFixed(2)),
+      "YTD Budget": Number(r.ytdBudget.toFixed(2)),
+      "YTD Actual": r.ytdActual,
+      "YTD Variance vs Budget": Number((r.ytdActual - r.ytdBudget).toFixed(2)),
+      "YTD Last Year": r.ytdLastYear,
+      "YTD Variance vs LY": Number((r.ytdActual - r.ytdLastYear).toFixed(2)),
+      "Budget Utilised %": r.utilisation === null ? "" : Number(r.utilisation.toFixed(1)),
+      "Status": r.status
+    }));
+    const trendSheet = trend.map(t => ({
+      "Month": monthLabel(t.month),
+      "Actual": t.actual,
+      "Last Year": t.lastYear,
+      "Budget (phased)": Number(t.budget.toFixed(2))
+    }));
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(statement), "Variance Statement");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(trendSheet), "Monthly Trend");
+    XLSX.writeFile(wb, `Charges_Variance_${selectedMonth}.xlsx`);
+    toast.success("Variance statement exported");
+  }
+
+  const budgetHeads = bglMaster.slice().sort((a, b) => a.reportCategory.localeCompare(b.reportCategory) || a.bglCode.localeCompare(b.bglCode));
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-6 bg-white/80 backdrop-blur-sm print:shadow-none print:border-0 print:p-0 print:bg-white">
+        {/* Controls - Hidden when printing */}
+        <div className="mb-6 print:hidden space-y-4">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-bold text-purple-900">Budget & Variance</h2>
+            <div className="flex gap-2">
+              <Button onClick={() => (budgetSetupOpen ? setBudgetSetupOpen(false) : openBudgetSetup())} variant="outline">
+                <Edit2 className="w-4 h-4 mr-2" />
+                {budgetSetupOpen ? "Close" : "Set"} Budgets FY {fy}
+              </Button>
+              <Button onClick={handleExport} variant="outline">
+                <Download className="w-4 h-4 mr-2" />
+                Export XLSX
+              </Button>
+              <Button onClick={() => window.print()} variant="outline">
+                <FileText className="w-4 h-4 mr-2" />
+                Print
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex gap-4 items-center">
+            <Label>Select Month:</Label>
+            <select
+              value={selectedMonth}
+              onChange={(e) => { setSelectedMonth(e.target.value); setBudgetSetupOpen(false); }}
+              className="border rounded px-3 py-2"
+            >
+              {availableMonths.map(month => (
+                <option key={month} value={month}>{monthLabel(month)}</option>
+              ))}
+            </select>
+            <span className="text-sm text-gray-600">
+              FY {fy} — YTD is April to {monthLabel(selectedMonth)}; budgets are phased evenly over twelve months
+            </span>
+          </div>
+        </div>
+
+        {/* Budget Setup */}
+        {budgetSetupOpen && (
+          <Card className="p-4 mb-6 bg-green-50/80 backdrop-blur-sm print:hidden">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="font-semibold text-green-700">Annual Budget per BGL Head — FY {fy}</h3>
+              <div className="flex gap-2">
+                <Button onClick={handleCopyPreviousYear} variant="outline" size="sm">
+                  Copy FY {previousFinancialYear(fy)}
+                </Button>
+                <Button onClick={handleSaveBudgets} size="sm" className="bg-green-600 hover:bg-green-700">
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Budgets
+                </Button>
+              </div>
+            </div>
+            {budgetHeads.length === 0 ? (
+              <p className="text-sm text-gray-500">Configure the BGL master in the "Charges Entry" tab first.</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto border rounded bg-white">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-100 sticky top-0">
+                    <tr>
+                      <th className="px-2 py-1 text-left">BGL Code</th>
+                      <th className="px-2 py-1 text-left">Head / Sub-Head</th>
+                      <th className="px-2 py-1 text-left">Report Category</th>
+                      <th className="px-2 py-1 text-right">Annual Budget (Rs.)</th>
+                      <th className="px-2 py-1 text-left">Sanction Reference</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {budgetHeads.map(bgl => {
+                      const draft = budgetDrafts[bgl.bglCode] || { annualBudget: "", remarks: "" };
+                      return (
+                        <tr key={bgl.bglCode} className="border-t">
+                          <td className="px-2 py-1">{bgl.bglCode}</td>
+                          <td className="px-2 py-1">{bgl.head} / {bgl.subHead}</td>
+                          <td className="px-2 py-1">{bgl.reportCategory}</td>
+                          <td className="px-2 py-1">
+                            <Input
+                              type="number"
+                              min="0"
+                              value={draft.annualBudget}
+                              onChange={(e) => setBudgetDrafts({ ...budgetDrafts, [bgl.bglCode]: { ...draft, annualBudget: e.target.value } })}
+                              className="h-8 text-right"
+                              placeholder="No budget"
+                            />
+                          </td>
+                          <td className="px-2 py-1">
+                            <Input
+                              value={draft.remarks}
+                              onChange={(e) => setBudgetDrafts({ ...budgetDrafts, [bgl.bglCode]: { ...draft, remarks: e.target.value } })}
+                              className="h-8"
+                              placeholder="e.g. RBO letter no."
+                            />
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <p className="text-xs text-gray-600 mt-2">Leave the amount blank to remove a head's budget. Heads charged without a budget are reported as "Unbudgeted".</p>
+          </Card>
+        )}
+
+        {/* Alerts */}
+        {alerts.length > 0 && (
+          <Card className="p-4 mb-6 bg-red-50/80 border-red-200 print:hidden">
+            <h3 className="font-semibold text-red-800 mb-2 flex items-center">
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              {alerts.length} head{alerts.length === 1 ? "" : "s"} need{alerts.length === 1 ? "s" : ""} attention
+            </h3>
+            <ul className="text-sm space-y-1">
+              {alerts.map(r => (
+                <li key={r.bglCode}>
+                  <span className={`inline-block px-2 rounded text-xs font-semibold mr-2 ${STATUS_STYLES[r.status]}`}>{r.status}</span>
+                  <strong>{r.bglCode}</strong> {r.head} / {r.subHead} —{" "}
+                  {r.status === "Exceeded" && `YTD Rs. ${formatIndianCurrency(r.ytdActual)} against annual budget Rs. ${formatIndianCurrency(r.annualBudget)} (over by Rs. ${formatIndianCurrency(r.ytdActual - r.annualBudget)})`}
+                  {r.status === "Unbudgeted" && `Rs. ${formatIndianCurrency(r.ytdActual)} spent YTD with no budget for FY ${fy}`}
+                  {r.status === "Ahead of budget" && `YTD Rs. ${formatIndianCurrency(r.ytdActual)} against phased budget Rs. ${formatIndianCurrency(r.ytdBudget)} (${(r.utilisation ?? 0).toFixed(1)}% of annual budget used)`}
+                </li>
+              ))}
+            </ul>
+          </Card>
+        )}
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6 print:hidden">
+          <div className="border rounded-lg p-3 bg-purple-50">
+            <p className="text-xs text-gray-600">Annual Budget FY {fy}</p>
+            <p className="text-lg font-bold text-purple-900">Rs. {formatIndianCurrency(totals.annualBudget)}</p>
+          </div>
+          <div className="border rounded-lg p-3 bg-purple-50">
+            <p className="text-xs text-gray-600">YTD Actual / Phased Budget</p>
+            <p className="text-lg font-bold text-purple-900">Rs. {formatIndianCurrency(totals.ytdActual)}</p>
+            <p className="text-xs text-gray-600">of Rs. {formatIndianCurrency(totals.ytdBudget)} ({formatPercent(variancePercent(totals.ytdActual, totals.ytdBudget))})</p>
+          </div>
+          <div className="border rounded-lg p-3 bg-purple-50">
+            <p className="text-xs text-gray-600">YTD Last Year</p>
+            <p className="text-lg font-bold text-purple-900">Rs. {formatIndianCurrency(totals.ytdLastYear)}</p>
+            <p className="text-xs text-gray-600">{formatPercent(variancePercent(totals.ytdActual, totals.ytdLastYear))} this year</p>
+          </div>
+          <div className="border rounded-lg p-3 bg-purple-50">
+            <p className="text-xs text-gray-600">Heads Exceeded / Unbudgeted</p>
+            <p className="text-lg font-bold text-red-700">
+              {rows.filter(r => r.status === "Exceeded").length} / {rows.filter(r => r.status === "Unbudgeted").length}
+            </p>
+          </div>
+        </div>
+
+        {/* Trend Chart */}
+        <div className="mb-6 print:hidden">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-lg font-bold text-purple-900">Monthly Trend — FY {fy}</h3>
+            <select
+              value={trendBgl}
+              onChange={(e) => setTrendBgl(e.target.value)}
+              className="border rounded px-3 py-2 text-sm"
+            >
+              <option value="">All Heads</option>
+              {rows.map(r => (
+                <option key={r.bglCode} value={r.bglCode}>{r.bglCode} — {r.subHead || r.head}</option>
+              ))}
+            </select>
+          </div>
+          <ChartContainer config={varianceChartConfig} className="h-72 w-full aspect-auto">
+            <ComposedChart data={trend}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={80} tickFormatter={(v: number) => formatIndianCurrency(v).split(".")[0]} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="actual" fill="var(--color-actual)" radius={2} />
+              <Bar dataKey="lastYear" fill="var(--color-lastYear)" radius={2} />
+              <Line dataKey="budget" stroke="var(--color-budget)" strokeDasharray="4 4" dot={false} />
+            </ComposedChart>
+          </ChartContainer>
+        </div>
+
+        {/* Variance Statement */}
+        {rows.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No budgets or charges for FY {fy}. Set budgets above and add charges in the "Charges Entry" tab.</p>
+        ) : (
+          <div style={{ fontFamily: "'Times New Roman', serif" }}>
+            <div className="text-center mb-3 leading-tight">
+              <h2 className="text-lg font-semibold leading-tight">CHARGES VARIANCE STATEMENT FOR {monthLabel(selectedMonth).toUpperCase()}</h2>
+              <h3 className="text-base mt-1 leading-tight">State Bank of India, {branchName}, ({branchCode})</h3>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs border-collapse border border-black">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th rowSpan={2} className="border border-black px-2 py-1">BGL Code</th>
+                    <th rowSpan={2} className="border border-black px-2 py-1">Head / Sub-Head</th>
+                    <th rowSpan={2} className="border border-black px-2 py-1">Annual Budget</th>
+                    <th colSpan={4} className="border border-black px-2 py-1">{monthLabel(selectedMonth)}</th>
+                    <th colSpan={5} className="border border-black px-2 py-1">Year to Date</th>
+                    <th rowSpan={2} className="border border-black px-2 py-1">Status</th>
+                  </tr>
+                  <tr>
+                    <th className="border border-black px-2 py-1">Budget</th>
+                    <th className="border border-black px-2 py-1">Actual</th>
+                    <th className="border border-black px-2 py-1">Last Year</th>
+                    <th className="border border-black px-2 py-1">Var. vs LY</th>
+                    <th className="border border-black px-2 py-1">Budget</th>
+                    <th className="border border-black px-2 py-1">Actual</th>
+                    <th className="border border-black px-2 py-1">Var. vs Budget</th>
+                    <th className="border border-black px-2 py-1">Last Year</th>
+                    <th className="border border-black px-2 py-1">Var. vs LY</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(r => (
+                    <tr key={r.bglCode} className="print:page-break-inside-avoid">
+                      <td className="border border-black px-2 py-1">{r.bglCode}</td>
+                      <td className="border border-black px-2 py-1">{r.head} / {r.subHead}</td>
+                      <td className="border border-black px-2 py-1 text-right">{formatIndianCurrency(r.annualBudget)}</td>
+                      <td className="border border-black px-2 py-1 text-right">{formatIndianCurrency(r.monthBudget)}</td>
+                      <td className={`border border-black px-2 py-1 text-right ${r.monthBudget > 0 && r.monthActual > r.monthBudget ? "text-red-700 font-semibold" : ""}`}>
+                        {formatIndianCurrency(r.monthActual)}
+                      </td>
+                      <td className="border border-black px-2 py-1 text-right">{formatIndianCurrency(r.monthLastYear)}</td>
+                      <td className="border border-black px-2 py-1 text-right">{formatPercent(variancePercent(r.monthActual, r.monthLastYear))}</td>
+                      <td className="border border-black px-2 py-1 text-right">{formatIndianCurrency(r.ytdBudget)}</td>
+                      <td className="border border-black px-2 py-1 text-right">{formatIndianCurrency(r.ytdActual)}</td>
+                      <td className={`border border-black px-2 py-1 text-right ${r.ytdActual > r.ytdBudget ? "text-red-700 font-semibold" : "text-green-700"}`}>
+                        {formatVariance(r.ytdActual - r.ytdBudget)}
+                      </td>
+                      <td className="border border-black px-2 py-1 text-right">{formatIndianCurrency(r.ytdLastYear)}</td>
+                      <td className="border border-black px-2 py-1 text-right">{formatPercent(variancePercent(r.ytdActual, r.ytdLastYear))}</td>
+                      <td className="border border-black px-2 py-1 text-center">
+                        <span className={`px-1 rounded ${STATUS_STYLES[r.status]} print:bg-transparent`}>{r.status}</span>
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="font-bold bg-gray-50">
+                    <td colSpan={2} className="border border-black px-2 py-1 text-right">Total</td>
+                    <td className="border border-black px-2 py-1 text-right">{formatIndianCurrency(totals.annualBudget)}</td>
+                    <td className="border border-black px-2 py-1 text-right">{formatIndianCurrency(totals.monthBudget)}</td>
+                    <td className="border border-black px-2 py-1 text-right">{formatIndianCurrency(totals.monthActual)}</td>
+                    <td className="border border-black px-2 py-1 text-right">{formatIndianCurrency(totals.monthLastYear)}</td>
+                    <td className="border border-black px-2 py-1 text-right">{formatPercent(variancePercent(totals.monthActual, totals.monthLastYear))}</td>
+                    <td className="border border-black px-2 py-1 text-right">{formatIndianCurrency(totals.ytdBudget)}</td>
+                    <td className="border border-black px-2 py-1 text-right">{formatIndianCurrency(totals.ytdActual)}</td>
+                    <td className="border border-black px-2 py-1 text-right">{formatVariance(totals.ytdActual - totals.ytdBudget)}</td>
+                    <td className="border border-black px-2 py-1 text-right">{formatIndianCurrency(totals.ytdLastYear)}</td>
+                    <td className="border border-black px-2 py-1 text-right">{formatPercent(variancePercent(totals.ytdActual, totals.ytdLastYear))}</td>
+                    <td className="border border-black px-2 py-1"></td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-600 mt-2">
+              Var. vs Budget is actual less phased budget (positive = overspent). Var. vs LY is the change over the same period of FY {previousFinancialYear(fy)}.
+            </p>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+// ========== GST & TDS Tab ==========
+function TaxReportsTab() {
+  const [entries, setEntries] = useState<ChargeEntry[]>([]);
+  const [bglMaster, setBglMaster] = useState<BGLMaster[]>([]);
+  const [selectedMonth, setSelectedMonth] = useState<string>(() => new Date().toISOString().substring(0, 7));
+  const [selectedQuarter, setSelectedQuarter] = useState<string>(() => {
+    const month = new Date().toISOString().substring(5, 7);
+    return QUARTERS.find(q => q.months.includes(month))!.quarter;
+  });
+  const { branchName, branchCode } = useBranch();
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  async function loadData() {
+    const db = await getDB();
+    setEntries(await db.getAll("chargeEntries"));
+    setBglMaster(await db.getAll("bglMaster"));
+  }
+
+  const monthsSet = new Set(entries.map(e => e.payDate.substring(0, 7)));
+  monthsSet.add(new Date().toISOString().substring(0, 7));
+  const availableMonths = Array.from(monthsSet).filter(Boolean).sort().reverse();
+  const fy = financialYearOf(selectedMonth);
+
+  const gstRows = gstByVendor(entries, selectedMonth);
+  const tdsRows = tdsByDeductee(entries, selectedMonth);
+  const exceptions = taxExceptions(entries, bglMaster, selectedMonth);
+  const annexure = form26QAnnexure(entries, fy, selectedQuarter);
+
+  const gstTotals = gstRows.reduce((acc, r) => ({
+    taxableValue: acc.taxableValue + r.taxableValue,
+    cgst: acc.cgst + r.cgst,
+    sgst: acc.sgst + r.sgst,
+    igst: acc.igst + r.igst,
+    invoiceValue: acc.invoiceValue + r.invoiceValue,
+  }), { taxableValue: 0, cgst: 0, sgst: 0, igst: 0, invoiceValue: 0 });
+  const tdsTotal = tdsRows.reduce((sum, r) => sum + r.tdsAmount, 0);
+  const tdsCredited = tdsRows.reduce((sum, r) => sum + r.amountCredited, 0);
+
+  function handleExportMonthly() {
+    if (gstRows.length === 0 && tdsRows.length === 0) {
+      toast.error(`No GST or TDS recorded for ${monthLabel(selectedMonth)}`);
+      return;
+    }
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(gstRows.map(r => ({
+      "Vendor GSTIN": r.vendorGstin,
+      "Vendor": r.payee,
+      "Bills": r.bills,
+      "Taxable Value": r.taxableValue,
+      "CGST": r.cgst,
+      "SGST": r.sgst,
+      "IGST": r.igst,
+      "Total GST": Number((r.cgst + r.sgst + r.igst).toFixed(2)),
+      "Invoice Value": r.invoiceValue
+    }))), "GST Paid");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(tdsRows.map(r => ({
+      "Section": r.tdsSection,
+      "PAN": r.vendorPan,
+      "Deductee": r.payee,
+      "Payments": r.payments,
+      "Amount Credited": r.amountCredited,
+      "TDS Deducted": r.tdsAmount
+    }))), "TDS Deducted");
+    XLSX.writeFile(wb, `GST_TDS_${selectedMonth}.xlsx`);
+    toast.success("GST / TDS report exported");
+  }
+
+  function handleExport26Q() {
+    if (annexure.length === 0) {
+      toast.error(`No TDS deducted in ${selectedQuarter} of FY ${fy}`);
+      return;
+    }
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(annexure), "Deductee Details");
+    XLSX.writeFile(wb, `26Q_Annexure_${branchCode}_FY${fy}_${selectedQuarter}.xlsx`);
+    toast.success("26Q annexure exported");
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-6 bg-white/80 backdrop-blur-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-purple-900">GST & TDS on Branch Expenses</h2>
+          <Button onClick={handleExportMonthly} variant="outline">
+            <Download className="w-4 h-4 mr-2" />
+            Export Month (XLSX)
+          </Button>
+        </div>
+
+        <div className="flex gap-4 items-center mb-6">
+          <Label>Select Month:</Label>
+          <select
+            value={selectedMonth}
+            onChange={(e) => setSelectedMonth(e.target.value)}
+            className="border rounded px-3 py-2"
+          >
+            {availableMonths.map(month => (
+              <option key={month} value={month}>{monthLabel(month)}</option>
+            ))}
+          </select>
+          <span className="text-sm text-gray-600">{branchName} ({branchCode})</span>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+          <div className="border rounded-lg p-3 bg-purple-50">
+            <p className="text-xs text-gray-600">Taxable Value (GST bills)</p>
+            <p className="text-lg font-bold text-purple-900">Rs. {formatIndianCurrency(gstTotals.taxableValue)}</p>
+          </div>
+          <div className="border rounded-lg p-3 bg-purple-50">
+            <p className="text-xs text-gray-600">GST Paid (CGST + SGST + IGST)</p>
+            <p className="text-lg font-bold text-purple-900">Rs. {formatIndianCurrency(gstTotals.cgst + gstTotals.sgst + gstTotals.igst)}</p>
+          </div>
+          <div className="border rounded-lg p-3 bg-purple-50">
+            <p className="text-xs text-gray-600">Amount Credited (TDS bills)</p>
+            <p className="text-lg font-bold text-purple-900">Rs. {formatIndianCurrency(tdsCredited)}</p>
+          </div>
+          <div className="border rounded-lg p-3 bg-purple-50">
+            <p className="text-xs text-gray-600">TDS Deducted</p>
+            <p className="text-lg font-bold text-purple-900">Rs. {formatIndianCurrency(tdsTotal)}</p>
+          </div>
+        </div>
+
+        {exceptions.length > 0 && (
+          <Card className="p-4 mb-6 bg-orange-50/80 border-orange-200">
+            <h3 className="font-semibold text-orange-800 mb-2 flex items-center">
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              {exceptions.length} bill{exceptions.length === 1 ? "" : "s"} to review
+            </h3>
+            <ul className="text-sm space-y-1">
+              {exceptions.map(({ entry, issue }) => (
+                <li key={entry.id}>
+                  <strong>{entry.payee}</strong> — Bill {entry.billNo}, BGL {entry.bglCode}, Rs. {formatIndianCurrency(entry.amount)}: {issue}
+                </li>
+              ))}
+            </ul>
+          </Card>
+        )}
+
+        {/* GST per vendor */}
+        <h3 className="text-lg font-bold text-purple-900 mb-2">GST Paid per Vendor — {monthLabel(selectedMonth)}</h3>
+        {gstRows.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-6">No bills from GST-registered vendors paid this month.</p>
+        ) : (
+          <div className="overflow-x-auto border rounded-lg mb-6">
+            <table className="w-full text-sm">
+              <thead className="bg-purple-100">
+                <tr>
+                  <th className="px-3 py-2 text-left">Vendor GSTIN</th>
+                  <th className="px-3 py-2 text-left">Vendor</th>
+                  <th className="px-3 py-2 text-right">Bills</th>
+                  <th className="px-3 py-2 text-right">Taxable Value</th>
+                  <th className="px-3 py-2 text-right">CGST</th>
+                  <th className="px-3 py-2 text-right">SGST</th>
+                  <th className="px-3 py-2 text-right">IGST</th>
+                  <th className="px-3 py-2 text-right">Invoice Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {gstRows.map(r => (
+                  <tr key={r.vendorGstin} className="border-t">
+                    <td className="px-3 py-2 font-mono">{r.vendorGstin}</td>
+                    <td className="px-3 py-2">{r.payee}</td>
+                    <td className="px-3 py-2 text-right">{r.bills}</td>
+                    <td className="px-3 py-2 text-right">{formatIndianCurrency(r.taxableValue)}</td>
+                    <td className="px-3 py-2 text-right">{formatIndianCurrency(r.cgst)}</td>
+                    <td className="px-3 py-2 text-right">{formatIndianCurrency(r.sgst)}</td>
+                    <td className="px-3 py-2 text-right">{formatIndianCurrency(r.igst)}</td>
+                    <td className="px-3 py-2 text-right">{formatIndianCurrency(r.invoiceValue)}</td>
+                  </tr>
+                ))}
+                <tr className="border-t bg-purple-50 font-semibold">
+                  <td colSpan={3} className="px-3 py-2">Total</td>
+                  <td className="px-3 py-2 text-right">{formatIndianCurrency(gstTotals.taxableValue)}</td>
+                  <td className="px-3 py-2 text-right">{formatIndianCurrency(gstTotals.cgst)}</td>
+                  <td className="px-3 py-2 text-right">{formatIndianCurrency(gstTotals.sgst)}</td>
+                  <td className="px-3 py-2 text-right">{formatIndianCurrency(gstTotals.igst)}</td>
+                  <td className="px-3 py-2 text-right">{formatIndianCurrency(gstTotals.invoiceValue)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* TDS per deductee */}
+        <h3 className="text-lg font-bold text-purple-900 mb-2">TDS Deducted per Deductee — {monthLabel(selectedMonth)}</h3>
+        {tdsRows.length === 0 ? (
+          <p className="text-sm text-gray-500">No TDS deducted this month.</p>
+        ) : (
+          <div className="overflow-x-auto border rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-purple-100">
+                <tr>
+                  <th className="px-3 py-2 text-left">Section</th>
+                  <th className="px-3 py-2 text-left">PAN</th>
+                  <th className="px-3 py-2 text-left">Deductee</th>
+                  <th className="px-3 py-2 text-right">Payments</th>
+                  <th className="px-3 py-2 text-right">Amount Credited</th>
+                  <th className="px-3 py-2 text-right">TDS Deducted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tdsRows.map(r => (
+                  <tr key={`${r.tdsSection}|${r.vendorPan}|${r.payee}`} className="border-t">
+                    <td className="px-3 py-2">{r.tdsSection}</td>
+                    <td className={`px-3 py-2 font-mono ${r.vendorPan ? "" : "text-red-600"}`}>{r.vendorPan || "Not available"}</td>
+                    <td className="px-3 py-2">{r.payee}</td>
+                    <td className="px-3 py-2 text-right">{r.payments}</td>
+                    <td className="px-3 py-2 text-right">{formatIndianCurrency(r.amountCredited)}</td>
+                    <td className="px-3 py-2 text-right">{formatIndianCurrency(r.tdsAmount)}</td>
+                  </tr>
+                ))}
+                <tr className="border-t bg-purple-50 font-semibold">
+                  <td colSpan={4} className="px-3 py-2">Total</td>
+                  <td className="px-3 py-2 text-right">{formatIndianCurrency(tdsCredited)}</td>
+                  <td className="px-3 py-2 text-right">{formatIndianCurrency(tdsTotal)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {/* Form 26Q annexure */}
+      <Card className="p-6 bg-white/80 backdrop-blur-sm">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-lg font-bold text-purple-900">Form 26Q Deductee Annexure — FY {fy}</h3>
+            <p className="text-xs text-gray-600">Deductee details for the quarterly TDS return, one row per payment. Check challan details before filing.</p>
+          </div>
+          <div className="flex gap-2 items-center">
+            <select
+              value={selectedQuarter}
+              onChange={(e) => setSelectedQuarter(e.target.value)}
+              className="border rounded px-3 py-2 text-sm"
+            >
+              {QUARTERS.map(q => (
+                <option key={q.quarter} value={q.quarter}>{q.label}</option>
+              ))}
+            </select>
+            <Button onClick={handleExport26Q} variant="outline">
+              <Download className="w-4 h-4 mr-2" />
+              Export 26Q Annexure
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-700">
+          {annexure.length} payment{annexure.length === 1 ? "" : "s"} with TDS of Rs. {formatIndianCurrency(annexure.reduce((sum, r) => sum + Number(r["TDS Deducted"]), 0))} in {selectedQuarter} of FY {fy}.
+        </p>
+      </Card>
+    </div>
+  );
+}
+
+// ========== Vendors Tab ==========
+const EMPTY_VENDOR_FORM = {
+  name: "",
+  gstin: "",
+  pan: "",
+  bankName: "",
+  accountNo: "",
+  ifsc: "",
+  defaultBglCode: "",
+  purpose: "",
+  contractStart: "",
+  contractEnd: "",
+  escalationPercent: "",
+  recurring: false,
+  monthlyAmount: "",
+  paymentDay: "1",
+  active: true,
+};
+
+function VendorsTab() {
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [entries, setEntries] = useState<ChargeEntry[]>([]);
+  const [drafts, setDrafts] = useState<DraftCharge[]>([]);
+  const [bglMaster, setBglMaster] = useState<BGLMaster[]>([]);
+  const [form, setForm] = useState(EMPTY_VENDOR_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const today = new Date().toISOString().slice(0, 10);
+  const currentMonth = today.substring(0, 7);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  async function loadData() {
+    const db = await getDB();
+    setVendors(await db.getAll("vendors"));
+    setEntries(await db.getAll("chargeEntries"));
+    setDrafts(await db.getAll("draftCharges"));
+    setBglMaster(await db.getAll("bglMaster"));
+  }
+
+  async function handleSave() {
+    const existing = editingId ? vendors.find(v => v.id === editingId) : undefined;
+    const vendor: Vendor = {
+      id: editingId || `vendor_${Date.now()}`,
+      name: form.name.trim(),
+      gstin: form.gstin.trim().toUpperCase(),
+      pan: (form.pan.trim().toUpperCase() || (form.gstin.trim().length === 15 ? form.gstin.trim().toUpperCase().slice(2, 12) : "")),
+      bankName: form.bankName.trim(),
+      accountNo: form.accountNo.trim(),
+      ifsc: form.ifsc.trim().toUpperCase(),
+      defaultBglCode: form.defaultBglCode,
+      purpose: form.purpose.trim(),
+      contractStart: form.contractStart,
+      contractEnd: form.contractEnd,
+      escalationPercent: parseFloat(form.escalationPercent) || 0,
+      recurring: form.recurring,
+      monthlyAmount: parseFloat(form.monthlyAmount) || 0,
+      paymentDay: parseInt(form.paymentDay, 10),
+      active: form.active,
+      remindersIssued: existing?.remindersIssued || [],
+      updatedAt: new Date().toISOString()
+    };
+
+    try {
+      validateVendor(vendor, bglMaster.map(b => b.bglCode));
+      if (vendors.some(v => v.id !== vendor.id && v.name.trim().toLowerCase() === vendor.name.toLowerCase())) {
+        throw new Error(`${vendor.name} is already in the vendor master`);
+      }
+      vendor.remindersIssued = await syncRenewalReminders(vendor);
+      const db = await getDB();
+      await db.put("vendors", vendor);
+      toast.success(existing ? "Vendor updated" : "Vendor added");
+      handleReset();
+      await loadData();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save vendor");
+      console.error(error);
+    }
+  }
+
+  function handleReset() {
+    setForm(EMPTY_VENDOR_FORM);
+    setEditingId(null);
+  }
+
+  function handleEdit(vendor: Vendor) {
+    setForm({
+      name: vendor.name,
+      gstin: vendor.gstin,
+      pan: vendor.pan,
+      bankName: vendor.bankName,
+      accountNo: vendor.accountNo,
+      ifsc: vendor.ifsc,
+      defaultBglCode: vendor.defaultBglCode,
+      purpose: vendor.purpose,
+      contractStart: vendor.contractStart,
+      contractEnd: vendor.contractEnd,
+      escalationPercent: vendor.escalationPercent ? String(vendor.escalationPercent) : "",
+      recurring: vendor.recurring,
+      monthlyAmount: vendor.monthlyAmount ? String(vendor.monthlyAmount) : "",
+      paymentDay: String(vendor.paymentDay || 1),
+      active: vendor.active,
+    });
+    setEditingId(vendor.id);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  async function handleDelete(vendor: Vendor) {
+    if (!confirm(`Delete ${vendor.name} from the vendor master? Posted charge entries are kept; pending drafts are removed.`)) return;
+
+    try {
+      await syncRenewalReminders(vendor, true);
+      const db = await getDB();
+      const tx = db.transaction(["vendors", "draftCharges"], "readwrite");
+      await tx.objectStore("vendors").delete(vendor.id);
+      for (const draft of drafts.filter(d => d.vendorId === vendor.id)) {
+        await tx.objectStore("draftCharges").delete(draft.id);
+      }
+      await tx.done;
+      toast.success("Vendor deleted");
+      if (editingId === vendor.id) handleReset();
+      await loadData();
+    } catch (error) {
+      toast.error("Failed to delete vendor");
+      console.error(error);
+    }
+  }
+
+  function monthStatus(vendor: Vendor): { label: string; className: string } {
+    if (!vendor.active || !vendor.recurring || !contractCovers(vendor, currentMonth)) return { label: "—", className: "text-gray-400" };
+    const missing = missingPayments([vendor], entries, drafts, currentMonth)[0];
+    if (!missing) return { label: "Paid", className: "text-green-700" };
+    if (missing.skipped) return { label: "Skipped", className: "text-orange-700" };
+    return { label: "Draft pending", className: "text-blue-700" };
+  }
+
+  function contractStatus(vendor: Vendor): { label: string; className: string } | null {
+    if (!vendor.contractEnd) return null;
+    if (vendor.contractEnd < today) return { label: "Expired", className: "bg-red-100 text-red-800" };
+    const days = Math.round((new Date(vendor.contractEnd).getTime() - new Date(today).getTime()) / 86400000);
+    if (days <= RENEWAL_NOTICE_DAYS) return { label: `Renewal in ${days} days`, className: "bg-yellow-100 text-yellow-800" };
+    return null;
+  }
+
+  const sortedVendors = vendors.slice().sort((a, b) => Number(b.active) - Number(a.active) || a.name.localeCompare(b.name));
+  const missingThisMonth = missingPayments(vendors, entries, drafts, currentMonth);
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-6 bg-white/80 backdrop-blur-sm">
+        <h2 className="text-xl font-bold mb-4 text-purple-900">Vendor Master</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-3">
+          <div>
+            <Label htmlFor="vendor-name">Vendor / Payee Name*</Label>
+            <Input id="vendor-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="As on charge entries" className="text-sm" />
+          </div>
+          <div>
+            <Label htmlFor="vendor-master-gstin">GSTIN</Label>
+            <Input id="vendor-master-gstin" value={form.gstin} onChange={(e) => setForm({ ...form, gstin: e.target.value.toUpperCase().trim() })} maxLength={15} className="text-sm" />
+          </div>
+          <div>
+            <Label htmlFor="vendor-master-pan">PAN</Label>
+            <Input id="vendor-master-pan" value={form.pan} onChange={(e) => setForm({ ...form, pan: e.target.value.toUpperCase().trim() })} placeholder="From GSTIN if blank" maxLength={10} className="text-sm" />
+          </div>
+          <div>
+            <Label htmlFor="vendor-bgl">Default BGL Head</Label>
+            <select
+              id="vendor-bgl"
+              value={form.defaultBglCode}
+              onChange={(e) => setForm({ ...form, defaultBglCode: e.target.value })}
+              className="w-full border rounded px-2 py-2 text-sm"
+            >
+              <option value="">-- Select --</option>
+              {bglMaster.map(bgl => (
+                <option key={bgl.bglCode} value={bgl.bglCode}>{bgl.bglCode} — {bgl.subHead}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="vendor-purpose">Purpose</Label>
+            <Input id="vendor-purpose" value={form.purpose} onChange={(e) => setForm({ ...form, purpose: e.target.value })} placeholder="e.g. Office rent" className="text-sm" />
+          </div>
+
+          <div>
+            <Label htmlFor="vendor-bank">Bank Name</Label>
+            <Input id="vendor-bank" value={form.bankName} onChange={(e) => setForm({ ...form, bankName: e.target.value })} className="text-sm" />
+          </div>
+          <div>
+            <Label htmlFor="vendor-account">Account No.</Label>
+            <Input id="vendor-account" value={form.accountNo} onChange={(e) => setForm({ ...form, accountNo: e.target.value.trim() })} className="text-sm" />
+          </div>
+          <div>
+            <Label htmlFor="vendor-ifsc">IFSC</Label>
+            <Input id="vendor-ifsc" value={form.ifsc} onChange={(e) => setForm({ ...form, ifsc: e.target.value.toUpperCase().trim() })} maxLength={11} className="text-sm" />
+          </div>
+          <div>
+            <Label htmlFor="vendor-start">Contract Start</Label>
+            <Input id="vendor-start" type="date" value={form.contractStart} onChange={(e) => setForm({ ...form, contractStart: e.target.value })} className="text-sm" />
+          </div>
+          <div>
+            <Label htmlFor="vendor-end">Contract End</Label>
+            <Input id="vendor-end" type="date" value={form.contractEnd} onChange={(e) => setForm({ ...form, contractEnd: e.target.value })} className="text-sm" />
+          </div>
+
+          <div>
+            <Label htmlFor="vendor-escalation">Escalation % (yearly)</Label>
+            <Input id="vendor-escalation" type="number" step="0.01" value={form.escalationPercent} onChange={(e) => setForm({ ...form, escalationPercent: e.target.value })} placeholder="0" className="text-sm" />
+          </div>
+          <div className="flex items-end gap-2 pb-2">
+            <input id="vendor-recurring" type="checkbox" checked={form.recurring} onChange={(e) => setForm({ ...form, recurring: e.target.checked })} />
+            <Label htmlFor="vendor-recurring">Recurring monthly payment</Label>
+          </div>
+          <div>
+            <Label htmlFor="vendor-amount">Monthly Amount (Rs, first year)</Label>
+            <Input id="vendor-amount" type="number" step="0.01" value={form.monthlyAmount} onChange={(e) => setForm({ ...form, monthlyAmount: e.target.value })} disabled={!form.recurring} className="text-sm" />
+          </div>
+          <div>
+            <Label htmlFor="vendor-day">Payment Day (1–28)</Label>
+            <Input id="vendor-day" type="number" min="1" max="28" value={form.paymentDay} onChange={(e) => setForm({ ...form, paymentDay: e.target.value })} disabled={!form.recurring} className="text-sm" />
+          </div>
+          <div className="flex items-end gap-2 pb-2">
+            <input id="vendor-active" type="checkbox" checked={form.active} onChange={(e) => setForm({ ...form, active: e.target.checked })} />
+            <Label htmlFor="vendor-active">Active</Label>
+          </div>
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <Button onClick={handleSave} className="bg-purple-600 hover:bg-purple-700">
+            <Save className="w-4 h-4 mr-2" />
+            {editingId ? "Update Vendor" : "Add Vendor"}
+          </Button>
+          {editingId && (
+            <Button onClick={handleReset} variant="outline">
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-gray-600 mt-2">
+          Recurring vendors get a draft charge entry each month in the "Charges Entry" tab. A renewal reminder is added to the Reminders app {RENEWAL_NOTICE_DAYS} days before the contract ends.
+        </p>
+      </Card>
+
+      {missingThisMonth.length > 0 && (
+        <Card className="p-4 bg-orange-50/80 border-orange-200">
+          <h3 className="font-semibold text-orange-800 mb-1 flex items-center">
+            <AlertTriangle className="w-4 h-4 mr-2" />
+            {missingThisMonth.length} recurring payment{missingThisMonth.length === 1 ? "" : "s"} not yet posted for {monthLabel(currentMonth)}
+          </h3>
+          <p className="text-sm text-gray-700">
+            {missingThisMonth.map(m => `${m.vendor.name} (Rs. ${formatIndianCurrency(m.amount)}${m.skipped ? ", skipped" : ""})`).join(" · ")}
+          </p>
+        </Card>
+      )}
+
+      <Card className="p-6 bg-white/80 backdrop-blur-sm">
+        <h3 className="text-lg font-bold text-purple-900 mb-4">Vendors ({vendors.length})</h3>
+        {vendors.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No vendors yet.</p>
+        ) : (
+          <div className="overflow-x-auto border rounded-lg">
+            <table className="w-full text-xs">
+              <thead className="bg-purple-100">
+                <tr>
+                  <th className="px-2 py-2 text-left">Vendor</th>
+                  <th className="px-2 py-2 text-left">GSTIN / PAN</th>
+                  <th className="px-2 py-2 text-left">Bank Details</th>
+                  <th className="px-2 py-2 text-left">BGL</th>
+                  <th className="px-2 py-2 text-left">Contract</th>
+                  <th className="px-2 py-2 text-right">Monthly (Rs.)</th>
+                  <th className="px-2 py-2 text-left">{monthLabel(currentMonth)}</th>
+                  <th className="px-2 py-2 text-center">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedVendors.map(vendor => {
+                  const contract = contractStatus(vendor);
+                  const status = monthStatus(vendor);
+                  return (
+                    <tr key={vendor.id} className={`border-t hover:bg-purple-50 ${vendor.active ? "" : "text-gray-400"}`}>
+                      <td className="px-2 py-2">
+                        <strong>{vendor.name}</strong>
+                        {vendor.purpose && <span className="block text-gray-500">{vendor.purpose}</span>}
+                        {!vendor.active && <span className="block">Inactive</span>}
+                      </td>
+                      <td className="px-2 py-2 font-mono">{vendor.gstin || "—"}<span className="block">{vendor.pan}</span></td>
+                      <td className="px-2 py-2">
+                        {vendor.bankName}
+                        {vendor.accountNo && <span className="block font-mono">{vendor.accountNo} / {vendor.ifsc}</span>}
+                      </td>
+                      <td className="px-2 py-2">{vendor.defaultBglCode || "—"}</td>
+                      <td className="px-2 py-2">
+                        {vendor.contractStart ? formatDateDDMMYYYY(vendor.contractStart) : "—"} to {vendor.contractEnd ? formatDateDDMMYYYY(vendor.contractEnd) : "open"}
+                        {vendor.escalationPercent > 0 && <span className="block text-gray-500">+{vendor.escalationPercent}% yearly</span>}
+                        {contract && <span className={`inline-block mt-1 px-1 rounded ${contract.className}`}>{contract.label}</span>}
+                      </td>
+                      <td className="px-2 py-2 text-right">
+                        {vendor.recurring ? formatIndianCurrency(scheduledAmount(vendor, currentMonth)) : "—"}
+                        {vendor.recurring && <span className="block text-gray-500">on day {vendor.paymentDay}</span>}
+                      </td>
+                      <td className={`px-2 py-2 font-semibold ${status.className}`}>{status.label}</td>
+                      <td className="px-2 py-2 text-center">
+                        <div className="flex gap-1 justify-center">
+                          <Button size="sm" variant="ghost" onClick={() => handleEdit(vendor)} title="Edit">
+                            ✎
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => handleDelete(vendor)} className="text-red-600" title="Delete">
+                            🗑
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+function formatDateDDMMYYYY(isoDate: string): string {
+  if (!isoDate) return "";
+  const [y, m, d] = isoDate.split("-");
+  return `${d}/${m}/${y}`;
+}
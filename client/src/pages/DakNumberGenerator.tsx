@@ -9,6 +9,7 @@
  * - Displays previously generated reference numbers
  * - Allows viewing, editing, and deleting records
  * - Shows Dak record history and statistics
+ * - Inward register and the daily inward / outward register (InwardDakRegister.tsx)
  * 
  * DEPRECATION NOTICE:
  * - generateSerial() and buildRef() functions preserved for backward compatibility but DEPRECATED
@@ -34,12 +35,15 @@ import { Card } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { ArrowLeft, Save, RotateCcw, Printer, FileText, LogIn, LogOut, Pencil, Trash2, ChevronDown, ChevronUp, Copy, Check } from "lucide-react";
+import { ArrowLeft, Save, RotateCcw, Printer, FileText, LogIn, LogOut, Pencil, Trash2, ChevronDown, ChevronUp, Copy, Check, Hash } from "lucide-react";
 import { loadData, saveData } from "@/lib/db";
-import { generateReferenceNumber, getNextReferencePreview } from '@/lib/refNumberEngine';
+import { duplicateRefNos, generateReferenceNumber, getNextReferencePreview, subscribeDakRecords, updateDakRecords } from '@/lib/refNumberEngine';
 import { useBranch } from "@/contexts/BranchContext";
+import { useAuth } from "@/contexts/AuthContext";
+import LoginDialog from "@/components/LoginDialog";
+import RefFormatDialog from "@/components/RefFormatDialog";
+import InwardDakRegister from "./InwardDakRegister";
 
-const ADMIN_PASSWORD = "Sbi@12345";
 const STORAGE_KEY = "sbi_letter_refs_13042";
 
 interface DakRecord {
@@ -97,17 +101,6 @@ async function loadRecords(): Promise<DakRecord[]> {
   }
 }
 
-async function saveRecordsToStorage(records: DakRecord[]) {
-  try {
-    // Use unified storage key "dak-records" for consistency with refNumberEngine
-    await saveData("dak-records", records);
-  } catch (error) {
-    console.error("Failed to save records:", error);
-    // Fallback to localStorage
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
-  }
-}
-
 /**
  * DEPRECATED: Do not use local generation functions
  * Use generateReferenceNumber() from refNumberEngine.ts instead
@@ -190,16 +183,18 @@ export default function DakNumberGenerator() {
   const [status, setStatus] = useState<{ message: string; type: "success" | "error" | "" }>({ message: "", type: "" });
   
   // Admin state
-  const [isAdminLoggedIn, setIsAdminLoggedIn] = useState(false);
+  const { currentUser, logout, can } = useAuth();
+  const isAdminLoggedIn = can("dak.manage");
   const [showLoginModal, setShowLoginModal] = useState(false);
-  const [adminPassword, setAdminPassword] = useState("");
-  const [adminLoginStatus, setAdminLoginStatus] = useState("");
   const [filterFy, setFilterFy] = useState("");
   const [searchText, setSearchText] = useState("");
   const [showEntriesTable, setShowEntriesTable] = useState(true);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [selectedMonthIdx, setSelectedMonthIdx] = useState<number>(new Date().getMonth()); // 0-based
   const [copied, setCopied] = useState(false);
+  const [showFormats, setShowFormats] = useState(false);
+  const [formatsVersion, setFormatsVersion] = useState(0); // bumped after formats are saved to refresh the preview
+  const [view, setView] = useState<"outward" | "inward" | "daily">("outward");
 
   // Derived selected month info
   const selectedMonthNo = String(selectedMonthIdx + 1).padStart(2, "0");
@@ -232,11 +227,27 @@ export default function DakNumberGenerator() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [branchCode]);
 
-  // Recompute ref when selected month changes using centralized engine
+  // Refresh when a reference number is issued or edited in another tab/app
   useEffect(() => {
+    return subscribeDakRecords(async () => {
+      setRecords(await loadRecords());
+      if (editingId === null) {
+        try {
+          setRefNo(await getNextReferencePreview(branchCode, selectedFyLabel, selectedMonthNo, letterType, letterDestination));
+        } catch (error) {
+          console.error("Error generating reference number preview:", error);
+        }
+      }
+    });
+  }, [branchCode, selectedFyLabel, selectedMonthNo, letterType, letterDestination, editingId]);
+
+  // Recompute ref when selected month or letter type changes using centralized engine
+  // (the letter type picks the ref-number format and series)
+  useEffect(() => {
+    if (editingId !== null) return;
     const updateRef = async () => {
       try {
-        const refNo = await getNextReferencePreview(branchCode, selectedFyLabel, selectedMonthNo);
+        const refNo = await getNextReferencePreview(branchCode, selectedFyLabel, selectedMonthNo, letterType, letterDestination);
         setRefNo(refNo);
       } catch (error) {
         console.error("Error generating reference number preview:", error);
@@ -246,23 +257,32 @@ export default function DakNumberGenerator() {
     };
     updateRef();
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedMonthIdx, branchCode]);
+  }, [selectedMonthIdx, branchCode, letterType, letterDestination, formatsVersion]);
 
   const handleSave = async () => {
+    if (!can("records.create")) {
+      setStatus({ message: "Your role does not allow issuing reference numbers.", type: "error" });
+      return;
+    }
     if (!letterType || !letterDestination || !recipientDetails || !subject) {
       setStatus({ message: "Please fill all required fields.", type: "error" });
       return;
     }
 
     if (editingId !== null) {
-      // Update existing record
-      const updatedRecords = records.map(rec => 
-        rec.id === editingId 
-          ? { ...rec, letterType, letterDestination, recipientDetails, subject, remarks }
-          : rec
-      );
-      setRecords(updatedRecords);
-      await saveRecordsToStorage(updatedRecords);
+      // Update existing record against the latest stored list, not this tab's copy
+      try {
+        const updatedRecords = await updateDakRecords(current => current.map(rec =>
+          rec.id === editingId
+            ? { ...rec, letterType, letterDestination, recipientDetails, subject, remarks }
+            : rec
+        ));
+        setRecords(updatedRecords);
+      } catch (error) {
+        console.error("Failed to save records:", error);
+        setStatus({ message: "Failed to update entry.", type: "error" });
+        return;
+      }
       setStatus({ message: "Entry updated successfully.", type: "success" });
       setEditingId(null);
     } else {
@@ -369,20 +389,8 @@ export default function DakNumberGenerator() {
     }
   };
 
-  const handleAdminLogin = () => {
-    if (adminPassword === ADMIN_PASSWORD) {
-      setIsAdminLoggedIn(true);
-      setShowLoginModal(false);
-      setAdminLoginStatus("");
-      setAdminPassword("");
-    } else {
-      setAdminLoginStatus("Incorrect password.");
-    }
-  };
-
   const handleAdminLogout = () => {
-    setIsAdminLoggedIn(false);
-    setAdminPassword("");
+    logout();
   };
   const handleUpdateRecord = async (id: number) => {
     const r = records.find(x => x.id === id);
@@ -405,9 +413,13 @@ export default function DakNumberGenerator() {
 
   const handleDeleteRecord = async (id: number) => {
     if (!confirm("Delete this record?")) return;
-    const updatedRecords = records.filter(r => r.id !== id);
-    setRecords(updatedRecords);
-    await saveRecordsToStorage(updatedRecords);
+    try {
+      const updatedRecords = await updateDakRecords(current => current.filter(r => r.id !== id));
+      setRecords(updatedRecords);
+    } catch (error) {
+      console.error("Failed to delete record:", error);
+      setStatus({ message: "Failed to delete entry.", type: "error" });
+    }
   };
 
   // Get unique FYs for filter
@@ -425,6 +437,9 @@ export default function DakNumberGenerator() {
     return true;
   });
 
+  // Issued on two PCs while both were offline from the branch server
+  const duplicates = duplicateRefNos(records || []);
+
   return (
     <div 
       className="min-h-screen flex flex-col"
@@ -474,23 +489,35 @@ export default function DakNumberGenerator() {
                 Back to Home
               </Button>
             </Link>
-            {!isAdminLoggedIn ? (
+            {can("branch.configure") && (
+              <Button
+                onClick={() => setShowFormats(true)}
+                variant="outline"
+                className="gap-2 bg-white/10 border-white/30 text-white hover:bg-white/20"
+                title="Reference number formats"
+              >
+                <Hash className="w-4 h-4" />
+                Formats
+              </Button>
+            )}
+            {!currentUser ? (
               <Button
                 onClick={() => setShowLoginModal(true)}
                 variant="outline"
                 className="gap-2 bg-white/10 border-white/30 text-white hover:bg-white/20"
               >
                 <LogIn className="w-4 h-4" />
-                Admin Login
+                Login
               </Button>
             ) : (
               <Button
                 onClick={handleAdminLogout}
                 variant="outline"
                 className="gap-2 bg-white/10 border-white/30 text-white hover:bg-white/20"
+                title={`${currentUser.displayName} (${currentUser.role})`}
               >
                 <LogOut className="w-4 h-4" />
-                Logout
+                Logout {currentUser.username}
               </Button>
             )}
           </div>
@@ -500,6 +527,23 @@ export default function DakNumberGenerator() {
       {/* Main Content */}
       <main className="flex-1 py-6 px-6">
         <div className="max-w-5xl mx-auto">
+          {/* Register switch */}
+          <div className="flex gap-1 mb-5 p-1 rounded-lg w-fit" style={{ backgroundColor: "rgba(255, 255, 255, 0.7)" }}>
+            {([["outward", "Outward (Ref. Numbers)"], ["inward", "Inward Register"], ["daily", "Daily Register"]] as const).map(([id, label]) => (
+              <button
+                key={id}
+                onClick={() => setView(id)}
+                className="px-4 py-2 rounded-md text-sm font-medium transition-all"
+                style={view === id ? { backgroundColor: "#4e1a74", color: "white" } : { color: "#6c757d" }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {view !== "outward" && <InwardDakRegister view={view} outward={records} />}
+
+          {view === "outward" && (<>
           {/* Entry Form Card */}
           <Card 
             className="p-5 mb-5"
@@ -713,6 +757,12 @@ export default function DakNumberGenerator() {
 
             {showEntriesTable && (
               <>
+                {duplicates.size > 0 && (
+                  <div className="mb-4 p-3 rounded-md border border-red-300 bg-red-50 text-sm text-red-800">
+                    <strong>Duplicate reference numbers:</strong> {Array.from(duplicates).join(", ")}. These were issued on two PCs while both were
+                    offline from the branch server. Re-issue one letter of each pair under a new number and delete or correct its entry.
+                  </div>
+                )}
                 {/* Admin Filters */}
                 {isAdminLoggedIn && (
                   <div className="flex flex-wrap items-end gap-3 mb-4">
@@ -772,8 +822,11 @@ export default function DakNumberGenerator() {
                       </tr>
                     ) : (
                       filteredRecords.slice().reverse().map((record) => (
-                        <tr key={record.id} className="border-t hover:bg-gray-50" style={{ borderColor: "#d0d7de" }}>
-                          <td className="px-3 py-2" style={{ color: "#0969da" }}>{record.refNo}</td>
+                        <tr key={record.id} className={`border-t ${duplicates.has(record.refNo) ? "bg-red-50" : "hover:bg-gray-50"}`} style={{ borderColor: "#d0d7de" }}>
+                          <td className="px-3 py-2" style={{ color: "#0969da" }}>
+                            {record.refNo}
+                            {duplicates.has(record.refNo) && <span className="ml-2 text-xs font-semibold text-red-700">Duplicate</span>}
+                          </td>
                           <td className="px-3 py-2" style={{ color: "#6c757d" }}>{record.dateDisplay}</td>
                           <td className="px-3 py-2" style={{ color: "#6c757d" }}>{record.letterType}</td>
                           <td className="px-3 py-2" style={{ color: "#6c757d" }}>{record.letterDestination}</td>
@@ -852,7 +905,7 @@ export default function DakNumberGenerator() {
               </>
             )}
           </Card>
-
+          </>)}
 
         </div>
       </main>
@@ -866,61 +919,15 @@ export default function DakNumberGenerator() {
         </div>
       </footer>
 
-      {/* Admin Login Modal */}
-      <Dialog open={showLoginModal} onOpenChange={setShowLoginModal}>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle className="text-xl font-semibold" style={{ color: "#4e1a74" }}>Admin Login</DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label htmlFor="admin-username" className="text-sm font-medium text-gray-700">Username</Label>
-              <Input
-                id="admin-username"
-                type="text"
-                value="Admin"
-                disabled
-                className="bg-gray-100 text-gray-600 border-gray-300"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="admin-password" className="text-sm font-medium text-gray-700">Password</Label>
-              <Input
-                id="admin-password"
-                type="password"
-                value={adminPassword}
-                onChange={(e) => setAdminPassword(e.target.value)}
-                onKeyDown={(e) => e.key === "Enter" && handleAdminLogin()}
-                placeholder="Enter admin password"
-                className="border-gray-300 focus:ring-2 focus:ring-purple-500"
-                autoFocus
-              />
-            </div>
-            {adminLoginStatus && (
-              <p className="text-sm text-destructive">{adminLoginStatus}</p>
-            )}
-            <div className="flex gap-3">
-              <Button
-                onClick={handleAdminLogin}
-                className="flex-1 bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white"
-              >
-                Login
-              </Button>
-              <Button
-                variant="outline"
-                onClick={() => {
-                  setShowLoginModal(false);
-                  setAdminPassword("");
-                  setAdminLoginStatus("");
-                }}
-                className="flex-1 bg-gray-200 text-gray-700 hover:bg-gray-300"
-              >
-                Cancel
-              </Button>
-            </div>
-          </div>
-        </DialogContent>
-      </Dialog>
+      {/* Login Modal */}
+      <LoginDialog open={showLoginModal} onOpenChange={setShowLoginModal} />
+      <RefFormatDialog
+        open={showFormats}
+        onOpenChange={setShowFormats}
+        branchCode={branchCode}
+        fyLabel={selectedFyLabel}
+        onSaved={() => setFormatsVersion(v => v + 1)}
+      />
     </div>
   );
 }
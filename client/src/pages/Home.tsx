@@ -15,7 +15,8 @@ import { Upload, Printer, PrinterIcon, ArrowLeft, Settings, FileText, X, Trash2
 import Papa from "papaparse";
 import PrintPreview from "@/components/PrintPreview";
 import TemplateDesigner, { NoticeTemplate } from "@/components/TemplateDesigner";
-import { openDB } from "idb";
+import { openDB, unwrap } from "idb";
+import { applyUpgrade, schemaVersion } from "@/lib/migrations";
 
 interface LoanAccount {
   sr_no: string;
@@ -31,15 +32,18 @@ interface LoanAccount {
   mobile?: string;
 }
 
+// Schema and version are declared in lib/migrations.ts
 const DB_NAME = "sbi-templates";
 const STORE_NAME = "notice-templates";
 
 async function getTemplateDB() {
-  return openDB(DB_NAME, 1, {
-    upgrade(db: any) {
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: "id" });
-      }
+  return openDB(DB_NAME, schemaVersion(DB_NAME), {
+    upgrade(db, oldVersion, _newVersion, tx) {
+      applyUpgrade(DB_NAME, unwrap(db), unwrap(tx), oldVersion);
+    },
+    // Let another tab upgrade or delete the database
+    blocking(_currentVersion, _blockedVersion, event) {
+      (event.target as IDBDatabase).close();
     },
   });
 }
@@ -0,0 +1,615 @@
+/**
+ * Inward Dak Register
+ *
+ * Integration: rendered as the "Inward Register" and "Daily Register" views
+ * inside DakNumberGenerator, next to the outward reference numbers.
+ *
+ * - Receive a letter: sender, mode, subject, marked-to officer and due date;
+ *   the inward number is allocated by lib/inwardDak.ts
+ * - Acknowledgement slip for whoever delivered the letter, and acknowledgement
+ *   of receipt by the marked-to officer
+ * - Disposal: replied (linked to an outward Dak reference), complied,
+ *   forwarded or filed
+ * - Pendency ageing per officer, and a printable daily inward / outward
+ *   register for inspections
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { CheckCircle, Inbox, Pencil, Printer, RotateCcw, Save, Trash2, Undo2 } from "lucide-react";
+import { useBranch } from "@/contexts/BranchContext";
+import { useAuth } from "@/contexts/AuthContext";
+import type { DakRecord } from "@/components/PrintPreview";
+import { subscribeDakRecords } from "@/lib/refNumberEngine";
+import {
+  AGEING_BUCKETS,
+  DISPOSAL_ACTIONS,
+  INWARD_MODES,
+  InwardDakRecord,
+  InwardEntry,
+  SENDER_TYPES,
+  acknowledgeInward,
+  deleteInward,
+  disposeInward,
+  duplicateInwardNos,
+  editInward,
+  isOverdue,
+  loadInwardRecords,
+  outwardDateISO,
+  pendencyAgeing,
+  pendingDays,
+  receiveInward,
+  reopenInward,
+} from "@/lib/inwardDak";
+import { toISODate } from "@/lib/portfolioTransform";
+
+interface Props {
+  view: "inward" | "daily";
+  outward: DakRecord[];
+}
+
+const EMPTY_ENTRY: InwardEntry = {
+  receivedDate: toISODate(new Date()),
+  letterDate: "",
+  senderType: "",
+  sender: "",
+  senderRefNo: "",
+  mode: "",
+  subject: "",
+  markedTo: "",
+  dueDate: "",
+};
+
+const cardStyle = {
+  background: "rgba(255, 255, 255, 0.55)",
+  backdropFilter: "blur(10px)",
+  border: "1px solid rgba(255, 255, 255, 0.4)"
+};
+
+function fmtDate(iso: string): string {
+  if (!iso) return "-";
+  const [y, m, d] = iso.split("-");
+  return `${d}/${m}/${y}`;
+}
+
+function esc(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function openPrintWindow(html: string) {
+  const w = window.open("", "_blank", "width=900,height=700");
+  if (!w) return;
+  w.document.write(html);
+  w.document.close();
+  w.onload = () => w.print();
+}
+
+function acknowledgementHTML(record: InwardDakRecord, branchName: string, branchCode: string): string {
+  return `
+    <html>
+    <head>
+      <title>Acknowledgement ${esc(record.inwardNo)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; padding: 20px; line-height: 1.5; }
+        h2 { text-align: center; margin-bottom: 4px; }
+        .sub { text-align: center; margin-bottom: 10px; }
+        .row { margin-bottom: 6px; }
+        .label { font-weight: bold; }
+        .box { border: 1px solid #000; padding: 10px; margin-top: 10px; }
+        .sign { margin-top: 40px; text-align: right; }
+      </style>
+    </head>
+    <body>
+      <h2>State Bank of India – ${esc(branchName)} (${esc(branchCode)})</h2>
+      <div class="sub">Acknowledgement of Receipt</div>
+      <div class="box">
+        <div class="row"><span class="label">Inward No:</span> ${esc(record.inwardNo)}</div>
+        <div class="row"><span class="label">Received On:</span> ${fmtDate(record.receivedDate)}</div>
+        <div class="row"><span class="label">From:</span> ${esc(record.sender)} (${esc(record.senderType)})</div>
+        <div class="row"><span class="label">Your Ref:</span> ${esc(record.senderRefNo || "-")}${record.letterDate ? ` dated ${fmtDate(record.letterDate)}` : ""}</div>
+        <div class="row"><span class="label">Subject:</span> ${esc(record.subject)}</div>
+        <div class="row"><span class="label">Mode:</span> ${esc(record.mode)}</div>
+      </div>
+      <div class="sign">Received by: ${esc(record.receivedBy)}<br><br>Signature &amp; Branch Seal</div>
+    </body>
+    </html>
+  `;
+}
+
+function dailyRegisterHTML(date: string, inward: InwardDakRecord[], outward: DakRecord[], branchName: string, branchCode: string): string {
+  const cell = "border:1px solid #000;padding:4px 6px;vertical-align:top;";
+  const inwardRows = inward.map((r, i) => `
+    <tr>
+      <td style="${cell}">${i + 1}</td>
+      <td style="${cell}">${esc(r.inwardNo)}</td>
+      <td style="${cell}">${esc(r.sender)}<br><small>${esc(r.senderType)}${r.senderRefNo ? ` · ${esc(r.senderRefNo)}` : ""}</small></td>
+      <td style="${cell}">${esc(r.subject)}</td>
+      <td style="${cell}">${esc(r.mode)}</td>
+      <td style="${cell}">${esc(r.markedTo)}</td>
+      <td style="${cell}">${r.dueDate ? fmtDate(r.dueDate) : "-"}</td>
+      <td style="${cell}">${r.disposal ? `${esc(r.disposal.action)} ${fmtDate(r.disposal.date)}${r.disposal.replyRefNo ? `<br>${esc(r.disposal.replyRefNo)}` : ""}` : "Pending"}</td>
+      <td style="${cell}width:60px;"></td>
+    </tr>`).join("");
+  const outwardRows = outward.map((r, i) => `
+    <tr>
+      <td style="${cell}">${i + 1}</td>
+      <td style="${cell}">${esc(r.refNo)}</td>
+      <td style="${cell}">${esc(r.letterType)}</td>
+      <td style="${cell}">${esc(r.letterDestination)}<br><small>${esc(r.recipientDetails)}</small></td>
+      <td style="${cell}">${esc(r.subject)}</td>
+      <td style="${cell}">${esc(r.remarks || "")}</td>
+      <td style="${cell}width:60px;"></td>
+    </tr>`).join("");
+  const empty = (cols: number) => `<tr><td colspan="${cols}" style="${cell}text-align:center;">Nil</td></tr>`;
+  const th = (t: string) => `<th style="${cell}background:#eee;text-align:left;">${t}</th>`;
+  return `
+    <html>
+    <head>
+      <title>Dak Register ${fmtDate(date)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; font-size: 11px; padding: 16px; }
+        h2, h3 { margin: 4px 0; }
+        table { border-collapse: collapse; width: 100%; margin-bottom: 16px; }
+        @page { size: A4 landscape; margin: 12mm; }
+      </style>
+    </head>
+    <body>
+      <h2>State Bank of India – ${esc(branchName)} (${esc(branchCode)})</h2>
+      <div>Daily Dak Register for ${fmtDate(date)}</div>
+      <h3 style="margin-top:12px;">Inward (${inward.length})</h3>
+      <table>
+        <tr>${["S.No", "Inward No", "From", "Subject", "Mode", "Marked To", "Due", "Disposal", "Initials"].map(th).join("")}</tr>
+        ${inwardRows || empty(9)}
+      </table>
+      <h3>Outward (${outward.length})</h3>
+      <table>
+        <tr>${["S.No", "Reference No", "Type", "To", "Subject", "Remarks", "Initials"].map(th).join("")}</tr>
+        ${outwardRows || empty(7)}
+      </table>
+      <div style="margin-top:30px;display:flex;justify-content:space-between;">
+        <span>Dak Clerk</span><span>Branch Manager</span>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+export default function InwardDakRegister({ view, outward }: Props) {
+  const { branchName, branchCode } = useBranch();
+  const { currentUser, can } = useAuth();
+  const user = currentUser?.username ?? "Guest";
+  const canEdit = can("records.create");
+  const isAdmin = can("dak.manage");
+
+  const [records, setRecords] = useState<InwardDakRecord[]>([]);
+  const [entry, setEntry] = useState<InwardEntry>(() => ({ ...EMPTY_ENTRY, receivedDate: toISODate(new Date()) }));
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [status, setStatus] = useState<{ message: string; type: "success" | "error" | "" }>({ message: "", type: "" });
+  const [filter, setFilter] = useState<"pending" | "overdue" | "disposed" | "all">("pending");
+  const [searchText, setSearchText] = useState("");
+  const [disposing, setDisposing] = useState<InwardDakRecord | null>(null);
+  const [disposal, setDisposal] = useState({ date: toISODate(new Date()), action: "", replyRefNo: "", remarks: "" });
+  const [disposalError, setDisposalError] = useState("");
+  const [registerDate, setRegisterDate] = useState(toISODate(new Date()));
+
+  useEffect(() => {
+    loadInwardRecords().then(setRecords);
+    // Refresh when an entry is made or edited in another tab
+    return subscribeDakRecords(async () => setRecords(await loadInwardRecords()));
+  }, []);
+
+  const setField = (field: keyof InwardEntry, value: string) => setEntry(prev => ({ ...prev, [field]: value }));
+
+  const run = async (action: () => Promise<InwardDakRecord[]>, message: string): Promise<boolean> => {
+    try {
+      setRecords(await action());
+      setStatus({ message, type: "success" });
+      return true;
+    } catch (error) {
+      setStatus({ message: error instanceof Error ? error.message : String(error), type: "error" });
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!canEdit) {
+      setStatus({ message: "Your role does not allow entering inward letters.", type: "error" });
+      return;
+    }
+    if (editingId !== null) {
+      if (await run(() => editInward(editingId, entry), "Entry updated successfully.")) {
+        setEditingId(null);
+        setEntry({ ...EMPTY_ENTRY, receivedDate: toISODate(new Date()) });
+      }
+      return;
+    }
+    try {
+      const record = await receiveInward(entry, user);
+      setRecords(await loadInwardRecords());
+      setStatus({ message: `Saved as ${record.inwardNo}.`, type: "success" });
+      setEntry({ ...EMPTY_ENTRY, receivedDate: entry.receivedDate });
+      if (confirm(`${record.inwardNo} saved. Print an acknowledgement slip for the sender?`)) {
+        openPrintWindow(acknowledgementHTML(record, branchName, branchCode));
+      }
+    } catch (error) {
+      setStatus({ message: error instanceof Error ? error.message : String(error), type: "error" });
+    }
+  };
+
+  const handleEdit = (r: InwardDakRecord) => {
+    setEditingId(r.id);
+    setEntry({
+      receivedDate: r.receivedDate, letterDate: r.letterDate, senderType: r.senderType, sender: r.sender,
+      senderRefNo: r.senderRefNo, mode: r.mode, subject: r.subject, markedTo: r.markedTo, dueDate: r.dueDate,
+    });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+    setStatus({ message: `Editing ${r.inwardNo}. Update the fields and click Update.`, type: "success" });
+  };
+
+  const handleReset = () => {
+    setEntry({ ...EMPTY_ENTRY, receivedDate: toISODate(new Date()) });
+    setEditingId(null);
+    setStatus({ message: "", type: "" });
+  };
+
+  const openDisposal = (r: InwardDakRecord) => {
+    setDisposing(r);
+    setDisposal({ date: toISODate(new Date()), action: "", replyRefNo: "", remarks: "" });
+    setDisposalError("");
+  };
+
+  const handleDispose = async () => {
+    if (!disposing) return;
+    try {
+      setRecords(await disposeInward(disposing.id, disposal, user, outward));
+      setStatus({ message: `${disposing.inwardNo} disposed.`, type: "success" });
+      setDisposing(null);
+    } catch (error) {
+      setDisposalError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // ── Derived ────────────────────────────────────────────────────────────────
+  const today = toISODate(new Date());
+  const pending = records.filter(r => !r.disposal);
+  const overdueCount = pending.filter(r => isOverdue(r, today)).length;
+  const ageing = useMemo(() => pendencyAgeing(records, today), [records, today]);
+  const officers = Array.from(new Set(records.map(r => r.markedTo))).sort();
+  // Issued on two PCs while both were offline from the branch server
+  const duplicates = duplicateInwardNos(records);
+
+  const filtered = records.filter(r => {
+    if (filter === "pending" && r.disposal) return false;
+    if (filter === "overdue" && !isOverdue(r, today)) return false;
+    if (filter === "disposed" && !r.disposal) return false;
+    if (searchText) {
+      const s = searchText.toLowerCase();
+      return r.inwardNo.toLowerCase().includes(s) || r.subject.toLowerCase().includes(s) ||
+             r.sender.toLowerCase().includes(s) || r.markedTo.toLowerCase().includes(s) ||
+             (r.disposal?.replyRefNo || "").toLowerCase().includes(s);
+    }
+    return true;
+  }).sort((a, b) => b.receivedDate.localeCompare(a.receivedDate) || b.serialNo.localeCompare(a.serialNo));
+
+  const dayInward = records.filter(r => r.receivedDate === registerDate).sort((a, b) => a.serialNo.localeCompare(b.serialNo));
+  const dayOutward = outward.filter(r => outwardDateISO(r) === registerDate);
+
+  const labelStyle = { color: "#6c757d" };
+  const inputClass = "w-full px-3 py-2 rounded-md border text-sm";
+  const inputStyle = { borderColor: "#d0d7de" };
+
+  // ── Daily register view ────────────────────────────────────────────────────
+  if (view === "daily") {
+    return (
+      <Card className="p-5" style={cardStyle}>
+        <h3 className="text-lg font-semibold mb-1" style={{ color: "#084298" }}>Daily Inward / Outward Register</h3>
+        <p className="text-sm mb-4" style={labelStyle}>Letters received and issued on a day, in the format kept for inspection.</p>
+        <div className="flex flex-wrap items-end gap-3 mb-4">
+          <div>
+            <label className="block text-sm font-semibold mb-1" style={labelStyle}>Date</label>
+            <input type="date" value={registerDate} max={today} onChange={e => setRegisterDate(e.target.value)} className={inputClass} style={inputStyle} />
+          </div>
+          <Button onClick={() => openPrintWindow(dailyRegisterHTML(registerDate, dayInward, dayOutward, branchName, branchCode))} className="gap-2" style={{ backgroundColor: "#0b5ed7" }}>
+            <Printer className="w-4 h-4" /> Print Register
+          </Button>
+          <span className="text-sm self-center" style={labelStyle}>{dayInward.length} inward · {dayOutward.length} outward</span>
+        </div>
+        <div className="grid md:grid-cols-2 gap-4">
+          {[
+            { title: "Inward", rows: dayInward.map(r => ({ key: r.inwardNo, no: r.inwardNo, who: r.sender, subject: r.subject })) },
+            { title: "Outward", rows: dayOutward.map(r => ({ key: r.refNo, no: r.refNo, who: r.recipientDetails || r.letterDestination, subject: r.subject })) },
+          ].map(section => (
+            <div key={section.title} className="rounded-md border bg-white overflow-auto" style={{ maxHeight: "360px", borderColor: "#d0d7de" }}>
+              <div className="px-3 py-2 font-semibold text-sm" style={{ backgroundColor: "#f1f3f5", color: "#084298" }}>{section.title} ({section.rows.length})</div>
+              {section.rows.length === 0 ? (
+                <div className="px-3 py-4 text-center text-sm text-gray-500">Nil</div>
+              ) : (
+                <table className="w-full text-sm">
+                  <tbody>
+                    {section.rows.map(r => (
+                      <tr key={r.key} className="border-t" style={{ borderColor: "#d0d7de" }}>
+                        <td className="px-3 py-2 font-mono text-xs" style={{ color: "#0969da" }}>{r.no}</td>
+                        <td className="px-3 py-2" style={labelStyle}>{r.who}</td>
+                        <td className="px-3 py-2" style={labelStyle}>{r.subject.length > 40 ? r.subject.substring(0, 40) + "..." : r.subject}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+        </div>
+      </Card>
+    );
+  }
+
+  // ── Inward register view ───────────────────────────────────────────────────
+  return (
+    <>
+      {/* Entry form */}
+      <Card className="p-5 mb-5" style={cardStyle}>
+        <h3 className="text-lg font-semibold mb-4 flex items-center gap-2" style={{ color: "#084298" }}>
+          <Inbox className="w-5 h-5" /> {editingId !== null ? "Edit Inward Entry" : "Receive Letter"}
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-semibold mb-1" style={labelStyle}>Date of Receipt</label>
+            <input type="date" value={entry.receivedDate} max={today} onChange={e => setField("receivedDate", e.target.value)} className={inputClass} style={inputStyle} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-1" style={labelStyle}>Mode of Receipt</label>
+            <select value={entry.mode} onChange={e => setField("mode", e.target.value)} className={`${inputClass} bg-white`} style={inputStyle}>
+              <option value="">-- Select --</option>
+              {INWARD_MODES.map(m => <option key={m}>{m}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-1" style={labelStyle}>Received From</label>
+            <select value={entry.senderType} onChange={e => setField("senderType", e.target.value)} className={`${inputClass} bg-white`} style={inputStyle}>
+              <option value="">-- Select --</option>
+              {SENDER_TYPES.map(s => <option key={s}>{s}</option>)}
+            </select>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-semibold mb-1" style={labelStyle}>Sender</label>
+            <input value={entry.sender} onChange={e => setField("sender", e.target.value)} placeholder="Office / court / customer name" className={inputClass} style={inputStyle} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-1" style={labelStyle}>Sender's Ref No. (optional)</label>
+            <input value={entry.senderRefNo} onChange={e => setField("senderRefNo", e.target.value)} className={inputClass} style={inputStyle} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-1" style={labelStyle}>Letter Dated (optional)</label>
+            <input type="date" value={entry.letterDate} max={today} onChange={e => setField("letterDate", e.target.value)} className={inputClass} style={inputStyle} />
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div className="md:col-span-3">
+            <label className="block text-sm font-semibold mb-1" style={labelStyle}>Subject</label>
+            <input value={entry.subject} onChange={e => setField("subject", e.target.value)} placeholder="Subject of letter" className={inputClass} style={inputStyle} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-1" style={labelStyle}>Marked To</label>
+            <input value={entry.markedTo} onChange={e => setField("markedTo", e.target.value)} list="inward-officers" placeholder="Officer / desk" className={inputClass} style={inputStyle} />
+            <datalist id="inward-officers">{officers.map(o => <option key={o} value={o} />)}</datalist>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-1" style={labelStyle}>Reply / Compliance Due (optional)</label>
+            <input type="date" value={entry.dueDate} min={entry.receivedDate} onChange={e => setField("dueDate", e.target.value)} className={inputClass} style={inputStyle} />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-4">
+          <Button onClick={handleSave} disabled={!canEdit} className="gap-2" style={{ backgroundColor: "#0b5ed7" }}>
+            <Save className="w-4 h-4" />
+            {editingId !== null ? "Update" : "Save"}
+          </Button>
+          <Button onClick={handleReset} variant="outline" className="gap-2">
+            <RotateCcw className="w-4 h-4" />
+            Reset
+          </Button>
+          {status.message && (
+            <span className="text-sm self-center ml-2" style={{ color: status.type === "success" ? "#198754" : "#dc3545" }}>
+              {status.message}
+            </span>
+          )}
+        </div>
+      </Card>
+
+      {/* Pendency ageing */}
+      <Card className="p-5 mb-5" style={cardStyle}>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold" style={{ color: "#084298" }}>Pendency ({pending.length})</h3>
+          {overdueCount > 0 && <span className="text-sm font-semibold" style={{ color: "#dc3545" }}>{overdueCount} past due date</span>}
+        </div>
+        {ageing.length === 0 ? (
+          <p className="text-sm text-gray-500">No inward letters pending.</p>
+        ) : (
+          <div className="overflow-auto rounded-md border bg-white" style={{ borderColor: "#d0d7de" }}>
+            <table className="w-full text-sm">
+              <thead style={{ backgroundColor: "#f1f3f5" }}>
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold" style={labelStyle}>Marked To</th>
+                  {AGEING_BUCKETS.map(b => <th key={b.label} className="px-3 py-2 text-right font-semibold" style={labelStyle}>{b.label}</th>)}
+                  <th className="px-3 py-2 text-right font-semibold" style={labelStyle}>Past Due</th>
+                  <th className="px-3 py-2 text-right font-semibold" style={labelStyle}>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ageing.map(row => (
+                  <tr key={row.markedTo} className="border-t" style={{ borderColor: "#d0d7de" }}>
+                    <td className="px-3 py-2" style={{ color: "#212529" }}>{row.markedTo}</td>
+                    {row.buckets.map((n, i) => (
+                      <td key={i} className="px-3 py-2 text-right" style={{ color: i === AGEING_BUCKETS.length - 1 && n > 0 ? "#dc3545" : "#6c757d" }}>{n || "-"}</td>
+                    ))}
+                    <td className="px-3 py-2 text-right font-semibold" style={{ color: row.overdue > 0 ? "#dc3545" : "#6c757d" }}>{row.overdue || "-"}</td>
+                    <td className="px-3 py-2 text-right font-semibold" style={{ color: "#212529" }}>{row.total}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {/* Register */}
+      <Card className="p-5" style={cardStyle}>
+        <div className="flex flex-wrap items-end justify-between gap-3 mb-4">
+          <h3 className="text-lg font-semibold" style={{ color: "#084298" }}>Inward Register ({records.length})</h3>
+          <div className="flex flex-wrap items-end gap-3">
+            <select value={filter} onChange={e => setFilter(e.target.value as typeof filter)} className="px-3 py-1.5 border rounded text-sm bg-white" style={inputStyle}>
+              <option value="pending">Pending</option>
+              <option value="overdue">Past due date</option>
+              <option value="disposed">Disposed</option>
+              <option value="all">All</option>
+            </select>
+            <Input type="text" placeholder="Search by inward no, sender, subject..." value={searchText} onChange={e => setSearchText(e.target.value)} className="text-sm w-64" />
+          </div>
+        </div>
+        {duplicates.size > 0 && (
+          <div className="mb-4 p-3 rounded-md border border-red-300 bg-red-50 text-sm text-red-800">
+            <strong>Duplicate inward numbers:</strong> {Array.from(duplicates).join(", ")}. These were entered on two PCs while both were
+            offline from the branch server. Delete one entry of each pair and enter the letter again to give it a new number.
+          </div>
+        )}
+        <div className="overflow-auto rounded-md border bg-white" style={{ maxHeight: "480px", borderColor: "#d0d7de" }}>
+          <table className="w-full text-sm">
+            <thead style={{ backgroundColor: "#f1f3f5", position: "sticky", top: 0 }}>
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold" style={labelStyle}>Inward No</th>
+                <th className="px-3 py-2 text-left font-semibold" style={labelStyle}>Received</th>
+                <th className="px-3 py-2 text-left font-semibold" style={labelStyle}>From</th>
+                <th className="px-3 py-2 text-left font-semibold" style={labelStyle}>Subject</th>
+                <th className="px-3 py-2 text-left font-semibold" style={labelStyle}>Marked To</th>
+                <th className="px-3 py-2 text-left font-semibold" style={labelStyle}>Due</th>
+                <th className="px-3 py-2 text-left font-semibold" style={labelStyle}>Status</th>
+                <th className="px-3 py-2 text-center font-semibold" style={labelStyle}>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-3 py-4 text-center text-gray-500">
+                    {records.length === 0 ? "No inward letters entered yet." : "No entries for the selected filter."}
+                  </td>
+                </tr>
+              ) : (
+                filtered.map(r => {
+                  const overdue = isOverdue(r, today);
+                  return (
+                    <tr key={r.id} className="border-t hover:bg-gray-50" style={{ borderColor: "#d0d7de", backgroundColor: overdue ? "#fff5f5" : undefined }}>
+                      <td className="px-3 py-2 font-mono text-xs" style={{ color: "#0969da" }}>
+                        {r.inwardNo}
+                        {duplicates.has(r.inwardNo) && <div className="font-sans font-semibold text-red-700">Duplicate</div>}
+                      </td>
+                      <td className="px-3 py-2" style={labelStyle}>{fmtDate(r.receivedDate)}<div className="text-xs">{r.mode}</div></td>
+                      <td className="px-3 py-2" style={labelStyle}>{r.sender}<div className="text-xs">{r.senderType}{r.senderRefNo && ` · ${r.senderRefNo}`}</div></td>
+                      <td className="px-3 py-2" style={labelStyle}>{r.subject.length > 50 ? r.subject.substring(0, 50) + "..." : r.subject}</td>
+                      <td className="px-3 py-2" style={labelStyle}>
+                        {r.markedTo}
+                        <div className="text-xs" style={{ color: r.acknowledgedAt ? "#198754" : "#b45309" }}>
+                          {r.acknowledgedAt ? `Ack. ${r.acknowledgedBy}` : "Not acknowledged"}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2" style={{ color: overdue ? "#dc3545" : "#6c757d", fontWeight: overdue ? 600 : undefined }}>{fmtDate(r.dueDate)}</td>
+                      <td className="px-3 py-2 text-xs">
+                        {r.disposal ? (
+                          <span style={{ color: "#198754" }}>
+                            {r.disposal.action} {fmtDate(r.disposal.date)}
+                            {r.disposal.replyRefNo && <div className="font-mono" style={{ color: "#0969da" }}>{r.disposal.replyRefNo}</div>}
+                          </span>
+                        ) : (
+                          <span style={{ color: overdue ? "#dc3545" : "#b45309" }}>Pending {pendingDays(r, today)}d</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="flex items-center justify-center gap-1">
+                          <Button size="sm" variant="ghost" onClick={() => openPrintWindow(acknowledgementHTML(r, branchName, branchCode))} title="Print Acknowledgement" className="h-8 w-8 p-0">
+                            <Printer className="w-4 h-4" />
+                          </Button>
+                          {canEdit && !r.acknowledgedAt && (
+                            <Button size="sm" variant="ghost" onClick={() => run(() => acknowledgeInward(r.id, user), `${r.inwardNo} acknowledged by ${user}.`)} title="Acknowledge Receipt" className="h-8 w-8 p-0">
+                              <CheckCircle className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {canEdit && !r.disposal && (
+                            <Button size="sm" variant="outline" onClick={() => openDisposal(r)} className="h-8 px-2 text-xs">Dispose</Button>
+                          )}
+                          {isAdmin && r.disposal && (
+                            <Button size="sm" variant="ghost" onClick={() => { if (confirm(`Reopen ${r.inwardNo}?`)) run(() => reopenInward(r.id), `${r.inwardNo} reopened.`); }} title="Reopen" className="h-8 w-8 p-0">
+                              <Undo2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {isAdmin && (
+                            <>
+                              <Button size="sm" variant="ghost" onClick={() => handleEdit(r)} title="Edit Entry" className="h-8 w-8 p-0">
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => { if (confirm("Delete this record?")) run(() => deleteInward(r.id), "Entry deleted."); }} title="Delete Entry" className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50">
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Disposal dialog */}
+      <Dialog open={disposing !== null} onOpenChange={open => { if (!open) setDisposing(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Dispose {disposing?.inwardNo}</DialogTitle>
+          </DialogHeader>
+          {disposing && (
+            <div className="space-y-3">
+              <p className="text-sm" style={labelStyle}>{disposing.sender} — {disposing.subject}</p>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-semibold mb-1" style={labelStyle}>Date</label>
+                  <input type="date" value={disposal.date} min={disposing.receivedDate} max={today} onChange={e => setDisposal(d => ({ ...d, date: e.target.value }))} className={inputClass} style={inputStyle} />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold mb-1" style={labelStyle}>Action</label>
+                  <select value={disposal.action} onChange={e => setDisposal(d => ({ ...d, action: e.target.value }))} className={`${inputClass} bg-white`} style={inputStyle}>
+                    <option value="">-- Select --</option>
+                    {DISPOSAL_ACTIONS.map(a => <option key={a}>{a}</option>)}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-1" style={labelStyle}>
+                  Reply Reference {disposal.action === "Replied" ? "" : "(optional)"}
+                </label>
+                <input value={disposal.replyRefNo} onChange={e => setDisposal(d => ({ ...d, replyRefNo: e.target.value }))} list="outward-refs"
+                  placeholder="Outward reference from the Dak register" className={`${inputClass} font-mono`} style={inputStyle} />
+                <datalist id="outward-refs">
+                  {outward.slice(-200).reverse().map(o => <option key={o.id} value={o.refNo}>{o.subject}</option>)}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-1" style={labelStyle}>Remarks (optional)</label>
+                <input value={disposal.remarks} onChange={e => setDisposal(d => ({ ...d, remarks: e.target.value }))} className={inputClass} style={inputStyle} />
+              </div>
+              {disposalError && <p className="text-sm" style={{ color: "#dc3545" }}>{disposalError}</p>}
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setDisposing(null)}>Cancel</Button>
+                <Button onClick={handleDispose} style={{ backgroundColor: "#0b5ed7" }}>Save Disposal</Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -5,8 +5,8 @@
  * Colors: Gradient #d4007f to #4e1a74, Background #f7f4fb
  * Font: Effra (using Poppins as fallback since Effra is proprietary)
  * 
- * Admin Features:
- * - Login button in header
+ * Admin Features (Branch Manager role):
+ * - Login button in header, user management
  * - iOS-style toggle switches to hide/show apps
  * - Drag-and-drop card reordering
  * - Settings stored in localStorage
@@ -14,6 +14,12 @@
 
 import { sbiLogoUrl } from '@/lib/assets';
 import NotificationConfigModal from "@/components/NotificationConfigModal";
+import LoginDialog from "@/components/LoginDialog";
+import BackupExportDialog from "@/components/BackupExportDialog";
+import SyncStatusBadge from "@/components/SyncStatusBadge";
+import BackupRestoreDialog from "@/components/BackupRestoreDialog";
+import UserManagementDialog from "@/components/UserManagementDialog";
+import { useAuth } from "@/contexts/AuthContext";
 import { Link } from "wouter";
 import { useState, useEffect } from "react";
 import { 
@@ -38,10 +44,11 @@ import {
   Star,
   ChevronDown,
   ChevronUp,
-  Bell
+  Bell,
+  Users,
+  ScrollText
 } from "lucide-react";
 import { db, loadData, saveData } from "@/lib/db";
-import { exportAllData as exportAllIndexedDB, importAllData as importAllIndexedDB, downloadBackup } from "@/lib/dataBackup";
 import { INDIAN_STATES_UTS } from "@/lib/indianStates";
 
 type IconName = "Mail" | "FileText" | "Calculator" | "CheckSquare" | "UserPlus" | "Globe" | "Shield" | "Building2" | "FileSpreadsheet" | "Receipt" | "IndianRupee" | "FileEdit" | "BarChart3";
@@ -179,9 +186,12 @@ const IconComponent = ({ name, className }: { name: IconName; className?: string
 };
 
 export default function Landing() {
-  const [isAdmin, setIsAdmin] = useState(false);
+  const { currentUser, logout, can } = useAuth();
+  const isAdmin = can("branch.configure");
   const [showLoginModal, setShowLoginModal] = useState(false);
-  const [password, setPassword] = useState("");
+  const [showUserManagement, setShowUserManagement] = useState(false);
+  const [showBackupExport, setShowBackupExport] = useState(false);
+  const [showBackupRestore, setShowBackupRestore] = useState(false);
   const [appCards, setAppCards] = useState<AppCard[]>([]);
   const [draggedCard, setDraggedCard] = useState<string | null>(null);
   const [branchCode, setBranchCode] = useState("99999");
@@ -480,17 +490,8 @@ export default function Landing() {
     }
   }, [appCards]);
 
-  const handleLogin = () => {
-    if (password === "Sbi@12345") {
-      setIsAdmin(true);
-      setShowLoginModal(false);
-    } else {
-      alert("Incorrect password");
-    }
-  };
-
   const handleLogout = () => {
-    setIsAdmin(false);
+    logout();
   };
 
   const toggleVisibility = (id: string) => {
@@ -525,43 +526,6 @@ export default function Landing() {
     setDraggedCard(null);
   };
 
-  const handleExportAll = async () => {
-    try {
-      const jsonData = await exportAllIndexedDB();
-      downloadBackup(jsonData, `SBI_Branch_Backup_${new Date().toISOString().split('T')[0]}.json`);
-      alert("All IndexedDB data exported successfully!");
-    } catch (error) {
-      console.error("Export failed:", error);
-      alert("Failed to export data. Please try again.");
-    }
-  };
-
-  const handleImportAll = () => {
-    const input = document.createElement("input");
-    input.type = "file";
-    input.accept = ".json";
-    input.onchange = async (e) => {
-      const file = (e.target as HTMLInputElement).files?.[0];
-      if (!file) return;
-
-      try {
-        const text = await file.text();
-        const result = await importAllIndexedDB(text);
-        
-        if (result.success) {
-          alert(result.message + " Please refresh the page.");
-          window.location.reload();
-        } else {
-          alert("Import failed: " + result.message);
-        }
-      } catch (error) {
-        console.error("Import failed:", error);
-        alert("Failed to import data. Please check the file format.");
-      }
-    };
-    input.click();
-  };
-
   const visibleCards = isAdmin ? appCards : appCards.filter(card => card.visible);
 
   return (
@@ -612,6 +576,7 @@ export default function Landing() {
 
           {/* Admin Controls */}
           <div className="flex items-center gap-3">
+            <SyncStatusBadge />
             {isAdmin && (
               <>
                 <button
@@ -648,30 +613,52 @@ export default function Landing() {
                   <span>Notifications</span>
                 </button>
                 <button
-                  onClick={handleExportAll}
+                  onClick={() => setShowBackupExport(true)}
                   className="flex items-center gap-2 bg-green-600/80 hover:bg-green-600 text-white px-4 py-2 rounded-lg transition-colors border border-white/30"
-                  title="Export all app data"
+                  title="Export an encrypted backup of all app data"
                 >
                   <Download className="w-4 h-4" />
                   <span>Export All</span>
                 </button>
                 <button
-                  onClick={handleImportAll}
+                  onClick={() => setShowBackupRestore(true)}
                   className="flex items-center gap-2 bg-blue-600/80 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-colors border border-white/30"
-                  title="Import backup data"
+                  title="Restore apps from a backup"
                 >
                   <Upload className="w-4 h-4" />
                   <span>Import All</span>
                 </button>
               </>
             )}
-            {isAdmin ? (
+            {can("users.manage") && (
+              <button
+                onClick={() => setShowUserManagement(true)}
+                className="flex items-center gap-2 bg-purple-600/80 hover:bg-purple-600 text-white px-4 py-2 rounded-lg transition-colors border border-white/30"
+                title="Manage user accounts"
+              >
+                <Users className="w-4 h-4" />
+                <span>Users</span>
+              </button>
+            )}
+            {can("audit.view") && (
+              <Link href="/audit-log">
+                <button
+                  className="flex items-center gap-2 bg-purple-600/80 hover:bg-purple-600 text-white px-4 py-2 rounded-lg transition-colors border border-white/30"
+                  title="Who changed what, and when"
+                >
+                  <ScrollText className="w-4 h-4" />
+                  <span>Audit Log</span>
+                </button>
+              </Link>
+            )}
+            {currentUser ? (
               <button
                 onClick={handleLogout}
                 className="flex items-center gap-2 bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors border border-white/30"
+                title={`${currentUser.displayName} (${currentUser.role})`}
               >
                 <LogOut className="w-4 h-4" />
-                <span>Logout</span>
+                <span>Logout {currentUser.username}</span>
               </button>
             ) : (
               <button
@@ -679,7 +666,7 @@ export default function Landing() {
                 className="flex items-center gap-2 bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors border border-white/30"
               >
                 <LogIn className="w-4 h-4" />
-                <span>Admin Login</span>
+                <span>Login</span>
               </button>
             )}
           </div>
@@ -918,64 +905,10 @@ export default function Landing() {
       </footer>
 
       {/* Login Modal */}
-      {showLoginModal && (
-        <div 
-          className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
-          onClick={() => setShowLoginModal(false)}
-        >
-          <div 
-            className="bg-white rounded-xl p-6 w-96 shadow-2xl"
-            onClick={(e) => e.stopPropagation()}
-          >
-            <h3 className="text-xl font-semibold mb-4" style={{ color: "#4e1a74" }}>
-              Admin Login
-            </h3>
-            
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Username
-              </label>
-              <input
-                type="text"
-                value="Admin"
-                disabled
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-gray-100 text-gray-600 outline-none"
-              />
-            </div>
-            
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
-              <input
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                onKeyPress={(e) => e.key === "Enter" && handleLogin()}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none"
-                placeholder="Enter admin password"
-              />
-            </div>
-            <div className="flex gap-3">
-              <button
-                onClick={handleLogin}
-                className="flex-1 bg-gradient-to-r from-pink-600 to-purple-700 text-white py-2 rounded-lg hover:opacity-90 transition-opacity font-medium"
-              >
-                Login
-              </button>
-              <button
-                onClick={() => {
-                  setShowLoginModal(false);
-                  setPassword("");
-                }}
-                className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
-              >
-                Cancel
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
+      <LoginDialog open={showLoginModal} onOpenChange={setShowLoginModal} />
+      <UserManagementDialog open={showUserManagement} onOpenChange={setShowUserManagement} />
+      <BackupExportDialog open={showBackupExport} onOpenChange={setShowBackupExport} />
+      <BackupRestoreDialog open={showBackupRestore} onOpenChange={setShowBackupRestore} />
 
       {/* Branch Configuration Modal */}
       {showBranchConfig && (
@@ -6,7 +6,7 @@
  * - Collapsible data entry form with animation
  * - Auto-generated Lead ID (Lead 001, Lead 002, etc.)
  * - Data table with sorting and filtering
- * - User Mode vs Admin Mode visibility
+ * - User Mode vs Officer/Branch Manager visibility
  * - Edit and Delete actions
  */
 
@@ -14,6 +14,8 @@ import { sbiLogoUrl } from '@/lib/assets';
 import { useState, useEffect } from "react";
 import { Link } from "wouter";
 import { useBranch } from "@/contexts/BranchContext";
+import { useAuth } from "@/contexts/AuthContext";
+import LoginDialog from "@/components/LoginDialog";
 import { ArrowLeft, Plus, X, Edit2, Trash2, ChevronDown, ChevronUp, Search, Home, LogIn, LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -48,20 +50,18 @@ interface Lead {
   status: "Open" | "Pending" | "Converted" | "Closed" | "Rejected" | "Failed";
   details: string;
   createdAt: string;
+  createdBy?: string;
+  updatedBy?: string;
 }
 
-const ADMIN_USERNAME = "Admin";
-const ADMIN_PASSWORD = "Sbi@12345";
-
 export default function LeadManagementApp() {
   const { branchName } = useBranch();
   const [leads, setLeads] = useState<Lead[]>([]);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const { currentUser, logout, can } = useAuth();
+  const isAdmin = can("leads.manage");
   const [showLoginDialog, setShowLoginDialog] = useState(false);
   const [formExpanded, setFormExpanded] = useState(false);
   const [editingLead, setEditingLead] = useState<Lead | null>(null);
-  const [username, setUsername] = useState("");
-  const [password, setPassword] = useState("");
 
   // Form state
   const [leadName, setLeadName] = useState("");
@@ -125,20 +125,8 @@ export default function LeadManagementApp() {
     }
   }, [leads]);
 
-  const handleLogin = () => {
-    if (username === ADMIN_USERNAME && password === ADMIN_PASSWORD) {
-      setIsAdmin(true);
-      setShowLoginDialog(false);
-      setUsername("");
-      setPassword("");
-      toast.success("Logged in as Admin");
-    } else {
-      toast.error("Invalid credentials");
-    }
-  };
-
   const handleLogout = () => {
-    setIsAdmin(false);
+    logout();
     toast.info("Logged out");
   };
 
@@ -151,6 +139,10 @@ export default function LeadManagementApp() {
   };
 
   const handleSaveLead = () => {
+    if (!can("records.create")) {
+      toast.error("Your role does not allow adding or editing leads");
+      return;
+    }
     if (!leadName || !contact || !followUpDate) {
       toast.error("Please fill in all required fields");
       return;
@@ -160,7 +152,7 @@ export default function LeadManagementApp() {
       // Update existing lead
       setLeads(leads.map(lead => 
         lead.id === editingLead.id 
-          ? { ...lead, name: leadName, contact, cif, followUpDate, status, details }
+          ? { ...lead, name: leadName, contact, cif, followUpDate, status, details, updatedBy: currentUser?.username }
           : lead
       ));
       toast.success("Lead updated successfully");
@@ -175,6 +167,7 @@ export default function LeadManagementApp() {
         status,
         details,
         createdAt: new Date().toISOString(),
+        createdBy: currentUser?.username,
       };
       setLeads([...leads, newLead]);
       toast.success("Lead added successfully");
@@ -250,8 +243,8 @@ export default function LeadManagementApp() {
     // Apply sorting
     if (sortColumn) {
       filtered.sort((a, b) => {
-        const aVal = a[sortColumn];
-        const bVal = b[sortColumn];
+        const aVal = a[sortColumn] ?? "";
+        const bVal = b[sortColumn] ?? "";
         
         if (aVal < bVal) return sortDirection === "asc" ? -1 : 1;
         if (aVal > bVal) return sortDirection === "asc" ? 1 : -1;
@@ -317,14 +310,15 @@ export default function LeadManagementApp() {
           </div>
           
           <div className="flex items-center gap-3">
-            {isAdmin ? (
+            {currentUser ? (
               <Button
                 variant="outline"
                 className="bg-green-500 hover:bg-green-600 text-white border-none"
                 onClick={handleLogout}
+                title={`${currentUser.displayName} (${currentUser.role})`}
               >
                 <LogOut className="w-4 h-4 mr-2" />
-                Logout Admin
+                Logout {currentUser.username}
               </Button>
             ) : (
               <Button
@@ -333,7 +327,7 @@ export default function LeadManagementApp() {
                 onClick={() => setShowLoginDialog(true)}
               >
                 <LogIn className="w-4 h-4 mr-2" />
-                Admin Login
+                Login
               </Button>
             )}
             <Link href="/">
@@ -657,14 +651,16 @@ export default function LeadManagementApp() {
                         <td className="px-4 py-3 text-sm">{new Date(lead.followUpDate).toLocaleDateString()}</td>
                         <td className="px-4 py-3 text-sm">
                           <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              className="bg-yellow-500 hover:bg-yellow-600 text-white border-none h-8 w-8 p-0"
-                              onClick={() => handleEdit(lead)}
-                            >
-                              <Edit2 className="w-4 h-4" />
-                            </Button>
+                            {can("records.create") && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="bg-yellow-500 hover:bg-yellow-600 text-white border-none h-8 w-8 p-0"
+                                onClick={() => handleEdit(lead)}
+                              >
+                                <Edit2 className="w-4 h-4" />
+                              </Button>
+                            )}
                             {isAdmin && (
                               <Button
                                 size="sm"
@@ -696,53 +692,8 @@ export default function LeadManagementApp() {
         </div>
       </footer>
 
-      {/* Admin Login Dialog */}
-      <Dialog open={showLoginDialog} onOpenChange={setShowLoginDialog}>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle className="text-xl font-semibold" style={{ color: "#4e1a74" }}>Admin Login</DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label htmlFor="username" className="text-sm font-medium text-gray-700">Username</Label>
-              <Input
-                id="username"
-                value="Admin"
-                disabled
-                className="bg-gray-100 text-gray-600 border-gray-300"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password" className="text-sm font-medium text-gray-700">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="Enter admin password"
-                className="border-gray-300 focus:ring-2 focus:ring-purple-500"
-                onKeyDown={(e) => e.key === "Enter" && handleLogin()}
-                autoFocus
-              />
-            </div>
-          </div>
-          <div className="flex gap-3">
-            <Button
-              onClick={handleLogin}
-              className="flex-1 bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white"
-            >
-              Login
-            </Button>
-            <Button
-              variant="outline"
-              onClick={() => setShowLoginDialog(false)}
-              className="flex-1 bg-gray-200 text-gray-700 hover:bg-gray-300"
-            >
-              Cancel
-            </Button>
-          </div>
-        </DialogContent>
-      </Dialog>
+      {/* Login Dialog */}
+      <LoginDialog open={showLoginDialog} onOpenChange={setShowLoginDialog} />
     </div>
   );
 }
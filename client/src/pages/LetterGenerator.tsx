@@ -14,6 +14,7 @@ import { useBranch } from "@/contexts/BranchContext";
 import { PDFDocument } from "pdf-lib";
 import html2canvas from "html2canvas";
 import { generateMultipleReferenceNumbers, GenerateRefOptions, GenerateRefResult } from "@/lib/refNumberEngine";
+import { takeLetterMerge } from "@/lib/letterHandoff";
 
 interface CSVData {
   headers: string[];
@@ -130,6 +131,25 @@ export default function LetterGenerator() {
       }
     });
   }, []);
+
+  // Pick up a batch sent from another module (e.g. Loan File Register deficiency memos)
+  useEffect(() => {
+    takeLetterMerge().then((batch) => {
+      if (!batch) return;
+      setCSVData({ headers: batch.headers, rows: batch.rows });
+      setTemplateHTML(batch.templateHTML);
+      updateHistoryState([batch.templateHTML], 0);
+      setDakMetadata({
+        letterType: batch.letterType,
+        letterDestination: batch.letterDestination,
+        recipientDetails: batch.recipientDetails,
+        subject: batch.subject,
+        remarks: batch.remarks
+      });
+      setCurrentStep("editor");
+      toast.success(`${batch.rows.length} rows loaded from ${batch.source}`);
+    }).catch((e) => console.warn("Failed to load letter handoff:", e));
+  }, []);
   
   // Handle CSV upload
   const handleCSVUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -19,6 +19,9 @@ import { useBranch } from "@/contexts/BranchContext";
 import { Button } from "@/components/ui/button";
 import { Home } from "lucide-react";
 import { useLocation } from "wouter";
+import { loadData, saveData, removeData } from "@/lib/db";
+import { subscribeVault, VaultLockedError } from "@/lib/vault";
+import VaultLockedNotice from "@/components/VaultLockedNotice";
 
 // Configure PDF.js worker — use local package worker so the build is offline-capable
 // pdfjs-dist v5+ ships the worker as an ES module; Vite inlines it via ?url import
@@ -485,24 +488,39 @@ export default function RLMSSupplementer() {
   const [printDocId, setPrintDocId] = useState<string | null>(null);
   const { branchName } = useBranch();
   const [, navigate] = useLocation();
+  const [draftLoaded, setDraftLoaded] = useState(false);
+  const [vaultLocked, setVaultLocked] = useState(false);
 
-  // Persist to localStorage
+  // Persist to IndexedDB — the draft holds PAN/Aadhaar/passport numbers and is encrypted by the vault
   useEffect(() => {
-    const saved = localStorage.getItem('rlmsDraft');
-    const savedRO = localStorage.getItem('rlmsReadOnly');
-    if (saved) {
-      const parsed = JSON.parse(saved);
-      const nameFields: (keyof DataModel)[] = ['name', 'fatherName', 'motherMaidenName', 'spouseName'];
-      nameFields.forEach(f => { if (parsed[f]) parsed[f] = toProperCase(parsed[f]); });
-      setData(parsed);
-    }
-    if (savedRO) setReadOnlyFields(JSON.parse(savedRO));
+    (async () => {
+      try {
+        const saved = await loadData('rlmsDraft');
+        const savedRO = await loadData('rlmsReadOnly');
+        if (saved) {
+          const nameFields: (keyof DataModel)[] = ['name', 'fatherName', 'motherMaidenName', 'spouseName'];
+          nameFields.forEach(f => { if (saved[f]) saved[f] = toProperCase(saved[f]); });
+          setData(saved);
+        }
+        if (savedRO) setReadOnlyFields(savedRO);
+        setDraftLoaded(true);
+      } catch (err) {
+        if (err instanceof VaultLockedError) setVaultLocked(true);
+        else console.error("Failed to load RLMS draft:", err);
+      }
+    })();
+    return subscribeVault((unlocked) => { if (!unlocked) setVaultLocked(true); });
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('rlmsDraft', JSON.stringify(data));
-    localStorage.setItem('rlmsReadOnly', JSON.stringify(readOnlyFields));
-  }, [data, readOnlyFields]);
+    // Not before the saved draft is loaded, or the empty form would overwrite it
+    if (!draftLoaded || vaultLocked) return;
+    const timer = setTimeout(() => {
+      Promise.all([saveData('rlmsDraft', data), saveData('rlmsReadOnly', readOnlyFields)])
+        .catch(err => console.error("Failed to save RLMS draft:", err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [data, readOnlyFields, draftLoaded, vaultLocked]);
 
   const handleChange = (e: ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     let { name, value, type } = e.target;
@@ -513,11 +531,17 @@ export default function RLMSSupplementer() {
     setData(prev => ({ ...prev, [name]: type === 'checkbox' ? checked : value }));
   };
 
-  const handleLoadApplication = () => {
+  const handleLoadApplication = async () => {
     if (!data.rlmsApplicationNo) { toast.error("Please enter an RLMS Application Number to load data."); return; }
-    const savedStr = localStorage.getItem(`rlmsApp_${data.rlmsApplicationNo}`);
-    if (savedStr) {
-      const savedApp = JSON.parse(savedStr);
+    let savedApp;
+    try {
+      savedApp = await loadData(`rlmsApp_${data.rlmsApplicationNo}`);
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof VaultLockedError ? err.message : "Failed to load the saved application.");
+      return;
+    }
+    if (savedApp) {
       const nameFields: (keyof DataModel)[] = ['name', 'fatherName', 'motherMaidenName', 'spouseName'];
       nameFields.forEach(f => { if (savedApp[f]) savedApp[f] = toProperCase(savedApp[f]); });
       setData(prev => {
@@ -596,7 +620,7 @@ export default function RLMSSupplementer() {
         const userEntered: Record<string, unknown> = {};
         for (const key in data) { if (!readOnlyFields[key as keyof DataModel]) userEntered[key] = (data as Record<string, unknown>)[key]; }
         userEntered.rlmsApplicationNo = data.rlmsApplicationNo;
-        localStorage.setItem(`rlmsApp_${data.rlmsApplicationNo}`, JSON.stringify(userEntered));
+        await saveData(`rlmsApp_${data.rlmsApplicationNo}`, userEntered);
       }
       const modifiedBytes = await pdfDoc.save();
       const blob = new Blob([modifiedBytes], { type: 'application/pdf' });
@@ -619,8 +643,8 @@ export default function RLMSSupplementer() {
       setReadOnlyFields({});
       setPdfBytes(null);
       setIsFinalised(false);
-      localStorage.removeItem('rlmsDraft');
-      localStorage.removeItem('rlmsReadOnly');
+      removeData('rlmsDraft').catch(err => console.error(err));
+      removeData('rlmsReadOnly').catch(err => console.error(err));
       toast.success("All data cleared.");
     }
   };
@@ -1131,6 +1155,8 @@ export default function RLMSSupplementer() {
 
   // ─── Render ──────────────────────────────────────────────────────────────────
 
+  if (vaultLocked) return <VaultLockedNotice appName="RLMS Supplementer" />;
+
   // Print mode: show only the document
   if (printDocId) {
     return (
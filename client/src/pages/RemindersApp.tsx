@@ -6,7 +6,7 @@
  * - Category-wise display (Overdue, Due Today, Due Tomorrow, Day-After-Tomorrow)
  * - Color coding (Red for Overdue, Orange for Due Today)
  * - Reminder notifications every 2 hours and on app close
- * - Admin login for editing/deleting tasks
+ * - Officer/Branch Manager login for editing/deleting tasks
  * - Task Lists for cyclical tasks (admin-only)
  */
 
@@ -14,6 +14,8 @@ import { sbiLogoUrl } from '@/lib/assets';
 import { useState, useEffect } from "react";
 import { Link } from "wouter";
 import { useBranch } from "@/contexts/BranchContext";
+import { useAuth } from "@/contexts/AuthContext";
+import LoginDialog from "@/components/LoginDialog";
 import { ArrowLeft, Plus, Edit2, Trash2, Check, Calendar, Clock, List, RotateCcw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -36,15 +38,7 @@ import {
 } from "@/components/ui/dialog";
 import { toast } from "sonner";
 import { loadData, saveData } from "@/lib/db";
-
-interface Task {
-  id: string;
-  name: string;
-  frequency: "One-time" | "Daily" | "Weekly" | "Monthly" | "Quarterly" | "Annual";
-  dueDate: string;
-  completed: boolean;
-  createdAt: string;
-}
+import { Task } from "@/lib/reminderTasks";
 
 interface CompletionRecord {
   id: string;
@@ -53,11 +47,9 @@ interface CompletionRecord {
   frequency: string;
   completedDate: string;
   originalDueDate: string;
+  completedBy?: string;
 }
 
-const ADMIN_USERNAME = "Admin";
-const ADMIN_PASSWORD = "Sbi@12345";
-
 // Pre-configured common branch tasks for Indian banking operations
 const PRECONFIGURED_TASKS: Task[] = [
   // Daily Tasks
@@ -258,15 +250,14 @@ const PRECONFIGURED_TASKS: Task[] = [
 export default function RemindersApp() {
   const { branchName } = useBranch();
   const [tasks, setTasks] = useState<Task[]>([]);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const { currentUser, logout, can } = useAuth();
+  const isAdmin = can("reminders.manage");
   const [showLoginDialog, setShowLoginDialog] = useState(false);
   const [showTaskDialog, setShowTaskDialog] = useState(false);
   const [showTaskListDialog, setShowTaskListDialog] = useState(false);
   const [showCompletionHistoryDialog, setShowCompletionHistoryDialog] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [completionHistory, setCompletionHistory] = useState<CompletionRecord[]>([]);
-  const [username, setUsername] = useState("");
-  const [password, setPassword] = useState("");
   const [lastReminderTime, setLastReminderTime] = useState<number>(Date.now());
 
   // Form state
@@ -367,20 +358,8 @@ export default function RemindersApp() {
     return tasks.filter(task => !task.completed && task.dueDate <= today).length;
   };
 
-  const handleLogin = () => {
-    if (username === ADMIN_USERNAME && password === ADMIN_PASSWORD) {
-      setIsAdmin(true);
-      setShowLoginDialog(false);
-      setUsername("");
-      setPassword("");
-      toast.success("Logged in as Admin");
-    } else {
-      toast.error("Invalid credentials");
-    }
-  };
-
   const handleLogout = () => {
-    setIsAdmin(false);
+    logout();
     toast.info("Logged out");
   };
 
@@ -397,6 +376,7 @@ export default function RemindersApp() {
       dueDate,
       completed: false,
       createdAt: new Date().toISOString(),
+      createdBy: currentUser?.username,
     };
 
     setTasks([...tasks, newTask]);
@@ -413,7 +393,7 @@ export default function RemindersApp() {
 
     setTasks(tasks.map(task => 
       task.id === editingTask.id 
-        ? { ...task, name: taskName, frequency, dueDate }
+        ? { ...task, name: taskName, frequency, dueDate, updatedBy: currentUser?.username }
         : task
     ));
     resetForm();
@@ -439,6 +419,7 @@ export default function RemindersApp() {
       frequency: task.frequency,
       completedDate: new Date().toISOString(),
       originalDueDate: task.dueDate,
+      completedBy: currentUser?.username,
     };
 
     // Add to completion history
@@ -685,13 +666,14 @@ export default function RemindersApp() {
                   </Button>
               </>
             )}
-            {isAdmin ? (
+            {currentUser ? (
               <Button
                 variant="outline"
                 className="bg-green-500 hover:bg-green-600 text-white border-none"
                 onClick={handleLogout}
+                title={`${currentUser.displayName} (${currentUser.role})`}
               >
-                Logout Admin
+                Logout {currentUser.username}
               </Button>
             ) : (
               <Button
@@ -699,7 +681,7 @@ export default function RemindersApp() {
                 className="bg-white/20 hover:bg-white/30 text-white border-white/40"
                 onClick={() => setShowLoginDialog(true)}
               >
-                Admin Login
+                Login
               </Button>
             )}
             <Link href="/">
@@ -723,7 +705,7 @@ export default function RemindersApp() {
             <h2 className="text-2xl font-semibold" style={{ color: "#4e1a74" }}>
               {isAdmin ? "All Tasks (Admin View)" : "My Tasks"}
             </h2>
-            {!isAdmin && (
+            {!isAdmin && can("records.create") && (
               <Button
                 className="bg-gradient-to-r from-[#d4007f] to-[#4e1a74] hover:opacity-90 text-white"
                 onClick={() => {
@@ -819,52 +801,7 @@ export default function RemindersApp() {
       </footer>
 
       {/* Admin Login Dialog */}
-      <Dialog open={showLoginDialog} onOpenChange={setShowLoginDialog}>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle className="text-xl font-semibold" style={{ color: "#4e1a74" }}>Admin Login</DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label htmlFor="username" className="text-sm font-medium text-gray-700">Username</Label>
-              <Input
-                id="username"
-                value="Admin"
-                disabled
-                className="bg-gray-100 text-gray-600 border-gray-300"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password" className="text-sm font-medium text-gray-700">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="Enter admin password"
-                className="border-gray-300 focus:ring-2 focus:ring-purple-500"
-                onKeyDown={(e) => e.key === "Enter" && handleLogin()}
-                autoFocus
-              />
-            </div>
-          </div>
-          <div className="flex gap-3">
-            <Button
-              onClick={handleLogin}
-              className="flex-1 bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white"
-            >
-              Login
-            </Button>
-            <Button
-              variant="outline"
-              onClick={() => setShowLoginDialog(false)}
-              className="flex-1 bg-gray-200 text-gray-700 hover:bg-gray-300"
-            >
-              Cancel
-            </Button>
-          </div>
-        </DialogContent>
-      </Dialog>
+      <LoginDialog open={showLoginDialog} onOpenChange={setShowLoginDialog} />
 
       {/* Add/Edit Task Dialog */}
       <Dialog open={showTaskDialog} onOpenChange={(open) => {
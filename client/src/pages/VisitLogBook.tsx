@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { getAllRecords, getRecordsByIndex, getRecord, STORES } from '@/lib/portfolioDb';
 import { formatINR } from '@/lib/portfolioTransform';
+import { loadData, saveData } from '@/lib/db';
+import { subscribeVault, VaultLockedError } from '@/lib/vault';
+import VaultLockedNotice from '@/components/VaultLockedNotice';
 import { 
   FileText, 
   Users, 
@@ -152,10 +155,10 @@ export default function App() {
   // ==========================================
   // STATE MANAGEMENT
   // ==========================================
-  const [reports, setReports] = useState(() => {
-    const saved = localStorage.getItem('bank_visit_reports');
-    return saved ? JSON.parse(saved) : INITIAL_REPORTS;
-  });
+  // Visit reports carry customer details and are encrypted by the vault (IndexedDB)
+  const [reports, setReports] = useState<any[]>(INITIAL_REPORTS);
+  const [reportsLoaded, setReportsLoaded] = useState(false);
+  const [vaultLocked, setVaultLocked] = useState(false);
 
   const [walkins, setWalkins] = useState(() => {
     const saved = localStorage.getItem('bank_walkin_leads');
@@ -221,10 +224,24 @@ export default function App() {
   };
   const [walkinForm, setWalkinForm] = useState(initialWalkinState);
 
-  // Sync state with LocalStorage
   useEffect(() => {
-    localStorage.setItem('bank_visit_reports', JSON.stringify(reports));
-  }, [reports]);
+    loadData('bank_visit_reports')
+      .then((saved) => {
+        if (saved) setReports(saved);
+        setReportsLoaded(true);
+      })
+      .catch((err) => {
+        if (err instanceof VaultLockedError) setVaultLocked(true);
+        else console.error('Failed to load visit reports:', err);
+      });
+    return subscribeVault((unlocked) => { if (!unlocked) setVaultLocked(true); });
+  }, []);
+
+  // Sync state with storage (not before the saved reports are loaded)
+  useEffect(() => {
+    if (!reportsLoaded || vaultLocked) return;
+    saveData('bank_visit_reports', reports).catch((err) => console.error('Failed to save visit reports:', err));
+  }, [reports, reportsLoaded, vaultLocked]);
 
   useEffect(() => {
     localStorage.setItem('bank_walkin_leads', JSON.stringify(walkins));
@@ -754,6 +771,8 @@ ${report.actionItems.map(a => `- [${a.completed ? 'X' : ' '}] ${a.task} (Owner:
     return matchesSearch && matchesType;
   });
 
+  if (vaultLocked) return <VaultLockedNotice appName="Visit Log Book" />;
+
   return (
     <div 
       className="min-h-screen flex flex-col text-slate-800"
@@ -14,6 +14,8 @@ import { sbiLogoUrl } from '@/lib/assets';
 import { useState, useEffect } from "react";
 import { Link } from "wouter";
 import { useBranch } from "@/contexts/BranchContext";
+import { useAuth } from "@/contexts/AuthContext";
+import LoginDialog from "@/components/LoginDialog";
 import { 
   Globe, 
   Link2,
@@ -46,9 +48,9 @@ interface WebResource {
 
 export default function WebResourceHub() {
   const { branchName } = useBranch();
-  const [isAdmin, setIsAdmin] = useState(false);
+  const { currentUser, logout, can } = useAuth();
+  const isAdmin = can("resources.manage");
   const [showLoginModal, setShowLoginModal] = useState(false);
-  const [password, setPassword] = useState("");
   const [resources, setResources] = useState<WebResource[]>([]);
   const [favourites, setFavourites] = useState<Set<string>>(new Set());
   const [searchQuery, setSearchQuery] = useState("");
@@ -97,18 +99,8 @@ export default function WebResourceHub() {
     }
   }, [resources]);
 
-  const handleLogin = () => {
-    if (password === "Sbi@12345") {
-      setIsAdmin(true);
-      setShowLoginModal(false);
-      setPassword("");
-    } else {
-      alert("Incorrect password");
-    }
-  };
-
   const handleLogout = () => {
-    setIsAdmin(false);
+    logout();
     setEditingId(null);
     clearForm();
   };
@@ -123,6 +115,10 @@ export default function WebResourceHub() {
   };
 
   const addResource = () => {
+    if (!can("records.create")) {
+      alert("Your role does not allow adding resources");
+      return;
+    }
     if (!formUrl || !formName || !formCategory) {
       alert("Please fill in all fields");
       return;
@@ -333,13 +329,14 @@ export default function WebResourceHub() {
                 </button>
               </>
             )}
-            {isAdmin ? (
+            {currentUser ? (
               <button
                 onClick={handleLogout}
                 className="flex items-center gap-2 bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors border border-white/30"
+                title={`${currentUser.displayName} (${currentUser.role})`}
               >
                 <LogOut className="w-4 h-4" />
-                <span>Logout</span>
+                <span>Logout {currentUser.username}</span>
               </button>
             ) : (
               <button
@@ -347,7 +344,7 @@ export default function WebResourceHub() {
                 className="flex items-center gap-2 bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors border border-white/30"
               >
                 <LogIn className="w-4 h-4" />
-                <span>Admin Login</span>
+                <span>Login</span>
               </button>
             )}
             <Link href="/">
@@ -620,62 +617,7 @@ export default function WebResourceHub() {
       </footer>
 
       {/* Login Modal */}
-      {showLoginModal && (
-        <div 
-          className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
-          onClick={() => setShowLoginModal(false)}
-        >
-          <div 
-            className="bg-white rounded-xl p-6 w-96 shadow-2xl"
-            onClick={(e) => e.stopPropagation()}
-          >
-            <h3 className="text-xl font-semibold mb-4" style={{ color: "#4e1a74" }}>
-              Admin Login
-            </h3>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Username
-              </label>
-              <input
-                type="text"
-                value="Admin"
-                disabled
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-gray-100 text-gray-600 outline-none"
-              />
-            </div>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
-              <input
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                onKeyPress={(e) => e.key === "Enter" && handleLogin()}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none"
-                placeholder="Enter admin password"
-              />
-            </div>
-            <div className="flex gap-3">
-              <button
-                onClick={handleLogin}
-                className="flex-1 bg-gradient-to-r from-pink-600 to-purple-700 text-white py-2 rounded-lg hover:opacity-90 transition-opacity font-medium"
-              >
-                Login
-              </button>
-              <button
-                onClick={() => {
-                  setShowLoginModal(false);
-                  setPassword("");
-                }}
-                className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
-              >
-                Cancel
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
+      <LoginDialog open={showLoginModal} onOpenChange={setShowLoginModal} />
     </div>
   );
 }
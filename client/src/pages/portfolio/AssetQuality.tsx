@@ -1,13 +1,23 @@
 /**
  * Asset Quality Dashboard
  * NPA management, SMA monitoring, and notice generation for borrowers
+ * NPA list links each account to its recovery diary (lib/recoveryDiary.ts)
+ * and its SARFAESI / legal proceedings (lib/legalProceedings.ts)
+ * P&L at risk: interest reversal and provision hit of accounts projected to
+ * slip to NPA in the next 7 / 15 / 30 days (lib/npaSlippage.ts)
  */
 
 import { useState, useEffect, useMemo, useRef } from "react";
-import { AlertTriangle, Search, Download, Printer, FileText, Filter, Languages } from "lucide-react";
+import { AlertTriangle, Search, Download, Printer, FileText, Filter, Languages, NotebookPen, Gavel, AlarmClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import RecoveryDiaryDialog from "@/components/RecoveryDiaryDialog";
+import LegalProceedingsDialog, { LegalAccount } from "@/components/LegalProceedingsDialog";
 import { getAllRecords, getRecordCount, STORES } from "@/lib/portfolioDb";
-import { formatINR, formatINRFull } from "@/lib/portfolioTransform";
+import { formatINR, formatINRFull, getPortfolioAsOfDate, toISODate } from "@/lib/portfolioTransform";
+import { RecoveryAction, actionTypeLabel, getRecoveryActionsByAccount, normaliseAccountNo } from "@/lib/recoveryDiary";
+import { LEGAL_STAGES, LegalCase, caseDeadlines, getLegalCasesByAccount, stageLabel } from "@/lib/legalProceedings";
+import { ProvisionInputs, emptyProvisionInputs, loadProvisionInputs } from "@/lib/provisioning";
+import { projectSlippage, summariseSlippage } from "@/lib/npaSlippage";
 import { useBranch } from "@/contexts/BranchContext";
 import { loadData as dbLoad, saveData as dbSave } from "@/lib/db";
 import { toast } from "sonner";
@@ -59,6 +69,12 @@ export default function AssetQuality() {
   const [selectedForNotice, setSelectedForNotice] = useState<Set<string>>(new Set());
   const [showNoticePreview, setShowNoticePreview] = useState(false);
   const [noticeLang, setNoticeLang] = useState<"en" | "hi">("en");
+  const [diary, setDiary] = useState<Map<string, RecoveryAction[]>>(new Map());
+  const [diaryAccount, setDiaryAccount] = useState<{ accountNo: string; name: string } | null>(null);
+  const [legalCases, setLegalCases] = useState<Map<string, LegalCase>>(new Map());
+  const [legalAccount, setLegalAccount] = useState<LegalAccount | null>(null);
+  const [fileAsOfDate, setFileAsOfDate] = useState<string | null>(null);
+  const [provisionInputs, setProvisionInputs] = useState<ProvisionInputs>(emptyProvisionInputs());
   const printRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => { loadData(); }, []);
@@ -71,11 +87,14 @@ export default function AssetQuality() {
       ]);
       if (lc === 0 && cc === 0 && nc === 0) { setHasData(false); setLoading(false); return; }
       setHasData(true);
-      const [ld, cd, nd, custd] = await Promise.all([
+      const [ld, cd, nd, custd, actions, cases, fileAsOf, provInputs] = await Promise.all([
         getAllRecords(STORES.LOAN_DATA), getAllRecords(STORES.CCOD_DATA),
-        getAllRecords(STORES.NPA_DATA), getAllRecords(STORES.CUSTOMER_DIM)
+        getAllRecords(STORES.NPA_DATA), getAllRecords(STORES.CUSTOMER_DIM),
+        getRecoveryActionsByAccount(), getLegalCasesByAccount(),
+        getPortfolioAsOfDate(), loadProvisionInputs()
       ]);
-      setLoans(ld); setCcod(cd); setNpaReport(nd); setCustomerDim(custd);
+      setLoans(ld); setCcod(cd); setNpaReport(nd); setCustomerDim(custd); setDiary(actions); setLegalCases(cases);
+      setFileAsOfDate(fileAsOf); setProvisionInputs(provInputs);
     } catch (e) { console.error(e); }
     setLoading(false);
   }
@@ -209,6 +228,47 @@ export default function AssetQuality() {
     });
   }, [loans, ccod]);
 
+  // SARFAESI deadlines due within a week (or missed), across all legal cases
+  // P&L at risk: accounts slipping to NPA within 30 days of the file date unless regularised
+  const slippage = useMemo(() => {
+    const asOf = fileAsOfDate ?? toISODate(new Date());
+    const impacts = projectSlippage(loans, ccod, asOf, asOf, provisionInputs);
+    const now = new Date(`${asOf}T00:00:00`);
+    const monthEnd = toISODate(new Date(now.getFullYear(), now.getMonth() + 1, 0));
+    const beforeMonthEnd = impacts.filter(i => i.slipDate <= monthEnd);
+    return {
+      asOf,
+      monthEnd,
+      impacts,
+      windows: summariseSlippage(impacts),
+      interestReversal: impacts.reduce((s, i) => s + i.interestReversal, 0),
+      provisionHit: impacts.reduce((s, i) => s + i.provisionHit, 0),
+      outstanding: impacts.reduce((s, i) => s + i.outstanding, 0),
+      monthEndCount: beforeMonthEnd.length,
+      monthEndAtRisk: beforeMonthEnd.reduce((s, i) => s + i.interestReversal + i.provisionHit, 0),
+      top: [...impacts].sort((a, b) => (b.interestReversal + b.provisionHit) - (a.interestReversal + a.provisionHit)).slice(0, 5),
+    };
+  }, [loans, ccod, fileAsOfDate, provisionInputs]);
+
+  const legalAlerts = useMemo(() => {
+    const soon = new Date(Date.now() + 7 * 86_400_000).toISOString().slice(0, 10);
+    return Array.from(legalCases.values())
+      .flatMap(c => caseDeadlines(c).filter(d => d.due <= soon).map(d => ({ ...d, accountNo: c.accountNo, customerName: c.customerName })))
+      .sort((a, b) => a.due.localeCompare(b.due));
+  }, [legalCases]);
+
+  function openLegal(n: any) {
+    setLegalAccount({
+      accountNo: String(n.ACCOUNT_NO),
+      customerName: n.CUSTOMER_NAME || "",
+      fatherName: n.FATHER_NAME || "",
+      address: [n.ADDRESS1, n.ADDRESS2, n.ADDRESS3, (n.POSTCODE || n.PIN) ? `PIN – ${n.POSTCODE || n.PIN}` : ""].filter(Boolean),
+      outstanding: Math.abs(n.OUTSTANDING || 0),
+      npaDate: n.NPA_DATE ? new Date(n.NPA_DATE).toLocaleDateString("en-GB") : undefined,
+      loanSegment: n.SYS || n.ACCTDESC || "",
+    });
+  }
+
   function toggleNoticeSelection(acNo: string) {
     const newSet = new Set(selectedForNotice);
     if (newSet.has(acNo)) newSet.delete(acNo);
@@ -535,6 +595,74 @@ export default function AssetQuality() {
             </div>
           </div>
 
+          {/* P&L at Risk */}
+          <div className="bg-white rounded-xl border border-amber-200 p-5 shadow-sm">
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div>
+                <h3 className="font-semibold text-gray-700">P&amp;L at Risk (Projected Slippage)</h3>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  Accounts turning NPA within 30 days of {new Date(`${slippage.asOf}T00:00:00`).toLocaleDateString("en-IN")} if not regularised —
+                  unrealised interest to be reversed and additional provision on slipping
+                </p>
+              </div>
+              <div className="text-right shrink-0">
+                <p className="text-xs text-gray-500">Before month-end ({new Date(`${slippage.monthEnd}T00:00:00`).toLocaleDateString("en-IN")})</p>
+                <p className="text-xl font-bold text-red-700">{formatINR(slippage.monthEndAtRisk)}</p>
+                <p className="text-xs text-gray-400">{slippage.monthEndCount} accounts</p>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-3 text-gray-500 font-medium">Slips to NPA</th>
+                    <th className="text-center py-2 px-3 text-gray-500 font-medium">Accounts</th>
+                    <th className="text-right py-2 px-3 text-gray-500 font-medium">Outstanding</th>
+                    <th className="text-right py-2 px-3 text-gray-500 font-medium">Interest Reversal</th>
+                    <th className="text-right py-2 px-3 text-gray-500 font-medium">Provision Hit</th>
+                    <th className="text-right py-2 px-3 text-gray-500 font-medium font-bold">P&amp;L at Risk</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {slippage.windows.map(w => (
+                    <tr key={w.category} className="border-b border-gray-50">
+                      <td className="py-2 px-3">{w.label}</td>
+                      <td className="py-2 px-3 text-center">{w.accounts}</td>
+                      <td className="py-2 px-3 text-right">{formatINR(w.outstanding)}</td>
+                      <td className="py-2 px-3 text-right">{formatINR(w.interestReversal)}</td>
+                      <td className="py-2 px-3 text-right">{formatINR(w.provisionHit)}</td>
+                      <td className="py-2 px-3 text-right font-bold">{formatINR(w.pnlAtRisk)}</td>
+                    </tr>
+                  ))}
+                  <tr className="border-t-2 border-gray-300 bg-amber-50">
+                    <td className="py-2 px-3 font-bold text-amber-800">Next 30 days</td>
+                    <td className="py-2 px-3 text-center font-bold text-amber-800">{slippage.impacts.length}</td>
+                    <td className="py-2 px-3 text-right font-bold text-amber-800">{formatINR(slippage.outstanding)}</td>
+                    <td className="py-2 px-3 text-right font-bold text-amber-800">{formatINR(slippage.interestReversal)}</td>
+                    <td className="py-2 px-3 text-right font-bold text-amber-800">{formatINR(slippage.provisionHit)}</td>
+                    <td className="py-2 px-3 text-right font-bold text-amber-800">{formatINR(slippage.interestReversal + slippage.provisionHit)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            {slippage.top.length > 0 && (
+              <div className="mt-4">
+                <p className="text-xs font-medium text-gray-500 mb-2">Largest impact — regularise first</p>
+                <div className="space-y-1">
+                  {slippage.top.map(i => (
+                    <div key={i.accountNo} className="flex items-center justify-between text-xs border-b border-gray-50 py-1">
+                      <span className="text-gray-700">
+                        <span className="font-mono">{i.accountNo}</span> {i.customerName}
+                        <span className="text-gray-400"> — NPA on {new Date(`${i.slipDate}T00:00:00`).toLocaleDateString("en-IN")} ({i.dpd} DPD)</span>
+                      </span>
+                      <span className="font-semibold text-red-700">{formatINR(i.interestReversal + i.provisionHit)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
           {/* IRAC Distribution */}
           {analytics.iracDistribution.length > 0 && (
             <div className="bg-white rounded-xl border border-gray-200 p-5 shadow-sm">
@@ -603,6 +731,20 @@ export default function AssetQuality() {
             <p className="text-xs text-gray-400 mt-2">{filteredNPA.length} NPA accounts | {selectedForNotice.size} selected for notice</p>
           </div>
 
+          {/* SARFAESI deadlines */}
+          {legalAlerts.length > 0 && (
+            <div className="bg-red-50 rounded-xl border border-red-200 p-4 shadow-sm">
+              <p className="text-sm font-semibold text-red-800 flex items-center gap-2 mb-2"><AlarmClock className="w-4 h-4" /> SARFAESI deadlines this week</p>
+              <div className="space-y-1">
+                {legalAlerts.map(a => (
+                  <p key={`${a.accountNo}-${a.key}`} className="text-xs text-red-700">
+                    <span className="font-semibold">{new Date(`${a.due}T00:00:00`).toLocaleDateString("en-IN")}</span> — A/c {a.accountNo} {a.customerName}: {a.label}
+                  </p>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* NPA Table */}
           <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
             <div className="overflow-x-auto max-h-[600px] overflow-y-auto">
@@ -618,6 +760,8 @@ export default function AssetQuality() {
                     <th className="text-center py-3 px-3 text-gray-500 font-medium">IRAC</th>
                     <th className="text-left py-3 px-3 text-gray-500 font-medium">Type</th>
                     <th className="text-left py-3 px-3 text-gray-500 font-medium">Address</th>
+                    <th className="text-left py-3 px-3 text-gray-500 font-medium">Recovery Diary</th>
+                    <th className="text-left py-3 px-3 text-gray-500 font-medium">Legal</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -645,6 +789,40 @@ export default function AssetQuality() {
                       </td>
                       <td className="py-2 px-3 text-xs text-gray-600">{n.SYS}</td>
                       <td className="py-2 px-3 text-xs text-gray-600 truncate max-w-[200px]">{[n.ADDRESS1, n.ADDRESS2, n.ADDRESS3].filter(Boolean).join(", ")}</td>
+                      <td className="py-2 px-3">
+                        {(() => {
+                          const actions = diary.get(normaliseAccountNo(n.ACCOUNT_NO)) ?? [];
+                          return (
+                            <button
+                              onClick={() => setDiaryAccount({ accountNo: String(n.ACCOUNT_NO), name: n.CUSTOMER_NAME || "" })}
+                              className="flex items-center gap-1.5 text-left text-xs text-purple-700 hover:underline whitespace-nowrap"
+                              title="Open the recovery diary"
+                            >
+                              <NotebookPen className="w-3.5 h-3.5 shrink-0" />
+                              {actions.length === 0
+                                ? <span className="text-gray-400">Add action</span>
+                                : <span>{actions.length} · {actionTypeLabel(actions[0].type)}, {new Date(`${actions[0].date}T00:00:00`).toLocaleDateString("en-IN")}</span>}
+                            </button>
+                          );
+                        })()}
+                      </td>
+                      <td className="py-2 px-3">
+                        {(() => {
+                          const legal = legalCases.get(normaliseAccountNo(n.ACCOUNT_NO));
+                          const latest = legal && LEGAL_STAGES.slice().reverse().find(s => legal.steps.some(st => st.stage === s.value));
+                          const overdue = legal && caseDeadlines(legal).some(d => d.due < new Date().toISOString().slice(0, 10));
+                          return (
+                            <button
+                              onClick={() => openLegal(n)}
+                              className={`flex items-center gap-1.5 text-left text-xs hover:underline whitespace-nowrap ${overdue ? "text-red-700 font-semibold" : "text-purple-700"}`}
+                              title="SARFAESI / legal proceedings"
+                            >
+                              <Gavel className="w-3.5 h-3.5 shrink-0" />
+                              {latest ? stageLabel(latest.value) : <span className="text-gray-400">Start</span>}
+                            </button>
+                          );
+                        })()}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -723,6 +901,24 @@ export default function AssetQuality() {
 
       {/* printRef retained for potential future use */}
       <div ref={printRef} style={{ display: "none" }} />
+
+      <RecoveryDiaryDialog
+        open={diaryAccount !== null}
+        onOpenChange={(open) => { if (!open) setDiaryAccount(null); }}
+        accountNo={diaryAccount?.accountNo ?? ""}
+        customerName={diaryAccount?.name}
+        onChanged={async () => setDiary(await getRecoveryActionsByAccount())}
+      />
+
+      <LegalProceedingsDialog
+        open={legalAccount !== null}
+        onOpenChange={(open) => { if (!open) setLegalAccount(null); }}
+        account={legalAccount}
+        onChanged={async () => {
+          const [cases, actions] = await Promise.all([getLegalCasesByAccount(), getRecoveryActionsByAccount()]);
+          setLegalCases(cases); setDiary(actions);
+        }}
+      />
     </div>
   );
 }
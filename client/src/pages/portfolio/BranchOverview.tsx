@@ -3,10 +3,11 @@
  * Key metrics, portfolio summary, and high-level analytics
  */
 
-import { useState, useEffect } from "react";
-import { TrendingUp, TrendingDown, Users, PiggyBank, CreditCard, AlertTriangle, Building2, Wallet } from "lucide-react";
+import { useState, useEffect, useMemo } from "react";
+import { TrendingUp, TrendingDown, Users, PiggyBank, CreditCard, AlertTriangle, Building2, Wallet, CalendarRange } from "lucide-react";
 import { getAllRecords, getDataStatus, STORES } from "@/lib/portfolioDb";
 import { formatINR } from "@/lib/portfolioTransform";
+import { getSnapshots, buildSnapshotView, PortfolioSnapshot, SnapshotView, SMA_BUCKETS } from "@/lib/portfolioSnapshots";
 
 interface PortfolioMetrics {
   // Deposits
@@ -46,6 +47,146 @@ interface PortfolioMetrics {
   smaDistribution: { class: string; count: number; amount: number }[];
 }
 
+function formatSnapshotDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
+}
+
+/**
+ * Period-over-period comparison between any two stored snapshots.
+ * Defaults to the latest snapshot vs the one before it.
+ */
+function SnapshotComparison() {
+  const [snapshots, setSnapshots] = useState<PortfolioSnapshot[]>([]);
+  const [baseDate, setBaseDate] = useState("");
+  const [compareDate, setCompareDate] = useState("");
+
+  useEffect(() => {
+    getSnapshots()
+      .then((all) => {
+        setSnapshots(all);
+        if (all.length > 0) setCompareDate(all[all.length - 1].snapshotDate);
+        if (all.length > 1) setBaseDate(all[all.length - 2].snapshotDate);
+      })
+      .catch((err) => console.error("Failed to load snapshots:", err));
+  }, []);
+
+  const base = useMemo(() => (baseDate ? buildSnapshotView(snapshots, baseDate) : null), [snapshots, baseDate]);
+  const current = useMemo(() => (compareDate ? buildSnapshotView(snapshots, compareDate) : null), [snapshots, compareDate]);
+
+  if (snapshots.length < 2) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-200 p-5 shadow-sm">
+        <h3 className="font-semibold text-gray-700 mb-2 flex items-center gap-2">
+          <CalendarRange className="w-5 h-5 text-purple-500" />
+          Period Comparison
+        </h3>
+        <p className="text-sm text-gray-500">
+          Snapshots are saved per file date on every upload. Upload files for at least two dates to compare periods.
+        </p>
+      </div>
+    );
+  }
+
+  const rows: { label: string; get: (v: SnapshotView) => number; kind: "amount" | "count" | "pct"; lowerIsBetter?: boolean }[] = [
+    { label: "Total Deposits", get: (v) => v.totalDeposits, kind: "amount" },
+    { label: "CASA", get: (v) => v.casaBalance, kind: "amount" },
+    { label: "CASA Ratio", get: (v) => v.casaRatio, kind: "pct" },
+    { label: "Total Advances", get: (v) => v.totalAdvances, kind: "amount" },
+    { label: "Gross NPA", get: (v) => v.npaAmount, kind: "amount", lowerIsBetter: true },
+    { label: "Gross NPA %", get: (v) => v.grossNPARatio, kind: "pct", lowerIsBetter: true },
+    { label: "NPA Accounts", get: (v) => v.npaAccounts, kind: "count", lowerIsBetter: true },
+    { label: "SMA Outstanding", get: (v) => v.smaAmount, kind: "amount", lowerIsBetter: true },
+    { label: "SMA Accounts", get: (v) => v.smaAccounts, kind: "count", lowerIsBetter: true },
+    ...SMA_BUCKETS.map((cls) => ({
+      label: `${cls} Outstanding`,
+      get: (v: SnapshotView) => v.sma[cls]?.amount || 0,
+      kind: "amount" as const,
+      lowerIsBetter: true,
+    })),
+  ];
+
+  const fmt = (value: number, kind: "amount" | "count" | "pct") =>
+    kind === "amount" ? formatINR(value) : kind === "pct" ? `${value.toFixed(2)}%` : value.toLocaleString("en-IN");
+
+  const sectionNote = (v: SnapshotView | null) => {
+    if (!v) return null;
+    const stale = Object.entries(v.sectionDates).filter(([, d]) => d !== v.snapshotDate);
+    if (stale.length === 0) return null;
+    return stale.map(([section, d]) => `${section}: ${formatSnapshotDate(d as string)}`).join(", ");
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="font-semibold text-gray-700 flex items-center gap-2">
+          <CalendarRange className="w-5 h-5 text-purple-500" />
+          Period Comparison
+        </h3>
+        <div className="flex items-center gap-2 text-sm">
+          <select value={baseDate} onChange={(e) => setBaseDate(e.target.value)} className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white">
+            {snapshots.map((s) => <option key={s.snapshotDate} value={s.snapshotDate}>{formatSnapshotDate(s.snapshotDate)}</option>)}
+          </select>
+          <span className="text-gray-400">vs</span>
+          <select value={compareDate} onChange={(e) => setCompareDate(e.target.value)} className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white">
+            {snapshots.map((s) => <option key={s.snapshotDate} value={s.snapshotDate}>{formatSnapshotDate(s.snapshotDate)}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {base && current && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-2 text-gray-500 font-medium">Metric</th>
+                <th className="text-right py-2 text-gray-500 font-medium">{formatSnapshotDate(baseDate)}</th>
+                <th className="text-right py-2 text-gray-500 font-medium">{formatSnapshotDate(compareDate)}</th>
+                <th className="text-right py-2 text-gray-500 font-medium">Change</th>
+                <th className="text-right py-2 text-gray-500 font-medium">Change %</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const before = row.get(base);
+                const after = row.get(current);
+                const delta = after - before;
+                const deltaPct = before !== 0 ? (delta / Math.abs(before)) * 100 : null;
+                const improved = row.lowerIsBetter ? delta < 0 : delta > 0;
+                const color = delta === 0 ? "text-gray-500" : improved ? "text-green-600" : "text-red-600";
+                const DeltaIcon = delta >= 0 ? TrendingUp : TrendingDown;
+                return (
+                  <tr key={row.label} className="border-b border-gray-50">
+                    <td className="py-2 text-gray-700 font-medium">{row.label}</td>
+                    <td className="py-2 text-right text-gray-600">{fmt(before, row.kind)}</td>
+                    <td className="py-2 text-right text-gray-800 font-medium">{fmt(after, row.kind)}</td>
+                    <td className={`py-2 text-right font-medium ${color}`}>
+                      <span className="inline-flex items-center gap-1">
+                        {delta !== 0 && <DeltaIcon className="w-3 h-3" />}
+                        {delta > 0 ? "+" : ""}{row.kind === "pct" ? `${delta.toFixed(2)} pp` : fmt(delta, row.kind)}
+                      </span>
+                    </td>
+                    <td className={`py-2 text-right ${color}`}>
+                      {row.kind === "pct" || deltaPct == null ? "-" : `${deltaPct > 0 ? "+" : ""}${deltaPct.toFixed(1)}%`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {[sectionNote(base), sectionNote(current)].some(Boolean) && (
+            <p className="text-xs text-gray-400 mt-3">
+              Sections carried forward from earlier file dates —{" "}
+              {[sectionNote(base) && `${formatSnapshotDate(baseDate)} uses ${sectionNote(base)}`, sectionNote(current) && `${formatSnapshotDate(compareDate)} uses ${sectionNote(current)}`]
+                .filter(Boolean)
+                .join("; ")}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function BranchOverview() {
   const [metrics, setMetrics] = useState<PortfolioMetrics | null>(null);
   const [loading, setLoading] = useState(true);
@@ -378,6 +519,9 @@ export default function BranchOverview() {
         </div>
       </div>
 
+      {/* Period-over-period comparison from stored snapshots */}
+      <SnapshotComparison />
+
       {/* Deposit & Loan Category Breakdown */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Deposit Categories */}
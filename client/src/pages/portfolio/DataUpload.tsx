@@ -16,7 +16,6 @@ import {
   addUploadLog,
 } from "@/lib/portfolioDb";
 import {
-  parseCSV,
   processProductMapping,
   processLoanProductMapping,
   processDepositShadow,
@@ -32,6 +31,7 @@ import {
   FILE_TYPES_WITH_DATE_IN_NAME,
   FILE_TYPES_WITH_UPLOAD_DATE,
 } from "@/lib/portfolioTransform";
+import { parseCSVFile, readCSVHeaders } from "@/lib/csvParser";
 import { useBranch } from "@/contexts/BranchContext";
 
 interface UploadStatus {
@@ -42,6 +42,8 @@ interface UploadStatus {
   errorMessage?: string;
   fileDate?: string;
   branchCode?: string;
+  parsePercent?: number; // while the CSV worker is reading the file
+  parsedRows?: number;
 }
 
 export default function DataUpload() {
@@ -98,17 +100,13 @@ export default function DataUpload() {
       "npa-report": 3,
     };
 
-    // Pre-read all files and detect types so we can sort by priority
-    const fileEntries: { file: File; idx: number; text: string; fileType: string | null }[] = [];
+    // Read just the header row of each file and detect types so we can sort by priority
+    const fileEntries: { file: File; idx: number; fileType: string | null }[] = [];
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
-      const text = await file.text();
-      const firstLine = text.split(/\r?\n/)[0] || "";
-      let headerLine = firstLine;
-      if (headerLine.charCodeAt(0) === 0xfeff) headerLine = headerLine.slice(1);
-      const headers = headerLine.split(",").map((h) => h.trim());
+      const headers = await readCSVHeaders(file);
       const ft = detectFileType(file.name, headers);
-      fileEntries.push({ file, idx: i, text, fileType: ft });
+      fileEntries.push({ file, idx: i, fileType: ft });
     }
     fileEntries.sort((a, b) => {
       const pa = a.fileType ? (PROCESSING_PRIORITY[a.fileType] ?? 5) : 5;
@@ -116,7 +114,7 @@ export default function DataUpload() {
       return pa - pb;
     });
 
-    for (const { file, idx: i, text, fileType } of fileEntries) {
+    for (const { file, idx: i, fileType } of fileEntries) {
       try {
         newUploads[i].status = "processing";
         setUploads([...newUploads]);
@@ -158,28 +156,37 @@ export default function DataUpload() {
         newUploads[i].fileDate = fileDate;
         newUploads[i].branchCode = fileBranchCode || undefined;
 
+        // Parse off the main thread; large shadow files take several seconds
+        const rows = await parseCSVFile(file, ({ rows, percent }) => {
+          newUploads[i].parsePercent = percent;
+          newUploads[i].parsedRows = rows;
+          setUploads([...newUploads]);
+        });
+        newUploads[i].parsePercent = undefined;
+        setUploads([...newUploads]);
+
         let count = 0;
         switch (fileType) {
           case "product-mapping":
-            count = await processProductMapping(text);
+            count = await processProductMapping(rows);
             break;
           case "loan-product-mapping":
-            count = await processLoanProductMapping(text);
+            count = await processLoanProductMapping(rows);
             break;
           case "deposit-shadow":
-            count = await processDepositShadow(text);
+            count = await processDepositShadow(rows, fileDate);
             break;
           case "loan-shadow":
-            count = await processLoanShadow(text);
+            count = await processLoanShadow(rows);
             break;
           case "loan-balance":
-            count = await processLoanBalance(text);
+            count = await processLoanBalance(rows, fileDate);
             break;
           case "ccod-balance":
-            count = await processCCODBalance(text);
+            count = await processCCODBalance(rows, fileDate);
             break;
           case "npa-report":
-            count = await processNPAReport(text);
+            count = await processNPAReport(rows, fileDate);
             break;
         }
 
@@ -240,6 +247,7 @@ export default function DataUpload() {
       await clearStore(STORES.DEPOSIT_SHADOW);
       await clearStore(STORES.CUSTOMER_DIM);
       await clearStore(STORES.UPLOAD_LOG);
+      await clearStore(STORES.SNAPSHOTS);
       setUploads([]);
       await loadStatus();
       toast.success("All portfolio data cleared");
@@ -333,6 +341,16 @@ export default function DataUpload() {
                     {u.fileDate && ` — file date: ${new Date(u.fileDate).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" })}`}
                     {u.errorMessage && <span className="text-red-500"> — {u.errorMessage}</span>}
                   </p>
+                  {u.status === "processing" && u.parsePercent != null && (
+                    <div className="mt-1.5">
+                      <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-blue-500 transition-all" style={{ width: `${u.parsePercent}%` }} />
+                      </div>
+                      <p className="text-xs text-gray-400 mt-0.5">
+                        Reading file — {(u.parsedRows || 0).toLocaleString("en-IN")} rows ({Math.round(u.parsePercent)}%)
+                      </p>
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
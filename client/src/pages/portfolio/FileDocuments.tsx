@@ -0,0 +1,523 @@
+/**
+ * File Documents — "Documents" tab of the Loan File Manager
+ *
+ * Document checklist of every active loan file (per-item status, execution and
+ * expiry dates) and a deficiency dashboard of files with mandatory documents
+ * pending or expired. Deficient files are sent to the Letter Generator as a
+ * ready mail-merge of deficiency memos. Passport and driving-licence validity
+ * can be pulled from saved RLMS Supplementer applications.
+ * Checklists per category are maintained at the bottom of the tab.
+ * Storage and rules live in lib/fileDocuments.ts.
+ */
+
+import { useState, useMemo } from "react";
+import { useLocation } from "wouter";
+import * as XLSX from "xlsx";
+import { AlertTriangle, ClipboardCheck, Download, FileText, ListChecks, Plus, RotateCcw, Search, Send, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { queueLetterMerge } from "@/lib/letterHandoff";
+import type { LoanFileCategory } from "@/lib/loanFileCategories";
+import { toISODate } from "@/lib/portfolioTransform";
+import {
+  CategoryChecklist,
+  ChecklistItem,
+  DOC_STATUSES,
+  DocStatus,
+  EXPIRY_WARNING_DAYS,
+  FileDeficiency,
+  FileDocument,
+  assessFile,
+  checklistFor,
+  checklistItemId,
+  deficiencyMemoBatch,
+  documentId,
+  importRlmsExpiries,
+  isDeficient,
+  resetChecklist,
+  saveChecklist,
+  saveFileDocuments,
+} from "@/lib/fileDocuments";
+
+interface FileRecord {
+  serialNo: string;
+  accountNo: string;
+  customerName: string;
+  cifNo: string;
+  category: string;
+  status: "ACTIVE" | "CLOSED";
+}
+
+interface Props {
+  accounts: FileRecord[];
+  categories: LoanFileCategory[];
+  documents: FileDocument[];
+  checklists: CategoryChecklist[];
+  onDocumentsChange: (documents: FileDocument[]) => void;
+  onChecklistsChange: (checklists: CategoryChecklist[]) => void;
+}
+
+interface DocDraft {
+  status: DocStatus;
+  executionDate: string;
+  expiryDate: string;
+  remarks: string;
+}
+
+const MAX_ROWS = 200;
+
+const STATUS_STYLE: Record<DocStatus, string> = {
+  Pending: "bg-gray-100 text-gray-700",
+  Obtained: "bg-green-100 text-green-700",
+  Deficient: "bg-red-100 text-red-700",
+  Waived: "bg-blue-100 text-blue-700",
+};
+
+function fmtDate(iso: string): string {
+  if (!iso) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}/${m}/${y}`;
+}
+
+export default function FileDocuments({ accounts, categories, documents, checklists, onDocumentsChange, onChecklistsChange }: Props) {
+  const [, navigate] = useLocation();
+  const { currentUser, can } = useAuth();
+  const user = currentUser?.username ?? "Guest";
+  const canEdit = can("records.create");
+  const canConfigure = can("branch.configure");
+
+  const [categoryFilter, setCategoryFilter] = useState<string>("All");
+  const [view, setView] = useState<"deficient" | "expiring" | "all">("deficient");
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<FileRecord | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, DocDraft>>({});
+  const [setupCategory, setSetupCategory] = useState<string>(categories[0]?.code ?? "");
+  const [itemDrafts, setItemDrafts] = useState<ChecklistItem[] | null>(null);
+  const [newItemLabel, setNewItemLabel] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+
+  const categoryLabel = (code: string) => categories.find(c => c.code === code)?.label ?? code;
+
+  // ── Assessment of every active file ────────────────────────────────────────
+  const assessed = useMemo(() => {
+    const docMap = new Map(documents.map(d => [d.id, d]));
+    return accounts
+      .filter(a => a.status === "ACTIVE")
+      .map(file => ({ file, deficiency: assessFile(file.serialNo, checklistFor(checklists, file.category), docMap) }));
+  }, [accounts, documents, checklists]);
+
+  const deficientCount = assessed.filter(a => isDeficient(a.deficiency)).length;
+  const expiredCount = assessed.reduce((s, a) => s + a.deficiency.expired.length, 0);
+  const expiringCount = assessed.reduce((s, a) => s + a.deficiency.expiring.length, 0);
+
+  const visible = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return assessed.filter(({ file, deficiency }) => {
+      if (categoryFilter !== "All" && file.category !== categoryFilter) return false;
+      if (view === "deficient" && !isDeficient(deficiency)) return false;
+      if (view === "expiring" && deficiency.expiring.length === 0 && deficiency.expired.length === 0) return false;
+      if (!q) return true;
+      return file.serialNo.toLowerCase().includes(q)
+        || file.accountNo.includes(q)
+        || file.customerName.toLowerCase().includes(q)
+        || file.cifNo.includes(q);
+    });
+  }, [assessed, categoryFilter, view, search]);
+
+  // ── Per-file checklist ─────────────────────────────────────────────────────
+  const selectedItems = selected ? checklistFor(checklists, selected.category) : [];
+
+  const openFile = (file: FileRecord) => {
+    const items = checklistFor(checklists, file.category);
+    const docMap = new Map(documents.map(d => [d.id, d]));
+    const next: Record<string, DocDraft> = {};
+    for (const i of items) {
+      const doc = docMap.get(documentId(file.serialNo, i.id));
+      next[i.id] = {
+        status: doc?.status ?? "Pending",
+        executionDate: doc?.executionDate ?? "",
+        expiryDate: doc?.expiryDate ?? "",
+        remarks: doc?.remarks ?? "",
+      };
+    }
+    setDrafts(next);
+    setSelected(file);
+  };
+
+  const updateDraft = (itemId: string, patch: Partial<DocDraft>) =>
+    setDrafts(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...patch } }));
+
+  const handleSaveFile = async () => {
+    if (!selected) return;
+    try {
+      const changes = selectedItems.map(i => ({ serialNo: selected.serialNo, itemId: i.id, ...drafts[i.id] }));
+      onDocumentsChange(await saveFileDocuments(changes, user));
+      toast.success(`Documents of ${selected.serialNo} saved`);
+      setSelected(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // ── Actions ────────────────────────────────────────────────────────────────
+  const handleImportRlms = async () => {
+    setIsImporting(true);
+    try {
+      const { documents: updated, result } = await importRlmsExpiries(accounts.filter(a => a.status === "ACTIVE"), checklists, user);
+      onDocumentsChange(updated);
+      if (result.applications === 0) toast.info("No saved RLMS applications found");
+      else toast.success(`${result.updated} expiry date${result.updated !== 1 ? "s" : ""} updated from ${result.applications} RLMS applications`
+        + (result.unreadable > 0 ? ` (${result.unreadable} locked — unlock the vault to read them)` : ""));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleSendMemos = async () => {
+    const deficient = visible.filter(v => isDeficient(v.deficiency));
+    if (deficient.length === 0) {
+      toast.error("No deficient files in the current list");
+      return;
+    }
+    if (!window.confirm(`Prepare deficiency memos for ${deficient.length} file${deficient.length !== 1 ? "s" : ""} in the Letter Generator?`)) return;
+    try {
+      await queueLetterMerge(deficiencyMemoBatch(
+        deficient.map(({ file, deficiency }) => ({ file, loanType: categoryLabel(file.category), deficiency }))
+      ));
+      navigate("/letter-generator");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const exportDeficiencies = () => {
+    const docMap = new Map(documents.map(d => [d.id, d]));
+    const summary = visible.map(({ file, deficiency }) => ({
+      "File No.": file.serialNo,
+      "Account No.": file.accountNo,
+      "Customer Name": file.customerName,
+      "Category": categoryLabel(file.category),
+      "Documents Complete": `${deficiency.obtained}/${deficiency.total}`,
+      "Pending / Deficient": deficiency.missing.map(i => i.label).join("; "),
+      "Expired": deficiency.expired.map(i => i.label).join("; "),
+      [`Expiring in ${EXPIRY_WARNING_DAYS} days`]: deficiency.expiring.map(i => i.label).join("; "),
+    }));
+    const detail = visible.flatMap(({ file }) => checklistFor(checklists, file.category).map(i => {
+      const doc = docMap.get(documentId(file.serialNo, i.id));
+      return {
+        "File No.": file.serialNo,
+        "Customer Name": file.customerName,
+        "Document": i.label,
+        "Mandatory": i.mandatory ? "Yes" : "No",
+        "Status": doc?.status ?? "Pending",
+        "Execution Date": doc?.executionDate ? fmtDate(doc.executionDate) : "",
+        "Expiry Date": doc?.expiryDate ? fmtDate(doc.expiryDate) : "",
+        "Remarks": doc?.remarks ?? "",
+        "Updated By": doc?.updatedBy ?? "",
+      };
+    }));
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(summary), "Deficiencies");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(detail), "Document Status");
+    XLSX.writeFile(wb, `Loan_File_Documents_${toISODate(new Date())}.xlsx`);
+  };
+
+  // ── Category checklists ────────────────────────────────────────────────────
+  const setupItems = itemDrafts ?? checklistFor(checklists, setupCategory);
+  const hasCustomChecklist = checklists.some(c => c.id === setupCategory && c.items.length > 0);
+
+  const changeSetupCategory = (code: string) => {
+    setSetupCategory(code);
+    setItemDrafts(null);
+  };
+
+  const updateItem = (index: number, patch: Partial<ChecklistItem>) =>
+    setItemDrafts(setupItems.map((it, i) => (i === index ? { ...it, ...patch } : it)));
+
+  const handleAddItem = () => {
+    const label = newItemLabel.trim();
+    if (!label) return;
+    const id = checklistItemId(label);
+    if (!id || setupItems.some(i => i.id === id)) {
+      toast.error(`${label} is already on the checklist`);
+      return;
+    }
+    setItemDrafts([...setupItems, { id, label, mandatory: true, expires: false }]);
+    setNewItemLabel("");
+  };
+
+  const handleSaveChecklist = async () => {
+    try {
+      onChecklistsChange(await saveChecklist(setupCategory, setupItems));
+      setItemDrafts(null);
+      toast.success(`Checklist for ${categoryLabel(setupCategory)} saved`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleResetChecklist = async () => {
+    if (!window.confirm(`Restore the default checklist for ${categoryLabel(setupCategory)}? Statuses already recorded for removed documents are kept but no longer shown.`)) return;
+    try {
+      onChecklistsChange(await resetChecklist(setupCategory));
+      setItemDrafts(null);
+      toast.success("Default checklist restored");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const deficiencyCell = (d: FileDeficiency) => (
+    <div className="flex flex-wrap gap-1 max-w-md whitespace-normal">
+      {d.missing.map(i => <span key={i.id} className="px-1.5 py-0.5 rounded text-[11px] bg-red-50 text-red-700 border border-red-100">{i.label}</span>)}
+      {d.expired.map(i => <span key={i.id} className="px-1.5 py-0.5 rounded text-[11px] bg-orange-100 text-orange-800 border border-orange-200">{i.label} — expired</span>)}
+      {d.expiring.map(i => <span key={i.id} className="px-1.5 py-0.5 rounded text-[11px] bg-amber-50 text-amber-700 border border-amber-100">{i.label} — expiring</span>)}
+      {!isDeficient(d) && d.expiring.length === 0 && <span className="text-xs text-green-600 font-medium">Complete</span>}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-4">
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        {[
+          { label: "Active Files", value: assessed.length, cls: "text-gray-800" },
+          { label: "Deficient Files", value: deficientCount, cls: deficientCount > 0 ? "text-red-600" : "text-green-600" },
+          { label: "Expired Documents", value: expiredCount, cls: expiredCount > 0 ? "text-orange-600" : "text-gray-800" },
+          { label: `Expiring in ${EXPIRY_WARNING_DAYS} Days`, value: expiringCount, cls: expiringCount > 0 ? "text-amber-600" : "text-gray-800" },
+        ].map(c => (
+          <div key={c.label} className="bg-white rounded-xl border border-gray-200 shadow-sm p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">{c.label}</div>
+            <div className={`text-2xl font-bold ${c.cls}`}>{c.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Selected file checklist */}
+      {selected && (
+        <div className="bg-white rounded-xl border-2 shadow-sm" style={{ borderColor: "#4e1a74" }}>
+          <div className="px-5 py-3 border-b border-gray-100 flex items-start justify-between">
+            <div>
+              <h3 className="font-bold text-gray-800 flex items-center gap-2"><ClipboardCheck className="w-4 h-4" /> <span className="font-mono">{selected.serialNo}</span></h3>
+              <div className="text-xs text-gray-500">{selected.customerName} · {selected.accountNo} · {categoryLabel(selected.category)}</div>
+            </div>
+            <button onClick={() => setSelected(null)} className="p-1 text-gray-400 hover:text-gray-600"><X className="w-4 h-4" /></button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left whitespace-nowrap">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Document</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Status</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Executed On</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Valid Upto</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Remarks</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {selectedItems.map(i => {
+                  const d = drafts[i.id];
+                  if (!d) return null;
+                  const expired = i.expires && d.status === "Obtained" && d.expiryDate && d.expiryDate < toISODate(new Date());
+                  return (
+                    <tr key={i.id} className={expired ? "bg-orange-50/60" : ""}>
+                      <td className="px-4 py-2 text-gray-800">
+                        {i.label}
+                        {i.mandatory && <span className="ml-1.5 text-[10px] font-bold text-red-600">REQUIRED</span>}
+                      </td>
+                      <td className="px-4 py-2">
+                        <select value={d.status} disabled={!canEdit} onChange={e => updateDraft(i.id, { status: e.target.value as DocStatus })}
+                          className={`px-2 py-1 rounded-lg text-xs font-semibold border border-gray-200 ${STATUS_STYLE[d.status]}`}>
+                          {DOC_STATUSES.map(s => <option key={s}>{s}</option>)}
+                        </select>
+                      </td>
+                      <td className="px-4 py-2">
+                        <input type="date" value={d.executionDate} disabled={!canEdit} onChange={e => updateDraft(i.id, { executionDate: e.target.value })}
+                          className="px-2 py-1 border border-gray-200 rounded-lg text-xs disabled:bg-gray-50" />
+                      </td>
+                      <td className="px-4 py-2">
+                        {i.expires ? (
+                          <span className="flex items-center gap-1.5">
+                            <input type="date" value={d.expiryDate} disabled={!canEdit} onChange={e => updateDraft(i.id, { expiryDate: e.target.value })}
+                              className="px-2 py-1 border border-gray-200 rounded-lg text-xs disabled:bg-gray-50" />
+                            {expired && <span className="text-[10px] font-bold text-orange-700">EXPIRED</span>}
+                          </span>
+                        ) : <span className="text-xs text-gray-300">—</span>}
+                      </td>
+                      <td className="px-4 py-2">
+                        <input value={d.remarks} disabled={!canEdit} onChange={e => updateDraft(i.id, { remarks: e.target.value })}
+                          className="w-56 px-2 py-1 border border-gray-200 rounded-lg text-xs disabled:bg-gray-50" />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="px-5 py-3 border-t border-gray-100 flex justify-end gap-2">
+            <button onClick={() => setSelected(null)} className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-200 hover:bg-gray-50">Close</button>
+            {canEdit && (
+              <button onClick={handleSaveFile} className="px-4 py-2 rounded-lg text-sm font-medium text-white" style={{ backgroundColor: "#4e1a74" }}>
+                Save Documents
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Deficiency dashboard */}
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+        <div className="px-5 py-3 border-b border-gray-100 flex flex-col lg:flex-row gap-3 lg:items-center justify-between">
+          <div className="flex flex-wrap gap-2 items-center">
+            <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
+              {([["deficient", "Deficient"], ["expiring", "Expired / Expiring"], ["all", "All Files"]] as const).map(([id, label]) => (
+                <button key={id} onClick={() => setView(id)}
+                  className="px-3 py-1.5 rounded-md text-xs font-medium transition-colors"
+                  style={view === id ? { backgroundColor: "#4e1a74", color: "white" } : { color: "#6b7280" }}>
+                  {label}
+                </button>
+              ))}
+            </div>
+            <select value={categoryFilter} onChange={e => setCategoryFilter(e.target.value)} className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm bg-white">
+              <option value="All">All categories</option>
+              {categories.map(c => <option key={c.code} value={c.code}>{c.label}</option>)}
+            </select>
+            <div className="relative">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input value={search} onChange={e => setSearch(e.target.value)} placeholder="File, name, account, CIF..."
+                className="pl-9 pr-3 py-1.5 text-sm border border-gray-200 rounded-lg bg-white w-56" />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {canEdit && (
+              <button onClick={handleImportRlms} disabled={isImporting}
+                title="Copy passport and driving-licence validity from saved RLMS Supplementer applications"
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium border border-gray-200 hover:bg-gray-50 disabled:opacity-50">
+                <FileText className="w-3.5 h-3.5" /> {isImporting ? "Reading RLMS..." : "RLMS Validity"}
+              </button>
+            )}
+            <button onClick={exportDeficiencies} disabled={visible.length === 0}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium border border-gray-200 hover:bg-gray-50 disabled:opacity-50">
+              <Download className="w-3.5 h-3.5" /> Export
+            </button>
+            {canEdit && (
+              <button onClick={handleSendMemos} disabled={!visible.some(v => isDeficient(v.deficiency))}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium text-white disabled:opacity-50" style={{ backgroundColor: "#4e1a74" }}>
+                <Send className="w-3.5 h-3.5" /> Deficiency Memos
+              </button>
+            )}
+          </div>
+        </div>
+        {visible.length === 0 ? (
+          <div className="p-6 text-center text-gray-400 text-sm">
+            {view === "deficient" ? "No deficient files for the selected filters." : "No files for the selected filters."}
+          </div>
+        ) : (
+          <div className="overflow-x-auto max-h-[32rem]">
+            <table className="w-full text-sm text-left whitespace-nowrap">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">File No.</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Customer</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Account No.</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Complete</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Deficiencies</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {visible.slice(0, MAX_ROWS).map(({ file, deficiency }) => (
+                  <tr key={file.serialNo} className={selected?.serialNo === file.serialNo ? "bg-purple-50" : "hover:bg-gray-50"}>
+                    <td className="px-4 py-2 font-mono font-semibold text-gray-800">{file.serialNo}</td>
+                    <td className="px-4 py-2 text-gray-700">{file.customerName}</td>
+                    <td className="px-4 py-2 text-gray-500 text-xs">{file.accountNo}</td>
+                    <td className="px-4 py-2 text-xs">
+                      <div className="flex items-center gap-2">
+                        <div className="w-16 h-1.5 rounded-full bg-gray-100 overflow-hidden">
+                          <div className={`h-full ${isDeficient(deficiency) ? "bg-red-500" : "bg-green-500"}`}
+                            style={{ width: `${deficiency.total ? (deficiency.obtained / deficiency.total) * 100 : 0}%` }} />
+                        </div>
+                        <span className="text-gray-600">{deficiency.obtained}/{deficiency.total}</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-2">{deficiencyCell(deficiency)}</td>
+                    <td className="px-4 py-2 text-right">
+                      <button onClick={() => openFile(file)}
+                        className="inline-flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-medium border border-gray-200 hover:bg-gray-100">
+                        <ListChecks className="w-3.5 h-3.5" /> Checklist
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visible.length > MAX_ROWS && (
+              <div className="px-5 py-2 text-xs text-gray-500 bg-gray-50 border-t border-gray-100">
+                Showing the first {MAX_ROWS} of {visible.length} files — narrow the list with the filters or search.
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {deficientCount > 0 && view !== "deficient" && (
+        <div className="flex items-center gap-2 text-xs text-red-700">
+          <AlertTriangle className="w-3.5 h-3.5" /> {deficientCount} active file{deficientCount !== 1 ? "s have" : " has"} documents pending or expired.
+        </div>
+      )}
+
+      {/* Category checklists */}
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+        <div className="px-5 py-3 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-sm text-gray-800">Document Checklists</h3>
+            <p className="text-xs text-gray-500">Documents required in each file of a category. {!canConfigure && "Only the Branch Manager can change them."}</p>
+          </div>
+          <select value={setupCategory} onChange={e => changeSetupCategory(e.target.value)} className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm bg-white">
+            {categories.map(c => <option key={c.code} value={c.code}>{c.label}</option>)}
+          </select>
+        </div>
+        <div className="p-5 space-y-2">
+          {setupItems.map((it, idx) => (
+            <div key={it.id} className="flex items-center gap-3">
+              <input value={it.label} disabled={!canConfigure} onChange={e => updateItem(idx, { label: e.target.value })}
+                className="flex-1 px-3 py-1.5 border border-gray-200 rounded-lg text-sm disabled:bg-gray-50" />
+              <label className="flex items-center gap-1.5 text-xs text-gray-600">
+                <input type="checkbox" checked={it.mandatory} disabled={!canConfigure} onChange={e => updateItem(idx, { mandatory: e.target.checked })} /> Required
+              </label>
+              <label className="flex items-center gap-1.5 text-xs text-gray-600">
+                <input type="checkbox" checked={it.expires} disabled={!canConfigure} onChange={e => updateItem(idx, { expires: e.target.checked })} /> Has expiry
+              </label>
+              {canConfigure && (
+                <button onClick={() => setItemDrafts(setupItems.filter((_, i) => i !== idx))} className="p-1 text-gray-400 hover:text-red-600">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          {canConfigure && (
+            <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-gray-100">
+              <input value={newItemLabel} onChange={e => setNewItemLabel(e.target.value)} placeholder="Add document, e.g. Vehicle RC copy"
+                onKeyDown={e => { if (e.key === "Enter") handleAddItem(); }}
+                className="flex-1 min-w-[16rem] px-3 py-1.5 border border-gray-200 rounded-lg text-sm" />
+              <button onClick={handleAddItem} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium border border-gray-200 hover:bg-gray-50">
+                <Plus className="w-4 h-4" /> Add
+              </button>
+              {hasCustomChecklist && (
+                <button onClick={handleResetChecklist} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium border border-gray-200 hover:bg-gray-50">
+                  <RotateCcw className="w-4 h-4" /> Default
+                </button>
+              )}
+              <button onClick={handleSaveChecklist} disabled={!itemDrafts}
+                className="px-4 py-1.5 rounded-lg text-sm font-medium text-white disabled:opacity-50" style={{ backgroundColor: "#4e1a74" }}>
+                Save Checklist
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
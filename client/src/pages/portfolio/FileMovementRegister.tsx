@@ -0,0 +1,396 @@
+/**
+ * File Movement Register — "File Movement" tab of the Loan File Manager
+ *
+ * Check-out / check-in of physical loan files and their almirah / rack
+ * location. Scanning (or typing) a file number selects the file: a file that
+ * is out is checked straight back in; a file on the shelf opens the check-out
+ * form. Files past their expected return date are listed at the top.
+ * Storage and rules live in lib/fileMovement.ts.
+ */
+
+import { useState, useMemo, useRef } from "react";
+import * as XLSX from "xlsx";
+import { AlertTriangle, ArrowDownToLine, ArrowUpFromLine, Download, MapPin, ScanLine, Search, X } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { normaliseScan } from "@/lib/barcode";
+import {
+  FILE_PURPOSES,
+  FileLocation,
+  FileMovement,
+  checkInFile,
+  checkOutFile,
+  daysOverdue,
+  formatLocation,
+  loadFileMovements,
+  openMovement,
+  overdueMovements,
+  setFileLocation,
+} from "@/lib/fileMovement";
+import { addDaysISO } from "@/lib/legalProceedings";
+import { toISODate } from "@/lib/portfolioTransform";
+
+interface FileRecord {
+  serialNo: string;
+  accountNo: string;
+  customerName: string;
+  category: string;
+  status: "ACTIVE" | "CLOSED";
+}
+
+interface Props {
+  accounts: FileRecord[];
+  movements: FileMovement[];
+  locations: FileLocation[];
+  categoryLabel: (code: string) => string;
+  onMovementsChange: (movements: FileMovement[]) => void;
+  onLocationsChange: (locations: FileLocation[]) => void;
+}
+
+function fmtDateTime(iso: string | undefined): string {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleString("en-IN", { day: "2-digit", month: "2-digit", year: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+function fmtDate(iso: string): string {
+  if (!iso) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}/${m}/${y}`;
+}
+
+export default function FileMovementRegister({ accounts, movements, locations, categoryLabel, onMovementsChange, onLocationsChange }: Props) {
+  const { currentUser, can } = useAuth();
+  const user = currentUser?.username ?? "Guest";
+  const canEdit = can("records.create");
+
+  const [scanText, setScanText] = useState("");
+  const [selected, setSelected] = useState<FileRecord | null>(null);
+  const [takenBy, setTakenBy] = useState("");
+  const [purpose, setPurpose] = useState(FILE_PURPOSES[0]);
+  const [expectedReturn, setExpectedReturn] = useState(addDaysISO(toISODate(new Date()), 7));
+  const [remarks, setRemarks] = useState("");
+  const [almirah, setAlmirah] = useState("");
+  const [rack, setRack] = useState("");
+  const [historySearch, setHistorySearch] = useState("");
+  const scanRef = useRef<HTMLInputElement>(null);
+
+  const bySerial = useMemo(() => new Map(accounts.map(a => [a.serialNo.toUpperCase(), a])), [accounts]);
+  const locationOf = useMemo(() => new Map(locations.map(l => [l.id, l])), [locations]);
+  const filesOut = movements.filter(m => !m.returnedAt).sort((a, b) => a.expectedReturn.localeCompare(b.expectedReturn));
+  const overdue = overdueMovements(movements);
+
+  const history = useMemo(() => {
+    const q = historySearch.trim().toLowerCase();
+    return movements
+      .filter(m => !q || m.serialNo.toLowerCase().includes(q) || m.takenBy.toLowerCase().includes(q) ||
+        m.customerName.toLowerCase().includes(q) || m.accountNo.includes(q))
+      .slice(0, 200);
+  }, [movements, historySearch]);
+
+  const selectFile = (file: FileRecord) => {
+    const loc = locationOf.get(file.serialNo);
+    setSelected(file);
+    setTakenBy("");
+    setPurpose(FILE_PURPOSES[0]);
+    setExpectedReturn(addDaysISO(toISODate(new Date()), 7));
+    setRemarks("");
+    setAlmirah(loc?.almirah ?? "");
+    setRack(loc?.rack ?? "");
+  };
+
+  const refocusScan = () => setTimeout(() => scanRef.current?.focus(), 0);
+
+  // ── Scan / lookup ───────────────────────────────────────────────────────────
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const serial = normaliseScan(scanText);
+    setScanText("");
+    if (!serial) return;
+    const file = bySerial.get(serial);
+    if (!file) {
+      toast.error(`No file ${serial} in the register`);
+      return;
+    }
+    if (openMovement(movements, file.serialNo) && canEdit) {
+      try {
+        onMovementsChange(await checkInFile(file.serialNo, user));
+        const loc = formatLocation(locationOf.get(file.serialNo));
+        toast.success(`${file.serialNo} checked in${loc ? ` — return to ${loc}` : ""}`);
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : String(err));
+        onMovementsChange(await loadFileMovements());
+      }
+      setSelected(null);
+      refocusScan();
+      return;
+    }
+    selectFile(file);
+  };
+
+  const handleCheckOut = async () => {
+    if (!selected) return;
+    try {
+      onMovementsChange(await checkOutFile(selected, { takenBy, purpose, expectedReturn, remarks }, user));
+      toast.success(`${selected.serialNo} issued to ${takenBy.trim()}`);
+      setSelected(null);
+      refocusScan();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+      // Another tab or PC may have issued or returned the file meanwhile
+      onMovementsChange(await loadFileMovements());
+    }
+  };
+
+  const handleCheckIn = async (serialNo: string) => {
+    try {
+      onMovementsChange(await checkInFile(serialNo, user));
+      toast.success(`${serialNo} checked in`);
+      if (selected?.serialNo === serialNo) setSelected(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+      onMovementsChange(await loadFileMovements());
+    }
+  };
+
+  const handleSaveLocation = async () => {
+    if (!selected) return;
+    try {
+      onLocationsChange(await setFileLocation(selected.serialNo, almirah, rack));
+      toast.success(`Location of ${selected.serialNo} saved`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const exportRegister = () => {
+    const rows = movements.map(m => ({
+      "File No.": m.serialNo,
+      "Account No.": m.accountNo,
+      "Customer Name": m.customerName,
+      "Taken By": m.takenBy,
+      "Purpose": m.purpose,
+      "Issued By": m.issuedBy,
+      "Out On": fmtDateTime(m.outAt),
+      "Expected Return": fmtDate(m.expectedReturn),
+      "Returned On": m.returnedAt ? fmtDateTime(m.returnedAt) : "NOT RETURNED",
+      "Received By": m.receivedBy ?? "",
+      "Days Overdue": daysOverdue(m) || "",
+      "Location": formatLocation(locationOf.get(m.serialNo)),
+      "Remarks": m.remarks,
+    }));
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), "File Movements");
+    XLSX.writeFile(wb, `Loan_File_Movements_${toISODate(new Date())}.xlsx`);
+  };
+
+  const selectedOut = selected ? openMovement(movements, selected.serialNo) : undefined;
+
+  return (
+    <div className="flex flex-col gap-4">
+      {/* Overdue alert */}
+      {overdue.length > 0 && (
+        <div className="p-4 rounded-xl border border-red-200 bg-red-50">
+          <div className="flex items-center gap-2 text-red-800 font-semibold text-sm mb-2">
+            <AlertTriangle className="w-4 h-4" />
+            {overdue.length} file{overdue.length !== 1 ? "s" : ""} overdue for return
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {overdue.slice(0, 12).map(m => (
+              <span key={m.id} className="px-2 py-1 rounded-lg bg-white border border-red-200 text-xs text-red-700">
+                <span className="font-mono font-semibold">{m.serialNo}</span> · {m.takenBy} · {daysOverdue(m)}d
+              </span>
+            ))}
+            {overdue.length > 12 && <span className="text-xs text-red-600 self-center">+{overdue.length - 12} more</span>}
+          </div>
+        </div>
+      )}
+
+      <div className="grid lg:grid-cols-2 gap-4">
+        {/* Scan */}
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-5">
+          <h3 className="font-bold text-gray-800 flex items-center gap-2"><ScanLine className="w-4 h-4" /> Scan File</h3>
+          <p className="text-xs text-gray-500 mt-0.5 mb-3">
+            Scan the barcode on the file's front page or type the file number. A file that is out is checked back in; a file on the shelf opens the check-out form.
+          </p>
+          <form onSubmit={handleScan} className="flex gap-2">
+            <input
+              ref={scanRef}
+              autoFocus
+              value={scanText}
+              onChange={e => setScanText(e.target.value)}
+              placeholder="e.g. PER0123"
+              className="flex-1 px-3 py-2 border border-gray-200 rounded-lg text-sm font-mono uppercase focus:outline-none focus:ring-2"
+              style={{ "--tw-ring-color": "#4e1a74" } as React.CSSProperties}
+            />
+            <button type="submit" className="px-4 py-2 rounded-lg text-sm font-medium text-white" style={{ backgroundColor: "#4e1a74" }}>
+              Find
+            </button>
+          </form>
+          {!canEdit && <p className="text-xs text-gray-400 mt-2">Sign in to issue or receive files.</p>}
+        </div>
+
+        {/* Selected file */}
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-5">
+          {!selected ? (
+            <div className="h-full flex items-center justify-center text-sm text-gray-400 py-6">No file selected</div>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="font-mono font-bold text-lg text-gray-800">{selected.serialNo}</div>
+                  <div className="text-xs text-gray-500">{selected.customerName} · {selected.accountNo} · {categoryLabel(selected.category)}</div>
+                  {selected.status === "CLOSED" && <span className="text-xs font-semibold text-red-600">Account closed</span>}
+                </div>
+                <button onClick={() => setSelected(null)} className="p-1 text-gray-400 hover:text-gray-600"><X className="w-4 h-4" /></button>
+              </div>
+
+              {selectedOut ? (
+                <div className="p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                  Out with <strong>{selectedOut.takenBy}</strong> since {fmtDateTime(selectedOut.outAt)} ({selectedOut.purpose}), due {fmtDate(selectedOut.expectedReturn)}.
+                  {canEdit && (
+                    <button onClick={() => handleCheckIn(selectedOut.serialNo)} className="ml-2 inline-flex items-center gap-1 px-3 py-1 rounded-lg text-xs font-medium text-white bg-green-600 hover:bg-green-700">
+                      <ArrowDownToLine className="w-3.5 h-3.5" /> Check In
+                    </button>
+                  )}
+                </div>
+              ) : canEdit && (
+                <div className="grid grid-cols-2 gap-2">
+                  <input value={takenBy} onChange={e => setTakenBy(e.target.value)} placeholder="Taken by (name / PF No.)"
+                    className="col-span-2 px-3 py-2 border border-gray-200 rounded-lg text-sm" />
+                  <select value={purpose} onChange={e => setPurpose(e.target.value)} className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white">
+                    {FILE_PURPOSES.map(p => <option key={p}>{p}</option>)}
+                  </select>
+                  <input type="date" value={expectedReturn} onChange={e => setExpectedReturn(e.target.value)} title="Expected return"
+                    className="px-3 py-2 border border-gray-200 rounded-lg text-sm" />
+                  <input value={remarks} onChange={e => setRemarks(e.target.value)} placeholder="Remarks (optional)"
+                    className="col-span-2 px-3 py-2 border border-gray-200 rounded-lg text-sm" />
+                  <button onClick={handleCheckOut} className="col-span-2 flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white" style={{ backgroundColor: "#4e1a74" }}>
+                    <ArrowUpFromLine className="w-4 h-4" /> Check Out
+                  </button>
+                </div>
+              )}
+
+              <div className="pt-3 border-t border-gray-100">
+                <div className="text-xs font-semibold text-gray-500 uppercase mb-2 flex items-center gap-1"><MapPin className="w-3.5 h-3.5" /> Shelf Location</div>
+                <div className="flex gap-2">
+                  <input value={almirah} onChange={e => setAlmirah(e.target.value)} disabled={!canEdit} placeholder="Almirah"
+                    className="w-28 px-3 py-2 border border-gray-200 rounded-lg text-sm disabled:bg-gray-50" />
+                  <input value={rack} onChange={e => setRack(e.target.value)} disabled={!canEdit} placeholder="Rack / Shelf"
+                    className="w-28 px-3 py-2 border border-gray-200 rounded-lg text-sm disabled:bg-gray-50" />
+                  {canEdit && (
+                    <button onClick={handleSaveLocation} className="px-3 py-2 rounded-lg text-sm font-medium border border-gray-200 hover:bg-gray-50">Save</button>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Files out */}
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+        <div className="px-5 py-3 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="font-semibold text-sm text-gray-800">Files Out ({filesOut.length})</h3>
+          <button onClick={exportRegister} disabled={movements.length === 0}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium text-white disabled:opacity-50" style={{ backgroundColor: "#4e1a74" }}>
+            <Download className="w-3.5 h-3.5" /> Export Register
+          </button>
+        </div>
+        {filesOut.length === 0 ? (
+          <div className="p-6 text-center text-gray-400 text-sm">All files are in their place.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left whitespace-nowrap">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">File No.</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Customer</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Taken By</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Purpose</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Out Since</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Due</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Location</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {filesOut.map(m => {
+                  const late = daysOverdue(m);
+                  return (
+                    <tr key={m.id} className={late > 0 ? "bg-red-50/60" : "hover:bg-gray-50"}>
+                      <td className="px-4 py-2 font-mono font-semibold text-gray-800">{m.serialNo}</td>
+                      <td className="px-4 py-2 text-gray-700">{m.customerName}</td>
+                      <td className="px-4 py-2 text-gray-700">{m.takenBy}</td>
+                      <td className="px-4 py-2 text-gray-500 text-xs">{m.purpose}</td>
+                      <td className="px-4 py-2 text-gray-500 text-xs">{fmtDateTime(m.outAt)}</td>
+                      <td className="px-4 py-2 text-xs">
+                        <span className={late > 0 ? "text-red-700 font-semibold" : "text-gray-600"}>
+                          {fmtDate(m.expectedReturn)}{late > 0 && ` (${late}d overdue)`}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-gray-500 text-xs">{formatLocation(locationOf.get(m.serialNo)) || "—"}</td>
+                      <td className="px-4 py-2 text-right">
+                        {canEdit && (
+                          <button onClick={() => handleCheckIn(m.serialNo)}
+                            className="inline-flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-medium bg-green-50 text-green-700 border border-green-200 hover:bg-green-100">
+                            <ArrowDownToLine className="w-3.5 h-3.5" /> Check In
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* History */}
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+        <div className="px-5 py-3 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="font-semibold text-sm text-gray-800">Movement History</h3>
+          <div className="relative">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input value={historySearch} onChange={e => setHistorySearch(e.target.value)} placeholder="File, name, account..."
+              className="pl-9 pr-3 py-1.5 text-sm border border-gray-200 rounded-lg bg-white w-56" />
+          </div>
+        </div>
+        {history.length === 0 ? (
+          <div className="p-6 text-center text-gray-400 text-sm">No file movements recorded yet.</div>
+        ) : (
+          <div className="overflow-x-auto max-h-96">
+            <table className="w-full text-sm text-left whitespace-nowrap">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">File No.</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Taken By</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Purpose</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Issued</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Returned</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Remarks</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {history.map(m => (
+                  <tr key={m.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-2 font-mono font-semibold text-gray-800">{m.serialNo}</td>
+                    <td className="px-4 py-2 text-gray-700">{m.takenBy}</td>
+                    <td className="px-4 py-2 text-gray-500 text-xs">{m.purpose}</td>
+                    <td className="px-4 py-2 text-gray-500 text-xs">{fmtDateTime(m.outAt)} · {m.issuedBy}</td>
+                    <td className="px-4 py-2 text-xs">
+                      {m.returnedAt
+                        ? <span className="text-gray-500">{fmtDateTime(m.returnedAt)} · {m.receivedBy}</span>
+                        : <span className="text-amber-700 font-semibold">Out</span>}
+                    </td>
+                    <td className="px-4 py-2 text-gray-500 text-xs">{m.remarks}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,392 @@
+/*
+ * GenericLoanFrontPage.tsx
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Renders a pre-filled A4 front-page cover sheet for loan files in categories
+ * defined in Setup (home, auto, education, MSME …) that have no bespoke
+ * template. Uses the category's label, prefix and colour; data is fetched from
+ * LOAN_DATA / CCOD_DATA in IndexedDB. Print uses an isolated iframe (same
+ * approach as the other front pages).
+ *
+ * Editable fields:
+ *   - Scheme / Purpose of Loan
+ *   - Security / Collateral
+ *   - Guarantor(s)
+ *   - Remarks
+ */
+
+import { useEffect, useState, useRef } from "react";
+import { X, Printer, Loader2 } from "lucide-react";
+import { getAllRecords, STORES } from "@/lib/portfolioDb";
+import { code39Svg } from "@/lib/barcode";
+import { sbiLogoUrl } from "@/lib/assets";
+import { LoanFileCategory, categoryStyle } from "@/lib/loanFileCategories";
+
+interface LoanFileRecord {
+  serialNo: string;
+  accountNo: string;
+  accountDesc: string;
+  cifNo: string;
+  customerName: string;
+  limit: number | string;
+  sanctionDate: string;
+  status: string;
+  category: string;
+}
+
+interface LoanDataRecord {
+  LoanKey: string;
+  CIF: string;
+  CUSTNAME: string;
+  ACCTDESC: string;
+  LIMIT: number;
+  SANCTDT?: string;
+  SANC_RENDT?: string;
+  INSTALAMT?: number;
+  INTRATE: number;
+  Shadow_Add1?: string;
+  Shadow_Add2?: string;
+  Shadow_Add3?: string;
+  Shadow_Add4?: string;
+  Shadow_PostCode?: string;
+  Shadow_MobileNo?: string;
+  Maturity_Dt?: string;
+  [key: string]: unknown;
+}
+
+interface Props {
+  record: LoanFileRecord;
+  category: LoanFileCategory;
+  onClose: () => void;
+}
+
+function formatDate(dateStr: string): string {
+  if (!dateStr) return "—";
+  const d = new Date(dateStr);
+  if (isNaN(d.getTime())) return dateStr;
+  return d.toLocaleDateString("en-IN", { day: "2-digit", month: "2-digit", year: "numeric" });
+}
+
+function formatCurrency(amount: number): string {
+  if (!amount) return "—";
+  return new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 2 }).format(amount);
+}
+
+function buildAddress(loan: LoanDataRecord): string {
+  const parts = [loan.Shadow_Add1, loan.Shadow_Add2, loan.Shadow_Add3, loan.Shadow_Add4, loan.Shadow_PostCode]
+    .map(p => (p || "").trim()).filter(Boolean);
+  return parts.join(", ") || "—";
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+const CHECKLIST_ROWS: { left: string; right: string }[] = [
+  { left: "Loan Application Form", right: "Sanction Letter" },
+  { left: "KYC Documents", right: "Loan Agreement / Arrangement Letter" },
+  { left: "UID / Voter ID / Passport", right: "Security / Hypothecation Documents" },
+  { left: "Photograph (Passport Size)", right: "Guarantee Agreement" },
+  { left: "PAN Card (Self-attested)", right: "Insurance Policy" },
+  { left: "Address Proof", right: "CIBIL / Credit Report" },
+  { left: "Income Proof", right: "NeSL Disclosure Consent" },
+  { left: "Register Entry", right: "Control Return" },
+];
+
+function buildPrintHTML(params: {
+  serialNo: string;
+  title: string;
+  prefix: string;
+  accent: string;
+  details: [string, string][];
+  extra: [string, string][];
+  isClosed?: boolean;
+}): string {
+  const { serialNo, title, prefix, accent, details, extra, isClosed = false } = params;
+
+  const blank = (minW = "60mm") => `<span style="border-bottom:1px solid #999;display:inline-block;min-width:${minW};">&nbsp;</span>`;
+  const rowsHtml = (rows: [string, string][], shade: string) => rows.map(([label, value]) => `
+    <tr style="border-bottom:0.5px solid #e0e0e0;">
+      <td style="padding:1.8mm 3mm;font-weight:600;color:#333;width:46mm;vertical-align:top;white-space:nowrap;border-right:0.5px solid #e0e0e0;background:${shade};">${label}</td>
+      <td style="padding:1.8mm 3mm;color:#111;vertical-align:top;white-space:pre-wrap;">${value ? escapeHtml(value) : blank()}</td>
+    </tr>`).join("");
+
+  const checklistHtml = CHECKLIST_ROWS.map((row, i) => `
+    <tr style="border-bottom:${i < CHECKLIST_ROWS.length - 1 ? "0.5px solid #ddd" : "none"};">
+      <td style="width:50%;padding:1.5mm 3mm;border-right:0.5px solid #ddd;">
+        <span style="display:inline-block;width:3mm;height:3mm;border:1px solid #333;margin-right:2mm;vertical-align:middle;"></span>${row.left}
+      </td>
+      <td style="width:50%;padding:1.5mm 3mm;">
+        <span style="display:inline-block;width:3mm;height:3mm;border:1px solid #333;margin-right:2mm;vertical-align:middle;"></span>${row.right}
+      </td>
+    </tr>`).join("");
+
+  const today = new Date().toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8"/>
+  <style>
+    *{margin:0;padding:0;box-sizing:border-box;}
+    body{font-family:Arial,Helvetica,sans-serif;font-size:9pt;color:#000;background:white;}
+    @page{size:A4 portrait;margin:0;}
+    .page{width:210mm;min-height:297mm;padding:10mm 13mm;position:relative;overflow:hidden;}
+    table{border-collapse:collapse;width:100%;}
+    .closed-wm{position:fixed;top:0;left:0;width:210mm;height:297mm;pointer-events:none;z-index:999;}
+    .closed-wm-text{position:absolute;top:50%;left:50%;transform:translate(-50%,-50%) rotate(-35deg);font-size:56pt;font-weight:900;letter-spacing:10px;color:rgba(180,0,0,0.20);white-space:nowrap;font-family:Arial,Helvetica,sans-serif;text-transform:uppercase;border-top:3.5px solid rgba(180,0,0,0.25);border-bottom:3.5px solid rgba(180,0,0,0.25);padding:5mm 12mm;line-height:1;}
+  </style>
+</head>
+<body>
+${isClosed ? '<div class="closed-wm"><span class="closed-wm-text">CLOSED</span></div>' : ''}
+<div class="page">
+  <div style="border-bottom:3px solid ${accent};margin-bottom:4mm;padding-bottom:3mm;">
+    <div style="display:flex;align-items:center;gap:8mm;">
+      <img src="${sbiLogoUrl}" style="width:16mm;height:16mm;object-fit:contain;flex-shrink:0;" alt="SBI"/>
+      <div style="flex:1;">
+        <div style="font-size:13pt;font-weight:bold;color:#003399;letter-spacing:0.5px;">STATE BANK OF INDIA</div>
+        <div style="font-size:8.5pt;color:#555;margin-top:0.5mm;">${escapeHtml(title)} — Loan File</div>
+      </div>
+      <div style="text-align:right;">
+        <div style="font-size:17pt;font-weight:bold;color:${accent};border:2px solid ${accent};padding:1.5mm 4mm;border-radius:4px;letter-spacing:1px;">${serialNo}</div>
+        <div style="font-size:7pt;color:#888;margin-top:0.5mm;">${prefix} File No.</div>
+        <div style="margin-top:1mm;">${code39Svg(serialNo)}</div>
+      </div>
+    </div>
+  </div>
+
+  <table style="margin-bottom:3mm;font-size:8pt;border:0.5px solid #e0e0e0;">
+    <tbody>${rowsHtml(details, "#f8f9fc")}</tbody>
+  </table>
+
+  <div style="border:1.5px solid ${accent};border-radius:3px;overflow:hidden;margin-bottom:3mm;">
+    <div style="background:${accent};color:white;padding:1.5mm 4mm;font-size:8.5pt;font-weight:bold;letter-spacing:0.3px;">Loan Particulars</div>
+    <table style="font-size:8pt;border:0.5px solid #e0e0e0;"><tbody>${rowsHtml(extra, "#fafafa")}</tbody></table>
+  </div>
+
+  <div style="border:1.5px solid #003399;border-radius:3px;overflow:hidden;margin-bottom:3mm;">
+    <div style="background:#003399;color:white;padding:1.5mm 4mm;font-size:8.5pt;font-weight:bold;letter-spacing:0.3px;">Documentation Checklist</div>
+    <table style="font-size:7.5pt;"><tbody>${checklistHtml}</tbody></table>
+  </div>
+
+  <div style="margin-top:3mm;font-size:7pt;color:#888;text-align:center;border-top:0.5px solid #ddd;padding-top:2mm;">
+    SBI Branch Portfolio Dashboard · Generated ${today}
+  </div>
+</div>
+</body>
+</html>`;
+}
+
+export default function GenericLoanFrontPage({ record, category, onClose }: Props) {
+  const [loanData, setLoanData] = useState<LoanDataRecord | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [printing, setPrinting] = useState(false);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+
+  const [purpose, setPurpose] = useState("");
+  const [security, setSecurity] = useState("");
+  const [guarantors, setGuarantors] = useState("");
+  const [remarks, setRemarks] = useState("");
+
+  const accent = categoryStyle(category).hex;
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [loans, ccod] = await Promise.all([
+          getAllRecords(STORES.LOAN_DATA),
+          getAllRecords(STORES.CCOD_DATA),
+        ]);
+        const target = record.accountNo.replace(/^0+/, "");
+        const match = ([...loans, ...ccod] as LoanDataRecord[]).find(
+          l => l.LoanKey === record.accountNo || String(l.LoanKey || "").replace(/^0+/, "") === target
+        );
+        setLoanData(match || null);
+      } catch (err) {
+        console.error("Failed to load data:", err);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [record.accountNo]);
+
+  const sanctionAmt = loanData?.LIMIT || (typeof record.limit === "string" ? parseFloat(record.limit) || 0 : record.limit) || 0;
+  const mobile = loanData?.Shadow_MobileNo
+    ? `+91 - ${loanData.Shadow_MobileNo.replace(/^\+91[-\s]?/, "")}`
+    : "";
+  const details: [string, string][] = [
+    ["Name of Customer", loanData?.CUSTNAME || record.customerName || ""],
+    ["CIF Number", loanData?.CIF || record.cifNo || ""],
+    ["Loan A/c. Number", loanData?.LoanKey || record.accountNo || ""],
+    ["Loan A/c. Type", loanData?.ACCTDESC || record.accountDesc || ""],
+    ["Sanction Amount / Limit", formatCurrency(sanctionAmt)],
+    ["EMI Amount", loanData?.INSTALAMT ? formatCurrency(loanData.INSTALAMT) : ""],
+    ["Rate of Interest", loanData?.INTRATE ? `${loanData.INTRATE.toFixed(2)}% p.a.` : ""],
+    ["Sanction Date", formatDate(loanData?.SANCTDT || loanData?.SANC_RENDT || record.sanctionDate || "")],
+    ["Maturity Date", loanData?.Maturity_Dt ? formatDate(loanData.Maturity_Dt) : ""],
+    ["Registered Address", loanData ? buildAddress(loanData) : ""],
+    ["Mobile Number", mobile],
+  ];
+  const extra: [string, string][] = [
+    ["Scheme / Purpose of Loan", purpose],
+    ["Security / Collateral", security],
+    ["Guarantor(s)", guarantors],
+    ["Remarks", remarks],
+  ];
+
+  const handlePrint = () => {
+    setPrinting(true);
+    const html = buildPrintHTML({
+      serialNo: record.serialNo,
+      title: category.label,
+      prefix: category.prefix,
+      accent,
+      details,
+      extra,
+      isClosed: record.status === "CLOSED",
+    });
+
+    const iframe = iframeRef.current;
+    if (!iframe) { setPrinting(false); return; }
+    iframe.style.display = "block";
+    const doc = iframe.contentDocument || iframe.contentWindow?.document;
+    if (!doc) { setPrinting(false); return; }
+    doc.open(); doc.write(html); doc.close();
+    setTimeout(() => {
+      iframe.contentWindow?.focus();
+      iframe.contentWindow?.print();
+      iframe.style.display = "none";
+      setPrinting(false);
+    }, 600);
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: "100%", border: "none", borderBottom: `1.5px solid ${accent}`,
+    outline: "none", fontSize: "8.5pt", fontFamily: "Arial, Helvetica, sans-serif",
+    color: "#111", background: "transparent", padding: "0.5mm 0",
+  };
+  const setters: Record<string, (v: string) => void> = {
+    "Scheme / Purpose of Loan": setPurpose,
+    "Security / Collateral": setSecurity,
+    "Guarantor(s)": setGuarantors,
+    "Remarks": setRemarks,
+  };
+
+  return (
+    <>
+      <iframe ref={iframeRef}
+        style={{ display: "none", position: "fixed", top: 0, left: 0, width: "210mm", height: "297mm", border: "none", zIndex: 99999 }}
+        title="print-frame" />
+
+      <div className="fixed inset-0 z-50 bg-black/70 flex flex-col items-center justify-start overflow-auto py-6 px-4">
+        {/* Toolbar */}
+        <div className="w-full max-w-[220mm] flex items-center justify-between mb-4 flex-shrink-0">
+          <div className="text-white font-semibold text-lg">
+            {category.label} Front Page — <span className="font-mono text-purple-200">{record.serialNo}</span>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={handlePrint} disabled={loading || printing}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-white text-sm font-semibold hover:opacity-90 transition-colors disabled:opacity-50"
+              style={{ backgroundColor: accent }}>
+              {printing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Printer className="w-4 h-4" />}
+              {printing ? "Preparing…" : "Print / Save PDF"}
+            </button>
+            <button onClick={onClose}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/20 text-white text-sm hover:bg-white/30 transition-colors">
+              <X className="w-4 h-4" /> Close
+            </button>
+          </div>
+        </div>
+
+        {/* A4 Preview */}
+        {loading ? (
+          <div className="flex items-center justify-center bg-white rounded shadow-2xl" style={{ width: "210mm", height: "297mm" }}>
+            <Loader2 className="w-8 h-8 animate-spin text-purple-600" />
+            <span className="ml-3 text-gray-500">Loading data…</span>
+          </div>
+        ) : (
+          <div className="bg-white shadow-2xl rounded flex-shrink-0"
+            style={{ width: "210mm", minHeight: "297mm", padding: "10mm 13mm", fontFamily: "Arial, Helvetica, sans-serif", fontSize: "9pt", color: "#000", boxSizing: "border-box" }}>
+
+            {/* Header */}
+            <div style={{ borderBottom: `3px solid ${accent}`, marginBottom: "4mm", paddingBottom: "3mm" }}>
+              <div style={{ display: "flex", alignItems: "center", gap: "8mm" }}>
+                <img src={sbiLogoUrl} style={{ width: "16mm", height: "16mm", objectFit: "contain", flexShrink: 0 }} alt="SBI" />
+                <div style={{ flex: 1 }}>
+                  <div style={{ fontSize: "13pt", fontWeight: "bold", color: "#003399" }}>STATE BANK OF INDIA</div>
+                  <div style={{ fontSize: "8.5pt", color: "#555", marginTop: "0.5mm" }}>{category.label} — Loan File</div>
+                </div>
+                <div style={{ textAlign: "right" }}>
+                  <div style={{ fontSize: "17pt", fontWeight: "bold", color: accent, border: `2px solid ${accent}`, padding: "1.5mm 4mm", borderRadius: "4px", letterSpacing: "1px" }}>
+                    {record.serialNo}
+                  </div>
+                  <div style={{ fontSize: "7pt", color: "#888", marginTop: "0.5mm" }}>{category.prefix} File No.</div>
+                  <div style={{ marginTop: "1mm" }} dangerouslySetInnerHTML={{ __html: code39Svg(record.serialNo) }} />
+                </div>
+              </div>
+            </div>
+
+            {/* Customer Details */}
+            <table style={{ width: "100%", borderCollapse: "collapse", marginBottom: "3mm", fontSize: "8pt", border: "0.5px solid #e0e0e0" }}>
+              <tbody>
+                {details.map(([label, value], i) => (
+                  <tr key={i} style={{ borderBottom: "0.5px solid #e0e0e0" }}>
+                    <td style={{ padding: "1.8mm 3mm", fontWeight: 600, color: "#333", width: "46mm", verticalAlign: "top", whiteSpace: "nowrap", borderRight: "0.5px solid #e0e0e0", background: "#f8f9fc" }}>{label}</td>
+                    <td style={{ padding: "1.8mm 3mm", color: "#111", verticalAlign: "top" }}>
+                      {value || <span style={{ borderBottom: "1px solid #999", display: "inline-block", minWidth: "60mm" }}>&nbsp;</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {/* Loan Particulars */}
+            <div style={{ border: `1.5px solid ${accent}`, borderRadius: "3px", overflow: "hidden", marginBottom: "3mm" }}>
+              <div style={{ background: accent, color: "white", padding: "1.5mm 4mm", fontSize: "8.5pt", fontWeight: "bold" }}>Loan Particulars</div>
+              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "8pt", border: "0.5px solid #e0e0e0" }}>
+                <tbody>
+                  {extra.map(([label, value]) => (
+                    <tr key={label} style={{ borderBottom: "0.5px solid #e0e0e0" }}>
+                      <td style={{ padding: "1.8mm 3mm", fontWeight: 600, color: "#333", width: "46mm", verticalAlign: "top", whiteSpace: "nowrap", borderRight: "0.5px solid #e0e0e0", background: "#fafafa" }}>
+                        {label}
+                      </td>
+                      <td style={{ padding: "1mm 3mm", verticalAlign: "top" }}>
+                        <input type="text" value={value} onChange={e => setters[label](e.target.value)}
+                          placeholder={`Enter ${label.toLowerCase()}…`} style={inputStyle} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Documentation Checklist */}
+            <div style={{ border: "1.5px solid #003399", borderRadius: "3px", overflow: "hidden", marginBottom: "3mm" }}>
+              <div style={{ background: "#003399", color: "white", padding: "1.5mm 4mm", fontSize: "8.5pt", fontWeight: "bold" }}>Documentation Checklist</div>
+              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "7.5pt" }}>
+                <tbody>
+                  {CHECKLIST_ROWS.map((row, i) => (
+                    <tr key={i} style={{ borderBottom: i < CHECKLIST_ROWS.length - 1 ? "0.5px solid #ddd" : "none" }}>
+                      <td style={{ width: "50%", padding: "1.5mm 3mm", borderRight: "0.5px solid #ddd" }}>
+                        <span style={{ display: "inline-block", width: "3mm", height: "3mm", border: "1px solid #333", marginRight: "2mm", verticalAlign: "middle" }} />
+                        {row.left}
+                      </td>
+                      <td style={{ width: "50%", padding: "1.5mm 3mm" }}>
+                        <span style={{ display: "inline-block", width: "3mm", height: "3mm", border: "1px solid #333", marginRight: "2mm", verticalAlign: "middle" }} />
+                        {row.right}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Footer */}
+            <div style={{ marginTop: "3mm", fontSize: "7pt", color: "#888", textAlign: "center", borderTop: "0.5px solid #ddd", paddingTop: "2mm" }}>
+              SBI Branch Portfolio Dashboard · Generated {new Date().toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" })}
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
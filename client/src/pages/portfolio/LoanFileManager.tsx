@@ -2,23 +2,41 @@
  * Loan File Number Manager
  * 
  * Design: SBI Dashboard style — consistent with Branch Portfolio Dashboard
- * Manages loan file serial numbers per category (PER, PEN, GOLD, SOLAR)
+ * Manages loan file serial numbers per category (PER, PEN, GOLD, SOLAR and any
+ * categories defined in Setup — see lib/loanFileCategories.ts)
  * Data persisted in IndexedDB. One-time setup: PRODUCT_LIST + historical CSVs.
  * Recurring: Upload Loan Balance file to sync active/closed status and assign new serials.
+ * File Movement tab: check-out / check-in and shelf location of the physical files
+ * (see FileMovementRegister.tsx).
+ * Documents tab: document checklist and deficiencies of every active file
+ * (see FileDocuments.tsx).
  */
 
 import { useState, useEffect, useRef } from "react";
 import {
   Upload, Settings, Download, CheckCircle, AlertCircle,
   FileText, Plus, Trash2, ChevronDown, ChevronUp, ChevronLeft, ChevronRight,
-  RefreshCw, Database, X, Search, RotateCcw, ShieldAlert, Printer
+  RefreshCw, Database, X, Search, RotateCcw, ShieldAlert, Printer, ArrowRightLeft, ClipboardCheck
 } from "lucide-react";
 import { loadData, saveData } from "@/lib/db";
 import { getAllRecords, getSetting, STORES } from "@/lib/portfolioDb";
+import { parseCSV } from "@/lib/csvParser";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  CategoryCode, CategoryColor, COLOR_OPTIONS, DEFAULT_CATEGORIES, LoanFileCategory,
+  categoryForRow, categoryStyle, loadCategories, saveCategories, validateCategories,
+} from "@/lib/loanFileCategories";
 import XpressCreditFrontPage from "./XpressCreditFrontPage";
 import GoldLoanFrontPage from "./GoldLoanFrontPage";
 import PensionLoanFrontPage from "./PensionLoanFrontPage";
 import PMSuryaGharFrontPage from "./PMSuryaGharFrontPage";
+import GenericLoanFrontPage from "./GenericLoanFrontPage";
+import FileMovementRegister from "./FileMovementRegister";
+import FileDocuments from "./FileDocuments";
+import {
+  FileLocation, FileMovement, formatLocation, loadFileLocations, loadFileMovements, openMovement, overdueMovements,
+} from "@/lib/fileMovement";
+import { CategoryChecklist, FileDocument, loadChecklists, loadFileDocuments } from "@/lib/fileDocuments";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -27,8 +45,6 @@ interface ProductMapping {
   category: CategoryCode;
 }
 
-type CategoryCode = "PERLOAN" | "PENLOAN" | "GOLDLON" | "PMSURYA";
-
 interface LoanFileRecord {
   serialNo: string;
   accountNo: string;
@@ -77,25 +93,13 @@ interface SyncResult {
   totalProcessed: number;
 }
 
-// ─── Category Config ───────────────────────────────────────────────────────────
-
-const CATEGORY_CONFIG: Record<CategoryCode, {
-  label: string;
-  prefix: string;
-  padCount: number;
-  color: string;
-  bgClass: string;
-  textClass: string;
-  borderClass: string;
-  badgeClass: string;
-}> = {
-  PERLOAN: { label: "Xpress Credit / Personal Loans", prefix: "PER", padCount: 4, color: "blue", bgClass: "bg-blue-50", textClass: "text-blue-800", borderClass: "border-blue-400", badgeClass: "bg-blue-100 text-blue-800" },
-  PENLOAN: { label: "Pension Loans", prefix: "PEN", padCount: 4, color: "green", bgClass: "bg-green-50", textClass: "text-green-800", borderClass: "border-green-400", badgeClass: "bg-green-100 text-green-800" },
-  GOLDLON: { label: "Gold Loans", prefix: "GOLD", padCount: 3, color: "amber", bgClass: "bg-amber-50", textClass: "text-amber-800", borderClass: "border-amber-400", badgeClass: "bg-amber-100 text-amber-800" },
-  PMSURYA: { label: "SBI Surya Ghar Loans", prefix: "SOLAR", padCount: 3, color: "teal", bgClass: "bg-teal-50", textClass: "text-teal-800", borderClass: "border-teal-400", badgeClass: "bg-teal-100 text-teal-800" },
-};
-
-const CATEGORY_ORDER: CategoryCode[] = ["PERLOAN", "PENLOAN", "GOLDLON", "PMSURYA"];
+// Categories with a bespoke front page; the rest use GenericLoanFrontPage
+const BESPOKE_FRONT_PAGES = new Set<CategoryCode>(["PERLOAN", "PENLOAN", "GOLDLON", "PMSURYA"]);
+
+// Category being edited in Setup (product codes as typed, comma-separated)
+interface CategoryDraft extends Omit<LoanFileCategory, "productCodes"> {
+  productCodesText: string;
+}
 
 // ─── Storage Keys ──────────────────────────────────────────────────────────────
 
@@ -106,49 +110,6 @@ const STORE_EXCLUSIONS    = "lfn-exclusions"; // Option D: persistent exclusion
 
 // ─── Utilities ─────────────────────────────────────────────────────────────────
 
-function parseCSV(str: string): Record<string, string>[] {
-  if (!str || typeof str !== "string") return [];
-  if (str.charCodeAt(0) === 0xFEFF) str = str.slice(1);
-
-  const result: string[][] = [];
-  let row: string[] = [];
-  let startIdx = 0;
-  let inQuotes = false;
-
-  for (let i = 0; i < str.length; i++) {
-    const cc = str[i], nc = str[i + 1];
-    if (cc === '"') { inQuotes = !inQuotes; }
-    else if (cc === "," && !inQuotes) {
-      row.push(str.substring(startIdx, i).replace(/^"|"$/g, "").replace(/""/g, '"').trim());
-      startIdx = i + 1;
-    } else if ((cc === "\n" || cc === "\r") && !inQuotes) {
-      row.push(str.substring(startIdx, i).replace(/^"|"$/g, "").replace(/""/g, '"').trim());
-      result.push(row); row = [];
-      if (cc === "\r" && nc === "\n") i++;
-      startIdx = i + 1;
-    }
-  }
-  if (startIdx < str.length) {
-    row.push(str.substring(startIdx).replace(/^"|"$/g, "").replace(/""/g, '"').trim());
-  }
-  if (row.length > 0) result.push(row);
-  if (result.length === 0) return [];
-
-  let hi = 0;
-  while (hi < result.length && result[hi].length <= 1 && !result[hi][0]) hi++;
-  if (hi >= result.length) return [];
-
-  const headers = result[hi].map(h => h.trim());
-  const data: Record<string, string>[] = [];
-  for (let i = hi + 1; i < result.length; i++) {
-    if (result[i].length === 1 && result[i][0].trim() === "") continue;
-    const obj: Record<string, string> = {};
-    headers.forEach((h, j) => { if (h) obj[h] = result[i][j]?.trim() ?? ""; });
-    data.push(obj);
-  }
-  return data;
-}
-
 function exportCSV(data: Record<string, string>[], filename: string) {
   if (!data || data.length === 0) return;
   const headers = Object.keys(data[0]);
@@ -208,11 +169,19 @@ function getMaxSerial(records: LoanFileRecord[], prefix: string): number {
 // ─── Component ─────────────────────────────────────────────────────────────────
 
 export default function LoanFileManager() {
+  const { can } = useAuth();
+
   // ── State ──────────────────────────────────────────────────────────────────
-  const [tab, setTab] = useState<"register" | "setup" | "sync">("register");
+  const [tab, setTab] = useState<"register" | "movement" | "documents" | "setup" | "sync">("register");
+  const [categories, setCategories] = useState<LoanFileCategory[]>(DEFAULT_CATEGORIES);
+  const [categoryDrafts, setCategoryDrafts] = useState<CategoryDraft[] | null>(null);
   const [productMappings, setProductMappings] = useState<ProductMapping[]>([]);
   const [accounts, setAccounts] = useState<LoanFileRecord[]>([]);
   const [syncLog, setSyncLog] = useState<{ date: string; message: string }[]>([]);
+  const [fileMovements, setFileMovements] = useState<FileMovement[]>([]);
+  const [fileLocations, setFileLocations] = useState<FileLocation[]>([]);
+  const [fileDocuments, setFileDocuments] = useState<FileDocument[]>([]);
+  const [docChecklists, setDocChecklists] = useState<CategoryChecklist[]>([]);
   const [isLoading, setIsLoading] = useState(true);
    const [isMappingsCollapsed, setIsMappingsCollapsed] = useState(true);
   const [printRecord, setPrintRecord] = useState<LoanFileRecord | null>(null);
@@ -243,7 +212,7 @@ export default function LoanFileManager() {
   const ROWS_PER_PAGE = 100;
 
   const productFileRef = useRef<HTMLInputElement>(null);
-  const historyRefs = useRef<Record<CategoryCode, HTMLInputElement | null>>({ PERLOAN: null, PENLOAN: null, GOLDLON: null, PMSURYA: null });
+  const historyRefs = useRef<Record<CategoryCode, HTMLInputElement | null>>({});
   const [loanBalanceDate, setLoanBalanceDate] = useState<string>("");
 
   // Load loan-balance-date from portfolioDb settings
@@ -255,12 +224,22 @@ export default function LoanFileManager() {
   useEffect(() => {
     const load = async () => {
       setIsLoading(true);
-      const [pm, ac, sl, ex] = await Promise.all([
+      const [pm, ac, sl, ex, cats, fm, fl, fd, dc] = await Promise.all([
         loadData(STORE_PRODUCT_LIST),
         loadData(STORE_ACCOUNTS),
         loadData(STORE_SYNC_LOG),
         loadData(STORE_EXCLUSIONS),
+        loadCategories(),
+        loadFileMovements(),
+        loadFileLocations(),
+        loadFileDocuments(),
+        loadChecklists(),
       ]);
+      setCategories(cats);
+      setFileMovements(fm);
+      setFileLocations(fl);
+      setFileDocuments(fd);
+      setDocChecklists(dc);
       if (pm) setProductMappings(pm);
       if (ac) setAccounts(ac);
       if (sl) setSyncLog(sl);
@@ -270,6 +249,16 @@ export default function LoanFileManager() {
     load();
   }, []);
 
+  // ── Categories ─────────────────────────────────────────────────────────────
+  const CATEGORY_ORDER = categories.map(c => c.code);
+  const categoryConfig = (code: CategoryCode) => {
+    const c = categories.find(x => x.code === code);
+    return { label: c?.label ?? code, prefix: c?.prefix ?? code, padCount: c?.padCount ?? 4, ...categoryStyle(c) };
+  };
+  // Categories still referenced by the register or the exclusion list cannot be removed
+  const categoryInUse = (code: CategoryCode) =>
+    accounts.some(a => a.category === code) || exclusions.some(e => e.category === code);
+
   // ── Derived stats ──────────────────────────────────────────────────────────
   const stats = CATEGORY_ORDER.reduce((acc, cat) => {
     const catAccounts = accounts.filter(a => a.category === cat);
@@ -296,16 +285,22 @@ export default function LoanFileManager() {
         setSetupStatus({ type: "error", message: "Could not find 'Product_Desc' and 'Category' columns in the uploaded CSV." });
         return;
       }
-      setProductMappings(mappings);
-      await saveData(STORE_PRODUCT_LIST, mappings);
+      const known = mappings.filter(m => CATEGORY_ORDER.includes(m.category));
+      const unknown = Array.from(new Set(mappings.filter(m => !CATEGORY_ORDER.includes(m.category)).map(m => m.category)));
+      setProductMappings(known);
+      await saveData(STORE_PRODUCT_LIST, known);
       setIsMappingsCollapsed(true);
-      setSetupStatus({ type: "success", message: `Product list loaded: ${mappings.length} mappings saved.` });
+      setSetupStatus({
+        type: known.length > 0 ? "success" : "error",
+        message: `Product list loaded: ${known.length} mappings saved.` +
+          (unknown.length > 0 ? ` Skipped ${mappings.length - known.length} rows for undefined categories (${unknown.join(", ")}) — add them under Loan Categories and re-import.` : ""),
+      });
     };
     reader.readAsText(file);
     e.target.value = "";
   };
 
-  const addMapping = () => setProductMappings(prev => [...prev, { desc: "", category: "PERLOAN" }]);
+  const addMapping = () => setProductMappings(prev => [...prev, { desc: "", category: CATEGORY_ORDER[0] }]);
   const removeMapping = (i: number) => setProductMappings(prev => prev.filter((_, idx) => idx !== i));
   const updateMapping = (i: number, field: keyof ProductMapping, value: string) => {
     setProductMappings(prev => { const n = [...prev]; n[i] = { ...n[i], [field]: value }; return n; });
@@ -315,6 +310,48 @@ export default function LoanFileManager() {
     setSetupStatus({ type: "success", message: `${productMappings.length} product mappings saved.` });
   };
 
+  // ── Category Handlers ──────────────────────────────────────────────────────
+  const editCategories = () => setCategoryDrafts(
+    categories.map(({ productCodes, ...c }) => ({ ...c, productCodesText: productCodes.join(", ") }))
+  );
+  const addCategory = () => setCategoryDrafts(prev => [
+    ...(prev || []),
+    { code: "", label: "", prefix: "", padCount: 4, color: COLOR_OPTIONS[(prev?.length || 0) % COLOR_OPTIONS.length], productCodesText: "" },
+  ]);
+  const updateCategoryDraft = (i: number, changes: Partial<CategoryDraft>) => {
+    setCategoryDrafts(prev => prev && prev.map((d, idx) => idx === i ? { ...d, ...changes } : d));
+  };
+  const removeCategoryDraft = (i: number) => setCategoryDrafts(prev => prev && prev.filter((_, idx) => idx !== i));
+  const saveCategoryDrafts = async () => {
+    if (!categoryDrafts) return;
+    const next: LoanFileCategory[] = categoryDrafts.map(({ productCodesText, ...d }) => ({
+      ...d,
+      code: d.code.trim().toUpperCase(),
+      label: d.label.trim(),
+      prefix: d.prefix.trim().toUpperCase(),
+      productCodes: productCodesText.split(/[,\s]+/).map(p => p.trim()).filter(Boolean),
+    }));
+    const removedInUse = categories.filter(c => !next.some(n => n.code === c.code) && categoryInUse(c.code));
+    const errors = [
+      ...validateCategories(next),
+      ...removedInUse.map(c => `${c.code} still has accounts or exclusions and cannot be removed`),
+    ];
+    if (errors.length > 0) {
+      setSetupStatus({ type: "error", message: errors.join(" · ") });
+      return;
+    }
+    try {
+      await saveCategories(next);
+      const saved = await loadCategories();
+      setCategories(saved);
+      setCategoryDrafts(null);
+      if (!saved.some(c => c.code === selectedCategory)) setSelectedCategory(saved[0].code);
+      setSetupStatus({ type: "success", message: `${saved.length} loan categories saved.` });
+    } catch (err) {
+      setSetupStatus({ type: "error", message: `Saving categories failed: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  };
+
   // ── Historical Data Upload ─────────────────────────────────────────────────
   const handleHistoricalUpload = (e: React.ChangeEvent<HTMLInputElement>, category: CategoryCode) => {
     const file = e.target.files?.[0];
@@ -323,7 +360,7 @@ export default function LoanFileManager() {
     reader.onload = async (ev) => {
       const text = ev.target?.result as string;
       const rows = parseCSV(text);
-      const cfg = CATEGORY_CONFIG[category];
+      const cfg = categoryConfig(category);
 
       const records: LoanFileRecord[] = rows
         .filter(r => r["Account No."] || r["ACCTNO"])
@@ -373,7 +410,7 @@ export default function LoanFileManager() {
         const remaining = accounts.filter(a => a.category !== scope);
         setAccounts(remaining);
         await saveData(STORE_ACCOUNTS, remaining);
-        setSetupStatus({ type: "success", message: `${CATEGORY_CONFIG[scope].label} (${CATEGORY_CONFIG[scope].prefix} series) cleared — ${accounts.filter(a => a.category === scope).length} records removed. Re-upload the historical CSV for this category.` });
+        setSetupStatus({ type: "success", message: `${categoryConfig(scope).label} (${categoryConfig(scope).prefix} series) cleared — ${accounts.filter(a => a.category === scope).length} records removed. Re-upload the historical CSV for this category.` });
       }
     } catch (err) {
       setSetupStatus({ type: "error", message: `Reset failed: ${err instanceof Error ? err.message : String(err)}` });
@@ -385,8 +422,8 @@ export default function LoanFileManager() {
 
   // ── Loan Balance Sync from IndexedDB (Option D: Review dialog before serial assignment) ──
   const handleSyncFromDashboard = async () => {
-    if (productMappings.length === 0) {
-      setSyncStatus({ type: "error", message: "No product mappings loaded. Please upload PRODUCT_LIST.csv in Setup first." });
+    if (productMappings.length === 0 && !categories.some(c => c.productCodes.length > 0)) {
+      setSyncStatus({ type: "error", message: "No product mappings loaded. Please upload PRODUCT_LIST.csv or map product codes to categories in Setup first." });
       return;
     }
     setIsSyncing(true);
@@ -415,10 +452,9 @@ export default function LoanFileManager() {
       CATEGORY_ORDER.forEach(cat => liveByCategory.set(cat, new Map()));
 
       allRows.forEach((row: any) => {
-        const desc = (row["ACCTDESC"] || "").trim();
         const acctNo = (row["LoanKey"] || row["ACCTNO"] || "").trim();
-        if (!desc || !acctNo) return;
-        const cat = descToCategory.get(desc);
+        if (!acctNo) return;
+        const cat = categoryForRow(row, descToCategory, categories);
         if (cat) liveByCategory.get(cat)!.set(acctNo, row);
       });
 
@@ -539,7 +575,7 @@ export default function LoanFileManager() {
     // Build serial numbers for included accounts (per category)
     const newRecords: LoanFileRecord[] = [];
     for (const cat of CATEGORY_ORDER) {
-      const cfg = CATEGORY_CONFIG[cat];
+      const cfg = categoryConfig(cat);
       const catIncluded = included.filter(c => c.category === cat);
       const existingForCat = updatedAccounts.filter(a => a.category === cat);
       const maxSerial = getMaxSerial(existingForCat, cfg.prefix);
@@ -649,6 +685,8 @@ export default function LoanFileManager() {
   }
 
   const isInitialized = accounts.length > 0 || productMappings.length > 0;
+  const overdueFiles = overdueMovements(fileMovements);
+  const locationBySerial = new Map(fileLocations.map(l => [l.id, l]));
 
   return (
     <div className="flex flex-col h-full">
@@ -656,7 +694,7 @@ export default function LoanFileManager() {
       <div className="mb-6">
         <h2 className="text-2xl font-bold" style={{ color: "#1a1a2e" }}>Loan File Number Register</h2>
         <p className="text-sm text-gray-500 mt-1">
-          Manage running serial numbers for loan files — Xpress Credit, Pension, Gold, and SBI Surya Ghar
+          Manage running serial numbers for loan files — {categories.map(c => c.label).join(", ")}
         </p>
       </div>
 
@@ -664,6 +702,8 @@ export default function LoanFileManager() {
       <div className="flex gap-1 mb-6 bg-gray-100 rounded-lg p-1 w-fit">
         {[
           { id: "register" as const, label: "File Register", icon: <FileText className="w-4 h-4" /> },
+          { id: "movement" as const, label: "File Movement", icon: <ArrowRightLeft className="w-4 h-4" /> },
+          { id: "documents" as const, label: "Documents", icon: <ClipboardCheck className="w-4 h-4" /> },
           { id: "sync" as const, label: "Sync Loan Balance", icon: <RefreshCw className="w-4 h-4" /> },
           { id: "setup" as const, label: "Setup", icon: <Settings className="w-4 h-4" /> },
         ].map(t => (
@@ -676,6 +716,9 @@ export default function LoanFileManager() {
               : { color: "#6b7280" }}
           >
             {t.icon}{t.label}
+            {t.id === "movement" && overdueFiles.length > 0 && (
+              <span className="ml-1 px-1.5 py-0.5 rounded-full text-[10px] font-bold bg-red-600 text-white">{overdueFiles.length}</span>
+            )}
           </button>
         ))}
       </div>
@@ -686,7 +729,7 @@ export default function LoanFileManager() {
           {/* Summary Cards */}
           <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
             {CATEGORY_ORDER.map(cat => {
-              const cfg = CATEGORY_CONFIG[cat];
+              const cfg = categoryConfig(cat);
               const s = stats[cat] || { total: 0, active: 0, closed: 0 };
               return (
                 <button
@@ -787,11 +830,11 @@ export default function LoanFileManager() {
 
               {/* Table */}
               <div className="bg-white rounded-xl border border-gray-200 shadow-sm flex flex-col flex-1 min-h-0">
-                <div className={`px-5 py-3 border-b border-gray-100 flex items-center justify-between ${CATEGORY_CONFIG[selectedCategory].bgClass}`}>
-                  <h3 className={`font-semibold text-sm ${CATEGORY_CONFIG[selectedCategory].textClass}`}>
-                    {CATEGORY_CONFIG[selectedCategory].label}
+                <div className={`px-5 py-3 border-b border-gray-100 flex items-center justify-between ${categoryConfig(selectedCategory).bgClass}`}>
+                  <h3 className={`font-semibold text-sm ${categoryConfig(selectedCategory).textClass}`}>
+                    {categoryConfig(selectedCategory).label}
                   </h3>
-                  <span className={`text-xs font-bold px-2 py-1 rounded-full ${CATEGORY_CONFIG[selectedCategory].badgeClass}`}>
+                  <span className={`text-xs font-bold px-2 py-1 rounded-full ${categoryConfig(selectedCategory).badgeClass}`}>
                     {totalRows} entries
                   </span>
                 </div>
@@ -806,6 +849,7 @@ export default function LoanFileManager() {
                           <th className="px-4 py-3 text-xs font-semibold text-gray-500 uppercase">Account No.</th>
                           <th className="px-4 py-3 text-xs font-semibold text-gray-500 uppercase">Status</th>
                           <th className="px-4 py-3 text-xs font-semibold text-gray-500 uppercase">Last Seen</th>
+                          <th className="px-4 py-3 text-xs font-semibold text-gray-500 uppercase">File Location</th>
                           <th className="px-4 py-3 text-xs font-semibold text-gray-500 uppercase">Customer Name</th>
                           <th className="px-4 py-3 text-xs font-semibold text-gray-500 uppercase">CIF</th>
                           <th className="px-4 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Limit</th>
@@ -824,52 +868,27 @@ export default function LoanFileManager() {
                               </span>
                             </td>
                             <td className="px-4 py-3 text-gray-500 text-xs">{row.lastSeen}</td>
+                            <td className="px-4 py-3 text-xs">
+                              {(() => {
+                                const out = openMovement(fileMovements, row.serialNo);
+                                if (out) return <span className="px-2 py-0.5 rounded-full font-semibold bg-amber-100 text-amber-800">OUT · {out.takenBy}</span>;
+                                return <span className="text-gray-500">{formatLocation(locationBySerial.get(row.serialNo)) || "—"}</span>;
+                              })()}
+                            </td>
                             <td className="px-4 py-3 text-gray-700">{row.customerName}</td>
                             <td className="px-4 py-3 text-gray-500 text-xs">{row.cifNo}</td>
                             <td className="px-4 py-3 text-gray-800 font-medium text-right">{formatINR(row.limit)}</td>
                             <td className="px-4 py-3 text-gray-500 text-xs">{row.sanctionDate}</td>
                             <td className="px-4 py-3">
                               <div className="flex items-center gap-1.5 flex-wrap">
-                                {selectedCategory === "PERLOAN" && (
-                                  <button
-                                    onClick={() => setPrintRecord(row)}
-                                    title="Print Xpress Credit Front Page"
-                                    className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100 transition-colors"
-                                  >
-                                    <Printer className="w-3.5 h-3.5" />
-                                    Front Page
-                                  </button>
-                                )}
-                                {selectedCategory === "GOLDLON" && (
-                                  <button
-                                    onClick={() => setPrintRecord(row)}
-                                    title="Print Gold Loan Front Page"
-                                    className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-amber-50 text-amber-700 border border-amber-200 hover:bg-amber-100 transition-colors"
-                                  >
-                                    <Printer className="w-3.5 h-3.5" />
-                                    Front Page
-                                  </button>
-                                )}
-                                {selectedCategory === "PENLOAN" && (
-                                  <button
-                                    onClick={() => setPrintRecord(row)}
-                                    title="Print Pension Loan Front Page"
-                                    className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-green-50 text-green-700 border border-green-200 hover:bg-green-100 transition-colors"
-                                  >
-                                    <Printer className="w-3.5 h-3.5" />
-                                    Front Page
-                                  </button>
-                                )}
-                                {selectedCategory === "PMSURYA" && (
-                                  <button
-                                    onClick={() => setPrintRecord(row)}
-                                    title="Print SBI Surya Ghar Front Page"
-                                    className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-cyan-50 text-cyan-700 border border-cyan-200 hover:bg-cyan-100 transition-colors"
-                                  >
-                                    <Printer className="w-3.5 h-3.5" />
-                                    Front Page
-                                  </button>
-                                )}
+                                <button
+                                  onClick={() => setPrintRecord(row)}
+                                  title={`Print ${categoryConfig(selectedCategory).label} Front Page`}
+                                  className={`inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium border transition-colors hover:opacity-80 ${categoryConfig(selectedCategory).bgClass} ${categoryConfig(selectedCategory).textClass} ${categoryConfig(selectedCategory).borderClass}`}
+                                >
+                                  <Printer className="w-3.5 h-3.5" />
+                                  Front Page
+                                </button>
                                 <button
                                   onClick={() => handleToggleStatus(row.accountNo)}
                                   title={row.status === "ACTIVE" ? "Mark this account as Closed" : "Reopen this account (mark as Active)"}
@@ -923,6 +942,30 @@ export default function LoanFileManager() {
         </div>
       )}
 
+      {/* ── FILE MOVEMENT TAB ─────────────────────────────────────────────────── */}
+      {tab === "movement" && (
+        <FileMovementRegister
+          accounts={accounts}
+          movements={fileMovements}
+          locations={fileLocations}
+          categoryLabel={code => categoryConfig(code).label}
+          onMovementsChange={setFileMovements}
+          onLocationsChange={setFileLocations}
+        />
+      )}
+
+      {/* ── DOCUMENTS TAB ─────────────────────────────────────────────────────── */}
+      {tab === "documents" && (
+        <FileDocuments
+          accounts={accounts}
+          categories={categories}
+          documents={fileDocuments}
+          checklists={docChecklists}
+          onDocumentsChange={setFileDocuments}
+          onChecklistsChange={setDocChecklists}
+        />
+      )}
+
       {/* ── SYNC TAB ──────────────────────────────────────────────────────────── */}
       {tab === "sync" && (
         <div className="max-w-2xl">
@@ -1037,7 +1080,116 @@ export default function LoanFileManager() {
             </div>
           )}
 
-          {/* Section 1: Product Mappings */}
+          {/* Section 1: Loan Categories */}
+          <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+            <div className="p-5 border-b border-gray-100 bg-gray-50 flex items-center justify-between">
+              <div>
+                <h3 className="font-bold text-gray-800">1. Loan Categories</h3>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  File-number series kept by the register. Accounts are matched by the product mappings below, then by the CBS product codes listed here.
+                </p>
+              </div>
+              {!categoryDrafts && can("branch.configure") && (
+                <button onClick={editCategories} className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white" style={{ backgroundColor: "#4e1a74" }}>
+                  <Settings className="w-4 h-4" /> Edit Categories
+                </button>
+              )}
+            </div>
+
+            {!categoryDrafts ? (
+              <div className="p-4 flex flex-wrap gap-3 items-center">
+                {categories.map(c => (
+                  <div key={c.code} className={`px-3 py-1.5 rounded-lg text-xs font-medium border ${categoryStyle(c).badgeClass} ${categoryStyle(c).borderClass}`}>
+                    {c.code} · {c.prefix}{"0".repeat(c.padCount)} · {c.label}
+                    {c.productCodes.length > 0 && <span className="opacity-70"> · {c.productCodes.length} product code{c.productCodes.length !== 1 ? "s" : ""}</span>}
+                  </div>
+                ))}
+                {!can("branch.configure") && <span className="ml-auto text-xs text-gray-400">Only the Branch Manager can change categories.</span>}
+              </div>
+            ) : (
+              <>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-white border-b border-gray-100">
+                      <tr>
+                        <th className="px-3 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Code</th>
+                        <th className="px-3 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Label</th>
+                        <th className="px-3 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Prefix</th>
+                        <th className="px-3 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Digits</th>
+                        <th className="px-3 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Colour</th>
+                        <th className="px-3 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Product Codes</th>
+                        <th className="px-3 py-3 w-12"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-50">
+                      {categoryDrafts.map((d, i) => {
+                        const saved = categories.some(c => c.code === d.code);
+                        const locked = saved && categoryInUse(d.code);
+                        return (
+                          <tr key={i} className="hover:bg-gray-50">
+                            <td className="px-3 py-2">
+                              <input type="text" value={d.code} disabled={saved}
+                                onChange={e => updateCategoryDraft(i, { code: e.target.value.toUpperCase() })}
+                                className="w-28 px-2 py-1.5 border border-gray-200 rounded text-sm font-mono disabled:bg-gray-50" placeholder="HOMELON" />
+                            </td>
+                            <td className="px-3 py-2">
+                              <input type="text" value={d.label}
+                                onChange={e => updateCategoryDraft(i, { label: e.target.value })}
+                                className="w-full min-w-[160px] px-2 py-1.5 border border-gray-200 rounded text-sm" placeholder="Home Loans" />
+                            </td>
+                            <td className="px-3 py-2">
+                              <input type="text" value={d.prefix} disabled={locked}
+                                title={locked ? "Serials have already been issued in this series" : undefined}
+                                onChange={e => updateCategoryDraft(i, { prefix: e.target.value.toUpperCase() })}
+                                className="w-20 px-2 py-1.5 border border-gray-200 rounded text-sm font-mono disabled:bg-gray-50" placeholder="HL" />
+                            </td>
+                            <td className="px-3 py-2">
+                              <input type="number" min={1} max={6} value={d.padCount}
+                                onChange={e => updateCategoryDraft(i, { padCount: parseInt(e.target.value, 10) || 0 })}
+                                className="w-16 px-2 py-1.5 border border-gray-200 rounded text-sm" />
+                            </td>
+                            <td className="px-3 py-2">
+                              <select value={d.color} onChange={e => updateCategoryDraft(i, { color: e.target.value as CategoryColor })}
+                                className={`px-2 py-1.5 border border-gray-200 rounded text-sm ${categoryStyle({ ...d, productCodes: [] }).badgeClass}`}>
+                                {COLOR_OPTIONS.map(c => <option key={c} value={c}>{c}</option>)}
+                              </select>
+                            </td>
+                            <td className="px-3 py-2">
+                              <input type="text" value={d.productCodesText}
+                                onChange={e => updateCategoryDraft(i, { productCodesText: e.target.value })}
+                                className="w-full min-w-[180px] px-2 py-1.5 border border-gray-200 rounded text-sm font-mono" placeholder="e.g. 6010, 6015" />
+                            </td>
+                            <td className="px-3 py-2 text-center">
+                              <button onClick={() => removeCategoryDraft(i)} disabled={d.builtIn || locked}
+                                title={d.builtIn ? "Built-in category" : locked ? "Category has accounts or exclusions" : "Remove category"}
+                                className="p-1.5 text-red-400 hover:bg-red-50 rounded disabled:opacity-30 disabled:hover:bg-transparent">
+                                <Trash2 className="w-3.5 h-3.5" />
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="p-4 bg-gray-50 border-t border-gray-100 flex items-center justify-between">
+                  <button onClick={addCategory} className="flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-800 font-medium">
+                    <Plus className="w-4 h-4" /> Add Category
+                  </button>
+                  <div className="flex items-center gap-2">
+                    <button onClick={() => setCategoryDrafts(null)} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600 border border-gray-200 bg-white hover:bg-gray-50">
+                      Cancel
+                    </button>
+                    <button onClick={saveCategoryDrafts} className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white" style={{ backgroundColor: "#4e1a74" }}>
+                      Save Categories
+                    </button>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Section 2: Product Mappings */}
           <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
             <div
               className="p-5 border-b border-gray-100 bg-gray-50 flex items-center justify-between cursor-pointer hover:bg-gray-100 transition-colors"
@@ -1045,10 +1197,10 @@ export default function LoanFileManager() {
             >
               <div>
                 <div className="flex items-center gap-2">
-                  <h3 className="font-bold text-gray-800">1. Product Mappings</h3>
+                  <h3 className="font-bold text-gray-800">2. Product Mappings</h3>
                   {isMappingsCollapsed ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronUp className="w-4 h-4 text-gray-400" />}
                 </div>
-                <p className="text-xs text-gray-500 mt-0.5">Map ACCTDESC values to loan categories (PERLOAN, PENLOAN, GOLDLON, PMSURYA)</p>
+                <p className="text-xs text-gray-500 mt-0.5">Map ACCTDESC values to loan categories ({CATEGORY_ORDER.join(", ")})</p>
               </div>
               <label
                 className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white cursor-pointer"
@@ -1065,7 +1217,7 @@ export default function LoanFileManager() {
                 {CATEGORY_ORDER.map(cat => {
                   const count = productMappings.filter(m => m.category === cat).length;
                   return (
-                    <div key={cat} className={`px-3 py-1.5 rounded-lg text-xs font-medium border ${CATEGORY_CONFIG[cat].badgeClass} ${CATEGORY_CONFIG[cat].borderClass}`}>
+                    <div key={cat} className={`px-3 py-1.5 rounded-lg text-xs font-medium border ${categoryConfig(cat).badgeClass} ${categoryConfig(cat).borderClass}`}>
                       {cat}: {count} products
                     </div>
                   );
@@ -1095,10 +1247,9 @@ export default function LoanFileManager() {
                           <td className="px-4 py-2">
                             <select value={m.category} onChange={e => updateMapping(i, "category", e.target.value)}
                               className="w-full px-2 py-1.5 border border-gray-200 rounded text-sm bg-white focus:outline-none">
-                              <option value="PERLOAN">PERLOAN (Xpress Credit)</option>
-                              <option value="PENLOAN">PENLOAN (Pension Loan)</option>
-                              <option value="GOLDLON">GOLDLON (Gold Loan)</option>
-                              <option value="PMSURYA">PMSURYA (SBI Surya Ghar)</option>
+                              {categories.map(c => (
+                                <option key={c.code} value={c.code}>{c.code} ({c.label})</option>
+                              ))}
                             </select>
                           </td>
                           <td className="px-4 py-2 text-center">
@@ -1123,10 +1274,10 @@ export default function LoanFileManager() {
             )}
           </div>
 
-          {/* Section 2: Historical Data */}
+          {/* Section 3: Historical Data */}
           <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
             <div className="p-5 border-b border-gray-100 bg-gray-50">
-              <h3 className="font-bold text-gray-800">2. Historical Base Data</h3>
+              <h3 className="font-bold text-gray-800">3. Historical Base Data</h3>
               <p className="text-xs text-gray-500 mt-0.5">
                 Upload existing CSV files for each loan category. These serve as the base for assigning next serial numbers.
                 This is a one-time operation — re-uploading will replace all records for that category.
@@ -1134,7 +1285,7 @@ export default function LoanFileManager() {
             </div>
             <div className="p-5 grid md:grid-cols-2 lg:grid-cols-4 gap-4">
               {CATEGORY_ORDER.map(cat => {
-                const cfg = CATEGORY_CONFIG[cat];
+                const cfg = categoryConfig(cat);
                 const catAccounts = accounts.filter(a => a.category === cat);
                 const maxSerial = catAccounts.length > 0
                   ? `${cfg.prefix}${String(getMaxSerial(catAccounts, cfg.prefix)).padStart(cfg.padCount, "0")}`
@@ -1176,12 +1327,12 @@ export default function LoanFileManager() {
             </div>
           </div>
 
-          {/* Section 3: Reset & Re-initialise */}
+          {/* Section 4: Reset & Re-initialise */}
           <div className="bg-white rounded-xl border border-red-200 shadow-sm overflow-hidden">
             <div className="p-5 border-b border-red-100 bg-red-50 flex items-center gap-3">
               <ShieldAlert className="w-5 h-5 text-red-600 shrink-0" />
               <div>
-                <h3 className="font-bold text-red-800">3. Reset &amp; Re-initialise</h3>
+                <h3 className="font-bold text-red-800">4. Reset &amp; Re-initialise</h3>
                 <p className="text-xs text-red-600 mt-0.5">
                   Use this if the initial setup had errors or you need to start fresh. This action is irreversible.
                 </p>
@@ -1225,7 +1376,7 @@ export default function LoanFileManager() {
                 <h3 className="font-bold text-red-800">
                   {showResetDialog === "full"
                     ? "Full Reset — Clear All Data"
-                    : `Clear ${CATEGORY_CONFIG[showResetDialog as CategoryCode].label}`}
+                    : `Clear ${categoryConfig(showResetDialog as CategoryCode).label}`}
                 </h3>
                 <p className="text-xs text-red-600 mt-0.5">This action cannot be undone.</p>
               </div>
@@ -1237,7 +1388,7 @@ export default function LoanFileManager() {
               <p className="text-sm text-gray-700 mb-1">
                 {showResetDialog === "full"
                   ? `This will permanently delete all ${accounts.length} account records, all product mappings, and the entire sync history.`
-                  : `This will permanently delete ${accounts.filter(a => a.category === showResetDialog).length} records in the ${CATEGORY_CONFIG[showResetDialog as CategoryCode].prefix} series.`}
+                  : `This will permanently delete ${accounts.filter(a => a.category === showResetDialog).length} records in the ${categoryConfig(showResetDialog as CategoryCode).prefix} series.`}
               </p>
               <p className="text-sm text-gray-500 mb-4">You will need to re-upload the data to restore it.</p>
               <label className="block text-xs font-semibold text-gray-600 mb-2">Type <span className="font-mono bg-gray-100 px-1.5 py-0.5 rounded text-red-700">RESET</span> to confirm:</label>
@@ -1263,7 +1414,7 @@ export default function LoanFileManager() {
                   className="flex-1 py-2.5 rounded-lg text-sm font-semibold text-white bg-red-600 hover:bg-red-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
                 >
                   <RotateCcw className="w-4 h-4" />
-                  {showResetDialog === "full" ? "Reset Everything" : `Clear ${CATEGORY_CONFIG[showResetDialog as CategoryCode].prefix} Data`}
+                  {showResetDialog === "full" ? "Reset Everything" : `Clear ${categoryConfig(showResetDialog as CategoryCode).prefix} Data`}
                 </button>
               </div>
             </div>
@@ -1356,8 +1507,8 @@ export default function LoanFileManager() {
                       <td className="py-2 px-3 text-xs text-gray-600">{c.accountDesc}</td>
                       <td className="py-2 px-3">
                         <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${
-                          CATEGORY_CONFIG[c.category]?.badgeClass || "bg-gray-100 text-gray-700"
-                        }`}>{CATEGORY_CONFIG[c.category]?.prefix}</span>
+                          categoryConfig(c.category)?.badgeClass || "bg-gray-100 text-gray-700"
+                        }`}>{categoryConfig(c.category)?.prefix}</span>
                       </td>
                       <td className="py-2 px-3">
                         {c.isWrittenOff ? (
@@ -1435,8 +1586,8 @@ export default function LoanFileManager() {
                         </td>
                         <td className="py-2 px-3">
                           <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${
-                            CATEGORY_CONFIG[e.category]?.badgeClass || "bg-gray-100 text-gray-700"
-                          }`}>{CATEGORY_CONFIG[e.category]?.prefix}</span>
+                            categoryConfig(e.category)?.badgeClass || "bg-gray-100 text-gray-700"
+                          }`}>{categoryConfig(e.category)?.prefix}</span>
                         </td>
                         <td className="py-2 px-3">
                           <span className="text-xs px-2 py-0.5 bg-red-100 text-red-700 rounded">{e.reason}</span>
@@ -1490,6 +1641,13 @@ export default function LoanFileManager() {
           onClose={() => setPrintRecord(null)}
         />
       )}
+      {printRecord && !BESPOKE_FRONT_PAGES.has(selectedCategory) && (
+        <GenericLoanFrontPage
+          record={printRecord}
+          category={categories.find(c => c.code === selectedCategory) ?? { code: selectedCategory, ...categoryConfig(selectedCategory), color: "slate", productCodes: [] }}
+          onClose={() => setPrintRecord(null)}
+        />
+      )}
     </div>
   );
 }
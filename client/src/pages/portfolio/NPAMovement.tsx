@@ -0,0 +1,342 @@
+/**
+ * NPA Movement — upgradation tracking and the quarterly NPA movement statement
+ *
+ * Each NPA report upload is compared with the one before it (see
+ * lib/npaMovement.ts). Accounts that left the NPA list are checked for
+ * upgrade eligibility (all arrears cleared in the loan / CC-OD balance file),
+ * and the branch confirms or corrects each movement. The statement for the
+ * chosen quarter (opening, additions, upgradations, recoveries, write-offs,
+ * closing) exports to Excel.
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import * as XLSX from "xlsx";
+import { ArrowRightLeft, CheckCircle2, Download, RefreshCw, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useBranch } from "@/contexts/BranchContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { formatINR } from "@/lib/portfolioTransform";
+import {
+  MOVEMENT_TYPES,
+  MovementType,
+  NPAMovement as Movement,
+  NPAReportHistory,
+  allowedTypes,
+  getNPAHistory,
+  getNPAMovements,
+  movementLabel,
+  movementStatement,
+  updateMovement,
+} from "@/lib/npaMovement";
+import { toast } from "sonner";
+
+const TYPE_STYLES: Record<MovementType, string> = {
+  addition: "bg-red-100 text-red-700",
+  increase: "bg-orange-100 text-orange-700",
+  upgrade: "bg-green-100 text-green-700",
+  recovery: "bg-blue-100 text-blue-700",
+  "write-off": "bg-gray-200 text-gray-700",
+  reclassification: "bg-purple-100 text-purple-700",
+};
+
+interface Quarter {
+  key: string;
+  label: string;
+  from: string; // YYYY-MM-DD
+  to: string;
+}
+
+/** Financial-year quarter (April–June = Q1) a date falls in */
+function quarterOf(iso: string): Quarter {
+  const [y, m] = iso.split("-").map(Number);
+  const fyStart = m >= 4 ? y : y - 1;
+  const q = m >= 4 ? Math.floor((m - 4) / 3) + 1 : 4;
+  const startMonth = ((q - 1) * 3 + 3) % 12; // 0-indexed: Apr, Jul, Oct, Jan
+  const startYear = q === 4 ? fyStart + 1 : fyStart;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const end = new Date(startYear, startMonth + 3, 0);
+  const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+  return {
+    key: `${fyStart}-Q${q}`,
+    label: `Q${q} FY ${fyStart}-${String(fyStart + 1).slice(-2)} (${months[startMonth]}–${months[end.getMonth()]} ${startYear})`,
+    from: `${startYear}-${pad(startMonth + 1)}-01`,
+    to: `${end.getFullYear()}-${pad(end.getMonth() + 1)}-${pad(end.getDate())}`,
+  };
+}
+
+function fmtDate(iso: string | null | undefined): string {
+  if (!iso) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}/${m}/${y}`;
+}
+
+function fmtAmt(n: number): string {
+  return n.toLocaleString("en-IN", { maximumFractionDigits: 0 });
+}
+
+export default function NPAMovement() {
+  const { branchName, branchCode } = useBranch();
+  const { can } = useAuth();
+  const [history, setHistory] = useState<NPAReportHistory[]>([]);
+  const [movements, setMovements] = useState<Movement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [quarterKey, setQuarterKey] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<MovementType | "All">("All");
+
+  useEffect(() => { loadData(); }, []);
+
+  async function loadData() {
+    setLoading(true);
+    try {
+      const [h, m] = await Promise.all([getNPAHistory(), getNPAMovements()]);
+      setHistory(h);
+      setMovements(m);
+    } catch (e) {
+      console.error(e);
+      toast.error("Failed to load the NPA movement register");
+    }
+    setLoading(false);
+  }
+
+  // Quarters with at least one NPA report, latest first
+  const quarters = useMemo(() => {
+    const byKey = new Map<string, Quarter>();
+    for (const h of history) {
+      const q = quarterOf(h.reportDate);
+      byKey.set(q.key, q);
+    }
+    return Array.from(byKey.values()).sort((a, b) => b.from.localeCompare(a.from));
+  }, [history]);
+
+  const quarter = quarters.find((q) => q.key === quarterKey) ?? quarters[0] ?? null;
+
+  const statement = useMemo(
+    () => (quarter ? movementStatement(history, movements, quarter.from, quarter.to) : null),
+    [history, movements, quarter]
+  );
+
+  const periodMovements = useMemo(() => {
+    if (!statement?.openingDate || !statement.closingDate) return [];
+    return movements.filter((m) =>
+      m.toDate > statement.openingDate! && m.toDate <= statement.closingDate! && (typeFilter === "All" || m.type === typeFilter)
+    );
+  }, [movements, statement, typeFilter]);
+
+  async function handleUpdate(movement: Movement, changes: Partial<Pick<Movement, "type" | "verified" | "notes">>) {
+    try {
+      const updated = await updateMovement(movement, changes);
+      setMovements((list) => list.map((m) => (m.id === updated.id ? updated : m)));
+    } catch (err: any) {
+      toast.error(err.message || "Failed to update the movement");
+    }
+  }
+
+  function exportExcel() {
+    if (!quarter || !statement) return;
+    const wb = XLSX.utils.book_new();
+    const s = statement;
+    const reductions = s.upgrades.amount + s.recoveries.amount + s.writeOffs.amount;
+    const sheet = [
+      [`NPA Movement Statement — ${branchName || ""} (${branchCode || ""})`],
+      [quarter.label],
+      [],
+      ["Particulars", "No. of Accounts", "Amount"],
+      [`Opening Gross NPA (as per NPA report dated ${fmtDate(s.openingDate)})`, s.opening.count, s.opening.amount],
+      ["Add: Fresh NPAs during the period", s.additions.count, s.additions.amount],
+      ["Add: Increase in balance of existing NPAs", s.increases.count, s.increases.amount],
+      ["Less: Upgradations", s.upgrades.count, s.upgrades.amount],
+      ["Less: Recoveries (excluding upgraded accounts)", s.recoveries.count, s.recoveries.amount],
+      ["Less: Write-offs", s.writeOffs.count, s.writeOffs.amount],
+      ["Total Reductions", "", reductions],
+      [`Closing Gross NPA (as per NPA report dated ${fmtDate(s.closingDate)})`, s.closing.count, s.closing.amount],
+      ...(s.difference !== 0 ? [["Unreconciled difference", "", s.difference]] : []),
+    ];
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(sheet), "Statement");
+
+    const register = [
+      ["Report Date", "Compared With", "Account No", "Name", "IRAC Before", "IRAC After", "Opening", "Closing", "Amount", "Detected As", "Recorded As", "Upgrade Eligibility", "Verified", "Notes"],
+      ...periodMovements.map((m) => [
+        fmtDate(m.toDate), fmtDate(m.fromDate), m.accountNo, m.customerName, m.fromIrac ?? "", m.toIrac ?? "",
+        m.openingAmount, m.closingAmount, m.amount, movementLabel(m.detected), movementLabel(m.type),
+        m.eligibilityNote ?? "", m.verified ? "Yes" : "No", m.notes,
+      ]),
+    ];
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(register), "Movement Register");
+    XLSX.writeFile(wb, `NPA_Movement_${quarter.key}.xlsx`);
+  }
+
+  if (loading) return <div className="flex items-center justify-center h-64"><div className="w-8 h-8 border-4 border-purple-500 border-t-transparent rounded-full animate-spin" /></div>;
+  if (history.length === 0) return (
+    <div className="flex items-center justify-center h-64"><div className="text-center">
+      <ArrowRightLeft className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+      <h3 className="text-xl font-semibold text-gray-600 mb-2">No NPA Reports Yet</h3>
+      <p className="text-gray-400">Upload the NPA report each month; the first upload is the baseline for the movement register.</p>
+    </div></div>
+  );
+
+  const canManage = can("recovery.manage");
+  const statementRows = statement ? [
+    { label: `Opening gross NPA (report dated ${fmtDate(statement.openingDate)})`, line: statement.opening, bold: true },
+    { label: "Add: Fresh NPAs", line: statement.additions },
+    { label: "Add: Increase in balance of existing NPAs", line: statement.increases },
+    { label: "Less: Upgradations", line: statement.upgrades },
+    { label: "Less: Recoveries (excluding upgraded accounts)", line: statement.recoveries },
+    { label: "Less: Write-offs", line: statement.writeOffs },
+    { label: `Closing gross NPA (report dated ${fmtDate(statement.closingDate)})`, line: statement.closing, bold: true },
+  ] : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">NPA Movement</h2>
+          <p className="text-gray-500 mt-1">Upgradations, recoveries and write-offs between NPA report uploads</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={quarter?.key ?? ""}
+            onChange={(e) => setQuarterKey(e.target.value)}
+            className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+          >
+            {quarters.map((q) => <option key={q.key} value={q.key}>{q.label}</option>)}
+          </select>
+          <Button variant="outline" size="sm" onClick={loadData} className="gap-1">
+            <RefreshCw className="w-4 h-4" /> Refresh
+          </Button>
+          <Button size="sm" onClick={exportExcel} className="gap-1 bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white">
+            <Download className="w-4 h-4" /> Export Excel
+          </Button>
+        </div>
+      </div>
+
+      {/* Statement */}
+      {statement && (
+        <div className="bg-white rounded-xl border border-gray-200 p-5 shadow-sm">
+          <h3 className="font-semibold text-gray-700 mb-4">NPA Movement Statement — {quarter?.label}</h3>
+          <table className="w-full text-sm max-w-3xl">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-2 px-3 text-gray-500 font-medium">Particulars</th>
+                <th className="text-center py-2 px-3 text-gray-500 font-medium">Accounts</th>
+                <th className="text-right py-2 px-3 text-gray-500 font-medium">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {statementRows.map((r) => (
+                <tr key={r.label} className={`border-b border-gray-50 ${r.bold ? "bg-gray-50 font-semibold" : ""}`}>
+                  <td className="py-2 px-3">{r.label}</td>
+                  <td className="py-2 px-3 text-center">{r.line.count}</td>
+                  <td className="py-2 px-3 text-right">{formatINR(r.line.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {statement.openingDate === statement.closingDate && (
+            <p className="text-xs text-gray-500 mt-3">Only one NPA report in this period — upload the next one to see movements.</p>
+          )}
+          {statement.difference !== 0 && (
+            <p className="text-xs text-red-700 mt-3 flex items-center gap-1">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              Opening, movements and closing differ by {formatINR(statement.difference)}; check the register.
+            </p>
+          )}
+          {statement.pendingUpgrades > 0 && (
+            <p className="text-xs text-amber-700 mt-2 flex items-center gap-1">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              {statement.pendingUpgrades} upgradation{statement.pendingUpgrades > 1 ? "s" : ""} not yet verified or with arrears still outstanding.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Register */}
+      <div className="bg-white rounded-xl border border-gray-200 p-5 shadow-sm">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-gray-700">Movement Register ({periodMovements.length})</h3>
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as MovementType | "All")}
+            className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+          >
+            <option value="All">All movements</option>
+            {MOVEMENT_TYPES.map((t) => <option key={t.value} value={t.value}>{t.label}</option>)}
+          </select>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm whitespace-nowrap">
+            <thead>
+              <tr className="border-b border-gray-200 text-xs text-gray-500">
+                <th className="text-left py-2 px-3">Report</th>
+                <th className="text-left py-2 px-3">Account</th>
+                <th className="text-center py-2 px-3">IRAC</th>
+                <th className="text-right py-2 px-3">Opening</th>
+                <th className="text-right py-2 px-3">Closing</th>
+                <th className="text-right py-2 px-3">Movement</th>
+                <th className="text-left py-2 px-3">Type</th>
+                <th className="text-left py-2 px-3">Check</th>
+                <th className="text-center py-2 px-3">Verified</th>
+                <th className="text-left py-2 px-3">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {periodMovements.map((m) => {
+                const types = allowedTypes(m);
+                return (
+                  <tr key={m.id} className="border-b border-gray-50">
+                    <td className="py-1.5 px-3 text-xs">{fmtDate(m.toDate)}</td>
+                    <td className="py-1.5 px-3">
+                      <div className="font-mono text-xs">{m.accountNo}</div>
+                      <div className="text-xs text-gray-500 truncate max-w-[180px]">{m.customerName}</div>
+                    </td>
+                    <td className="py-1.5 px-3 text-center text-xs">{m.fromIrac ?? "—"} → {m.toIrac ?? "—"}</td>
+                    <td className="py-1.5 px-3 text-right">{fmtAmt(m.openingAmount)}</td>
+                    <td className="py-1.5 px-3 text-right">{fmtAmt(m.closingAmount)}</td>
+                    <td className="py-1.5 px-3 text-right font-medium">{m.amount ? fmtAmt(m.amount) : "—"}</td>
+                    <td className="py-1.5 px-3">
+                      {types.length > 1 && canManage ? (
+                        <select
+                          value={m.type}
+                          onChange={(e) => handleUpdate(m, { type: e.target.value as MovementType })}
+                          className="px-2 py-1 border border-gray-200 rounded text-xs bg-white"
+                        >
+                          {types.map((t) => <option key={t} value={t}>{movementLabel(t)}</option>)}
+                        </select>
+                      ) : (
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${TYPE_STYLES[m.type]}`}>{movementLabel(m.type)}</span>
+                      )}
+                      {m.type !== m.detected && <div className="text-[11px] text-gray-400 mt-0.5">detected as {movementLabel(m.detected).toLowerCase()}</div>}
+                    </td>
+                    <td className="py-1.5 px-3 text-xs">
+                      {m.eligibilityNote ? (
+                        <span className={m.type === "upgrade" && m.upgradeEligible === false ? "text-red-700 font-medium" : "text-gray-600"}>
+                          {m.eligibilityNote}
+                        </span>
+                      ) : "—"}
+                    </td>
+                    <td className="py-1.5 px-3 text-center">
+                      {canManage ? (
+                        <input type="checkbox" checked={m.verified} onChange={(e) => handleUpdate(m, { verified: e.target.checked })} />
+                      ) : m.verified ? <CheckCircle2 className="w-4 h-4 text-green-600 mx-auto" /> : "—"}
+                    </td>
+                    <td className="py-1.5 px-3">
+                      <input
+                        defaultValue={m.notes}
+                        disabled={!canManage}
+                        onBlur={(e) => e.target.value !== m.notes && handleUpdate(m, { notes: e.target.value })}
+                        placeholder="e.g. OTS sanctioned"
+                        className="w-48 px-2 py-1 border border-gray-200 rounded text-xs bg-white disabled:bg-gray-50"
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+              {periodMovements.length === 0 && (
+                <tr><td colSpan={10} className="py-6 text-center text-gray-400">No movements in this period</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
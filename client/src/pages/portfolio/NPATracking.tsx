@@ -5,20 +5,35 @@
  * Reads directly from LOAN_DATA and CCOD_DATA stores (already populated
  * by Branch Portfolio Dashboard Data Upload) — no separate file upload needed.
  *
- * DPD Calculation (RBI IRAC Norms):
+ * DPD Calculation (RBI IRAC Norms, lib/npaSlippage.ts):
  *  Term Loans  → oldest unpaid EMI due date, derived from Sanction Date anniversary
  *  CC/OD       → irregularity date (IRRGDT) or balance-vs-DP heuristic
  *  Hard lock   → NEWIRAC ≥ 03 → dpd = max(dpd, 90)
+ *
+ * DPD is measured as of the loan/CC-OD file date by default; the as-on date
+ * picker projects the position to another date (e.g. quarter-end).
+ *
+ * Regularisation: for each account, the amount to pay on the as-on date to drop
+ * to the next lower SMA bucket and to become fully regular, and the last day a
+ * payment keeps it from slipping to NPA (see regularisationPlan).
+ *
+ * Each account links to its recovery diary (lib/recoveryDiary.ts) so calls,
+ * visits and promises to pay are recorded against the account being chased.
  */
 
 import { useState, useEffect, useMemo } from "react";
 import {
   AlertTriangle, AlertCircle, Clock, Filter, Download,
   Activity, ShieldAlert, ArrowUpDown, RefreshCw, Info,
-  ShieldCheck, ChevronDown, ChevronUp, Building2, User
+  ShieldCheck, ChevronDown, ChevronUp, Building2, User, NotebookPen
 } from "lucide-react";
+import { addDaysISO } from "@/lib/legalProceedings";
 import { getAllRecords, STORES } from "@/lib/portfolioDb";
+import { classifyAsOf, getPortfolioAsOfDate, toISODate } from "@/lib/portfolioTransform";
+import { RecoveryAction, actionTypeLabel, getRecoveryActionsByAccount, normaliseAccountNo } from "@/lib/recoveryDiary";
+import { RiskCategory, daysBetween, daysToNPAOf, parseDate, riskCategoryOf, trackedDPD } from "@/lib/npaSlippage";
 import { Button } from "@/components/ui/button";
+import RecoveryDiaryDialog from "@/components/RecoveryDiaryDialog";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -29,6 +44,7 @@ interface RawLoanRecord {
   ACCTDESC?: string;
   OUTSTAND?: number;
   LIMIT?: number;
+  INSTALAMT?: number;
   IRREGAMT?: number;
   EMISOvrdue?: number;
   Shadow_EMI_Overdue?: number;
@@ -41,6 +57,7 @@ interface RawLoanRecord {
   Computed_NPA_SubCategory?: string;
   Computed_Is_NPA?: boolean;
   Computed_DPD?: number;
+  Computed_DPD_As_Of?: string;
   Computed_NPA_Exempt?: boolean;
   Computed_NPA_Exempt_Reason?: string;
   Exposure_Type?: string;
@@ -65,6 +82,7 @@ interface RawCCODRecord {
   Computed_NPA_SubCategory?: string;
   Computed_Is_NPA?: boolean;
   Computed_DPD?: number;
+  Computed_DPD_As_Of?: string;
   Computed_NPA_Exempt?: boolean;
   Computed_NPA_Exempt_Reason?: string;
   Exposure_Type?: string;
@@ -72,9 +90,16 @@ interface RawCCODRecord {
   Loan_SubCategory?: string;
 }
 
-type RiskCategory = "NPA" | "7_DAYS" | "15_DAYS" | "30_DAYS" | "SAFE";
 type SortField = "dpd" | "account" | "limit";
 
+interface Regularisation {
+  nextBucket: string;          // class reached by paying toNextBucket ("SMA-0", "SMA-1" or "Regular")
+  toNextBucket: number | null; // null when the arrears are not known
+  emisToNextBucket: number;    // EMIs covered by toNextBucket (term loans)
+  toRegular: number | null;
+  payBy: string | null;        // YYYY-MM-DD, last day a payment avoids slipping to NPA; null once NPA
+}
+
 interface TrackedAccount {
   id: string;
   cif: string;
@@ -85,6 +110,7 @@ interface TrackedAccount {
   limit: number;
   irregAmt: number;
   emiOverdue: number;
+  emiAmount: number;
   irregDate: string | null;
   sancDate: string | null;
   irac: string;
@@ -100,35 +126,11 @@ interface TrackedAccount {
   daysToNPA: number;
   riskCategory: RiskCategory;
   reason: string;
+  regularisation: Regularisation;
 }
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
-/**
- * Parse a date string in DD/MM/YYYY or YYYY-MM-DD format.
- * Returns null for invalid or sentinel dates.
- */
-function parseDate(dateStr: string | null | undefined): Date | null {
-  if (!dateStr || dateStr === "00/00/0000" || dateStr === "99/99/9999") return null;
-  // DD/MM/YYYY
-  const ddmm = dateStr.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-  if (ddmm) {
-    const d = new Date(parseInt(ddmm[3]), parseInt(ddmm[2]) - 1, parseInt(ddmm[1]));
-    return isNaN(d.getTime()) ? null : d;
-  }
-  // YYYY-MM-DD (ISO)
-  const iso = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})/);
-  if (iso) {
-    const d = new Date(parseInt(iso[1]), parseInt(iso[2]) - 1, parseInt(iso[3]));
-    return isNaN(d.getTime()) ? null : d;
-  }
-  return null;
-}
-
-function daysBetween(from: Date, to: Date): number {
-  return Math.max(0, Math.floor((to.getTime() - from.getTime()) / 86_400_000));
-}
-
 const formatCurrency = (val: number) =>
   new Intl.NumberFormat("en-IN", {
     style: "currency",
@@ -136,93 +138,83 @@ const formatCurrency = (val: number) =>
     maximumFractionDigits: 0,
   }).format(val);
 
-// ─── DPD Calculator ──────────────────────────────────────────────────────────
+// ─── Regularisation Calculator ───────────────────────────────────────────────
 
-function calculateDPD(
+/** 0 = regular, 1 = SMA-0 (1–30), 2 = SMA-1 (31–60), 3 = SMA-2 (61–89), 4 = NPA (this page treats 90+ as NPA) */
+function bucketRank(dpd: number): number {
+  if (dpd <= 0) return 0;
+  if (dpd <= 30) return 1;
+  if (dpd <= 60) return 2;
+  if (dpd < 90) return 3;
+  return 4;
+}
+
+const BUCKET_NAMES = ["Regular", "SMA-0", "SMA-1", "SMA-2", "NPA"];
+
+/**
+ * Amount to pay on `today` to drop one SMA bucket and to clear all arrears.
+ *
+ * Term loans: EMIs are adjusted oldest first, so paying k EMIs moves the
+ * oldest unpaid due date — and with it the DPD of facilityDPD — k months
+ * forward. The EMI amount is INSTALAMT, or the irregular amount spread over
+ * the overdue EMIs when the file has none. Full regularisation is IRREGAMT
+ * when present (it includes interest and charges), else EMIs × EMI amount.
+ *
+ * CC/OD and NPA accounts: part payments do not move the out-of-order date, and
+ * an NPA is upgraded only when the entire arrears are paid, so the next bucket
+ * is "Regular" and both amounts are the irregular amount.
+ */
+function regularisationPlan(
   facType: "LOAN" | "CCOD",
+  dpd: number,
   emiOverdue: number,
-  irregDate: string | null,
-  sancDate: string | null,
-  irac: string,
-  smaClass: string,
+  emiAmount: number,
+  irregAmt: number,
   balance: number,
   limit: number,
   today: Date
-): { dpd: number; reason: string } {
-  let dpd = 0;
-  let reason = "Standard";
-
-  const parsedIrregDate = parseDate(irregDate);
-  const parsedSancDate = parseDate(sancDate);
-
-  // ── Term Loan DPD ────────────────────────────────────────────────────────
-  if (facType === "LOAN" && emiOverdue > 0) {
-    if (parsedSancDate) {
-      // EMI due day = anniversary of sanction date each month
-      const dueDay = parsedSancDate.getDate();
-
-      // Find the most recent EMI due date on or before today
-      let lastDueYear = today.getFullYear();
-      let lastDueMonth = today.getMonth(); // 0-indexed
-
-      // If today is before the due day this month, last due date was last month
-      if (today.getDate() < dueDay) {
-        lastDueMonth -= 1;
-      }
-
-      // Oldest unpaid EMI = go back (emiOverdue - 1) more months
-      // Note: JS Date handles negative months correctly (year wraps automatically)
-      const oldestDueMonth = lastDueMonth - (emiOverdue - 1);
-
-      // Handle short months (e.g. sanctioned on 31st, Feb has 28 days)
-      const tempDate = new Date(lastDueYear, oldestDueMonth + 1, 0); // last day of target month
-      const actualDueDay = Math.min(dueDay, tempDate.getDate());
-
-      // new Date with negative months auto-adjusts year correctly in JS
-      const oldestDueDate = new Date(lastDueYear, oldestDueMonth, actualDueDay);
-
-      dpd = daysBetween(oldestDueDate, today);
-      reason = `${emiOverdue} EMI${emiOverdue > 1 ? "s" : ""} Overdue (Since ${oldestDueDate.toLocaleDateString("en-GB")})`;
-    } else if (parsedIrregDate) {
-      // Fallback: use irregularity date if sanction date unavailable
-      dpd = daysBetween(parsedIrregDate, today);
-      reason = `${emiOverdue} EMI${emiOverdue > 1 ? "s" : ""} Overdue (Irreg. since ${parsedIrregDate.toLocaleDateString("en-GB")})`;
-    } else {
-      // Last resort: approximate 30 days per overdue EMI
-      dpd = emiOverdue * 30;
-      reason = `${emiOverdue} EMI${emiOverdue > 1 ? "s" : ""} Overdue (Approx.)`;
-    }
+): Regularisation {
+  const daysToNPA = daysToNPAOf(dpd);
+  const payBy = daysToNPA > 0 ? addDaysISO(toISODate(today), daysToNPA - 1) : null;
+  const rank = bucketRank(dpd);
+  const roundUp = (n: number) => Math.ceil(n);
+
+  if (facType === "CCOD") {
+    const overdrawn = limit > 0 && Math.abs(balance) > limit ? Math.abs(balance) - limit : 0;
+    const toRegular = irregAmt > 0 ? roundUp(irregAmt) : overdrawn > 0 ? roundUp(overdrawn) : null;
+    return { nextBucket: "Regular", toNextBucket: toRegular, emisToNextBucket: 0, toRegular, payBy };
   }
 
-  // ── CC/OD DPD ────────────────────────────────────────────────────────────
-  else if (facType === "CCOD") {
-    if (parsedIrregDate) {
-      dpd = daysBetween(parsedIrregDate, today);
-      reason = `Out of Order (Since ${parsedIrregDate.toLocaleDateString("en-GB")})`;
-    } else if (balance > limit && limit > 0) {
-      // No date available — use SMA class as anchor
-      dpd = 15; // conservative starting point
-      reason = "Balance exceeds DP/Limit";
-      if (smaClass === "SMA-1") { dpd = 45; reason = "Balance exceeds DP/Limit (SMA-1)"; }
-      if (smaClass === "SMA-2") { dpd = 75; reason = "Balance exceeds DP/Limit (SMA-2)"; }
-    }
-  }
+  const perEmi = emiAmount > 0 ? emiAmount : emiOverdue > 0 && irregAmt > 0 ? irregAmt / emiOverdue : 0;
+  const toRegular = irregAmt > 0 ? roundUp(irregAmt) : perEmi > 0 && emiOverdue > 0 ? roundUp(perEmi * emiOverdue) : null;
 
-  // ── SMA class fallback (no explicit dates, no EMI count) ─────────────────
-  if (dpd === 0 && smaClass.includes("SMA")) {
-    if (smaClass === "SMA-2") { dpd = 75; reason = `Classified as ${smaClass}`; }
-    else if (smaClass === "SMA-1") { dpd = 45; reason = `Classified as ${smaClass}`; }
-    else if (smaClass === "SMA-0") { dpd = 15; reason = `Classified as ${smaClass}`; }
+  if (rank === 4 || emiOverdue === 0) {
+    return { nextBucket: "Regular", toNextBucket: toRegular, emisToNextBucket: emiOverdue, toRegular, payBy };
   }
 
-  // ── Hard NPA lock (RBI IRAC ≥ 03 = Substandard / Doubtful / Loss) ────────
-  const iracNum = parseInt(irac || "0", 10);
-  if (iracNum >= 3 || smaClass === "NPA") {
-    dpd = Math.max(dpd, 90);
-    if (reason === "Standard") reason = `IRAC ${irac} — Hard NPA Lock`;
+  // Oldest unpaid due date, then the fewest EMIs that move it into a lower bucket
+  const oldestDue = parseDate(addDaysISO(toISODate(today), -dpd))!;
+  let emis = emiOverdue;
+  let dpdAfter = 0;
+  for (let k = 1; k < emiOverdue; k++) {
+    const target = new Date(oldestDue.getFullYear(), oldestDue.getMonth() + k + 1, 0); // last day of that month
+    const nextDue = new Date(target.getFullYear(), target.getMonth(), Math.min(oldestDue.getDate(), target.getDate()));
+    const after = nextDue > today ? 0 : daysBetween(nextDue, today);
+    if (bucketRank(after) < rank) {
+      emis = k;
+      dpdAfter = after;
+      break;
+    }
   }
 
-  return { dpd, reason };
+  const toNextBucket = perEmi > 0 ? roundUp(perEmi * emis) : null;
+  return {
+    nextBucket: BUCKET_NAMES[bucketRank(dpdAfter)],
+    toNextBucket: toNextBucket !== null && toRegular !== null ? Math.min(toNextBucket, toRegular) : toNextBucket,
+    emisToNextBucket: emis,
+    toRegular,
+    payBy,
+  };
 }
 
 // ─── Component ───────────────────────────────────────────────────────────────
@@ -236,19 +228,27 @@ export default function NPATracking() {
   const [sortBy, setSortBy] = useState<SortField>("dpd");
   const [sortAsc, setSortAsc] = useState(false);
   const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
+  const [fileAsOfDate, setFileAsOfDate] = useState<string | null>(null);
+  const [asOfOverride, setAsOfOverride] = useState<string | null>(null); // projection date picked by the user
   const [showExemptPanel, setShowExemptPanel] = useState(false);
   const [exemptSortField, setExemptSortField] = useState<"balance" | "dpd" | "account">("balance");
   const [exemptFilter, setExemptFilter] = useState<"ALL" | "OD_DEPOSIT" | "STAFF">("ALL");
+  const [diary, setDiary] = useState<Map<string, RecoveryAction[]>>(new Map());
+  const [diaryAccount, setDiaryAccount] = useState<{ accountNo: string; name: string } | null>(null);
 
   // ── Load data from IndexedDB ────────────────────────────────────────────
   const loadData = async () => {
     setLoading(true);
     try {
-      const [loans, ccod, custd] = await Promise.all([
+      const [loans, ccod, custd, fileAsOf, actions] = await Promise.all([
         getAllRecords(STORES.LOAN_DATA) as Promise<RawLoanRecord[]>,
         getAllRecords(STORES.CCOD_DATA) as Promise<RawCCODRecord[]>,
         getAllRecords(STORES.CUSTOMER_DIM),
+        getPortfolioAsOfDate(),
+        getRecoveryActionsByAccount(),
       ]);
+      setFileAsOfDate(fileAsOf);
+      setDiary(actions);
       setLoanRecords(loans || []);
       setCcodRecords(ccod || []);
       setCustomerDim((custd as any[]) || []);
@@ -262,8 +262,15 @@ export default function NPATracking() {
 
   useEffect(() => { loadData(); }, []);
 
+  const reloadDiary = async () => {
+    setDiary(await getRecoveryActionsByAccount());
+  };
+
   // ── Build tracked accounts with DPD ────────────────────────────────────
-  const today = useMemo(() => new Date(), []);
+  // As-of date: file date of the last loan/CC-OD upload unless a projection date is picked
+  const asOfDate = asOfOverride ?? fileAsOfDate ?? toISODate(new Date());
+  const today = useMemo(() => parseDate(asOfDate) ?? new Date(), [asOfDate]);
+  const fileDay = useMemo(() => parseDate(fileAsOfDate) ?? today, [fileAsOfDate, today]);
 
   const accounts = useMemo<TrackedAccount[]>(() => {
     const result: TrackedAccount[] = [];
@@ -292,24 +299,12 @@ export default function NPATracking() {
       const limit = r.LIMIT ?? 0;
       const irregAmt = r.IRREGAMT ?? 0;
       const irac = r.NEWIRAC ?? "";
-      // Use pre-computed RBI IRAC class if available; otherwise fall back to legacy SMA_CLASS
-      const computedSMAClass = r.Computed_SMA_Class ?? r.SMA_CLASS ?? "STD";
-      const npaSubCategory = r.Computed_NPA_SubCategory ?? "";
-
-      const { dpd, reason } = calculateDPD(
-        "LOAN",
-        emiOverdue,
-        r.IRRGDT ?? null,
-        r.SANCTDT ?? null,
-        irac,
-        computedSMAClass,
-        balance,
-        limit,
-        today
-      );
+      // RBI IRAC class re-computed as of the chosen date; legacy SMA_CLASS for records without computed fields
+      const asOfClass = classifyAsOf(r, asOfDate);
+      const computedSMAClass = r.Computed_SMA_Class != null ? asOfClass.smaClass : (r.SMA_CLASS ?? "STD");
+      const npaSubCategory = r.Computed_SMA_Class != null ? asOfClass.npaSubCategory : "";
 
-      // Use pre-computed DPD if available and more accurate
-      const effectiveDPD = (r.Computed_DPD != null && r.Computed_DPD > 0) ? Math.max(dpd, r.Computed_DPD) : dpd;
+      const { dpd: effectiveDPD, reason } = trackedDPD(r, "LOAN", fileDay, today, asOfDate);
       const npaExempt = r.Computed_NPA_Exempt === true;
       const exemptReason = r.Computed_NPA_Exempt_Reason ?? "";
 
@@ -318,12 +313,8 @@ export default function NPATracking() {
 
       if (effectiveDPD <= 0) return; // Only stressed accounts
 
-      const daysToNPA = Math.max(0, 90 - effectiveDPD);
-      let riskCategory: RiskCategory = "SAFE";
-      if (daysToNPA === 0) riskCategory = "NPA";
-      else if (daysToNPA <= 7) riskCategory = "7_DAYS";
-      else if (daysToNPA <= 15) riskCategory = "15_DAYS";
-      else if (daysToNPA <= 30) riskCategory = "30_DAYS";
+      const daysToNPA = daysToNPAOf(effectiveDPD);
+      const riskCategory = riskCategoryOf(daysToNPA);
 
       result.push({
         id: r.LoanKey,
@@ -335,6 +326,7 @@ export default function NPATracking() {
         limit,
         irregAmt,
         emiOverdue,
+        emiAmount: r.INSTALAMT ?? 0,
         irregDate: r.IRRGDT ?? null,
         sancDate: r.SANCTDT ?? null,
         irac,
@@ -349,6 +341,7 @@ export default function NPATracking() {
         daysToNPA,
         riskCategory,
         reason,
+        regularisation: regularisationPlan("LOAN", effectiveDPD, emiOverdue, r.INSTALAMT ?? 0, irregAmt, balance, limit, today),
       });
     });
 
@@ -359,24 +352,12 @@ export default function NPATracking() {
       const dp = r.DP ?? limit; // Drawing Power; fallback to limit
       const irregAmt = r.IRREGAMT ?? 0;
       const irac = r.NEWIRAC ?? "";
-      // Use pre-computed RBI IRAC class if available; otherwise fall back to legacy SMA_CLASS
-      const computedSMAClass = r.Computed_SMA_Class ?? r.SMA_CLASS ?? "STD";
-      const npaSubCategory = r.Computed_NPA_SubCategory ?? "";
-
-      const { dpd, reason } = calculateDPD(
-        "CCOD",
-        0, // CC/OD has no EMI concept
-        r.IRRGDT ?? null,
-        null, // no sanction date for CC/OD
-        irac,
-        computedSMAClass,
-        balance,
-        dp, // use Drawing Power for out-of-order check
-        today
-      );
+      // RBI IRAC class re-computed as of the chosen date; legacy SMA_CLASS for records without computed fields
+      const asOfClass = classifyAsOf(r, asOfDate);
+      const computedSMAClass = r.Computed_SMA_Class != null ? asOfClass.smaClass : (r.SMA_CLASS ?? "STD");
+      const npaSubCategory = r.Computed_SMA_Class != null ? asOfClass.npaSubCategory : "";
 
-      // Use pre-computed DPD if available and more accurate
-      const effectiveDPD = (r.Computed_DPD != null && r.Computed_DPD > 0) ? Math.max(dpd, r.Computed_DPD) : dpd;
+      const { dpd: effectiveDPD, reason } = trackedDPD(r, "CCOD", fileDay, today, asOfDate);
       const npaExempt = r.Computed_NPA_Exempt === true;
       const exemptReason = r.Computed_NPA_Exempt_Reason ?? "";
 
@@ -385,12 +366,8 @@ export default function NPATracking() {
 
       if (effectiveDPD <= 0) return;
 
-      const daysToNPA = Math.max(0, 90 - effectiveDPD);
-      let riskCategory: RiskCategory = "SAFE";
-      if (daysToNPA === 0) riskCategory = "NPA";
-      else if (daysToNPA <= 7) riskCategory = "7_DAYS";
-      else if (daysToNPA <= 15) riskCategory = "15_DAYS";
-      else if (daysToNPA <= 30) riskCategory = "30_DAYS";
+      const daysToNPA = daysToNPAOf(effectiveDPD);
+      const riskCategory = riskCategoryOf(daysToNPA);
 
       result.push({
         id: r.LoanKey,
@@ -402,6 +379,7 @@ export default function NPATracking() {
         limit,
         irregAmt,
         emiOverdue: 0,
+        emiAmount: 0,
         irregDate: r.IRRGDT ?? null,
         sancDate: null,
         irac,
@@ -416,11 +394,12 @@ export default function NPATracking() {
         daysToNPA,
         riskCategory,
         reason,
+        regularisation: regularisationPlan("CCOD", effectiveDPD, 0, 0, irregAmt, balance, dp, today),
       });
     });
 
     return result;
-  }, [loanRecords, ccodRecords, customerDim, today]);
+  }, [loanRecords, ccodRecords, customerDim, today, fileDay, asOfDate]);
 
   // ── Exempt Accounts (OD against Deposits + Staff OD) ─────────────────
   const exemptAccounts = useMemo(() => {
@@ -449,7 +428,7 @@ export default function NPATracking() {
       const balance = Math.abs(r.OUTSTAND ?? 0);
       const limit = r.LIMIT ?? 0;
       const irregAmt = r.IRREGAMT ?? 0;
-      const dpd = r.Computed_DPD ?? 0;
+      const { dpd, smaClass } = classifyAsOf(r, asOfDate);
       const exemptType: "OD_DEPOSIT" | "STAFF" =
         (r.Loan_SubCategory === "OD Against Deposits" || r.Loan_SubCategory === "OD Against Fixed Deposit")
           ? "OD_DEPOSIT" : "STAFF";
@@ -464,7 +443,7 @@ export default function NPATracking() {
         irregAmt,
         irregDate: r.IRRGDT ?? null,
         dpd,
-        smaClass: r.Computed_SMA_Class ?? "STD",
+        smaClass,
         irac: r.NEWIRAC ?? "",
         category: r.Loan_Category ?? "",
         subCategory: r.Loan_SubCategory ?? "",
@@ -479,7 +458,7 @@ export default function NPATracking() {
       const balance = Math.abs(r.CurrentBalance ?? 0);
       const limit = r.LIMIT ?? 0;
       const irregAmt = r.IRREGAMT ?? 0;
-      const dpd = r.Computed_DPD ?? 0;
+      const { dpd, smaClass } = classifyAsOf(r, asOfDate);
       const exemptType: "OD_DEPOSIT" | "STAFF" =
         (r.Loan_SubCategory === "OD Against Deposits" || r.Loan_SubCategory === "OD Against Fixed Deposit")
           ? "OD_DEPOSIT" : "STAFF";
@@ -494,7 +473,7 @@ export default function NPATracking() {
         irregAmt,
         irregDate: r.IRRGDT ?? null,
         dpd,
-        smaClass: r.Computed_SMA_Class ?? "STD",
+        smaClass,
         irac: r.NEWIRAC ?? "",
         category: r.Loan_Category ?? "",
         subCategory: r.Loan_SubCategory ?? "",
@@ -504,7 +483,7 @@ export default function NPATracking() {
     });
 
     return result;
-  }, [loanRecords, ccodRecords]);
+  }, [loanRecords, ccodRecords, asOfDate]);
 
   const filteredExemptAccounts = useMemo(() => {
     let list = exemptFilter === "ALL" ? [...exemptAccounts]
@@ -557,13 +536,21 @@ export default function NPATracking() {
   const exportCSV = () => {
     const headers = ["Account No", "CIF", "Customer Name", "Product", "Category", "Sub-Category",
       "Type", "Balance (₹)", "Limit (₹)", "Irregular Amt (₹)", "EMIs Overdue",
-      "IRAC", "SMA Class", "Calculated DPD", "Days to NPA", "Risk Category", "Stress Reason"];
-    const rows = filteredAccounts.map(a => [
-      a.id, a.cif, `"${a.name}"`, `"${a.acctDesc}"`, a.category, a.subCategory,
-      a.facType, a.balance, a.limit, a.irregAmt, a.emiOverdue,
-      a.irac, a.smaClass, a.dpd, a.daysToNPA === 0 ? "NPA" : a.daysToNPA,
-      a.riskCategory.replace("_", " "), `"${a.reason}"`
-    ]);
+      "IRAC", "SMA Class", "Calculated DPD", "Days to NPA", "Risk Category", "Stress Reason",
+      "To Next Bucket (₹)", "Next Bucket", "To Regularise (₹)", "Pay By",
+      "Recovery Actions", "Last Action", "Last Action Date"];
+    const rows = filteredAccounts.map(a => {
+      const actions = diary.get(normaliseAccountNo(a.id)) ?? [];
+      return [
+        a.id, a.cif, `"${a.name}"`, `"${a.acctDesc}"`, a.category, a.subCategory,
+        a.facType, a.balance, a.limit, a.irregAmt, a.emiOverdue,
+        a.irac, a.smaClass, a.dpd, a.daysToNPA === 0 ? "NPA" : a.daysToNPA,
+        a.riskCategory.replace("_", " "), `"${a.reason}"`,
+        a.regularisation.toNextBucket ?? "", a.regularisation.nextBucket,
+        a.regularisation.toRegular ?? "", a.regularisation.payBy ?? "",
+        actions.length, actions[0] ? actionTypeLabel(actions[0].type) : "", actions[0]?.date ?? ""
+      ];
+    });
     const csv = [headers, ...rows].map(r => r.join(",")).join("\n");
     const blob = new Blob([csv], { type: "text/csv" });
     const url = URL.createObjectURL(blob);
@@ -615,16 +602,37 @@ export default function NPATracking() {
             )}
           </p>
         </div>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={loadData}
-          disabled={loading}
-          className="flex items-center gap-2 bg-white"
-        >
-          <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
-          Refresh Data
-        </Button>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1.5 text-xs">
+            <label htmlFor="npa-as-of" className="text-slate-500 whitespace-nowrap">DPD as on</label>
+            <input
+              id="npa-as-of"
+              type="date"
+              value={asOfDate}
+              onChange={e => setAsOfOverride(e.target.value || null)}
+              className="border border-slate-300 rounded px-2 py-1 bg-white text-slate-700 focus:outline-none focus:ring-1 focus:ring-blue-400"
+            />
+            {asOfOverride && asOfOverride !== fileAsOfDate && (
+              <button
+                onClick={() => setAsOfOverride(null)}
+                className="px-2 py-1 rounded bg-amber-100 text-amber-800 font-medium hover:bg-amber-200"
+                title={fileAsOfDate ? `Back to the file date (${fileAsOfDate.split("-").reverse().join("/")})` : "Back to today"}
+              >
+                Projection · reset
+              </button>
+            )}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={loadData}
+            disabled={loading}
+            className="flex items-center gap-2 bg-white"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+            Refresh Data
+          </Button>
+        </div>
       </div>
 
       {/* Loading */}
@@ -783,13 +791,15 @@ export default function NPATracking() {
                       <div className="flex items-center justify-center gap-1">DPD {sortBy === "dpd" && <ArrowUpDown className="w-3 h-3" />}</div>
                     </th>
                     <th className="p-3">Days to NPA</th>
+                    <th className="p-3" title="Amount to pay on the as-on date">To Regularise</th>
                     <th className="p-3">Risk</th>
+                    <th className="p-3">Recovery Diary</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-100">
                   {filteredAccounts.length === 0 ? (
                     <tr>
-                      <td colSpan={7} className="p-8 text-center text-slate-400 text-sm">
+                      <td colSpan={9} className="p-8 text-center text-slate-400 text-sm">
                         No accounts in this risk category.
                       </td>
                     </tr>
@@ -899,6 +909,31 @@ export default function NPATracking() {
                           </div>
                         </td>
 
+                        {/* Regularisation */}
+                        <td className="p-3 text-xs">
+                          {acc.regularisation.toRegular === null ? (
+                            <span className="text-slate-400 italic" title="No EMI or irregular amount in the file">Arrears not known</span>
+                          ) : (
+                            <>
+                              {acc.regularisation.nextBucket !== "Regular" && acc.regularisation.toNextBucket !== null && (
+                                <div title={`${acc.regularisation.emisToNextBucket} EMI${acc.regularisation.emisToNextBucket > 1 ? "s" : ""}`}>
+                                  <span className="font-bold text-slate-800">{formatCurrency(acc.regularisation.toNextBucket)}</span>
+                                  <span className="text-slate-400"> → {acc.regularisation.nextBucket}</span>
+                                </div>
+                              )}
+                              <div>
+                                <span className="font-bold text-green-700">{formatCurrency(acc.regularisation.toRegular)}</span>
+                                <span className="text-slate-400"> → Regular</span>
+                              </div>
+                            </>
+                          )}
+                          {acc.regularisation.payBy && (
+                            <div className="text-[10px] text-red-600 mt-0.5">
+                              Pay by {parseDate(acc.regularisation.payBy)!.toLocaleDateString("en-GB")}
+                            </div>
+                          )}
+                        </td>
+
                         {/* Risk Badge */}
                         <td className="p-3">
                           <span className={`inline-flex items-center px-2 py-1 rounded-full text-[11px] font-bold border shadow-sm ${getRiskBg(acc.riskCategory)}`}>
@@ -911,6 +946,32 @@ export default function NPATracking() {
                           </span>
                         </td>
 
+                        {/* Recovery Diary */}
+                        <td className="p-3">
+                          {(() => {
+                            const actions = diary.get(normaliseAccountNo(acc.id)) ?? [];
+                            return (
+                              <button
+                                onClick={() => setDiaryAccount({ accountNo: acc.id, name: acc.name })}
+                                className="flex items-center gap-1.5 text-left text-xs text-purple-700 hover:underline"
+                                title="Open the recovery diary"
+                              >
+                                <NotebookPen className="w-3.5 h-3.5 shrink-0" />
+                                {actions.length === 0 ? (
+                                  <span className="text-slate-400">Add action</span>
+                                ) : (
+                                  <span>
+                                    {actions.length} · {actionTypeLabel(actions[0].type)}
+                                    <span className="block text-[10px] text-slate-400">
+                                      {new Date(`${actions[0].date}T00:00:00`).toLocaleDateString("en-IN")}
+                                    </span>
+                                  </span>
+                                )}
+                              </button>
+                            );
+                          })()}
+                        </td>
+
                       </tr>
                     ))
                   )}
@@ -1237,6 +1298,14 @@ export default function NPATracking() {
 
         </div>
       )}
+
+      <RecoveryDiaryDialog
+        open={diaryAccount !== null}
+        onOpenChange={(open) => { if (!open) setDiaryAccount(null); }}
+        accountNo={diaryAccount?.accountNo ?? ""}
+        customerName={diaryAccount?.name}
+        onChanged={reloadDiary}
+      />
     </div>
   );
 }
@@ -20,6 +20,7 @@
 import { useEffect, useState, useRef } from "react";
 import { X, Printer, Loader2 } from "lucide-react";
 import { getAllRecords, STORES } from "@/lib/portfolioDb";
+import { code39Svg } from "@/lib/barcode";
 
 const SBI_LOGO_B64 = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAASwAAAEsCAMAAABOo35HAAAACXBIWXMAAAsTAAALEwEAmpwYAAADAFBMVEVHcEwAte8oIHUoIHUAtO4oIHUoIHUoH3QpIHUoIHUAte8pH3UoIHUmJnwpIHQoIHUpH3UpH3UAte8AtO8Ate8pH3QAtO4pIHUAtO4pIHUoIHUAtO4AtfAAtO4As+4oIHQoH3QoIHYAtO8oIXYAte8AsuwoH3QAte8nJHkpH3QpH3QoH3QoH3UoH3UoIXYoIHYoIHQpHnQpH3UoH3QpH3UpH3UoIHUoIHUoIncoIHUoIngoIHUoIHUoIHUpHHEnJHkoH3UoIHUoH3QoIHUoIHUAtO4oIHUAs+4oIHUoIXYoIHYoIHUoIHUoIHUoIncoH3UoIHUoIHUAtO8oIHUAtO4oIHYAsewoIHUoIncDqOUAtO4oIHUoIHUoIXYoIHUoIHUAsewoIHUoIHUAsewoIHYAs+4nI3gAtO4oIHUoIHUoIHUoIHUoIHUoIHUoIHYoI3goIHUoIXYoIXYoIHUoIHUoIHUAtO4oIncoH3UAtO4AtO4oH3UBruooIHUAs+4Ate8oIHUoIHUAsuwoH3UoIXYoIHUoIHYoIHUoIHUoIXYAsu0AtO4QfcIlMIMBr+oAte4oIHUnJXooIHYCqeYAtO4As+4Asu0oIHUoIHYoH3UAtO4AtO4oIHUoIHUAtO4oIHUoIHUAs+4oInYAs+4As+4As+4AsewoIHUAtO4AtO4AtO4oIHUAtO4Asu0As+4BrukAtO4AtO4nI3gAtO4oIXYoIHUAtO4oIHUAs+4oIHUoH3UAs+4CrOcAtO4oIHYAsuwBr+ooH3UAtO4AsewAs+0AtO4BruoAtO4AtO4As+0oIHUAte8AtO4oIHUAtO4Asu0As+4oIHUAsu0As+4AtO4oIXYAtO4As+4oIHUoIHUBsOsAsu0AtO4As+4As+4AtO4AtO4As+0As+4AtO4oIHUAs+0As+0As+0CrOgAtO4AtO4EpeIAs+4AtO4oIHUImdkAs+0Asu0AtO4As+0oIHUAtO4As+4pIHUAte8pH3QAtO4oIHUoH3UoIHQoH3QpH3Xh645/AAAA93RSTlMA/vsD/gH9Av7+A/78CEnWL/oBAvz++8T9/Pr6BPwEtfyZAgT9g/2JBfz7/rbkK5eoA/z7/fvL8xb5Hfjv9QMNvKX68lXrhUQxJTRg1ZwHuh1t/smHTB3PEwXbeXw+4U4saZUaN3IKx5+rZ5DoikEDoiMYjdvs7RH3+JLDDpJq+bPfPsEfflJa5ig6lQEDFf4tCSIIv4wqxxqww7JEd5iCc0cegG11JtPW1PZj3iBJEPGvD8oG3bxrm3jOkArRRTIS46kwheANzu9lW0+e3Kw1YVgjXrk78m/pRxc4tzuK5aJCUvPZfk1oC+N4BGnZuQJ7V+hncNekTn5eCwAAF/tJREFUeNrsmgmQFNUZgN/0znRPD81CdmeGYWYHsZaaYnZlZUJcdwMbboTlErmW+1puSSHlclQJwSyIKEaiBqO5AIMExBBLUikhRkxSAhqJCYc5TIiWSVATTMwx7/ULa97rPZjp7pk+ZkjFqv+jYNnZ7d1+3/z///73XiMEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP8vlJWXlwcCAfZv2fX7JT7OJ1sTU1SmExcIFFeZT0pJUpcmSUqlpE+gqUCg/ePlGQsf2PfaO6/te2DhjMvZXyoYKdWhadKGprqmDZM6BeYTJtkhxZzbCVTTi52OolzTseS2pT97cvbomIq1P7H1s5f/4cC+GZqv8sJjKsX/rZu3avXWqT3mD7j/5fk9aq9MnHNfz2X89WIEmPQ/iNIybuqHb/90+XoVa/SLB8PBeL/2T9TTy6fdxkOssHyUuKrGOcPupKSDdMeH6L1b9zbyUZaYCEa333yjJYvXzF10X3MdspReuX3i4pv1TKxBPkeqvvjgES6qXzgcj0S8Xo8Xs7/eSCQeDge5sCPffPvDQnTxqFq3t1ZmchKCoCiKKIoJkX0UhEHcmHxwTKOZLgmNJfZIiy0zV6yq0VIt5210f9ns0gUoZV/VyW+fUrmoeIQ7wplwa8wYCzL1xaW/ca2LSRi3eAgLJUERZSJ3S3fil4lfFpUoIZS2ju9u0CWhnhvFqGBNtC8fNo3Wzt3JJ5Fcsg6SesOV9NfIXvYyVUumfaQyUxGvysyYoQljvtT1v5+hXeF8AkQbVm8kZJAih2R/2oC/2i8rVSFCX5/SXTdQJutT6W5pK7qxH8ycC1VMWPSJz7NkNE+s7j2IqP/l/v+U2pLF+oR7njqNcTCuZV5uvMxXnOXj96YdZVc5D6tfDGBBxWMq12j5YJUqQt/dgbJywqaszihlP0Rg8XVDIzIffwGy+iD0xnsYs6Dy6LLPLLw8LLwwvnQGoQqHrpatpWQEH0n+ocp+kem6shNldKtOZHX6EhKErulvWodcyyorQ0+fV3EswuPGDuzbIjGsPraHtar2XVWicRNIUiGmCagbaYiy6Nq4KiMsHMrq8MWia+ZOM1tuZbHas+UwDkawx54qTZcHR4J405sOKlclah5ColZh1XXjhAqEDj/WVeedy2rXFSUNpSa2XMqqQJfPqjisYu8d2D53eLEaxupzR+2mYiW60ECi6WrZ/kBZLk5t6rx9N7L4jEEEkh5ltOVOVgVa+FceVl4vdgbTxYLryEv2YqsE7b6V3bdlBmaWeiLXk4Nf7egT3cniznu3pUsNfZsrWQH03cP4C2yKw85hV8Xwpnfs2JJQ03yHrpitajKYbO6ICpeymIM2hTTU6C24kRVAb/AU9LhxpVUulop/ttVC3MRy0O93Ns5qmUTHdty/a1lpP3uXZlbqFjIuZJWjLSqOY8t2IU8qxrG61NJWCv2TjKDVfuejnFhYzWrPRDqCjtElonNZAebKE3HvSuvpIx681CITJfRIAxGJ7LQ4i6Thkc6IcC8r7Q+xCNUlomNZFegcd+Vx76rDlnomvy0JDSfRNodxxQq8QNZ0zWMFyNJ+0trCZPVB+1QccdYxmNhiHRdW/5Svg5BQIw3JITNZ3dgXOCEaMsaDSFrqukqNmSw2X4qyDr9JAPPQqt+ZJcKhrADac5HXK1wovG4d/kme2JLQCvbW+s1aRlGIViUSiaooWy/qFoxyehCZe61BMpNFZMMmSyKqyNQwkfDq962sZsuZrDL06HfYXFa4K24rjGe/gnLt2fjQ/pFElE3aKCXJN1M4fJyDFDmjt+CBNX/otTnMPLKUW7NoqGc/KaFkbv10fKdCDj7kPg3L0b9xrCiuuK0YPptTVgpNMQYWb9CThA5Y+cKO6aULxs8dPmEw3+QS051Tpkyr6KqMKcxMlkJq67bt/+w1tu2evr2WEoEltzGKGzNNOJLVhzVYQW9BtT2zbnmD6l9ylS0fmkwU480rhPYaNfTad9UsmlzPwkukWnHzs69PqLTYoknSVpPfN/1ubkv35oQEMiUzD53IKkfPXuTFHeMihVYEH37avN3yoXUtRPQbEkjbVEBSqoRR2b5fvnPM/WkiaMkoy0m6I7M3Mo+sXqjEl4lUwoQsG9ZWRXXvjnxL21q3kVWGvlakgnWtbL1lnogS+no6oSu5fiK2jWxGvhL94diGOS0kpJBqHliPI6ud0t5Xe5mcMPRHy3qwy3UmWMq6rFkB9PfiJWFXIp4znRFL0F6alPXrmBAtZaMyOfepW0y14ErQ7NWvfVmoEv2IGjbNsqcLR5H16OyidA3Z/cMR0xkxhSYSQV/eBbICVZrlLHvxwgTSV1TI5GwPDmSx1x4nSrVeVsvtrmQF0IGiJqFmS43hv5mFloRuIEJIv9FOm3PM0r4UOnYjJUl6AUluZaXQN4hg6FQaMttS27LK0MlLrCJ7iioLs4XT6C+Zlq1eRNFF1mfIvZPyHWssomSg7r6dyeJlUi+rvoaNrAB6Xw2qxQ0sHlpB9Y9modX/OE36jdNY3gOzUSN7FiBLQjUN+lWPW1no8hG+V1BsWGi9d49JaHFZab2sqRbbFPt9hpec1KxtQ/QuRDLyLhc1K4DOsanQW3RZPLT+YRJa0tS23oY0bNmQ97ECyeQVJ7LuGmmUdWedqwL/GJu6rgOeOF5udufD+KFBdk4k6TPGziH7qgJkSWhsVJeGrM/q8ZDzPqscvaTi6xBY/DjRo/7W0MZ/Dg0kgn67QCQDmkx7hzyx5qTAL0j3lfUr6SsuOvgAmsb6BnvnEd5IOBwLh+NeWycafEf+K4Y8LEFjaJVs3I1rPebIljNZa/TBzD4f42Zt+OGLOO61oypyzWkwbkeXN44PzTJ2AqPSfXXrWn81rSK1+7PXO8WThfrfrdsT8vv7phc4l8Wz0M4DDfxQEMcOnT0x7cSPD21StaPFh60fgzDmoYTGDTacgbGutKptyKt5H6FyLesYmkKU7LdHztp1tS2Lde9q0GpV2H7GNfv9hbu0a3btOfAvOydmfIH4lMlOzVTDFg23JRA6uZlZKCmqLKlEQhc2EpHqd0pXuthW1vYbvFYpqIbxxTdntT+krD22PGvLaRxUrVLRE8bnDZ1WCs012VWW23f/VjbzTPUVLqtjj4b/99UGomT/Pr7hsyBrXW5LVhk6esmqI2XJFMbP/zLjWVv+VO6M5ayPsogtL1vynNTb8ml5KJs+5BIidGuprYdubUbWl8eNb00zV7L+UHpCpfNzw3L0czbivEN+mG9Onf9Al04VaNdzfJHksSpavzM0D/wkTDA7dOnQdfwHTciy1ueX5UPba4e1trbWvt6QJglRVyPl9KD0M9mnrLZkBdAZ1r5bbuQ9HzC0AOzzJy33KljR2sIfjdONcze7fbPzaE1XgpBfbR6Lcj7RaEeWhJ6gV69epdq5h78te6+RNyrHfS6edahAJ3Asf3SwNd7pZ02WLQG0ZDTL4LwXe2P4QeOlKbQ6Hc1xIM0PeQRC5MmjJuXNRqvIGk7qk59OKqLx4JC9EKLz3Bzfa/Vdzd+H5zp8qGg/5LBY8bxltnYZ+n3TROw8aBX585/vvrAuTythJWvgx7fkegqARrMbUvuz4QencNxj1VnmPDA9ZdHPsgpvbEt5YzqP5nnYgZ+vCkny8ZDNNTmjy60sFlX15CZXT/6VoVc+spgMPUG8NMepVgD9l70rgY3qOMOz9h7vmUcpNrsxSx0H2dmwNhjM4eLiAwzhMkfN1QIhQGk4QrAI5kg4wk1DCQEaoJBwpA2lghQCBCiBiDaQNG1KSokqJUUlTUOTqEeiSq303rwpS2feW+/xrnnzbFWKNB8gH2KP+fafmX/+//v/+YxmWoXK8lcswjSVoAnFHTTKYZKd7gdhdPFOG0/CK1kQdYUX55qOMe7ImnPceY3GO+Xx92wSpvlgym2KNgI/+oTVo0NguBwPOqjZBLH8LpmNwbGPW5ajeLasYIbWko2sAjCLlqgoUl59xn5Tep4S3cFb6VUbudYiFJYctX9JeXHt4V0WG6NXsoLw3V34AOSNrFsUN9wfUT6yFXnkgQsUxwM7WhssycKDeg3hVd5ReaTThZZONhuXZ8uC0cGjgan80x1ZIyjaNbwXTnIg6xM6WT+yyUwHwLBaTdtNoSvYAOXuHY3xG89rlyin9ovAi6a0AJykHFn8NmmHJFmP0Mk6affwSrB1IoQ54YSjtpQUDMTgmArDZu/dssjUHhIwsOXWsnZMoJD1pgNZ//JsWVqqGByWoCQh6tIVhbWGcjbvfpZmq1+UsCv/8JpFm4YR5ZoDWYe8rlmteYivDoawLIgca1LEsIxXrkZqoZMrski1hlgN12XH9V3uhoXU3fB5+yofcF6J+Chp/F84iZfx+G90kjFdcrnDZCSKpATMYss7WdpUbIALmeNZ2FOi+Fl4RTs1x9bPuolPhxTX4cn3QL5zkmtc03pEdH4OdOn6rckUMZtbsghbcTQsc4d1R9Zq6nC7qL+3mYdJ8Y2zB//rX4J8iigezG36qwxjOaIYFu3njgS/vtW5KizrII2eiGLk6BWyplAjfranVzDnDaceo58N59la1m7Kg32FyudTqVFPTNe4xirkWKaJbSsKqwKuQzTFaRFuPEdMGJ9VQJ3xRKxkjTr8iRJ1IIH0j00xKV1a+ala6hw4xEyfd1P+S9715f0SXuslO8dLKEcNGXJlmmW9PHbNdzDG9qkaiogG1xg+w6fPJ0alTctl8G8bLZ6lK60KLKSVmqrLOSTdTbngtkwMgJ1rliEYl2ysC2/5lAoL6+zOknfG46OCbJjhJAKYYVouyTpCjZSqEeV35gJo/PMVN5HSRyyt0oou/MYG/mcMIouXpXWRidi9dXw0skJ1GvRD5eQ3YD+jBhefqB9Lr1ouY/AbaGnDCT61i7INGMaMf7pE9CR+Wgx+hPs6cyKL7DFsI4LhHMsK13IR1m5yqDe0tqwA/hQGXoQ5Bg2uIGdKel2uWc8+SM3uEAO58hwoSI8afzv1I2KSflrx9KmbgKHjg7Z4Na8jk9GiyJWk+15Ljo8tIw1WvGtMh8n42JNWyLnNG553kTf0d1E+PwlSw8ZfRxxTutBT+E4ercPiNWO8rrqVzYURE72k70lBdhCKKHuJz9Tgus1I3+8iI63gmajuvp6cUfng6h9UQjGNK2yRDzD2LwB63H3Yehg3x52FdO0bG1mYrTVG7Y4ghOVUlYVbrcMtvP/TtA547Slaq6xMDvxesEddW0Svd/X5S1mWrAzrCoD6+VZRerxON+rzkJGsEKgwxWU1VVgu2zR8fZpSSFXEYGK6qZNSZL3kSoTqL1Te+hXw1KSmBIAmC7bEfnJvfT9kJAujCkrI+GSLWsNkrvVZ21zps3zdlAdSZN1P8zd0RNx6WRZLfR14VI4Zt0QhBw7W+WAlq47U7YWNGq3F+Pdsyr8NND/cI1m0WUiRF9WB7ibBvCDBMR2BF7JKQIts0NDh7bAn2wJPFES01KFHskjG8R+O8YaQs5phSY2xLlHQ9JQBT2SZBIeY+Y3sauX3FRcrEDNZO/As/Lv9LMwFzQechZEhoj41jKB/omafR7JasDdiK793S5Ybv9QLWUQjMcd2eQ+BFY91neHIVgl4CEYNfITR0G96IqsOLDZOai+WhT/8PS5Kd1jJIkfKlfaGFQILIIxuse+VRsg6CKOGRav/HY+WBUixE2r7mpUPTtymmxYzWQ6pbELEbBSXINoM7I2rEiyEUdlG689IVgD8uNboZ+HdcAibU6qb1of0+mhGskidtL1h5YKKQdiLCoZR8T5b4wqAVVD6r3GBX1rvhSz84cj9jE5bg9zC6GelVi0KW2xkkcLf5bYrVgBsv0g0R1Asg8sabZQyutNtcI1SBa1sZOEX/KmpmhV78D9n8+DTUS2a5JGFLJ9fXavad1mpxFtTVBbxUQ/lQPmLkZY+Vx1RUxpP0iRS4MGD7wGmY8dBNJ4NUTP7NCSYR1vjmcgi0sq3n7FfuWdi55wE4/QOBeL8CpPoNjeEV7WYaKg/DZfJ09nPhqES8BWE7Th7yeoQhDVLmBd4zbSuE4GIr53ImqArb/Nsvc0PWgXESaVMdMgMPZyVq/U0JjXz5GxoHB+ZOQfsow595XtMowsQITwYVm1xzkwdnVgtKw98gk/KThORgSwyCRX7pH+AFP6m3rqo04W+tfm7mdWsM3rK5vEJ6cI361YFqyxf8AdjUcKkbhJgGZrOFinNKqRz3BEZyCKTcJ6D+/Qi7CeXmyTdEJ1bMP17zSN3jpzxzqIqBO8zR/8SOXC/Q7Oxvngadhx3No1xZzsOHNnYpxbG+kNjBhd/SFIFY6Q0fZ6e86BjBb57skjl/akTdifoXDCa5GkEo/aDaJRJJ5oBnctIL5qwRaRUEMtSYXMrssJ3Br3RKxtP10gkH2kRdYVZBf2MlvU18BfVyX9wTRbxGtSTdjmdAHlfkrnHkRhGpMdRPJxIoHBZ1DJ9WI6P0WccEhaoA0J38B/yN/kP81+WIyJzplvMTuCzTsM88G+11D5U7JYsLb1xxHbBCoGx0E4DL5DuWXhHF+1TYcOdUmEdUIf+BDH8N6Z9jfUPWj8ZUQNUsVeyZs7El7SEja8NZPn8ulawwNZ1v4HiImu3v1RTqJpvtEMbOy29jQ0rswUJe8+/fC0VqOzweSZL44okGW1ddy/d/lrtpnNGh7A2kaUJJxZ4bgnVmuG6pFVd+jySpddwHgIOjcbOrIJR5IUtInxZusuxjR0DV1J28b2X1pt4jJNUX5FlfbkLsjBXRT51D3DIUYRA/UWtUTfzAKEYk/+Ynjht6SZJdmP5Mnu9oZmt921qVOlk6fWuPwGO+ZxcUL8RlgUZm9+SzbJBzqy4aUufUhiModnZElVP7YLzC8BvbyvdLDZFKllat+DjHwPKDUa5YPsQCElnczauNBkoaDtZuojwoAe1sqUHcfRtpbTI1OCcQhaeuUWlyrFZ9NQXfv2DiCqAN6xXqAFO3JX51r03okZRiJqAl3pDS+906kpVMy6fa7J2aGalHnrOTbI+EADN52BMkqG75sqCJpitOpP1zj2RJYhh0ih96ExPhU42tgVOTlOUiF/N1EA4kEV6YkQU5a1P3fbOrwT1vREsk+SwC+vCA5RisOfc7IoUD2QJuqIebXy8vfrBawtXHnj9w4jii/gzJqMtWdgA/ZFSpfDSauD6wjU87uYqQpdIoys5wBbgoiUUxacVBVJmtqzJqsqsLbejYAPZe0XVrvxonY3WZOm3yfgU9fQspstkiBDr5aWIiGOd/AgxTMJOsNdMU0KWjSzseOCTZxzCoS1LLHO7bSFLu6Lo+6f9+mUy2tZoRRZpT0MuklFf2MB8TRH+dHfNHoO0TreCJV96/2AIxd7fBiE3/bOseUoIYjAoRUkMaP3hTZbFi20kSxP3gauHyCVhEd2+jGRpVzoRppZfuA4yZYEMdJVsKa4mnW5ztMJvIWsDFESJ2ILUZ6TVAMmNTrEBcUd0va8ruZiJ1PNjpnot3jLX/pKiMTDaNxsDBtx1TZY+/md/c/641vojUvSkmknW2qIIKURRj+/+501PVLWq/LYe/OGgu6SlALkpLKh13Q5iS5C0q8LQwy0V1gPU7gq762hTMCEnNCE8ql2/7qEDpLuubfeDjg9DZHy4LE8G7jsJ6ff1Hf3s9N90pXwmWeRn9c8vPHUUtOnWPq3+eeujfZZWy6YL0ao7dZ9Zbye2wUfy/T2LaVi3YP7C6Y2XR2mlq05dbnp0H1zc04Di8aMB001/+dpKtPrWU9fmTcOnvnuTZL2p/uzVa0durU79D+/QbuwDZ3du2Tzknk69amqro4OGfnCuav/wGxXbQfvcbqinQsD/A/lJw1m9d0rqd1P2vpI0vYJ2eIXUVY1nB24aVVFRMWpfsiG1c8ejgAtod2e6aQRk+WhvwynIM7lQ+Ra/axNh2deBfkmvZE2zk2/5fXtCM4XQl/26Xw4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg4ODg6O/7UHhwQAAAAAgv6/9oQRAAAAAAAAAAAAAOAXNqypkYFjfa0AAAAASUVORK5CYII=";
 
@@ -204,6 +205,7 @@ ${isClosed ? '<div class="closed-wm"><span class="closed-wm-text">CLOSED</span><
       <div style="text-align:right;">
         <div style="font-size:17pt;font-weight:bold;color:#0e7490;border:2px solid #0e7490;padding:1.5mm 4mm;border-radius:4px;letter-spacing:1px;">${serialNo}</div>
         <div style="font-size:7pt;color:#888;margin-top:0.5mm;">SOLAR File No.</div>
+        <div style="margin-top:1mm;">${code39Svg(serialNo)}</div>
       </div>
     </div>
   </div>
@@ -406,6 +408,7 @@ export default function PMSuryaGharFrontPage({ record, onClose }: Props) {
                     {record.serialNo}
                   </div>
                   <div style={{ fontSize: "7pt", color: "#888", marginTop: "0.5mm" }}>SOLAR File No.</div>
+                  <div style={{ marginTop: "1mm" }} dangerouslySetInnerHTML={{ __html: code39Svg(record.serialNo) }} />
                 </div>
               </div>
             </div>
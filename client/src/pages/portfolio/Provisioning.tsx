@@ -0,0 +1,462 @@
+/**
+ * Provisioning — branch provision requirement under the RBI IRAC norms
+ *
+ * Computes the required provision of every loan and CC/OD account as on the
+ * chosen date (see lib/provisioning.ts), compares it with the provision booked,
+ * and summarises shortfall / excess by asset class and, for standard assets,
+ * by sector. Security value, realisable value and booked provision of NPA
+ * accounts, booked standard provision per sector and sector overrides (e.g.
+ * CRE) are entered here. The summary exports to Excel for the quarterly return.
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import * as XLSX from "xlsx";
+import { Calculator, Download, RefreshCw, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getAllRecords, getRecordCount, STORES } from "@/lib/portfolioDb";
+import { formatINR, getPortfolioAsOfDate, toISODate } from "@/lib/portfolioTransform";
+import { normaliseAccountNo } from "@/lib/recoveryDiary";
+import { useBranch } from "@/contexts/BranchContext";
+import {
+  AccountProvision,
+  AccountProvisionInput,
+  AssetClass,
+  ProvisionInputs,
+  STANDARD_SECTORS,
+  StandardSector,
+  defaultSector,
+  emptyProvisionInputs,
+  loadProvisionInputs,
+  loadReportEdits,
+  npaDatesByAccount,
+  provisionForAccount,
+  saveProvisionInputs,
+  sectorLabel,
+  summariseByClass,
+  summariseStandardBySector,
+} from "@/lib/provisioning";
+import { toast } from "sonner";
+
+const CLASS_COLORS: Record<AssetClass, string> = {
+  Standard: "bg-green-100 text-green-800",
+  Substandard: "bg-yellow-100 text-yellow-800",
+  D1: "bg-orange-100 text-orange-800",
+  D2: "bg-red-100 text-red-800",
+  D3: "bg-red-200 text-red-900",
+  Loss: "bg-gray-200 text-gray-800",
+};
+
+// Standard accounts listed at once in the sector assignment search
+const SECTOR_SEARCH_LIMIT = 50;
+
+function fmtDate(iso: string | null): string {
+  if (!iso) return "—";
+  const [y, m, d] = iso.split("-");
+  return `${d}/${m}/${y}`;
+}
+
+function fmtAmt(n: number): string {
+  return n.toLocaleString("en-IN", { maximumFractionDigits: 0 });
+}
+
+/** Number input value; an empty box clears the entry */
+function parseAmount(value: string): number | undefined {
+  if (value.trim() === "") return undefined;
+  const n = Number(value);
+  return isNaN(n) ? undefined : n;
+}
+
+export default function Provisioning() {
+  const { branchName, branchCode } = useBranch();
+  const [records, setRecords] = useState<any[]>([]);
+  const [npaDates, setNpaDates] = useState<Map<string, string>>(new Map());
+  const [reportEdits, setReportEdits] = useState<Record<string, { securityHeld?: string }>>({});
+  const [inputs, setInputs] = useState<ProvisionInputs>(emptyProvisionInputs());
+  const [asOf, setAsOf] = useState(toISODate(new Date()));
+  const [loading, setLoading] = useState(true);
+  const [hasData, setHasData] = useState(false);
+  const [sectorSearch, setSectorSearch] = useState("");
+
+  useEffect(() => { loadData(); }, []);
+
+  async function loadData() {
+    setLoading(true);
+    try {
+      const [lc, cc] = await Promise.all([getRecordCount(STORES.LOAN_DATA), getRecordCount(STORES.CCOD_DATA)]);
+      if (lc === 0 && cc === 0) { setHasData(false); setLoading(false); return; }
+      setHasData(true);
+      const [loans, ccod, npaData, saved, edits, fileDate] = await Promise.all([
+        getAllRecords(STORES.LOAN_DATA),
+        getAllRecords(STORES.CCOD_DATA),
+        getAllRecords(STORES.NPA_DATA),
+        loadProvisionInputs(),
+        loadReportEdits(),
+        getPortfolioAsOfDate(),
+      ]);
+      setRecords([...loans, ...ccod]);
+      setNpaDates(npaDatesByAccount(npaData));
+      setInputs(saved);
+      setReportEdits(edits);
+      if (fileDate) setAsOf(fileDate);
+    } catch (e) {
+      console.error(e);
+      toast.error("Failed to load provisioning data");
+    }
+    setLoading(false);
+  }
+
+  async function updateInputs(updated: ProvisionInputs) {
+    setInputs(updated);
+    await saveProvisionInputs(updated);
+  }
+
+  function updateAccountInput(accountNo: string, field: keyof AccountProvisionInput, value: number | StandardSector | undefined) {
+    const key = normaliseAccountNo(accountNo);
+    const entry = { ...(inputs.accounts[key] || {}), [field]: value };
+    if (value === undefined) delete entry[field];
+    updateInputs({ ...inputs, accounts: { ...inputs.accounts, [key]: entry } });
+  }
+
+  function updateStandardBooked(sector: StandardSector, value: number | undefined) {
+    updateInputs({ ...inputs, standardBooked: { ...inputs.standardBooked, [sector]: value } });
+  }
+
+  // ── Computation ─────────────────────────────────────────────────────────────
+  const rows = useMemo(() => {
+    const ctx = { asOf, inputs, npaDates, reportEdits };
+    return records
+      .map((r) => provisionForAccount(r, ctx))
+      .filter((p): p is AccountProvision => p !== null);
+  }, [records, asOf, inputs, npaDates, reportEdits]);
+
+  const npaRows = useMemo(
+    () => rows.filter((r) => r.assetClass !== "Standard").sort((a, b) => b.outstanding - a.outstanding),
+    [rows]
+  );
+  const byClass = useMemo(() => summariseByClass(rows, inputs), [rows, inputs]);
+  const bySector = useMemo(() => summariseStandardBySector(rows, inputs), [rows, inputs]);
+
+  const totals = useMemo(() => {
+    const required = byClass.reduce((s, c) => s + c.required, 0);
+    const booked = byClass.reduce((s, c) => s + c.booked, 0);
+    const npaOutstanding = npaRows.reduce((s, r) => s + r.outstanding, 0);
+    const npaRequired = npaRows.reduce((s, r) => s + r.required, 0);
+    return {
+      required,
+      booked,
+      shortfall: required - booked,
+      npaOutstanding,
+      coverage: npaOutstanding > 0 ? (npaRequired / npaOutstanding) * 100 : 0,
+    };
+  }, [byClass, npaRows]);
+
+  // Standard accounts matching the search, plus those already given a sector
+  const sectorRows = useMemo(() => {
+    const term = sectorSearch.trim().toLowerCase();
+    const standard = rows.filter((r) => r.assetClass === "Standard");
+    const overridden = standard.filter((r) => inputs.accounts[normaliseAccountNo(r.accountNo)]?.sector);
+    if (!term) return overridden;
+    const matches = standard
+      .filter((r) => r.accountNo.toLowerCase().includes(term) || r.customerName.toLowerCase().includes(term))
+      .slice(0, SECTOR_SEARCH_LIMIT);
+    return Array.from(new Set([...overridden, ...matches]));
+  }, [rows, inputs, sectorSearch]);
+
+  // ── Export ──────────────────────────────────────────────────────────────────
+  function exportExcel() {
+    const wb = XLSX.utils.book_new();
+    const summary = [
+      [`Provisioning Summary — ${branchName || ""} (${branchCode || ""})`],
+      [`As on ${fmtDate(asOf)}`],
+      [],
+      ["Asset Class", "Accounts", "Outstanding", "Secured Portion", "Unsecured Portion", "Required Provision", "Provision Held", "Shortfall / (Excess)"],
+      ...byClass.map((c) => [c.assetClass, c.accounts, c.outstanding, c.securedPortion, c.unsecuredPortion, c.required, c.booked, c.shortfall]),
+      [
+        "Total",
+        byClass.reduce((s, c) => s + c.accounts, 0),
+        byClass.reduce((s, c) => s + c.outstanding, 0),
+        byClass.reduce((s, c) => s + c.securedPortion, 0),
+        byClass.reduce((s, c) => s + c.unsecuredPortion, 0),
+        totals.required,
+        totals.booked,
+        totals.shortfall,
+      ],
+    ];
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(summary), "Summary");
+
+    const npa = [
+      ["Account No", "Name", "Category", "Outstanding", "Asset Class", "NPA Date", "Security Value", "Realisable Value", "Secured Portion", "Unsecured Portion", "Required Provision", "Provision Held", "Shortfall / (Excess)"],
+      ...npaRows.map((r) => [
+        r.accountNo, r.customerName, r.category, r.outstanding, r.assetClass, fmtDate(r.npaDate),
+        r.securityValue, r.realisableValue, r.securedPortion, r.unsecuredPortion, r.required, r.booked ?? 0, r.required - (r.booked ?? 0),
+      ]),
+    ];
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(npa), "NPA Accounts");
+
+    const standard = [
+      ["Sector", "Rate (%)", "Accounts", "Outstanding", "Required Provision", "Provision Held", "Shortfall / (Excess)"],
+      ...bySector.map((s) => [s.label, s.rate, s.accounts, s.outstanding, s.required, s.booked, s.shortfall]),
+    ];
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(standard), "Standard Assets");
+
+    XLSX.writeFile(wb, `Provisioning_${asOf}.xlsx`);
+  }
+
+  if (loading) return <div className="flex items-center justify-center h-64"><div className="w-8 h-8 border-4 border-purple-500 border-t-transparent rounded-full animate-spin" /></div>;
+  if (!hasData) return (
+    <div className="flex items-center justify-center h-64"><div className="text-center">
+      <Calculator className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+      <h3 className="text-xl font-semibold text-gray-600 mb-2">No Loan Data</h3>
+      <p className="text-gray-400">Upload the Loan Balance and/or CC/OD Balance files.</p>
+    </div></div>
+  );
+
+  const amountInput = (value: number | undefined, onChange: (v: number | undefined) => void, placeholder = "") => (
+    <input
+      type="number"
+      min="0"
+      value={value ?? ""}
+      placeholder={placeholder}
+      onChange={(e) => onChange(parseAmount(e.target.value))}
+      className="w-28 px-2 py-1 border border-gray-200 rounded text-xs text-right bg-white"
+    />
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">Provisioning</h2>
+          <p className="text-gray-500 mt-1">Required provision under RBI IRAC norms against provision held</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-600" htmlFor="provision-as-on">As on</label>
+          <input
+            id="provision-as-on"
+            type="date"
+            value={asOf}
+            onChange={(e) => e.target.value && setAsOf(e.target.value)}
+            className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+          />
+          <Button variant="outline" size="sm" onClick={loadData} className="gap-1">
+            <RefreshCw className="w-4 h-4" /> Refresh
+          </Button>
+          <Button size="sm" onClick={exportExcel} className="gap-1 bg-gradient-to-r from-pink-600 to-purple-700 hover:opacity-90 text-white">
+            <Download className="w-4 h-4" /> Export Excel
+          </Button>
+        </div>
+      </div>
+
+      {/* Key Metrics */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-4 shadow-sm">
+          <p className="text-xs text-gray-500 mb-1">Required Provision</p>
+          <p className="text-xl font-bold text-purple-700">{formatINR(totals.required)}</p>
+          <p className="text-xs text-gray-400">{rows.length.toLocaleString("en-IN")} accounts</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4 shadow-sm">
+          <p className="text-xs text-gray-500 mb-1">Provision Held</p>
+          <p className="text-xl font-bold text-blue-700">{formatINR(totals.booked)}</p>
+          <p className="text-xs text-gray-400">as entered below</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4 shadow-sm">
+          <p className="text-xs text-gray-500 mb-1">{totals.shortfall >= 0 ? "Shortfall" : "Excess"}</p>
+          <p className={`text-xl font-bold ${totals.shortfall > 0 ? "text-red-700" : "text-green-700"}`}>{formatINR(Math.abs(totals.shortfall))}</p>
+          <p className="text-xs text-gray-400">{totals.shortfall > 0 ? "to be provided" : "no additional provision"}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4 shadow-sm">
+          <p className="text-xs text-gray-500 mb-1">NPA Provision Coverage</p>
+          <p className="text-xl font-bold text-amber-700">{totals.coverage.toFixed(1)}%</p>
+          <p className="text-xs text-gray-400">of {formatINR(totals.npaOutstanding)} NPA</p>
+        </div>
+      </div>
+
+      {/* Asset class summary */}
+      <div className="bg-white rounded-xl border border-gray-200 p-5 shadow-sm">
+        <h3 className="text-sm font-medium text-gray-500 mb-3">By Asset Class</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-xs text-gray-500">
+                <th className="text-left py-2 px-3">Asset Class</th>
+                <th className="text-right py-2 px-3">Accounts</th>
+                <th className="text-right py-2 px-3">Outstanding</th>
+                <th className="text-right py-2 px-3">Secured</th>
+                <th className="text-right py-2 px-3">Unsecured</th>
+                <th className="text-right py-2 px-3">Required</th>
+                <th className="text-right py-2 px-3">Held</th>
+                <th className="text-right py-2 px-3">Shortfall / (Excess)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {byClass.map((c) => (
+                <tr key={c.assetClass} className="border-b border-gray-100">
+                  <td className="py-2 px-3"><span className={`px-2 py-0.5 rounded-full text-xs font-medium ${CLASS_COLORS[c.assetClass]}`}>{c.assetClass}</span></td>
+                  <td className="py-2 px-3 text-right">{c.accounts.toLocaleString("en-IN")}</td>
+                  <td className="py-2 px-3 text-right">{fmtAmt(c.outstanding)}</td>
+                  <td className="py-2 px-3 text-right">{c.assetClass === "Standard" ? "—" : fmtAmt(c.securedPortion)}</td>
+                  <td className="py-2 px-3 text-right">{c.assetClass === "Standard" ? "—" : fmtAmt(c.unsecuredPortion)}</td>
+                  <td className="py-2 px-3 text-right font-medium">{fmtAmt(c.required)}</td>
+                  <td className="py-2 px-3 text-right">{fmtAmt(c.booked)}</td>
+                  <td className={`py-2 px-3 text-right font-medium ${c.shortfall > 0 ? "text-red-700" : "text-green-700"}`}>
+                    {c.shortfall < 0 ? `(${fmtAmt(-c.shortfall)})` : fmtAmt(c.shortfall)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Standard assets by sector */}
+      <div className="bg-white rounded-xl border border-gray-200 p-5 shadow-sm">
+        <h3 className="text-sm font-medium text-gray-500 mb-3">Standard Assets by Sector</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-xs text-gray-500">
+                <th className="text-left py-2 px-3">Sector</th>
+                <th className="text-right py-2 px-3">Rate</th>
+                <th className="text-right py-2 px-3">Accounts</th>
+                <th className="text-right py-2 px-3">Outstanding</th>
+                <th className="text-right py-2 px-3">Required</th>
+                <th className="text-right py-2 px-3">Held</th>
+                <th className="text-right py-2 px-3">Shortfall / (Excess)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {bySector.map((s) => (
+                <tr key={s.sector} className="border-b border-gray-100">
+                  <td className="py-2 px-3">{s.label}</td>
+                  <td className="py-2 px-3 text-right">{s.rate}%</td>
+                  <td className="py-2 px-3 text-right">{s.accounts.toLocaleString("en-IN")}</td>
+                  <td className="py-2 px-3 text-right">{fmtAmt(s.outstanding)}</td>
+                  <td className="py-2 px-3 text-right font-medium">{fmtAmt(s.required)}</td>
+                  <td className="py-2 px-3 text-right">{amountInput(inputs.standardBooked[s.sector], (v) => updateStandardBooked(s.sector, v), "0")}</td>
+                  <td className={`py-2 px-3 text-right font-medium ${s.shortfall > 0 ? "text-red-700" : "text-green-700"}`}>
+                    {s.shortfall < 0 ? `(${fmtAmt(-s.shortfall)})` : fmtAmt(s.shortfall)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-4 border-t border-gray-100 pt-4">
+          <div className="flex items-center justify-between gap-3 mb-2">
+            <p className="text-xs text-gray-500">
+              Sectors follow the loan category (agriculture and MSME at 0.25%, others at 0.40%). Assign CRE, CRE-RH or teaser-rate housing accounts here.
+            </p>
+            <div className="relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+              <input
+                value={sectorSearch}
+                onChange={(e) => setSectorSearch(e.target.value)}
+                placeholder="Account no or name"
+                className="pl-8 pr-3 py-2 border border-gray-200 rounded-lg text-sm bg-white w-56"
+              />
+            </div>
+          </div>
+          {sectorRows.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-xs text-gray-500">
+                  <th className="text-left py-2 px-3">Account</th>
+                  <th className="text-left py-2 px-3">Name</th>
+                  <th className="text-left py-2 px-3">Category</th>
+                  <th className="text-right py-2 px-3">Outstanding</th>
+                  <th className="text-left py-2 px-3">Sector</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sectorRows.map((r) => {
+                  const override = inputs.accounts[normaliseAccountNo(r.accountNo)]?.sector;
+                  return (
+                    <tr key={r.accountNo} className="border-b border-gray-100">
+                      <td className="py-1.5 px-3 font-mono text-xs">{r.accountNo}</td>
+                      <td className="py-1.5 px-3">{r.customerName}</td>
+                      <td className="py-1.5 px-3 text-xs text-gray-500">{r.category || "—"}</td>
+                      <td className="py-1.5 px-3 text-right">{fmtAmt(r.outstanding)}</td>
+                      <td className="py-1.5 px-3">
+                        <select
+                          value={override ?? ""}
+                          onChange={(e) => updateAccountInput(r.accountNo, "sector", (e.target.value || undefined) as StandardSector | undefined)}
+                          className="px-2 py-1 border border-gray-200 rounded text-xs bg-white"
+                        >
+                          <option value="">Auto ({sectorLabel(defaultSector({ Loan_Category: r.category }))})</option>
+                          {STANDARD_SECTORS.map((s) => (
+                            <option key={s.value} value={s.value}>{s.label} ({s.rate}%)</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {/* NPA accounts */}
+      <div className="bg-white rounded-xl border border-gray-200 p-5 shadow-sm">
+        <h3 className="text-sm font-medium text-gray-500 mb-1">NPA Accounts ({npaRows.length})</h3>
+        <p className="text-xs text-gray-400 mb-3">
+          Realisable value defaults to the security value, then to the security held entered in the NPA review.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm whitespace-nowrap">
+            <thead>
+              <tr className="border-b border-gray-200 text-xs text-gray-500">
+                <th className="text-left py-2 px-3">Account</th>
+                <th className="text-right py-2 px-3">Outstanding</th>
+                <th className="text-left py-2 px-3">Class</th>
+                <th className="text-left py-2 px-3">NPA Date</th>
+                <th className="text-right py-2 px-3">Security Value</th>
+                <th className="text-right py-2 px-3">Realisable Value</th>
+                <th className="text-right py-2 px-3">Unsecured</th>
+                <th className="text-right py-2 px-3">Required</th>
+                <th className="text-right py-2 px-3">Held</th>
+                <th className="text-right py-2 px-3">Shortfall / (Excess)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {npaRows.map((r) => {
+                const input = inputs.accounts[normaliseAccountNo(r.accountNo)] || {};
+                const shortfall = r.required - (r.booked ?? 0);
+                return (
+                  <tr key={r.accountNo} className="border-b border-gray-100">
+                    <td className="py-1.5 px-3">
+                      <div className="font-mono text-xs">{r.accountNo}</div>
+                      <div className="text-xs text-gray-500 truncate max-w-[200px]">{r.customerName}</div>
+                    </td>
+                    <td className="py-1.5 px-3 text-right">{fmtAmt(r.outstanding)}</td>
+                    <td className="py-1.5 px-3"><span className={`px-2 py-0.5 rounded-full text-xs font-medium ${CLASS_COLORS[r.assetClass]}`}>{r.assetClass}</span></td>
+                    <td className="py-1.5 px-3 text-xs">{fmtDate(r.npaDate)}</td>
+                    <td className="py-1.5 px-3 text-right">
+                      {amountInput(input.securityValue, (v) => updateAccountInput(r.accountNo, "securityValue", v), r.securityValue ? fmtAmt(r.securityValue) : "0")}
+                    </td>
+                    <td className="py-1.5 px-3 text-right">
+                      {amountInput(input.realisableValue, (v) => updateAccountInput(r.accountNo, "realisableValue", v), r.realisableValue ? fmtAmt(r.realisableValue) : "0")}
+                    </td>
+                    <td className="py-1.5 px-3 text-right">{fmtAmt(r.unsecuredPortion)}</td>
+                    <td className="py-1.5 px-3 text-right font-medium">{fmtAmt(r.required)}</td>
+                    <td className="py-1.5 px-3 text-right">
+                      {amountInput(input.bookedProvision, (v) => updateAccountInput(r.accountNo, "bookedProvision", v), "0")}
+                    </td>
+                    <td className={`py-1.5 px-3 text-right font-medium ${shortfall > 0 ? "text-red-700" : "text-green-700"}`}>
+                      {shortfall < 0 ? `(${fmtAmt(-shortfall)})` : fmtAmt(shortfall)}
+                    </td>
+                  </tr>
+                );
+              })}
+              {npaRows.length === 0 && (
+                <tr><td colSpan={10} className="py-6 text-center text-gray-400">No NPA accounts as on {fmtDate(asOf)}</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
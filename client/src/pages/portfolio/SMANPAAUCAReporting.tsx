@@ -8,6 +8,18 @@
  *  1. SMA Accounts  — Monthly Return of Irregular & SMA Advances (IRREG format)
  *  2. NPA Accounts  — Annexure-C Quarterly NPA Review (≤ ₹5 Cr)
  *  3. AUCA Accounts — Annexure-D Quarterly AUCA Review + per-account single-page
+ *
+ * The report date defaults to the loan/CC-OD file date; SMA DPD and class are
+ * computed as on the report date, so a quarter-end return re-runs identically.
+ *
+ * The NPA review's "observation" and "strategy / action plan" come from each
+ * account's recovery diary (lib/recoveryDiary.ts), and the suit / SARFAESI
+ * status of NPA and AUCA accounts from their legal proceedings
+ * (lib/legalProceedings.ts), falling back to the standard wording; edits made
+ * in the report still take precedence. The provision column is computed as on
+ * the report date by the provisioning engine (lib/provisioning.ts), with the
+ * security held entered here as the realisable value unless the Provisioning
+ * page has one.
  */
 
 import { useState, useEffect, useRef, useMemo } from "react";
@@ -17,7 +29,10 @@ import { Button } from "@/components/ui/button";
 import { getAllRecords, STORES } from "@/lib/portfolioDb";
 import { loadData, saveData } from "@/lib/db";
 import { useBranch } from "@/contexts/BranchContext";
-import { formatINR } from "@/lib/portfolioTransform";
+import { formatINR, classifyAsOf, getPortfolioAsOfDate, toISODate } from "@/lib/portfolioTransform";
+import { getRecoveryActionsByAccount, normaliseAccountNo, summariseForReview } from "@/lib/recoveryDiary";
+import { getLegalCasesByAccount, legalStatusText } from "@/lib/legalProceedings";
+import { ProvisionInputs, loadProvisionInputs, npaDatesByAccount, provisionForAccount } from "@/lib/provisioning";
 import { toast } from "sonner";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
@@ -36,8 +51,14 @@ interface SMARow {
   irregularAmt: number;
   irregularDate: string;
   remarks: string;
+  // Inputs for the as-on classification (absent in snapshots saved before it existed)
+  irrgDt?: string | null;
+  irac?: string;
+  npaExempt?: boolean;
 }
 
+type SMAReportRow = SMARow & { dpd: number; smaClass: string };
+
 interface NPARow {
   srNo: number;
   actNo: string;
@@ -119,6 +140,12 @@ function getQuarterLabel(date: Date): string {
   return `SEP ${y}`;
 }
 
+/** Last day of the calendar quarter containing the date */
+function getQuarterEnd(date: Date): Date {
+  const quarterEndMonth = Math.floor(date.getMonth() / 3) * 3 + 3;
+  return new Date(date.getFullYear(), quarterEndMonth, 0);
+}
+
 function getMonthLabel(date: Date): string {
   return date.toLocaleString("en-IN", { month: "short", year: "numeric" }).toUpperCase();
 }
@@ -214,6 +241,8 @@ export default function SMANPAAUCAReporting() {
   const [npaRows, setNpaRows] = useState<NPARow[]>([]);
   const [aucaRows, setAucaRows] = useState<AUCARow[]>([]);
   const [hasData, setHasData] = useState(false);
+  // CBS records and inputs the NPA provision is recomputed from (null for a loaded snapshot)
+  const [provisionBase, setProvisionBase] = useState<{ records: Map<string, any>; inputs: ProvisionInputs; npaDates: Map<string, string> } | null>(null);
   const [sortConfig, setSortConfig] = useState<SortConfig>(null);
 
   const handleSort = (key: string) => {
@@ -283,6 +312,10 @@ export default function SMANPAAUCAReporting() {
         if (saved.rboAddress) setRboAddress(saved.rboAddress);
       }
     });
+    // Report as on the file date, not today
+    getPortfolioAsOfDate().then((asOf) => {
+      if (asOf) setReportDate(new Date(`${asOf}T00:00:00`));
+    });
     loadReportData();
   }, []);
 
@@ -329,7 +362,7 @@ export default function SMANPAAUCAReporting() {
       period: key,
       savedAt: new Date().toISOString(),
       reportDate: reportDate.toISOString(),
-      smaRows, npaRows, aucaRows,
+      smaRows, npaRows: npaRows.map(r => ({ ...r, provision: provisionOf(r) })), aucaRows,
       smaRemarks, npaEdits, aucaEdits,
     };
     await saveData(key, snapshot);
@@ -344,6 +377,7 @@ export default function SMANPAAUCAReporting() {
     if (!snap) { toast.error("Snapshot not found"); return; }
     setSmaRows(snap.smaRows || []);
     setNpaRows(snap.npaRows || []);
+    setProvisionBase(null);
     setAucaRows(snap.aucaRows || []);
     setSmaRemarks(snap.smaRemarks || {});
     setNpaEdits(snap.npaEdits || {});
@@ -357,13 +391,13 @@ export default function SMANPAAUCAReporting() {
     const wb = XLSX.utils.book_new();
     // SMA sheet
     const smaData = [
-      ["SR NO", "Account No", "Name of Borrower", "Account Description", "Security Description", "Sanction Date", "Sanction Limit", "Outstanding", "Irregular Amount", "Date of Irregular", "Remarks"],
-      ...smaRows.map(r => [
+      ["SR NO", "Account No", "Name of Borrower", "Account Description", "Security Description", "Sanction Date", "Sanction Limit", "Outstanding", "Irregular Amount", "Date of Irregular", `DPD as on ${fmtDate(asOfISO)}`, "SMA Class", "Remarks"],
+      ...smaReportRows.map(r => [
         r.srNo, r.accountNo, r.customerName, r.acctDesc, smaSecurities[r.accountNo] ?? r.securityDesc,
         r.sanctionDate, r.sanctionLimit, r.outstanding, r.irregularAmt,
-        r.irregularDate, smaRemarks[r.accountNo] ?? r.remarks,
+        r.irregularDate, r.dpd, r.smaClass, smaRemarks[r.accountNo] ?? r.remarks,
       ]),
-      ["", "", "", "", "", "", "TOTAL", smaTotals.outstanding, smaTotals.irregular, "", ""],
+      ["", "", "", "", "", "", "TOTAL", smaTotals.outstanding, smaTotals.irregular, "", "", "", ""],
     ];
     XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(smaData), "SMA Accounts");
     // NPA sheet
@@ -395,7 +429,7 @@ export default function SMANPAAUCAReporting() {
           ed.activityStatus ?? r.activityStatus,
           r.totalOutstanding,
           ed.securityHeld !== undefined ? Number(ed.securityHeld) : r.securityHeld,
-          r.provision,
+          provisionOf(r),
           ed.migrationDate ?? r.migrationDate,
           r.npaDate,
           r.irac,
@@ -453,11 +487,15 @@ export default function SMANPAAUCAReporting() {
   async function loadReportData() {
     setLoading(true);
     try {
-      const [loans, ccod, npaData] = await Promise.all([
+      const [loans, ccod, npaData, recoveryDiary, legalCases, provisionInputs] = await Promise.all([
         getAllRecords(STORES.LOAN_DATA),
         getAllRecords(STORES.CCOD_DATA),
         getAllRecords(STORES.NPA_DATA),
+        getRecoveryActionsByAccount(),
+        getLegalCasesByAccount(),
+        loadProvisionInputs(),
       ]);
+      const legalStatus = (acctNo: string) => legalStatusText(legalCases.get(normaliseAccountNo(acctNo)));
       const lfnAccounts: any[] = (await loadData("lfn-accounts")) || [];
       const lfnExclusions: any[] = (await loadData("lfn-exclusions")) || [];
 
@@ -508,6 +546,9 @@ export default function SMANPAAUCAReporting() {
         irregularAmt: Number(r.IRREGAMT || 0),
         irregularDate: fmtDate(r.IRRGDT),
         remarks: "", // blank by default; user-entered remarks loaded from smaRemarks
+        irrgDt: r.IRRGDT || null,
+        irac: r.NEWIRAC || r.Shadow_New_IRAC || "",
+        npaExempt: r.Computed_NPA_Exempt === true,
       }));
       setSmaRows(smaBuilt);
 
@@ -522,27 +563,34 @@ export default function SMANPAAUCAReporting() {
       const npaBuilt: NPARow[] = npaFiltered.map((r: any, i: number) => {
         const iracNum = parseInt((r.NEWIRAC || "").trim().replace(/^0+/, ""), 10);
         const outstanding = getOutstanding(r);
+        const actNo = r.LoanKey || r.ACCOUNT_NO || "";
+        const review = summariseForReview(recoveryDiary.get(normaliseAccountNo(actNo)) ?? []);
         return {
           srNo: i + 1,
-          actNo: r.LoanKey || r.ACCOUNT_NO || "",
+          actNo,
           nameOfUnit: r.CUSTNAME || r.CUSTOMER_NAME || "",
           constitution: guessConstitution(r.CUSTNAME || r.CUSTOMER_NAME || ""),
           totalOutstanding: outstanding,
           securityHeld: 0,
-          provision: computeProvision(outstanding, iracNum),
+          provision: 0, // see npaProvisions
           migrationDate: "Not applicable",
           npaDate: fmtDate(r.IRRGDT),
           irac: String(iracNum || ""),
           ra: r.RA || "",
           activityStatus: "UNDER PROCESS",
-          suitStatus: r.SUIT_NO ? `Suit No: ${r.SUIT_NO}` : (r.RRC_NO ? `RRC No: ${r.RRC_NO}` : "NIL"),
-          observation: DEFAULT_OBSERVATION,
-          strategyPlan: DEFAULT_STRATEGY,
+          suitStatus: legalStatus(actNo) ?? (r.SUIT_NO ? `Suit No: ${r.SUIT_NO}` : (r.RRC_NO ? `RRC No: ${r.RRC_NO}` : "NIL")),
+          observation: review.observation ?? DEFAULT_OBSERVATION,
+          strategyPlan: review.strategyPlan ?? DEFAULT_STRATEGY,
         };
       });
       npaBuilt.sort((a, b) => b.totalOutstanding - a.totalOutstanding);
       npaBuilt.forEach((r, i) => { r.srNo = i + 1; });
       setNpaRows(npaBuilt);
+      setProvisionBase({
+        records: new Map(npaFiltered.map((r: any) => [r.LoanKey || r.ACCOUNT_NO || "", r])),
+        inputs: provisionInputs,
+        npaDates: npaDatesByAccount(npaData),
+      });
 
       // ── AUCA Report ──────────────────────────────────────────────────────────
       // Include: any account with IRAC 8 or WRITE_OFF_FLAG as "F"
@@ -575,7 +623,7 @@ export default function SMANPAAUCAReporting() {
           npaDate: fmtDate(loan.IRRGDT),
           raDate: fmtDate(loan.RA_DATE),
           activityStatus: "RRC LODGED",
-          suitStatus: excl.suitDetails || loan.SUIT_NO ? `Suit No: ${loan.SUIT_NO || excl.suitDetails}` : (loan.RRC_NO ? `RRC No: ${loan.RRC_NO}` : "RRC LODGED"),
+          suitStatus: legalStatus(acctNo) ?? (excl.suitDetails || loan.SUIT_NO ? `Suit No: ${loan.SUIT_NO || excl.suitDetails}` : (loan.RRC_NO ? `RRC No: ${loan.RRC_NO}` : "RRC LODGED")),
           observation: AUCA_OBSERVATION,
           strategyPlan: AUCA_STRATEGY,
           // Single-page review fields
@@ -627,14 +675,6 @@ export default function SMANPAAUCAReporting() {
     return "Individual";
   }
 
-  function computeProvision(outstanding: number, irac: number): number {
-    if (irac === 3 || irac === 4) return Math.round(outstanding * 0.15);
-    if (irac === 5) return Math.round(outstanding * 0.25);
-    if (irac === 6) return Math.round(outstanding * 0.40);
-    if (irac === 7 || irac === 8) return Math.round(outstanding * 1.00);
-    return Math.round(outstanding * 0.15);
-  }
-
   function categoryLabel(cat: string): string {
     const map: Record<string, string> = {
       PERLOAN: "PERSONAL LOAN",
@@ -713,6 +753,32 @@ export default function SMANPAAUCAReporting() {
   // ── Font size for print mode ─────────────────────────────────────────────────
   const printFontClass = printMode === "compact" ? "text-[7px]" : printMode === "large" ? "text-[10px]" : "text-[8.5px]";
 
+  // ── SMA classification as on the report date ────────────────────────────────
+  const asOfISO = toISODate(reportDate);
+  const smaReportRows = useMemo<SMAReportRow[]>(() => smaRows.map(r => {
+    const { dpd, smaClass } = classifyAsOf({ IRRGDT: r.irrgDt, NEWIRAC: r.irac, Computed_NPA_Exempt: r.npaExempt }, asOfISO);
+    return { ...r, dpd, smaClass: r.irrgDt === undefined ? "" : smaClass };
+  }), [smaRows, asOfISO]);
+
+  // ── NPA provision as on the report date ─────────────────────────────────────
+  const npaProvisions = useMemo(() => {
+    const provisions = new Map<string, number>();
+    if (!provisionBase) return provisions;
+    const ctx = {
+      asOf: asOfISO,
+      inputs: provisionBase.inputs,
+      npaDates: provisionBase.npaDates,
+      reportEdits: npaEdits as Record<string, { securityHeld?: string }>,
+    };
+    for (const row of npaRows) {
+      const record = provisionBase.records.get(row.actNo);
+      const provision = record ? provisionForAccount(record, ctx) : null;
+      if (provision) provisions.set(row.actNo, provision.required);
+    }
+    return provisions;
+  }, [provisionBase, npaRows, npaEdits, asOfISO]);
+  const provisionOf = (row: NPARow) => npaProvisions.get(row.actNo) ?? row.provision;
+
   // ── Totals ───────────────────────────────────────────────────────────────────
   const smaTotals = useMemo(() => ({
     outstanding: smaRows.reduce((s, r) => s + r.outstanding, 0),
@@ -721,9 +787,9 @@ export default function SMANPAAUCAReporting() {
 
   const npaTotals = useMemo(() => ({
     outstanding: npaRows.reduce((s, r) => s + r.totalOutstanding, 0),
-    provision: npaRows.reduce((s, r) => s + r.provision, 0),
+    provision: npaRows.reduce((s, r) => s + provisionOf(r), 0),
     securityHeld: npaRows.reduce((s, r) => s + (Number(npaEdits[r.actNo]?.securityHeld ?? r.securityHeld) || 0), 0),
-  }), [npaRows, npaEdits]);
+  }), [npaRows, npaEdits, npaProvisions]);
 
   const aucaTotals = useMemo(() => ({
     outstanding: aucaRows.reduce((s, r) => s + r.totalOutstanding, 0),
@@ -790,18 +856,18 @@ export default function SMANPAAUCAReporting() {
           <div className="flex items-center gap-1 text-xs">
             <label className="text-gray-500 whitespace-nowrap">Report as on:</label>
             <input
-              type="month"
+              type="date"
               className="text-xs border rounded px-2 py-1 bg-white focus:outline-none focus:ring-1 focus:ring-indigo-400"
-              value={`${reportDate.getFullYear()}-${String(reportDate.getMonth() + 1).padStart(2, "0")}`}
+              value={asOfISO}
               onChange={e => {
                 if (!e.target.value) return;
-                const [y, m] = e.target.value.split("-").map(Number);
-                // Set to last day of selected month
-                const lastDay = new Date(y, m, 0);
-                setReportDate(lastDay);
+                setReportDate(new Date(`${e.target.value}T00:00:00`));
               }}
             />
           </div>
+          <Button size="sm" variant="outline" onClick={() => setReportDate(getQuarterEnd(reportDate))} title="Project DPD and SMA class to the end of this quarter">
+            Quarter-end
+          </Button>
           <select
             value={printMode}
             onChange={e => setPrintMode(e.target.value as any)}
@@ -911,7 +977,7 @@ export default function SMANPAAUCAReporting() {
               <div className="print-report-header bg-[#003366] text-white text-center py-2 px-4">
                 <div className="font-bold text-sm">STATE BANK OF INDIA, {branchDisplay}</div>
                 <div className="text-xs mt-0.5">Monthly Return of Irregular and SMA Advances Accounts</div>
-                <div className="text-xs mt-0.5 font-semibold">REPORT FOR THE MONTH OF {monthLabel}</div>
+                <div className="text-xs mt-0.5 font-semibold">REPORT FOR THE MONTH OF {monthLabel} (DPD AS ON {fmtDate(asOfISO)})</div>
               </div>
 
 
@@ -931,11 +997,13 @@ export default function SMANPAAUCAReporting() {
                       <SortHeader className="w-16 text-right" sortKey="outstanding" label="OUTSTANDING" />
                       <SortHeader className="w-16 text-right" sortKey="irregularAmt" label="IRREGULAR AMOUNT" />
                       <SortHeader className="w-16 text-center" sortKey="irregularDate" label="DATE OF IRREGULAR" />
+                      <SortHeader className="w-10 text-right" sortKey="dpd" label="DPD" />
+                      <SortHeader className="w-12 text-center" sortKey="smaClass" label="SMA CLASS" />
                       <th className="border border-gray-300 px-1 py-1 text-left">REMARKS</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {getSortedData(smaRows).map((row, idx) => (
+                    {getSortedData(smaReportRows).map((row, idx) => (
                       <tr key={row.accountNo} className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
                         <td className="border border-gray-200 px-1 py-0.5 text-center">{idx + 1}</td>
                         <td className="border border-gray-200 px-1 py-0.5 font-mono">{row.accountNo}</td>
@@ -956,6 +1024,8 @@ export default function SMANPAAUCAReporting() {
                         <td className="border border-gray-200 px-1 py-0.5 text-right">{fmtAmt(row.outstanding)}</td>
                         <td className="border border-gray-200 px-1 py-0.5 text-right font-semibold text-red-700">{fmtAmt(row.irregularAmt)}</td>
                         <td className="border border-gray-200 px-1 py-0.5 text-center">{row.irregularDate}</td>
+                        <td className="border border-gray-200 px-1 py-0.5 text-right">{row.dpd}</td>
+                        <td className="border border-gray-200 px-1 py-0.5 text-center">{row.smaClass}</td>
                         <td className="border border-gray-200 px-1 py-0.5">
                             <textarea
                               className="w-full text-[inherit] bg-transparent resize-none border-0 p-0 focus:outline-none no-print min-w-[120px]"
@@ -969,7 +1039,7 @@ export default function SMANPAAUCAReporting() {
                       </tr>
                     ))}
                     {smaRows.length === 0 && (
-                      <tr><td colSpan={11} className="text-center py-4 text-gray-400">No SMA / Irregular accounts found</td></tr>
+                      <tr><td colSpan={13} className="text-center py-4 text-gray-400">No SMA / Irregular accounts found</td></tr>
                     )}
                     {/* Totals row */}
                     {smaRows.length > 0 && (
@@ -978,7 +1048,7 @@ export default function SMANPAAUCAReporting() {
                         <td className="border border-gray-300 px-1 py-1 text-right">{fmtAmt(smaRows.reduce((s, r) => s + r.sanctionLimit, 0))}</td>
                         <td className="border border-gray-300 px-1 py-1 text-right">{fmtAmt(smaTotals.outstanding)}</td>
                         <td className="border border-gray-300 px-1 py-1 text-right">{fmtAmt(smaTotals.irregular)}</td>
-                        <td colSpan={2} className="border border-gray-300 px-1 py-1"></td>
+                        <td colSpan={4} className="border border-gray-300 px-1 py-1"></td>
                       </tr>
                     )}
                   </tbody>
@@ -994,7 +1064,7 @@ export default function SMANPAAUCAReporting() {
                 </div>
                 <div className="text-xs text-gray-500 text-right">
                   <div>Total Accounts: <span className="font-bold text-gray-800">{smaRows.length}</span></div>
-                  <div>Report Date: <span className="font-bold">{fmtDate(reportDate.toISOString())}</span></div>
+                  <div>Report Date: <span className="font-bold">{fmtDate(asOfISO)}</span></div>
                 </div>
               </div>
             </div>
@@ -1095,7 +1165,7 @@ export default function SMANPAAUCAReporting() {
                           </td>
 
                           {/* Col 8: Provision */}
-                          <td className="border border-gray-200 px-1 py-0.5 text-right">{fmtAmt(row.provision)}</td>
+                          <td className="border border-gray-200 px-1 py-0.5 text-right">{fmtAmt(provisionOf(row))}</td>
                           
                           {/* Col 9: Date of Migration — editable */}
                           <td className="border border-gray-200 px-1 py-0.5 text-center">
@@ -1445,7 +1515,7 @@ export default function SMANPAAUCAReporting() {
                 <div className="mt-3 grid grid-cols-2 gap-4 text-xs">
                   <div>
                     <div className="font-semibold">Kindly Approve</div>
-                    <div>Dated : {fmtDate(reportDate.toISOString())}</div>
+                    <div>Dated : {fmtDate(asOfISO)}</div>
                     <div>Review and Screening Committee</div>
                     <div className="mt-1">(a) Date of review</div>
                     <div>(b) Observations</div>
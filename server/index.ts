@@ -1,14 +1,24 @@
 import express from "express";
+import fs from "fs";
 import { createServer } from "http";
+import { createServer as createHttpsServer } from "https";
 import path from "path";
 import { fileURLToPath } from "url";
+import { createSyncRouter } from "./sync";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 async function startServer() {
   const app = express();
-  const server = createServer(app);
+  // Login and the vault use WebCrypto, which browsers only allow on https or
+  // localhost — serve over https when the other branch PCs open this server
+  const keyFile = process.env.SSL_KEY_FILE;
+  const certFile = process.env.SSL_CERT_FILE;
+  const server =
+    keyFile && certFile
+      ? createHttpsServer({ key: fs.readFileSync(keyFile), cert: fs.readFileSync(certFile) }, app)
+      : createServer(app);
 
   // Serve static files from dist/public in production
   const staticPath =
@@ -16,6 +26,11 @@ async function startServer() {
       ? path.resolve(__dirname, "public")
       : path.resolve(__dirname, "..", "dist", "public");
 
+  // LAN sync API — branch PCs share one dataset through this server; each PC
+  // must be given the branch sync key (SYNC_KEY) before it can sync
+  const syncDataDir = process.env.SYNC_DATA_DIR || path.resolve(process.cwd(), "sync-data");
+  app.use("/api/sync", createSyncRouter(syncDataDir, process.env.SYNC_KEY));
+
   app.use(express.static(staticPath));
 
   // Handle client-side routing - serve index.html for all routes
@@ -26,7 +41,8 @@ async function startServer() {
   const port = process.env.PORT || 3000;
 
   server.listen(port, () => {
-    console.log(`Server running on http://localhost:${port}/`);
+    console.log(`Server running on ${keyFile && certFile ? "https" : "http"}://localhost:${port}/`);
+    console.log(`Sync data: ${syncDataDir}`);
   });
 }
 
@@ -0,0 +1,337 @@
+/**
+ * LAN sync API
+ *
+ * The branch PCs open the app from this server and keep their IndexedDB
+ * stores in step through it (see shared/sync.ts for the protocol and
+ * client/src/lib/syncEngine.ts for the client side).
+ *
+ *   GET  /api/sync/status                         scopes with their sequence
+ *   GET  /api/sync/:scope/changes?since=&limit=   records newer than `since`
+ *   POST /api/sync/:scope/push                    { clientId, changes }
+ *   POST /api/sync/serials                        { clientId, requests }
+ *
+ * Dak serials are handed out here while the server is reachable: a reservation
+ * bumps the counter in the counters scope in one step, so two PCs never get
+ * the same serial, and the new counter value reaches every PC with the next
+ * pull.
+ *
+ * Every route needs the branch sync key (SYNC_KEY_HEADER) the server was
+ * started with; without a key configured the API stays switched off.
+ *
+ * Each scope is kept in memory and journalled to <dataDir>/<scope>.jsonl,
+ * one line per write, so a push is on disk before it is acknowledged. The
+ * journal is compacted (rewritten with the latest copy of each record) once
+ * it has grown well past the number of records.
+ *
+ * User accounts, the vault and vault-sealed values belong to one PC and are
+ * refused (isLocalOnlyKey in shared/sync.ts).
+ */
+
+import crypto from "crypto";
+import express, { Router } from "express";
+import fs from "fs";
+import path from "path";
+import {
+  COUNTER_SCOPE,
+  SYNC_BATCH_SIZE,
+  SYNC_KEY_HEADER,
+  SYNC_SCOPES,
+  SerialRequest,
+  SerialReservationRequest,
+  SerialReservationResponse,
+  SyncChange,
+  SyncChangesResponse,
+  SyncPushRequest,
+  SyncPushResponse,
+  SyncPushResult,
+  SyncRecord,
+  SyncStatusResponse,
+  isLocalOnlyKey,
+  isSyncScope,
+  resolveConflict,
+} from "../shared/sync";
+
+// Shortest sync key accepted — it is all that keeps other LAN hosts out
+const MIN_SYNC_KEY_LENGTH = 12;
+
+// Most serials one reservation may take from a counter
+const MAX_SERIALS_PER_REQUEST = 1000;
+
+// Journal lines allowed per record before compaction
+const COMPACT_RATIO = 2;
+const COMPACT_MIN_LINES = 1000;
+
+interface ScopeState {
+  seq: number;
+  records: Map<string, SyncRecord>;
+  journalLines: number;
+  file: string;
+}
+
+// ============================================================
+// Storage
+// ============================================================
+class SyncStore {
+  private scopes = new Map<string, ScopeState>();
+
+  constructor(private dataDir: string) {
+    fs.mkdirSync(dataDir, { recursive: true });
+  }
+
+  private fileFor(scope: string): string {
+    return path.join(this.dataDir, `${encodeURIComponent(scope)}.jsonl`);
+  }
+
+  scope(name: string): ScopeState {
+    let state = this.scopes.get(name);
+    if (state) return state;
+
+    state = { seq: 0, records: new Map(), journalLines: 0, file: this.fileFor(name) };
+    if (fs.existsSync(state.file)) {
+      for (const line of fs.readFileSync(state.file, "utf8").split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          const record: SyncRecord = JSON.parse(line);
+          state.seq = Math.max(state.seq, record.version);
+          state.journalLines++;
+          // Pushed before those keys were kept local; dropped at the next compaction
+          if (isLocalOnlyKey(name, record.key)) continue;
+          state.records.set(record.key, record);
+        } catch {
+          // A torn last line from a crash mid-write; the client still has that change queued
+          console.warn(`[sync] Skipped unreadable line in ${state.file}`);
+        }
+      }
+    }
+    this.scopes.set(name, state);
+    return state;
+  }
+
+  status(): SyncStatusResponse {
+    const scopes: SyncStatusResponse["scopes"] = {};
+    for (const name of Object.keys(SYNC_SCOPES)) {
+      const state = this.scope(name);
+      scopes[name] = { seq: state.seq, records: state.records.size };
+    }
+    return { serverTime: Date.now(), scopes };
+  }
+
+  changes(name: string, since: number, limit: number): SyncChangesResponse {
+    const state = this.scope(name);
+    const newer = Array.from(state.records.values())
+      .filter((r) => r.version > since)
+      .sort((a, b) => a.version - b.version);
+    const records = newer.slice(0, limit);
+    return {
+      records,
+      cursor: records.length > 0 ? records[records.length - 1].version : Math.max(since, 0),
+      hasMore: newer.length > records.length,
+    };
+  }
+
+  push(name: string, clientId: string, changes: SyncChange[]): SyncPushResponse {
+    const state = this.scope(name);
+    const policy = SYNC_SCOPES[name];
+    const written: SyncRecord[] = [];
+    const results: SyncPushResult[] = [];
+
+    for (const change of changes) {
+      const current = state.records.get(change.key);
+      let outcome: { resolution: SyncPushResult["resolution"]; value: any; deleted: boolean };
+
+      if (!current || change.baseVersion >= current.version) {
+        outcome = { resolution: "applied", value: change.value, deleted: change.deleted };
+      } else {
+        outcome = resolveConflict(policy, current, change);
+      }
+
+      if (outcome.resolution === "server-kept") {
+        results.push({ key: change.key, resolution: outcome.resolution, record: current! });
+        continue;
+      }
+
+      const record: SyncRecord = {
+        key: change.key,
+        value: outcome.deleted ? null : outcome.value,
+        deleted: outcome.deleted,
+        version: ++state.seq,
+        updatedAt: outcome.resolution === "merged" ? Math.max(current!.updatedAt, change.updatedAt) : change.updatedAt,
+        updatedBy: clientId,
+      };
+      state.records.set(record.key, record);
+      written.push(record);
+      results.push({ key: change.key, resolution: outcome.resolution, record });
+    }
+
+    if (written.length > 0) this.append(state, written);
+    return { results };
+  }
+
+  /** Take the next serials of named counters; returns the first one of each */
+  reserve(clientId: string, requests: SerialRequest[]): SerialReservationResponse {
+    const state = this.scope(COUNTER_SCOPE);
+    const now = Date.now();
+    const written: SyncRecord[] = [];
+    const first: Record<string, number> = {};
+
+    for (const { name, count, floor } of requests) {
+      const current = Number(state.records.get(name)?.value?.value) || 0;
+      const start = Math.max(current, floor) + 1;
+      const record: SyncRecord = {
+        key: name,
+        // Same shape as the counters store on the PCs
+        value: { name, value: start + count - 1, updatedAt: now },
+        deleted: false,
+        version: ++state.seq,
+        updatedAt: now,
+        updatedBy: clientId,
+      };
+      state.records.set(name, record);
+      written.push(record);
+      first[name] = start;
+    }
+
+    if (written.length > 0) this.append(state, written);
+    return { first };
+  }
+
+  private append(state: ScopeState, records: SyncRecord[]) {
+    fs.appendFileSync(state.file, records.map((r) => JSON.stringify(r)).join("\n") + "\n");
+    state.journalLines += records.length;
+    if (state.journalLines > Math.max(COMPACT_MIN_LINES, state.records.size * COMPACT_RATIO)) {
+      this.compact(state);
+    }
+  }
+
+  private compact(state: ScopeState) {
+    // Written beside the journal and renamed over it, so a crash leaves one or the other intact
+    const tmp = `${state.file}.tmp`;
+    const lines = Array.from(state.records.values()).map((r) => JSON.stringify(r));
+    fs.writeFileSync(tmp, lines.join("\n") + (lines.length > 0 ? "\n" : ""));
+    fs.renameSync(tmp, state.file);
+    state.journalLines = lines.length;
+  }
+}
+
+// ============================================================
+// Routes
+// ============================================================
+function isValidChange(change: any): change is SyncChange {
+  return (
+    !!change &&
+    typeof change.key === "string" &&
+    typeof change.deleted === "boolean" &&
+    typeof change.baseVersion === "number" &&
+    typeof change.updatedAt === "number"
+  );
+}
+
+/** Constant-time comparison of the key a request carries with the branch key */
+function keyMatches(given: string, expected: string): boolean {
+  const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(given), digest(expected));
+}
+
+function isValidSerialRequest(request: any): request is SerialRequest {
+  return (
+    !!request &&
+    typeof request.name === "string" &&
+    Number.isInteger(request.count) &&
+    request.count > 0 &&
+    request.count <= MAX_SERIALS_PER_REQUEST &&
+    Number.isInteger(request.floor) &&
+    request.floor >= 0
+  );
+}
+
+export function createSyncRouter(dataDir: string, syncKey: string | undefined): Router {
+  const store = new SyncStore(dataDir);
+  const router = Router();
+  const enabled = !!syncKey && syncKey.length >= MIN_SYNC_KEY_LENGTH;
+  if (!enabled) {
+    console.warn(`[sync] LAN sync is off: set SYNC_KEY to a branch sync key of at least ${MIN_SYNC_KEY_LENGTH} characters`);
+  }
+
+  // Checked before the body is read, so only PCs holding the key can send one
+  router.use((req, res, next) => {
+    if (!enabled) {
+      res.status(503).json({ error: "LAN sync is not set up on the branch server" });
+      return;
+    }
+    const given = req.get(SYNC_KEY_HEADER);
+    if (!given || !keyMatches(given, syncKey!)) {
+      res.status(401).json({ error: "Enter the branch sync key on this PC" });
+      return;
+    }
+    next();
+  });
+
+  // CBS files reach 100k+ records; pushes are batched but each record can be large
+  router.use(express.json({ limit: "50mb" }));
+
+  router.get("/status", (_req, res) => {
+    res.json(store.status());
+  });
+
+  router.post("/serials", (req, res) => {
+    const body = req.body as SerialReservationRequest;
+    if (
+      !body ||
+      typeof body.clientId !== "string" ||
+      !Array.isArray(body.requests) ||
+      !body.requests.every(isValidSerialRequest) ||
+      new Set(body.requests.map((r) => r.name)).size !== body.requests.length
+    ) {
+      res.status(400).json({ error: "Expected { clientId, requests: [{ name, count, floor }] } with one request per counter" });
+      return;
+    }
+    try {
+      res.json(store.reserve(body.clientId, body.requests));
+    } catch (error) {
+      console.error("[sync] Serial reservation failed:", error);
+      res.status(500).json({ error: "Could not reserve serials on the server" });
+    }
+  });
+
+  router.get("/:scope/changes", (req, res) => {
+    const scope = req.params.scope;
+    if (!isSyncScope(scope)) {
+      res.status(404).json({ error: `Unknown sync scope ${scope}` });
+      return;
+    }
+    const since = parseInt(String(req.query.since ?? "0"), 10) || 0;
+    const limit = Math.min(parseInt(String(req.query.limit ?? SYNC_BATCH_SIZE), 10) || SYNC_BATCH_SIZE, 5000);
+    res.json(store.changes(scope, since, limit));
+  });
+
+  router.post("/:scope/push", (req, res) => {
+    const scope = req.params.scope;
+    if (!isSyncScope(scope)) {
+      res.status(404).json({ error: `Unknown sync scope ${scope}` });
+      return;
+    }
+    const body = req.body as SyncPushRequest;
+    if (!body || typeof body.clientId !== "string" || !Array.isArray(body.changes) || !body.changes.every(isValidChange)) {
+      res.status(400).json({ error: "Expected { clientId, changes: [{ key, value, deleted, baseVersion, updatedAt }] }" });
+      return;
+    }
+    const localOnly = body.changes.find((c) => isLocalOnlyKey(scope, c.key));
+    if (localOnly) {
+      res.status(403).json({ error: `${localOnly.key} is kept on each PC and cannot be synced` });
+      return;
+    }
+    try {
+      res.json(store.push(scope, body.clientId, body.changes));
+    } catch (error) {
+      console.error(`[sync] Push to ${scope} failed:`, error);
+      res.status(500).json({ error: "Could not save the changes on the server" });
+    }
+  });
+
+  // Unknown sync routes must not fall through to index.html
+  router.use((_req, res) => {
+    res.status(404).json({ error: "Not found" });
+  });
+
+  return router;
+}
@@ -0,0 +1,217 @@
+/**
+ * LAN sync protocol — shared by the Express sync API (server/sync.ts) and the
+ * client sync engine (client/src/lib/syncEngine.ts).
+ *
+ * Every synced IndexedDB store is a "scope" named "<database>/<store>". The
+ * server keeps one copy of each record with a version taken from a per-scope
+ * sequence, so a PC pulls changes with `since=<last version seen>` and pushes
+ * its own edits with the version they were based on. A push whose base is
+ * older than the server copy is a conflict, settled by the scope's policy.
+ */
+
+// ============================================================
+// Scopes and policies
+// ============================================================
+/**
+ * - last-writer: the later edit (by its client timestamp) wins
+ * - merge: list values of records with an id (leads, tasks, dak entries) are
+ *   merged item by item; other values fall back to last-writer
+ * - max: counters keep the higher number so serials never go backwards
+ */
+export type SyncPolicy = "last-writer" | "merge" | "max";
+
+export const SYNC_SCOPES: Record<string, SyncPolicy> = {
+  "SBI_Branch_App_DB/app_data": "merge",
+  "SBI_Branch_App_DB/counters": "max",
+  "BranchPortfolioDB/product-category-mapping": "last-writer",
+  "BranchPortfolioDB/loan-product-mapping": "last-writer",
+  "BranchPortfolioDB/deposit-data": "last-writer",
+  "BranchPortfolioDB/loan-data": "last-writer",
+  "BranchPortfolioDB/ccod-data": "last-writer",
+  "BranchPortfolioDB/npa-data": "last-writer",
+  "BranchPortfolioDB/loan-shadow": "last-writer",
+  "BranchPortfolioDB/deposit-shadow": "last-writer",
+  "BranchPortfolioDB/portfolio-settings": "last-writer",
+  "BranchPortfolioDB/portfolio-snapshots": "last-writer",
+  "BranchPortfolioDB/recovery-actions": "last-writer",
+  "BranchPortfolioDB/legal-cases": "last-writer",
+  "BranchPortfolioDB/npa-report-history": "last-writer",
+  "BranchPortfolioDB/npa-movements": "last-writer",
+  "LoanFileManagerDB/loan-file-data": "merge",
+};
+
+/**
+ * app_data keys that never leave the PC. Accounts and the vault are per PC:
+ * every PC creates its own vault data key on its first login, so values
+ * sealed with it (vault.ts PROTECTED_KEYS) cannot be opened on any other PC.
+ * For the same reason the sealed customer-dim store is not a sync scope.
+ */
+const LOCAL_ONLY_KEYS = ["sbi-users", "sbi-vault", "rlmsDraft", "bank_visit_reports"];
+const LOCAL_ONLY_KEY_PREFIXES = ["rlmsApp_"];
+
+// Named counters (Dak serials); the server also hands out serials from it
+export const COUNTER_SCOPE = "SBI_Branch_App_DB/counters";
+
+export function syncScope(dbName: string, storeName: string): string {
+  return `${dbName}/${storeName}`;
+}
+
+export function isSyncScope(scope: string): boolean {
+  return Object.prototype.hasOwnProperty.call(SYNC_SCOPES, scope);
+}
+
+export function isLocalOnlyKey(scope: string, key: string): boolean {
+  if (scope !== "SBI_Branch_App_DB/app_data") return false;
+  return LOCAL_ONLY_KEYS.includes(key) || LOCAL_ONLY_KEY_PREFIXES.some((p) => key.startsWith(p));
+}
+
+/** Whether a record of a scope travels through the sync server */
+export function isSyncedKey(scope: string, key: string): boolean {
+  return isSyncScope(scope) && !isLocalOnlyKey(scope, key);
+}
+
+// ============================================================
+// Protocol
+// ============================================================
+/** A record as the server holds it. `value` is the whole IndexedDB record. */
+export interface SyncRecord {
+  key: string;
+  value: any;          // null when deleted
+  deleted: boolean;
+  version: number;     // per-scope sequence number of the last write
+  updatedAt: number;   // client time of the edit (ms)
+  updatedBy: string;   // client id of the PC that made it
+}
+
+export interface SyncChange {
+  key: string;
+  value: any;
+  deleted: boolean;
+  baseVersion: number; // server version this edit was made on (0 = never synced)
+  updatedAt: number;
+}
+
+export interface SyncPushRequest {
+  clientId: string;
+  changes: SyncChange[];
+}
+
+/**
+ * - applied: no conflict, the change was stored
+ * - client-won / server-kept: conflict settled by last-writer (or max)
+ * - merged: conflict settled by merging both sides into a new version
+ */
+export type SyncResolution = "applied" | "client-won" | "server-kept" | "merged";
+
+export interface SyncPushResult {
+  key: string;
+  resolution: SyncResolution;
+  record: SyncRecord; // the server copy after the push
+}
+
+export interface SyncPushResponse {
+  results: SyncPushResult[];
+}
+
+export interface SyncChangesResponse {
+  records: SyncRecord[];
+  cursor: number;    // pass as `since` on the next request
+  hasMore: boolean;
+}
+
+export interface SyncStatusResponse {
+  serverTime: number;
+  scopes: Record<string, { seq: number; records: number }>;
+}
+
+/**
+ * Every request carries the branch sync key in this header; the server is
+ * started with the same key (SYNC_KEY) and refuses anything else.
+ */
+export const SYNC_KEY_HEADER = "X-Sync-Key";
+
+/**
+ * Serials wanted from one counter. `floor` is the highest serial this PC
+ * knows was issued, so records not yet pushed are never numbered over.
+ */
+export interface SerialRequest {
+  name: string;
+  count: number;
+  floor: number;
+}
+
+export interface SerialReservationRequest {
+  clientId: string;
+  requests: SerialRequest[];
+}
+
+export interface SerialReservationResponse {
+  first: Record<string, number>; // first serial reserved, by counter name
+}
+
+// Records per push or pull request
+export const SYNC_BATCH_SIZE = 500;
+
+// ============================================================
+// Conflict resolution
+// ============================================================
+function mergeListsById(server: any[], client: any[]): any[] | null {
+  const idOf = (item: any) => (item && typeof item === "object" && item.id !== undefined && item.id !== null ? String(item.id) : null);
+  if (!server.every((item) => idOf(item) !== null) || !client.every((item) => idOf(item) !== null)) return null;
+
+  // Server order first (edits from this client replace their item), then items only this client has
+  const clientById = new Map(client.map((item) => [idOf(item) as string, item]));
+  const merged = server.map((item) => clientById.get(idOf(item) as string) ?? item);
+  const serverIds = new Set(server.map(idOf));
+  for (const item of client) {
+    if (!serverIds.has(idOf(item))) merged.push(item);
+  }
+  return merged;
+}
+
+/**
+ * Settle a conflicting change against the server copy. Returns the value to
+ * store and how the conflict was resolved.
+ */
+export function resolveConflict(
+  policy: SyncPolicy,
+  server: SyncRecord,
+  change: SyncChange
+): { resolution: Exclude<SyncResolution, "applied">; value: any; deleted: boolean } {
+  const clientWins = change.updatedAt > server.updatedAt;
+  const lastWriter = clientWins
+    ? { resolution: "client-won" as const, value: change.value, deleted: change.deleted }
+    : { resolution: "server-kept" as const, value: server.value, deleted: server.deleted };
+
+  if (policy === "max") {
+    const serverCount = Number(server.value?.value) || 0;
+    const clientCount = Number(change.value?.value) || 0;
+    if (change.deleted || server.deleted) return lastWriter;
+    return clientCount > serverCount
+      ? { resolution: "client-won", value: change.value, deleted: false }
+      : { resolution: "server-kept", value: server.value, deleted: false };
+  }
+
+  if (policy === "merge") {
+    // An edit beats a delete — dropping someone's work silently is worse than a stale record
+    if (change.deleted !== server.deleted) {
+      return change.deleted
+        ? { resolution: "server-kept", value: server.value, deleted: false }
+        : { resolution: "client-won", value: change.value, deleted: false };
+    }
+    const serverList = server.value?.value;
+    const clientList = change.value?.value;
+    if (Array.isArray(serverList) && Array.isArray(clientList)) {
+      const merged = mergeListsById(serverList, clientList);
+      if (merged) {
+        return {
+          resolution: "merged",
+          value: { ...change.value, value: merged, timestamp: Math.max(server.updatedAt, change.updatedAt) },
+          deleted: false,
+        };
+      }
+    }
+  }
+
+  return lastWriter;
+}